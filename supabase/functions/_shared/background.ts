@@ -0,0 +1,14 @@
+/**
+ * Work that outlives the response, such as starting another edge function.
+ *
+ * A bare un-awaited promise can be dropped once the response is sent and the
+ * worker shuts down. EdgeRuntime.waitUntil keeps the worker alive until the
+ * promise settles. Outside the edge runtime (tests, `deno run`) the promise
+ * simply runs.
+ */
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined
+
+export function runInBackground(promise: Promise<unknown>) {
+  if (typeof EdgeRuntime !== 'undefined') EdgeRuntime.waitUntil(promise)
+}
@@ -0,0 +1,331 @@
+/**
+ * Chain access for the NFT functions.
+ *
+ * Functions talk to a ChainBackend rather than Blockfrost directly so the
+ * mint, transfer and burn flows can run offline against InMemoryChain, which
+ * validates and applies submitted transactions the way a node would (inputs
+ * exist, value is conserved, the fee covers the linear fee). Each accepted
+ * transaction lands in its own block; advance() and rollback() simulate
+ * confirmations and reorgs.
+ */
+
+import { addressBytes, bytesToHex, cborDecode, cborDecodePrefix, type CborValue } from './encoding.ts'
+import { blake2b256 } from './keys.ts'
+import type { ProtocolParams, Utxo } from './tx.ts'
+
+export interface ChainTip {
+  height: number
+  slot: number
+}
+
+/** Block a transaction was included in. */
+export interface ChainTx {
+  blockHeight: number
+  slot: number
+}
+
+export interface ChainBackend {
+  getUtxos(address: string): Promise<Utxo[]>
+  getProtocolParams(): Promise<ProtocolParams>
+  getLatestSlot(): Promise<number>
+  getTip(): Promise<ChainTip>
+  /** Where a transaction landed, or null if it is not on chain (yet, or any more). */
+  getTx(hash: string): Promise<ChainTx | null>
+  /** Submit a signed transaction; resolves to its transaction hash. */
+  submitTx(tx: Uint8Array): Promise<string>
+}
+
+// ====================================================================
+// Blockfrost
+// ====================================================================
+
+const BLOCKFROST_PAGE_SIZE = 100
+
+export interface BlockfrostBackend extends ChainBackend {
+  /** Raw GET against the Blockfrost API; throws on any non-2xx response. */
+  get(path: string): Promise<any>
+}
+
+/** Blockfrost client for one network; see networkBlockfrost() in platform.ts. */
+export function blockfrostBackend(projectId: string, baseUrl: string): BlockfrostBackend {
+  async function request(path: string, init: RequestInit = {}): Promise<Response> {
+    return fetch(`${baseUrl}${path}`, {
+      ...init,
+      headers: { 'project_id': projectId, ...init.headers },
+    })
+  }
+
+  async function get(path: string): Promise<any> {
+    const resp = await request(path)
+    if (!resp.ok) {
+      const body = await resp.text()
+      throw new Error(`Blockfrost ${path}: ${resp.status} ${body}`)
+    }
+    return resp.json()
+  }
+
+  return {
+    get,
+
+    async getUtxos(address) {
+      const utxos: Utxo[] = []
+      for (let page = 1; ; page++) {
+        const resp = await request(`/addresses/${address}/utxos?count=${BLOCKFROST_PAGE_SIZE}&page=${page}`)
+        // Blockfrost 404s for an address that has never held funds
+        if (resp.status === 404) return utxos
+        if (!resp.ok) {
+          const body = await resp.text()
+          throw new Error(`Blockfrost /addresses/${address}/utxos: ${resp.status} ${body}`)
+        }
+        const batch: Utxo[] = await resp.json()
+        utxos.push(...batch)
+        if (batch.length < BLOCKFROST_PAGE_SIZE) return utxos
+      }
+    },
+
+    async getProtocolParams() {
+      const params = await get('/epochs/latest/parameters')
+      return {
+        minFeeA: Number(params.min_fee_a),
+        minFeeB: Number(params.min_fee_b),
+        coinsPerUtxoByte: Number(params.coins_per_utxo_size),
+        maxTxSize: Number(params.max_tx_size),
+      }
+    },
+
+    async getLatestSlot() {
+      const block = await get('/blocks/latest')
+      return block.slot
+    },
+
+    async getTip() {
+      const block = await get('/blocks/latest')
+      return { height: block.height, slot: block.slot }
+    },
+
+    async getTx(hash) {
+      const resp = await request(`/txs/${hash}`)
+      if (resp.status === 404) return null
+      if (!resp.ok) {
+        const body = await resp.text()
+        throw new Error(`Blockfrost /txs/${hash}: ${resp.status} ${body}`)
+      }
+      const tx = await resp.json()
+      return { blockHeight: tx.block_height, slot: tx.slot }
+    },
+
+    async submitTx(tx) {
+      const resp = await request('/tx/submit', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/cbor' },
+        body: new Uint8Array(tx),
+      })
+      if (!resp.ok) {
+        const body = await resp.text()
+        throw new Error(`Blockfrost tx/submit: ${resp.status} ${body}`)
+      }
+      return resp.json()
+    },
+  }
+}
+
+// ====================================================================
+// In-memory chain (tests)
+// ====================================================================
+
+/** Preview-network protocol parameters. */
+export const PREVIEW_PROTOCOL_PARAMS: ProtocolParams = {
+  minFeeA: 44,
+  minFeeB: 155381,
+  coinsPerUtxoByte: 4310,
+  maxTxSize: 16384,
+}
+
+export interface InMemoryChain extends ChainBackend {
+  /** Add a UTxO at a bech32 address, e.g. to fund the platform wallet. */
+  fund(address: string, utxo: Utxo): void
+  /** Transactions on chain in order, decoded. */
+  submitted: { hash: string; cbor: Uint8Array; tx: CborValue[]; blockHeight: number; slot: number }[]
+  /** Reject the next submission with this message (simulates a node error). */
+  rejectNext(message: string): void
+  /** Produce `blocks` empty blocks, `slotsPerBlock` slots apart. */
+  advance(blocks: number, slotsPerBlock?: number): void
+  /** Drop a transaction as a rollback would: its outputs vanish, its inputs return. */
+  rollback(hash: string): void
+  slot: number
+  height: number
+}
+
+export function createInMemoryChain(
+  protocolParams: ProtocolParams = PREVIEW_PROTOCOL_PARAMS,
+  slot = 1_000_000,
+): InMemoryChain {
+  // Keyed by raw address hex so outputs decoded from CBOR land where getUtxos looks
+  const ledger = new Map<string, Utxo[]>()
+  let rejection: string | null = null
+  // Ledger changes per transaction, so rollback() can undo them
+  const effects = new Map<string, { spent: { addressHex: string; utxo: Utxo }[]; created: { addressHex: string; utxo: Utxo }[] }>()
+
+  const utxosAt = (addressHex: string) => {
+    if (!ledger.has(addressHex)) ledger.set(addressHex, [])
+    return ledger.get(addressHex)!
+  }
+
+  const chain: InMemoryChain = {
+    submitted: [],
+    slot,
+    height: 1,
+
+    fund(address, utxo) {
+      utxosAt(bytesToHex(addressBytes(address))).push(utxo)
+    },
+
+    rejectNext(message) {
+      rejection = message
+    },
+
+    advance(blocks, slotsPerBlock = 20) {
+      chain.height += blocks
+      chain.slot += blocks * slotsPerBlock
+    },
+
+    rollback(hash) {
+      const effect = effects.get(hash)
+      if (!effect) throw new Error(`Unknown transaction ${hash}`)
+      for (const { addressHex, utxo } of effect.created) {
+        const utxos = utxosAt(addressHex)
+        utxos.splice(utxos.indexOf(utxo), 1)
+      }
+      for (const { addressHex, utxo } of effect.spent) utxosAt(addressHex).push(utxo)
+      effects.delete(hash)
+      chain.submitted = chain.submitted.filter(s => s.hash !== hash)
+    },
+
+    getUtxos(address) {
+      return Promise.resolve(structuredClone(utxosAt(bytesToHex(addressBytes(address)))))
+    },
+
+    getProtocolParams() {
+      return Promise.resolve({ ...protocolParams })
+    },
+
+    getLatestSlot() {
+      return Promise.resolve(chain.slot)
+    },
+
+    getTip() {
+      return Promise.resolve({ height: chain.height, slot: chain.slot })
+    },
+
+    getTx(hash) {
+      const entry = chain.submitted.find(s => s.hash === hash)
+      return Promise.resolve(entry ? { blockHeight: entry.blockHeight, slot: entry.slot } : null)
+    },
+
+    submitTx(cbor) {
+      if (rejection) {
+        const message = rejection
+        rejection = null
+        return Promise.reject(new Error(`Tx rejected: ${message}`))
+      }
+
+      const tx = cborDecode(cbor) as CborValue[]
+      const body = tx[0] as Map<CborValue, CborValue>
+      // Hash the body exactly as submitted, not a re-encoding
+      const [, bodyLength] = cborDecodePrefix(cbor.subarray(1))
+      const hash = bytesToHex(blake2b256(cbor.slice(1, 1 + bodyLength)))
+
+      const inputs = body.get(0) as [Uint8Array, number][]
+      const outputs = body.get(1) as CborValue[]
+      const fee = body.get(2) as number
+      const ttl = body.get(3) as number | undefined
+      const mint = body.get(9) as Map<Uint8Array, Map<Uint8Array, number>> | undefined
+
+      if (ttl !== undefined && ttl <= chain.slot) {
+        return Promise.reject(new Error(`Tx rejected: expired at slot ${ttl}`))
+      }
+      const minFee = protocolParams.minFeeA * cbor.length + protocolParams.minFeeB
+      if (fee < minFee) {
+        return Promise.reject(new Error(`Tx rejected: fee ${fee} below minimum ${minFee}`))
+      }
+
+      // Resolve inputs
+      const spent: { addressHex: string; utxo: Utxo }[] = []
+      for (const [txHash, index] of inputs) {
+        const hashHex = bytesToHex(txHash)
+        const found = [...ledger.entries()].flatMap(([addressHex, utxos]) =>
+          utxos.filter(u => u.tx_hash === hashHex && u.output_index === index).map(utxo => ({ addressHex, utxo }))
+        )[0]
+        if (!found) return Promise.reject(new Error(`Tx rejected: BadInputsUTxO ${hashHex}#${index}`))
+        spent.push(found)
+      }
+
+      // Value conservation: inputs + mint = outputs + fee
+      const balance = new Map<string, bigint>()
+      const add = (unit: string, quantity: bigint) => balance.set(unit, (balance.get(unit) ?? 0n) + quantity)
+      for (const { utxo } of spent) {
+        for (const a of utxo.amount) add(a.unit, BigInt(a.quantity))
+      }
+      for (const [policyId, names] of mint ?? new Map()) {
+        for (const [name, quantity] of names) add(bytesToHex(policyId) + bytesToHex(name), BigInt(quantity))
+      }
+      const created: { addressHex: string; utxo: Utxo }[] = outputs.map((output, index) => {
+        const { address, amount, inlineDatum } = decodeOutput(output)
+        for (const a of amount) add(a.unit, -BigInt(a.quantity))
+        return {
+          addressHex: bytesToHex(address),
+          utxo: { tx_hash: hash, output_index: index, amount, inline_datum: inlineDatum },
+        }
+      })
+      add('lovelace', -BigInt(fee))
+      for (const [unit, quantity] of balance) {
+        if (quantity !== 0n) {
+          return Promise.reject(new Error(`Tx rejected: ValueNotConserved (${unit} off by ${quantity})`))
+        }
+      }
+
+      for (const { addressHex, utxo } of spent) {
+        const utxos = utxosAt(addressHex)
+        utxos.splice(utxos.indexOf(utxo), 1)
+      }
+      for (const { addressHex, utxo } of created) utxosAt(addressHex).push(utxo)
+      effects.set(hash, { spent, created })
+
+      // Include it in a new block (same slot, so later builds keep their TTLs)
+      chain.height += 1
+      chain.submitted.push({ hash, cbor, tx, blockHeight: chain.height, slot: chain.slot })
+      return Promise.resolve(hash)
+    },
+  }
+
+  return chain
+}
+
+function decodeOutput(output: CborValue): { address: Uint8Array; amount: Utxo['amount']; inlineDatum: string | null } {
+  let address: Uint8Array
+  let value: CborValue
+  let inlineDatum: string | null = null
+
+  if (output instanceof Map) {
+    address = output.get(0) as Uint8Array
+    value = output.get(1)
+    const datumOption = output.get(2) as [number, { tag: number; value: Uint8Array }] | undefined
+    if (datumOption?.[0] === 1) inlineDatum = bytesToHex(datumOption[1].value)
+  } else {
+    [address, value] = output as [Uint8Array, CborValue]
+  }
+
+  const amount: Utxo['amount'] = []
+  if (typeof value === 'number') {
+    amount.push({ unit: 'lovelace', quantity: String(value) })
+  } else {
+    const [coin, assets] = value as [number, Map<Uint8Array, Map<Uint8Array, number>>]
+    amount.push({ unit: 'lovelace', quantity: String(coin) })
+    for (const [policyId, names] of assets) {
+      for (const [name, quantity] of names) {
+        amount.push({ unit: bytesToHex(policyId) + bytesToHex(name), quantity: String(quantity) })
+      }
+    }
+  }
+  return { address, amount, inlineDatum }
+}
@@ -0,0 +1,59 @@
+/**
+ * CIP-68 ticket tokens: a (100) reference NFT held at the platform address
+ * with the ticket metadata as inline datum, and a (222) user token in the
+ * holder's wallet. Both share the asset name suffix derived from the ticket
+ * number, so mint, transfer and burn can find each other's tokens.
+ */
+
+import { cborMap, cborUint, plutusBytes, plutusConstr, plutusText, stringToHex } from './encoding.ts'
+
+export const CIP68_REFERENCE_LABEL = '000643b0' // (100) Reference NFT
+export const CIP68_USER_TOKEN_LABEL = '000de140' // (222) User Token
+
+export interface TicketAssetNames {
+  refAssetName: string
+  userAssetName: string
+}
+
+export function ticketAssetNames(ticketNumber: string): TicketAssetNames {
+  const nameHex = stringToHex(`TCKT${ticketNumber.replace(/[^A-Za-z0-9]/g, '')}`)
+  return {
+    refAssetName: CIP68_REFERENCE_LABEL + nameHex,
+    userAssetName: CIP68_USER_TOKEN_LABEL + nameHex,
+  }
+}
+
+export interface TicketDatumFields {
+  ticketId: string
+  ticketNumber: string
+  eventId: string
+  eventTitle: string
+  eventDate?: string | null
+  venue?: string | null
+  /** Holder's address; set once the ticket has been transferred. */
+  owner?: string | null
+}
+
+/**
+ * CIP-68 metadata datum: Constr 0 [metadata_map, version, extra].
+ * Plutus data has no text or null, so strings are byte strings and the
+ * unused `extra` field is an empty byte string.
+ */
+export function ticketDatum(fields: TicketDatumFields): number[] {
+  const metadata: [number[], number[]][] = [
+    [plutusText('name'), plutusText(`Tickety #${fields.ticketNumber}`)],
+    [plutusText('event'), plutusText(fields.eventTitle)],
+    [plutusText('event_id'), plutusText(fields.eventId)],
+    [plutusText('ticket_number'), plutusText(fields.ticketNumber)],
+    [plutusText('ticket_id'), plutusText(fields.ticketId)],
+  ]
+  if (fields.owner) metadata.push([plutusText('owner'), plutusText(fields.owner)])
+  if (fields.eventDate) metadata.push([plutusText('event_date'), plutusText(fields.eventDate)])
+  if (fields.venue) metadata.push([plutusText('venue'), plutusText(fields.venue)])
+
+  return plutusConstr(0, [
+    cborMap(metadata),
+    cborUint(1), // version
+    plutusBytes(new Uint8Array(0)),
+  ])
+}
@@ -0,0 +1,84 @@
+import { assertEquals } from 'https://deno.land/std@0.177.0/testing/asserts.ts'
+import {
+  addressBytes,
+  assessConfirmation,
+  bech32Encode,
+  buildTicketMintTx,
+  createInMemoryChain,
+  DEFAULT_TTL_SLOTS,
+  derivePaymentKeyFromMnemonic,
+  DROP_MARGIN_SLOTS,
+  keyHash,
+  pubKeyPolicy,
+  signTransaction,
+  ticketAssetNames,
+  ticketDatum,
+} from './mod.ts'
+
+const platformKey = derivePaymentKeyFromMnemonic(
+  'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about',
+)
+const platformAddress = bech32Encode('addr_test', new Uint8Array([0x60, ...keyHash(platformKey.publicKey)]))
+
+async function submittedMint() {
+  const chain = createInMemoryChain()
+  chain.fund(platformAddress, { tx_hash: 'aa'.repeat(32), output_index: 0, amount: [{ unit: 'lovelace', quantity: '20000000' }] })
+  const tx = buildTicketMintTx({
+    platformAddress: addressBytes(platformAddress),
+    platformUtxos: await chain.getUtxos(platformAddress),
+    buyerAddress: addressBytes(platformAddress),
+    policy: pubKeyPolicy(keyHash(platformKey.publicKey)),
+    names: ticketAssetNames('TKT-1042-0007'),
+    datum: ticketDatum({ ticketId: 't', ticketNumber: 'TKT-1042-0007', eventId: 'e', eventTitle: 'Harbour Lights' }),
+    protocolParams: await chain.getProtocolParams(),
+    currentSlot: await chain.getLatestSlot(),
+  })
+  const hash = await chain.submitTx(signTransaction(tx, [platformKey]).cbor)
+  return { chain, hash, ttlSlot: tx.ttl }
+}
+
+async function assess(chain: Awaited<ReturnType<typeof submittedMint>>['chain'], hash: string, ttlSlot: number | null) {
+  return assessConfirmation({
+    tx: await chain.getTx(hash),
+    tip: await chain.getTip(),
+    ttlSlot,
+    submittedAt: new Date(),
+    required: 5,
+  })
+}
+
+Deno.test('a transaction confirms once it is deep enough', async () => {
+  const { chain, hash, ttlSlot } = await submittedMint()
+  const blockHeight = chain.height
+
+  assertEquals(await assess(chain, hash, ttlSlot), { state: 'pending', confirmations: 1, blockHeight })
+  chain.advance(3)
+  assertEquals(await assess(chain, hash, ttlSlot), { state: 'pending', confirmations: 4, blockHeight })
+  chain.advance(1)
+  assertEquals(await assess(chain, hash, ttlSlot), { state: 'confirmed', confirmations: 5, blockHeight })
+})
+
+Deno.test('a rolled-back transaction stays pending until its TTL passes, then is dropped', async () => {
+  const { chain, hash, ttlSlot } = await submittedMint()
+  chain.advance(2)
+  chain.rollback(hash)
+  assertEquals(await chain.getUtxos(platformAddress).then(u => u.length), 1, 'inputs restored')
+
+  // Could still be re-included from the mempool
+  assertEquals((await assess(chain, hash, ttlSlot)).state, 'pending')
+
+  chain.slot = ttlSlot + DROP_MARGIN_SLOTS - 1
+  assertEquals((await assess(chain, hash, ttlSlot)).state, 'pending')
+  chain.slot = ttlSlot + DROP_MARGIN_SLOTS
+  assertEquals((await assess(chain, hash, ttlSlot)).state, 'dropped')
+})
+
+Deno.test('without a recorded TTL a missing transaction is dropped after the default window', () => {
+  const tip = { height: 100, slot: 5_000 }
+  const submittedAt = new Date('2026-05-01T12:00:00Z')
+  const at = (seconds: number) => new Date(submittedAt.getTime() + seconds * 1000)
+  const window = DEFAULT_TTL_SLOTS + DROP_MARGIN_SLOTS
+
+  assertEquals(assessConfirmation({ tx: null, tip, ttlSlot: null, submittedAt, now: at(window - 1) }).state, 'pending')
+  assertEquals(assessConfirmation({ tx: null, tip, ttlSlot: null, submittedAt, now: at(window + 1) }).state, 'dropped')
+})
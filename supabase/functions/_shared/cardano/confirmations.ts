@@ -0,0 +1,56 @@
+/**
+ * Confirmation tracking for submitted NFT transactions.
+ *
+ * A submit only means a node accepted the transaction into its mempool. It
+ * counts as landed once it is `required` blocks deep. A transaction that is
+ * not on chain (never included, or rolled back) can still land until its
+ * TTL slot passes; after that it never can, and the work must be redone.
+ */
+
+import type { ChainTip, ChainTx } from './chain.ts'
+import { DEFAULT_TTL_SLOTS } from './tx.ts'
+
+export const DEFAULT_REQUIRED_CONFIRMATIONS = 10
+
+// Slots past the TTL before a missing transaction counts as dropped, so a
+// block that is still being indexed isn't mistaken for a dropped tx
+export const DROP_MARGIN_SLOTS = 120
+
+export type TxConfirmation =
+  | { state: 'confirmed'; confirmations: number; blockHeight: number }
+  | { state: 'pending'; confirmations: number; blockHeight: number | null }
+  | { state: 'dropped'; reason: string }
+
+export function assessConfirmation(params: {
+  tx: ChainTx | null
+  tip: ChainTip
+  /** TTL slot recorded at submit; null for transactions submitted before TTLs were tracked. */
+  ttlSlot: number | null
+  submittedAt: Date
+  required?: number
+  now?: Date
+}): TxConfirmation {
+  const { tx, tip, ttlSlot, submittedAt } = params
+  const required = params.required ?? DEFAULT_REQUIRED_CONFIRMATIONS
+
+  if (tx) {
+    const confirmations = Math.max(0, tip.height - tx.blockHeight + 1)
+    return confirmations >= required
+      ? { state: 'confirmed', confirmations, blockHeight: tx.blockHeight }
+      : { state: 'pending', confirmations, blockHeight: tx.blockHeight }
+  }
+
+  if (ttlSlot !== null) {
+    if (tip.slot >= ttlSlot + DROP_MARGIN_SLOTS) {
+      return { state: 'dropped', reason: `Not on chain after TTL slot ${ttlSlot} (tip ${tip.slot})` }
+    }
+    return { state: 'pending', confirmations: 0, blockHeight: null }
+  }
+
+  // No TTL on record: fall back to the default validity window (one slot per second)
+  const ageMs = (params.now ?? new Date()).getTime() - submittedAt.getTime()
+  if (ageMs > (DEFAULT_TTL_SLOTS + DROP_MARGIN_SLOTS) * 1000) {
+    return { state: 'dropped', reason: `Not on chain ${Math.round(ageMs / 60_000)} minutes after submit` }
+  }
+  return { state: 'pending', confirmations: 0, blockHeight: null }
+}
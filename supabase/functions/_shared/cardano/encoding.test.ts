@@ -0,0 +1,99 @@
+import { assertEquals, assertThrows } from 'https://deno.land/std@0.177.0/testing/asserts.ts'
+import {
+  addressBytes,
+  bech32Decode,
+  bech32Encode,
+  bytesToHex,
+  cborArray,
+  cborBytes,
+  cborDecode,
+  cborInt,
+  cborMap,
+  cborTag,
+  cborText,
+  hexToBytes,
+  plutusBytes,
+  plutusConstr,
+} from './encoding.ts'
+
+const hex = (bytes: number[]) => bytesToHex(bytes)
+
+// RFC 8949 Appendix A
+Deno.test('cborInt matches RFC 8949 vectors', () => {
+  const vectors: [number, string][] = [
+    [0, '00'],
+    [1, '01'],
+    [23, '17'],
+    [24, '1818'],
+    [100, '1864'],
+    [1000, '1903e8'],
+    [1000000, '1a000f4240'],
+    [1000000000000, '1b000000e8d4a51000'],
+    [-1, '20'],
+    [-10, '29'],
+    [-100, '3863'],
+    [-1000, '3903e7'],
+  ]
+  for (const [value, expected] of vectors) {
+    assertEquals(hex(cborInt(value)), expected, `cborInt(${value})`)
+  }
+})
+
+Deno.test('cbor containers match RFC 8949 vectors', () => {
+  assertEquals(hex(cborBytes(hexToBytes('01020304'))), '4401020304')
+  assertEquals(hex(cborText('IETF')), '6449455446')
+  assertEquals(hex(cborText('ü')), '62c3bc')
+  assertEquals(hex(cborArray([cborInt(1), cborInt(2), cborInt(3)])), '83010203')
+  assertEquals(hex(cborMap([[cborInt(1), cborInt(2)], [cborInt(3), cborInt(4)]])), 'a201020304')
+  assertEquals(hex(cborTag(24, cborBytes(hexToBytes('6449455446')))), 'd818456449455446')
+})
+
+Deno.test('cborDecode round-trips encoded values', () => {
+  const encoded = new Uint8Array(cborMap([
+    [cborInt(0), cborArray([cborBytes(hexToBytes('ab')), cborInt(-5)])],
+    [cborInt(1), cborTag(121, cborArray([]))],
+  ]))
+  const decoded = cborDecode(encoded) as Map<unknown, unknown>
+  const first = decoded.get(0) as [Uint8Array, number]
+  assertEquals(bytesToHex(first[0]), 'ab')
+  assertEquals(first[1], -5)
+  assertEquals(decoded.get(1), { tag: 121, value: [] })
+  assertEquals(cborDecode(hexToBytes('1b000000e8d4a51000')), 1000000000000)
+})
+
+Deno.test('cborDecode rejects truncated and trailing input', () => {
+  assertThrows(() => cborDecode(hexToBytes('1903')), Error, 'Truncated')
+  assertThrows(() => cborDecode(hexToBytes('0101')), Error, 'Trailing bytes')
+})
+
+Deno.test('plutusBytes chunks byte strings longer than 64 bytes', () => {
+  const short = new Uint8Array(64).fill(0xaa)
+  assertEquals(hex(plutusBytes(short)), '5840' + 'aa'.repeat(64))
+
+  const long = new Uint8Array(65).fill(0xbb)
+  assertEquals(hex(plutusBytes(long)), '5f5840' + 'bb'.repeat(64) + '41bbff')
+  assertEquals(bytesToHex(cborDecode(new Uint8Array(plutusBytes(long))) as Uint8Array), 'bb'.repeat(65))
+})
+
+Deno.test('plutusConstr uses tags 121-127', () => {
+  assertEquals(hex(plutusConstr(0, [cborInt(1)])), 'd8798101')
+  assertEquals(hex(plutusConstr(6, [])), 'd87f80')
+  assertThrows(() => plutusConstr(7, []), Error, 'Unsupported Plutus constructor')
+})
+
+// CIP-19 test vectors (enterprise addresses for the reference payment key)
+Deno.test('bech32 decodes CIP-19 addresses', () => {
+  const keyHash = '9493315cd92eb5d8c4304e67b7e16ae36d61d34502694657811a2c8e'
+  assertEquals(bytesToHex(addressBytes('addr_test1vz2fxv2umyhttkxyxp8x0dlpdt3k6cwng5pxj3jhsydzerspjrlsz')), '60' + keyHash)
+  assertEquals(bytesToHex(addressBytes('addr1vx2fxv2umyhttkxyxp8x0dlpdt3k6cwng5pxj3jhsydzers66hrl8')), '61' + keyHash)
+})
+
+Deno.test('bech32 round-trips and verifies the checksum', () => {
+  const data = hexToBytes('609493315cd92eb5d8c4304e67b7e16ae36d61d34502694657811a2c8e')
+  const encoded = bech32Encode('addr_test', data)
+  assertEquals(encoded, 'addr_test1vz2fxv2umyhttkxyxp8x0dlpdt3k6cwng5pxj3jhsydzerspjrlsz')
+  assertEquals(bech32Decode(encoded).hrp, 'addr_test')
+
+  assertThrows(() => addressBytes('addr_test1vz2fxv2umyhttkxyxp8x0dlpdt3k6cwng5pxj3jhsydzerspjrlsq'), Error, 'checksum')
+  assertThrows(() => addressBytes('addr_test1vz2fxv2umyhttkxyxp8x0dlpdt3k6cwng5pxj3jhsydzerspjrlsb'), Error, 'character')
+})
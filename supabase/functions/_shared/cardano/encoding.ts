@@ -0,0 +1,320 @@
+/**
+ * Byte-level encodings for Cardano transactions: hex, CBOR and bech32.
+ *
+ * Encoders return plain `number[]` byte lists so they can be spread into
+ * each other while a transaction is assembled; wrap the final result in a
+ * Uint8Array before hashing or submitting.
+ */
+
+// ====================================================================
+// Hex
+// ====================================================================
+
+export function hexToBytes(hex: string): Uint8Array {
+  if (hex.length % 2 !== 0 || /[^0-9a-fA-F]/.test(hex)) {
+    throw new Error(`Invalid hex string (${hex.length} chars)`)
+  }
+  const bytes = new Uint8Array(hex.length / 2)
+  for (let i = 0; i < hex.length; i += 2) bytes[i / 2] = parseInt(hex.slice(i, i + 2), 16)
+  return bytes
+}
+
+export function bytesToHex(bytes: Uint8Array | number[]): string {
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+export function stringToHex(s: string): string {
+  return bytesToHex(new TextEncoder().encode(s))
+}
+
+// ====================================================================
+// CBOR encoder (RFC 8949, definite lengths)
+// ====================================================================
+
+/** Initial byte plus argument for a major type; covers the full 0..2^53 range. */
+export function cborHeader(majorType: number, value: number): number[] {
+  if (!Number.isSafeInteger(value) || value < 0) {
+    throw new Error(`CBOR argument out of range: ${value}`)
+  }
+  const mt = majorType << 5
+  if (value < 24) return [mt | value]
+  if (value < 256) return [mt | 24, value]
+  if (value < 65536) return [mt | 25, value >> 8, value & 0xff]
+  if (value < 4294967296) {
+    return [mt | 26, (value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff]
+  }
+  const hi = Math.floor(value / 4294967296)
+  const lo = value >>> 0
+  return [mt | 27, (hi >>> 24) & 0xff, (hi >>> 16) & 0xff, (hi >>> 8) & 0xff, hi & 0xff,
+    (lo >>> 24) & 0xff, (lo >>> 16) & 0xff, (lo >>> 8) & 0xff, lo & 0xff]
+}
+
+export function cborUint(value: number): number[] {
+  return cborHeader(0, value)
+}
+
+/** Signed integer: major type 0 for n >= 0, major type 1 (encoding -1-n) below zero. */
+export function cborInt(value: number): number[] {
+  return value >= 0 ? cborHeader(0, value) : cborHeader(1, -1 - value)
+}
+
+export function cborBytes(data: Uint8Array | number[]): number[] {
+  return [...cborHeader(2, data.length), ...data]
+}
+
+export function cborText(s: string): number[] {
+  const enc = new TextEncoder().encode(s)
+  return [...cborHeader(3, enc.length), ...enc]
+}
+
+export function cborArray(items: number[][]): number[] {
+  return [...cborHeader(4, items.length), ...items.flat()]
+}
+
+export function cborMap(entries: [number[], number[]][]): number[] {
+  return [...cborHeader(5, entries.length), ...entries.flat(2)]
+}
+
+export function cborTag(tagNum: number, content: number[]): number[] {
+  return [...cborHeader(6, tagNum), ...content]
+}
+
+export const CBOR_FALSE = [0xf4]
+export const CBOR_TRUE = [0xf5]
+export const CBOR_NULL = [0xf6]
+
+// ====================================================================
+// Plutus data
+// ====================================================================
+
+// The ledger rejects Plutus data byte strings longer than 64 bytes unless
+// they are split into chunks (indefinite-length encoding).
+const PLUTUS_BYTES_CHUNK = 64
+
+/** Byte string as Plutus data, chunked when longer than 64 bytes. */
+export function plutusBytes(data: Uint8Array | number[]): number[] {
+  if (data.length <= PLUTUS_BYTES_CHUNK) return cborBytes(data)
+  const out = [0x5f]
+  for (let i = 0; i < data.length; i += PLUTUS_BYTES_CHUNK) {
+    out.push(...cborBytes(Array.from(data.slice(i, i + PLUTUS_BYTES_CHUNK))))
+  }
+  out.push(0xff)
+  return out
+}
+
+/** Text as Plutus data — Plutus has no text type, so strings are UTF-8 bytes. */
+export function plutusText(s: string): number[] {
+  return plutusBytes(new TextEncoder().encode(s))
+}
+
+/** Constructor `index` (0–6) applied to `fields`: tag 121 + index. */
+export function plutusConstr(index: number, fields: number[][]): number[] {
+  if (index < 0 || index > 6) throw new Error(`Unsupported Plutus constructor index ${index}`)
+  return cborTag(121 + index, cborArray(fields))
+}
+
+// ====================================================================
+// CBOR decoder
+// ====================================================================
+
+export type CborValue =
+  | number
+  | bigint
+  | string
+  | boolean
+  | null
+  | undefined
+  | Uint8Array
+  | CborValue[]
+  | Map<CborValue, CborValue>
+  | CborTagged
+
+export interface CborTagged {
+  tag: number
+  value: CborValue
+}
+
+/**
+ * Decode a single CBOR item. Map keys keep their decoded form, so byte-string
+ * keys compare by identity — look them up by iterating entries.
+ */
+export function cborDecode(bytes: Uint8Array): CborValue {
+  const [value, length] = cborDecodePrefix(bytes)
+  if (length !== bytes.length) throw new Error(`Trailing bytes after CBOR item (${bytes.length - length})`)
+  return value
+}
+
+/** Decode the first CBOR item in `bytes`; returns it with its encoded length. */
+export function cborDecodePrefix(bytes: Uint8Array): [CborValue, number] {
+  let pos = 0
+
+  const readArg = (info: number): number | bigint => {
+    if (info < 24) return info
+    const size = info === 24 ? 1 : info === 25 ? 2 : info === 26 ? 4 : info === 27 ? 8 : 0
+    if (size === 0) throw new Error(`Unsupported CBOR additional info ${info} at ${pos}`)
+    if (pos + size > bytes.length) throw new Error('Truncated CBOR')
+    let n = 0n
+    for (let i = 0; i < size; i++) n = (n << 8n) | BigInt(bytes[pos++])
+    return n <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(n) : n
+  }
+
+  const readItem = (): CborValue => {
+    if (pos >= bytes.length) throw new Error('Truncated CBOR')
+    const initial = bytes[pos++]
+    const major = initial >> 5
+    const info = initial & 0x1f
+
+    if (info === 31) {
+      // Indefinite length: byte/text strings concatenate chunks, arrays/maps run to 0xff
+      const chunks: CborValue[] = []
+      const entries: [CborValue, CborValue][] = []
+      while (bytes[pos] !== 0xff) {
+        if (major === 5) entries.push([readItem(), readItem()])
+        else chunks.push(readItem())
+      }
+      pos++
+      if (major === 2) {
+        const parts = chunks as Uint8Array[]
+        const out = new Uint8Array(parts.reduce((n, c) => n + c.length, 0))
+        let offset = 0
+        for (const c of parts) { out.set(c, offset); offset += c.length }
+        return out
+      }
+      if (major === 3) return (chunks as string[]).join('')
+      if (major === 4) return chunks
+      if (major === 5) return new Map(entries)
+      throw new Error(`Invalid indefinite-length major type ${major}`)
+    }
+
+    switch (major) {
+      case 0:
+        return readArg(info)
+      case 1: {
+        const n = readArg(info)
+        return typeof n === 'bigint' ? -1n - n : -1 - n
+      }
+      case 2:
+      case 3: {
+        const len = Number(readArg(info))
+        if (pos + len > bytes.length) throw new Error('Truncated CBOR')
+        const data = bytes.slice(pos, pos + len)
+        pos += len
+        return major === 2 ? data : new TextDecoder().decode(data)
+      }
+      case 4: {
+        const len = Number(readArg(info))
+        const items: CborValue[] = []
+        for (let i = 0; i < len; i++) items.push(readItem())
+        return items
+      }
+      case 5: {
+        const len = Number(readArg(info))
+        const map = new Map<CborValue, CborValue>()
+        for (let i = 0; i < len; i++) {
+          const key = readItem()
+          map.set(key, readItem())
+        }
+        return map
+      }
+      case 6:
+        return { tag: Number(readArg(info)), value: readItem() }
+      default:
+        if (info === 20) return false
+        if (info === 21) return true
+        if (info === 22) return null
+        if (info === 23) return undefined
+        throw new Error(`Unsupported CBOR simple value ${info}`)
+    }
+  }
+
+  const value = readItem()
+  return [value, pos]
+}
+
+// ====================================================================
+// Bech32 (BIP-173; Cardano addresses exceed the 90-char limit)
+// ====================================================================
+
+const BECH32_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l'
+const BECH32_GENERATOR = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3]
+
+function bech32Polymod(values: number[]): number {
+  let chk = 1
+  for (const v of values) {
+    const top = chk >> 25
+    chk = ((chk & 0x1ffffff) << 5) ^ v
+    for (let i = 0; i < 5; i++) {
+      if ((top >> i) & 1) chk ^= BECH32_GENERATOR[i]
+    }
+  }
+  return chk
+}
+
+function bech32HrpExpand(hrp: string): number[] {
+  const high: number[] = []
+  const low: number[] = []
+  for (const c of hrp) {
+    high.push(c.charCodeAt(0) >> 5)
+    low.push(c.charCodeAt(0) & 31)
+  }
+  return [...high, 0, ...low]
+}
+
+function convertBits(data: ArrayLike<number>, from: number, to: number, pad: boolean): number[] {
+  let acc = 0
+  let bits = 0
+  const out: number[] = []
+  const maxv = (1 << to) - 1
+  for (let i = 0; i < data.length; i++) {
+    acc = (acc << from) | data[i]
+    bits += from
+    while (bits >= to) {
+      bits -= to
+      out.push((acc >> bits) & maxv)
+    }
+  }
+  if (pad) {
+    if (bits > 0) out.push((acc << (to - bits)) & maxv)
+  } else if (bits >= from || ((acc << (to - bits)) & maxv)) {
+    throw new Error('Invalid bech32 padding')
+  }
+  return out
+}
+
+export function bech32Encode(hrp: string, data: Uint8Array): string {
+  const words = convertBits(data, 8, 5, true)
+  const polymod = bech32Polymod([...bech32HrpExpand(hrp), ...words, 0, 0, 0, 0, 0, 0]) ^ 1
+  const checksum = [0, 1, 2, 3, 4, 5].map(i => (polymod >> (5 * (5 - i))) & 31)
+  return hrp + '1' + [...words, ...checksum].map(w => BECH32_CHARSET[w]).join('')
+}
+
+/** Decode and checksum-verify a bech32 string. */
+export function bech32Decode(value: string): { hrp: string; data: Uint8Array } {
+  if (value !== value.toLowerCase() && value !== value.toUpperCase()) {
+    throw new Error('Invalid bech32 string: mixed case')
+  }
+  const lower = value.toLowerCase()
+  const sepIndex = lower.lastIndexOf('1')
+  if (sepIndex < 1 || sepIndex + 7 > lower.length) throw new Error('Invalid bech32 string')
+
+  const hrp = lower.substring(0, sepIndex)
+  const words: number[] = []
+  for (const c of lower.substring(sepIndex + 1)) {
+    const idx = BECH32_CHARSET.indexOf(c)
+    if (idx < 0) throw new Error('Invalid bech32 character')
+    words.push(idx)
+  }
+  if (bech32Polymod([...bech32HrpExpand(hrp), ...words]) !== 1) {
+    throw new Error('Invalid bech32 checksum')
+  }
+  return { hrp, data: new Uint8Array(convertBits(words.slice(0, -6), 5, 8, false)) }
+}
+
+/** Raw address bytes for a bech32 Cardano address (addr1… / addr_test1…). */
+export function addressBytes(bech32Address: string): Uint8Array {
+  return bech32Decode(bech32Address).data
+}
+
+export function bech32ToHex(bech32Address: string): string {
+  return bytesToHex(addressBytes(bech32Address))
+}
@@ -0,0 +1,67 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.177.0/testing/asserts.ts'
+import { ed25519 } from 'https://esm.sh/@noble/curves@1.3.0/ed25519'
+import { sha512 } from 'https://esm.sh/@noble/hashes@1.3.3/sha512'
+import { bytesToHex, hexToBytes } from './encoding.ts'
+import {
+  bip32Ed25519Sign,
+  blake2b224,
+  blake2b256,
+  derivePaymentKeyFromMnemonic,
+  keyHash,
+  publicKeyFromExtended,
+  type SigningKey,
+} from './keys.ts'
+
+Deno.test('blake2b digests match reference vectors', () => {
+  const empty = new Uint8Array(0)
+  assertEquals(bytesToHex(blake2b224(empty)), '836cc68931c2e4e3e838602eca1902591d216837bafddfe6f0c8cb07')
+  assertEquals(bytesToHex(blake2b256(empty)), '0e5751c026e543b2e8ab2eb06099daa1d1e5df47778f7787faab45cdf12fe3a8')
+})
+
+// An RFC 8032 secret expands to kL || kR = SHA-512(secret) with kL clamped, so
+// BIP32-Ed25519 signing with that extended key must produce the RFC signature.
+function expandRfc8032Secret(secretHex: string): SigningKey {
+  const h = sha512(hexToBytes(secretHex))
+  const kL = h.slice(0, 32)
+  kL[0] &= 0xf8
+  kL[31] &= 0x7f
+  kL[31] |= 0x40
+  return { kL, kR: h.slice(32, 64), publicKey: publicKeyFromExtended(kL) }
+}
+
+Deno.test('bip32Ed25519Sign reproduces RFC 8032 test vectors', () => {
+  const vectors = [
+    {
+      secret: '9d61b19deffd5a60ba844af492ec2cc44449c5697b326919703bac031cae7f60',
+      publicKey: 'd75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a',
+      message: '',
+      signature: 'e5564300c360ac729086e2cc806e828a84877f1eb8e5d974d873e065224901555fb8821590a33bacc61e39701cf9b46bd25bf5f0595bbe24655141438e7a100b',
+    },
+    {
+      secret: '4ccd089b28ff96da9db6c346ec114e0f5b8a319f35aba624da8cf6ed4fb8a6fb',
+      publicKey: '3d4017c3e843895a92b70aa74d1b7ebc9c982ccf2ec4968cc0cd55f12af4660c',
+      message: '72',
+      signature: '92a009a9f0d4cab8720e820b5f642540a2b27b5416503f8fb3762223ebdb69da085ac1e43e15996e458f3613d0f11d8c387b2eaeb4302aeeb00d291612bb0c00',
+    },
+  ]
+  for (const v of vectors) {
+    const key = expandRfc8032Secret(v.secret)
+    assertEquals(bytesToHex(key.publicKey), v.publicKey)
+    assertEquals(bytesToHex(bip32Ed25519Sign(hexToBytes(v.message), key)), v.signature)
+  }
+})
+
+// CIP-19 derives its reference addresses from this mnemonic at m/1852'/1815'/0'/0/0
+const CIP19_MNEMONIC = 'test walk nut penalty hip pave soap entry language right filter choice'
+
+Deno.test('derivePaymentKeyFromMnemonic matches the CIP-19 payment key', () => {
+  const key = derivePaymentKeyFromMnemonic(CIP19_MNEMONIC)
+  assertEquals(bytesToHex(keyHash(key.publicKey)), '9493315cd92eb5d8c4304e67b7e16ae36d61d34502694657811a2c8e')
+})
+
+Deno.test('signatures from derived keys verify as plain Ed25519', () => {
+  const key = derivePaymentKeyFromMnemonic(CIP19_MNEMONIC)
+  const message = blake2b256(new TextEncoder().encode('tickety'))
+  const signature = bip32Ed25519Sign(message, key)
+  assert(ed25519.verify(signature, message, key.publicKey))
+})
@@ -0,0 +1,224 @@
+/**
+ * Hashing, BIP32-Ed25519 signing and CIP-1852 key derivation.
+ *
+ * Cardano HD keys are extended Ed25519 keys: kL is used as the scalar
+ * directly (it is never re-hashed the way RFC 8032 seeds are) and kR seeds
+ * the signing nonce. Keys exported from cardano-cli or a wallet are 64-byte
+ * kL || kR, optionally followed by a 32-byte chain code.
+ */
+
+import { ed25519 } from 'https://esm.sh/@noble/curves@1.3.0/ed25519'
+import { sha512 } from 'https://esm.sh/@noble/hashes@1.3.3/sha512'
+import { blake2b as _blake2b } from 'https://esm.sh/@noble/hashes@1.3.3/blake2b'
+import { hmac } from 'https://esm.sh/@noble/hashes@1.3.3/hmac'
+import { pbkdf2 as _pbkdf2 } from 'https://esm.sh/@noble/hashes@1.3.3/pbkdf2'
+import { mnemonicToEntropy } from 'https://esm.sh/@scure/bip39@1.2.2'
+import { wordlist } from 'https://esm.sh/@scure/bip39@1.2.2/wordlists/english'
+import { hexToBytes } from './encoding.ts'
+
+export interface SigningKey {
+  kL: Uint8Array
+  kR: Uint8Array
+  publicKey: Uint8Array
+}
+
+// Ed25519 curve order
+const ED25519_L = 2n ** 252n + 27742317777372353535851937790883648493n
+
+// ====================================================================
+// Blake2b
+// ====================================================================
+
+export function blake2b224(input: Uint8Array): Uint8Array {
+  return _blake2b(input, { dkLen: 28 })
+}
+
+export function blake2b256(input: Uint8Array): Uint8Array {
+  return _blake2b(input, { dkLen: 32 })
+}
+
+/** Payment/policy key hash: blake2b-224 of the raw public key. */
+export function keyHash(publicKey: Uint8Array): Uint8Array {
+  return blake2b224(publicKey)
+}
+
+// ====================================================================
+// Platform key
+// ====================================================================
+
+/**
+ * Extended signing key from hex. Without a verify key the public key is
+ * derived from kL as a plain Ed25519 seed, which is wrong for HD keys —
+ * always pass the verify key. checkedSigningKey() in platform.ts enforces
+ * this on mainnet.
+ */
+export function signingKeyFromHex(signingKeyHex: string, verifyKeyHex = ''): SigningKey {
+  const fullKey = hexToBytes(signingKeyHex)
+  const kL = fullKey.slice(0, 32)
+  const kR = fullKey.length >= 64 ? fullKey.slice(32, 64) : new Uint8Array(32)
+  const publicKey = verifyKeyHex
+    ? hexToBytes(verifyKeyHex)
+    : ed25519.getPublicKey(kL) // fallback (wrong for HD keys)
+  return { kL, kR, publicKey }
+}
+
+// ====================================================================
+// BIP32-Ed25519 signing
+// ====================================================================
+
+/** Sign with an extended key: kL is the scalar, kR seeds the nonce. */
+export function bip32Ed25519Sign(message: Uint8Array, key: SigningKey): Uint8Array {
+  const a = bytesToBigIntLE(key.kL)
+
+  // r = SHA-512(kR || message) mod L
+  const nonceInput = new Uint8Array(key.kR.length + message.length)
+  nonceInput.set(key.kR)
+  nonceInput.set(message, key.kR.length)
+  const r = modL(bytesToBigIntLE(sha512(nonceInput)))
+
+  // R = r * G
+  const R = ed25519.ExtendedPoint.BASE.multiply(r).toRawBytes()
+
+  // h = SHA-512(R || publicKey || message) mod L
+  const hInput = new Uint8Array(32 + 32 + message.length)
+  hInput.set(R)
+  hInput.set(key.publicKey, 32)
+  hInput.set(message, 64)
+  const h = modL(bytesToBigIntLE(sha512(hInput)))
+
+  // S = (r + h * a) mod L
+  const S = modL(r + h * a)
+
+  const sig = new Uint8Array(64)
+  sig.set(R)
+  sig.set(bigIntToBytesLE(S, 32), 32)
+  return sig
+}
+
+export function publicKeyFromExtended(extKey: Uint8Array): Uint8Array {
+  const scalar = modL(bytesToBigIntLE(extKey.slice(0, 32)))
+  return ed25519.ExtendedPoint.BASE.multiply(scalar).toRawBytes()
+}
+
+// ====================================================================
+// CIP-1852 derivation from a mnemonic
+// ====================================================================
+
+// CIP-3 Icarus master key: PBKDF2-HMAC-SHA512(password = "", salt = BIP39
+// entropy, 4096 rounds, 96 bytes). Matches the app's cardano_flutter_sdk
+// wallets, which is where user_wallets mnemonics come from.
+function deriveMasterKey(mnemonic: string): Uint8Array {
+  const entropy = mnemonicToEntropy(mnemonic.normalize('NFKD'), wordlist)
+  const masterKey = _pbkdf2(sha512, new Uint8Array(0), entropy, { c: 4096, dkLen: 96 })
+  clampScalar(masterKey)
+  return masterKey // kL(32) + kR(32) + chainCode(32)
+}
+
+function clampScalar(kL: Uint8Array) {
+  kL[0] &= 0xf8
+  kL[31] &= 0x1f
+  kL[31] |= 0x40
+}
+
+function indexLE(index: number): Uint8Array {
+  const buf = new Uint8Array(4)
+  buf[0] = index & 0xff
+  buf[1] = (index >>> 8) & 0xff
+  buf[2] = (index >>> 16) & 0xff
+  buf[3] = (index >>> 24) & 0xff
+  return buf
+}
+
+// BIP32-Ed25519 child derivation. Hardened children mix in the private key
+// (tags 0x00/0x01), soft children the public key (tags 0x02/0x03).
+function deriveChild(parentKey: Uint8Array, index: number, hardened: boolean): Uint8Array {
+  const kL = parentKey.slice(0, 32)
+  const kR = parentKey.slice(32, 64)
+  const cc = parentKey.slice(64, 96)
+  const idx = indexLE(hardened ? (0x80000000 + index) >>> 0 : index)
+
+  const keyMaterial = hardened
+    ? new Uint8Array([...kL, ...kR])
+    : publicKeyFromExtended(parentKey)
+  const [zTag, cTag] = hardened ? [0x00, 0x01] : [0x02, 0x03]
+
+  const Z = hmac(sha512, cc, new Uint8Array([zTag, ...keyMaterial, ...idx]))
+  const C = hmac(sha512, cc, new Uint8Array([cTag, ...keyMaterial, ...idx]))
+
+  // child_kL = 8 * zL[0..28] + kL, child_kR = zR + kR (both mod 2^256, little-endian).
+  // Only the master key is clamped; children inherit the bit pattern.
+  const childKL = addLE32(mul8LE28(Z.slice(0, 28)), kL)
+  const childKR = addLE32(Z.slice(32, 64), kR)
+
+  const result = new Uint8Array(96)
+  result.set(childKL, 0)
+  result.set(childKR, 32)
+  result.set(C.slice(32, 64), 64)
+  return result
+}
+
+/** Payment key m/1852'/1815'/0'/0/0 for a custodial wallet mnemonic. */
+export function derivePaymentKeyFromMnemonic(mnemonic: string): SigningKey {
+  const masterKey = deriveMasterKey(mnemonic)
+  const accountKey = deriveChild(deriveChild(deriveChild(masterKey, 1852, true), 1815, true), 0, true)
+  const addrKey = deriveChild(deriveChild(accountKey, 0, false), 0, false)
+
+  return {
+    kL: addrKey.slice(0, 32),
+    kR: addrKey.slice(32, 64),
+    publicKey: publicKeyFromExtended(addrKey),
+  }
+}
+
+// ====================================================================
+// Little-endian scalar arithmetic
+// ====================================================================
+
+function modL(a: bigint): bigint {
+  return ((a % ED25519_L) + ED25519_L) % ED25519_L
+}
+
+function bytesToBigIntLE(bytes: Uint8Array): bigint {
+  let result = 0n
+  for (let i = bytes.length - 1; i >= 0; i--) {
+    result = (result << 8n) | BigInt(bytes[i])
+  }
+  return result
+}
+
+function bigIntToBytesLE(n: bigint, len: number): Uint8Array {
+  const result = new Uint8Array(len)
+  for (let i = 0; i < len; i++) {
+    result[i] = Number(n & 0xffn)
+    n >>= 8n
+  }
+  return result
+}
+
+// 28-byte little-endian value * 8, widened to 32 bytes
+function mul8LE28(bytes28: Uint8Array): Uint8Array {
+  const result = new Uint8Array(32)
+  let carry = 0
+  for (let i = 0; i < 28; i++) {
+    const v = bytes28[i] * 8 + carry
+    result[i] = v & 0xff
+    carry = v >> 8
+  }
+  for (let i = 28; i < 32; i++) {
+    result[i] = carry & 0xff
+    carry >>= 8
+  }
+  return result
+}
+
+// Sum of two 32-byte little-endian integers mod 2^256
+function addLE32(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const result = new Uint8Array(32)
+  let carry = 0
+  for (let i = 0; i < 32; i++) {
+    const s = a[i] + b[i] + carry
+    result[i] = s & 0xff
+    carry = s >> 8
+  }
+  return result
+}
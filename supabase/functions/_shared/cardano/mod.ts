@@ -0,0 +1,25 @@
+/**
+ * Shared Cardano toolkit for the NFT edge functions (mint-ticket-nft,
+ * transfer-ticket-nft, refresh-ticket-nfts, burn-expired-nfts, confirm-nft-txs).
+ *
+ * - encoding.ts:       hex, CBOR encode/decode, Plutus data, bech32
+ * - keys.ts:           Blake2b, BIP32-Ed25519 signing, CIP-1852 mnemonic derivation
+ * - tx.ts:             transaction builder with coin selection, min-UTxO and fee sizing
+ * - cip68.ts:          ticket asset names and metadata datum
+ * - ticket-txs.ts:     mint (single and batched), transfer, burn and datum refresh transactions for ticket NFTs
+ * - chain.ts:          ChainBackend interface, Blockfrost backend, in-memory chain
+ * - confirmations.ts:  confirmation depth and dropped-transaction detection
+ * - platform.ts:       network selection (preview/preprod/mainnet) and platform signing keys
+ *
+ * Golden vectors in test/vectors.json pin the exact bytes; any change to an
+ * encoder or the builder must update them deliberately.
+ */
+
+export * from './encoding.ts'
+export * from './keys.ts'
+export * from './tx.ts'
+export * from './cip68.ts'
+export * from './ticket-txs.ts'
+export * from './chain.ts'
+export * from './confirmations.ts'
+export * from './platform.ts'
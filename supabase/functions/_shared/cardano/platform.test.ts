@@ -0,0 +1,121 @@
+import { assertEquals, assertThrows } from 'https://deno.land/std@0.177.0/testing/asserts.ts'
+import {
+  assertNetworkAddress,
+  bytesToHex,
+  CardanoConfigError,
+  cardanoNetwork,
+  checkedSigningKey,
+  derivePaymentKeyFromMnemonic,
+  enterpriseAddress,
+  keyHash,
+  networkBlockfrost,
+  type PlatformKeyRecord,
+  pubKeyPolicy,
+  resolvePlatformCardano,
+  type SigningKey,
+} from './mod.ts'
+
+const oldKey = derivePaymentKeyFromMnemonic(
+  'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about',
+)
+const newKey = derivePaymentKeyFromMnemonic(
+  'test walk nut penalty hip pave soap entry language right filter choice',
+)
+
+const signingHex = (key: SigningKey) => bytesToHex(key.kL) + bytesToHex(key.kR)
+const policyOf = (key: SigningKey) => pubKeyPolicy(keyHash(key.publicKey)).policyId
+
+function record(key: SigningKey, status: 'active' | 'retired', secret: string, network: 'preview' | 'mainnet' = 'preview'): PlatformKeyRecord {
+  return {
+    id: secret.toLowerCase(),
+    network,
+    status,
+    policy_id: policyOf(key),
+    verify_key: bytesToHex(key.publicKey),
+    address: enterpriseAddress(key.publicKey, network),
+    signing_key_secret: secret,
+  }
+}
+
+const envOf = (vars: Record<string, string>) => (name: string) => vars[name]
+
+Deno.test('network defaults to preview and rejects unknown names', () => {
+  assertEquals(cardanoNetwork({}), 'preview')
+  assertEquals(cardanoNetwork({ network: 'mainnet' }), 'mainnet')
+  assertThrows(() => cardanoNetwork({ network: 'testnet' }), CardanoConfigError, 'Unknown Cardano network')
+})
+
+Deno.test('only preview may fall back to the shared Blockfrost project', () => {
+  networkBlockfrost('preview', envOf({}))
+  assertThrows(() => networkBlockfrost('mainnet', envOf({})), CardanoConfigError, 'must be set on mainnet')
+  assertThrows(() => networkBlockfrost('preprod', envOf({})), CardanoConfigError, 'must be set on preprod')
+  assertThrows(
+    () => networkBlockfrost('mainnet', envOf({ BLOCKFROST_PROJECT_ID: 'previewABC' })),
+    CardanoConfigError,
+    'not a mainnet project',
+  )
+  networkBlockfrost('mainnet', envOf({ BLOCKFROST_PROJECT_ID: 'mainnetABC' }))
+})
+
+Deno.test('addresses are checked against the network', () => {
+  assertNetworkAddress(enterpriseAddress(oldKey.publicKey, 'preview'), 'preprod')
+  assertNetworkAddress(enterpriseAddress(oldKey.publicKey, 'mainnet'), 'mainnet')
+  assertThrows(() => assertNetworkAddress(enterpriseAddress(oldKey.publicKey, 'preview'), 'mainnet'), Error, 'not a mainnet address')
+  assertThrows(() => assertNetworkAddress(enterpriseAddress(oldKey.publicKey, 'mainnet'), 'preview'), Error, 'not a preview address')
+})
+
+Deno.test('mainnet refuses the derived verify key fallback and mismatched pairs', () => {
+  const hex = signingHex(oldKey)
+  assertThrows(() => checkedSigningKey(hex, '', 'mainnet'), CardanoConfigError, 'verify key is required')
+  assertThrows(
+    () => checkedSigningKey(hex, bytesToHex(newKey.publicKey), 'preview'),
+    CardanoConfigError,
+    'does not match',
+  )
+  assertEquals(checkedSigningKey(hex, bytesToHex(oldKey.publicKey), 'mainnet').publicKey, oldKey.publicKey)
+  // Testnets keep the old behaviour for keys without a verify key
+  checkedSigningKey(hex, '', 'preview')
+})
+
+Deno.test('retired keys still resolve for their policy after a rotation', () => {
+  const cardano = resolvePlatformCardano({}, [
+    record(newKey, 'active', 'KEY_2'),
+    record(oldKey, 'retired', 'KEY_1'),
+  ], envOf({ KEY_1: signingHex(oldKey), KEY_2: signingHex(newKey) }))
+
+  assertEquals(cardano.active().policy.policyId, policyOf(newKey))
+  assertEquals(cardano.keyForPolicy(policyOf(oldKey)).keys.publicKey, oldKey.publicKey)
+  assertEquals(cardano.keyForPolicy(policyOf(oldKey)).address, enterpriseAddress(oldKey.publicKey, 'preview'))
+  assertThrows(() => cardano.keyForPolicy('00'.repeat(28)), CardanoConfigError, 'No signing key for policy')
+})
+
+Deno.test('keys are resolved lazily and per network', () => {
+  // The retired key's secret is gone: only its own policy is affected
+  const cardano = resolvePlatformCardano({}, [
+    record(newKey, 'active', 'KEY_2'),
+    record(oldKey, 'retired', 'KEY_1'),
+    record(oldKey, 'active', 'MAINNET_KEY', 'mainnet'),
+  ], envOf({ KEY_2: signingHex(newKey) }))
+
+  assertEquals(cardano.active().id, 'key_2')
+  assertThrows(() => cardano.keyForPolicy(policyOf(oldKey)), CardanoConfigError, 'KEY_1 is not set')
+})
+
+Deno.test('legacy secrets work on testnets but need a verify key on mainnet', () => {
+  const legacyEnv = { PLATFORM_CARDANO_SIGNING_KEY: signingHex(oldKey) }
+  const preview = resolvePlatformCardano(
+    { minting_address: enterpriseAddress(oldKey.publicKey, 'preview') }, [], envOf(legacyEnv),
+  )
+  assertEquals(preview.active().id, null)
+
+  const mainnetConfig = { network: 'mainnet', minting_address: enterpriseAddress(oldKey.publicKey, 'mainnet') }
+  const mainnetEnv = { ...legacyEnv, BLOCKFROST_PROJECT_ID: 'mainnetABC' }
+  assertThrows(() => resolvePlatformCardano(mainnetConfig, [], envOf(mainnetEnv)).active(), CardanoConfigError, 'verify key is required')
+
+  const mainnet = resolvePlatformCardano(mainnetConfig, [], envOf({
+    ...mainnetEnv,
+    PLATFORM_CARDANO_VERIFY_KEY: bytesToHex(oldKey.publicKey),
+  }))
+  assertEquals(mainnet.active().policy.policyId, policyOf(oldKey))
+  assertEquals(mainnet.keyForPolicy(policyOf(oldKey)).id, null)
+})
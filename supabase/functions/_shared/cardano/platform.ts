@@ -0,0 +1,235 @@
+/**
+ * Network selection and platform signing keys.
+ *
+ * The network (preview, preprod or mainnet) comes from the `network` row of
+ * platform_cardano_config. Signing keys are listed in platform_signing_keys:
+ * one active key per network signs new mints, retired keys stay available so
+ * tickets minted under their policy can still be transferred and burned. The
+ * private key itself never touches the database; each row names the Edge
+ * Function secret that holds it.
+ *
+ * Testnets keep the development fallbacks (the shared preview Blockfrost
+ * project, the legacy PLATFORM_CARDANO_* secrets without a verify key).
+ * Mainnet refuses both.
+ */
+
+import { bech32Decode, bech32Encode, bytesToHex, hexToBytes } from './encoding.ts'
+import { keyHash, publicKeyFromExtended, signingKeyFromHex, type SigningKey } from './keys.ts'
+import { type NativePolicy, pubKeyPolicy } from './tx.ts'
+import { type BlockfrostBackend, blockfrostBackend } from './chain.ts'
+
+export type CardanoNetwork = 'preview' | 'preprod' | 'mainnet'
+
+export interface NetworkInfo {
+  blockfrostBase: string
+  /** Header nibble of Shelley addresses on this network. */
+  networkId: 0 | 1
+  addressPrefix: 'addr' | 'addr_test'
+  explorerUrl: string
+}
+
+export const NETWORKS: Record<CardanoNetwork, NetworkInfo> = {
+  preview: {
+    blockfrostBase: 'https://cardano-preview.blockfrost.io/api/v0',
+    networkId: 0,
+    addressPrefix: 'addr_test',
+    explorerUrl: 'https://preview.cardanoscan.io',
+  },
+  preprod: {
+    blockfrostBase: 'https://cardano-preprod.blockfrost.io/api/v0',
+    networkId: 0,
+    addressPrefix: 'addr_test',
+    explorerUrl: 'https://preprod.cardanoscan.io',
+  },
+  mainnet: {
+    blockfrostBase: 'https://cardano-mainnet.blockfrost.io/api/v0',
+    networkId: 1,
+    addressPrefix: 'addr',
+    explorerUrl: 'https://cardanoscan.io',
+  },
+}
+
+// Shared development project, only ever used on preview
+const PREVIEW_FALLBACK_PROJECT_ID = 'previewVA5jY9V686T1apRZItmlqZUf5jOEpNqB'
+
+/** Missing or unsafe Cardano configuration; retrying will not help. */
+export class CardanoConfigError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CardanoConfigError'
+  }
+}
+
+type EnvGetter = (name: string) => string | undefined
+
+const denoEnv: EnvGetter = (name) => Deno.env.get(name)
+
+// ====================================================================
+// Network
+// ====================================================================
+
+/** Network from platform_cardano_config; preview when unset. */
+export function cardanoNetwork(config: Record<string, string>): CardanoNetwork {
+  const network = (config.network ?? 'preview').trim()
+  if (!(network in NETWORKS)) throw new CardanoConfigError(`Unknown Cardano network '${network}'`)
+  return network as CardanoNetwork
+}
+
+/**
+ * Blockfrost backend for a network. Project IDs are prefixed with their
+ * network name, so a preview project configured on mainnet is caught here
+ * rather than as a stream of 403s.
+ */
+export function networkBlockfrost(network: CardanoNetwork, env: EnvGetter = denoEnv): BlockfrostBackend {
+  const projectId = env('BLOCKFROST_PROJECT_ID') || (network === 'preview' ? PREVIEW_FALLBACK_PROJECT_ID : '')
+  if (!projectId) throw new CardanoConfigError(`BLOCKFROST_PROJECT_ID must be set on ${network}`)
+  if (!projectId.startsWith(network)) {
+    throw new CardanoConfigError(`BLOCKFROST_PROJECT_ID is not a ${network} project`)
+  }
+  return blockfrostBackend(projectId, NETWORKS[network].blockfrostBase)
+}
+
+/** Throws unless a bech32 address belongs to `network`. */
+export function assertNetworkAddress(address: string, network: CardanoNetwork) {
+  const { hrp, data } = bech32Decode(address)
+  const info = NETWORKS[network]
+  if (hrp !== info.addressPrefix || (data[0] & 0x0f) !== info.networkId) {
+    throw new Error(`Address ${address.substring(0, 16)}… is not a ${network} address`)
+  }
+}
+
+/** Enterprise (payment key only) address for a key on `network`. */
+export function enterpriseAddress(publicKey: Uint8Array, network: CardanoNetwork): string {
+  const info = NETWORKS[network]
+  return bech32Encode(info.addressPrefix, new Uint8Array([0x60 | info.networkId, ...keyHash(publicKey)]))
+}
+
+// ====================================================================
+// Platform keys
+// ====================================================================
+
+/** A platform_signing_keys row. */
+export interface PlatformKeyRecord {
+  id: string
+  network: CardanoNetwork
+  status: 'active' | 'retired'
+  policy_id: string
+  verify_key: string
+  address: string
+  /** Edge Function secret holding the signing key hex. */
+  signing_key_secret: string
+}
+
+export interface PlatformKey {
+  /** platform_signing_keys id; null for the legacy PLATFORM_CARDANO_* secrets. */
+  id: string | null
+  keys: SigningKey
+  policy: NativePolicy
+  address: string
+}
+
+/**
+ * Signing key from hex with the network's safety rules applied. On mainnet a
+ * verify key is mandatory (the derived fallback is wrong for HD keys), and
+ * for extended keys it must match the signing key, since a mismatched pair
+ * yields signatures no node will accept.
+ */
+export function checkedSigningKey(signingKeyHex: string, verifyKeyHex: string, network: CardanoNetwork): SigningKey {
+  if (!signingKeyHex) throw new CardanoConfigError('Signing key is empty')
+  if (!verifyKeyHex && network === 'mainnet') {
+    throw new CardanoConfigError('A verify key is required on mainnet')
+  }
+  const key = signingKeyFromHex(signingKeyHex, verifyKeyHex)
+  if (verifyKeyHex && hexToBytes(signingKeyHex).length >= 64) {
+    if (bytesToHex(publicKeyFromExtended(key.kL)) !== bytesToHex(key.publicKey)) {
+      throw new CardanoConfigError('Verify key does not match the signing key')
+    }
+  } else if (network === 'mainnet') {
+    throw new CardanoConfigError('Mainnet signing keys must be extended (64 or 96 bytes)')
+  }
+  return key
+}
+
+export interface PlatformCardano {
+  network: CardanoNetwork
+  chain: BlockfrostBackend
+  /** Key for new mints. */
+  active(): PlatformKey
+  /** Key that controls `policyId`, active or retired. */
+  keyForPolicy(policyId: string): PlatformKey
+}
+
+/**
+ * Resolves the network, chain backend and signing keys. Keys are only read
+ * from the environment when asked for, so a retired key's secret can be
+ * removed once nothing under its policy remains.
+ */
+export function resolvePlatformCardano(
+  config: Record<string, string>,
+  keyRecords: PlatformKeyRecord[],
+  env: EnvGetter = denoEnv,
+): PlatformCardano {
+  const network = cardanoNetwork(config)
+  const chain = networkBlockfrost(network, env)
+  const records = keyRecords.filter(r => r.network === network)
+
+  const fromRecord = (record: PlatformKeyRecord): PlatformKey => {
+    const secret = env(record.signing_key_secret)
+    if (!secret) throw new CardanoConfigError(`Secret ${record.signing_key_secret} is not set`)
+    const keys = checkedSigningKey(secret, record.verify_key, network)
+    const policy = pubKeyPolicy(keyHash(keys.publicKey))
+    if (policy.policyId !== record.policy_id) {
+      throw new CardanoConfigError(`Key ${record.id} signs policy ${policy.policyId}, not ${record.policy_id}`)
+    }
+    assertNetworkAddress(record.address, network)
+    return { id: record.id, keys, policy, address: record.address }
+  }
+
+  // Before any key is registered: the original single-key secrets
+  const legacy = (): PlatformKey | null => {
+    const secret = env('PLATFORM_CARDANO_SIGNING_KEY')
+    if (!secret) return null
+    const keys = checkedSigningKey(secret, env('PLATFORM_CARDANO_VERIFY_KEY') || '', network)
+    const address = config.minting_address
+    if (!address) throw new CardanoConfigError('No minting_address in platform_cardano_config')
+    assertNetworkAddress(address, network)
+    return { id: null, keys, policy: pubKeyPolicy(keyHash(keys.publicKey)), address }
+  }
+
+  return {
+    network,
+    chain,
+    active() {
+      const record = records.find(r => r.status === 'active')
+      const key = record ? fromRecord(record) : legacy()
+      if (!key) throw new CardanoConfigError(`No active signing key for ${network}`)
+      return key
+    },
+    keyForPolicy(policyId) {
+      const record = records.find(r => r.policy_id === policyId)
+      if (record) return fromRecord(record)
+      const key = legacy()
+      if (key?.policy.policyId === policyId) return key
+      throw new CardanoConfigError(`No signing key for policy ${policyId} on ${network}`)
+    },
+  }
+}
+
+/** Reads platform_cardano_config and platform_signing_keys, then resolves. */
+export async function loadPlatformCardano(
+  db: { from(table: string): any },
+  env: EnvGetter = denoEnv,
+): Promise<PlatformCardano> {
+  const [configResult, keysResult] = await Promise.all([
+    db.from('platform_cardano_config').select('key, value'),
+    db.from('platform_signing_keys')
+      .select('id, network, status, policy_id, verify_key, address, signing_key_secret')
+      .order('activated_at', { ascending: false }),
+  ])
+  if (configResult.error) throw new Error(`platform_cardano_config: ${configResult.error.message}`)
+  if (keysResult.error) throw new Error(`platform_signing_keys: ${keysResult.error.message}`)
+
+  const config: Record<string, string> = {}
+  for (const row of configResult.data ?? []) config[row.key] = row.value
+  return resolvePlatformCardano(config, keysResult.data ?? [], env)
+}
@@ -0,0 +1,406 @@
+import { assert, assertEquals, assertThrows } from 'https://deno.land/std@0.177.0/testing/asserts.ts'
+import {
+  addressBytes,
+  bech32Encode,
+  buildTicketBurnTx,
+  buildTicketDatumUpdateTx,
+  buildTicketMintTx,
+  buildTicketTransferTx,
+  bytesToHex,
+  createInMemoryChain,
+  derivePaymentKeyFromMnemonic,
+  InsufficientFundsError,
+  keyHash,
+  minLovelaceForOutput,
+  packTicketDatumUpdateBatch,
+  packTicketMintBatch,
+  PREVIEW_PROTOCOL_PARAMS,
+  pubKeyPolicy,
+  type SignedTx,
+  type SigningKey,
+  signTransaction,
+  stringToHex,
+  type TicketMint,
+  ticketAssetNames,
+  ticketDatum,
+  type Utxo,
+  utxoHasAsset,
+} from './mod.ts'
+
+// Golden transactions: the exact signed bytes for each flow. After an
+// intentional encoder or builder change, regenerate with
+//   UPDATE_GOLDEN=1 deno test --allow-env --allow-read --allow-write ticket-txs.test.ts
+const VECTORS_PATH = new URL('./test/vectors.json', import.meta.url)
+const updateGolden = Deno.env.get('UPDATE_GOLDEN') === '1'
+const vectors: Record<string, string> = JSON.parse(await Deno.readTextFile(VECTORS_PATH))
+
+async function assertGolden(name: string, tx: SignedTx) {
+  const actual = bytesToHex(tx.cbor)
+  if (updateGolden) {
+    vectors[name] = actual
+    await Deno.writeTextFile(VECTORS_PATH, JSON.stringify(vectors, null, 2) + '\n')
+    return
+  }
+  assertEquals(actual, vectors[name], `golden transaction '${name}' changed`)
+}
+
+function enterpriseAddress(key: SigningKey): string {
+  return bech32Encode('addr_test', new Uint8Array([0x60, ...keyHash(key.publicKey)]))
+}
+
+const platformKey = derivePaymentKeyFromMnemonic(
+  'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about',
+)
+const buyerKey = derivePaymentKeyFromMnemonic(
+  'test walk nut penalty hip pave soap entry language right filter choice',
+)
+const platformAddress = enterpriseAddress(platformKey)
+const buyerAddress = enterpriseAddress(buyerKey)
+// Base address (payment + stake credential): long enough to need datum chunking
+const resaleBuyerAddress = bech32Encode(
+  'addr_test',
+  new Uint8Array([0x00, ...new Uint8Array(28).fill(0x11), ...new Uint8Array(28).fill(0x22)]),
+)
+
+const policy = pubKeyPolicy(keyHash(platformKey.publicKey))
+const names = ticketAssetNames('TKT-1042-0007')
+const refUnit = policy.policyId + names.refAssetName
+const userUnit = policy.policyId + names.userAssetName
+
+const datumFields = {
+  ticketId: '6f1c2a9e-0b5d-4c1e-9a57-3f2d8e7b1c40',
+  ticketNumber: 'TKT-1042-0007',
+  eventId: 'c3b1f0e2-7d4a-4e8b-b6a1-2e9f5d3c7a18',
+  eventTitle: 'Harbour Lights Festival',
+  eventDate: '2026-08-14T19:00:00Z',
+  venue: 'Pier 9',
+}
+
+const lovelace = (quantity: number) => [{ unit: 'lovelace', quantity: String(quantity) }]
+
+function fundedChain() {
+  const chain = createInMemoryChain()
+  chain.fund(platformAddress, { tx_hash: 'aa'.repeat(32), output_index: 0, amount: lovelace(3_000_000) })
+  chain.fund(platformAddress, { tx_hash: 'bb'.repeat(32), output_index: 1, amount: lovelace(20_000_000) })
+  // Another ticket's reference NFT: must never be picked for coin selection
+  chain.fund(platformAddress, {
+    tx_hash: 'cc'.repeat(32),
+    output_index: 0,
+    amount: [...lovelace(2_000_000), { unit: policy.policyId + '000643b0' + 'ff', quantity: '1' }],
+  })
+  return chain
+}
+
+async function mint(chain = fundedChain()) {
+  const tx = buildTicketMintTx({
+    platformAddress: addressBytes(platformAddress),
+    platformUtxos: await chain.getUtxos(platformAddress),
+    buyerAddress: addressBytes(buyerAddress),
+    policy,
+    names,
+    datum: ticketDatum(datumFields),
+    protocolParams: await chain.getProtocolParams(),
+    currentSlot: await chain.getLatestSlot(),
+  })
+  const signed = signTransaction(tx, [platformKey])
+  await chain.submitTx(signed.cbor)
+  return { chain, tx, signed }
+}
+
+const findUnit = (utxos: Utxo[], unit: string) => utxos.find(u => utxoHasAsset(u, unit))
+
+Deno.test('mint sends the reference NFT to the platform and the user token to the buyer', async () => {
+  const { chain, tx, signed } = await mint()
+  await assertGolden('mint', signed)
+
+  const platformUtxos = await chain.getUtxos(platformAddress)
+  const ref = findUnit(platformUtxos, refUnit)
+  assert(ref, 'reference NFT at platform')
+  assertEquals(ref!.inline_datum, bytesToHex(ticketDatum(datumFields)))
+  assert(findUnit(await chain.getUtxos(buyerAddress), userUnit), 'user token at buyer')
+
+  // Coin selection used the ADA-only UTxOs and skipped the other reference NFT
+  assertEquals(tx.inputs.map(u => u.tx_hash), ['aa'.repeat(32), 'bb'.repeat(32)])
+  assert(platformUtxos.some(u => u.tx_hash === 'cc'.repeat(32)), 'other reference NFT untouched')
+  assertEquals(tx.fee, PREVIEW_PROTOCOL_PARAMS.minFeeA * signed.size + PREVIEW_PROTOCOL_PARAMS.minFeeB)
+})
+
+Deno.test('transfer re-locks the reference NFT with the new owner and mints a fresh user token', async () => {
+  const { chain } = await mint()
+  const refUtxo = findUnit(await chain.getUtxos(platformAddress), refUnit)!
+  const datum = ticketDatum({ ...datumFields, owner: resaleBuyerAddress })
+
+  const tx = buildTicketTransferTx({
+    platformAddress: addressBytes(platformAddress),
+    platformUtxos: await chain.getUtxos(platformAddress),
+    refUtxo,
+    buyerAddress: addressBytes(resaleBuyerAddress),
+    policy,
+    names,
+    datum,
+    protocolParams: await chain.getProtocolParams(),
+    currentSlot: await chain.getLatestSlot(),
+  })
+  const signed = signTransaction(tx, [platformKey])
+  await chain.submitTx(signed.cbor)
+  await assertGolden('transfer', signed)
+
+  const newRef = findUnit(await chain.getUtxos(platformAddress), refUnit)!
+  assertEquals(newRef.inline_datum, bytesToHex(datum))
+  assert(findUnit(await chain.getUtxos(resaleBuyerAddress), userUnit), 'new holder has a user token')
+})
+
+Deno.test('burn spends both tokens with platform and holder signatures', async () => {
+  const { chain } = await mint()
+  const platformUtxos = await chain.getUtxos(platformAddress)
+
+  const tx = buildTicketBurnTx({
+    platformAddress: addressBytes(platformAddress),
+    platformUtxos,
+    refUtxo: findUnit(platformUtxos, refUnit)!,
+    userToken: {
+      utxo: findUnit(await chain.getUtxos(buyerAddress), userUnit)!,
+      holderAddress: addressBytes(buyerAddress),
+    },
+    policy,
+    names,
+    protocolParams: await chain.getProtocolParams(),
+    currentSlot: await chain.getLatestSlot(),
+  })
+  const signed = signTransaction(tx, [platformKey, buyerKey])
+  await chain.submitTx(signed.cbor)
+  await assertGolden('burn', signed)
+
+  assertEquals(findUnit(await chain.getUtxos(platformAddress), refUnit), undefined)
+  assertEquals((await chain.getUtxos(buyerAddress)).length, 0)
+})
+
+Deno.test('burn without the user token burns only the reference NFT', async () => {
+  const { chain } = await mint()
+  const platformUtxos = await chain.getUtxos(platformAddress)
+
+  const tx = buildTicketBurnTx({
+    platformAddress: addressBytes(platformAddress),
+    platformUtxos,
+    refUtxo: findUnit(platformUtxos, refUnit)!,
+    policy,
+    names,
+    protocolParams: await chain.getProtocolParams(),
+    currentSlot: await chain.getLatestSlot(),
+  })
+  const signed = signTransaction(tx, [platformKey])
+  await chain.submitTx(signed.cbor)
+  await assertGolden('burn_ref_only', signed)
+
+  assertEquals(findUnit(await chain.getUtxos(platformAddress), refUnit), undefined)
+  assert(findUnit(await chain.getUtxos(buyerAddress), userUnit), 'user token left in place')
+})
+
+Deno.test('burn returns the holder\'s other tokens to the holder', async () => {
+  const chain = fundedChain()
+  const otherUnit = '33'.repeat(28) + stringToHex('POAP')
+  chain.fund(platformAddress, {
+    tx_hash: 'dd'.repeat(32),
+    output_index: 0,
+    amount: [...lovelace(1_500_000), { unit: refUnit, quantity: '1' }],
+  })
+  chain.fund(buyerAddress, {
+    tx_hash: 'ee'.repeat(32),
+    output_index: 0,
+    amount: [...lovelace(1_400_000), { unit: userUnit, quantity: '1' }, { unit: otherUnit, quantity: '1' }],
+  })
+  const platformUtxos = await chain.getUtxos(platformAddress)
+
+  const tx = buildTicketBurnTx({
+    platformAddress: addressBytes(platformAddress),
+    platformUtxos,
+    refUtxo: findUnit(platformUtxos, refUnit)!,
+    userToken: { utxo: findUnit(await chain.getUtxos(buyerAddress), userUnit)!, holderAddress: addressBytes(buyerAddress) },
+    policy,
+    names,
+    protocolParams: await chain.getProtocolParams(),
+    currentSlot: await chain.getLatestSlot(),
+  })
+  await chain.submitTx(signTransaction(tx, [platformKey, buyerKey]).cbor)
+
+  const buyerUtxos = await chain.getUtxos(buyerAddress)
+  assertEquals(buyerUtxos.length, 1)
+  assert(utxoHasAsset(buyerUtxos[0], otherUnit), 'foreign token returned')
+  assertEquals(findUnit(buyerUtxos, userUnit), undefined)
+})
+
+Deno.test('refresh re-locks the reference NFT with a new datum and leaves the user token alone', async () => {
+  const { chain } = await mint()
+  const platformUtxos = await chain.getUtxos(platformAddress)
+  const datum = ticketDatum({ ...datumFields, eventDate: '2026-09-18T19:00:00Z', owner: buyerAddress })
+
+  const tx = buildTicketDatumUpdateTx({
+    platformAddress: addressBytes(platformAddress),
+    platformUtxos,
+    policy,
+    updates: [{ names, refUtxo: findUnit(platformUtxos, refUnit)!, datum }],
+    protocolParams: await chain.getProtocolParams(),
+    currentSlot: await chain.getLatestSlot(),
+  })
+  const signed = signTransaction(tx, [platformKey])
+  await chain.submitTx(signed.cbor)
+  await assertGolden('refresh', signed)
+
+  const after = await chain.getUtxos(platformAddress)
+  assertEquals(findUnit(after, refUnit)!.inline_datum, bytesToHex(datum))
+  assert(after.some(u => u.tx_hash === 'cc'.repeat(32)), 'other reference NFT untouched')
+  assert(findUnit(await chain.getUtxos(buyerAddress), userUnit), 'user token still with the holder')
+})
+
+function batchTickets(count: number): TicketMint[] {
+  return Array.from({ length: count }, (_, i) => {
+    const ticketNumber = `TKT-1042-${String(i + 1).padStart(4, '0')}`
+    return {
+      names: ticketAssetNames(ticketNumber),
+      buyerAddress: addressBytes(i % 2 === 0 ? buyerAddress : resaleBuyerAddress),
+      datum: ticketDatum({ ...datumFields, ticketNumber }),
+    }
+  })
+}
+
+Deno.test('batch mint packs as many tickets as fit under max_tx_size', async () => {
+  const chain = fundedChain()
+  chain.fund(platformAddress, { tx_hash: 'dd'.repeat(32), output_index: 0, amount: lovelace(200_000_000) })
+  const tickets = batchTickets(60)
+
+  const { tx, count } = packTicketMintBatch({
+    platformAddress: addressBytes(platformAddress),
+    platformUtxos: await chain.getUtxos(platformAddress),
+    policy,
+    tickets,
+    protocolParams: await chain.getProtocolParams(),
+    currentSlot: await chain.getLatestSlot(),
+  })
+  assert(count > 1 && count < tickets.length, `packed ${count} of ${tickets.length}`)
+  assert(tx.size <= PREVIEW_PROTOCOL_PARAMS.maxTxSize, `size ${tx.size}`)
+  await chain.submitTx(signTransaction(tx, [platformKey]).cbor)
+
+  // Every packed ticket has its reference NFT at the platform and user token at its buyer
+  const platformUtxos = await chain.getUtxos(platformAddress)
+  const holderUtxos = [...await chain.getUtxos(buyerAddress), ...await chain.getUtxos(resaleBuyerAddress)]
+  for (const { names } of tickets.slice(0, count)) {
+    assert(findUnit(platformUtxos, policy.policyId + names.refAssetName), `reference NFT ${names.refAssetName}`)
+    assert(findUnit(holderUtxos, policy.policyId + names.userAssetName), `user token ${names.userAssetName}`)
+  }
+  assertEquals(findUnit(platformUtxos, policy.policyId + tickets[count].names.refAssetName), undefined)
+
+  // Batching amortizes the fixed fee: each ticket costs less than a lone mint
+  const { tx: single } = await mint()
+  assert(tx.fee / count < single.fee / 2, `per-ticket fee ${tx.fee / count} vs single ${single.fee}`)
+})
+
+Deno.test('batch mint respects maxTickets and stops where funds run out', async () => {
+  const base = {
+    platformAddress: addressBytes(platformAddress),
+    policy,
+    tickets: batchTickets(10),
+    protocolParams: PREVIEW_PROTOCOL_PARAMS,
+    currentSlot: 1_000_000,
+  }
+  const funded = [{ tx_hash: 'aa'.repeat(32), output_index: 0, amount: lovelace(100_000_000) }]
+  assertEquals(packTicketMintBatch({ ...base, platformUtxos: funded, maxTickets: 4 }).count, 4)
+
+  // ~3.5 ADA per ticket in min-UTxO and fees: 12 ADA covers three
+  const thin = [{ tx_hash: 'aa'.repeat(32), output_index: 0, amount: lovelace(12_000_000) }]
+  assertEquals(packTicketMintBatch({ ...base, platformUtxos: thin }).count, 3)
+
+  const broke = [{ tx_hash: 'aa'.repeat(32), output_index: 0, amount: lovelace(1_000_000) }]
+  assertThrows(() => packTicketMintBatch({ ...base, platformUtxos: broke }), InsufficientFundsError)
+})
+
+Deno.test('batch mint rejects the same ticket twice', () => {
+  const [ticket] = batchTickets(1)
+  assertThrows(() => packTicketMintBatch({
+    platformAddress: addressBytes(platformAddress),
+    platformUtxos: [{ tx_hash: 'aa'.repeat(32), output_index: 0, amount: lovelace(100_000_000) }],
+    policy,
+    tickets: [ticket, ticket],
+    protocolParams: PREVIEW_PROTOCOL_PARAMS,
+    currentSlot: 1_000_000,
+  }), Error, 'Duplicate ticket asset')
+})
+
+Deno.test('batch refresh updates every packed ticket of a batch mint', async () => {
+  const chain = fundedChain()
+  chain.fund(platformAddress, { tx_hash: 'dd'.repeat(32), output_index: 0, amount: lovelace(100_000_000) })
+  const tickets = batchTickets(8)
+  const minted = packTicketMintBatch({
+    platformAddress: addressBytes(platformAddress),
+    platformUtxos: await chain.getUtxos(platformAddress),
+    policy,
+    tickets,
+    protocolParams: await chain.getProtocolParams(),
+    currentSlot: await chain.getLatestSlot(),
+  })
+  assertEquals(minted.count, tickets.length)
+  await chain.submitTx(signTransaction(minted.tx, [platformKey]).cbor)
+
+  const platformUtxos = await chain.getUtxos(platformAddress)
+  const updates = tickets.map(({ names }, i) => ({
+    names,
+    refUtxo: findUnit(platformUtxos, policy.policyId + names.refAssetName)!,
+    datum: ticketDatum({
+      ...datumFields,
+      ticketNumber: `TKT-1042-${String(i + 1).padStart(4, '0')}`,
+      eventDate: '2026-09-18T19:00:00Z',
+    }),
+  }))
+  const { tx, count } = packTicketDatumUpdateBatch({
+    platformAddress: addressBytes(platformAddress),
+    platformUtxos,
+    policy,
+    updates,
+    protocolParams: await chain.getProtocolParams(),
+    currentSlot: await chain.getLatestSlot(),
+  })
+  assertEquals(count, updates.length)
+  await chain.submitTx(signTransaction(tx, [platformKey]).cbor)
+
+  const after = await chain.getUtxos(platformAddress)
+  for (const { names, datum } of updates) {
+    assertEquals(findUnit(after, policy.policyId + names.refAssetName)!.inline_datum, bytesToHex(datum))
+  }
+})
+
+Deno.test('mint fails with InsufficientFundsError when only token UTxOs could cover it', () => {
+  assertThrows(() => buildTicketMintTx({
+    platformAddress: addressBytes(platformAddress),
+    platformUtxos: [
+      { tx_hash: 'aa'.repeat(32), output_index: 0, amount: lovelace(1_000_000) },
+      {
+        tx_hash: 'cc'.repeat(32),
+        output_index: 0,
+        amount: [...lovelace(50_000_000), { unit: policy.policyId + '000643b0' + 'ff', quantity: '1' }],
+      },
+    ],
+    buyerAddress: addressBytes(buyerAddress),
+    policy,
+    names,
+    datum: ticketDatum(datumFields),
+    protocolParams: PREVIEW_PROTOCOL_PARAMS,
+    currentSlot: 1_000_000,
+  }), InsufficientFundsError, 'Insufficient ADA')
+})
+
+Deno.test('outputs are raised to their min-UTxO', () => {
+  const output = {
+    address: addressBytes(buyerAddress),
+    assets: { [policy.policyId]: { [names.userAssetName]: 1 } },
+  }
+  const min = minLovelaceForOutput(output, PREVIEW_PROTOCOL_PARAMS.coinsPerUtxoByte)
+  assert(min > 1_000_000 && min < 1_500_000, `user token output min-UTxO ${min}`)
+  assertEquals(minLovelaceForOutput({ ...output, lovelace: 2_000_000 }, 4310), 2_000_000)
+})
+
+Deno.test('the in-memory chain rejects a replayed transaction', async () => {
+  const { chain, signed } = await mint()
+  let error: Error | null = null
+  await chain.submitTx(signed.cbor).catch((e) => { error = e })
+  assert(error && String(error).includes('BadInputsUTxO'), 'spent inputs rejected')
+})
+
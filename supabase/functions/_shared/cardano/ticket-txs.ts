@@ -0,0 +1,252 @@
+/**
+ * The ticket NFT transactions, shared by the edge functions and the
+ * golden-vector tests so both exercise exactly the same bytes.
+ *
+ * - mint:     reference NFT (with datum) to the platform, user token to the buyer;
+ *             a batch mint repeats that pair for many tickets of one policy
+ * - transfer: reference NFT re-locked with an updated datum, fresh user token
+ *             to the new holder (the seller's token goes stale)
+ * - burn:     both tokens burned, reclaimed ADA back to the platform; if the
+ *             user token can't be found only the reference NFT is burned
+ * - refresh:  reference NFTs re-locked with updated datums (e.g. a new event
+ *             date); nothing is minted and the user tokens stay put
+ */
+
+import { type TicketAssetNames } from './cip68.ts'
+import {
+  buildTransaction,
+  InsufficientFundsError,
+  type MultiAsset,
+  type NativePolicy,
+  type ProtocolParams,
+  type TxOutput,
+  TxTooLargeError,
+  type UnsignedTx,
+  type Utxo,
+  utxoAssets,
+} from './tx.ts'
+
+interface TicketTxBase {
+  platformAddress: Uint8Array
+  /** Platform UTxOs available to pay fees and min-UTxO. */
+  platformUtxos: Utxo[]
+  policy: NativePolicy
+  protocolParams: ProtocolParams
+  currentSlot: number
+}
+
+/** One ticket's share of a mint: its asset names, holder and datum. */
+export interface TicketMint {
+  names: TicketAssetNames
+  buyerAddress: Uint8Array
+  datum: number[]
+}
+
+export function buildTicketMintTx(params: TicketTxBase & TicketMint): UnsignedTx {
+  const { names, buyerAddress, datum } = params
+  return buildTicketBatchMintTx({ ...params, tickets: [{ names, buyerAddress, datum }] })
+}
+
+/** Mint every ticket in `tickets` (all under `policy`) in one transaction. */
+export function buildTicketBatchMintTx(params: TicketTxBase & { tickets: TicketMint[] }): UnsignedTx {
+  const { policy, tickets } = params
+  if (tickets.length === 0) throw new Error('No tickets to mint')
+
+  const outputs: TxOutput[] = []
+  const mintedNames: Record<string, number> = {}
+  for (const { names, buyerAddress, datum } of tickets) {
+    if (mintedNames[names.refAssetName]) throw new Error(`Duplicate ticket asset ${names.refAssetName}`)
+    mintedNames[names.refAssetName] = 1
+    mintedNames[names.userAssetName] = 1
+    outputs.push(
+      {
+        address: params.platformAddress,
+        assets: { [policy.policyId]: { [names.refAssetName]: 1 } },
+        inlineDatum: datum,
+      },
+      {
+        address: buyerAddress,
+        assets: { [policy.policyId]: { [names.userAssetName]: 1 } },
+      },
+    )
+  }
+
+  return buildTransaction({
+    outputs,
+    utxos: params.platformUtxos,
+    changeAddress: params.platformAddress,
+    mint: { [policy.policyId]: mintedNames },
+    nativeScripts: [policy.script],
+    signers: 1,
+    protocolParams: params.protocolParams,
+    currentSlot: params.currentSlot,
+  })
+}
+
+/**
+ * Build the largest batch mint that fits, taking tickets in order.
+ *
+ * Native-script mints use no Plutus execution units, so the binding ledger
+ * limit is max_tx_size (and the platform's spendable ADA). Returns the
+ * transaction and how many leading tickets it carries; the rest are left for
+ * a later batch. Throws only if not even the first ticket fits.
+ */
+export function packTicketMintBatch(params: TicketTxBase & {
+  tickets: TicketMint[]
+  maxTickets?: number
+}): { tx: UnsignedTx; count: number } {
+  const limit = Math.min(params.tickets.length, params.maxTickets ?? params.tickets.length)
+  return packLargest(limit, (count) => buildTicketBatchMintTx({ ...params, tickets: params.tickets.slice(0, count) }))
+}
+
+/**
+ * Largest leading `count` (up to `limit`) for which `build` succeeds. Size
+ * and cost grow with every ticket, so this is a binary search; only the
+ * first ticket's failure is thrown.
+ */
+function packLargest(limit: number, build: (count: number) => UnsignedTx): { tx: UnsignedTx; count: number } {
+  const tryBuild = (count: number): UnsignedTx | null => {
+    try {
+      return build(count)
+    } catch (err) {
+      if (count > 1 && (err instanceof TxTooLargeError || err instanceof InsufficientFundsError)) return null
+      throw err
+    }
+  }
+
+  let best = { tx: tryBuild(1)!, count: 1 }
+  let lo = 2
+  let hi = limit
+  while (lo <= hi) {
+    const mid = Math.floor((lo + hi) / 2)
+    const tx = tryBuild(mid)
+    if (tx) {
+      best = { tx, count: mid }
+      lo = mid + 1
+    } else {
+      hi = mid - 1
+    }
+  }
+  return best
+}
+
+export function buildTicketTransferTx(params: TicketTxBase & {
+  names: TicketAssetNames
+  refUtxo: Utxo
+  buyerAddress: Uint8Array
+  datum: number[]
+}): UnsignedTx {
+  const { policy, names } = params
+  return buildTransaction({
+    inputs: [params.refUtxo],
+    outputs: [
+      {
+        address: params.platformAddress,
+        assets: { [policy.policyId]: { [names.refAssetName]: 1 } },
+        inlineDatum: params.datum,
+      },
+      {
+        address: params.buyerAddress,
+        assets: { [policy.policyId]: { [names.userAssetName]: 1 } },
+      },
+    ],
+    utxos: params.platformUtxos,
+    changeAddress: params.platformAddress,
+    mint: { [policy.policyId]: { [names.userAssetName]: 1 } },
+    nativeScripts: [policy.script],
+    signers: 1,
+    protocolParams: params.protocolParams,
+    currentSlot: params.currentSlot,
+  })
+}
+
+/**
+ * Burn a ticket's tokens. With `userToken` the transaction spends the
+ * holder's UTxO too and needs both the platform and holder signatures; any
+ * other tokens in that UTxO go back to the holder.
+ */
+export function buildTicketBurnTx(params: TicketTxBase & {
+  names: TicketAssetNames
+  refUtxo: Utxo
+  userToken?: { utxo: Utxo; holderAddress: Uint8Array } | null
+}): UnsignedTx {
+  const { policy, names, userToken } = params
+  const burn: MultiAsset = { [policy.policyId]: { [names.refAssetName]: -1 } }
+  const inputs = [params.refUtxo]
+  const outputs: TxOutput[] = []
+
+  if (userToken) {
+    burn[policy.policyId][names.userAssetName] = -1
+    inputs.push(userToken.utxo)
+
+    const otherAssets = utxoAssets(userToken.utxo)
+    const remaining = otherAssets[policy.policyId]
+    if (remaining) {
+      delete remaining[names.userAssetName]
+      if (Object.keys(remaining).length === 0) delete otherAssets[policy.policyId]
+    }
+    if (Object.keys(otherAssets).length > 0) {
+      outputs.push({ address: userToken.holderAddress, assets: otherAssets })
+    }
+  }
+
+  return buildTransaction({
+    inputs,
+    outputs,
+    utxos: params.platformUtxos,
+    changeAddress: params.platformAddress,
+    mint: burn,
+    nativeScripts: [policy.script],
+    signers: userToken ? 2 : 1,
+    protocolParams: params.protocolParams,
+    currentSlot: params.currentSlot,
+  })
+}
+
+/** One ticket's reference NFT and the datum to re-lock it with. */
+export interface TicketDatumUpdate {
+  names: TicketAssetNames
+  refUtxo: Utxo
+  datum: number[]
+}
+
+/**
+ * Re-lock reference NFTs (all under `policy`) with new datums. Only the
+ * reference UTxOs are spent, so holders keep their user tokens and nothing
+ * but the platform key signs.
+ */
+export function buildTicketDatumUpdateTx(params: TicketTxBase & { updates: TicketDatumUpdate[] }): UnsignedTx {
+  const { policy, updates } = params
+  if (updates.length === 0) throw new Error('No tickets to update')
+
+  const seen = new Set<string>()
+  const outputs: TxOutput[] = []
+  for (const { names, datum } of updates) {
+    if (seen.has(names.refAssetName)) throw new Error(`Duplicate ticket asset ${names.refAssetName}`)
+    seen.add(names.refAssetName)
+    outputs.push({
+      address: params.platformAddress,
+      assets: { [policy.policyId]: { [names.refAssetName]: 1 } },
+      inlineDatum: datum,
+    })
+  }
+
+  return buildTransaction({
+    inputs: updates.map(u => u.refUtxo),
+    outputs,
+    utxos: params.platformUtxos,
+    changeAddress: params.platformAddress,
+    signers: 1,
+    protocolParams: params.protocolParams,
+    currentSlot: params.currentSlot,
+  })
+}
+
+/** Build the largest datum update that fits, taking tickets in order. */
+export function packTicketDatumUpdateBatch(params: TicketTxBase & {
+  updates: TicketDatumUpdate[]
+  maxTickets?: number
+}): { tx: UnsignedTx; count: number } {
+  const limit = Math.min(params.updates.length, params.maxTickets ?? params.updates.length)
+  return packLargest(limit, (count) => buildTicketDatumUpdateTx({ ...params, updates: params.updates.slice(0, count) }))
+}
@@ -0,0 +1,384 @@
+/**
+ * Babbage/Conway transaction builder for native-script mints and burns.
+ *
+ * buildTransaction() takes the outputs and mint a flow needs, selects
+ * ADA-only inputs to pay for them, raises every output to its min-UTxO,
+ * sizes the fee from the fully-witnessed transaction and returns change to
+ * the platform address. signTransaction() then attaches the vkey witnesses.
+ * The builder is pure, so the same inputs always produce the same bytes.
+ */
+
+import {
+  bytesToHex,
+  CBOR_NULL,
+  CBOR_TRUE,
+  cborArray,
+  cborBytes,
+  cborInt,
+  cborMap,
+  cborTag,
+  cborUint,
+  hexToBytes,
+} from './encoding.ts'
+import { bip32Ed25519Sign, blake2b224, blake2b256, type SigningKey } from './keys.ts'
+
+/** UTxO in Blockfrost's shape; `unit` is 'lovelace' or policy ID + asset name hex. */
+export interface Utxo {
+  tx_hash: string
+  output_index: number
+  amount: { unit: string; quantity: string }[]
+  inline_datum?: string | null
+}
+
+export interface ProtocolParams {
+  minFeeA: number
+  minFeeB: number
+  coinsPerUtxoByte: number
+  maxTxSize: number
+}
+
+/** policy ID hex → asset name hex → quantity (negative in a mint burns). */
+export type MultiAsset = Record<string, Record<string, number>>
+
+export interface TxOutput {
+  /** Raw address bytes (see addressBytes). */
+  address: Uint8Array
+  /** Raised to the output's min-UTxO when lower or omitted. */
+  lovelace?: number
+  assets?: MultiAsset
+  /** CBOR-encoded Plutus datum, attached inline (post-Alonzo output format). */
+  inlineDatum?: number[]
+}
+
+export interface BuildTxParams {
+  outputs: TxOutput[]
+  /** Inputs that must be spent, e.g. the UTxO holding a reference NFT. */
+  inputs?: Utxo[]
+  /** UTxOs available for coin selection (only ADA-only ones are used). */
+  utxos: Utxo[]
+  changeAddress: Uint8Array
+  mint?: MultiAsset
+  nativeScripts?: Uint8Array[]
+  /** Number of vkey witnesses signTransaction() will attach; sizes the fee. */
+  signers: number
+  protocolParams: ProtocolParams
+  currentSlot: number
+  ttlSlots?: number
+}
+
+export interface UnsignedTx {
+  body: number[]
+  /** Transaction ID: blake2b-256 of the body. */
+  hash: string
+  fee: number
+  inputs: Utxo[]
+  outputs: TxOutput[]
+  nativeScripts: Uint8Array[]
+  /** Size of the transaction once signed with `signers` keys. */
+  size: number
+  /** invalid_hereafter: the transaction can only land in slots before this. */
+  ttl: number
+}
+
+export interface SignedTx {
+  hash: string
+  cbor: Uint8Array
+  size: number
+}
+
+export class InsufficientFundsError extends Error {
+  constructor(public needed: number, public available: number) {
+    super(`Insufficient ADA. Need ${needed} lovelace, have ${available}`)
+    this.name = 'InsufficientFundsError'
+  }
+}
+
+export class TxTooLargeError extends Error {
+  constructor(public size: number, public maxSize: number) {
+    super(`Transaction is ${size} bytes, protocol maximum is ${maxSize}`)
+    this.name = 'TxTooLargeError'
+  }
+}
+
+export const DEFAULT_TTL_SLOTS = 7200 // 2 hours
+
+// Babbage min-UTxO: every output pays for its own bytes plus this overhead
+const UTXO_ENTRY_OVERHEAD = 160
+
+const MAX_FEE_ITERATIONS = 10
+
+// ====================================================================
+// Native script policy
+// ====================================================================
+
+export interface NativePolicy {
+  script: Uint8Array
+  policyId: string
+}
+
+/** Single-signature policy: ScriptPubkey [0, keyHash]. */
+export function pubKeyPolicy(keyHash: Uint8Array): NativePolicy {
+  const script = new Uint8Array(cborArray([cborUint(0), cborBytes(keyHash)]))
+  return { script, policyId: bytesToHex(nativeScriptHash(script)) }
+}
+
+/** Native script hash: blake2b-224(0x00 || script CBOR). */
+export function nativeScriptHash(scriptCbor: Uint8Array): Uint8Array {
+  const prefixed = new Uint8Array(1 + scriptCbor.length)
+  prefixed[0] = 0x00 // native script type tag
+  prefixed.set(scriptCbor, 1)
+  return blake2b224(prefixed)
+}
+
+// ====================================================================
+// Values
+// ====================================================================
+
+export function utxoLovelace(utxo: Utxo): number {
+  return parseInt(utxo.amount.find(a => a.unit === 'lovelace')?.quantity || '0')
+}
+
+export function utxoAssets(utxo: Utxo): MultiAsset {
+  const assets: MultiAsset = {}
+  for (const { unit, quantity } of utxo.amount) {
+    if (unit === 'lovelace') continue
+    addAsset(assets, unit.slice(0, 56), unit.slice(56), parseInt(quantity))
+  }
+  return assets
+}
+
+export function utxoHasAsset(utxo: Utxo, unit: string): boolean {
+  return utxo.amount.some(a => a.unit === unit && a.quantity !== '0')
+}
+
+export function isAdaOnly(utxo: Utxo): boolean {
+  return utxo.amount.every(a => a.unit === 'lovelace')
+}
+
+function addAsset(assets: MultiAsset, policyId: string, assetName: string, quantity: number) {
+  const policy = assets[policyId] ??= {}
+  policy[assetName] = (policy[assetName] ?? 0) + quantity
+  if (policy[assetName] === 0) delete policy[assetName]
+  if (Object.keys(policy).length === 0) delete assets[policyId]
+}
+
+function mergeAssets(target: MultiAsset, source: MultiAsset | undefined, sign = 1) {
+  for (const [policyId, names] of Object.entries(source ?? {})) {
+    for (const [assetName, quantity] of Object.entries(names)) {
+      addAsset(target, policyId, assetName, sign * quantity)
+    }
+  }
+}
+
+function hasAssets(assets: MultiAsset | undefined): boolean {
+  return !!assets && Object.keys(assets).length > 0
+}
+
+function encodeMultiAsset(assets: MultiAsset): number[] {
+  return cborMap(Object.entries(assets).map(([policyId, names]) => [
+    cborBytes(hexToBytes(policyId)),
+    cborMap(Object.entries(names).map(([assetName, quantity]) => [
+      cborBytes(hexToBytes(assetName)),
+      cborInt(quantity),
+    ])),
+  ]))
+}
+
+// ====================================================================
+// Outputs and min-UTxO
+// ====================================================================
+
+function encodeOutput(output: TxOutput, lovelace: number): number[] {
+  const value = hasAssets(output.assets)
+    ? cborArray([cborUint(lovelace), encodeMultiAsset(output.assets!)])
+    : cborUint(lovelace)
+
+  if (!output.inlineDatum) {
+    // Legacy array format: [address, value]
+    return cborArray([cborBytes(output.address), value])
+  }
+
+  // Post-Alonzo map format with datum_option = [1, #6.24(bytes .cbor datum)]
+  const datumOption = cborArray([cborUint(1), cborTag(24, cborBytes(output.inlineDatum))])
+  return cborMap([
+    [cborUint(0), cborBytes(output.address)],
+    [cborUint(1), value],
+    [cborUint(2), datumOption],
+  ])
+}
+
+/**
+ * Minimum lovelace the ledger accepts for `output`:
+ * (160 + serialized output size) × coinsPerUtxoByte. The size depends on the
+ * lovelace field itself, so iterate until the amount stops growing.
+ */
+export function minLovelaceForOutput(output: TxOutput, coinsPerUtxoByte: number): number {
+  let lovelace = output.lovelace ?? 0
+  for (;;) {
+    const required = (UTXO_ENTRY_OVERHEAD + encodeOutput(output, lovelace).length) * coinsPerUtxoByte
+    if (lovelace >= required) return lovelace
+    lovelace = required
+  }
+}
+
+// ====================================================================
+// Transaction body
+// ====================================================================
+
+function encodeBody(params: {
+  inputs: Utxo[]
+  outputs: [TxOutput, number][]
+  fee: number
+  ttl: number
+  mint?: MultiAsset
+}): number[] {
+  const inputs = params.inputs.map(utxo => cborArray([
+    cborBytes(hexToBytes(utxo.tx_hash)),
+    cborUint(utxo.output_index),
+  ]))
+
+  const entries: [number[], number[]][] = [
+    [cborUint(0), cborArray(inputs)],
+    [cborUint(1), cborArray(params.outputs.map(([output, lovelace]) => encodeOutput(output, lovelace)))],
+    [cborUint(2), cborUint(params.fee)],
+    [cborUint(3), cborUint(params.ttl)],
+  ]
+  if (hasAssets(params.mint)) {
+    entries.push([cborUint(9), encodeMultiAsset(params.mint!)])
+  }
+  return cborMap(entries)
+}
+
+function encodeWitnessSet(vkeyWitnesses: number[][], nativeScripts: Uint8Array[]): number[] {
+  const entries: [number[], number[]][] = [[cborUint(0), cborArray(vkeyWitnesses)]]
+  if (nativeScripts.length > 0) {
+    entries.push([cborUint(1), cborArray(nativeScripts.map(s => Array.from(s)))])
+  }
+  return cborMap(entries)
+}
+
+// Full transaction: [body, witness_set, is_valid, auxiliary_data]
+function encodeTransaction(body: number[], witnessSet: number[]): number[] {
+  return cborArray([body, witnessSet, CBOR_TRUE, CBOR_NULL])
+}
+
+// Witnesses are fixed-size ([vkey(32), signature(64)]), so zero-filled
+// placeholders give the exact signed size before anything is signed
+function signedSize(body: number[], signers: number, nativeScripts: Uint8Array[]): number {
+  const placeholder = cborArray([cborBytes(new Uint8Array(32)), cborBytes(new Uint8Array(64))])
+  const witnesses = Array.from({ length: signers }, () => placeholder)
+  return encodeTransaction(body, encodeWitnessSet(witnesses, nativeScripts)).length
+}
+
+// ====================================================================
+// Builder
+// ====================================================================
+
+/**
+ * Balance and size a transaction.
+ *
+ * Only ADA-only UTxOs are selected: at the platform address the token-holding
+ * UTxOs are CIP-68 reference NFTs, and spending one into change would strip
+ * its inline datum. Change below its min-UTxO is folded into the fee.
+ *
+ * Throws InsufficientFundsError when the selectable UTxOs cannot cover the
+ * outputs and fee, and TxTooLargeError above the protocol's max_tx_size.
+ */
+export function buildTransaction(params: BuildTxParams): UnsignedTx {
+  const {
+    outputs, utxos, changeAddress, mint, signers, protocolParams,
+    currentSlot, ttlSlots = DEFAULT_TTL_SLOTS,
+  } = params
+  const required = params.inputs ?? []
+  const nativeScripts = params.nativeScripts ?? []
+  const ttl = currentSlot + ttlSlots
+
+  const sameUtxo = (a: Utxo, b: Utxo) => a.tx_hash === b.tx_hash && a.output_index === b.output_index
+  const candidates = utxos.filter(u => isAdaOnly(u) && !required.some(r => sameUtxo(r, u)))
+
+  const sized: [TxOutput, number][] = outputs.map(o => [o, minLovelaceForOutput(o, protocolParams.coinsPerUtxoByte)])
+  const outLovelace = sized.reduce((n, [, lovelace]) => n + lovelace, 0)
+
+  // Tokens left over after mint and outputs travel with the change
+  const leftoverAssets: MultiAsset = {}
+  for (const utxo of required) mergeAssets(leftoverAssets, utxoAssets(utxo))
+  mergeAssets(leftoverAssets, mint)
+  for (const output of outputs) mergeAssets(leftoverAssets, output.assets, -1)
+  for (const [policyId, names] of Object.entries(leftoverAssets)) {
+    for (const [assetName, quantity] of Object.entries(names)) {
+      if (quantity < 0) {
+        throw new Error(`Outputs spend ${-quantity} more of ${policyId}.${assetName} than inputs and mint provide`)
+      }
+    }
+  }
+
+  const selected = [...required]
+  let inLovelace = selected.reduce((n, u) => n + utxoLovelace(u), 0)
+  let next = 0
+
+  for (;;) {
+    const attempt = balance(selected, inLovelace)
+    if (attempt) {
+      if (attempt.size > protocolParams.maxTxSize) {
+        throw new TxTooLargeError(attempt.size, protocolParams.maxTxSize)
+      }
+      return attempt
+    }
+    if (next >= candidates.length) {
+      const minFee = protocolParams.minFeeA * signedSize(
+        encodeBody({ inputs: selected, outputs: sized, fee: 0, ttl, mint }), signers, nativeScripts,
+      ) + protocolParams.minFeeB
+      throw new InsufficientFundsError(outLovelace + minFee, inLovelace)
+    }
+    const utxo = candidates[next++]
+    selected.push(utxo)
+    inLovelace += utxoLovelace(utxo)
+  }
+
+  // Settle fee and change for a fixed input set, or null if it can't cover them
+  function balance(inputs: Utxo[], available: number): UnsignedTx | null {
+    let fee = 0
+    for (let i = 0; i < MAX_FEE_ITERATIONS; i++) {
+      const leftover = available - outLovelace - fee
+      if (leftover < 0) return null
+
+      const change: TxOutput = { address: changeAddress, lovelace: leftover, assets: leftoverAssets }
+      const changeMin = minLovelaceForOutput({ ...change, lovelace: 0 }, protocolParams.coinsPerUtxoByte)
+      const keepChange = leftover >= changeMin
+      if (!keepChange && hasAssets(leftoverAssets)) return null
+
+      // Without a change output, whatever is left over goes to the fee
+      const txFee = keepChange ? fee : available - outLovelace
+      const txOutputs: [TxOutput, number][] = keepChange ? [...sized, [change, leftover]] : sized
+      const body = encodeBody({ inputs, outputs: txOutputs, fee: txFee, ttl, mint })
+      const size = signedSize(body, signers, nativeScripts)
+      const minFee = protocolParams.minFeeA * size + protocolParams.minFeeB
+
+      if (txFee >= minFee) {
+        return {
+          body,
+          hash: bytesToHex(blake2b256(new Uint8Array(body))),
+          fee: txFee,
+          inputs: [...inputs],
+          outputs: txOutputs.map(([output, lovelace]) => ({ ...output, lovelace })),
+          nativeScripts,
+          size,
+          ttl,
+        }
+      }
+      fee = minFee
+    }
+    throw new Error('Transaction fee did not converge')
+  }
+}
+
+/** Attach a vkey witness per key; keys must match `signers` from the build. */
+export function signTransaction(tx: UnsignedTx, keys: SigningKey[]): SignedTx {
+  const bodyHash = blake2b256(new Uint8Array(tx.body))
+  const witnesses = keys.map(key => cborArray([
+    cborBytes(key.publicKey),
+    cborBytes(bip32Ed25519Sign(bodyHash, key)),
+  ]))
+  const cbor = new Uint8Array(encodeTransaction(tx.body, encodeWitnessSet(witnesses, tx.nativeScripts)))
+  return { hash: tx.hash, cbor, size: cbor.length }
+}
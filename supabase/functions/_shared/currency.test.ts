@@ -0,0 +1,32 @@
+import { assertEquals, assertThrows } from 'https://deno.land/std@0.177.0/testing/asserts.ts'
+import { convertMinor, eventCurrency, formatMinor, normalizeCurrency } from './currency.ts'
+
+Deno.test('normalizeCurrency accepts supported codes in any case', () => {
+  assertEquals(normalizeCurrency('EUR'), 'eur')
+  assertEquals(normalizeCurrency(' gbp '), 'gbp')
+  assertEquals(normalizeCurrency('xyz'), null)
+  assertEquals(normalizeCurrency(42), null)
+})
+
+Deno.test('events without a currency are priced in USD', () => {
+  assertEquals(eventCurrency({ currency: 'CAD' }), 'cad')
+  assertEquals(eventCurrency({ currency: null }), 'usd')
+  assertEquals(eventCurrency(null), 'usd')
+})
+
+Deno.test('formatMinor respects zero-decimal currencies', () => {
+  assertEquals(formatMinor(1250, 'eur'), '€12.50')
+  assertEquals(formatMinor(1500, 'jpy'), '¥1,500')
+})
+
+Deno.test('convertMinor goes through USD and rescales decimals', () => {
+  const rates = { eur: 0.9, jpy: 150 }
+  assertEquals(convertMinor(1000, 'usd', 'usd', rates), 1000)
+  assertEquals(convertMinor(900, 'eur', 'usd', rates), 1000)
+  assertEquals(convertMinor(1000, 'usd', 'jpy', rates), 1500)
+  assertEquals(convertMinor(1500, 'jpy', 'eur', rates), 900)
+})
+
+Deno.test('convertMinor needs a rate for both sides', () => {
+  assertThrows(() => convertMinor(1000, 'gbp', 'usd', { eur: 0.9 }))
+})
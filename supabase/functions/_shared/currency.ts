@@ -0,0 +1,82 @@
+/**
+ * Currencies events can be priced and settled in.
+ *
+ * Amounts everywhere are integers in the currency's minor unit, which is
+ * what Stripe expects: cents for USD/EUR/GBP/CAD/AUD, whole yen for JPY (a
+ * zero-decimal currency). The `_cents` suffix on columns and fields is kept
+ * for history; read it as "minor units of the row's currency".
+ *
+ * Fixed fee amounts (Stripe's per-charge fee, the mint fee, Stripe's minimum
+ * charge) are set per currency in its own minor units rather than converted
+ * from USD, so a price never moves with the exchange rate.
+ */
+
+export interface CurrencyInfo {
+  code: string
+  /** Digits after the decimal point (0 for zero-decimal currencies). */
+  decimals: number
+  /** Stripe's fixed per-charge card fee, in minor units. */
+  cardFeeFixed: number
+  /** Flat NFT mint fee added once per card order, in minor units. */
+  mintFee: number
+  /** Smallest amount Stripe will charge, in minor units. */
+  minimumCharge: number
+}
+
+export const DEFAULT_CURRENCY = 'usd'
+
+export const CURRENCIES: Record<string, CurrencyInfo> = {
+  usd: { code: 'usd', decimals: 2, cardFeeFixed: 30, mintFee: 25, minimumCharge: 50 },
+  eur: { code: 'eur', decimals: 2, cardFeeFixed: 25, mintFee: 25, minimumCharge: 50 },
+  gbp: { code: 'gbp', decimals: 2, cardFeeFixed: 20, mintFee: 20, minimumCharge: 30 },
+  cad: { code: 'cad', decimals: 2, cardFeeFixed: 30, mintFee: 30, minimumCharge: 50 },
+  aud: { code: 'aud', decimals: 2, cardFeeFixed: 30, mintFee: 30, minimumCharge: 50 },
+  jpy: { code: 'jpy', decimals: 0, cardFeeFixed: 40, mintFee: 40, minimumCharge: 50 },
+}
+
+/** Lowercase code of a supported currency, or null. */
+export function normalizeCurrency(code: unknown): string | null {
+  if (typeof code !== 'string') return null
+  const lower = code.trim().toLowerCase()
+  return CURRENCIES[lower] ? lower : null
+}
+
+export function currencyInfo(code: string): CurrencyInfo {
+  const info = CURRENCIES[code.toLowerCase()]
+  if (!info) throw new Error(`Unsupported currency: ${code}`)
+  return info
+}
+
+/** The currency an event is priced in (USD for events saved before currencies). */
+export function eventCurrency(event: { currency?: string | null } | null | undefined): string {
+  return normalizeCurrency(event?.currency) ?? DEFAULT_CURRENCY
+}
+
+/** Human-readable amount for emails and receipts, e.g. "€12.50" or "¥1,500". */
+export function formatMinor(amount: number, code: string): string {
+  const info = currencyInfo(code)
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: info.code.toUpperCase(),
+    minimumFractionDigits: info.decimals,
+    maximumFractionDigits: info.decimals,
+  }).format(amount / 10 ** info.decimals)
+}
+
+/**
+ * Convert minor units between currencies using rates quoted per 1 USD
+ * (`rates.eur` = euros per dollar). USD is implicitly 1.
+ */
+export function convertMinor(amount: number, from: string, to: string, rates: Record<string, number>): number {
+  const source = currencyInfo(from)
+  const target = currencyInfo(to)
+  if (source.code === target.code) return amount
+  const rate = (code: string) => {
+    if (code === 'usd') return 1
+    const r = rates[code]
+    if (!r || r <= 0) throw new Error(`No exchange rate for ${code}`)
+    return r
+  }
+  const usd = amount / 10 ** source.decimals / rate(source.code)
+  return Math.round(usd * rate(target.code) * 10 ** target.decimals)
+}
@@ -0,0 +1,35 @@
+import { assertEquals, assertNotEquals } from 'https://deno.land/std@0.177.0/testing/asserts.ts'
+import {
+  cancellationIdempotencyKey,
+  cancellationRefundAmount,
+  isDefiniteStripeFailure,
+  isStripeRateLimit,
+} from './event-cancellation.ts'
+
+Deno.test('a cancellation refunds what is left on each payment', () => {
+  assertEquals(cancellationRefundAmount({ amount_cents: 12044, status: 'completed' }), 12044)
+  assertEquals(cancellationRefundAmount({ amount_cents: 12044, refunded_cents: 3011, status: 'completed' }), 9033)
+  assertEquals(cancellationRefundAmount({ amount_cents: 12044, refunded_cents: 12044, status: 'completed' }), 0)
+  assertEquals(cancellationRefundAmount({ amount_cents: 12044, status: 'refunded' }), 0)
+  assertEquals(cancellationRefundAmount({ amount_cents: 0, refunded_cents: null, status: 'completed' }), 0)
+})
+
+Deno.test('replayed claims reuse the idempotency key, manual retries do not', () => {
+  const item = { id: 'item-1', retries: 0 }
+  assertEquals(cancellationIdempotencyKey(item), cancellationIdempotencyKey({ ...item }))
+  assertNotEquals(cancellationIdempotencyKey(item), cancellationIdempotencyKey({ ...item, retries: 1 }))
+})
+
+Deno.test('only 429s count as rate limiting', () => {
+  assertEquals(isStripeRateLimit({ type: 'StripeRateLimitError' }), true)
+  assertEquals(isStripeRateLimit({ type: 'StripeAPIError', statusCode: 429 }), true)
+  assertEquals(isStripeRateLimit({ type: 'StripeInvalidRequestError', statusCode: 400 }), false)
+  assertEquals(isStripeRateLimit(new Error('network')), false)
+})
+
+Deno.test('only definite Stripe answers fail an item outright', () => {
+  assertEquals(isDefiniteStripeFailure({ type: 'StripeInvalidRequestError', statusCode: 400 }), true)
+  assertEquals(isDefiniteStripeFailure({ type: 'StripeRateLimitError', statusCode: 429 }), false)
+  assertEquals(isDefiniteStripeFailure({ type: 'StripeAPIError', statusCode: 500 }), false)
+  assertEquals(isDefiniteStripeFailure({ type: 'StripeConnectionError' }), false)
+})
@@ -0,0 +1,39 @@
+// Shared by cancel-event: what a cancellation refunds per payment and how
+// its Stripe calls are keyed and throttled.
+
+/** Stripe's live limit is 100 requests/s shared by the whole account;
+ *  cancellations stay well below it so checkout keeps working meanwhile. */
+export const REFUNDS_PER_SECOND = 10
+
+export interface CancellationPayment {
+  amount_cents: number
+  refunded_cents?: number | null
+  status: string
+}
+
+/** What is left to refund on a payment: its charge less any refunds
+ *  already made (e.g. single tickets refunded before the cancellation). */
+export function cancellationRefundAmount(payment: CancellationPayment): number {
+  if (payment.status === 'refunded') return 0
+  return Math.max(0, payment.amount_cents - (payment.refunded_cents ?? 0))
+}
+
+/** Same key for every claim of an item, so replaying a batch that died
+ *  after Stripe accepted the refund returns that refund instead of making
+ *  another; a new key per manual retry, since Stripe keeps failures too. */
+export function cancellationIdempotencyKey(item: { id: string; retries: number }): string {
+  return `event_cancel_${item.id}_${item.retries}`
+}
+
+/** Stripe answered 429: stop the batch and leave the rest for later. */
+export function isStripeRateLimit(err: any): boolean {
+  return err?.type === 'StripeRateLimitError' || err?.statusCode === 429
+}
+
+/** Stripe gave a definite answer (a 4xx other than 429), so the refund
+ *  didn't happen and repeating it won't help. Network errors and 5xxs may
+ *  have refunded anyway; those are replayed under the same key instead. */
+export function isDefiniteStripeFailure(err: any): boolean {
+  const status = err?.statusCode
+  return typeof status === 'number' && status >= 400 && status < 500 && status !== 429
+}
@@ -0,0 +1,158 @@
+import { assertEquals, assertThrows } from 'https://deno.land/std@0.177.0/testing/asserts.ts'
+import {
+  calculateFees,
+  FEE_SCHEDULE_VERSION,
+  feeScheduleStamp,
+  feeTaxColumns,
+  scheduleSupportsCurrency,
+  type FeeScheduleName,
+} from './fees.ts'
+
+// [schedule, base, platform, mint, stripe, ach, service, total, payout]
+type Row = [FeeScheduleName, number, number, number, number, number, number, number, number]
+
+const cases: Row[] = [
+  ['card', 0, 0, 0, 0, 0, 0, 0, 0],
+  ['card', 100, 5, 25, 35, 0, 65, 165, 100],
+  ['card', 1000, 50, 25, 64, 0, 139, 1139, 1000],
+  ['card', 1999, 100, 25, 95, 0, 220, 2219, 1999],
+  ['card', 2500, 125, 25, 111, 0, 261, 2761, 2500],
+  ['card', 10000, 500, 25, 346, 0, 871, 10871, 10000],
+
+  ['waitlist', 1000, 50, 25, 64, 0, 139, 1139, 1000],
+  ['waitlist', 2500, 125, 25, 111, 0, 261, 2761, 2500],
+
+  ['ach', 0, 0, 0, 0, 0, 0, 0, 0],
+  ['ach', 1000, 50, 0, 0, 9, 59, 1059, 1000],
+  ['ach', 2500, 125, 0, 0, 21, 146, 2646, 2500],
+  ['ach', 99999, 5000, 0, 0, 500, 5500, 105499, 99999], // ACH fee capped at $5
+
+  ['wallet', 1000, 50, 0, 0, 0, 50, 1050, 1000],
+  ['wallet', 1999, 100, 0, 0, 0, 100, 2099, 1999],
+
+  ['wallet_top_up', 1000, 0, 0, 0, 8, 8, 1008, 1000],
+  ['wallet_top_up', 99999, 0, 0, 0, 500, 500, 100499, 99999],
+
+  ['cash', 1000, 50, 0, 0, 0, 0, 1000, 1000],
+  ['cash', 1999, 100, 0, 0, 0, 0, 1999, 1999],
+
+  ['resale', 1000, 50, 0, 0, 0, 0, 1000, 950],
+  ['resale', 1999, 100, 0, 0, 0, 0, 1999, 1899],
+  ['resale', 10000, 500, 0, 0, 0, 0, 10000, 9500],
+]
+
+for (const [schedule, base, platform, mint, stripe, ach, service, total, payout] of cases) {
+  Deno.test(`${schedule}: ${base} cents`, () => {
+    assertEquals(calculateFees(schedule, base), {
+      schedule,
+      schedule_version: FEE_SCHEDULE_VERSION,
+      currency: 'usd',
+      base_cents: base,
+      platform_fee_cents: platform,
+      mint_fee_cents: mint,
+      stripe_fee_cents: stripe,
+      ach_fee_cents: ach,
+      tax_cents: 0,
+      tax: null,
+      service_fee_cents: service,
+      total_cents: total,
+      payout_cents: payout,
+    })
+  })
+}
+
+Deno.test('waitlist and card price the same ticket identically', () => {
+  for (const base of [1, 99, 500, 1234, 4999, 25000]) {
+    const card = calculateFees('card', base)
+    const waitlist = calculateFees('waitlist', base)
+    assertEquals(waitlist.total_cents, card.total_cents)
+    assertEquals(waitlist.service_fee_cents, card.service_fee_cents)
+  }
+})
+
+Deno.test('negative base prices are treated as free', () => {
+  assertEquals(calculateFees('card', -500).total_cents, 0)
+})
+
+Deno.test('unknown schedules are rejected', () => {
+  assertThrows(() => calculateFees('bogus' as FeeScheduleName, 1000))
+})
+
+// [currency, base, mint, stripe, service, total]
+const currencyCases: [string, number, number, number, number, number][] = [
+  ['eur', 1000, 25, 58, 133, 1133],
+  ['gbp', 1000, 20, 53, 123, 1123],
+  ['cad', 1000, 30, 64, 144, 1144],
+  ['jpy', 1500, 40, 90, 205, 1705], // zero-decimal: whole yen
+]
+
+for (const [currency, base, mint, stripe, service, total] of currencyCases) {
+  Deno.test(`card in ${currency}: ${base}`, () => {
+    const fees = calculateFees('card', base, currency)
+    assertEquals(fees.currency, currency)
+    assertEquals(fees.mint_fee_cents, mint)
+    assertEquals(fees.stripe_fee_cents, stripe)
+    assertEquals(fees.service_fee_cents, service)
+    assertEquals(fees.total_cents, total)
+  })
+}
+
+Deno.test('currency codes are case-insensitive', () => {
+  assertEquals(calculateFees('card', 1000, 'EUR'), calculateFees('card', 1000, 'eur'))
+})
+
+Deno.test('ACH and wallet schedules are USD only', () => {
+  for (const schedule of ['ach', 'wallet', 'wallet_top_up'] as FeeScheduleName[]) {
+    assertEquals(scheduleSupportsCurrency(schedule, 'usd'), true)
+    assertEquals(scheduleSupportsCurrency(schedule, 'eur'), false)
+    assertThrows(() => calculateFees(schedule, 1000, 'eur'))
+  }
+  assertEquals(scheduleSupportsCurrency('resale', 'gbp'), true)
+})
+
+Deno.test('unsupported currencies are rejected', () => {
+  assertThrows(() => calculateFees('card', 1000, 'xyz'))
+})
+
+Deno.test('tax on top is added before the card gross-up and passed to the organizer', () => {
+  const fees = calculateFees('card', 1000, 'usd', { inclusive: false, rates: [{ name: 'Sales tax', rate_bps: 825 }] })
+  assertEquals(fees.tax_cents, 83)
+  assertEquals(fees.platform_fee_cents, 50)
+  // (1000 + 83 + 50 + 25 + 30) / 0.971, rounded up
+  assertEquals(fees.total_cents, 1224)
+  assertEquals(fees.service_fee_cents, 1224 - 1000 - 83)
+  assertEquals(fees.payout_cents, 1083)
+})
+
+Deno.test('tax included in the price changes no amounts except the platform fee base', () => {
+  const fees = calculateFees('card', 1200, 'eur', { inclusive: true, rates: [{ name: 'VAT', rate_bps: 2000 }] })
+  assertEquals(fees.tax_cents, 200)
+  // 5% of the 1000 net, not of 1200
+  assertEquals(fees.platform_fee_cents, 50)
+  assertEquals(fees.payout_cents, 1200)
+  assertEquals(fees.total_cents - fees.service_fee_cents, 1200)
+})
+
+Deno.test('cash and ACH carry tax on top too', () => {
+  const tax = { inclusive: false, rates: [{ name: 'Admission tax', rate_bps: 500 }] }
+  assertEquals(calculateFees('cash', 1000, 'usd', tax).total_cents, 1050)
+  // 1000 + 50 tax + 50 platform, then 0.8% ACH on 1100
+  assertEquals(calculateFees('ach', 1000, 'usd', tax).total_cents, 1109)
+})
+
+Deno.test('tax columns give every line the net price it applied to', () => {
+  const fees = calculateFees('card', 1200, 'gbp', { inclusive: true, rates: [{ name: 'VAT', rate_bps: 2000 }] })
+  assertEquals(feeTaxColumns(fees), {
+    tax_cents: 200,
+    tax_inclusive: true,
+    tax_lines: [{ name: 'VAT', rate_bps: 2000, tax_cents: 200, net_cents: 1000 }],
+  })
+  assertEquals(feeTaxColumns(calculateFees('card', 1000)), { tax_cents: 0, tax_inclusive: false, tax_lines: [] })
+})
+
+Deno.test('stamp carries schedule name and version', () => {
+  assertEquals(feeScheduleStamp(calculateFees('ach', 1000)), {
+    fee_schedule: 'ach',
+    fee_schedule_version: FEE_SCHEDULE_VERSION,
+  })
+})
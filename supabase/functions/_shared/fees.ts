@@ -0,0 +1,209 @@
+/**
+ * Shared fee engine for every checkout edge function.
+ *
+ * Each payment path prices through a named fee schedule so the same ticket
+ * costs the same amount whichever door the buyer comes through. The `card`
+ * schedule must match the client-side ServiceFeeCalculator exactly and `ach`
+ * must match ACHPurchaseFeeCalculator.
+ *
+ * Amounts are in the minor units of the order's currency (see currency.ts).
+ * Percentages apply the same way in every currency; the fixed parts (Stripe's
+ * per-charge fee and the mint fee) come from the currency's own table. ACH and
+ * the wallet only exist in USD.
+ *
+ * Sales tax / VAT (see tax.ts) is worked out on the ticket price from the
+ * event's tax setup, when the caller passes one. Tax quoted on top of the
+ * price is added before the card gross-up, since Stripe charges its
+ * percentage on the whole amount, and is passed through to the organizer, who
+ * remits it. Tax included in the price changes no amounts and is only
+ * recorded. The platform fee is a share of the ticket price, so it is worked
+ * out on the price without tax.
+ *
+ * Bump FEE_SCHEDULE_VERSION whenever a rate or rounding rule changes. The
+ * version is stamped into PaymentIntent metadata and onto the `payments` row
+ * so every stored charge can be traced back to the schedule that priced it.
+ */
+
+import { currencyInfo, DEFAULT_CURRENCY } from './currency.ts'
+import { calculateTax, type EventTax, NO_TAX, type TaxBreakdown, taxAddedCents } from './tax.ts'
+
+export const FEE_SCHEDULE_VERSION = '2026-04-16'
+
+export type FeeScheduleName =
+  | 'card'
+  | 'ach'
+  | 'wallet'
+  | 'wallet_top_up'
+  | 'cash'
+  | 'resale'
+  | 'waitlist'
+
+export interface FeeSchedule {
+  name: FeeScheduleName
+  /** Platform fee as a fraction of the base price (rounded up to the cent). */
+  platformRate: number
+  /** Whether the currency's flat NFT mint fee is added once per order. */
+  mintFee: boolean
+  /** Processor cost recovered from the buyer on top of the subtotal. */
+  processor: 'card' | 'ach' | 'none'
+  /**
+   * How the platform fee is collected:
+   * - `added`: charged to the buyer on top of the base price
+   * - `withheld`: deducted from the seller's proceeds (buyer pays the base price)
+   * - `billed`: charged to the organizer separately (buyer pays the base price)
+   */
+  collection: 'added' | 'withheld' | 'billed'
+  /** Currencies the schedule can charge in (any supported one when omitted). */
+  currencies?: string[]
+}
+
+export interface FeeBreakdown {
+  schedule: FeeScheduleName
+  schedule_version: string
+  /** Lowercase ISO code; every amount below is in its minor units. */
+  currency: string
+  base_cents: number
+  platform_fee_cents: number
+  mint_fee_cents: number
+  stripe_fee_cents: number
+  ach_fee_cents: number
+  /** Tax in the order, whether added on top or included in the base price. */
+  tax_cents: number
+  /** Per-rate detail; null when the order is untaxed. */
+  tax: TaxBreakdown | null
+  /** Fees the buyer pays on top of the base price (tax excluded). */
+  service_fee_cents: number
+  /** Amount charged to the buyer. */
+  total_cents: number
+  /** Amount left for the seller after withheld fees, tax included. */
+  payout_cents: number
+}
+
+const PLATFORM_FEE_RATE = 0.05
+const CARD_FEE_RATE = 0.029
+const ACH_FEE_RATE = 0.008
+const ACH_FEE_CAP_CENTS = 500
+const USD_ONLY = ['usd']
+
+export const FEE_SCHEDULES: Record<FeeScheduleName, FeeSchedule> = {
+  card: { name: 'card', platformRate: PLATFORM_FEE_RATE, mintFee: true, processor: 'card', collection: 'added' },
+  ach: { name: 'ach', platformRate: PLATFORM_FEE_RATE, mintFee: false, processor: 'ach', collection: 'added', currencies: USD_ONLY },
+  wallet: { name: 'wallet', platformRate: PLATFORM_FEE_RATE, mintFee: false, processor: 'none', collection: 'added', currencies: USD_ONLY },
+  wallet_top_up: { name: 'wallet_top_up', platformRate: 0, mintFee: false, processor: 'ach', collection: 'added', currencies: USD_ONLY },
+  cash: { name: 'cash', platformRate: PLATFORM_FEE_RATE, mintFee: false, processor: 'none', collection: 'billed' },
+  resale: { name: 'resale', platformRate: PLATFORM_FEE_RATE, mintFee: false, processor: 'none', collection: 'withheld' },
+  // Off-session card charge — priced exactly like `card` so an auto-buy never
+  // costs more than the same ticket bought at checkout.
+  waitlist: { name: 'waitlist', platformRate: PLATFORM_FEE_RATE, mintFee: true, processor: 'card', collection: 'added' },
+}
+
+/**
+ * Whether the named schedule can charge in `currency`. Callers check this
+ * first so an unsupported combination turns into a 400, not a thrown error.
+ */
+export function scheduleSupportsCurrency(scheduleName: FeeScheduleName, currency: string): boolean {
+  const schedule = FEE_SCHEDULES[scheduleName]
+  return !!schedule && (!schedule.currencies || schedule.currencies.includes(currency.toLowerCase()))
+}
+
+/**
+ * Price an order of `baseCents` (minor units of `currency`) under the named
+ * schedule, with the event's tax rates (see loadEventTax) for taxed events.
+ */
+export function calculateFees(
+  scheduleName: FeeScheduleName,
+  baseCents: number,
+  currency: string = DEFAULT_CURRENCY,
+  eventTax: EventTax = NO_TAX,
+): FeeBreakdown {
+  const schedule = FEE_SCHEDULES[scheduleName]
+  if (!schedule) {
+    throw new Error(`Unknown fee schedule: ${scheduleName}`)
+  }
+  const money = currencyInfo(currency)
+  if (!scheduleSupportsCurrency(scheduleName, money.code)) {
+    throw new Error(`Fee schedule ${scheduleName} does not support ${money.code}`)
+  }
+
+  const breakdown: FeeBreakdown = {
+    schedule: schedule.name,
+    schedule_version: FEE_SCHEDULE_VERSION,
+    currency: money.code,
+    base_cents: 0,
+    platform_fee_cents: 0,
+    mint_fee_cents: 0,
+    stripe_fee_cents: 0,
+    ach_fee_cents: 0,
+    tax_cents: 0,
+    tax: null,
+    service_fee_cents: 0,
+    total_cents: 0,
+    payout_cents: 0,
+  }
+
+  if (baseCents <= 0) {
+    return breakdown
+  }
+
+  const tax = calculateTax(baseCents, eventTax)
+  if (tax.tax_cents > 0) {
+    breakdown.tax_cents = tax.tax_cents
+    breakdown.tax = tax
+  }
+  const addedTax = taxAddedCents(breakdown.tax)
+  const netCents = breakdown.tax ? breakdown.tax.net_cents : baseCents
+
+  breakdown.base_cents = baseCents
+  breakdown.platform_fee_cents = Math.ceil(netCents * schedule.platformRate)
+
+  if (schedule.collection !== 'added') {
+    // Buyer pays the base price; the platform fee comes out of the seller's
+    // proceeds (resale) or is billed to the organizer (cash).
+    breakdown.total_cents = baseCents + addedTax
+    breakdown.payout_cents = schedule.collection === 'withheld'
+      ? baseCents + addedTax - breakdown.platform_fee_cents
+      : baseCents + addedTax
+    return breakdown
+  }
+
+  breakdown.mint_fee_cents = schedule.mintFee ? money.mintFee : 0
+  const subtotal = baseCents + addedTax + breakdown.platform_fee_cents + breakdown.mint_fee_cents
+
+  if (schedule.processor === 'card') {
+    // Gross up so the platform nets the subtotal after Stripe's 2.9% plus the
+    // currency's fixed fee (30¢ in USD)
+    breakdown.total_cents = Math.ceil((subtotal + money.cardFeeFixed) / (1 - CARD_FEE_RATE))
+    breakdown.stripe_fee_cents = breakdown.total_cents - subtotal
+  } else if (schedule.processor === 'ach') {
+    breakdown.ach_fee_cents = Math.min(Math.ceil(subtotal * ACH_FEE_RATE), ACH_FEE_CAP_CENTS)
+    breakdown.total_cents = subtotal + breakdown.ach_fee_cents
+  } else {
+    breakdown.total_cents = subtotal
+  }
+
+  breakdown.service_fee_cents = breakdown.total_cents - baseCents - addedTax
+  breakdown.payout_cents = baseCents + addedTax
+  return breakdown
+}
+
+/**
+ * Tax columns for a `payments` row; every line carries the net price it was
+ * charged on so the organizer tax report can show taxable sales.
+ */
+export function feeTaxColumns(fees: FeeBreakdown): { tax_cents: number; tax_inclusive: boolean; tax_lines: unknown[] } {
+  return {
+    tax_cents: fees.tax_cents,
+    tax_inclusive: fees.tax?.inclusive ?? false,
+    tax_lines: fees.tax ? fees.tax.lines.map((l) => ({ ...l, net_cents: fees.tax!.net_cents })) : [],
+  }
+}
+
+/**
+ * Schedule name and version for PaymentIntent metadata and `payments` rows.
+ */
+export function feeScheduleStamp(fees: FeeBreakdown): { fee_schedule: string; fee_schedule_version: string } {
+  return {
+    fee_schedule: fees.schedule,
+    fee_schedule_version: fees.schedule_version,
+  }
+}
@@ -0,0 +1,103 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.177.0/testing/asserts.ts'
+import { evaluatePromoCodes, generatePromoCodes, type PromoCodeRow, toCsv } from './promo.ts'
+
+function promo(code: string, overrides: Partial<PromoCodeRow> = {}): PromoCodeRow {
+  return {
+    id: `id-${code}`,
+    code,
+    event_id: 'event-1',
+    series_id: null,
+    discount_type: 'percentage',
+    discount_value: 10,
+    buy_quantity: null,
+    get_quantity: null,
+    max_uses: null,
+    max_uses_per_user: 1,
+    min_quantity: null,
+    min_order_cents: null,
+    valid_from: null,
+    valid_until: null,
+    ticket_type_id: null,
+    stackable: false,
+    is_active: true,
+    uses: 0,
+    user_uses: 0,
+    ...overrides,
+  }
+}
+
+// 2 × VIP at $50, 3 × GA at $20: $160
+const lines = [
+  { ticket_type_id: 'vip', quantity: 2, unit_price_cents: 5000 },
+  { ticket_type_id: 'ga', quantity: 3, unit_price_cents: 2000 },
+]
+
+Deno.test('percentage and fixed codes discount the order, limited to their ticket type', () => {
+  assertEquals(evaluatePromoCodes(['save10'], [promo('SAVE10')], lines), {
+    valid: true,
+    discount_cents: 1600,
+    codes: [{ promo_code_id: 'id-SAVE10', code: 'SAVE10', discount_type: 'percentage', discount_value: 10, discount_cents: 1600 }],
+  })
+
+  const gaOnly = evaluatePromoCodes(['GA'], [promo('GA', { discount_type: 'fixed', discount_value: 10000, ticket_type_id: 'ga' })], lines)
+  assertEquals(gaOnly.valid && gaOnly.discount_cents, 6000)
+
+  const wrongType = evaluatePromoCodes(['KIDS'], [promo('KIDS', { ticket_type_id: 'kids' })], lines)
+  assertEquals(wrongType, { valid: false, error: 'This code does not apply to these tickets', code: 'KIDS' })
+})
+
+Deno.test('buy x get y frees the cheapest qualifying tickets per full group', () => {
+  const bogo = promo('BOGO', { discount_type: 'buy_x_get_y', discount_value: 100, buy_quantity: 1, get_quantity: 1 })
+  // 5 tickets → 2 full groups → the two cheapest ($20 GA) are free
+  const result = evaluatePromoCodes(['BOGO'], [bogo], lines)
+  assertEquals(result.valid && result.discount_cents, 4000)
+
+  const halfOffThird = promo('3RD', { discount_type: 'buy_x_get_y', discount_value: 50, buy_quantity: 2, get_quantity: 1, ticket_type_id: 'vip' })
+  assertEquals(evaluatePromoCodes(['3RD'], [halfOffThird], lines), {
+    valid: false,
+    error: 'This code needs at least 3 qualifying tickets',
+    code: '3RD',
+  })
+})
+
+Deno.test('codes stack only when all are stackable, in a fixed order', () => {
+  const bogo = promo('BOGO', { discount_type: 'buy_x_get_y', discount_value: 100, buy_quantity: 1, get_quantity: 1, stackable: true })
+  const tenOff = promo('TEN', { discount_type: 'fixed', discount_value: 1000, stackable: true })
+  const pct = promo('PCT', { discount_value: 50, stackable: true })
+
+  // Entered fixed first, but BOGO ($40) → 50% of $120 ($60) → $10 fixed
+  const stacked = evaluatePromoCodes(['TEN', 'PCT', 'BOGO'], [bogo, tenOff, pct], lines)
+  assert(stacked.valid)
+  assertEquals(stacked.codes.map((c) => [c.code, c.discount_cents]), [['TEN', 1000], ['PCT', 6000], ['BOGO', 4000]])
+  assertEquals(stacked.discount_cents, 11000)
+
+  const loner = evaluatePromoCodes(['TEN', 'SOLO'], [tenOff, promo('SOLO')], lines)
+  assertEquals(loner, { valid: false, error: "SOLO can't be combined with other codes", code: 'SOLO' })
+
+  const huge = evaluatePromoCodes(['TEN', 'BIG'], [tenOff, promo('BIG', { discount_type: 'fixed', discount_value: 99999, stackable: true })], lines)
+  assertEquals(huge.valid && huge.discount_cents, 16000)
+})
+
+Deno.test('usage limits, minimums and dates are checked per code', () => {
+  const check = (overrides: Partial<PromoCodeRow>) => {
+    const result = evaluatePromoCodes(['X'], [promo('X', overrides)], lines, new Date('2026-05-01T00:00:00Z'))
+    return result.valid ? null : result.error
+  }
+  assertEquals(check({ max_uses: 10, uses: 10 }), 'This code has reached its usage limit')
+  assertEquals(check({ user_uses: 1 }), 'You have already used this code')
+  assertEquals(check({ max_uses_per_user: 3, user_uses: 2 }), null)
+  assertEquals(check({ max_uses_per_user: null, user_uses: 50 }), null)
+  assertEquals(check({ min_quantity: 6 }), 'This code needs at least 6 tickets')
+  assertEquals(check({ min_order_cents: 20000 }), 'This code needs an order of at least 200.00')
+  assertEquals(check({ valid_until: '2026-04-30T00:00:00Z' }), 'This code has expired')
+  assertEquals(check({ is_active: false }), 'This code is no longer active')
+  assertEquals(evaluatePromoCodes(['NOPE'], [], lines), { valid: false, error: 'Invalid promo code', code: 'NOPE' })
+})
+
+Deno.test('bulk codes are distinct, prefixed and readable; csv cells are escaped', () => {
+  const codes = generatePromoCodes(500, 'ACME')
+  assertEquals(new Set(codes).size, 500)
+  assert(codes.every((c) => /^ACME-[A-HJ-NP-Z2-9]{8}$/.test(c)))
+
+  assertEquals(toCsv(['code', 'note'], [['A', 'x, "y"'], ['B', '=HYPERLINK()'], ['C', null]]), 'code,note\nA,"x, ""y"""\nB,\'=HYPERLINK()\nC,\n')
+})
@@ -0,0 +1,337 @@
+/**
+ * Promo codes: which of the entered codes apply to an order, and what they
+ * take off.
+ *
+ * A code belongs to one event or to an event series, where it is valid on
+ * every occurrence. `lookup_promo_codes` loads the entered codes for an
+ * event together with their live use counts; `evaluatePromoCodes` checks
+ * them against the order and prices the discount. The limits are checked
+ * again under lock by `reserve_promo_code_uses` when the PaymentIntent is
+ * created, so two buyers can't both take the last use.
+ *
+ * Stacking: an order takes one code, or up to MAX_STACKED_CODES codes that
+ * are all stackable. Whatever order they were entered in, buy X get Y codes
+ * apply first (to the cheapest qualifying tickets), then percentages on what
+ * is left, then fixed amounts. A code limited to a ticket type only
+ * discounts tickets of that type. The total never exceeds the order.
+ */
+
+import { loadTicketTypes, priceLines } from './ticket-types.ts'
+
+export type PromoDiscountType = 'percentage' | 'fixed' | 'buy_x_get_y'
+
+/** A promo_codes row as returned by lookup_promo_codes. */
+export interface PromoCodeRow {
+  id: string
+  code: string
+  event_id: string | null
+  series_id: string | null
+  discount_type: PromoDiscountType
+  /** Percent, cents, or for buy X get Y the percent off the free tickets. */
+  discount_value: number
+  buy_quantity: number | null
+  get_quantity: number | null
+  max_uses: number | null
+  max_uses_per_user: number | null
+  min_quantity: number | null
+  min_order_cents: number | null
+  valid_from: string | null
+  valid_until: string | null
+  ticket_type_id: string | null
+  stackable: boolean
+  is_active: boolean
+  /** Redeemed uses plus live reservations. */
+  uses: number
+  /** The same for the buyer; 0 when there is no buyer yet. */
+  user_uses: number
+}
+
+/** One ticket type in the order, at its undiscounted price. */
+export interface OrderLine {
+  ticket_type_id: string | null
+  quantity: number
+  unit_price_cents: number
+}
+
+export interface AppliedPromo {
+  promo_code_id: string
+  code: string
+  discount_type: PromoDiscountType
+  discount_value: number
+  discount_cents: number
+}
+
+export type PromoEvaluation =
+  | { valid: true; discount_cents: number; codes: AppliedPromo[] }
+  | { valid: false; error: string; code?: string }
+
+export const MAX_STACKED_CODES = 3
+
+// Bulk codes: no 0/O or 1/I, so partners can read them out
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+const BULK_CODE_LENGTH = 8
+export const MAX_BULK_CODES = 1000
+
+const APPLY_ORDER: Record<PromoDiscountType, number> = { buy_x_get_y: 0, percentage: 1, fixed: 2 }
+
+export function normalizeCode(code: string): string {
+  return code.trim().toUpperCase()
+}
+
+/** Entered codes, normalized and de-duplicated, in entry order. */
+export function normalizeCodes(codes: unknown): string[] {
+  const list = Array.isArray(codes) ? codes : [codes]
+  const seen = new Set<string>()
+  for (const code of list) {
+    if (typeof code !== 'string') continue
+    const normalized = normalizeCode(code)
+    if (normalized) seen.add(normalized)
+  }
+  return [...seen]
+}
+
+function formatCents(cents: number): string {
+  return (cents / 100).toFixed(2)
+}
+
+// Why a single code can't be used on this order, or null when it can
+function ineligibility(promo: PromoCodeRow, lines: OrderLine[], now: Date): string | null {
+  if (!promo.is_active) return 'This code is no longer active'
+  if (promo.valid_from && now < new Date(promo.valid_from)) return 'This code is not yet valid'
+  if (promo.valid_until && now > new Date(promo.valid_until)) return 'This code has expired'
+  if (promo.max_uses != null && promo.uses >= promo.max_uses) return 'This code has reached its usage limit'
+  if (promo.max_uses_per_user != null && promo.user_uses >= promo.max_uses_per_user) {
+    return promo.max_uses_per_user === 1
+      ? 'You have already used this code'
+      : `You can use this code ${promo.max_uses_per_user} times`
+  }
+
+  const quantity = lines.reduce((sum, l) => sum + l.quantity, 0)
+  const orderCents = orderTotal(lines)
+  if (promo.min_quantity != null && quantity < promo.min_quantity) {
+    return `This code needs at least ${promo.min_quantity} tickets`
+  }
+  if (promo.min_order_cents != null && orderCents < promo.min_order_cents) {
+    return `This code needs an order of at least ${formatCents(promo.min_order_cents)}`
+  }
+
+  const eligible = lines.filter((l) => appliesTo(promo, l)).reduce((sum, l) => sum + l.quantity, 0)
+  if (eligible === 0) return 'This code does not apply to these tickets'
+  if (promo.discount_type === 'buy_x_get_y') {
+    const group = (promo.buy_quantity ?? 0) + (promo.get_quantity ?? 0)
+    if (group === 0) return 'Invalid promo code'
+    if (eligible < group) return `This code needs at least ${group} qualifying tickets`
+  }
+  return null
+}
+
+function appliesTo(promo: PromoCodeRow, line: { ticket_type_id: string | null }): boolean {
+  return promo.ticket_type_id == null || promo.ticket_type_id === line.ticket_type_id
+}
+
+/**
+ * Check the entered codes against an order and price their discount.
+ * `found` holds the rows lookup_promo_codes returned; an entered code
+ * without a row is invalid.
+ */
+export function evaluatePromoCodes(
+  entered: string[],
+  found: PromoCodeRow[],
+  lines: OrderLine[],
+  now = new Date(),
+): PromoEvaluation {
+  const codes = normalizeCodes(entered)
+  if (codes.length === 0) return { valid: false, error: 'Enter a promo code' }
+  if (codes.length > MAX_STACKED_CODES) {
+    return { valid: false, error: `At most ${MAX_STACKED_CODES} codes can be combined` }
+  }
+
+  const byCode = new Map(found.map((p) => [normalizeCode(p.code), p]))
+  const promos: PromoCodeRow[] = []
+  for (const code of codes) {
+    const promo = byCode.get(code)
+    if (!promo) return { valid: false, error: 'Invalid promo code', code }
+    const problem = ineligibility(promo, lines, now)
+    if (problem) return { valid: false, error: problem, code }
+    promos.push(promo)
+  }
+
+  if (promos.length > 1) {
+    const loner = promos.find((p) => !p.stackable)
+    if (loner) return { valid: false, error: `${loner.code} can't be combined with other codes`, code: loner.code }
+  }
+
+  // One entry per ticket, holding what is left to pay for it
+  const units = lines.flatMap((l) =>
+    Array.from({ length: l.quantity }, () => ({ ticket_type_id: l.ticket_type_id, remaining: l.unit_price_cents }))
+  )
+
+  const discounts = new Map<string, number>()
+  const applyOrder = promos
+    .map((promo, index) => ({ promo, index }))
+    .sort((a, b) => APPLY_ORDER[a.promo.discount_type] - APPLY_ORDER[b.promo.discount_type] || a.index - b.index)
+  for (const { promo } of applyOrder) {
+    const eligible = units.filter((u) => appliesTo(promo, u))
+    discounts.set(
+      promo.id,
+      promo.discount_type === 'buy_x_get_y'
+        ? applyBuyXGetY(promo, eligible)
+        : takeFrom(eligible, discountFor(promo, eligible.reduce((sum, u) => sum + u.remaining, 0))),
+    )
+  }
+
+  const applied: AppliedPromo[] = promos.map((promo) => ({
+    promo_code_id: promo.id,
+    code: promo.code,
+    discount_type: promo.discount_type,
+    discount_value: promo.discount_value,
+    discount_cents: discounts.get(promo.id) ?? 0,
+  }))
+  return { valid: true, discount_cents: applied.reduce((sum, a) => sum + a.discount_cents, 0), codes: applied }
+}
+
+function discountFor(promo: PromoCodeRow, subtotal: number): number {
+  const raw = promo.discount_type === 'percentage'
+    ? Math.ceil(subtotal * promo.discount_value / 100)
+    : promo.discount_value
+  return Math.min(raw, subtotal)
+}
+
+// Every full group of buy + get tickets makes its `get` cheapest tickets
+// discount_value percent off
+function applyBuyXGetY(promo: PromoCodeRow, eligible: { remaining: number }[]): number {
+  const buy = promo.buy_quantity ?? 0
+  const get = promo.get_quantity ?? 0
+  const free = Math.floor(eligible.length / (buy + get)) * get
+  const cheapest = [...eligible].sort((a, b) => a.remaining - b.remaining).slice(0, free)
+
+  let total = 0
+  for (const unit of cheapest) {
+    const off = Math.min(unit.remaining, Math.ceil(unit.remaining * promo.discount_value / 100))
+    unit.remaining -= off
+    total += off
+  }
+  return total
+}
+
+// Take `amount` off the units in order; returns what was taken
+function takeFrom(units: { remaining: number }[], amount: number): number {
+  let left = amount
+  for (const unit of units) {
+    if (left === 0) break
+    const off = Math.min(unit.remaining, left)
+    unit.remaining -= off
+    left -= off
+  }
+  return amount - left
+}
+
+/**
+ * An order at current prices (tiers included): the ticket types it names,
+ * or the event's flat price × `quantity` when it names none. Unknown types
+ * are left out; the sales rules are checked separately at checkout.
+ */
+export async function loadOrderLines(
+  db: { from(table: string): any },
+  eventId: string,
+  items: { ticket_type_id: string; quantity?: number }[] | null | undefined,
+  quantity: number,
+): Promise<OrderLine[]> {
+  if (items && items.length > 0) {
+    const types = new Map((await loadTicketTypes(db, eventId, items.map((i) => i.ticket_type_id))).map((t) => [t.id, t]))
+    return items
+      .filter((i) => types.has(i.ticket_type_id))
+      .flatMap((i) => priceLines(types.get(i.ticket_type_id)!, i.quantity || 1))
+  }
+
+  const { data: event } = await db.from('events').select('price_in_cents').eq('id', eventId).single()
+  return [{ ticket_type_id: null, quantity, unit_price_cents: event?.price_in_cents ?? 0 }]
+}
+
+export function orderTotal(lines: OrderLine[]): number {
+  return lines.reduce((sum, l) => sum + l.quantity * l.unit_price_cents, 0)
+}
+
+/** Load the entered codes for an event, with use counts for `userId`. */
+export async function lookupPromoCodes(
+  db: { rpc(fn: string, args: Record<string, unknown>): any },
+  eventId: string,
+  codes: string[],
+  userId: string | null,
+): Promise<PromoCodeRow[]> {
+  const { data, error } = await db.rpc('lookup_promo_codes', {
+    p_event_id: eventId,
+    p_codes: codes,
+    p_user_id: userId,
+  })
+  if (error) throw new Error(`lookup_promo_codes: ${error.message}`)
+  return (data ?? []) as PromoCodeRow[]
+}
+
+/** Look up and evaluate the entered codes for an order. */
+export async function applyPromoCodes(
+  db: { rpc(fn: string, args: Record<string, unknown>): any },
+  eventId: string,
+  entered: unknown,
+  userId: string | null,
+  lines: OrderLine[],
+): Promise<PromoEvaluation> {
+  const codes = normalizeCodes(entered)
+  if (codes.length === 0) return { valid: false, error: 'Enter a promo code' }
+  return evaluatePromoCodes(codes, await lookupPromoCodes(db, eventId, codes, userId), lines)
+}
+
+/**
+ * Hold one use of each applied code for a PaymentIntent. The webhook
+ * redeems the uses when the payment succeeds; unpaid reservations lapse.
+ * Returns the error to show the buyer when a limit was reached meanwhile.
+ */
+export async function reservePromoCodes(
+  db: { rpc(fn: string, args: Record<string, unknown>): any },
+  opts: {
+    paymentIntentId: string
+    eventId: string
+    userId: string
+    lines: OrderLine[]
+    applied: AppliedPromo[]
+  },
+): Promise<string | null> {
+  const { data, error } = await db.rpc('reserve_promo_code_uses', {
+    p_payment_intent_id: opts.paymentIntentId,
+    p_event_id: opts.eventId,
+    p_user_id: opts.userId,
+    p_quantity: opts.lines.reduce((sum, l) => sum + l.quantity, 0),
+    p_order_cents: orderTotal(opts.lines),
+    p_uses: opts.applied.map((a) => ({ promo_code_id: a.promo_code_id, discount_cents: a.discount_cents })),
+  })
+  if (error) throw new Error(`reserve_promo_code_uses: ${error.message}`)
+  return data?.success ? null : (data?.error ?? 'Promo code is no longer valid')
+}
+
+/** `count` distinct codes of the form PREFIX-XXXXXXXX (or XXXXXXXX). */
+export function generatePromoCodes(count: number, prefix = ''): string[] {
+  const codes = new Set<string>()
+  const bytes = new Uint8Array(BULK_CODE_LENGTH)
+  while (codes.size < count) {
+    crypto.getRandomValues(bytes)
+    const body = Array.from(bytes, (b) => CODE_ALPHABET[b % CODE_ALPHABET.length]).join('')
+    codes.add(prefix ? `${prefix}-${body}` : body)
+  }
+  return [...codes]
+}
+
+/** Bulk code prefixes: up to 12 letters and digits, upper-cased. */
+export function validPrefix(value: unknown): string | null {
+  if (value == null || value === '') return ''
+  return typeof value === 'string' && /^[A-Za-z0-9]{1,12}$/.test(value) ? value.toUpperCase() : null
+}
+
+export function toCsv(header: string[], rows: unknown[][]): string {
+  const cell = (value: unknown) => {
+    const text = value == null ? '' : String(value)
+    // Leading =, +, - or @ would run as a formula in spreadsheet apps
+    const safe = typeof value === 'string' && /^[=+\-@]/.test(text) ? `'${text}` : text
+    return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+  }
+  return [header, ...rows].map((row) => row.map(cell).join(',')).join('\n') + '\n'
+}
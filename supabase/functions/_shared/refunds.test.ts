@@ -0,0 +1,57 @@
+import { assertEquals } from 'https://deno.land/std@0.177.0/testing/asserts.ts'
+import {
+  policyRefundPercent,
+  policyRefundsFees,
+  refundPolicyOf,
+  ticketRefundAmount,
+  ticketShare,
+} from './refunds.ts'
+
+const eventDate = '2026-06-01T20:00:00Z'
+const daysOut = (days: number) => new Date(new Date(eventDate).getTime() - days * 86_400_000)
+
+Deno.test('the refund tier depends on how far out the event is', () => {
+  const policy = refundPolicyOf({ refund_fees: false }, [
+    { days_before: 7, refund_percent: 50 },
+    { days_before: 30, refund_percent: 100 },
+  ])
+  assertEquals(policyRefundPercent(policy, eventDate, daysOut(45)), 100)
+  assertEquals(policyRefundPercent(policy, eventDate, daysOut(30)), 100)
+  assertEquals(policyRefundPercent(policy, eventDate, daysOut(29.5)), 50)
+  assertEquals(policyRefundPercent(policy, eventDate, daysOut(7)), 50)
+  assertEquals(policyRefundPercent(policy, eventDate, daysOut(6)), 0)
+  assertEquals(policyRefundPercent(policy, eventDate, daysOut(-1)), 0)
+})
+
+Deno.test('events without tiers refund nothing automatically', () => {
+  const policy = refundPolicyOf({}, null)
+  assertEquals(policy.refund_fees, false)
+  assertEquals(policyRefundPercent(policy, eventDate, daysOut(100)), 0)
+})
+
+Deno.test('a reschedule refunds in full with fees until its window closes', () => {
+  const policy = refundPolicyOf({ refund_fees: false, reschedule_refund_until: daysOut(10).toISOString() }, [
+    { days_before: 30, refund_percent: 50 },
+  ])
+  assertEquals(policyRefundPercent(policy, eventDate, daysOut(45)), 100)
+  assertEquals(policyRefundPercent(policy, eventDate, daysOut(10.5)), 100)
+  assertEquals(policyRefundsFees(policy, daysOut(10.5)), true)
+  // Back to the tiers once the window has closed
+  assertEquals(policyRefundPercent(policy, eventDate, daysOut(10)), 0)
+  assertEquals(policyRefundsFees(policy, daysOut(10)), false)
+})
+
+Deno.test('shares of a payment add back up to the total', () => {
+  const shares = [0, 1, 2].map((i) => ticketShare(1000, i, 3))
+  assertEquals(shares, [333, 334, 333])
+  assertEquals(shares.reduce((a, b) => a + b), 1000)
+  assertEquals(ticketShare(1000, 0, 0), 0)
+})
+
+Deno.test('one of four tickets refunds its share of price, fee and tax', () => {
+  // 4 x 2500 + 10% tax on top = 11000, plus a 1044 service fee
+  const payment = { amount_cents: 12044, platform_fee_cents: 1044, tax_cents: 1000 }
+  assertEquals(ticketRefundAmount(payment, 0, 4, 100, true), { amount_cents: 3011, fee_cents: 261, tax_cents: 250 })
+  assertEquals(ticketRefundAmount(payment, 0, 4, 100, false), { amount_cents: 2750, fee_cents: 0, tax_cents: 250 })
+  assertEquals(ticketRefundAmount(payment, 0, 4, 50, false), { amount_cents: 1375, fee_cents: 0, tax_cents: 125 })
+})
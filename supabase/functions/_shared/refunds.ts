@@ -0,0 +1,106 @@
+/**
+ * Per-ticket refunds and the organizer's refund policy.
+ *
+ * A policy is a list of tiers on the event (see migration
+ * 20260418100001_ticket_refunds.sql), each refunding `refund_percent` of the
+ * ticket price from `days_before` days before the event onwards, e.g.
+ * [{30, 100}, {7, 50}] refunds in full until 30 days out, half until 7 days
+ * out and nothing after. `refund_fees` says whether policy refunds include
+ * the service fee. An event without tiers has no self-service refunds:
+ * every request goes to the organizer.
+ *
+ * Rescheduling an event (migration 20260420100001_event_reschedules.sql)
+ * opens a window, `reschedule_refund_until`, in which holders who can't
+ * make the new date get everything back, fees included, whatever the tiers
+ * say.
+ *
+ * A payment for several tickets is split evenly: each ticket's share of the
+ * ticket price (with any tax added on top), the service fee and the tax is
+ * worked out with cumulative rounding so the shares always add back up to
+ * the charge.
+ */
+
+export interface RefundTier {
+  days_before: number
+  refund_percent: number
+}
+
+export interface RefundPolicy {
+  tiers: RefundTier[]
+  refund_fees: boolean
+  reschedule_refund_until: string | null
+}
+
+export interface TicketRefundAmount {
+  amount_cents: number
+  fee_cents: number
+  tax_cents: number
+}
+
+const DAY_MS = 86_400_000
+
+export function refundPolicyOf(event: any, tiers: any[] | null | undefined): RefundPolicy {
+  return {
+    tiers: (tiers ?? [])
+      .map((t) => ({ days_before: t.days_before, refund_percent: t.refund_percent }))
+      .sort((a, b) => b.days_before - a.days_before),
+    refund_fees: event?.refund_fees ?? false,
+    reschedule_refund_until: event?.reschedule_refund_until ?? null,
+  }
+}
+
+/** Whether a reschedule's full-refund window is open at `now`. */
+export function rescheduleRefundOpen(policy: RefundPolicy, now = new Date()): boolean {
+  return !!policy.reschedule_refund_until && now < new Date(policy.reschedule_refund_until)
+}
+
+/** Whether refunds the policy approves at `now` include the service fee. */
+export function policyRefundsFees(policy: RefundPolicy, now = new Date()): boolean {
+  return policy.refund_fees || rescheduleRefundOpen(policy, now)
+}
+
+/**
+ * Percentage of the ticket price the policy refunds at `now`: the furthest
+ * out tier that has been reached, or all of it while a reschedule's refund
+ * window is open. Nothing once the event has started.
+ */
+export function policyRefundPercent(
+  policy: RefundPolicy,
+  eventDate: string | null | undefined,
+  now = new Date(),
+): number {
+  if (!eventDate) return 0
+  const daysLeft = (new Date(eventDate).getTime() - now.getTime()) / DAY_MS
+  if (daysLeft < 0) return 0
+  if (rescheduleRefundOpen(policy, now)) return 100
+  // Tiers are sorted furthest out first
+  return policy.tiers.find((tier) => daysLeft >= tier.days_before)?.refund_percent ?? 0
+}
+
+/** Ticket `index`'s share of `total` split across `count` tickets. */
+export function ticketShare(total: number, index: number, count: number): number {
+  if (count <= 0 || total <= 0) return 0
+  return Math.round((total * (index + 1)) / count) - Math.round((total * index) / count)
+}
+
+/**
+ * What refunding ticket `index` of `count` on a payment returns to the
+ * buyer at `percent` of its price, with or without its share of the fee.
+ */
+export function ticketRefundAmount(
+  payment: { amount_cents: number; platform_fee_cents?: number | null; tax_cents?: number | null },
+  index: number,
+  count: number,
+  percent: number,
+  includeFees: boolean,
+): TicketRefundAmount {
+  const fee = payment.platform_fee_cents ?? 0
+  const price = ticketShare(payment.amount_cents - fee, index, count)
+  const feeShare = includeFees ? ticketShare(fee, index, count) : 0
+  const tax = Math.round((ticketShare(payment.tax_cents ?? 0, index, count) * percent) / 100)
+  return {
+    amount_cents: Math.round((price * percent) / 100) + feeShare,
+    fee_cents: feeShare,
+    tax_cents: tax,
+  }
+}
@@ -0,0 +1,62 @@
+import { assertEquals } from 'https://deno.land/std@0.177.0/testing/asserts.ts'
+import {
+  checkResalePrice,
+  checkResaleWindow,
+  faceValueCents,
+  resalePolicyOf,
+  resalePriceLimits,
+  resaleRoyaltyCents,
+} from './resale-policy.ts'
+
+Deno.test('events without a policy allow any price, any time, with no royalty', () => {
+  const policy = resalePolicyOf({})
+  const limits = resalePriceLimits(2500, policy)
+  assertEquals(limits.max_cents, null)
+  assertEquals(checkResalePrice(100_000, limits), null)
+  assertEquals(checkResaleWindow('2026-05-01T20:00:00Z', policy, new Date('2026-05-01T19:59:00Z')), null)
+  assertEquals(resaleRoyaltyCents(2500, policy), 0)
+})
+
+Deno.test('price caps round the max down and the min up', () => {
+  const policy = resalePolicyOf({ resale_max_price_percent: 120, resale_min_price_percent: 50 })
+  const limits = resalePriceLimits(1999, policy)
+  assertEquals(limits.max_cents, 2398)
+  assertEquals(limits.min_cents, 1000)
+  assertEquals(checkResalePrice(2398, limits), null)
+  assertEquals(checkResalePrice(2399, limits), 'The price is above the organizer\'s resale cap')
+  assertEquals(checkResalePrice(999, limits), 'The price is below the organizer\'s resale minimum')
+})
+
+Deno.test('face-value-only mode names itself', () => {
+  const limits = resalePriceLimits(2500, resalePolicyOf({ resale_max_price_percent: 100 }))
+  assertEquals(checkResalePrice(2500, limits), null)
+  assertEquals(checkResalePrice(2501, limits), 'The organizer only allows resale at face value')
+})
+
+Deno.test('face value falls back to the ticket type, then the event price', () => {
+  assertEquals(faceValueCents({ price_paid_cents: 2500 }, { price_cents: 3000 }), 2500)
+  assertEquals(faceValueCents({ price_paid_cents: 0 }, { price_cents: 3000 }, { price_in_cents: 4000 }), 3000)
+  assertEquals(faceValueCents({ price_paid_cents: 0 }, null, { price_in_cents: 4000 }), 4000)
+  assertEquals(resalePriceLimits(0, resalePolicyOf({ resale_max_price_percent: 100 })).max_cents, null)
+})
+
+Deno.test('the resale window opens and closes relative to the event', () => {
+  const policy = resalePolicyOf({ resale_opens_at: '2026-04-01T00:00:00Z', resale_closes_minutes_before: 120 })
+  const date = '2026-05-01T20:00:00Z'
+  assertEquals(checkResaleWindow(date, policy, new Date('2026-03-31T23:59:00Z')), 'Resale has not opened yet for this event')
+  assertEquals(checkResaleWindow(date, policy, new Date('2026-05-01T17:59:00Z')), null)
+  assertEquals(checkResaleWindow(date, policy, new Date('2026-05-01T18:00:00Z')), 'Resale has closed for this event')
+})
+
+Deno.test('resale is paused until a reschedule\'s refund window closes', () => {
+  const policy = resalePolicyOf({ resale_paused_until: '2026-04-15T00:00:00Z' })
+  const date = '2026-05-01T20:00:00Z'
+  assertEquals(checkResaleWindow(date, policy, new Date('2026-04-14T23:59:00Z')), 'Resale is paused while this event is rescheduled')
+  assertEquals(checkResaleWindow(date, policy, new Date('2026-04-15T00:00:00Z')), null)
+})
+
+Deno.test('royalty rounds half up on the listing price', () => {
+  const policy = resalePolicyOf({ resale_royalty_bps: 750 })
+  assertEquals(resaleRoyaltyCents(2500, policy), 188)
+  assertEquals(resaleRoyaltyCents(0, policy), 0)
+})
@@ -0,0 +1,105 @@
+/**
+ * Organizer resale policy for an event.
+ *
+ * Set on the event row (see migration 20260417100001_resale_policy.sql):
+ * - `resale_max_price_percent`: highest listing price as a percentage of
+ *   face value; 100 means face value only, null means no cap
+ * - `resale_min_price_percent`: lowest listing price, same basis
+ * - `resale_royalty_bps`: the organizer's cut of each resale, withheld from
+ *   the seller's proceeds (basis points: 1000 = 10%)
+ * - `resale_opens_at` / `resale_closes_minutes_before`: the window in which
+ *   tickets can be listed and bought on resale
+ * - `resale_paused_until`: set while a rescheduled event's refund window is
+ *   open (migration 20260420100001_event_reschedules.sql), so tickets don't
+ *   change hands while holders decide whether to keep them
+ *
+ * Face value is what the ticket was first sold for, falling back to its
+ * ticket type's price and then the event price for comps and free claims.
+ * The max rounds down and the min rounds up so a price that passes here
+ * also passes the `enforce_resale_policy` trigger, which works the same.
+ */
+
+export interface ResalePolicy {
+  max_price_percent: number | null
+  min_price_percent: number | null
+  royalty_bps: number
+  opens_at: string | null
+  closes_minutes_before: number | null
+  paused_until: string | null
+}
+
+export interface ResalePriceLimits {
+  face_value_cents: number
+  min_cents: number | null
+  max_cents: number | null
+}
+
+const BPS = 10000
+
+export function resalePolicyOf(event: any): ResalePolicy {
+  return {
+    max_price_percent: event?.resale_max_price_percent ?? null,
+    min_price_percent: event?.resale_min_price_percent ?? null,
+    royalty_bps: event?.resale_royalty_bps ?? 0,
+    opens_at: event?.resale_opens_at ?? null,
+    closes_minutes_before: event?.resale_closes_minutes_before ?? null,
+    paused_until: event?.resale_paused_until ?? null,
+  }
+}
+
+/** Face value of a ticket joined with its event and ticket type. */
+export function faceValueCents(ticket: any, ticketType?: any, event?: any): number {
+  return ticket?.price_paid_cents || ticketType?.price_cents || event?.price_in_cents || 0
+}
+
+export function resalePriceLimits(faceValue: number, policy: ResalePolicy): ResalePriceLimits {
+  // Without a face value there is nothing to measure against
+  if (faceValue <= 0) return { face_value_cents: 0, min_cents: null, max_cents: null }
+  return {
+    face_value_cents: faceValue,
+    min_cents: policy.min_price_percent != null ? Math.ceil((faceValue * policy.min_price_percent) / 100) : null,
+    max_cents: policy.max_price_percent != null ? Math.floor((faceValue * policy.max_price_percent) / 100) : null,
+  }
+}
+
+/** Why the price breaks the policy, or null when it is allowed. */
+export function checkResalePrice(priceCents: number, limits: ResalePriceLimits): string | null {
+  if (limits.max_cents != null && priceCents > limits.max_cents) {
+    return limits.max_cents === limits.face_value_cents
+      ? 'The organizer only allows resale at face value'
+      : 'The price is above the organizer\'s resale cap'
+  }
+  if (limits.min_cents != null && priceCents < limits.min_cents) {
+    return 'The price is below the organizer\'s resale minimum'
+  }
+  return null
+}
+
+/** When resale closes, or null when it stays open until the event. */
+export function resaleClosesAt(eventDate: string | null | undefined, policy: ResalePolicy): Date | null {
+  if (!eventDate || policy.closes_minutes_before == null) return null
+  return new Date(new Date(eventDate).getTime() - policy.closes_minutes_before * 60_000)
+}
+
+/** Why resale is closed at `now`, or null when it is open. */
+export function checkResaleWindow(
+  eventDate: string | null | undefined,
+  policy: ResalePolicy,
+  now = new Date(),
+): string | null {
+  if (policy.opens_at && now < new Date(policy.opens_at)) {
+    return 'Resale has not opened yet for this event'
+  }
+  if (policy.paused_until && now < new Date(policy.paused_until)) {
+    return 'Resale is paused while this event is rescheduled'
+  }
+  const closesAt = resaleClosesAt(eventDate, policy)
+  if (closesAt && now >= closesAt) return 'Resale has closed for this event'
+  return null
+}
+
+/** The organizer's royalty on a resale price, rounded half up. */
+export function resaleRoyaltyCents(priceCents: number, policy: ResalePolicy): number {
+  if (policy.royalty_bps <= 0 || priceCents <= 0) return 0
+  return Math.round((priceCents * policy.royalty_bps) / BPS)
+}
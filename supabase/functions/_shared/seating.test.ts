@@ -0,0 +1,90 @@
+import { assertEquals } from 'https://deno.land/std@0.177.0/testing/asserts.ts'
+import { focalPoint, layoutSeats, pickBestAvailable, rankBestAvailable, type SeatStatus } from './seating.ts'
+
+// Two sections of three 10-seat rows. The stage is centred above section
+// "floor"; "balcony" sits further back.
+function row(label: string, y: number, statuses: Record<number, SeatStatus> = {}) {
+  return {
+    id: `row-${label}`,
+    label,
+    seats: Array.from({ length: 10 }, (_, i) => ({
+      id: `${label}${i + 1}`,
+      number: i + 1,
+      x: i * 20,
+      y,
+      ...(statuses[i + 1] && { status: statuses[i + 1] }),
+    })),
+  }
+}
+
+const layout = {
+  sections: [
+    {
+      id: 'floor', name: 'Floor', pricingTier: 'vip', shape: { x: 100, y: 200 },
+      rows: [row('A', 0, { 5: 'accessible', 6: 'accessible' }), row('B', 30), row('C', 60)],
+    },
+    {
+      id: 'balcony', name: 'Balcony', pricingTier: 'standard', shape: { x: 100, y: 500 },
+      rows: [row('D', 0), row('E', 30), row('F', 60)],
+    },
+  ],
+  elements: [{ type: 'stage', shape: { x: 140, y: 50, width: 100, height: 40 } }],
+}
+
+const seatIds = (block: { seat_id: string }[] | null) => block?.map((s) => s.seat_id) ?? null
+
+Deno.test('focal point is the stage centre unless the layout sets one', () => {
+  assertEquals(focalPoint(layout), { x: 190, y: 70 })
+  assertEquals(focalPoint({ ...layout, focalPoint: { x: 0, y: 0 } }), { x: 0, y: 0 })
+  assertEquals(focalPoint({ sections: [], elements: [] }), null)
+})
+
+Deno.test('best available is the block nearest the stage', () => {
+  const seats = layoutSeats(layout)
+  const focal = focalPoint(layout)
+  // Row A's middle is kept for accessible seating, so the pair beside it wins
+  assertEquals(seatIds(pickBestAvailable(seats, new Set(), { quantity: 2 }, focal)), ['A3', 'A4'])
+
+  // With the rest of row A gone, the centre of row B
+  const rowATaken = new Set([1, 2, 3, 4, 7, 8, 9, 10].map((n) => `floor/A${n}`))
+  assertEquals(seatIds(pickBestAvailable(seats, rowATaken, { quantity: 2 }, focal)), ['B5', 'B6'])
+  assertEquals(seatIds(pickBestAvailable(seats, rowATaken, { quantity: 4 }, focal)), ['B4', 'B5', 'B6', 'B7'])
+})
+
+Deno.test('sold and held seats, blocked seats and numbering gaps break contiguity', () => {
+  const overrides = new Map<string, SeatStatus>([['floor/B/6', 'blocked']])
+  const seats = layoutSeats(layout, overrides)
+  const taken = new Set(['floor/B4', ...[1, 2, 3, 4, 7, 8, 9, 10].map((n) => `floor/A${n}`)])
+  // B5 alone sits between B4 (taken) and B6 (blocked)
+  const block = pickBestAvailable(seats, taken, { quantity: 2 }, focalPoint(layout))
+  assertEquals(seatIds(block), ['B7', 'B8'])
+
+  const gappy = layoutSeats({
+    sections: [{ id: 's', name: 'S', rows: [{ id: 'r', label: 'R', seats: [1, 2, 4, 5, 6].map((n) => ({ id: `R${n}`, number: n, x: n * 20, y: 0 })) }] }],
+  })
+  assertEquals(seatIds(pickBestAvailable(gappy, new Set(), { quantity: 3 }, null)), ['R4', 'R5', 'R6'])
+})
+
+Deno.test('accessible seats go only to buyers who ask, and their block includes one', () => {
+  const seats = layoutSeats(layout)
+  const focal = focalPoint(layout)
+  assertEquals(seatIds(pickBestAvailable(seats, new Set(), { quantity: 2, accessible: true }, focal)), ['A5', 'A6'])
+  assertEquals(
+    seatIds(pickBestAvailable(seats, new Set(['floor/A5', 'floor/A6']), { quantity: 2, accessible: true }, focal)),
+    null,
+  )
+})
+
+Deno.test('requests can be narrowed to a section or a pricing tier', () => {
+  const seats = layoutSeats(layout)
+  const focal = focalPoint(layout)
+  assertEquals(seatIds(pickBestAvailable(seats, new Set(), { quantity: 2, section_id: 'balcony' }, focal)), ['D5', 'D6'])
+  assertEquals(seatIds(pickBestAvailable(seats, new Set(), { quantity: 2, pricing_tier: 'standard' }, focal)), ['D5', 'D6'])
+  assertEquals(pickBestAvailable(seats, new Set(), { quantity: 11, section_id: 'floor' }, focal), null)
+})
+
+Deno.test('without a stage, front rows win, then centred blocks', () => {
+  const noStage = { sections: layout.sections, elements: [] }
+  const ranked = rankBestAvailable(layoutSeats(noStage), new Set(), { quantity: 2, section_id: 'floor' }, focalPoint(noStage), 3)
+  assertEquals(ranked.map(seatIds), [['A3', 'A4'], ['A7', 'A8'], ['A2', 'A3']])
+})
@@ -0,0 +1,304 @@
+/**
+ * Reserved seating: the seat map of an event and best-available picks.
+ *
+ * Seats come from the venue's `layout_data` (sections → rows → seats, seat
+ * coordinates relative to their section) with `venue_seats` status overrides
+ * on top. Best available means `quantity` consecutively numbered seats in
+ * one row, closest to the layout's focal point: `layout_data.focalPoint`
+ * when the organizer set one, otherwise the centre of the first stage
+ * element. Layouts with neither fall back to front rows, then row centres.
+ *
+ * Blocked seats are never offered. Accessible seats are kept for buyers who
+ * ask for them, and such a pick always includes at least one.
+ */
+
+export type SeatStatus = 'available' | 'blocked' | 'accessible'
+
+export interface MapSeat {
+  section_id: string
+  section_name: string
+  pricing_tier: string | null
+  row_id: string
+  row_label: string
+  /** Position of the row within its section, 0 = first row. */
+  row_index: number
+  seat_id: string
+  seat_number: number
+  /** Canvas coordinates. */
+  x: number
+  y: number
+  status: SeatStatus
+}
+
+/** One entry of `seat_selections`, as the app's seat picker sends it. */
+export interface SeatSelection {
+  section_id: string
+  seat_id: string
+  seat_label: string
+  section_name: string
+  row_label: string
+  seat_number: number
+}
+
+export interface BestAvailableRequest {
+  quantity: number
+  section_id?: string | null
+  pricing_tier?: string | null
+  accessible?: boolean
+}
+
+export interface Point {
+  x: number
+  y: number
+}
+
+export const seatKey = (seat: { section_id: string; seat_id: string }) => `${seat.section_id}/${seat.seat_id}`
+
+// Tickets hold at most this many seats per pick, matching checkout limits
+export const MAX_BEST_AVAILABLE = 10
+
+// ====================================================================
+// Seat map
+// ====================================================================
+
+/** Flatten a layout into seats. `overrides` is keyed `section/row/number`. */
+export function layoutSeats(layout: any, overrides: Map<string, SeatStatus> = new Map()): MapSeat[] {
+  const seats: MapSeat[] = []
+  for (const section of layout?.sections ?? []) {
+    const originX = Number(section.shape?.x ?? 0)
+    const originY = Number(section.shape?.y ?? 0)
+    const rows: any[] = section.rows ?? []
+    rows.forEach((row, rowIndex) => {
+      for (const seat of row.seats ?? []) {
+        const number = Number(seat.number)
+        const status = overrides.get(`${section.id}/${row.label}/${number}`) ?? seat.status ?? 'available'
+        seats.push({
+          section_id: section.id,
+          section_name: section.name ?? '',
+          pricing_tier: section.pricingTier ?? null,
+          row_id: row.id,
+          row_label: row.label,
+          row_index: rowIndex,
+          seat_id: seat.id,
+          seat_number: number,
+          x: originX + Number(seat.x ?? 0),
+          y: originY + Number(seat.y ?? 0),
+          status,
+        })
+      }
+    })
+  }
+  return seats
+}
+
+/** Where buyers want to be closest to, or null when the layout has no stage. */
+export function focalPoint(layout: any): Point | null {
+  const focal = layout?.focalPoint
+  if (focal && Number.isFinite(Number(focal.x)) && Number.isFinite(Number(focal.y))) {
+    return { x: Number(focal.x), y: Number(focal.y) }
+  }
+  const stage = (layout?.elements ?? []).find((e: any) => e.type === 'stage' && e.shape)
+  if (!stage) return null
+  const { x = 0, y = 0, width = 0, height = 0 } = stage.shape
+  return { x: Number(x) + Number(width) / 2, y: Number(y) + Number(height) / 2 }
+}
+
+export function toSelection(seat: MapSeat): SeatSelection {
+  return {
+    section_id: seat.section_id,
+    seat_id: seat.seat_id,
+    seat_label: `${seat.section_name} · Row ${seat.row_label} · Seat ${seat.seat_number}`,
+    section_name: seat.section_name,
+    row_label: seat.row_label,
+    seat_number: seat.seat_number,
+  }
+}
+
+// ====================================================================
+// Best available
+// ====================================================================
+
+/**
+ * Candidate blocks for a request, best first. `taken` holds seatKeys that
+ * are sold or held by someone else. Returns at most `limit` blocks, which
+ * may overlap; callers retry down the list when a hold loses a race.
+ */
+export function rankBestAvailable(
+  seats: MapSeat[],
+  taken: Set<string>,
+  request: BestAvailableRequest,
+  focal: Point | null,
+  limit = 5,
+): MapSeat[][] {
+  const { quantity } = request
+  if (!Number.isInteger(quantity) || quantity < 1) return []
+
+  const rows = new Map<string, MapSeat[]>()
+  for (const seat of seats) {
+    if (request.section_id && seat.section_id !== request.section_id) continue
+    if (request.pricing_tier && seat.pricing_tier !== request.pricing_tier) continue
+    const key = `${seat.section_id}/${seat.row_id}`
+    if (!rows.has(key)) rows.set(key, [])
+    rows.get(key)!.push(seat)
+  }
+
+  const scored: Array<{ block: MapSeat[]; score: number[] }> = []
+  for (const rowSeats of rows.values()) {
+    rowSeats.sort((a, b) => a.seat_number - b.seat_number)
+    const rowCentre = centre(rowSeats)
+
+    for (let start = 0; start + quantity <= rowSeats.length; start++) {
+      const block = rowSeats.slice(start, start + quantity)
+      if (!isOfferable(block, taken, request.accessible ?? false)) continue
+
+      const blockCentre = centre(block)
+      const offCentre = Math.abs(blockCentre.x - rowCentre.x) + Math.abs(blockCentre.y - rowCentre.y)
+      const score = focal
+        ? [distance(blockCentre, focal), offCentre]
+        : [block[0].row_index, offCentre]
+      scored.push({ block, score })
+    }
+  }
+
+  scored.sort((a, b) => compareScores(a.score, b.score) || compareSeats(a.block[0], b.block[0]))
+  return scored.slice(0, limit).map((s) => s.block)
+}
+
+/** The single best block, or null when no row has room. */
+export function pickBestAvailable(
+  seats: MapSeat[],
+  taken: Set<string>,
+  request: BestAvailableRequest,
+  focal: Point | null,
+): MapSeat[] | null {
+  return rankBestAvailable(seats, taken, request, focal, 1)[0] ?? null
+}
+
+function isOfferable(block: MapSeat[], taken: Set<string>, accessible: boolean): boolean {
+  for (let i = 0; i < block.length; i++) {
+    const seat = block[i]
+    if (seat.status === 'blocked' || taken.has(seatKey(seat))) return false
+    if (seat.status === 'accessible' && !accessible) return false
+    // A gap in numbering (aisle, removed seat) breaks contiguity
+    if (i > 0 && seat.seat_number !== block[i - 1].seat_number + 1) return false
+  }
+  return !accessible || block.some((s) => s.status === 'accessible')
+}
+
+function centre(seats: MapSeat[]): Point {
+  const sum = seats.reduce((acc, s) => ({ x: acc.x + s.x, y: acc.y + s.y }), { x: 0, y: 0 })
+  return { x: sum.x / seats.length, y: sum.y / seats.length }
+}
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y)
+}
+
+function compareScores(a: number[], b: number[]): number {
+  for (let i = 0; i < a.length; i++) {
+    // Sub-pixel differences are layout noise, not a preference
+    if (Math.abs(a[i] - b[i]) > 0.5) return a[i] - b[i]
+  }
+  return 0
+}
+
+function compareSeats(a: MapSeat, b: MapSeat): number {
+  return a.section_id.localeCompare(b.section_id) || a.row_index - b.row_index || a.seat_number - b.seat_number
+}
+
+// ====================================================================
+// Database
+// ====================================================================
+
+export interface EventSeating {
+  seats: MapSeat[]
+  focal: Point | null
+  /** Seats sold, or held by anyone other than the buyer. */
+  taken: Set<string>
+}
+
+/** Seat map and current availability of an event, as `buyerId` sees it. */
+export async function loadEventSeating(
+  db: { from(table: string): any },
+  eventId: string,
+  buyerId: string | null,
+): Promise<EventSeating | null> {
+  const { data: event } = await db.from('events').select('venue_id').eq('id', eventId).maybeSingle()
+  if (!event?.venue_id) return null
+
+  const [venueResult, overridesResult, soldResult, holdsResult] = await Promise.all([
+    db.from('venues').select('layout_data').eq('id', event.venue_id).single(),
+    db.from('venue_seats').select('section_id, row_label, seat_number, status').eq('venue_id', event.venue_id),
+    db.from('tickets').select('venue_section_id, seat_id')
+      .eq('event_id', eventId).not('seat_id', 'is', null).in('status', ['valid', 'used']),
+    db.from('seat_holds').select('venue_section_id, seat_id, user_id')
+      .eq('event_id', eventId).gt('expires_at', new Date().toISOString()),
+  ])
+  if (venueResult.error) throw new Error(`venues: ${venueResult.error.message}`)
+
+  const overrides = new Map<string, SeatStatus>()
+  for (const o of overridesResult.data ?? []) {
+    overrides.set(`${o.section_id}/${o.row_label}/${o.seat_number}`, o.status)
+  }
+
+  const taken = new Set<string>()
+  for (const t of soldResult.data ?? []) taken.add(seatKey({ section_id: t.venue_section_id, seat_id: t.seat_id }))
+  for (const h of holdsResult.data ?? []) {
+    if (h.user_id !== buyerId) taken.add(seatKey({ section_id: h.venue_section_id, seat_id: h.seat_id }))
+  }
+
+  const layout = venueResult.data?.layout_data
+  return { seats: layoutSeats(layout, overrides), focal: focalPoint(layout), taken }
+}
+
+export type BestAvailableHold =
+  | { success: true; hold_id: string; expires_at: string; seats: SeatSelection[][] }
+  | { success: false; error: string }
+
+const HOLD_ATTEMPTS = 3
+
+/**
+ * Pick and hold the best block for each request in one hold, so a buyer
+ * never ends up with half an order. When another buyer takes a seat between
+ * the pick and the hold, the map is reloaded and the pick retried.
+ */
+export async function holdBestAvailable(
+  db: { from(table: string): any; rpc(fn: string, args: Record<string, unknown>): any },
+  eventId: string,
+  buyerId: string,
+  requests: BestAvailableRequest[],
+): Promise<BestAvailableHold> {
+  for (let attempt = 1; attempt <= HOLD_ATTEMPTS; attempt++) {
+    const seating = await loadEventSeating(db, eventId, buyerId)
+    if (!seating) return { success: false, error: 'This event has no seat map' }
+
+    const taken = new Set(seating.taken)
+    const picks: MapSeat[][] = []
+    for (const request of requests) {
+      const block = pickBestAvailable(seating.seats, taken, request, seating.focal)
+      if (!block) {
+        return { success: false, error: `No ${request.quantity} seats together are available` }
+      }
+      for (const seat of block) taken.add(seatKey(seat))
+      picks.push(block)
+    }
+
+    const { data: hold, error } = await db.rpc('hold_seats', {
+      p_event_id: eventId,
+      p_user_id: buyerId,
+      p_seats: picks.flat().map((s) => ({ section_id: s.section_id, seat_id: s.seat_id })),
+    })
+    if (error) throw new Error(`hold_seats failed: ${error.message}`)
+
+    if (hold.success) {
+      return {
+        success: true,
+        hold_id: hold.hold_id,
+        expires_at: hold.expires_at,
+        seats: picks.map((block) => block.map(toSelection)),
+      }
+    }
+    console.log(`[seating] Best-available hold on ${eventId} lost a race (attempt ${attempt}): ${JSON.stringify(hold.conflicts)}`)
+  }
+  return { success: false, error: 'Seats are selling fast. Please try again.' }
+}
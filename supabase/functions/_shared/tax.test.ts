@@ -0,0 +1,57 @@
+import { assertEquals } from 'https://deno.land/std@0.177.0/testing/asserts.ts'
+import { calculateTax, formatRate, NO_TAX, receiptTaxRows, taxAddedCents, taxLineLabel } from './tax.ts'
+
+Deno.test('tax on top rounds each rate half up', () => {
+  const tax = calculateTax(1000, {
+    inclusive: false,
+    rates: [{ name: 'State sales tax', rate_bps: 625 }, { name: 'City admission tax', rate_bps: 200 }],
+  })
+  assertEquals(tax.lines.map((l) => l.tax_cents), [63, 20])
+  assertEquals(tax.tax_cents, 83)
+  assertEquals(tax.net_cents, 1000)
+  assertEquals(taxAddedCents(tax), 83)
+})
+
+Deno.test('included tax splits the price into net and tax', () => {
+  const tax = calculateTax(1000, { inclusive: true, rates: [{ name: 'VAT', rate_bps: 2000 }] })
+  assertEquals(tax.net_cents, 833)
+  assertEquals(tax.tax_cents, 167)
+  assertEquals(tax.lines[0].tax_cents, 167)
+  assertEquals(taxAddedCents(tax), 0)
+})
+
+Deno.test('included tax lines always add up to the total', () => {
+  const tax = calculateTax(1000, {
+    inclusive: true,
+    rates: [{ name: 'GST', rate_bps: 500 }, { name: 'QST', rate_bps: 997 }],
+  })
+  assertEquals(tax.net_cents, 870)
+  assertEquals(tax.tax_cents, 130)
+  assertEquals(tax.lines.map((l) => l.tax_cents), [43, 87])
+})
+
+Deno.test('zero-decimal amounts round to whole units', () => {
+  const tax = calculateTax(1500, { inclusive: true, rates: [{ name: 'Consumption tax', rate_bps: 1000 }] })
+  assertEquals(tax.net_cents, 1364)
+  assertEquals(tax.tax_cents, 136)
+})
+
+Deno.test('untaxed and free orders carry no tax', () => {
+  assertEquals(calculateTax(1000, NO_TAX).tax_cents, 0)
+  assertEquals(calculateTax(0, { inclusive: false, rates: [{ name: 'VAT', rate_bps: 2000 }] }).tax_cents, 0)
+  assertEquals(calculateTax(1000, { inclusive: false, rates: [{ name: 'Exempt', rate_bps: 0 }] }).lines, [])
+  assertEquals(taxAddedCents(null), 0)
+})
+
+Deno.test('receipt labels show the rate', () => {
+  assertEquals(formatRate(2000), '20%')
+  assertEquals(formatRate(825), '8.25%')
+  assertEquals(taxLineLabel({ name: 'VAT', rate_bps: 2000, tax_cents: 167 }), 'VAT (20%)')
+})
+
+Deno.test('receipt rows say whether the tax was included', () => {
+  const lines = [{ name: 'VAT', rate_bps: 2000, tax_cents: 167 }, { name: 'Exempt', rate_bps: 0, tax_cents: 0 }]
+  assertEquals(receiptTaxRows(lines, true, 'eur'), [{ label: 'Includes VAT (20%)', amount: '€1.67' }])
+  assertEquals(receiptTaxRows(lines, false, 'usd')[0].label, 'VAT (20%)')
+  assertEquals(receiptTaxRows(null, false, 'usd'), [])
+})
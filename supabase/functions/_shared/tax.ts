@@ -0,0 +1,137 @@
+/**
+ * Sales tax / VAT on ticket orders.
+ *
+ * An organizer lists the rates that apply to an event in `event_tax_rates`
+ * ("VAT 20%", or a state sales tax plus a city admission tax) and says
+ * whether the ticket prices already include them (`events.tax_inclusive`,
+ * the norm for VAT) or are quoted before tax (the norm in the US).
+ *
+ * Tax is charged on the ticket price after promo discounts. The service fee
+ * is ours, not the organizer's, and is never taxed here. Every rate applies
+ * to the same taxable amount (no tax on tax).
+ *
+ * Rates are basis points (2000 = 20%). Amounts are minor units of the
+ * order's currency, so rounding lands on whole cents (or whole yen):
+ * - exclusive: each rate is rounded half up and added on top of the price
+ * - inclusive: the price is split into net + tax; the tax is shared across
+ *   the rates in proportion, the last rate taking the rounding remainder so
+ *   the lines always add up to the total
+ *
+ * The Flutter TaxCalculator and the widget checkout must round the same way.
+ */
+
+import { formatMinor } from './currency.ts'
+
+export interface TaxRate {
+  name: string
+  /** Basis points: 2000 = 20%. */
+  rate_bps: number
+}
+
+export interface EventTax {
+  /** Whether ticket prices already include the tax. */
+  inclusive: boolean
+  rates: TaxRate[]
+}
+
+export interface TaxLine {
+  name: string
+  rate_bps: number
+  tax_cents: number
+}
+
+export interface TaxBreakdown {
+  inclusive: boolean
+  /** The discounted ticket price the tax was worked out on. */
+  taxable_cents: number
+  tax_cents: number
+  /** The ticket price without tax. */
+  net_cents: number
+  lines: TaxLine[]
+}
+
+export const NO_TAX: EventTax = { inclusive: false, rates: [] }
+
+const BPS = 10000
+
+export function calculateTax(amountCents: number, tax: EventTax): TaxBreakdown {
+  const rates = tax.rates.filter((r) => r.rate_bps > 0)
+  const amount = Math.max(0, amountCents)
+  const breakdown: TaxBreakdown = {
+    inclusive: tax.inclusive,
+    taxable_cents: amount,
+    tax_cents: 0,
+    net_cents: amount,
+    lines: rates.map((r) => ({ name: r.name, rate_bps: r.rate_bps, tax_cents: 0 })),
+  }
+  if (amount === 0 || rates.length === 0) return breakdown
+
+  if (!tax.inclusive) {
+    for (const line of breakdown.lines) {
+      line.tax_cents = Math.round((amount * line.rate_bps) / BPS)
+    }
+    breakdown.tax_cents = breakdown.lines.reduce((sum, l) => sum + l.tax_cents, 0)
+    return breakdown
+  }
+
+  const totalBps = rates.reduce((sum, r) => sum + r.rate_bps, 0)
+  breakdown.net_cents = Math.round((amount * BPS) / (BPS + totalBps))
+  breakdown.tax_cents = amount - breakdown.net_cents
+  let remaining = breakdown.tax_cents
+  breakdown.lines.forEach((line, i) => {
+    line.tax_cents = i === breakdown.lines.length - 1
+      ? remaining
+      : Math.round((breakdown.tax_cents * line.rate_bps) / totalBps)
+    remaining -= line.tax_cents
+  })
+  return breakdown
+}
+
+/** Tax added to the buyer's total (0 when prices include it). */
+export function taxAddedCents(tax: TaxBreakdown | null | undefined): number {
+  return tax && !tax.inclusive ? tax.tax_cents : 0
+}
+
+/** An event's tax setup; events without rates get NO_TAX. */
+export async function loadEventTax(
+  db: { from(table: string): any },
+  eventId: string,
+): Promise<EventTax> {
+  const [{ data: event, error: eventError }, { data: rates, error: ratesError }] = await Promise.all([
+    db.from('events').select('tax_inclusive').eq('id', eventId).maybeSingle(),
+    db.from('event_tax_rates')
+      .select('name, rate_bps')
+      .eq('event_id', eventId)
+      .order('sort_order', { ascending: true }),
+  ])
+  if (eventError) throw new Error(`load tax settings: ${eventError.message}`)
+  if (ratesError) throw new Error(`load tax rates: ${ratesError.message}`)
+  if (!rates || rates.length === 0) return NO_TAX
+  return { inclusive: event?.tax_inclusive ?? false, rates: rates as TaxRate[] }
+}
+
+/** One line per rate for receipts, e.g. "VAT (20%)". */
+export function taxLineLabel(line: TaxLine): string {
+  return `${line.name} (${formatRate(line.rate_bps)})`
+}
+
+/**
+ * Receipt rows for the tax stored on a payment or cash sale (its tax_lines):
+ * "VAT (20%)" when added on top, "Includes VAT (20%)" when in the price.
+ */
+export function receiptTaxRows(
+  lines: TaxLine[] | null | undefined,
+  inclusive: boolean,
+  currency: string,
+): { label: string; amount: string }[] {
+  return (lines ?? [])
+    .filter((l) => l.tax_cents > 0)
+    .map((l) => ({
+      label: inclusive ? `Includes ${taxLineLabel(l)}` : taxLineLabel(l),
+      amount: formatMinor(l.tax_cents, currency),
+    }))
+}
+
+export function formatRate(rateBps: number): string {
+  return `${Number((rateBps / 100).toFixed(3))}%`
+}
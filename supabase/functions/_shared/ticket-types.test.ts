@@ -0,0 +1,122 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.177.0/testing/asserts.ts'
+import {
+  currentPrice,
+  evaluateTicketOrder,
+  priceLines,
+  type PriceTierRow,
+  publicTicketType,
+  type TicketTypeRow,
+  unlockedTypeIds,
+} from './ticket-types.ts'
+
+const now = new Date('2026-05-01T12:00:00Z')
+
+function ticketType(id: string, overrides: Partial<TicketTypeRow> = {}): TicketTypeRow {
+  return {
+    id,
+    name: id.toUpperCase(),
+    price_cents: 5000,
+    max_quantity: null,
+    sold_count: 0,
+    is_active: true,
+    is_hidden: false,
+    access_password: null,
+    sales_start_at: null,
+    sales_end_at: null,
+    min_per_order: 1,
+    max_per_order: null,
+    category: 'entry',
+    item_icon: null,
+    venue_section_id: null,
+    price_tiers: [],
+    ...overrides,
+  }
+}
+
+function tier(name: string, price_cents: number, sort_order: number, overrides: Partial<PriceTierRow> = {}): PriceTierRow {
+  return { id: `tier-${name}`, name, price_cents, sort_order, ends_after_sold: null, ends_at: null, ...overrides }
+}
+
+// Early bird $30 for the first 100, then $40 until the 1st of June, then $50
+const tiered = (sold: number) => ticketType('ga', {
+  sold_count: sold,
+  price_tiers: [
+    tier('regular', 4000, 2, { ends_at: '2026-06-01T00:00:00Z' }),
+    tier('early', 3000, 1, { ends_after_sold: 100 }),
+  ],
+})
+
+Deno.test('tiers step up by sold count and date; an order across a boundary is split', () => {
+  assertEquals(currentPrice(tiered(40), now).price_cents, 3000)
+  assertEquals(currentPrice(tiered(40), now).tier_remaining, 60)
+  assertEquals(currentPrice(tiered(100), now).price_cents, 4000)
+  assertEquals(currentPrice(tiered(100), new Date('2026-06-02T00:00:00Z')), { price_cents: 5000, tier: null, tier_remaining: null })
+
+  assertEquals(priceLines(tiered(97), 5, now).map((l) => [l.tier_name, l.quantity, l.unit_price_cents]), [
+    ['early', 3, 3000],
+    ['regular', 2, 4000],
+  ])
+
+  const countOnly = ticketType('vip', { sold_count: 8, price_tiers: [tier('launch', 2000, 1, { ends_after_sold: 10 })] })
+  assertEquals(priceLines(countOnly, 4, now).map((l) => [l.tier_id, l.quantity, l.unit_price_cents]), [
+    ['tier-launch', 2, 2000],
+    [null, 2, 5000],
+  ])
+})
+
+Deno.test('sales windows, per-order limits and inventory are enforced per type', () => {
+  const check = (overrides: Partial<TicketTypeRow>, quantity = 2) => {
+    const result = evaluateTicketOrder([ticketType('ga', overrides)], [{ ticket_type_id: 'ga', quantity }], new Set(), now)
+    return result.valid ? null : result.error
+  }
+  assertEquals(check({}), null)
+  assertEquals(check({ sales_start_at: '2026-05-02T00:00:00Z' }), 'GA is not on sale yet')
+  assertEquals(check({ sales_end_at: '2026-05-01T00:00:00Z' }), 'Sales for GA have ended')
+  assertEquals(check({ is_active: false }), 'GA is no longer available')
+  assertEquals(check({ min_per_order: 4 }), 'GA needs at least 4 tickets per order')
+  assertEquals(check({ max_per_order: 1 }), 'GA is limited to 1 tickets per order')
+  assertEquals(check({ max_quantity: 10, sold_count: 9 }), 'Only 1 GA ticket(s) remaining')
+  assertEquals(check({ max_quantity: 10, sold_count: 10 }), 'GA is sold out')
+  assertEquals(check({}, 0), 'Ticket quantities must be whole numbers')
+
+  // Splitting a type over several items still counts as one order
+  const split = evaluateTicketOrder(
+    [ticketType('ga', { max_per_order: 4 })],
+    [{ ticket_type_id: 'ga', quantity: 3 }, { ticket_type_id: 'ga', quantity: 2 }],
+    new Set(),
+    now,
+  )
+  assertEquals(split, { valid: false, error: 'GA is limited to 4 tickets per order', ticket_type_id: 'ga' })
+})
+
+Deno.test('hidden types need their access code or a promo code limited to them', () => {
+  const types = [
+    ticketType('ga'),
+    ticketType('crew', { is_hidden: true, access_password: 'Backstage' }),
+    ticketType('press', { is_hidden: true }),
+  ]
+  const order = (unlocked: Set<string>) =>
+    evaluateTicketOrder(types, [{ ticket_type_id: 'crew', quantity: 1 }, { ticket_type_id: 'press', quantity: 1 }], unlocked, now)
+
+  assertEquals(order(new Set()), { valid: false, error: 'Ticket type not found', ticket_type_id: 'crew' })
+  assertEquals([...unlockedTypeIds(types, [' backstage '])], ['crew'])
+  assertEquals([...unlockedTypeIds(types, [], [{ ticket_type_id: 'press', is_active: false }])], [])
+
+  const unlocked = unlockedTypeIds(types, ['BACKSTAGE'], [{ ticket_type_id: 'press', is_active: true }])
+  const result = order(unlocked)
+  assert(result.valid)
+  assertEquals(result.lines.map((l) => l.ticket_type_id), ['crew', 'press'])
+})
+
+Deno.test('the public view drops the access code and shows the current tier', () => {
+  const view = publicTicketType(
+    { ...tiered(99), is_hidden: true, access_password: 'SECRET', max_quantity: 500 },
+    now,
+  )
+  assertEquals('access_password' in view, false)
+  assertEquals(view.current_price_cents, 3000)
+  assertEquals(view.current_tier, { name: 'early', remaining: 1, ends_at: null })
+  assertEquals(view.next_price_cents, 4000)
+  assertEquals(view.remaining, 401)
+  assertEquals(view.sales_status, 'on_sale')
+})
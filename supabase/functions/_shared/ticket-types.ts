@@ -0,0 +1,264 @@
+/**
+ * Ticket type sales rules: whether a type is on sale, who may see it, how
+ * many one order may take, and what its tickets cost right now.
+ *
+ * A type sells between its optional `sales_start_at` and `sales_end_at`,
+ * `min_per_order`..`max_per_order` at a time, while `max_quantity` lasts.
+ * Hidden types don't show up for buyers until unlocked, either with the
+ * type's own access code or with a promo code limited to that type (the
+ * promo then has to be applied to the order as well).
+ *
+ * Price tiers ("early bird", "regular") step the price up automatically:
+ * a tier applies until `ends_after_sold` tickets of the type are sold or
+ * `ends_at` passes, whichever comes first; after the last tier the type's
+ * own `price_cents` applies. An order that crosses a tier boundary pays the
+ * tier price for the tickets left in the tier and the next price for the
+ * rest.
+ *
+ * Everything here is checked again at purchase time by the payment
+ * functions, so a stale or modified client can't buy outside the rules.
+ */
+
+import type { OrderLine, PromoCodeRow } from './promo.ts'
+
+export interface PriceTierRow {
+  id: string
+  name: string
+  price_cents: number
+  sort_order: number
+  ends_after_sold: number | null
+  ends_at: string | null
+}
+
+export interface TicketTypeRow {
+  id: string
+  name: string
+  price_cents: number
+  max_quantity: number | null
+  sold_count: number
+  is_active: boolean
+  is_hidden: boolean
+  access_password: string | null
+  sales_start_at: string | null
+  sales_end_at: string | null
+  min_per_order: number
+  max_per_order: number | null
+  category: string | null
+  item_icon: string | null
+  venue_section_id: string | null
+  price_tiers?: PriceTierRow[] | null
+  description?: string | null
+  currency?: string
+  sort_order?: number
+  item_description?: string | null
+}
+
+/** An order line at one price: a ticket type, or one tier of it. */
+export interface PricedLine extends OrderLine {
+  ticket_type_id: string
+  tier_id: string | null
+  tier_name: string | null
+  /** The type's sold_count the price was worked out from. */
+  priced_at_sold: number
+}
+
+export type SalesStatus = 'on_sale' | 'inactive' | 'scheduled' | 'ended' | 'sold_out'
+
+export type TicketOrderEvaluation =
+  | { valid: true; lines: PricedLine[]; types: Map<string, TicketTypeRow> }
+  | { valid: false; error: string; ticket_type_id?: string }
+
+export const TICKET_TYPE_COLUMNS =
+  'id, name, description, price_cents, currency, max_quantity, sold_count, is_active, is_hidden, ' +
+  'access_password, sales_start_at, sales_end_at, min_per_order, max_per_order, sort_order, ' +
+  'category, item_icon, item_description, venue_section_id, ' +
+  'price_tiers:ticket_type_price_tiers(id, name, price_cents, sort_order, ends_after_sold, ends_at)'
+
+export function remainingQuantity(type: TicketTypeRow): number | null {
+  return type.max_quantity == null ? null : Math.max(0, type.max_quantity - (type.sold_count || 0))
+}
+
+export function salesStatus(type: TicketTypeRow, now = new Date()): SalesStatus {
+  if (!type.is_active) return 'inactive'
+  if (type.sales_start_at && new Date(type.sales_start_at) > now) return 'scheduled'
+  if (type.sales_end_at && new Date(type.sales_end_at) <= now) return 'ended'
+  if (remainingQuantity(type) === 0) return 'sold_out'
+  return 'on_sale'
+}
+
+function liveTiers(type: TicketTypeRow, now: Date): PriceTierRow[] {
+  return [...(type.price_tiers ?? [])]
+    .filter((t) => !t.ends_at || new Date(t.ends_at) > now)
+    .sort((a, b) => a.sort_order - b.sort_order)
+}
+
+/** The price the next ticket sells at, and how many are left at it. */
+export function currentPrice(
+  type: TicketTypeRow,
+  now = new Date(),
+): { price_cents: number; tier: PriceTierRow | null; tier_remaining: number | null } {
+  const sold = type.sold_count || 0
+  for (const tier of liveTiers(type, now)) {
+    if (tier.ends_after_sold == null) return { price_cents: tier.price_cents, tier, tier_remaining: null }
+    if (sold < tier.ends_after_sold) {
+      return { price_cents: tier.price_cents, tier, tier_remaining: tier.ends_after_sold - sold }
+    }
+  }
+  return { price_cents: type.price_cents, tier: null, tier_remaining: null }
+}
+
+/** `quantity` tickets of a type at current prices, split where a tier runs out. */
+export function priceLines(type: TicketTypeRow, quantity: number, now = new Date()): PricedLine[] {
+  const priced_at_sold = type.sold_count || 0
+  const lines: PricedLine[] = []
+  const add = (tier: PriceTierRow | null, count: number) => {
+    lines.push({
+      ticket_type_id: type.id,
+      quantity: count,
+      unit_price_cents: tier ? tier.price_cents : type.price_cents,
+      tier_id: tier?.id ?? null,
+      tier_name: tier?.name ?? null,
+      priced_at_sold,
+    })
+  }
+
+  let sold = priced_at_sold
+  let left = quantity
+  for (const tier of liveTiers(type, now)) {
+    if (left === 0) break
+    const room = tier.ends_after_sold == null ? left : Math.min(left, tier.ends_after_sold - sold)
+    if (room <= 0) continue
+    add(tier, room)
+    sold += room
+    left -= room
+  }
+  if (left > 0) add(null, left)
+  return lines
+}
+
+/**
+ * Hidden types the entered codes unlock: a matching access code (any case),
+ * or an active promo code limited to the type.
+ */
+export function unlockedTypeIds(
+  types: TicketTypeRow[],
+  accessCodes: string[],
+  promos: Pick<PromoCodeRow, 'ticket_type_id' | 'is_active'>[] = [],
+): Set<string> {
+  const codes = new Set(accessCodes.map((c) => c.trim().toUpperCase()).filter(Boolean))
+  const promoTypes = new Set(promos.filter((p) => p.is_active && p.ticket_type_id).map((p) => p.ticket_type_id!))
+  return new Set(
+    types
+      .filter((t) => t.is_hidden)
+      .filter((t) => (t.access_password && codes.has(t.access_password.trim().toUpperCase())) || promoTypes.has(t.id))
+      .map((t) => t.id),
+  )
+}
+
+/**
+ * Check an order against each type's rules and price it. Quantities for the
+ * same type are added up first, so the per-order limits can't be dodged by
+ * splitting a type over several items. Hidden types that aren't unlocked
+ * read as unknown.
+ */
+export function evaluateTicketOrder(
+  types: TicketTypeRow[],
+  items: { ticket_type_id: string; quantity?: number }[],
+  unlocked: Set<string> = new Set(),
+  now = new Date(),
+): TicketOrderEvaluation {
+  const byId = new Map(types.map((t) => [t.id, t]))
+  const wanted = new Map<string, number>()
+  for (const item of items) {
+    const quantity = item.quantity ?? 1
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      return { valid: false, error: 'Ticket quantities must be whole numbers', ticket_type_id: item.ticket_type_id }
+    }
+    wanted.set(item.ticket_type_id, (wanted.get(item.ticket_type_id) ?? 0) + quantity)
+  }
+  if (wanted.size === 0) return { valid: false, error: 'Select at least one ticket' }
+
+  const lines: PricedLine[] = []
+  for (const [id, quantity] of wanted) {
+    const type = byId.get(id)
+    if (!type || (type.is_hidden && !unlocked.has(id))) {
+      return { valid: false, error: 'Ticket type not found', ticket_type_id: id }
+    }
+    const error = ruleError(type, quantity, now)
+    if (error) return { valid: false, error, ticket_type_id: id }
+    lines.push(...priceLines(type, quantity, now))
+  }
+  return { valid: true, lines, types: byId }
+}
+
+function ruleError(type: TicketTypeRow, quantity: number, now: Date): string | null {
+  switch (salesStatus(type, now)) {
+    case 'inactive':
+      return `${type.name} is no longer available`
+    case 'scheduled':
+      return `${type.name} is not on sale yet`
+    case 'ended':
+      return `Sales for ${type.name} have ended`
+    case 'sold_out':
+      return `${type.name} is sold out`
+  }
+  const min = type.min_per_order || 1
+  if (quantity < min) return `${type.name} needs at least ${min} tickets per order`
+  if (type.max_per_order != null && quantity > type.max_per_order) {
+    return `${type.name} is limited to ${type.max_per_order} tickets per order`
+  }
+  const remaining = remainingQuantity(type)
+  if (remaining !== null && quantity > remaining) return `Only ${remaining} ${type.name} ticket(s) remaining`
+  return null
+}
+
+/** An event's ticket types with their price tiers. */
+export async function loadTicketTypes(
+  db: { from(table: string): any },
+  eventId: string,
+  ids?: string[],
+): Promise<TicketTypeRow[]> {
+  let query = db.from('event_ticket_types').select(TICKET_TYPE_COLUMNS).eq('event_id', eventId)
+  if (ids) query = query.in('id', ids)
+  const { data, error } = await query
+  if (error) throw new Error(`event_ticket_types: ${error.message}`)
+  return (data ?? []) as TicketTypeRow[]
+}
+
+/**
+ * Load, check and price an order for an event. `promos` are the looked-up
+ * promo codes entered with the order, which may unlock hidden types.
+ */
+export async function priceTicketOrder(
+  db: { from(table: string): any },
+  eventId: string,
+  items: { ticket_type_id: string; quantity?: number }[],
+  opts: { accessCodes?: string[]; promos?: Pick<PromoCodeRow, 'ticket_type_id' | 'is_active'>[]; now?: Date } = {},
+): Promise<TicketOrderEvaluation> {
+  const ids = [...new Set(items.map((i) => i.ticket_type_id).filter((id) => typeof id === 'string'))]
+  if (ids.length === 0) return { valid: false, error: 'Select at least one ticket' }
+  const types = await loadTicketTypes(db, eventId, ids)
+  return evaluateTicketOrder(types, items, unlockedTypeIds(types, opts.accessCodes ?? [], opts.promos), opts.now)
+}
+
+/** What buyers may see of a type: no access code, prices as of now. */
+export function publicTicketType(type: TicketTypeRow, now = new Date()) {
+  const { access_password: _password, ...rest } = type
+  const price = currentPrice(type, now)
+  return {
+    ...rest,
+    current_price_cents: price.price_cents,
+    current_tier: price.tier ? { name: price.tier.name, remaining: price.tier_remaining, ends_at: price.tier.ends_at } : null,
+    next_price_cents: nextPrice(type, price.tier, now),
+    remaining: remainingQuantity(type),
+    sales_status: salesStatus(type, now),
+    price_tiers: liveTiers(type, now),
+  }
+}
+
+function nextPrice(type: TicketTypeRow, tier: PriceTierRow | null, now: Date): number | null {
+  if (!tier) return null
+  const tiers = liveTiers(type, now)
+  const next = tiers[tiers.indexOf(tier) + 1]
+  return next ? next.price_cents : type.price_cents
+}
@@ -0,0 +1,72 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.177.0/testing/asserts.ts'
+import {
+  checkWaitlistHold,
+  lotteryOrder,
+  lotteryPending,
+  lotteryTicket,
+  seedMatchesCommitment,
+  servesInTurn,
+  waitlistSettingsOf,
+} from './waitlist.ts'
+
+const ENTRIES = [
+  '0b9f3c1e-5d2a-4c67-9a8e-1f2d3c4b5a60',
+  '2c7e9a41-8b3d-4f12-a6c5-9d8e7f6a5b41',
+  '5a1d2e3f-4b5c-4d6e-8f70-8192a3b4c5d6',
+  'a3b2c1d0-e9f8-4a7b-9c6d-5e4f3a2b1c0d',
+  'f0e1d2c3-b4a5-4968-8776-a5b4c3d2e1f0',
+]
+
+Deno.test('events without waitlist settings broadcast in FIFO order', () => {
+  const settings = waitlistSettingsOf({})
+  assertEquals(settings.mode, 'fifo')
+  assertEquals(settings.claim_minutes, 15)
+  assertEquals(servesInTurn(settings), false)
+  assertEquals(lotteryPending(settings), false)
+})
+
+Deno.test('claim windows are clamped to 5 minutes .. 1 day', () => {
+  assertEquals(waitlistSettingsOf({ waitlist_mode: 'claim_window', waitlist_claim_minutes: 1 }).claim_minutes, 5)
+  assertEquals(waitlistSettingsOf({ waitlist_mode: 'claim_window', waitlist_claim_minutes: 5000 }).claim_minutes, 1440)
+  assertEquals(servesInTurn(waitlistSettingsOf({ waitlist_mode: 'claim_window' })), true)
+})
+
+Deno.test('a lottery serves nobody before its cutoff', () => {
+  const settings = waitlistSettingsOf({ waitlist_mode: 'lottery', waitlist_lottery_cutoff: '2026-05-01T12:00:00Z' })
+  assertEquals(servesInTurn(settings), true)
+  assertEquals(lotteryPending(settings, new Date('2026-05-01T11:59:00Z')), true)
+  assertEquals(lotteryPending(settings, new Date('2026-05-01T12:00:00Z')), false)
+  assertEquals(lotteryPending(waitlistSettingsOf({ waitlist_mode: 'lottery' })), true)
+})
+
+Deno.test('the lottery order follows from the seed alone', async () => {
+  const seed = '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08'
+  const order = await lotteryOrder(seed, ENTRIES)
+
+  // Every entry exactly once, whatever order they were loaded in
+  assertEquals([...order].sort(), [...ENTRIES].sort())
+  assertEquals(await lotteryOrder(seed, [...ENTRIES].reverse()), order)
+
+  // Anyone with the seed can check each place from the entry ids
+  const tickets = await Promise.all(order.map((id) => lotteryTicket(seed, id)))
+  assertEquals(tickets, [...tickets].sort())
+
+  // A different seed draws a different order
+  assert(JSON.stringify(await lotteryOrder(seed + '0', ENTRIES)) !== JSON.stringify(order))
+})
+
+Deno.test('a revealed seed must match its published commitment', async () => {
+  const commitment = 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+  assertEquals(await seedMatchesCommitment('abc', commitment), true)
+  assertEquals(await seedMatchesCommitment('abc', commitment.toUpperCase()), true)
+  assertEquals(await seedMatchesCommitment('abd', commitment), false)
+})
+
+Deno.test('a held listing can only be bought by its holder until the hold expires', () => {
+  const listing = { reserved_for: 'user-a', reserved_until: '2026-05-01T12:15:00Z' }
+  const during = new Date('2026-05-01T12:10:00Z')
+  assertEquals(checkWaitlistHold(listing, 'user-a', during), null)
+  assertEquals(checkWaitlistHold(listing, 'user-b', during), 'This ticket is on hold for someone on the waitlist')
+  assertEquals(checkWaitlistHold(listing, 'user-b', new Date('2026-05-01T12:15:00Z')), null)
+  assertEquals(checkWaitlistHold({ reserved_for: null, reserved_until: null }, 'user-b', during), null)
+})
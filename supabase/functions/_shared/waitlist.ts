@@ -0,0 +1,91 @@
+/**
+ * Waitlist modes for an event.
+ *
+ * Set on the event row (see migration 20260421100001_waitlist_claim_windows.sql):
+ * - `fifo`: every `notify` entry of the batch is told at once and the
+ *   fastest buyer wins; `auto_buy` entries are charged as they come up
+ * - `claim_window`: entries are served one at a time in queue order. An
+ *   `auto_buy` entry is charged in its turn; a `notify` entry is offered the
+ *   ticket exclusively for `waitlist_claim_minutes`, with the resale listing
+ *   held for it, before the offer rolls to the next entry
+ * - `lottery`: like `claim_window`, but entries registered before
+ *   `waitlist_lottery_cutoff` are served in a random order drawn at the
+ *   cutoff. Entries that join later follow in the order they joined
+ *
+ * The lottery is verifiable: its seed is generated when the organizer sets
+ * the cutoff, and only the seed's SHA-256 (the commitment) is published
+ * until the draw. At the draw the seed is revealed, and each entry's place
+ * is the rank of `sha256(seed + ':' + entry_id)`, so anyone can check that
+ * the order follows from a seed fixed before the entries were known.
+ */
+
+import { sha256Hex } from './widget-checkout.ts'
+
+export type WaitlistMode = 'fifo' | 'claim_window' | 'lottery'
+
+export interface WaitlistSettings {
+  mode: WaitlistMode
+  claim_minutes: number
+  lottery_cutoff: string | null
+}
+
+export const DEFAULT_CLAIM_MINUTES = 15
+export const MIN_CLAIM_MINUTES = 5
+export const MAX_CLAIM_MINUTES = 1440
+
+export function waitlistSettingsOf(event: any): WaitlistSettings {
+  const mode = event?.waitlist_mode
+  return {
+    mode: mode === 'claim_window' || mode === 'lottery' ? mode : 'fifo',
+    claim_minutes: Math.min(
+      Math.max(event?.waitlist_claim_minutes ?? DEFAULT_CLAIM_MINUTES, MIN_CLAIM_MINUTES),
+      MAX_CLAIM_MINUTES,
+    ),
+    lottery_cutoff: event?.waitlist_lottery_cutoff ?? null,
+  }
+}
+
+/** Whether entries are served one at a time with exclusive offers. */
+export function servesInTurn(settings: WaitlistSettings): boolean {
+  return settings.mode !== 'fifo'
+}
+
+/** A lottery waitlist serves nobody until its cutoff has passed and it is drawn. */
+export function lotteryPending(settings: WaitlistSettings, now = new Date()): boolean {
+  return settings.mode === 'lottery' &&
+    (!settings.lottery_cutoff || new Date(settings.lottery_cutoff) > now)
+}
+
+/** An entry's lottery ticket: the hash its place is ranked by. */
+export function lotteryTicket(seed: string, entryId: string): Promise<string> {
+  return sha256Hex(`${seed}:${entryId}`)
+}
+
+/** Entry ids in the order the lottery serves them. */
+export async function lotteryOrder(seed: string, entryIds: string[]): Promise<string[]> {
+  const tickets = await Promise.all(
+    entryIds.map(async (id) => ({ id, ticket: await lotteryTicket(seed, id) })),
+  )
+  return tickets
+    .sort((a, b) => (a.ticket < b.ticket ? -1 : a.ticket > b.ticket ? 1 : a.id < b.id ? -1 : 1))
+    .map((t) => t.id)
+}
+
+/** Whether a revealed seed is the one committed to before the draw. */
+export async function seedMatchesCommitment(seed: string, commitment: string): Promise<boolean> {
+  return (await sha256Hex(seed)) === commitment.toLowerCase()
+}
+
+/**
+ * Why `userId` can't buy a listing held for a waitlist offer, or null. A
+ * hold only binds until it expires; the holder can always buy.
+ */
+export function checkWaitlistHold(
+  listing: { reserved_for?: string | null; reserved_until?: string | null },
+  userId: string,
+  now = new Date(),
+): string | null {
+  if (!listing.reserved_for || !listing.reserved_until) return null
+  if (listing.reserved_for === userId || new Date(listing.reserved_until) <= now) return null
+  return 'This ticket is on hold for someone on the waitlist'
+}
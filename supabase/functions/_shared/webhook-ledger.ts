@@ -0,0 +1,112 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
+
+/**
+ * Durable ledger for incoming Stripe webhook events.
+ *
+ * Every event is written to `webhook_events` before dispatch and claimed
+ * atomically (see the claim_webhook_event RPC), so a Stripe retry of an
+ * event that already succeeded is acknowledged without running handlers
+ * again. Admin replays from the dashboard force a re-claim; handlers must
+ * therefore be safe to run twice.
+ */
+
+export interface LedgerClaim {
+  id: string
+  claimed: boolean
+  status: string
+}
+
+export type LedgerSource = 'stripe' | 'replay'
+
+interface LedgerEvent {
+  id: string
+  type: string
+}
+
+export async function claimWebhookEvent(
+  supabase: SupabaseClient,
+  event: LedgerEvent,
+  functionName: string,
+  source: LedgerSource,
+): Promise<LedgerClaim> {
+  const { data, error } = await supabase.rpc('claim_webhook_event', {
+    p_stripe_event_id: event.id,
+    p_event_type: event.type,
+    p_payload: event,
+    p_function_name: functionName,
+    p_source: source,
+    p_force: source === 'replay',
+  })
+
+  if (error || !data || data.length === 0) {
+    // Without a ledger row we can't guarantee exactly-once handling —
+    // fail so Stripe retries later.
+    throw new Error(`Failed to record webhook event ${event.id}: ${error?.message ?? 'no ledger row'}`)
+  }
+
+  return data[0] as LedgerClaim
+}
+
+/**
+ * Whether an event we could not claim is settled, so a Stripe retry can be
+ * acknowledged. A `processing` one belongs to another run that may still
+ * die; it must be answered with an error so Stripe redelivers it after the
+ * ledger's takeover window.
+ */
+export function isSettledClaim(claim: LedgerClaim): boolean {
+  return claim.status === 'succeeded' || claim.status === 'dead_lettered'
+}
+
+/**
+ * Record the outcome of a claimed event. Pass `error` when a handler threw.
+ * A `dead_lettered` event is settled like a success (Stripe retries are
+ * acknowledged) but only an admin replay will run it again.
+ */
+export async function finishWebhookEvent(
+  supabase: SupabaseClient,
+  ledgerId: string,
+  startedAt: number,
+  error?: unknown,
+  status: 'succeeded' | 'dead_lettered' = 'succeeded',
+) {
+  const { error: updateError } = await supabase
+    .from('webhook_events')
+    .update({
+      status: error ? 'failed' : status,
+      error_message: error ? (error instanceof Error ? error.message : String(error)) : null,
+      processing_time_ms: Date.now() - startedAt,
+      processed_at: new Date().toISOString(),
+    })
+    .eq('id', ledgerId)
+
+  if (updateError) {
+    console.error(`Failed to record webhook outcome for ${ledgerId}:`, updateError)
+  }
+}
+
+/**
+ * Load a stored event for an admin replay. Only callers holding the service
+ * role key may replay, since the payload bypasses Stripe signature checks.
+ */
+export async function loadReplayEvent<T>(
+  supabase: SupabaseClient,
+  req: Request,
+  serviceRoleKey: string,
+): Promise<T | null> {
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return null
+  }
+
+  const { replay_webhook_event_id } = await req.json()
+  if (!replay_webhook_event_id) {
+    return null
+  }
+
+  const { data: row } = await supabase
+    .from('webhook_events')
+    .select('payload')
+    .eq('id', replay_webhook_event_id)
+    .single()
+
+  return (row?.payload as T) ?? null
+}
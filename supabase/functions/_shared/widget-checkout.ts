@@ -0,0 +1,102 @@
+/**
+ * Widget checkout recovery: resume links for abandoned sessions.
+ *
+ * A recovery email links back to the page that hosted the widget, with
+ * `tickety_resume` and `tickety_event` query parameters. The embed script
+ * sees them and opens checkout with the token; widget-get-event then returns
+ * the abandoned session's ticket selections, promo code and buyer details so
+ * the buyer picks up where they left off. Only the token's SHA-256 is stored.
+ */
+
+export const RESUME_PARAM = 'tickety_resume'
+export const RESUME_EVENT_PARAM = 'tickety_event'
+
+// Links stop working this long after the email went out
+export const RESUME_WINDOW_DAYS = 7
+
+export async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value))
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+export function newResumeToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24))
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+/**
+ * The page the widget was opened on, as reported by the checkout frame.
+ * Only kept when it is an http(s) page on the request's origin, which the
+ * widget key already allows, so recovery emails never link elsewhere.
+ * Resume parameters from an earlier recovery are stripped.
+ */
+export function checkoutPageUrl(pageUrl: unknown, origin: string | null): string | null {
+  if (typeof pageUrl !== 'string' || !origin) return null
+  let url: URL
+  try {
+    url = new URL(pageUrl)
+  } catch {
+    return null
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return null
+  if (url.origin !== origin) return null
+
+  url.searchParams.delete(RESUME_PARAM)
+  url.searchParams.delete(RESUME_EVENT_PARAM)
+  url.hash = ''
+  return url.toString()
+}
+
+export function resumeUrl(pageUrl: string, eventId: string, token: string): string {
+  const url = new URL(pageUrl)
+  url.searchParams.set(RESUME_PARAM, token)
+  url.searchParams.set(RESUME_EVENT_PARAM, eventId)
+  return url.toString()
+}
+
+export interface ResumableSession {
+  id: string
+  ticket_selections: Array<{ ticket_type_id: string; quantity: number }>
+  promo_code: string | null
+  buyer_email: string | null
+  buyer_name: string | null
+}
+
+/**
+ * The abandoned session behind a resume token, or null when the token is
+ * unknown, belongs to another key or event, has lapsed, or the order was
+ * already finished from an earlier resume.
+ */
+export async function findResumableSession(
+  db: { from(table: string): any },
+  token: string,
+  widgetKeyId: string,
+  eventId: string,
+): Promise<ResumableSession | null> {
+  const cutoff = new Date(Date.now() - RESUME_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString()
+  const { data: session } = await db
+    .from('widget_checkout_sessions')
+    .select('id, ticket_selections, promo_code, buyer_email, metadata')
+    .eq('resume_token_hash', await sha256Hex(token))
+    .eq('widget_key_id', widgetKeyId)
+    .eq('event_id', eventId)
+    .eq('status', 'abandoned')
+    .gt('recovery_email_sent_at', cutoff)
+    .maybeSingle()
+  if (!session) return null
+
+  const { count } = await db
+    .from('widget_checkout_sessions')
+    .select('id', { count: 'exact', head: true })
+    .eq('resumed_from_session_id', session.id)
+    .eq('status', 'paid')
+  if (count) return null
+
+  return {
+    id: session.id,
+    ticket_selections: session.ticket_selections ?? [],
+    promo_code: session.promo_code ?? null,
+    buyer_email: session.buyer_email ?? null,
+    buyer_name: session.metadata?.buyer_name ?? null,
+  }
+}
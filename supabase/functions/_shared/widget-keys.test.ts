@@ -0,0 +1,46 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.177.0/testing/asserts.ts'
+import { sha256Hex } from './widget-checkout.ts'
+import { mintWidgetKey, normalizeAllowedOrigin, originAllowed, widgetKeyMode } from './widget-keys.ts'
+
+Deno.test('minted keys carry their mode prefix and are stored by hash', async () => {
+  const live = await mintWidgetKey('live')
+  assert(live.key.startsWith('twk_live_'))
+  assertEquals(live.key.length, 'twk_live_'.length + 32)
+  assert(/^twk_live_[A-Za-z0-9_-]+$/.test(live.key))
+  assertEquals(live.hash, await sha256Hex(live.key))
+  assertEquals(live.hint, live.key.slice(-4))
+
+  const test = await mintWidgetKey('test')
+  assertEquals(test.prefix, 'twk_test_')
+  assertEquals(widgetKeyMode(test.key), 'test')
+  assertEquals(widgetKeyMode(live.key), 'live')
+  assertEquals(widgetKeyMode('sk_live_abc'), null)
+})
+
+Deno.test('allowed origins accept full origins, subdomain wildcards and *', () => {
+  assertEquals(normalizeAllowedOrigin('https://MyBand.com/'), 'https://myband.com')
+  assertEquals(normalizeAllowedOrigin(' http://localhost:3000 '), 'http://localhost:3000')
+  assertEquals(normalizeAllowedOrigin('*.myband.com'), '*.myband.com')
+  assertEquals(normalizeAllowedOrigin('*'), '*')
+  assertEquals(normalizeAllowedOrigin('https://myband.com/tour'), null)
+  assertEquals(normalizeAllowedOrigin('myband.com'), null)
+  assertEquals(normalizeAllowedOrigin('*.com'), null)
+  assertEquals(normalizeAllowedOrigin('ftp://myband.com'), null)
+  assertEquals(normalizeAllowedOrigin(42), null)
+})
+
+Deno.test('origin checks match exact origins and subdomains only', () => {
+  const allowed = ['https://myband.com', '*.tickets.example']
+  assert(originAllowed(allowed, 'https://myband.com'))
+  assert(originAllowed(allowed, 'https://shop.tickets.example'))
+  assert(!originAllowed(allowed, 'https://evilmyband.com'))
+  assert(!originAllowed(allowed, 'http://myband.com'))
+  assert(!originAllowed(allowed, 'https://tickets.example.evil.com'))
+  assert(!originAllowed(allowed, 'https://nottickets.example'))
+
+  // Unscoped keys and requests without an Origin header
+  assert(originAllowed(null, 'https://anywhere.com'))
+  assert(originAllowed([], 'https://anywhere.com'))
+  assert(originAllowed(allowed, null))
+  assert(originAllowed(['*'], 'https://anywhere.com'))
+})
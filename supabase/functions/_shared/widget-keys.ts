@@ -0,0 +1,155 @@
+/**
+ * Widget API keys: minting, scope checks and request authentication.
+ *
+ * Keys look like `twk_live_…` or `twk_test_…` followed by 32 url-safe
+ * characters; only their SHA-256 is stored. Every widget endpoint
+ * authenticates with authenticateWidgetKey, which also counts the request in
+ * widget_api_key_usage (see record_widget_key_request).
+ */
+
+import { sha256Hex } from './widget-checkout.ts'
+
+export type WidgetKeyMode = 'live' | 'test'
+
+export const WIDGET_KEY_PREFIXES: Record<WidgetKeyMode, string> = {
+  live: 'twk_live_',
+  test: 'twk_test_',
+}
+
+// Longest overlap a rotation may leave the old key working for
+export const MAX_ROTATION_OVERLAP_HOURS = 168
+
+export interface MintedWidgetKey {
+  key: string
+  hash: string
+  prefix: string
+  hint: string
+}
+
+export async function mintWidgetKey(mode: WidgetKeyMode): Promise<MintedWidgetKey> {
+  const bytes = crypto.getRandomValues(new Uint8Array(24))
+  const secret = btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+  const key = WIDGET_KEY_PREFIXES[mode] + secret
+  return { key, hash: await sha256Hex(key), prefix: WIDGET_KEY_PREFIXES[mode], hint: key.slice(-4) }
+}
+
+export function widgetKeyMode(key: string): WidgetKeyMode | null {
+  if (key.startsWith(WIDGET_KEY_PREFIXES.live)) return 'live'
+  if (key.startsWith(WIDGET_KEY_PREFIXES.test)) return 'test'
+  return null
+}
+
+/**
+ * Normalize an allowed origin as entered by an organizer: a full origin
+ * (`https://myband.com`), a subdomain wildcard (`*.myband.com`) or `*`.
+ * Returns null for anything else.
+ */
+export function normalizeAllowedOrigin(value: unknown): string | null {
+  if (typeof value !== 'string') return null
+  const trimmed = value.trim().toLowerCase()
+  if (trimmed === '*') return trimmed
+  if (/^\*\.[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(trimmed)) return trimmed
+
+  try {
+    const url = new URL(trimmed)
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') return null
+    if (url.pathname !== '/' || url.search || url.hash) return null
+    return url.origin
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Whether a key scoped to `allowedOrigins` may be used from `origin`. An
+ * empty list allows every origin, as do requests without an Origin header
+ * (the hosted checkout page's own fetches, server-side calls).
+ */
+export function originAllowed(allowedOrigins: string[] | null, origin: string | null): boolean {
+  if (!allowedOrigins?.length) return true
+  if (!origin || origin === 'null') return true
+
+  return allowedOrigins.some((allowed) => {
+    if (allowed === '*' || allowed === origin) return true
+    if (!allowed.startsWith('*.')) return false
+    try {
+      const host = new URL(origin).hostname
+      return host.endsWith(allowed.slice(1))
+    } catch {
+      return false
+    }
+  })
+}
+
+export interface WidgetKeyRecord {
+  id: string
+  organizer_id: string
+  mode: WidgetKeyMode
+  allowed_event_ids: string[] | null
+  allowed_origins: string[] | null
+}
+
+export type WidgetKeyAuth =
+  | { valid: true; key: WidgetKeyRecord }
+  | { valid: false; error: string; status: number }
+
+/**
+ * Authenticate a widget request: the key must exist, be active, not revoked
+ * or past its rotation overlap, cover `eventId` and allow `origin`. Checkout
+ * requests (`checkout: true`) are also held to the key's rate limit.
+ * Requests without an `eventId` (event listings) apply the key's event
+ * scope themselves.
+ */
+export async function authenticateWidgetKey(
+  db: { from(table: string): any; rpc(fn: string, params?: Record<string, unknown>): any },
+  key: unknown,
+  opts: { eventId?: string; origin: string | null; checkout?: boolean },
+): Promise<WidgetKeyAuth> {
+  const mode = typeof key === 'string' ? widgetKeyMode(key) : null
+  if (!mode) return { valid: false, error: 'Invalid widget key', status: 403 }
+
+  const { data: record } = await db
+    .from('widget_api_keys')
+    .select('id, organizer_id, mode, allowed_event_ids, allowed_origins, is_active, expires_at, revoked_at')
+    .eq('key_hash', await sha256Hex(key as string))
+    .maybeSingle()
+
+  if (!record || record.mode !== mode) return { valid: false, error: 'Invalid widget key', status: 403 }
+  if (record.revoked_at) return { valid: false, error: 'Widget key has been revoked', status: 403 }
+  if (!record.is_active) return { valid: false, error: 'Widget key is deactivated', status: 403 }
+  if (record.expires_at && new Date(record.expires_at) <= new Date()) {
+    return { valid: false, error: 'Widget key has expired', status: 403 }
+  }
+
+  if (opts.eventId && record.allowed_event_ids?.length > 0 && !record.allowed_event_ids.includes(opts.eventId)) {
+    return { valid: false, error: 'Widget key not authorized for this event', status: 403 }
+  }
+
+  const { data: outcome, error } = await db.rpc('record_widget_key_request', {
+    p_key_id: record.id,
+    p_origin_allowed: originAllowed(record.allowed_origins, opts.origin),
+    p_checkout: opts.checkout ?? false,
+  })
+  if (error) {
+    // Usage tracking must not take the widget down; the origin check still applies
+    console.error(`[widget-keys] record_widget_key_request failed for ${record.id}:`, error.message)
+  }
+
+  if (outcome === 'origin_rejected' || (error && !originAllowed(record.allowed_origins, opts.origin))) {
+    return { valid: false, error: `Origin ${opts.origin} not allowed`, status: 403 }
+  }
+  if (outcome === 'rate_limited') {
+    return { valid: false, error: 'Rate limit exceeded. Please try again later.', status: 429 }
+  }
+
+  return {
+    valid: true,
+    key: {
+      id: record.id,
+      organizer_id: record.organizer_id,
+      mode: record.mode,
+      allowed_event_ids: record.allowed_event_ids,
+      allowed_origins: record.allowed_origins,
+    },
+  }
+}
@@ -1,6 +1,14 @@
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
 import Stripe from 'https://esm.sh/stripe@14.21.0'
+import { runInBackground } from '../_shared/background.ts'
+import {
+  cancellationIdempotencyKey,
+  cancellationRefundAmount,
+  isDefiniteStripeFailure,
+  isStripeRateLimit,
+  REFUNDS_PER_SECOND,
+} from '../_shared/event-cancellation.ts'
 
 const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY')!, {
   apiVersion: '2023-10-16',
@@ -9,14 +17,48 @@ const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY')!, {
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
 
+const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey)
+
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+const BATCH_SIZE = 25 // Payments claimed per batch
+const BATCH_SECONDS = 40 // Unstarted refunds go back to the queue after this
+const LEASE_SECONDS = 300 // A claimed payment is re-claimable after this
+const MAX_ATTEMPTS = 3 // Unfinished claims (crashes, Stripe outages) before an item fails
+const MAX_RESUMED_JOBS = 5
+
+// Cancels an event and refunds every card payment for it, as a job that
+// survives timeouts (see the event_cancellation_jobs migration).
+//
+//   { event_id, reason? }        the organizer starts the cancellation; the
+//                                first batch runs before answering
+//   { job_id }                   runs the next batch
+//   { job_id, retry_failed }     queues the job's failed refunds again
+//   {}                           scheduled: resumes every running job
+//
+// Each answer carries the job with its progress counts. Batches re-invoke
+// the function until the job is done; the scheduled call restarts jobs
+// whose chain broke (a crash, or Stripe rate limiting).
+//
+// The admin dashboard calls with the service role key and names the
+// platform admin in `admin_user_id`; a service role call without it is
+// the function invoking itself.
+
 interface CancelRequest {
-  event_id: string
+  event_id?: string
+  job_id?: string
+  retry_failed?: boolean
   reason?: string
+  admin_user_id?: string
+}
+
+interface Caller {
+  userId: string | null
+  isPlatformAdmin: boolean
+  isInternal: boolean
 }
 
 serve(async (req) => {
@@ -27,246 +69,287 @@ serve(async (req) => {
   try {
     const authHeader = req.headers.get('Authorization')
     if (!authHeader) {
-      return new Response(
-        JSON.stringify({ error: 'Missing authorization header' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+      return jsonResponse({ error: 'Missing authorization header' }, 401)
     }
 
-    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey)
+    const body: CancelRequest = await req.json().catch(() => ({}))
 
-    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(
-      authHeader.replace('Bearer ', '')
-    )
-
-    if (authError || !user) {
-      return new Response(
-        JSON.stringify({ error: 'Invalid authentication' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    let caller: Caller
+    if (authHeader === `Bearer ${supabaseServiceKey}`) {
+      caller = {
+        userId: body.admin_user_id ?? null,
+        isPlatformAdmin: !!body.admin_user_id,
+        isInternal: !body.admin_user_id,
+      }
+    } else {
+      const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(
+        authHeader.replace('Bearer ', '')
       )
+      if (authError || !user) {
+        return jsonResponse({ error: 'Invalid authentication' }, 401)
+      }
+      caller = { userId: user.id, isPlatformAdmin: false, isInternal: false }
     }
 
-    const body: CancelRequest = await req.json()
-    const { event_id, reason } = body
-
-    if (!event_id) {
-      return new Response(
-        JSON.stringify({ error: 'Missing event_id' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+    if (body.event_id) {
+      return await startCancellation(body.event_id, body.reason, caller)
     }
 
-    // Verify event exists and user is the organizer
-    const { data: event, error: eventError } = await supabaseAdmin
-      .from('events')
-      .select('id, organizer_id, title, deleted_at')
-      .eq('id', event_id)
-      .single()
-
-    if (eventError || !event) {
-      return new Response(
-        JSON.stringify({ error: 'Event not found' }),
-        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
+    if (body.job_id) {
+      const { data: job } = await supabaseAdmin
+        .from('event_cancellation_jobs')
+        .select('*, events(organizer_id)')
+        .eq('id', body.job_id)
+        .single()
+      if (!job) {
+        return jsonResponse({ error: 'Cancellation not found' }, 404)
+      }
+      if (!caller.isInternal && !caller.isPlatformAdmin && job.events?.organizer_id !== caller.userId) {
+        return jsonResponse({ error: 'Only the event organizer can manage this cancellation' }, 403)
+      }
 
-    if (event.organizer_id !== user.id) {
-      return new Response(
-        JSON.stringify({ error: 'Only the event organizer can cancel an event' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+      if (body.retry_failed) {
+        const { error } = await supabaseAdmin.rpc('retry_event_cancellation', { p_job_id: job.id })
+        if (error) throw new Error(error.message)
+      }
+      return jsonResponse({ success: true, job: await continueJob(job.id) })
     }
 
-    if (event.deleted_at) {
-      return new Response(
-        JSON.stringify({ error: 'Event is already cancelled' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+    if (caller.isInternal) {
+      return jsonResponse(await resumeRunningJobs())
     }
+    return jsonResponse({ error: 'Missing event_id' }, 400)
+
+  } catch (error: any) {
+    console.error('Error cancelling event:', error)
+    return jsonResponse({ error: error.message || 'Failed to cancel event' }, 500)
+  }
+})
+
+// ====================================================================
+// Starting and resuming
+// ====================================================================
+
+async function startCancellation(eventId: string, reason: string | undefined, caller: Caller) {
+  const { data: event, error: eventError } = await supabaseAdmin
+    .from('events')
+    .select('id, organizer_id, title, deleted_at')
+    .eq('id', eventId)
+    .single()
+
+  if (eventError || !event) {
+    return jsonResponse({ error: 'Event not found' }, 404)
+  }
+
+  if (!caller.isPlatformAdmin && event.organizer_id !== caller.userId) {
+    return jsonResponse({ error: 'Only the event organizer can cancel an event' }, 403)
+  }
+
+  // Asking again resumes the job instead of failing
+  const { data: existing } = await supabaseAdmin
+    .from('event_cancellation_jobs')
+    .select('id')
+    .eq('event_id', eventId)
+    .maybeSingle()
+
+  if (event.deleted_at && !existing) {
+    return jsonResponse({ error: 'Event is already cancelled' }, 400)
+  }
+
+  let jobId = existing?.id as string | undefined
+  if (!jobId) {
+    const { data: job, error } = await supabaseAdmin.rpc('start_event_cancellation', {
+      p_event_id: eventId,
+      p_requested_by: caller.userId,
+      p_reason: reason ?? null,
+    })
+    if (error) throw new Error(error.message)
+    jobId = job.id as string
+    console.log(`[cancel-event] Started job ${jobId} for event ${eventId}: ${job.total_payments} payment(s)`)
+  }
+
+  const job = await continueJob(jobId)
+  return jsonResponse({ success: true, event_title: event.title, job })
+}
 
-    // Find all completed payments for this event that can be refunded
-    const { data: payments, error: paymentsError } = await supabaseAdmin
+/** Runs one batch, then hands the rest to a fresh invocation. */
+async function continueJob(jobId: string) {
+  const { job, rateLimited, claimed } = await runBatch(jobId)
+  if (job?.status === 'running' && claimed > 0 && !rateLimited) {
+    invokeSelf({ job_id: jobId })
+  }
+  return job
+}
+
+async function resumeRunningJobs() {
+  const { data: jobs, error } = await supabaseAdmin
+    .from('event_cancellation_jobs')
+    .select('id')
+    .eq('status', 'running')
+    .order('created_at', { ascending: true })
+    .limit(MAX_RESUMED_JOBS)
+  if (error) throw new Error(error.message)
+
+  for (const job of jobs ?? []) invokeSelf({ job_id: job.id })
+  return { resumed: jobs?.length ?? 0 }
+}
+
+// ====================================================================
+// Batches
+// ====================================================================
+
+async function runBatch(jobId: string) {
+  const deadline = Date.now() + BATCH_SECONDS * 1000
+
+  const { data: items, error: claimError } = await supabaseAdmin.rpc('claim_event_cancellation_items', {
+    p_job_id: jobId,
+    p_limit: BATCH_SIZE,
+    p_lease_seconds: LEASE_SECONDS,
+  })
+  if (claimError) throw new Error(claimError.message)
+  const claimed = (items ?? []) as any[]
+
+  const { data: job } = await supabaseAdmin
+    .from('event_cancellation_jobs')
+    .select('id, event_id, requested_by')
+    .eq('id', jobId)
+    .single()
+
+  const { data: payments } = claimed.length
+    ? await supabaseAdmin
       .from('payments')
-      .select('id, user_id, stripe_payment_intent_id, amount_cents, status, ticket_id, type')
-      .eq('event_id', event_id)
-      .eq('status', 'completed')
-      .not('stripe_payment_intent_id', 'is', null)
+      .select('id, stripe_payment_intent_id, amount_cents, refunded_cents, status')
+      .in('id', claimed.map((item) => item.payment_id))
+    : { data: [] }
+  const paymentsById = new Map<string, any>((payments ?? []).map((p: any) => [p.id, p]))
+
+  let rateLimited = false
+  for (const [index, item] of claimed.entries()) {
+    if (rateLimited || Date.now() > deadline) {
+      await releaseItems(claimed.slice(index))
+      break
+    }
 
-    if (paymentsError) {
-      console.error('Failed to fetch payments:', paymentsError)
+    if (item.attempts > MAX_ATTEMPTS) {
+      await failItem(item, `Gave up after ${item.attempts - 1} unfinished attempts`)
+      continue
     }
 
-    const refundablePayments = payments || []
-    const results = {
-      total_payments: refundablePayments.length,
-      refunded: 0,
-      failed: 0,
-      skipped: 0,
-      errors: [] as string[],
+    const payment = paymentsById.get(item.payment_id)
+    if (!payment) {
+      await failItem(item, 'Payment not found')
+      continue
     }
 
-    // Process refunds for each payment
-    for (const payment of refundablePayments) {
-      try {
-        // Skip payments with zero amount (free tickets)
-        if (payment.amount_cents <= 0) {
-          results.skipped++
-          // Still cancel the ticket
-          if (payment.ticket_id) {
-            await supabaseAdmin
-              .from('tickets')
-              .update({ status: 'cancelled' })
-              .eq('id', payment.ticket_id)
-          }
-          // Update payment status
-          await supabaseAdmin
-            .from('payments')
-            .update({ status: 'refunded' })
-            .eq('id', payment.id)
-          continue
-        }
+    // A replayed claim asks Stripe for the same amount as the first try
+    const amount = item.amount_cents > 0 ? item.amount_cents : cancellationRefundAmount(payment)
+    let refundId: string | null = null
+    if (amount > 0) {
+      if (amount !== item.amount_cents) {
+        await supabaseAdmin.from('event_cancellation_items').update({ amount_cents: amount }).eq('id', item.id)
+      }
 
-        // Issue Stripe refund
+      const started = Date.now()
+      try {
         const refund = await stripe.refunds.create({
           payment_intent: payment.stripe_payment_intent_id,
+          amount,
           reason: 'requested_by_customer',
           metadata: {
             payment_id: payment.id,
-            event_id,
+            event_id: job?.event_id,
             reason: 'event_cancelled',
-            cancelled_by: user.id,
+            cancelled_by: job?.requested_by ?? '',
+            cancellation_item_id: item.id,
           },
-        })
-
-        // Update payment status
-        await supabaseAdmin
-          .from('payments')
-          .update({
-            status: 'refunded',
-            metadata: {
-              refund_id: refund.id,
-              refund_reason: 'event_cancelled',
-              refunded_by: user.id,
-              refunded_at: new Date().toISOString(),
-              cancellation_reason: reason,
-            },
-          })
-          .eq('id', payment.id)
-
-        // Update ticket status
-        if (payment.ticket_id) {
-          await supabaseAdmin
-            .from('tickets')
-            .update({ status: 'refunded' })
-            .eq('id', payment.ticket_id)
-        }
-
-        results.refunded++
+        }, { idempotencyKey: cancellationIdempotencyKey(item) })
+        refundId = refund.id
       } catch (err: any) {
-        console.error('Failed to refund payment ' + payment.id + ':', err.message)
-        results.failed++
-        results.errors.push(payment.id + ': ' + (err.message || 'Unknown error'))
+        if (isStripeRateLimit(err)) {
+          console.warn(`[cancel-event] Rate limited by Stripe, pausing job ${jobId}`)
+          rateLimited = true
+          await releaseItems([item])
+        } else if (isDefiniteStripeFailure(err)) {
+          console.error(`[cancel-event] Failed to refund payment ${payment.id}:`, err.message)
+          await failItem(item, err.message || 'Unknown error')
+        } else {
+          // Left leased for a replay under the same key
+          console.error(`[cancel-event] Refund of payment ${payment.id} may not have gone through:`, err.message)
+        }
+        continue
       }
+      await sleep(1000 / REFUNDS_PER_SECOND - (Date.now() - started))
     }
 
-    // Cancel any remaining valid tickets without payments (e.g., free tickets, comp tickets)
-    const { data: remainingTickets } = await supabaseAdmin
-      .from('tickets')
-      .select('id, user_id, status')
-      .eq('event_id', event_id)
-      .in('status', ['valid'])
-
-    if (remainingTickets && remainingTickets.length > 0) {
-      await supabaseAdmin
-        .from('tickets')
-        .update({ status: 'cancelled' })
-        .eq('event_id', event_id)
-        .eq('status', 'valid')
+    const { error: recordError } = await supabaseAdmin.rpc('record_event_cancellation_refund', {
+      p_item_id: item.id,
+      p_stripe_refund_id: refundId,
+      p_amount_cents: amount,
+    })
+    if (recordError) {
+      // Left leased: the replay gets the same refund back from Stripe and
+      // records it then. Failing it would retry under a new key.
+      console.error(`[cancel-event] Refunded payment ${payment.id} but could not record it:`, recordError.message)
     }
+  }
 
-    // ── Notify all affected users ──
-    // Collect unique user IDs from refunded payments and cancelled tickets
-    const notifiedUsers = new Set<string>()
-
-    // Notify users who got refunds
-    for (const payment of refundablePayments) {
-      if (payment.amount_cents > 0 && !notifiedUsers.has(payment.user_id)) {
-        notifiedUsers.add(payment.user_id)
-        await supabaseAdmin.from('notifications').insert({
-          user_id: payment.user_id,
-          type: 'event_cancelled',
-          title: 'Event Cancelled — Refund Issued',
-          body: '"' + event.title + '" has been cancelled. Your payment has been refunded to your original payment method.',
-          data: { event_id, event_title: event.title },
-        })
-      }
-    }
+  const { data: refreshed, error: refreshError } = await supabaseAdmin.rpc('refresh_event_cancellation_job', {
+    p_job_id: jobId,
+  })
+  if (refreshError) throw new Error(refreshError.message)
 
-    // Notify users with free/comp tickets that were cancelled
-    if (remainingTickets) {
-      for (const ticket of remainingTickets) {
-        if (ticket.user_id && !notifiedUsers.has(ticket.user_id)) {
-          notifiedUsers.add(ticket.user_id)
-          await supabaseAdmin.from('notifications').insert({
-            user_id: ticket.user_id,
-            type: 'event_cancelled',
-            title: 'Event Cancelled',
-            body: '"' + event.title + '" has been cancelled. Your ticket has been cancelled.',
-            data: { event_id, event_title: event.title },
-          })
-        }
-      }
-    }
+  console.log(
+    `[cancel-event] Job ${jobId}: ${refreshed.refunded_count} refunded, ${refreshed.skipped_count} skipped, ` +
+    `${refreshed.failed_count} failed of ${refreshed.total_payments} (${refreshed.status})`
+  )
 
-    // Cancel any pending resale listings
-    await supabaseAdmin
-      .from('resale_listings')
-      .update({ status: 'cancelled' })
-      .eq('event_id', event_id)
-      .in('status', ['active', 'pending'])
-
-    // Cancel any active waitlist entries
-    await supabaseAdmin
-      .from('waitlist_entries')
-      .update({ status: 'cancelled' })
-      .eq('event_id', event_id)
-      .eq('status', 'active')
-
-    // Soft-delete the event
-    await supabaseAdmin
-      .from('events')
-      .update({
-        deleted_at: new Date().toISOString(),
-        status: 'suspended',
-        status_reason: reason || 'Event cancelled by organizer',
-      })
-      .eq('id', event_id)
-
-    console.log(
-      'Event ' + event_id + ' cancelled: ' +
-      results.refunded + ' refunded, ' +
-      results.failed + ' failed, ' +
-      results.skipped + ' skipped (free)'
-    )
-
-    return new Response(
-      JSON.stringify({
-        success: true,
-        event_title: event.title,
-        ...results,
-        cancelled_tickets: (remainingTickets?.length || 0),
-      }),
-      {
-        status: 200,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      }
-    )
+  return { job: refreshed, rateLimited, claimed: claimed.length }
+}
 
-  } catch (error: any) {
-    console.error('Error cancelling event:', error)
-    return new Response(
-      JSON.stringify({ error: error.message || 'Failed to cancel event' }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    )
+async function releaseItems(items: any[]) {
+  if (!items.length) return
+  // Not counted as attempts: these never reached Stripe
+  for (const item of items) {
+    await supabaseAdmin.from('event_cancellation_items').update({
+      status: 'pending',
+      attempts: item.attempts - 1,
+      locked_until: null,
+      updated_at: new Date().toISOString(),
+    }).eq('id', item.id)
   }
-})
+}
+
+async function failItem(item: any, message: string) {
+  await supabaseAdmin.from('event_cancellation_items').update({
+    status: 'failed',
+    error_message: message,
+    locked_until: null,
+    processed_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+  }).eq('id', item.id)
+}
+
+// ====================================================================
+// Helpers
+// ====================================================================
+
+function sleep(ms: number) {
+  return ms > 0 ? new Promise((resolve) => setTimeout(resolve, ms)) : Promise.resolve()
+}
+
+function invokeSelf(body: Record<string, unknown>) {
+  runInBackground(fetch(`${supabaseUrl}/functions/v1/cancel-event`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${supabaseServiceKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  }).catch(err => console.error(`[cancel-event] Self invocation failed: ${err}`)))
+}
+
+function jsonResponse(data: any, status = 200) {
+  return new Response(JSON.stringify(data), {
+    status, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
@@ -0,0 +1,249 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
+import { runInBackground } from '../_shared/background.ts'
+import {
+  assessConfirmation,
+  cardanoNetwork,
+  DEFAULT_REQUIRED_CONFIRMATIONS,
+  networkBlockfrost,
+} from '../_shared/cardano/mod.ts'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+const BATCH_SIZE = 100 // Queue entries checked per invocation
+const STALE_MINT_CLAIM_MS = 15 * 60 * 1000 // Matches claim_nft_mint_batch
+
+// Confirmation watcher for submitted NFT transactions (mint, transfer, burn,
+// refresh).
+// Called on a schedule (cron) with {} to sweep the least recently checked
+// entries, or with { queue_id } to check one.
+//
+// - confirmed: the tx is `required_confirmations` blocks deep → the queue
+//   entry and ticket are marked confirmed
+// - pending:   not deep enough yet, or not on chain but still within its TTL
+// - dropped:   not on chain and past its TTL, so it can never land → the
+//   ticket's NFT columns are rolled back and the entry is re-queued
+//
+// The sweep also restarts minting for events whose claimed mints were never
+// submitted because the mint worker died.
+
+// ====================================================================
+// Main handler
+// ====================================================================
+
+serve(async (req) => {
+  try {
+    const { queue_id } = await req.json().catch(() => ({}))
+    if (!queue_id) await resumeStaleMints()
+
+    const { data: configRows } = await supabase.from('platform_cardano_config').select('key, value')
+    const configMap: Record<string, string> = {}
+    for (const row of configRows ?? []) configMap[row.key] = row.value
+    const required = parseInt(configMap.required_confirmations ?? '', 10) || DEFAULT_REQUIRED_CONFIRMATIONS
+    // Only reads the chain, so no signing key is needed
+    const chain = networkBlockfrost(cardanoNetwork(configMap))
+
+    let query = supabase.from('nft_mint_queue')
+      .select('id, ticket_id, event_id, action, tx_hash, batch_id, ttl_slot, submitted_at, updated_at, dropped_count')
+      .eq('chain_status', 'submitted')
+    query = queue_id
+      ? query.eq('id', queue_id)
+      : query.order('last_checked_at', { ascending: true, nullsFirst: true }).limit(BATCH_SIZE)
+    const { data: entries, error } = await query
+    if (error) return jsonResponse({ error: error.message }, 500)
+    if (!entries?.length) return jsonResponse({ message: 'No unconfirmed transactions', checked: 0 })
+
+    const tip = await chain.getTip()
+    console.log(`[confirm] Checking ${entries.length} entr(ies) at tip ${tip.height}/${tip.slot}, need ${required} confirmations`)
+
+    // Batch mints share one tx: look each hash up once
+    const byHash = new Map<string, any[]>()
+    for (const entry of entries) {
+      if (!byHash.has(entry.tx_hash)) byHash.set(entry.tx_hash, [])
+      byHash.get(entry.tx_hash)!.push(entry)
+    }
+
+    const counts = { confirmed: 0, pending: 0, dropped: 0, errors: 0 }
+    for (const [txHash, group] of byHash) {
+      try {
+        const first = group[0]
+        const outcome = assessConfirmation({
+          tx: await chain.getTx(txHash),
+          tip,
+          ttlSlot: first.ttl_slot,
+          submittedAt: new Date(first.submitted_at ?? first.updated_at),
+          required,
+        })
+        const ids = group.map(e => e.id)
+        const now = new Date().toISOString()
+
+        if (outcome.state === 'confirmed') {
+          await markConfirmed(txHash, group, outcome.confirmations, outcome.blockHeight)
+          counts.confirmed += group.length
+        } else if (outcome.state === 'pending') {
+          await supabase.from('nft_mint_queue').update({
+            confirmations: outcome.confirmations,
+            block_height: outcome.blockHeight,
+            last_checked_at: now,
+          }).in('id', ids)
+          counts.pending += group.length
+        } else {
+          console.warn(`[confirm] Tx ${txHash} dropped: ${outcome.reason}`)
+          await requeueDropped(txHash, group, outcome.reason)
+          counts.dropped += group.length
+        }
+      } catch (err) {
+        console.error(`[confirm] Error checking ${txHash}:`, err)
+        counts.errors += group.length
+      }
+    }
+
+    return jsonResponse({ checked: entries.length, required, tip, ...counts })
+
+  } catch (err) {
+    console.error('[confirm] Error:', err)
+    return jsonResponse({ error: err.message }, 500)
+  }
+})
+
+// ====================================================================
+// Confirmed
+// ====================================================================
+
+async function markConfirmed(txHash: string, entries: any[], confirmations: number, blockHeight: number) {
+  const now = new Date().toISOString()
+
+  await supabase.from('nft_mint_queue').update({
+    chain_status: 'confirmed',
+    confirmations,
+    block_height: blockHeight,
+    confirmed_at: now,
+    last_checked_at: now,
+  }).in('id', entries.map(e => e.id))
+
+  for (const entry of entries) {
+    // Only when this tx is still the ticket's latest NFT tx
+    if (entry.action === 'mint') {
+      await supabase.from('tickets').update({ nft_chain_status: 'confirmed', nft_confirmed_at: now })
+        .eq('id', entry.ticket_id).eq('nft_tx_hash', txHash).is('nft_transfer_tx_hash', null)
+    } else if (entry.action === 'transfer') {
+      await supabase.from('tickets').update({ nft_chain_status: 'confirmed', nft_confirmed_at: now })
+        .eq('id', entry.ticket_id).eq('nft_transfer_tx_hash', txHash)
+    }
+  }
+
+  const batchIds = [...new Set(entries.map(e => e.batch_id).filter(Boolean))]
+  if (batchIds.length > 0) {
+    await supabase.from('nft_mint_batches').update({ status: 'confirmed', confirmed_at: now }).in('id', batchIds)
+  }
+
+  console.log(`[confirm] Tx ${txHash} confirmed (${confirmations} blocks, ${entries.length} entr(ies))`)
+}
+
+// ====================================================================
+// Dropped: roll back and re-queue
+// ====================================================================
+
+async function requeueDropped(txHash: string, entries: any[], reason: string) {
+  const now = new Date().toISOString()
+  const mintEvents = new Set<string>()
+  const refreshEvents = new Set<string>()
+
+  for (const entry of entries) {
+    if (entry.action === 'mint') {
+      await supabase.from('tickets').update({
+        nft_minted: false, nft_asset_id: null, nft_minted_at: null, nft_tx_hash: null,
+        nft_chain_status: null, nft_confirmed_at: null,
+      }).eq('id', entry.ticket_id).eq('nft_tx_hash', txHash)
+    } else if (entry.action === 'transfer') {
+      // Fall back to the ticket's previous NFT tx (the mint or an earlier transfer)
+      const { data: previous } = await supabase.from('nft_mint_queue')
+        .select('action, tx_hash, chain_status')
+        .eq('ticket_id', entry.ticket_id).in('action', ['mint', 'transfer'])
+        .not('chain_status', 'is', null).neq('id', entry.id)
+        .order('submitted_at', { ascending: false }).limit(1).maybeSingle()
+      await supabase.from('tickets').update({
+        nft_transfer_tx_hash: previous?.action === 'transfer' ? previous.tx_hash : null,
+        nft_chain_status: previous?.chain_status ?? null,
+      }).eq('id', entry.ticket_id).eq('nft_transfer_tx_hash', txHash)
+    } else if (entry.action === 'burn') {
+      await supabase.from('tickets').update({
+        nft_burned: false, nft_burned_at: null, nft_burn_tx_hash: null,
+      }).eq('id', entry.ticket_id).eq('nft_burn_tx_hash', txHash)
+    }
+
+    await supabase.from('nft_mint_queue').update({
+      status: 'queued',
+      tx_hash: null,
+      batch_id: null,
+      chain_status: null,
+      ttl_slot: null,
+      submitted_at: null,
+      confirmations: 0,
+      block_height: null,
+      last_checked_at: now,
+      dropped_count: (entry.dropped_count ?? 0) + 1,
+      error_message: `Tx ${txHash} dropped: ${reason}`,
+    }).eq('id', entry.id)
+
+    if (entry.action === 'mint') {
+      mintEvents.add(entry.event_id)
+    } else if (entry.action === 'refresh') {
+      refreshEvents.add(entry.event_id)
+    } else {
+      invokeFunction(entry.action === 'transfer' ? 'transfer-ticket-nft' : 'burn-expired-nfts', { queue_id: entry.id })
+    }
+  }
+
+  const batchIds = [...new Set(entries.map(e => e.batch_id).filter(Boolean))]
+  if (batchIds.length > 0) {
+    await supabase.from('nft_mint_batches').update({ status: 'dropped', error_message: reason }).in('id', batchIds)
+  }
+
+  // Mints and refreshes go back through their batch functions, one invocation per event
+  for (const eventId of mintEvents) invokeFunction('mint-ticket-nft', { event_id: eventId })
+  for (const eventId of refreshEvents) invokeFunction('refresh-ticket-nfts', { event_id: eventId })
+}
+
+// ====================================================================
+// Stale mint claims
+// ====================================================================
+
+/**
+ * Mints stuck in 'minting' belong to a worker that died between claiming
+ * and submitting. The next claim for their event hands them back to the
+ * queue, so start one.
+ */
+async function resumeStaleMints() {
+  const staleBefore = new Date(Date.now() - STALE_MINT_CLAIM_MS).toISOString()
+  const { data: stale } = await supabase.from('nft_mint_queue')
+    .select('event_id')
+    .eq('action', 'mint').eq('status', 'minting')
+    .or(`claimed_at.is.null,claimed_at.lt.${staleBefore}`)
+    .limit(BATCH_SIZE)
+
+  for (const eventId of new Set((stale ?? []).map((e: { event_id: string }) => e.event_id))) {
+    console.warn(`[confirm] Restarting stale mint claims for event ${eventId}`)
+    invokeFunction('mint-ticket-nft', { event_id: eventId })
+  }
+}
+
+function invokeFunction(name: string, body: Record<string, unknown>) {
+  runInBackground(fetch(`${supabaseUrl}/functions/v1/${name}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${supabaseServiceKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  }).catch(err => console.error(`[confirm] ${name} invocation failed: ${err}`)))
+}
+
+function jsonResponse(data: any, status = 200) {
+  return new Response(JSON.stringify(data), {
+    status, headers: { 'Content-Type': 'application/json' },
+  })
+}
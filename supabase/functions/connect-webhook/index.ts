@@ -1,6 +1,7 @@
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
 import Stripe from 'https://esm.sh/stripe@14.21.0'
+import { claimWebhookEvent, finishWebhookEvent, isSettledClaim, loadReplayEvent, type LedgerClaim, type LedgerSource } from '../_shared/webhook-ledger.ts'
 
 const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY')!, {
   apiVersion: '2023-10-16',
@@ -14,23 +15,58 @@ const webhookSecret = Deno.env.get('STRIPE_CONNECT_WEBHOOK_SECRET')!
 const supabase = createClient(supabaseUrl, supabaseServiceKey)
 
 serve(async (req) => {
+  let event: Stripe.Event
+  let source: LedgerSource = 'stripe'
+
   const signature = req.headers.get('stripe-signature')
-  if (!signature) {
-    return new Response('Missing stripe-signature header', { status: 400 })
+  if (signature) {
+    const body = await req.text()
+
+    try {
+      event = await stripe.webhooks.constructEventAsync(body, signature, webhookSecret)
+    } catch (err) {
+      console.error('Webhook signature verification failed:', err.message)
+      return new Response(`Webhook Error: ${err.message}`, { status: 400 })
+    }
+  } else {
+    // Admin replay: re-dispatch a stored event from the ledger
+    const replayed = await loadReplayEvent<Stripe.Event>(supabase, req, supabaseServiceKey)
+    if (!replayed) {
+      return new Response('Missing stripe-signature header', { status: 400 })
+    }
+    event = replayed
+    source = 'replay'
   }
 
-  const body = await req.text()
-
-  let event: Stripe.Event
-
+  let claim: LedgerClaim
   try {
-    event = await stripe.webhooks.constructEventAsync(body, signature, webhookSecret)
+    claim = await claimWebhookEvent(supabase, event, 'connect-webhook', source)
   } catch (err) {
-    console.error('Webhook signature verification failed:', err.message)
-    return new Response(`Webhook Error: ${err.message}`, { status: 400 })
+    console.error(err.message)
+    return new Response(JSON.stringify({ error: err.message }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    })
   }
 
-  console.log(`Processing Connect webhook event: ${event.type}`)
+  if (!claim.claimed && !isSettledClaim(claim)) {
+    console.log(`Connect event ${event.id} is still being processed, asking Stripe to retry`)
+    return new Response(JSON.stringify({ error: 'Event is already being processed' }), {
+      status: 409,
+      headers: { 'Content-Type': 'application/json' }
+    })
+  }
+
+  if (!claim.claimed) {
+    console.log(`Skipping duplicate Connect event ${event.id} (${claim.status})`)
+    return new Response(JSON.stringify({ received: true, duplicate: true }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    })
+  }
+
+  console.log(`Processing Connect webhook event: ${event.type} (${event.id}, ${source})`)
+  const startedAt = Date.now()
 
   try {
     switch (event.type) {
@@ -46,6 +82,8 @@ serve(async (req) => {
         console.log(`Unhandled Connect event type: ${event.type}`)
     }
 
+    await finishWebhookEvent(supabase, claim.id, startedAt)
+
     return new Response(JSON.stringify({ received: true }), {
       status: 200,
       headers: { 'Content-Type': 'application/json' }
@@ -53,6 +91,7 @@ serve(async (req) => {
 
   } catch (error) {
     console.error('Error processing Connect webhook:', error)
+    await finishWebhookEvent(supabase, claim.id, startedAt, error)
     return new Response(JSON.stringify({ error: error.message }), {
       status: 500,
       headers: { 'Content-Type': 'application/json' }
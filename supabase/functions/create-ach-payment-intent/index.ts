@@ -1,6 +1,10 @@
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
 import Stripe from 'https://esm.sh/stripe@14.21.0'
+import { eventCurrency } from '../_shared/currency.ts'
+import { calculateFees, feeScheduleStamp, feeTaxColumns, scheduleSupportsCurrency } from '../_shared/fees.ts'
+import { type AppliedPromo, applyPromoCodes, normalizeCodes, type OrderLine, orderTotal, reservePromoCodes } from '../_shared/promo.ts'
+import { loadEventTax } from '../_shared/tax.ts'
 
 const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY')!, {
   apiVersion: '2023-10-16',
@@ -14,40 +18,15 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
-// Fee constants — must match client-side ACHPurchaseFeeCalculator exactly
-const PLATFORM_FEE_RATE = 0.05
-const ACH_FEE_RATE = 0.008
-const ACH_FEE_CAP_CENTS = 500
-
-function calculateFees(baseCents: number) {
-  if (baseCents <= 0) {
-    return {
-      base_cents: 0,
-      platform_fee_cents: 0,
-      ach_fee_cents: 0,
-      total_cents: 0,
-    }
-  }
-
-  const platform_fee_cents = Math.ceil(baseCents * PLATFORM_FEE_RATE)
-  const subtotal = baseCents + platform_fee_cents
-  const ach_fee_cents = Math.min(Math.ceil(subtotal * ACH_FEE_RATE), ACH_FEE_CAP_CENTS)
-  const total_cents = subtotal + ach_fee_cents
-
-  return {
-    base_cents: baseCents,
-    platform_fee_cents,
-    ach_fee_cents,
-    total_cents,
-  }
-}
-
 interface ACHPaymentRequest {
   event_id: string
   quantity: number
   payment_method_id: string
   amount_cents: number
   metadata?: Record<string, unknown>
+  /** Entered promo codes; several only when all are stackable. */
+  promo_codes?: string[]
+  /** Older app versions send the id of the one validated code. */
   promo_code_id?: string
   seat_selections?: Array<{
     section_id: string
@@ -92,7 +71,7 @@ serve(async (req) => {
     }
 
     const body: ACHPaymentRequest = await req.json()
-    const { event_id, quantity = 1, payment_method_id, amount_cents, metadata, promo_code_id, seat_selections } = body
+    const { event_id, quantity = 1, payment_method_id, amount_cents, metadata, promo_codes, promo_code_id, seat_selections } = body
 
     if (!event_id || !payment_method_id) {
       return new Response(
@@ -111,7 +90,7 @@ serve(async (req) => {
     // Verify event exists and is active
     const { data: event, error: eventError } = await supabaseAdmin
       .from('events')
-      .select('id, title, price_in_cents, status, nft_enabled')
+      .select('id, title, price_in_cents, status, nft_enabled, currency')
       .eq('id', event_id)
       .single()
 
@@ -129,6 +108,13 @@ serve(async (req) => {
       )
     }
 
+    if (!scheduleSupportsCurrency('ach', eventCurrency(event))) {
+      return new Response(
+        JSON.stringify({ error: 'Bank payments are only available for events priced in USD' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
     if (!event.price_in_cents || event.price_in_cents <= 0) {
       return new Response(
         JSON.stringify({ error: 'Free events do not require payment' }),
@@ -136,43 +122,39 @@ serve(async (req) => {
       )
     }
 
-    // Validate promo code if provided
+    // Validate promo codes if provided
+    const orderLines: OrderLine[] = [{ ticket_type_id: null, quantity, unit_price_cents: event.price_in_cents }]
     let promoDiscountCents = 0
     let validatedPromoId: string | null = null
-    if (promo_code_id) {
+    let appliedPromos: AppliedPromo[] = []
+    let enteredCodes = normalizeCodes(promo_codes ?? [])
+    if (enteredCodes.length === 0 && promo_code_id) {
       const { data: promoCode } = await supabaseAdmin
         .from('promo_codes')
         .select('code')
         .eq('id', promo_code_id)
-        .single()
-
-      if (promoCode) {
-        const rawBase = event.price_in_cents * quantity
-        const { data: promoResult, error: promoError } = await supabaseAdmin.rpc('validate_promo_code', {
-          p_event_id: event_id,
-          p_code: promoCode.code,
-          p_user_id: user.id,
-          p_base_price_cents: rawBase,
-          p_ticket_type_id: null,
-        })
-
-        if (promoError || !promoResult?.valid) {
-          const errMsg = promoResult?.error || 'Promo code is no longer valid'
-          return new Response(
-            JSON.stringify({ error: errMsg }),
-            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-          )
-        }
+        .maybeSingle()
+      if (promoCode) enteredCodes = [promoCode.code]
+    }
 
-        promoDiscountCents = promoResult.discount_cents
-        validatedPromoId = promo_code_id
-        console.log(`[ach-promo] code=${promoCode.code}, discount=${promoDiscountCents} cents`)
+    if (enteredCodes.length > 0) {
+      const promoResult = await applyPromoCodes(supabaseAdmin, event_id, enteredCodes, user.id, orderLines)
+      if (!promoResult.valid) {
+        return new Response(
+          JSON.stringify({ error: promoResult.error }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
       }
+
+      appliedPromos = promoResult.codes
+      promoDiscountCents = promoResult.discount_cents
+      validatedPromoId = appliedPromos[0].promo_code_id
+      console.log(`[ach-promo] codes=${enteredCodes.join(',')}, discount=${promoDiscountCents} cents`)
     }
 
     // Calculate fees and validate client amount
-    const baseCents = event.price_in_cents * quantity - promoDiscountCents
-    const fees = calculateFees(baseCents)
+    const baseCents = orderTotal(orderLines) - promoDiscountCents
+    const fees = calculateFees('ach', baseCents, 'usd', await loadEventTax(supabaseAdmin, event_id))
 
     if (amount_cents !== fees.total_cents) {
       console.log(`ACH price mismatch: expected ${fees.total_cents}, got ${amount_cents}, promoDiscount=${promoDiscountCents}`)
@@ -198,6 +180,31 @@ serve(async (req) => {
       )
     }
 
+    // Hold the chosen seats before the bank debit is confirmed
+    if (seat_selections && seat_selections.length > 0) {
+      if (seat_selections.length !== quantity) {
+        return new Response(
+          JSON.stringify({ error: `Selected ${seat_selections.length} seats for ${quantity} tickets` }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      const { data: hold, error: holdError } = await supabaseAdmin.rpc('hold_seats', {
+        p_event_id: event_id,
+        p_user_id: user.id,
+        p_seats: seat_selections.map((s) => ({ section_id: s.section_id, seat_id: s.seat_id })),
+      })
+      if (holdError) throw new Error(`Failed to hold seats: ${holdError.message}`)
+
+      if (!hold.success) {
+        console.log(`[ach-seats] Hold refused for ${user.id} on ${event_id}: ${JSON.stringify(hold.conflicts ?? hold.error)}`)
+        return new Response(
+          JSON.stringify({ error: hold.error, code: 'seat_conflict', conflicts: hold.conflicts ?? [] }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+    }
+
     // Get or create Stripe customer
     const { data: profile } = await supabaseAdmin
       .from('profiles')
@@ -230,6 +237,11 @@ serve(async (req) => {
       base_amount_cents: String(fees.base_cents),
       platform_fee_cents: String(fees.platform_fee_cents),
       ach_fee_cents: String(fees.ach_fee_cents),
+      ...feeScheduleStamp(fees),
+    }
+    if (fees.tax_cents > 0) {
+      piMetadata.tax_cents = String(fees.tax_cents)
+      piMetadata.tax_inclusive = String(fees.tax!.inclusive)
     }
     if (validatedPromoId) {
       piMetadata.promo_code_id = validatedPromoId
@@ -241,20 +253,39 @@ serve(async (req) => {
       }
     }
 
-    // Create and confirm ACH PaymentIntent
+    // Create the ACH PaymentIntent. With promo codes it is confirmed only
+    // once their uses are reserved: a confirmed debit can't be cancelled.
     const idempotencyKey = `ach_${user.id}_${event_id}_${Date.now()}`
-    const paymentIntent = await stripe.paymentIntents.create({
+    let paymentIntent = await stripe.paymentIntents.create({
       amount: fees.total_cents,
       currency: 'usd',
       customer: customerId,
       payment_method: payment_method_id,
       payment_method_types: ['us_bank_account'],
-      confirm: true,
+      confirm: appliedPromos.length === 0,
       metadata: piMetadata,
     }, {
       idempotencyKey,
     })
 
+    if (appliedPromos.length > 0) {
+      const promoError = await reservePromoCodes(supabaseAdmin, {
+        paymentIntentId: paymentIntent.id,
+        eventId: event_id,
+        userId: user.id,
+        lines: orderLines,
+        applied: appliedPromos,
+      })
+      if (promoError) {
+        await stripe.paymentIntents.cancel(paymentIntent.id)
+        return new Response(
+          JSON.stringify({ error: promoError }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+      paymentIntent = await stripe.paymentIntents.confirm(paymentIntent.id)
+    }
+
     console.log(`ACH PaymentIntent created: ${paymentIntent.id}, status: ${paymentIntent.status}`)
 
     // Create payment record (status: processing — ACH takes days to settle)
@@ -268,7 +299,9 @@ serve(async (req) => {
         status: 'processing',
         type: 'ach_purchase',
         stripe_payment_intent_id: paymentIntent.id,
-        platform_fee_cents: fees.platform_fee_cents + fees.ach_fee_cents,
+        platform_fee_cents: fees.service_fee_cents,
+        ...feeScheduleStamp(fees),
+        ...feeTaxColumns(fees),
         ...(validatedPromoId && { promo_code_id: validatedPromoId }),
         ...(seat_selections && { seat_selections }),
         metadata: {
@@ -276,6 +309,7 @@ serve(async (req) => {
           fee_breakdown: fees,
           payment_method: 'ach',
           ...(promoDiscountCents > 0 && { promo_discount_cents: promoDiscountCents }),
+          ...(appliedPromos.length > 1 && { promo_codes: appliedPromos }),
           ...metadata,
         },
       })
@@ -286,16 +320,13 @@ serve(async (req) => {
       console.error('Failed to create payment record:', paymentError)
     }
 
-    // Redeem promo code after payment record is created
-    if (validatedPromoId && payment) {
-      const { error: redeemError } = await supabaseAdmin.rpc('redeem_promo_code', {
-        p_promo_code_id: validatedPromoId,
-        p_user_id: user.id,
-        p_payment_id: payment.id,
-        p_discount_cents: promoDiscountCents,
+    // Tickets are issued now, so the promo uses count as redeemed now
+    if (appliedPromos.length > 0) {
+      const { error: redeemError } = await supabaseAdmin.rpc('redeem_promo_code_uses', {
+        p_payment_intent_id: paymentIntent.id,
       })
       if (redeemError) {
-        console.error('Failed to redeem promo code (non-blocking):', redeemError)
+        console.error('Failed to redeem promo codes (non-blocking):', redeemError)
       }
     }
 
@@ -310,14 +341,36 @@ serve(async (req) => {
     const ownerEmail = ownerProfile?.email || authData?.user?.email || null
     const ownerName = ownerProfile?.display_name || null
 
+    // The debit is confirmed: claim the seats for this PaymentIntent
+    const lostSeats = new Set<string>()
+    if (seat_selections && seat_selections.length > 0) {
+      const { data: converted, error: convertError } = await supabaseAdmin.rpc('convert_seat_hold', {
+        p_payment_intent_id: paymentIntent.id,
+        p_event_id: event_id,
+        p_user_id: user.id,
+        p_seats: seat_selections.map((s) => ({ section_id: s.section_id, seat_id: s.seat_id })),
+      })
+      if (convertError) throw new Error(`Failed to convert seat hold: ${convertError.message}`)
+
+      const conflicts: any[] = converted?.conflicts ?? []
+      if (conflicts.length > 0) {
+        console.warn(`[ach-seats] ${conflicts.length} seat(s) of ${paymentIntent.id} were already sold`)
+        for (const c of conflicts) lostSeats.add(`${c.section_id}/${c.seat_id}`)
+        if (payment) {
+          await supabaseAdmin.from('payments').update({ seat_conflicts: conflicts }).eq('id', payment.id)
+        }
+      }
+    }
+
     const ticketIds: string[] = []
     for (let i = 0; i < quantity; i++) {
       const timestamp = Date.now().toString().substring(7)
       const random = Math.floor(Math.random() * 9999).toString().padStart(4, '0')
       const ticketNumber = `TKT-${timestamp}-${random}`
 
-      // Assign seat data from seat_selections if present
-      const seatData = seat_selections?.[i]
+      // Assign seat data from seat_selections if present (lost seats are issued unseated)
+      const selection = seat_selections?.[i]
+      const seatData = selection && !lostSeats.has(`${selection.section_id}/${selection.seat_id}`) ? selection : null
       const { data: ticket, error: ticketError } = await supabaseAdmin
         .from('tickets')
         .insert({
@@ -329,6 +382,8 @@ serve(async (req) => {
           currency: 'USD',
           status: 'valid',
           sold_by: user.id,
+          stripe_payment_intent_id: paymentIntent.id,
+          purchase_line_index: i,
           ...(seatData && {
             venue_section_id: seatData.section_id,
             seat_id: seatData.seat_id,
@@ -355,15 +410,10 @@ serve(async (req) => {
         .eq('id', payment.id)
     }
 
-    // Clean up seat holds after ticket creation
+    // The seats are sold now; drop the holds that kept them during creation
     if (seat_selections && seat_selections.length > 0) {
-      const seatIds = seat_selections.map((s: any) => s.seat_id)
-      await supabaseAdmin
-        .from('seat_holds')
-        .delete()
-        .eq('event_id', event_id)
-        .in_('seat_id', seatIds)
-      console.log(`Cleaned up ${seatIds.length} seat holds`)
+      const { data: released } = await supabaseAdmin.rpc('finish_seat_hold', { p_payment_intent_id: paymentIntent.id })
+      console.log(`Released ${released ?? 0} seat holds for ${paymentIntent.id}`)
     }
 
     // Enqueue NFT minting if enabled (fire-and-forget)
@@ -386,14 +436,14 @@ serve(async (req) => {
         }
 
         if (buyerWallet?.cardano_address) {
-          // Fire-and-forget mint invocation
+          // Fire-and-forget mint invocation (mints the event's queue as a batch)
           fetch(`${supabaseUrl}/functions/v1/mint-ticket-nft`, {
             method: 'POST',
             headers: {
               'Content-Type': 'application/json',
               'Authorization': `Bearer ${supabaseServiceKey}`,
             },
-            body: JSON.stringify({}),
+            body: JSON.stringify({ event_id }),
           }).catch(err => console.error('mint-ticket-nft invoke failed:', err.message))
         }
       } catch (err) {
@@ -195,29 +195,65 @@ serve(async (req) => {
         { status: 200, headers: { 'Content-Type': 'application/json' } }
       )
     } else if (product.source === 'shopify') {
-      // For Shopify, we create an order record and return the checkout URL
-      // The organizer would need to set up Shopify checkout redirect
-      const { data: order } = await supabase
+      // For Shopify, we create an order record and send the buyer to a cart
+      // permalink. The tickety_order_id cart attribute lets shopify-webhook
+      // link the resulting Shopify order back to this row.
+      const { data: config } = await supabase
+        .from('organizer_merch_config')
+        .select('shopify_domain')
+        .eq('organizer_id', product.organizer_id)
+        .eq('provider', 'shopify')
+        .maybeSingle()
+
+      const variant = variant_id
+        ? product.merch_variants?.find((v: any) => v.id === variant_id)
+        : product.merch_variants?.[0]
+      // Shopify variant IDs are GIDs: gid://shopify/ProductVariant/123
+      const shopifyVariantId = variant?.external_id?.split('/').pop()
+
+      if (!config?.shopify_domain || !shopifyVariantId) {
+        return new Response(JSON.stringify({ error: 'Shopify checkout is not configured for this product' }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        })
+      }
+
+      const { data: order, error: orderError } = await supabase
         .from('merch_orders')
         .insert({
           user_id: user.id,
           organizer_id: product.organizer_id,
           product_id,
-          variant_id: variant_id || null,
+          variant_id: variant?.id ?? null,
           quantity,
           amount_cents: baseCents,
           status: 'pending',
           fulfillment_type: fulfillment_type || 'ship',
           shipping_address: shipping_address || null,
-          shopify_checkout_url: `https://${product.external_id ? '' : ''}shop`, // placeholder
         })
         .select('id')
         .single()
 
+      if (orderError || !order) {
+        console.error('Failed to create merch order:', orderError)
+        return new Response(JSON.stringify({ error: 'Failed to create order' }), {
+          status: 500,
+          headers: { 'Content-Type': 'application/json' },
+        })
+      }
+
+      const checkoutUrl = `https://${config.shopify_domain}/cart/${shopifyVariantId}:${quantity}` +
+        `?${encodeURIComponent('attributes[tickety_order_id]')}=${order.id}`
+
+      await supabase
+        .from('merch_orders')
+        .update({ shopify_checkout_url: checkoutUrl })
+        .eq('id', order.id)
+
       return new Response(
         JSON.stringify({
-          checkout_url: null, // Shopify checkout URL would be generated here
-          order_id: order?.id,
+          checkout_url: checkoutUrl,
+          order_id: order.id,
         }),
         { status: 200, headers: { 'Content-Type': 'application/json' } }
       )
@@ -1,6 +1,21 @@
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
 import Stripe from 'https://esm.sh/stripe@14.21.0'
+import { eventCurrency, normalizeCurrency } from '../_shared/currency.ts'
+import { calculateFees, FEE_SCHEDULE_VERSION, feeScheduleStamp, feeTaxColumns, type FeeBreakdown } from '../_shared/fees.ts'
+import {
+  type AppliedPromo,
+  evaluatePromoCodes,
+  loadOrderLines,
+  lookupPromoCodes,
+  normalizeCodes,
+  type OrderLine,
+  orderTotal,
+  type PromoCodeRow,
+  reservePromoCodes,
+} from '../_shared/promo.ts'
+import { type EventTax, loadEventTax, NO_TAX } from '../_shared/tax.ts'
+import { priceTicketOrder } from '../_shared/ticket-types.ts'
 
 const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY')!, {
   apiVersion: '2023-10-16',
@@ -17,12 +32,17 @@ const corsHeaders = {
 interface PaymentIntentRequest {
   event_id: string
   amount_cents: number
-  currency: string
+  /** Ignored for real events: the charge is always in the event's currency. */
+  currency?: string
   type: 'primary_purchase' | 'resale_purchase' | 'vendor_pos' | 'favor_ticket_purchase'
   user_id: string
   ticket_id?: string
   quantity?: number
+  /** ticket_items, seat info, offer_id, ...; access_codes unlock hidden ticket types. */
   metadata?: Record<string, unknown>
+  /** Entered promo codes; several only when all are stackable. */
+  promo_codes?: string[]
+  /** Older app versions send the id of the one validated code. */
   promo_code_id?: string
   seat_selections?: Array<{
     section_id: string
@@ -34,46 +54,11 @@ interface PaymentIntentRequest {
   }>
 }
 
-// Fee constants — must match client-side ServiceFeeCalculator exactly (v2: mint fee)
-const PLATFORM_FEE_RATE = 0.05
-const STRIPE_FEE_RATE = 0.029
-const STRIPE_FEE_FIXED_CENTS = 30
-const MINT_FEE_CENTS = 25
-
-function calculateFees(baseCents: number) {
-  if (baseCents <= 0) {
-    return {
-      base_cents: 0,
-      platform_fee_cents: 0,
-      mint_fee_cents: 0,
-      stripe_fee_cents: 0,
-      service_fee_cents: 0,
-      total_cents: 0,
-    }
-  }
-
-  const platform_fee_cents = Math.ceil(baseCents * PLATFORM_FEE_RATE)
-  const mint_fee_cents = MINT_FEE_CENTS
-  const subtotal = baseCents + platform_fee_cents + mint_fee_cents
-  const total_cents = Math.ceil((subtotal + STRIPE_FEE_FIXED_CENTS) / (1 - STRIPE_FEE_RATE))
-  const stripe_fee_cents = total_cents - subtotal
-  const service_fee_cents = platform_fee_cents + stripe_fee_cents + mint_fee_cents
-
-  return {
-    base_cents: baseCents,
-    platform_fee_cents,
-    mint_fee_cents,
-    stripe_fee_cents,
-    service_fee_cents,
-    total_cents,
-  }
-}
-
 // Admin client for operations that need to bypass RLS (e.g. inserting payments)
 const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey)
 
 serve(async (req) => {
-  console.log(`[create-payment-intent] BOOT — MINT_FEE_CENTS=${MINT_FEE_CENTS}, PLATFORM_FEE_RATE=${PLATFORM_FEE_RATE}, STRIPE_FEE_RATE=${STRIPE_FEE_RATE}, STRIPE_FEE_FIXED_CENTS=${STRIPE_FEE_FIXED_CENTS}`)
+  console.log(`[create-payment-intent] BOOT — fee schedule ${FEE_SCHEDULE_VERSION}`)
 
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -108,7 +93,9 @@ serve(async (req) => {
     }
 
     const body: PaymentIntentRequest = await req.json()
-    const { event_id, amount_cents, currency = 'usd', type, quantity = 1, metadata, promo_code_id, seat_selections } = body
+    const { event_id, amount_cents, type, quantity = 1, promo_codes, promo_code_id, seat_selections } = body
+    // Codes that unlock hidden ticket types stay out of Stripe and the payment record
+    const { access_codes, ...metadata }: Record<string, unknown> = body.metadata ?? {}
 
     // Validate required fields
     if (!event_id || !amount_cents || !type) {
@@ -120,9 +107,13 @@ serve(async (req) => {
 
     // Allow test event IDs in development (skip database lookup)
     const isTestEvent = event_id.startsWith('test-')
-    let event: { id: string; title: string; price_in_cents?: number; organizer_id?: string } | null = null
+    let event: { id: string; title: string; price_in_cents?: number; organizer_id?: string; currency?: string } | null = null
+    let currency = 'usd'
+    let eventTax: EventTax = NO_TAX
     let promoDiscountCents = 0
     let validatedPromoId: string | null = null
+    let appliedPromos: AppliedPromo[] = []
+    let orderLines: OrderLine[] = []
 
     if (isTestEvent) {
       // Mock event for testing
@@ -132,11 +123,12 @@ serve(async (req) => {
         title: 'Test Event',
         price_in_cents: amount_cents, // Accept any amount for test events
       }
+      currency = normalizeCurrency(body.currency) ?? 'usd'
     } else {
       // Verify event exists and get price info (prevent tampering)
       const { data: eventData, error: eventError } = await supabaseClient
         .from('events')
-        .select('id, title, price_in_cents, organizer_id')
+        .select('id, title, price_in_cents, organizer_id, currency')
         .eq('id', event_id)
         .single()
 
@@ -150,87 +142,95 @@ serve(async (req) => {
         )
       }
       event = eventData
-
-      // Validate promo code if provided
-      if (promo_code_id && type === 'primary_purchase' && event.price_in_cents) {
-        const baseCents = event.price_in_cents * quantity
-        const { data: promoResult, error: promoError } = await supabaseAdmin.rpc('validate_promo_code', {
-          p_event_id: event_id,
-          p_code: '', // not needed — we re-validate by ID below
-          p_user_id: user.id,
-          p_base_price_cents: baseCents,
-          p_ticket_type_id: null,
-        })
-
-        // Re-validate by looking up the code by ID directly
-        const { data: promoCode, error: promoLookupError } = await supabaseAdmin
-          .from('promo_codes')
-          .select('*')
-          .eq('id', promo_code_id)
-          .single()
-
-        if (promoLookupError || !promoCode) {
-          return new Response(
-            JSON.stringify({ error: 'Invalid promo code' }),
-            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-          )
-        }
-
-        // Re-run validation with the actual code
-        const { data: revalidation, error: revalError } = await supabaseAdmin.rpc('validate_promo_code', {
-          p_event_id: event_id,
-          p_code: promoCode.code,
-          p_user_id: user.id,
-          p_base_price_cents: baseCents,
-          p_ticket_type_id: null,
-        })
-
-        if (revalError || !revalidation?.valid) {
-          const errMsg = revalidation?.error || 'Promo code is no longer valid'
-          console.log(`Promo code re-validation failed: ${errMsg}`)
-          return new Response(
-            JSON.stringify({ error: errMsg }),
-            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-          )
-        }
-
-        promoDiscountCents = revalidation.discount_cents
-        validatedPromoId = promo_code_id
-        console.log(`[promo] code=${promoCode.code}, discount=${promoDiscountCents} cents`)
+      currency = eventCurrency(eventData)
+      if (body.currency && normalizeCurrency(body.currency) !== currency) {
+        // An older app priced the order in USD; its total won't match anyway
+        return new Response(
+          JSON.stringify({ error: `This event is priced in ${currency.toUpperCase()}. Please refresh and try again.` }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
       }
+      eventTax = await loadEventTax(supabaseAdmin, event_id)
 
-      // For primary purchases, validate total = fees(sum of ticket prices - promo discount)
+      // For primary purchases, check the ticket types' sales rules and price
+      // the order from the database (tiers included), apply any promo codes,
+      // and check the total = fees(order - promo discount)
       if (type === 'primary_purchase') {
-        let baseCents = 0
-        const ticketItems = metadata?.ticket_items as any[] | undefined
-
-        if (ticketItems && Array.isArray(ticketItems) && ticketItems.length > 0) {
-          // Multi-type purchase: fetch actual ticket type prices from DB
-          const typeIds = ticketItems.map((ti: any) => ti.ticket_type_id)
-          const { data: dbTypes } = await supabaseAdmin
+        let enteredCodes = normalizeCodes(promo_codes ?? [])
+        if (enteredCodes.length === 0 && promo_code_id) {
+          const { data: promoCode } = await supabaseAdmin
+            .from('promo_codes')
+            .select('code')
+            .eq('id', promo_code_id)
+            .maybeSingle()
+          if (!promoCode) {
+            return new Response(
+              JSON.stringify({ error: 'Invalid promo code' }),
+              { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+          }
+          enteredCodes = [promoCode.code]
+        }
+        const promos: PromoCodeRow[] = enteredCodes.length > 0
+          ? await lookupPromoCodes(supabaseAdmin, event_id, enteredCodes, user.id)
+          : []
+
+        const ticketItems = metadata.ticket_items as any[] | undefined
+        if (Array.isArray(ticketItems) && ticketItems.length > 0) {
+          const order = await priceTicketOrder(supabaseAdmin, event_id, ticketItems, {
+            accessCodes: normalizeCodes(access_codes ?? []),
+            promos,
+          })
+          if (!order.valid) {
+            console.log(`[ticket-types] Order refused: ${order.error}`)
+            return new Response(
+              JSON.stringify({ error: order.error }),
+              { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+          }
+          orderLines = order.lines
+          if (orderLines.reduce((sum, l) => sum + l.quantity, 0) !== quantity) {
+            return new Response(
+              JSON.stringify({ error: 'Quantity does not match the selected tickets' }),
+              { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+          }
+        } else {
+          // The flat event price only applies to events without ticket types
+          const { count: typeCount } = await supabaseAdmin
             .from('event_ticket_types')
-            .select('id, price_cents')
-            .in('id', typeIds)
-
-          if (dbTypes) {
-            const priceMap: Record<string, number> = {}
-            for (const dt of dbTypes) {
-              priceMap[dt.id] = dt.price_cents
-            }
-            for (const ti of ticketItems) {
-              const unitPrice = priceMap[ti.ticket_type_id] ?? 0
-              baseCents += unitPrice * (ti.quantity || 1)
-            }
+            .select('id', { count: 'exact', head: true })
+            .eq('event_id', event_id)
+            .eq('is_active', true)
+          if (typeCount) {
+            return new Response(
+              JSON.stringify({ error: 'Select a ticket type' }),
+              { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+          }
+          orderLines = await loadOrderLines(supabaseAdmin, event_id, null, quantity)
+        }
+
+        if (enteredCodes.length > 0) {
+          const promoResult = evaluatePromoCodes(enteredCodes, promos, orderLines)
+          if (!promoResult.valid) {
+            console.log(`Promo code re-validation failed: ${promoResult.error}`)
+            return new Response(
+              JSON.stringify({ error: promoResult.error }),
+              { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
           }
-        } else if (event.price_in_cents) {
-          // Flat price (no ticket types): use event-level price × quantity
-          baseCents = event.price_in_cents * quantity
+          appliedPromos = promoResult.codes
+          promoDiscountCents = promoResult.discount_cents
+          validatedPromoId = appliedPromos[0].promo_code_id
+          console.log(`[promo] codes=${enteredCodes.join(',')}, discount=${promoDiscountCents} cents`)
         }
 
+        let baseCents = orderTotal(orderLines)
         if (baseCents > 0) {
           baseCents -= promoDiscountCents
-          const fees = calculateFees(baseCents)
-          console.log(`[fee-check] baseCents=${baseCents}, promoDiscount=${promoDiscountCents}, MINT_FEE_CENTS=${MINT_FEE_CENTS}, platform=${fees.platform_fee_cents}, mint=${fees.mint_fee_cents}, stripe=${fees.stripe_fee_cents}, total=${fees.total_cents}, client_sent=${amount_cents}`)
+          const fees = calculateFees('card', baseCents, currency, eventTax)
+          console.log(`[fee-check] baseCents=${baseCents}, promoDiscount=${promoDiscountCents}, schedule=${fees.schedule_version}, platform=${fees.platform_fee_cents}, mint=${fees.mint_fee_cents}, stripe=${fees.stripe_fee_cents}, tax=${fees.tax_cents}, total=${fees.total_cents}, client_sent=${amount_cents}`)
           if (amount_cents !== fees.total_cents) {
             console.log(`Price mismatch: expected ${fees.total_cents} (base: ${baseCents}, fee: ${fees.service_fee_cents}), got ${amount_cents}`)
             return new Response(
@@ -250,7 +250,7 @@ serve(async (req) => {
           .single()
 
         if (offer && offer.price_cents > 0) {
-          const fees = calculateFees(offer.price_cents)
+          const fees = calculateFees('card', offer.price_cents, currency, eventTax)
           if (amount_cents !== fees.total_cents) {
             console.log(`Favor price mismatch: expected ${fees.total_cents} (base: ${offer.price_cents}), got ${amount_cents}`)
             return new Response(
@@ -262,6 +262,31 @@ serve(async (req) => {
       }
     }
 
+    // Hold the chosen seats for this buyer (taking over their own earlier
+    // hold) before any money moves; a seat lost to another buyer is a 409
+    let seatHoldId: string | null = null
+    if (seat_selections && seat_selections.length > 0 && !isTestEvent) {
+      if (seat_selections.length !== quantity) {
+        return new Response(
+          JSON.stringify({ error: `Selected ${seat_selections.length} seats for ${quantity} tickets` }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      const { data: hold, error: holdError } = await supabaseAdmin.rpc('hold_seats', {
+        p_event_id: event_id,
+        p_user_id: user.id,
+        p_seats: seat_selections.map((s) => ({ section_id: s.section_id, seat_id: s.seat_id })),
+      })
+      if (holdError) throw new Error(`Failed to hold seats: ${holdError.message}`)
+
+      if (!hold.success) {
+        console.log(`[seats] Hold refused for ${user.id} on ${event_id}: ${JSON.stringify(hold.conflicts ?? hold.error)}`)
+        return seatConflictResponse(hold.error, hold.conflicts ?? [])
+      }
+      seatHoldId = hold.hold_id
+    }
+
     // Get or create Stripe customer (use admin client to bypass RLS)
     const { data: profile, error: profileError } = await supabaseAdmin
       .from('profiles')
@@ -314,9 +339,11 @@ serve(async (req) => {
     console.log('Ephemeral key created, secret length:', ephemeralKey.secret?.length || 0)
 
     // Compute fee breakdown for metadata
-    let fees: ReturnType<typeof calculateFees> | null = null
-    if (type === 'primary_purchase' && event.price_in_cents) {
-      fees = calculateFees(event.price_in_cents * quantity)
+    let fees: FeeBreakdown | null = null
+    if (type === 'primary_purchase' && orderTotal(orderLines) > 0) {
+      fees = calculateFees('card', orderTotal(orderLines) - promoDiscountCents, currency, eventTax)
+    } else if (type === 'primary_purchase' && event.price_in_cents) {
+      fees = calculateFees('card', event.price_in_cents * quantity, currency, eventTax)
     } else if (type === 'favor_ticket_purchase' && metadata?.offer_id) {
       const { data: offerForFees } = await supabaseAdmin
         .from('ticket_offers')
@@ -324,7 +351,7 @@ serve(async (req) => {
         .eq('id', metadata.offer_id)
         .single()
       if (offerForFees && offerForFees.price_cents > 0) {
-        fees = calculateFees(offerForFees.price_cents)
+        fees = calculateFees('card', offerForFees.price_cents, currency, eventTax)
       }
     }
 
@@ -344,6 +371,12 @@ serve(async (req) => {
       piMetadata.service_fee_cents = String(fees.service_fee_cents)
       piMetadata.platform_fee_cents = String(fees.platform_fee_cents)
       piMetadata.stripe_fee_cents = String(fees.stripe_fee_cents)
+      piMetadata.fee_schedule = fees.schedule
+      piMetadata.fee_schedule_version = fees.schedule_version
+      if (fees.tax_cents > 0) {
+        piMetadata.tax_cents = String(fees.tax_cents)
+        piMetadata.tax_inclusive = String(fees.tax!.inclusive)
+      }
     }
     // Add promo code metadata
     if (validatedPromoId) {
@@ -351,10 +384,8 @@ serve(async (req) => {
       piMetadata.promo_discount_cents = String(promoDiscountCents)
     }
     // Spread additional metadata (e.g. offer_id)
-    if (metadata) {
-      for (const [k, v] of Object.entries(metadata)) {
-        piMetadata[k] = String(v)
-      }
+    for (const [k, v] of Object.entries(metadata)) {
+      piMetadata[k] = String(v)
     }
 
     // Create PaymentIntent
@@ -370,6 +401,41 @@ serve(async (req) => {
       idempotencyKey,
     })
 
+    // Tie the hold to this PaymentIntent; if it lapsed in the meantime the
+    // seats may be gone, so the intent is cancelled rather than left payable
+    if (seatHoldId) {
+      const { data: attached, error: attachError } = await supabaseAdmin.rpc('attach_seat_hold_payment', {
+        p_hold_id: seatHoldId,
+        p_user_id: user.id,
+        p_payment_intent_id: paymentIntent.id,
+      })
+      if (attachError || !attached?.success) {
+        console.log(`[seats] Hold ${seatHoldId} lost before ${paymentIntent.id}: ${attachError?.message ?? attached?.error}`)
+        await stripe.paymentIntents.cancel(paymentIntent.id)
+        return seatConflictResponse('Seat hold expired. Please select your seats again.', [])
+      }
+    }
+
+    // Hold the promo uses for this PaymentIntent; a limit reached since
+    // validation cancels it
+    if (appliedPromos.length > 0) {
+      const promoError = await reservePromoCodes(supabaseAdmin, {
+        paymentIntentId: paymentIntent.id,
+        eventId: event_id,
+        userId: user.id,
+        lines: orderLines,
+        applied: appliedPromos,
+      })
+      if (promoError) {
+        console.log(`[promo] Reservation refused for ${paymentIntent.id}: ${promoError}`)
+        await stripe.paymentIntents.cancel(paymentIntent.id)
+        return new Response(
+          JSON.stringify({ error: promoError }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+    }
+
     // Create pending payment record (use admin client to bypass RLS)
     const { data: payment, error: paymentError } = await supabaseAdmin
       .from('payments')
@@ -382,12 +448,15 @@ serve(async (req) => {
         type,
         stripe_payment_intent_id: paymentIntent.id,
         platform_fee_cents: fees ? fees.service_fee_cents : 0,
+        ...(fees && feeScheduleStamp(fees)),
+        ...(fees && feeTaxColumns(fees)),
         ...(validatedPromoId && { promo_code_id: validatedPromoId }),
         ...(seat_selections && { seat_selections }),
         metadata: {
           event_title: event.title,
           ...(fees && { fee_breakdown: fees }),
           ...(promoDiscountCents > 0 && { promo_discount_cents: promoDiscountCents }),
+          ...(appliedPromos.length > 1 && { promo_codes: appliedPromos }),
           ...metadata,
         },
       })
@@ -399,21 +468,6 @@ serve(async (req) => {
       // Continue anyway - webhook will handle the rest
     }
 
-    // Redeem promo code after payment record is created
-    if (validatedPromoId && payment) {
-      const { data: redeemed, error: redeemError } = await supabaseAdmin.rpc('redeem_promo_code', {
-        p_promo_code_id: validatedPromoId,
-        p_user_id: user.id,
-        p_payment_id: payment.id,
-        p_discount_cents: promoDiscountCents,
-      })
-      if (redeemError) {
-        console.error('Failed to redeem promo code (non-blocking):', redeemError)
-      } else {
-        console.log(`[promo] Redeemed promo ${validatedPromoId} for payment ${payment.id}`)
-      }
-    }
-
     return new Response(
       JSON.stringify({
         payment_intent_id: paymentIntent.id,
@@ -422,6 +476,7 @@ serve(async (req) => {
         ephemeral_key: ephemeralKey.secret,
         payment_id: payment?.id,
         ...(fees && { fee_breakdown: fees }),
+        ...(seatHoldId && { seat_hold_id: seatHoldId }),
         _debug: {
           profile_customer_id: profile?.stripe_customer_id || 'NULL',
           profile_error: profileError?.message || 'none',
@@ -444,3 +499,10 @@ serve(async (req) => {
     )
   }
 })
+
+function seatConflictResponse(error: string, conflicts: unknown[]) {
+  return new Response(
+    JSON.stringify({ error, code: 'seat_conflict', conflicts }),
+    { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
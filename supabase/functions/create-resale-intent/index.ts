@@ -1,6 +1,17 @@
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
 import Stripe from 'https://esm.sh/stripe@14.21.0'
+import { eventCurrency } from '../_shared/currency.ts'
+import { calculateFees, feeScheduleStamp } from '../_shared/fees.ts'
+import {
+  checkResalePrice,
+  checkResaleWindow,
+  faceValueCents,
+  resalePolicyOf,
+  resalePriceLimits,
+  resaleRoyaltyCents,
+} from '../_shared/resale-policy.ts'
+import { checkWaitlistHold } from '../_shared/waitlist.ts'
 
 const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY')!, {
   apiVersion: '2023-10-16',
@@ -9,9 +20,6 @@ const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY')!, {
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
 
-// Platform fee percentage (5%)
-const PLATFORM_FEE_PERCENT = 0.05
-
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
@@ -20,7 +28,8 @@ const corsHeaders = {
 interface ResaleIntentRequest {
   resale_listing_id: string
   amount_cents: number
-  currency: string
+  /** Ignored: resales are charged in the event's currency. */
+  currency?: string
   user_id: string
 }
 
@@ -72,7 +81,7 @@ serve(async (req) => {
     }
 
     const body: ResaleIntentRequest = await req.json()
-    const { resale_listing_id, amount_cents, currency = 'usd' } = body
+    const { resale_listing_id, amount_cents } = body
 
     if (!resale_listing_id || !amount_cents) {
       return new Response(
@@ -89,7 +98,7 @@ serve(async (req) => {
       .from('resale_listings')
       .select(`
         *,
-        tickets(*, events(*))
+        tickets(*, events(*), event_ticket_types(price_cents))
       `)
       .eq('id', resale_listing_id)
       .single()
@@ -104,19 +113,6 @@ serve(async (req) => {
       )
     }
 
-    // Get seller's Stripe Connect account from profiles (separate query)
-    // Only use legacy account if fully onboarded (has transfers capability)
-    const { data: sellerProfile } = await supabaseAdmin
-      .from('profiles')
-      .select('stripe_connect_account_id, stripe_connect_onboarded')
-      .eq('id', listing.seller_id)
-      .single()
-
-    const legacyAccountId = sellerProfile?.stripe_connect_onboarded
-      ? sellerProfile.stripe_connect_account_id
-      : null
-    console.log(`Seller profile lookup:`, { sellerId: listing.seller_id, legacyAccount: legacyAccountId, onboarded: sellerProfile?.stripe_connect_onboarded })
-
     // Verify listing is still active
     if (listing.status !== 'active') {
       return new Response(
@@ -133,14 +129,32 @@ serve(async (req) => {
       )
     }
 
-    // Get seller's Stripe account - check seller_balances first (new flow), then profiles (legacy)
-    const { data: sellerBalance } = await supabaseAdmin
-      .from('seller_balances')
-      .select('stripe_account_id')
-      .eq('user_id', listing.seller_id)
-      .single()
+    // The organizer's resale policy may have changed since the ticket was
+    // listed, so check the window and price again before charging
+    const event = listing.tickets.events
+    const policy = resalePolicyOf(event)
+    const policyError = checkResaleWindow(event?.date, policy) ??
+      checkResalePrice(amount_cents, resalePriceLimits(
+        faceValueCents(listing.tickets, listing.tickets.event_ticket_types, event),
+        policy,
+      ))
+    if (policyError) {
+      return new Response(
+        JSON.stringify({ error: policyError }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
 
-    const sellerAccountId = sellerBalance?.stripe_account_id || legacyAccountId
+    // A listing held for a waitlist claim window sells only to its holder
+    const holdError = checkWaitlistHold(listing, user.id)
+    if (holdError) {
+      return new Response(
+        JSON.stringify({ error: holdError }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const sellerAccountId = await connectAccountFor(supabaseAdmin, listing.seller_id)
 
     // Verify seller has a Stripe account (no longer require full onboarding!)
     if (!sellerAccountId) {
@@ -158,8 +172,11 @@ serve(async (req) => {
       )
     }
 
-    // Calculate platform fee (5%)
-    let platformFeeCents = Math.round(amount_cents * PLATFORM_FEE_PERCENT)
+    // Resale schedule: platform fee is withheld from the seller's proceeds.
+    // Resales settle in the currency the event was priced in.
+    const currency = eventCurrency(listing.tickets.events)
+    const fees = calculateFees('resale', amount_cents, currency)
+    let platformFeeCents = fees.platform_fee_cents
 
     // Check for referral discount on buyer
     let discountCents = 0
@@ -179,6 +196,18 @@ serve(async (req) => {
       console.log(`Referral discount applied: discount=${discountCents}c, effective fee=${platformFeeCents}c, referrer earns=${referrerEarningCents}c`)
     }
 
+    // Organizer royalty comes out of the seller's proceeds. Without a payout
+    // account for the organizer there is nowhere to send it, so the seller
+    // keeps it rather than the platform holding it.
+    let royaltyCents = resaleRoyaltyCents(amount_cents, policy)
+    const organizerAccountId = royaltyCents > 0 && event?.organizer_id
+      ? await connectAccountFor(supabaseAdmin, event.organizer_id)
+      : null
+    if (royaltyCents > 0 && !organizerAccountId) {
+      console.warn(`Organizer ${event?.organizer_id} has no payout account, royalty of ${royaltyCents}c not withheld`)
+      royaltyCents = 0
+    }
+
     // Get or create Stripe customer for buyer
     const { data: buyerProfile } = await supabaseAdmin
       .from('profiles')
@@ -213,7 +242,7 @@ serve(async (req) => {
     // then create a Transfer to the seller in the webhook after payment succeeds.
     // This avoids requiring active `transfers` capability on the seller's
     // Express account at charge time (capability may still be pending verification).
-    const sellerAmountCents = amount_cents - platformFeeCents
+    const sellerAmountCents = amount_cents - platformFeeCents - royaltyCents
     const paymentIntent = await stripe.paymentIntents.create({
       amount: amount_cents,
       currency,
@@ -231,11 +260,17 @@ serve(async (req) => {
         platform_fee_cents: platformFeeCents.toString(),
         seller_amount_cents: sellerAmountCents.toString(),
         seller_account_id: sellerAccountId,
+        ...(royaltyCents > 0 && {
+          royalty_cents: royaltyCents.toString(),
+          organizer_account_id: organizerAccountId,
+        }),
+        ...feeScheduleStamp(fees),
       },
       // Webhook will:
       // 1. Transfer seller_amount_cents to seller's Stripe account
-      // 2. Platform keeps platform_fee_cents
-      // 3. Seller can withdraw when they add bank details
+      // 2. Transfer royalty_cents to the organizer's Stripe account
+      // 3. Platform keeps platform_fee_cents
+      // 4. Seller can withdraw when they add bank details
     })
 
     // Create pending payment record
@@ -247,10 +282,12 @@ serve(async (req) => {
         ticket_id: listing.ticket_id,
         amount_cents,
         platform_fee_cents: platformFeeCents,
+        resale_royalty_cents: royaltyCents,
         currency,
         status: 'pending',
         type: 'resale_purchase',
         stripe_payment_intent_id: paymentIntent.id,
+        ...feeScheduleStamp(fees),
         metadata: {
           resale_listing_id,
           seller_id: listing.seller_id,
@@ -296,7 +333,7 @@ serve(async (req) => {
     }
 
     console.log(`Created resale payment intent ${paymentIntent.id} for listing ${resale_listing_id}`)
-    console.log(`Platform fee: ${platformFeeCents} cents, Seller receives: ${amount_cents - platformFeeCents} cents`)
+    console.log(`Platform fee: ${platformFeeCents} cents, Royalty: ${royaltyCents} cents, Seller receives: ${sellerAmountCents} cents`)
 
     return new Response(
       JSON.stringify({
@@ -306,7 +343,8 @@ serve(async (req) => {
         ephemeral_key: ephemeralKey.secret,
         payment_id: payment?.id,
         platform_fee_cents: platformFeeCents,
-        seller_amount_cents: amount_cents - platformFeeCents,
+        royalty_cents: royaltyCents,
+        seller_amount_cents: sellerAmountCents,
       }),
       {
         status: 200,
@@ -322,3 +360,25 @@ serve(async (req) => {
     )
   }
 })
+
+/**
+ * A user's Stripe Connect account for payouts: the seller_balances account
+ * (new flow) or, failing that, a fully onboarded legacy account from
+ * profiles (only those have the transfers capability).
+ */
+async function connectAccountFor(supabaseAdmin: any, userId: string): Promise<string | null> {
+  const { data: balance } = await supabaseAdmin
+    .from('seller_balances')
+    .select('stripe_account_id')
+    .eq('user_id', userId)
+    .maybeSingle()
+  if (balance?.stripe_account_id) return balance.stripe_account_id
+
+  const { data: profile } = await supabaseAdmin
+    .from('profiles')
+    .select('stripe_connect_account_id, stripe_connect_onboarded')
+    .eq('id', userId)
+    .single()
+  console.log(`Connect account lookup:`, { userId, legacyAccount: profile?.stripe_connect_account_id, onboarded: profile?.stripe_connect_onboarded })
+  return profile?.stripe_connect_onboarded ? profile.stripe_connect_account_id : null
+}
@@ -1,6 +1,7 @@
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0'
 import Stripe from 'https://esm.sh/stripe@14.21.0'
+import { eventCurrency } from '../_shared/currency.ts'
 
 const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY') ?? '', {
   apiVersion: '2023-10-16',
@@ -136,7 +137,7 @@ serve(async (req) => {
     // Create payment intent
     const paymentIntentParams: Stripe.PaymentIntentCreateParams = {
       amount: amount_cents,
-      currency: 'usd',
+      currency: eventCurrency(event),
       customer: stripeCustomerId,
       metadata: {
         pending_payment_id,
@@ -1,6 +1,7 @@
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
 import Stripe from 'https://esm.sh/stripe@14.21.0'
+import { calculateFees, feeScheduleStamp } from '../_shared/fees.ts'
 
 const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY')!, {
   apiVersion: '2023-10-16',
@@ -14,11 +15,6 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
-// ACH fee: 0.8% capped at $5
-function calculateAchFee(amountCents: number): number {
-  return Math.min(Math.ceil(amountCents * 0.008), 500)
-}
-
 const MIN_TOP_UP_CENTS = 500  // $5 minimum
 const MAX_TOP_UP_CENTS = 200000  // $2,000 maximum
 
@@ -100,8 +96,9 @@ serve(async (req) => {
     }
 
     // Calculate fees
-    const achFeeCents = calculateAchFee(amount_cents)
-    const totalChargeCents = amount_cents + achFeeCents
+    const fees = calculateFees('wallet_top_up', amount_cents)
+    const achFeeCents = fees.ach_fee_cents
+    const totalChargeCents = fees.total_cents
     const creditAmountCents = amount_cents  // User gets the full amount they requested
 
     // Get Stripe customer ID
@@ -140,6 +137,7 @@ serve(async (req) => {
         type: 'wallet_top_up',
         credit_amount_cents: String(creditAmountCents),
         ach_fee_cents: String(achFeeCents),
+        ...feeScheduleStamp(fees),
       },
     })
 
@@ -214,6 +212,7 @@ serve(async (req) => {
         status: 'processing',
         type: 'wallet_top_up',
         stripe_payment_intent_id: paymentIntent.id,
+        ...feeScheduleStamp(fees),
         metadata: {
           credit_amount_cents: creditAmountCents,
           ach_fee_cents: achFeeCents,
@@ -17,9 +17,14 @@ const corsHeaders = {
 /**
  * Fetches the seller's balance from Stripe and caches it in the database.
  *
+ * Sellers are paid in the currency each event was priced in, so a Stripe
+ * balance can hold several currencies. Every currency is cached in
+ * seller_currency_balances; the top-level amounts stay USD for older apps.
+ *
  * Returns:
- * - available_balance_cents: Funds ready for withdrawal
- * - pending_balance_cents: Funds not yet available (in transit)
+ * - balances: [{ currency, available_cents, pending_cents }], USD first
+ * - available_balance_cents: USD funds ready for withdrawal
+ * - pending_balance_cents: USD funds not yet available (in transit)
  * - payouts_enabled: Whether seller can withdraw (has added bank details)
  * - details_submitted: Whether seller has completed full verification
  * - needs_onboarding: Whether seller needs to complete Stripe onboarding to withdraw
@@ -68,6 +73,7 @@ serve(async (req) => {
           has_account: false,
           available_balance_cents: 0,
           pending_balance_cents: 0,
+          balances: [],
           payouts_enabled: false,
           details_submitted: false,
           needs_onboarding: true,
@@ -87,12 +93,19 @@ serve(async (req) => {
       stripe.balance.retrieve({ stripeAccount: accountId }),
     ])
 
-    // Extract USD balance (or default currency)
-    const availableBalance = balance.available.find(b => b.currency === 'usd')
-    const pendingBalance = balance.pending.find(b => b.currency === 'usd')
+    // One entry per currency the account holds, USD first
+    const byCurrency = new Map<string, { currency: string; available_cents: number; pending_cents: number }>()
+    const entry = (currency: string) => {
+      if (!byCurrency.has(currency)) byCurrency.set(currency, { currency, available_cents: 0, pending_cents: 0 })
+      return byCurrency.get(currency)!
+    }
+    for (const b of balance.available) entry(b.currency).available_cents += b.amount
+    for (const b of balance.pending) entry(b.currency).pending_cents += b.amount
+    const balances = [...byCurrency.values()]
+      .sort((a, b) => (a.currency === 'usd' ? -1 : b.currency === 'usd' ? 1 : a.currency.localeCompare(b.currency)))
 
-    const availableCents = availableBalance?.amount ?? 0
-    const pendingCents = pendingBalance?.amount ?? 0
+    const availableCents = byCurrency.get('usd')?.available_cents ?? 0
+    const pendingCents = byCurrency.get('usd')?.pending_cents ?? 0
     const payoutsEnabled = account.payouts_enabled ?? false
     const detailsSubmitted = account.details_submitted ?? false
 
@@ -113,6 +126,14 @@ serve(async (req) => {
       // Don't fail the request - we still have the data from Stripe
     }
 
+    const { error: currencyError } = await supabaseAdmin.rpc('sync_seller_currency_balances', {
+      p_user_id: user.id,
+      p_balances: balances,
+    })
+    if (currencyError) {
+      console.error('Failed to cache per-currency balances:', currencyError)
+    }
+
     // Also update the legacy profiles flag for backwards compatibility
     if (payoutsEnabled && account.charges_enabled) {
       await supabaseAdmin
@@ -121,13 +142,14 @@ serve(async (req) => {
         .eq('id', user.id)
     }
 
-    console.log(`Fetched balance for user ${user.id}: available=${availableCents}, pending=${pendingCents}`)
+    console.log(`Fetched balance for user ${user.id}: ${balances.map((b) => `${b.currency} available=${b.available_cents} pending=${b.pending_cents}`).join(', ') || 'empty'}`)
 
     return new Response(
       JSON.stringify({
         has_account: true,
         available_balance_cents: availableCents,
         pending_balance_cents: pendingCents,
+        balances,
         payouts_enabled: payoutsEnabled,
         details_submitted: detailsSubmitted,
         needs_onboarding: !payoutsEnabled,
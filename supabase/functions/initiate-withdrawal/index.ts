@@ -1,6 +1,7 @@
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
 import Stripe from 'https://esm.sh/stripe@14.21.0'
+import { DEFAULT_CURRENCY, normalizeCurrency } from '../_shared/currency.ts'
 
 const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY')!, {
   apiVersion: '2023-10-16',
@@ -20,6 +21,7 @@ const corsHeaders = {
 
 interface WithdrawalRequest {
   amount_cents?: number // Optional: if not provided, withdraw full available balance
+  currency?: string // Balance to withdraw from; defaults to USD
 }
 
 /**
@@ -33,7 +35,11 @@ interface WithdrawalRequest {
  * - needs_onboarding: true if seller needs to add bank details first
  * - onboarding_url: URL to redirect to for adding bank details
  * - payout_id: Stripe payout ID if successful
- * - amount_cents: Amount being withdrawn
+ * - amount_cents: Amount being withdrawn, in minor units of `currency`
+ * - currency: The balance the payout came from
+ *
+ * A seller holding several currencies withdraws each one separately; every
+ * payout is recorded in seller_payouts.
  */
 serve(async (req) => {
   // Handle CORS preflight
@@ -67,6 +73,13 @@ serve(async (req) => {
 
     // Parse request body
     const body: WithdrawalRequest = await req.json().catch(() => ({}))
+    const currency = body.currency === undefined ? DEFAULT_CURRENCY : normalizeCurrency(body.currency)
+    if (!currency) {
+      return new Response(
+        JSON.stringify({ error: 'Unsupported currency.' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
 
     // Get seller's Stripe account ID
     const { data: sellerBalance } = await supabaseAdmin
@@ -137,12 +150,12 @@ serve(async (req) => {
 
     // Fetch the current balance
     const balance = await stripe.balance.retrieve({ stripeAccount: accountId })
-    const availableBalance = balance.available.find(b => b.currency === 'usd')
+    const availableBalance = balance.available.find(b => b.currency === currency)
     const availableCents = availableBalance?.amount ?? 0
 
     if (availableCents <= 0) {
       return new Response(
-        JSON.stringify({ error: 'No funds available for withdrawal.' }),
+        JSON.stringify({ error: `No ${currency.toUpperCase()} funds available for withdrawal.` }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       )
     }
@@ -163,7 +176,7 @@ serve(async (req) => {
     const payout = await stripe.payouts.create(
       {
         amount: withdrawAmount,
-        currency: 'usd',
+        currency,
         description: 'Tickety earnings withdrawal',
         metadata: {
           supabase_user_id: user.id,
@@ -175,17 +188,33 @@ serve(async (req) => {
       }
     )
 
-    console.log(`Initiated payout ${payout.id} for user ${user.id}: ${withdrawAmount} cents`)
+    console.log(`Initiated payout ${payout.id} for user ${user.id}: ${withdrawAmount} ${currency}`)
+
+    await supabaseAdmin.from('seller_payouts').insert({
+      user_id: user.id,
+      stripe_payout_id: payout.id,
+      amount_cents: withdrawAmount,
+      currency,
+      status: payout.status,
+      arrival_date: payout.arrival_date ? new Date(payout.arrival_date * 1000).toISOString() : null,
+    })
 
     // Update the cached balance
     const newAvailableCents = availableCents - withdrawAmount
     await supabaseAdmin
-      .from('seller_balances')
-      .update({
-        available_balance_cents: newAvailableCents,
-        last_synced_at: new Date().toISOString(),
-      })
+      .from('seller_currency_balances')
+      .update({ available_cents: newAvailableCents, last_synced_at: new Date().toISOString() })
       .eq('user_id', user.id)
+      .eq('currency', currency)
+    if (currency === DEFAULT_CURRENCY) {
+      await supabaseAdmin
+        .from('seller_balances')
+        .update({
+          available_balance_cents: newAvailableCents,
+          last_synced_at: new Date().toISOString(),
+        })
+        .eq('user_id', user.id)
+    }
 
     return new Response(
       JSON.stringify({
@@ -193,6 +222,7 @@ serve(async (req) => {
         needs_onboarding: false,
         payout_id: payout.id,
         amount_cents: withdrawAmount,
+        currency,
         estimated_arrival: payout.arrival_date
           ? new Date(payout.arrival_date * 1000).toISOString()
           : null,
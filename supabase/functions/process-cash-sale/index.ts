@@ -1,6 +1,9 @@
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
 import Stripe from 'https://esm.sh/stripe@14.21.0'
+import { eventCurrency } from '../_shared/currency.ts'
+import { calculateFees, feeScheduleStamp, feeTaxColumns } from '../_shared/fees.ts'
+import { loadEventTax } from '../_shared/tax.ts'
 import { crypto } from 'https://deno.land/std@0.177.0/crypto/mod.ts'
 
 const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY')!, {
@@ -10,9 +13,6 @@ const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY')!, {
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
 
-// Platform fee percentage (5%) - same as resale
-const PLATFORM_FEE_PERCENT = 0.05
-
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
@@ -104,7 +104,7 @@ serve(async (req) => {
     // 1. Get event and verify cash sales are enabled
     const { data: event, error: eventError } = await supabaseAdmin
       .from('events')
-      .select('id, title, organizer_id, cash_sales_enabled, organizer_stripe_customer_id, organizer_payment_method_id, price_in_cents')
+      .select('id, title, organizer_id, cash_sales_enabled, organizer_stripe_customer_id, organizer_payment_method_id, price_in_cents, currency')
       .eq('id', event_id)
       .single()
 
@@ -184,8 +184,12 @@ serve(async (req) => {
       }
     }
 
-    // Calculate platform fee (5%)
-    const platformFeeCents = Math.round(amount_cents * PLATFORM_FEE_PERCENT)
+    // Cash schedule: platform fee is billed to the organizer, not the buyer,
+    // in the event's currency. Tax quoted on top of the price is collected
+    // at the door along with it.
+    const currency = eventCurrency(event)
+    const fees = calculateFees('cash', amount_cents, currency, await loadEventTax(supabaseAdmin, event_id))
+    const platformFeeCents = fees.platform_fee_cents
 
     // Generate ticket number
     const ticketNumber = generateTicketNumber()
@@ -208,7 +212,7 @@ serve(async (req) => {
         owner_email: customer_email || null,
         owner_name: customer_name || null,
         price_paid_cents: amount_cents,
-        currency: 'USD',
+        currency: currency.toUpperCase(),
         sold_by: user.id,
         status: 'valid',
         payment_method: 'cash',
@@ -240,7 +244,7 @@ serve(async (req) => {
         // Create a PaymentIntent for the platform fee
         const paymentIntent = await stripe.paymentIntents.create({
           amount: platformFeeCents,
-          currency: 'usd',
+          currency,
           customer: event.organizer_stripe_customer_id,
           payment_method: event.organizer_payment_method_id,
           off_session: true,
@@ -253,6 +257,7 @@ serve(async (req) => {
             ticket_number: ticketNumber,
             sale_amount_cents: amount_cents.toString(),
             seller_id: user.id,
+            ...feeScheduleStamp(fees),
           },
         })
 
@@ -287,7 +292,8 @@ serve(async (req) => {
         ticket_id: ticket.id,
         amount_cents,
         platform_fee_cents: platformFeeCents,
-        currency: 'USD',
+        ...feeTaxColumns(fees),
+        currency: currency.toUpperCase(),
         status: 'pending', // Will be marked 'collected' when organizer confirms
         fee_charged: feeCharged,
         fee_payment_intent_id: feePaymentIntentId,
@@ -366,6 +372,9 @@ serve(async (req) => {
         event_id,
         event_title: event.title,
         amount_cents,
+        tax_cents: fees.tax_cents,
+        // What to collect from the customer
+        total_due_cents: fees.total_cents,
         customer_name,
         customer_email,
         delivery_method,
@@ -1,6 +1,7 @@
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
 import Stripe from 'https://esm.sh/stripe@14.21.0'
+import { policyRefundPercent, policyRefundsFees, refundPolicyOf, ticketRefundAmount } from '../_shared/refunds.ts'
 
 const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY')!, {
   apiVersion: '2023-10-16',
@@ -14,9 +15,50 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+// Refunds tickets on a payment, all of them or some.
+//
+//   { payment_id?, ticket_ids?, percent?, include_fees?, reason? }
+//       refunds the given tickets, or every ticket still standing on the
+//       payment; without payment_id, the tickets' own payment. The
+//       organizer and event admins refund straight away, at `percent` of
+//       the ticket price (default 100) with or without the ticket's share
+//       of the service fee (default with). A buyer's own
+//       request is approved at whatever the event's refund policy gives
+//       (everything while a reschedule's refund window is open), or queued
+//       for the organizer when the policy gives nothing.
+//   { refund_request_ids, decision: 'approve' | 'decline', percent?, include_fees?, reason? }
+//       the organizer deciding queued requests
+//
+// The admin dashboard calls with the service role key and names the
+// platform admin in `admin_user_id`.
+
 interface RefundRequest {
-  payment_id: string
+  payment_id?: string
+  ticket_ids?: string[]
+  refund_request_ids?: string[]
+  decision?: 'approve' | 'decline'
+  percent?: number
+  include_fees?: boolean
   reason?: string
+  admin_user_id?: string
+}
+
+interface Caller {
+  userId: string
+  isPlatformAdmin: boolean
+}
+
+const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey)
+
+/** A refund that can't go ahead as asked; answered with `status`. */
+class RefundRejected extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.name = 'RefundRejected'
+    this.status = status
+  }
 }
 
 serve(async (req) => {
@@ -26,161 +68,466 @@ serve(async (req) => {
   }
 
   try {
-    // Verify authentication
     const authHeader = req.headers.get('Authorization')
     if (!authHeader) {
-      return new Response(
-        JSON.stringify({ error: 'Missing authorization header' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+      return jsonResponse({ error: 'Missing authorization header' }, 401)
     }
 
-    // Create Supabase client with service role for full access
-    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey)
-
-    // Verify the user is authenticated
-    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(
-      authHeader.replace('Bearer ', '')
-    )
+    const body: RefundRequest = await req.json()
 
-    if (authError || !user) {
-      return new Response(
-        JSON.stringify({ error: 'Invalid authentication' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    let caller: Caller
+    if (authHeader === `Bearer ${supabaseServiceKey}`) {
+      if (!body.admin_user_id) {
+        return jsonResponse({ error: 'Missing admin_user_id' }, 400)
+      }
+      caller = { userId: body.admin_user_id, isPlatformAdmin: true }
+    } else {
+      const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(
+        authHeader.replace('Bearer ', '')
       )
+      if (authError || !user) {
+        return jsonResponse({ error: 'Invalid authentication' }, 401)
+      }
+      caller = { userId: user.id, isPlatformAdmin: false }
     }
 
-    const body: RefundRequest = await req.json()
-    const { payment_id, reason } = body
-
-    if (!payment_id) {
-      return new Response(
-        JSON.stringify({ error: 'Missing payment_id' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+    if (body.percent != null && !(Number.isInteger(body.percent) && body.percent >= 1 && body.percent <= 100)) {
+      return jsonResponse({ error: 'percent must be a whole number from 1 to 100' }, 400)
     }
 
-    // Get the payment record
-    const { data: payment, error: paymentError } = await supabaseAdmin
-      .from('payments')
-      .select('*, events(organizer_id)')
-      .eq('id', payment_id)
-      .single()
+    if (body.refund_request_ids?.length) {
+      return jsonResponse(await decideRequests(body, caller))
+    }
 
-    if (paymentError || !payment) {
-      return new Response(
-        JSON.stringify({ error: 'Payment not found' }),
-        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+    if (!body.payment_id && body.ticket_ids?.length) {
+      body.payment_id = await paymentForTicket(body.ticket_ids[0])
+      if (!body.payment_id) {
+        return jsonResponse({ error: 'No card payment found for this ticket' }, 400)
+      }
+    }
+    if (!body.payment_id) {
+      return jsonResponse({ error: 'Missing payment_id' }, 400)
+    }
+    return jsonResponse(await refundPayment(body, caller))
+  } catch (error) {
+    if (error instanceof RefundRejected) {
+      return jsonResponse({ error: error.message }, error.status)
     }
 
-    // Check if already refunded
-    if (payment.status === 'refunded') {
-      return new Response(
-        JSON.stringify({ error: 'Payment already refunded' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+    console.error('Error processing refund:', error)
+
+    // Handle Stripe-specific errors
+    if (error.type === 'StripeCardError' || error.type === 'StripeInvalidRequestError') {
+      return jsonResponse({ error: error.message }, 400)
     }
 
-    // Verify user has permission (must be payment owner or event organizer)
-    const isOwner = payment.user_id === user.id
-    const isOrganizer = payment.events?.organizer_id === user.id
+    return jsonResponse({ error: error.message || 'Failed to process refund' }, 500)
+  }
+})
+
+async function refundPayment(body: RefundRequest, caller: Caller) {
+  const payment = await loadPayment(body.payment_id!)
 
-    // Check if user is admin/organizer staff for the event
-    const { data: staffRecord } = await supabaseAdmin
-      .from('event_staff')
-      .select('role')
-      .eq('event_id', payment.event_id)
-      .eq('user_id', user.id)
-      .single()
+  const isOwner = payment.user_id === caller.userId
+  const isManager = await canManageEvent(payment, caller)
+  if (!isOwner && !isManager) {
+    throw new RefundRejected('You do not have permission to refund this payment', 403)
+  }
 
-    const isAdmin = staffRecord?.role === 'admin'
+  const tickets = await paymentTickets(payment)
+  if (tickets.length === 0) {
+    // Payments that never issued tickets (e.g. vendor sales) go back whole
+    return await refundWholePayment(payment, caller, body.reason)
+  }
 
-    if (!isOwner && !isOrganizer && !isAdmin) {
-      return new Response(
-        JSON.stringify({ error: 'You do not have permission to refund this payment' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+  // By default, every ticket the buyer still holds; resold ones went with
+  // their own payment
+  let selected = tickets.filter((t) => t.status !== 'refunded' && t.sold_by === payment.user_id)
+  if (body.ticket_ids?.length) {
+    selected = tickets.filter((t) => body.ticket_ids!.includes(t.id))
+    if (selected.length !== new Set(body.ticket_ids).size) {
+      throw new RefundRejected('Some tickets are not part of this payment')
     }
+    if (selected.some((t) => t.status === 'refunded')) {
+      throw new RefundRejected('Ticket already refunded')
+    }
+  }
+  if (selected.length === 0) {
+    throw new RefundRejected('Payment already refunded')
+  }
 
-    // Check if payment has a Stripe charge to refund
-    if (!payment.stripe_payment_intent_id) {
-      return new Response(
-        JSON.stringify({ error: 'No Stripe payment associated with this record' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+  if (isManager) {
+    return await executeRefund(payment, tickets, selected, {
+      percent: body.percent ?? 100,
+      includeFees: body.include_fees ?? true,
+      decidedBy: caller.userId,
+      requestedBy: caller.userId,
+      reason: body.reason,
+    })
+  }
+
+  // Self-service: the buyer can only return tickets they still hold unused
+  for (const ticket of selected) {
+    if (ticket.sold_by !== payment.user_id) {
+      throw new RefundRejected('This ticket now belongs to someone else', 403)
     }
+    if (ticket.status !== 'valid') {
+      throw new RefundRejected('Only unused tickets can be refunded')
+    }
+    if (ticket.listing_status === 'listed') {
+      throw new RefundRejected('Take the ticket off resale before asking for a refund')
+    }
+  }
 
-    // Create Stripe refund
-    const refund = await stripe.refunds.create({
-      payment_intent: payment.stripe_payment_intent_id,
-      reason: reason === 'duplicate' ? 'duplicate' :
-              reason === 'fraudulent' ? 'fraudulent' :
-              'requested_by_customer',
-      metadata: {
-        payment_id,
-        refunded_by: user.id,
-      },
+  const { data: tiers } = await supabaseAdmin
+    .from('event_refund_tiers')
+    .select('days_before, refund_percent')
+    .eq('event_id', payment.event_id)
+  const policy = refundPolicyOf(payment.events, tiers)
+  const percent = policyRefundPercent(policy, payment.events?.date)
+
+  if (percent > 0) {
+    return await executeRefund(payment, tickets, selected, {
+      percent,
+      includeFees: policyRefundsFees(policy),
+      decidedBy: 'policy',
+      requestedBy: caller.userId,
+      reason: body.reason,
     })
+  }
+
+  // Outside the policy: the organizer decides
+  const { data: requests, error: requestError } = await supabaseAdmin
+    .from('ticket_refunds')
+    .insert(selected.map((ticket) => ({
+      ticket_id: ticket.id,
+      payment_id: payment.id,
+      event_id: payment.event_id,
+      requested_by: caller.userId,
+      status: 'requested',
+      currency: payment.currency,
+      reason: body.reason?.slice(0, 500) ?? null,
+    })))
+    .select()
+  if (requestError) {
+    if (requestError.code === '23505') {
+      throw new RefundRejected('A refund has already been requested for this ticket')
+    }
+    throw new Error(`Failed to record refund request: ${requestError.message}`)
+  }
+
+  console.log(`Refund requested for ${selected.length} ticket(s) on payment ${payment.id}`)
+  return { success: true, status: 'requested', refunds: requests, payment }
+}
+
+async function decideRequests(body: RefundRequest, caller: Caller) {
+  if (body.decision !== 'approve' && body.decision !== 'decline') {
+    throw new RefundRejected('decision must be approve or decline')
+  }
+
+  const { data: requests } = await supabaseAdmin
+    .from('ticket_refunds')
+    .select('*')
+    .in('id', body.refund_request_ids!)
+    .eq('status', 'requested')
+  if (!requests?.length || requests.length !== new Set(body.refund_request_ids).size) {
+    throw new RefundRejected('Refund request not found or already decided', 404)
+  }
+  const paymentIds = new Set(requests.map((r: any) => r.payment_id))
+  if (paymentIds.size !== 1 || !requests[0].payment_id) {
+    throw new RefundRejected('Decide requests one payment at a time')
+  }
 
-    // Update payment status
-    const { data: updatedPayment, error: updateError } = await supabaseAdmin
-      .from('payments')
+  const payment = await loadPayment(requests[0].payment_id)
+  if (!(await canManageEvent(payment, caller))) {
+    throw new RefundRejected('You do not have permission to decide these refund requests', 403)
+  }
+
+  if (body.decision === 'decline') {
+    const { data: declined, error } = await supabaseAdmin
+      .from('ticket_refunds')
       .update({
-        status: 'refunded',
-        metadata: {
-          ...payment.metadata,
-          refund_id: refund.id,
-          refund_reason: reason,
-          refunded_by: user.id,
-          refunded_at: new Date().toISOString(),
-        },
+        status: 'declined',
+        decided_by: caller.userId,
+        decided_at: new Date().toISOString(),
+        decision_note: body.reason?.slice(0, 500) ?? null,
+        updated_at: new Date().toISOString(),
       })
-      .eq('id', payment_id)
+      .in('id', requests.map((r: any) => r.id))
+      .eq('status', 'requested')
       .select()
-      .single()
+    if (error) throw new Error(`Failed to decline refund requests: ${error.message}`)
+    return { success: true, status: 'declined', refunds: declined, payment }
+  }
+
+  const tickets = await paymentTickets(payment)
+  const requestedIds = new Set(requests.map((r: any) => r.ticket_id))
+  const selected = tickets.filter((t) => requestedIds.has(t.id))
+  if (selected.some((t) => t.status === 'refunded')) {
+    throw new RefundRejected('Ticket already refunded')
+  }
 
-    if (updateError) {
-      console.error('Failed to update payment status:', updateError)
-      // Don't fail - the refund was processed
+  return await executeRefund(payment, tickets, selected, {
+    percent: body.percent ?? 100,
+    includeFees: body.include_fees ?? true,
+    decidedBy: caller.userId,
+    requestedBy: caller.userId,
+    reason: body.reason,
+  })
+}
+
+/**
+ * Refunds `selected` out of all `tickets` on the payment: records a
+ * ticket_refunds row per ticket (taking over any open request), refunds
+ * their shares in one Stripe refund, then marks the tickets refunded, which
+ * voids their signatures and queues NFT burns.
+ */
+async function executeRefund(
+  payment: any,
+  tickets: any[],
+  selected: any[],
+  options: { percent: number; includeFees: boolean; decidedBy: string; requestedBy: string; reason?: string },
+) {
+  const now = new Date().toISOString()
+  const { data: open } = await supabaseAdmin
+    .from('ticket_refunds')
+    .select('id, ticket_id')
+    .in('ticket_id', selected.map((t) => t.id))
+    .eq('status', 'requested')
+  const openByTicket = new Map((open ?? []).map((r: any) => [r.ticket_id, r.id]))
+
+  const rows: any[] = []
+  const fresh: any[] = []
+  for (const ticket of selected) {
+    const amounts = ticketRefundAmount(payment, tickets.indexOf(ticket), tickets.length, options.percent, options.includeFees)
+    const row = {
+      ticket_id: ticket.id,
+      payment_id: payment.id,
+      event_id: payment.event_id,
+      refund_percent: options.percent,
+      ...amounts,
+      currency: payment.currency,
+      decided_by: options.decidedBy,
+      decided_at: now,
+      updated_at: now,
+    }
+    const openId = openByTicket.get(ticket.id)
+    if (openId) {
+      const { data, error } = await supabaseAdmin
+        .from('ticket_refunds')
+        .update(row)
+        .eq('id', openId)
+        .select()
+        .single()
+      if (error) throw new Error(`Failed to update refund request: ${error.message}`)
+      rows.push(data)
+    } else {
+      fresh.push({
+        ...row,
+        requested_by: options.requestedBy,
+        status: 'requested',
+        reason: options.reason?.slice(0, 500) ?? null,
+      })
+    }
+  }
+  if (fresh.length) {
+    // The unique open-refund index stops two refunds of the same ticket racing
+    const { data, error } = await supabaseAdmin.from('ticket_refunds').insert(fresh).select()
+    if (error) {
+      if (error.code === '23505') throw new RefundRejected('A refund for this ticket is already in progress')
+      throw new Error(`Failed to record refunds: ${error.message}`)
     }
+    rows.push(...data)
+  }
+
+  const rowIds = rows.map((r) => r.id)
+  const remaining = payment.amount_cents - (payment.refunded_cents ?? 0)
+  const total = Math.min(rows.reduce((sum, r) => sum + r.amount_cents, 0), remaining)
 
-    // Update ticket status if exists
-    if (payment.ticket_id) {
+  let refund: { id: string } | null = null
+  if (total > 0) {
+    try {
+      refund = await stripe.refunds.create({
+        payment_intent: payment.stripe_payment_intent_id,
+        amount: total,
+        reason: options.reason === 'duplicate' ? 'duplicate' :
+                options.reason === 'fraudulent' ? 'fraudulent' :
+                'requested_by_customer',
+        metadata: {
+          payment_id: payment.id,
+          ticket_refund_ids: rowIds.join(',').slice(0, 500),
+          refunded_by: options.decidedBy,
+        },
+      }, {
+        idempotencyKey: `ticket_refund_${rowIds[0]}`,
+      })
+    } catch (err) {
       await supabaseAdmin
-        .from('tickets')
-        .update({ status: 'refunded' })
-        .eq('id', payment.ticket_id)
+        .from('ticket_refunds')
+        .update({ status: 'failed', error_message: err.message, updated_at: new Date().toISOString() })
+        .in('id', rowIds)
+      throw err
     }
+  }
+
+  const { error: recordError } = await supabaseAdmin.rpc('record_ticket_refunds', {
+    p_payment_id: payment.id,
+    p_refund_ids: rowIds,
+    p_stripe_refund_id: refund?.id ?? null,
+    p_decided_by: options.decidedBy,
+  })
+  if (recordError) {
+    // Don't fail - the money has gone back. A retry of this request settles
+    // the rows (the Stripe refund is idempotent, and so is the recording);
+    // the charge.refunded webhook only settles refunds of the whole charge
+    console.error('Failed to record ticket refunds:', recordError)
+  }
+
+  const { data: updatedPayment } = await supabaseAdmin
+    .from('payments')
+    .select('*')
+    .eq('id', payment.id)
+    .single()
 
-    console.log(`Refund processed: ${refund.id} for payment ${payment_id}`)
+  console.log(`Refunded ${rows.length} ticket(s) on payment ${payment.id}: ${total} (${refund?.id ?? 'no charge'})`)
 
-    return new Response(
-      JSON.stringify({
-        success: true,
+  return {
+    success: true,
+    status: 'refunded',
+    refund_id: refund?.id ?? null,
+    amount_cents: total,
+    refunds: rows,
+    payment: updatedPayment ?? payment,
+  }
+}
+
+/** The old whole-payment refund, for payments without tickets. */
+async function refundWholePayment(payment: any, caller: Caller, reason?: string) {
+  const refund = await stripe.refunds.create({
+    payment_intent: payment.stripe_payment_intent_id,
+    reason: reason === 'duplicate' ? 'duplicate' :
+            reason === 'fraudulent' ? 'fraudulent' :
+            'requested_by_customer',
+    metadata: {
+      payment_id: payment.id,
+      refunded_by: caller.userId,
+    },
+  })
+
+  const { data: updatedPayment, error: updateError } = await supabaseAdmin
+    .from('payments')
+    .update({
+      status: 'refunded',
+      refunded_cents: payment.amount_cents,
+      metadata: {
+        ...payment.metadata,
         refund_id: refund.id,
-        payment: updatedPayment || { ...payment, status: 'refunded' },
-      }),
-      {
-        status: 200,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      }
-    )
+        refund_reason: reason,
+        refunded_by: caller.userId,
+        refunded_at: new Date().toISOString(),
+      },
+    })
+    .eq('id', payment.id)
+    .select()
+    .single()
 
-  } catch (error) {
-    console.error('Error processing refund:', error)
+  if (updateError) {
+    console.error('Failed to update payment status:', updateError)
+    // Don't fail - the refund was processed
+  }
 
-    // Handle Stripe-specific errors
-    if (error.type === 'StripeCardError') {
-      return new Response(
-        JSON.stringify({ error: error.message }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
+  console.log(`Refund processed: ${refund.id} for payment ${payment.id}`)
+  return {
+    success: true,
+    status: 'refunded',
+    refund_id: refund.id,
+    amount_cents: refund.amount,
+    refunds: [],
+    payment: updatedPayment || { ...payment, status: 'refunded' },
+  }
+}
 
-    return new Response(
-      JSON.stringify({ error: error.message || 'Failed to process refund' }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    )
+async function loadPayment(paymentId: string) {
+  const { data: payment, error } = await supabaseAdmin
+    .from('payments')
+    .select('*, events(organizer_id, date, refund_fees, reschedule_refund_until)')
+    .eq('id', paymentId)
+    .single()
+
+  if (error || !payment) {
+    throw new RefundRejected('Payment not found', 404)
   }
-})
+  if (payment.status === 'refunded') {
+    throw new RefundRejected('Payment already refunded')
+  }
+  if (payment.status !== 'completed') {
+    throw new RefundRejected('Only completed payments can be refunded')
+  }
+  if (!payment.stripe_payment_intent_id) {
+    throw new RefundRejected('No Stripe payment associated with this record')
+  }
+  return payment
+}
+
+/**
+ * The payment a ticket was last bought with: its resale purchase if it has
+ * one, else the purchase that issued it.
+ */
+async function paymentForTicket(ticketId: string): Promise<string | undefined> {
+  const { data: ticket } = await supabaseAdmin
+    .from('tickets')
+    .select('id, stripe_payment_intent_id')
+    .eq('id', ticketId)
+    .maybeSingle()
+  if (!ticket) throw new RefundRejected('Ticket not found', 404)
+
+  const filter = ticket.stripe_payment_intent_id
+    ? `ticket_id.eq.${ticket.id},stripe_payment_intent_id.eq.${ticket.stripe_payment_intent_id}`
+    : `ticket_id.eq.${ticket.id}`
+  const { data: payment } = await supabaseAdmin
+    .from('payments')
+    .select('id')
+    .or(filter)
+    .in('status', ['completed', 'refunded'])
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+  return payment?.id
+}
+
+/** Platform admins, the event's organizer and its admin staff. */
+async function canManageEvent(payment: any, caller: Caller): Promise<boolean> {
+  if (caller.isPlatformAdmin || payment.events?.organizer_id === caller.userId) return true
+
+  const { data: staffRecord } = await supabaseAdmin
+    .from('event_staff')
+    .select('role')
+    .eq('event_id', payment.event_id)
+    .eq('user_id', caller.userId)
+    .maybeSingle()
+
+  return staffRecord?.role === 'admin'
+}
+
+/**
+ * Every ticket the payment issued, in a stable order so each keeps the
+ * same share of the charge however many are refunded later.
+ */
+async function paymentTickets(payment: any): Promise<any[]> {
+  const filter = payment.ticket_id
+    ? `stripe_payment_intent_id.eq.${payment.stripe_payment_intent_id},id.eq.${payment.ticket_id}`
+    : `stripe_payment_intent_id.eq.${payment.stripe_payment_intent_id}`
+  const { data, error } = await supabaseAdmin
+    .from('tickets')
+    .select('id, status, sold_by, listing_status')
+    .or(filter)
+    .order('id')
+  if (error) throw new Error(`Failed to load tickets: ${error.message}`)
+  return data ?? []
+}
+
+function jsonResponse(data: any, status = 200) {
+  return new Response(JSON.stringify(data), {
+    status, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
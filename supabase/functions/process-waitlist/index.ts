@@ -1,6 +1,17 @@
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
 import Stripe from 'https://esm.sh/stripe@14.21.0'
+import { eventCurrency, formatMinor } from '../_shared/currency.ts'
+import { calculateFees, feeScheduleStamp, feeTaxColumns } from '../_shared/fees.ts'
+import { loadEventTax, NO_TAX } from '../_shared/tax.ts'
+import {
+  lotteryOrder,
+  lotteryPending,
+  seedMatchesCommitment,
+  servesInTurn,
+  type WaitlistSettings,
+  waitlistSettingsOf,
+} from '../_shared/waitlist.ts'
 
 const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY')!, {
   apiVersion: '2023-10-16',
@@ -10,149 +21,381 @@ const supabaseUrl = Deno.env.get('SUPABASE_URL')!
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
 const supabase = createClient(supabaseUrl, supabaseServiceKey)
 
+// Serves an event's waitlist when tickets become available, in the mode the
+// organizer picked (_shared/waitlist.ts):
+//
+//   { event_id, trigger, listing_id?, listing_price_cents? }
+//       fifo: notify every notify entry of the batch and auto-buy in turn;
+//       claim_window / lottery: serve the next entry only, holding the
+//       listing (or the event's oldest unheld one) for a notify entry
+//   {}  scheduled: closes lapsed claim windows and rolls each to the next
+//       entry, and draws lotteries whose cutoff has passed
+
 interface ProcessRequest {
-  event_id: string
+  event_id?: string
   // Optional: specific listing that triggered this (resale)
   listing_id?: string
   listing_price_cents?: number
   // Optional: trigger source
-  trigger: 'resale_listed' | 'capacity_added' | 'manual'
+  trigger?: 'resale_listed' | 'capacity_added' | 'manual' | 'offer_expired' | 'offer_declined' | 'lottery_drawn'
+}
+
+interface ProcessResult {
+  processed: number
+  notified: number
+  purchased: number
+  failed: number
+  offered?: number
+  skipped?: boolean
+  reason?: string
 }
 
+const EVENT_COLUMNS =
+  'id, title, price_in_cents, date, currency, deleted_at, waitlist_mode, waitlist_claim_minutes, waitlist_lottery_cutoff'
+
 serve(async (req) => {
   try {
-    const { event_id, listing_id, listing_price_cents, trigger } =
-      (await req.json()) as ProcessRequest
+    const { event_id, listing_id, listing_price_cents, trigger = 'manual' } =
+      (await req.json().catch(() => ({}))) as ProcessRequest
 
     if (!event_id) {
-      return new Response(JSON.stringify({ error: 'event_id required' }), {
-        status: 400,
-        headers: { 'Content-Type': 'application/json' },
-      })
+      return jsonResponse(await runScheduled())
     }
 
     console.log(
       `Processing waitlist for event ${event_id}, trigger: ${trigger}`,
     )
 
-    // Get event info
-    const { data: event, error: eventError } = await supabase
-      .from('events')
-      .select('id, title, price_in_cents, date')
-      .eq('id', event_id)
-      .single()
+    const result = await processEvent(event_id, trigger, listing_id, listing_price_cents)
+    if (!result) {
+      return jsonResponse({ error: 'Event not found' }, 404)
+    }
+    return jsonResponse(result)
+  } catch (error) {
+    console.error('process-waitlist error:', error)
+    return jsonResponse({ error: error.message }, 500)
+  }
+})
 
-    if (eventError || !event) {
-      console.error('Event not found:', eventError)
-      return new Response(JSON.stringify({ error: 'Event not found' }), {
-        status: 404,
-        headers: { 'Content-Type': 'application/json' },
-      })
+/**
+ * Scheduled run: roll lapsed claim windows on to the next entry, and start
+ * lotteries whose cutoff has passed.
+ */
+async function runScheduled() {
+  const { data: lapsed, error } = await supabase.rpc('expire_waitlist_offers')
+  if (error) throw new Error(`expire_waitlist_offers: ${error.message}`)
+
+  let rolled = 0
+  for (const offer of lapsed ?? []) {
+    try {
+      const result = await processEvent(offer.event_id, 'offer_expired', offer.listing_id ?? undefined)
+      if (result && result.processed > 0) rolled++
+    } catch (err) {
+      console.error(`Failed to roll waitlist offer for event ${offer.event_id}:`, err.message)
     }
+  }
 
-    // Don't process waitlists for past events
-    if (new Date(event.date) < new Date()) {
-      console.log('Event already passed, skipping waitlist processing')
-      return new Response(JSON.stringify({ skipped: true, reason: 'event_passed' }), {
-        status: 200,
-        headers: { 'Content-Type': 'application/json' },
-      })
+  const { data: due } = await supabase
+    .from('waitlist_lotteries')
+    .select('event_id, events!inner(waitlist_mode)')
+    .eq('events.waitlist_mode', 'lottery')
+    .is('drawn_at', null)
+    .lte('cutoff_at', new Date().toISOString())
+
+  let drawn = 0
+  for (const lottery of due ?? []) {
+    try {
+      const result = await processEvent(lottery.event_id, 'lottery_drawn')
+      if (result && !result.skipped) drawn++
+    } catch (err) {
+      console.error(`Failed to draw waitlist lottery for event ${lottery.event_id}:`, err.message)
     }
+  }
 
-    // Get active waitlist entries in FIFO order
-    const { data: queue, error: queueError } = await supabase
-      .rpc('get_waitlist_queue', {
-        p_event_id: event_id,
-        p_limit: 50,
-      })
+  console.log(`Scheduled waitlist run: ${lapsed?.length ?? 0} offer(s) lapsed, ${rolled} rolled on, ${drawn} lotteries drawn`)
+  return { lapsed: lapsed?.length ?? 0, rolled, drawn }
+}
 
-    if (queueError || !queue || queue.length === 0) {
-      console.log('No active waitlist entries')
-      return new Response(JSON.stringify({ processed: 0 }), {
-        status: 200,
-        headers: { 'Content-Type': 'application/json' },
-      })
-    }
+async function processEvent(
+  eventId: string,
+  trigger: string,
+  listingId?: string,
+  listingPriceCents?: number,
+): Promise<ProcessResult | null> {
+  // Get event info
+  const { data: event, error: eventError } = await supabase
+    .from('events')
+    .select(EVENT_COLUMNS)
+    .eq('id', eventId)
+    .single()
+
+  if (eventError || !event) {
+    console.error('Event not found:', eventError)
+    return null
+  }
 
-    let notifiedCount = 0
-    let purchasedCount = 0
-    let failedCount = 0
-
-    for (const entry of queue) {
-      try {
-        if (entry.mode === 'notify') {
-          // Send notification
-          await notifyUser(entry, event)
-          notifiedCount++
-        } else if (entry.mode === 'auto_buy') {
-          // Determine price to check against max_price
-          // For resale triggers, use listing price; for official, use event price
-          const availablePriceCents =
-            trigger === 'resale_listed' && listing_price_cents
-              ? listing_price_cents
-              : event.price_in_cents || 0
-
-          // Check if price is within user's max
-          if (
-            entry.max_price_cents !== null &&
-            availablePriceCents > entry.max_price_cents
-          ) {
-            console.log(
-              `Skipping auto-buy for user ${entry.user_id}: price ${availablePriceCents} > max ${entry.max_price_cents}`,
-            )
-            continue
-          }
+  const idle = { processed: 0, notified: 0, purchased: 0, failed: 0 }
+
+  // Don't process waitlists for past or cancelled events
+  if (new Date(event.date) < new Date() || event.deleted_at) {
+    console.log('Event already passed or cancelled, skipping waitlist processing')
+    return { ...idle, skipped: true, reason: 'event_passed' }
+  }
+
+  const settings = waitlistSettingsOf(event)
+  if (!servesInTurn(settings)) {
+    return broadcast(event, trigger, listingId, listingPriceCents)
+  }
 
-          // Attempt off-session purchase
-          const success = await attemptAutoPurchase(
-            entry,
-            event,
-            availablePriceCents,
-            listing_id,
-            trigger,
-          )
-
-          if (success) {
-            purchasedCount++
-            // For resale, only one person can buy the listing — stop processing auto_buy
-            if (trigger === 'resale_listed' && listing_id) {
-              console.log('Resale listing claimed by auto-buy, stopping queue')
-              break
-            }
-          } else {
-            failedCount++
+  if (settings.mode === 'lottery' && !(await drawLottery(event.id, settings))) {
+    console.log('Waitlist lottery not drawn yet, nobody is served before the cutoff')
+    return { ...idle, skipped: true, reason: 'lottery_pending' }
+  }
+
+  return serveInTurn(event, settings, trigger, listingId, listingPriceCents)
+}
+
+/**
+ * fifo: notify every notify entry of the batch at once and try auto-buys
+ * in queue order.
+ */
+async function broadcast(
+  event: any,
+  trigger: string,
+  listingId?: string,
+  listingPriceCents?: number,
+): Promise<ProcessResult> {
+  // Get active waitlist entries in FIFO order
+  const { data: queue, error: queueError } = await supabase
+    .rpc('get_waitlist_queue', {
+      p_event_id: event.id,
+      p_limit: 50,
+    })
+
+  if (queueError || !queue || queue.length === 0) {
+    console.log('No active waitlist entries')
+    return { processed: 0, notified: 0, purchased: 0, failed: 0 }
+  }
+
+  let notifiedCount = 0
+  let purchasedCount = 0
+  let failedCount = 0
+
+  for (const entry of queue) {
+    try {
+      if (entry.mode === 'notify') {
+        // Send notification
+        await notifyUser(entry, event)
+        notifiedCount++
+      } else if (entry.mode === 'auto_buy') {
+        const availablePriceCents = autoBuyPrice(event, trigger, listingPriceCents)
+        if (!withinMaxPrice(entry, availablePriceCents)) continue
+
+        // Attempt off-session purchase
+        const success = await attemptAutoPurchase(
+          entry,
+          event,
+          availablePriceCents,
+          listingId,
+          trigger,
+        )
+
+        if (success) {
+          purchasedCount++
+          // For resale, only one person can buy the listing — stop processing auto_buy
+          if (trigger === 'resale_listed' && listingId) {
+            console.log('Resale listing claimed by auto-buy, stopping queue')
+            break
           }
+        } else {
+          failedCount++
         }
-      } catch (err) {
-        console.error(
-          `Error processing waitlist entry ${entry.id}:`,
-          err.message,
-        )
-        failedCount++
       }
+    } catch (err) {
+      console.error(
+        `Error processing waitlist entry ${entry.id}:`,
+        err.message,
+      )
+      failedCount++
     }
+  }
 
-    console.log(
-      `Waitlist processed: ${notifiedCount} notified, ${purchasedCount} purchased, ${failedCount} failed`,
-    )
+  console.log(
+    `Waitlist processed: ${notifiedCount} notified, ${purchasedCount} purchased, ${failedCount} failed`,
+  )
 
-    return new Response(
-      JSON.stringify({
-        processed: notifiedCount + purchasedCount,
-        notified: notifiedCount,
-        purchased: purchasedCount,
-        failed: failedCount,
-      }),
-      { status: 200, headers: { 'Content-Type': 'application/json' } },
-    )
-  } catch (error) {
-    console.error('process-waitlist error:', error)
-    return new Response(JSON.stringify({ error: error.message }), {
-      status: 500,
-      headers: { 'Content-Type': 'application/json' },
+  return {
+    processed: notifiedCount + purchasedCount,
+    notified: notifiedCount,
+    purchased: purchasedCount,
+    failed: failedCount,
+  }
+}
+
+/**
+ * claim_window / lottery: go down the queue until one entry is served. An
+ * auto-buy entry is charged in its turn; a notify entry gets an exclusive
+ * claim window with the listing held for it.
+ */
+async function serveInTurn(
+  event: any,
+  settings: WaitlistSettings,
+  trigger: string,
+  listingId?: string,
+  listingPriceCents?: number,
+): Promise<ProcessResult> {
+  const result: ProcessResult = { processed: 0, notified: 0, purchased: 0, failed: 0, offered: 0 }
+
+  // Without a listing, hold the event's oldest unheld one if there is any
+  let listing: { id: string; price_cents: number } | null = null
+  if (listingId) {
+    const { data } = await supabase
+      .from('resale_listings')
+      .select('id, price_cents, status, reserved_until')
+      .eq('id', listingId)
+      .single()
+    if (!data || data.status !== 'active') {
+      console.log(`Listing ${listingId} is no longer for sale`)
+      return result
+    }
+    if (data.reserved_until && new Date(data.reserved_until) > new Date()) {
+      console.log(`Listing ${listingId} is held for another claim window`)
+      return result
+    }
+    listing = data
+  } else {
+    const { data } = await supabase
+      .from('resale_listings')
+      .select('id, price_cents, reserved_until, tickets!inner(event_id)')
+      .eq('tickets.event_id', event.id)
+      .eq('status', 'active')
+      .or(`reserved_until.is.null,reserved_until.lte.${new Date().toISOString()}`)
+      .order('created_at', { ascending: true })
+      .limit(1)
+    listing = data?.[0] ?? null
+  }
+
+  const { data: queue, error: queueError } = await supabase
+    .rpc('get_waitlist_queue', {
+      p_event_id: event.id,
+      p_limit: 50,
     })
+
+  if (queueError || !queue || queue.length === 0) {
+    console.log('No active waitlist entries')
+    return result
+  }
+
+  const priceCents = listing
+    ? listing.price_cents
+    : autoBuyPrice(event, trigger, listingPriceCents)
+
+  for (const entry of queue) {
+    try {
+      if (entry.mode === 'auto_buy') {
+        if (!withinMaxPrice(entry, priceCents)) continue
+        if (await attemptAutoPurchase(entry, event, priceCents, listing?.id, trigger)) {
+          result.purchased++
+          result.processed++
+          return result
+        }
+        result.failed++
+        continue
+      }
+
+      const { data: offer, error: offerError } = await supabase.rpc('offer_waitlist_entry', {
+        p_entry_id: entry.id,
+        p_listing_id: listing?.id ?? null,
+        p_minutes: settings.claim_minutes,
+      })
+      if (offerError) throw new Error(offerError.message)
+
+      if (!offer?.id) {
+        // Someone else holds the ticket, or it's gone: nothing to offer
+        console.log(`Nothing to offer entry ${entry.id}, stopping queue`)
+        return result
+      }
+
+      await notifyOffer(entry, event, offer, settings.claim_minutes)
+      result.offered!++
+      result.notified++
+      result.processed++
+      return result
+    } catch (err) {
+      console.error(
+        `Error processing waitlist entry ${entry.id}:`,
+        err.message,
+      )
+      result.failed++
+    }
   }
-})
+
+  return result
+}
+
+/**
+ * Draws the event's lottery once its cutoff has passed. Returns whether
+ * the lottery is drawn, i.e. whether the queue may be served.
+ */
+async function drawLottery(eventId: string, settings: WaitlistSettings): Promise<boolean> {
+  if (lotteryPending(settings)) return false
+
+  const { data: lottery, error } = await supabase
+    .from('waitlist_lotteries')
+    .select('*')
+    .eq('event_id', eventId)
+    .maybeSingle()
+  if (error || !lottery) throw new Error(`Waitlist lottery not found for event ${eventId}`)
+  if (lottery.drawn_at) return true
+  if (new Date(lottery.cutoff_at) > new Date()) return false
+
+  if (!(await seedMatchesCommitment(lottery.seed, lottery.seed_commitment))) {
+    throw new Error(`Waitlist lottery seed for event ${eventId} does not match its commitment`)
+  }
+
+  const { data: entries, error: entriesError } = await supabase
+    .from('waitlist_entries')
+    .select('id')
+    .eq('event_id', eventId)
+    .eq('status', 'active')
+    .lt('created_at', lottery.cutoff_at)
+  if (entriesError) throw new Error(`waitlist_entries: ${entriesError.message}`)
+
+  const order = await lotteryOrder(lottery.seed, (entries ?? []).map((e: any) => e.id))
+  const { error: drawError } = await supabase.rpc('record_waitlist_lottery_draw', {
+    p_event_id: eventId,
+    p_entry_ids: order,
+  })
+  if (drawError) throw new Error(`record_waitlist_lottery_draw: ${drawError.message}`)
+
+  console.log(`Waitlist lottery drawn for event ${eventId}: ${order.length} entries ranked`)
+  return true
+}
+
+// For resale triggers, use listing price; for official, use event price
+function autoBuyPrice(event: any, trigger: string, listingPriceCents?: number): number {
+  return trigger === 'resale_listed' && listingPriceCents
+    ? listingPriceCents
+    : event.price_in_cents || 0
+}
+
+// Check if price is within user's max
+function withinMaxPrice(entry: { user_id: string; max_price_cents: number | null }, priceCents: number): boolean {
+  if (entry.max_price_cents !== null && priceCents > entry.max_price_cents) {
+    console.log(
+      `Skipping auto-buy for user ${entry.user_id}: price ${priceCents} > max ${entry.max_price_cents}`,
+    )
+    return false
+  }
+  return true
+}
+
+function jsonResponse(data: unknown, status = 200) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  })
+}
 
 /**
  * Notify a user that tickets are available.
@@ -183,6 +426,38 @@ async function notifyUser(
   console.log(`Notified user ${entry.user_id} for event ${event.id}`)
 }
 
+/**
+ * Tell a user the ticket is theirs to claim for the next few minutes.
+ */
+async function notifyOffer(
+  entry: { id: string; user_id: string },
+  event: { id: string; title: string },
+  offer: { offer_expires_at: string; offer_listing_id: string | null },
+  minutes: number,
+) {
+  const { error: notifError } = await supabase.from('notifications').insert({
+    user_id: entry.user_id,
+    type: 'waitlist_available',
+    title: "It's Your Turn!",
+    body: offer.offer_listing_id
+      ? `A ticket for "${event.title}" is held for you for ${minutes} minutes. After that it goes to the next person on the waitlist.`
+      : `Tickets are available for "${event.title}" and it's your turn: you have ${minutes} minutes before the next person on the waitlist is told.`,
+    data: {
+      event_id: event.id,
+      event_title: event.title,
+      waitlist_entry_id: entry.id,
+      listing_id: offer.offer_listing_id,
+      offer_expires_at: offer.offer_expires_at,
+    },
+  })
+
+  if (notifError) {
+    console.error('Failed to create notification:', notifError)
+  }
+
+  console.log(`Offered entry ${entry.id} (user ${entry.user_id}) for event ${event.id} until ${offer.offer_expires_at}`)
+}
+
 /**
  * Attempt an off-session Stripe purchase for an auto-buy waitlist entry.
  */
@@ -194,7 +469,7 @@ async function attemptAutoPurchase(
     stripe_customer_id: string
     max_price_cents: number | null
   },
-  event: { id: string; title: string; price_in_cents: number | null },
+  event: { id: string; title: string; price_in_cents: number | null; currency: string | null },
   priceCents: number,
   listingId: string | undefined,
   trigger: string,
@@ -207,11 +482,11 @@ async function attemptAutoPurchase(
     return false
   }
 
-  // Calculate fees (same as create-payment-intent: 5% platform + 2.9% + $0.30 Stripe + $0.25 mint)
-  const platformFeeCents = Math.round(priceCents * 0.05)
-  const subtotalBeforeStripe = priceCents + platformFeeCents + 25 // +$0.25 mint
-  const stripeFeeCents = Math.round(subtotalBeforeStripe * 0.029) + 30
-  const totalCents = subtotalBeforeStripe + stripeFeeCents
+  const currency = eventCurrency(event)
+  // Tax is the organizer's, so only a primary ticket carries it
+  const eventTax = listingId ? NO_TAX : await loadEventTax(supabase, event.id)
+  const fees = calculateFees('waitlist', priceCents, currency, eventTax)
+  const totalCents = fees.total_cents
 
   // Double-check against max price (total including fees)
   if (entry.max_price_cents !== null && totalCents > entry.max_price_cents) {
@@ -225,7 +500,7 @@ async function attemptAutoPurchase(
     // Create off-session PaymentIntent
     const paymentIntent = await stripe.paymentIntents.create({
       amount: totalCents,
-      currency: 'usd',
+      currency,
       customer: entry.stripe_customer_id,
       payment_method: entry.payment_method_id,
       off_session: true,
@@ -238,7 +513,9 @@ async function attemptAutoPurchase(
         event_title: event.title,
         waitlist_entry_id: entry.id,
         base_amount_cents: String(priceCents),
-        service_fee_cents: String(platformFeeCents + stripeFeeCents + 25),
+        service_fee_cents: String(fees.service_fee_cents),
+        ...feeScheduleStamp(fees),
+        ...(fees.tax_cents > 0 && { tax_cents: String(fees.tax_cents) }),
         trigger,
         ...(listingId && { resale_listing_id: listingId }),
       },
@@ -255,15 +532,18 @@ async function attemptAutoPurchase(
           user_id: entry.user_id,
           event_id: event.id,
           amount_cents: totalCents,
-          currency: 'usd',
+          currency,
           status:
             paymentIntent.status === 'succeeded' ? 'completed' : 'processing',
           type: 'waitlist_auto_purchase',
           stripe_payment_intent_id: paymentIntent.id,
-          platform_fee_cents: platformFeeCents + stripeFeeCents + 25,
+          platform_fee_cents: fees.service_fee_cents,
+          ...feeScheduleStamp(fees),
+          ...feeTaxColumns(fees),
           metadata: {
             waitlist_entry_id: entry.id,
             auto_purchased: true,
+            fee_breakdown: fees,
           },
         })
         .select('id')
@@ -283,7 +563,7 @@ async function attemptAutoPurchase(
         user_id: entry.user_id,
         type: 'waitlist_auto_purchased',
         title: 'Ticket Auto-Purchased!',
-        body: `A ticket for "${event.title}" was automatically purchased for you at $${(priceCents / 100).toFixed(2)}.`,
+        body: `A ticket for "${event.title}" was automatically purchased for you at ${formatMinor(totalCents, currency)}.`,
         data: {
           event_id: event.id,
           event_title: event.title,
@@ -0,0 +1,249 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
+import { generatePromoCodes, MAX_BULK_CODES, type PromoDiscountType, toCsv, validPrefix } from '../_shared/promo.ts'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Bulk promo codes and redemption reporting for the signed-in organizer.
+// Single codes are still created by the app directly (RLS).
+//
+//   { action: 'bulk_create', event_id | series_id, name, count, prefix?,
+//     discount_type, discount_value, buy_quantity?, get_quantity?,
+//     max_uses? (default 1), max_uses_per_user?, min_quantity?,
+//     min_order_cents?, valid_from?, valid_until?, ticket_type_id?,
+//     stackable? }                                        → { batch, csv }
+//       up to MAX_BULK_CODES unique codes, e.g. single-use partner codes
+//   { action: 'export', batch_id }                        → { batch, csv }
+//       the batch's codes with their current use counts
+//   { action: 'report', event_id }                        → { codes, csv }
+//       redemptions per code for the event, series-wide codes included
+
+interface PromoCodesRequest {
+  action: 'bulk_create' | 'export' | 'report'
+  event_id?: string
+  series_id?: string
+  batch_id?: string
+  name?: string
+  count?: number
+  prefix?: string
+  discount_type?: PromoDiscountType
+  discount_value?: number
+  buy_quantity?: number | null
+  get_quantity?: number | null
+  max_uses?: number | null
+  max_uses_per_user?: number | null
+  min_quantity?: number | null
+  min_order_cents?: number | null
+  valid_from?: string | null
+  valid_until?: string | null
+  ticket_type_id?: string | null
+  stackable?: boolean
+}
+
+const BATCH_COLUMNS = 'id, event_id, series_id, name, prefix, quantity, created_at'
+const INSERT_CHUNK = 500
+
+const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey)
+
+/** Invalid code settings in the request body; answered with a 400. */
+class PromoSettingsError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PromoSettingsError'
+  }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return jsonResponse({ error: 'Missing authorization header' }, 401)
+    }
+
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    )
+    if (authError || !user) {
+      return jsonResponse({ error: 'Invalid authentication' }, 401)
+    }
+
+    const body: PromoCodesRequest = await req.json()
+    const { action } = body
+
+    if (action === 'bulk_create') {
+      const scope = await ownedScope(user.id, body)
+      const name = typeof body.name === 'string' ? body.name.trim() : ''
+      if (!name) return jsonResponse({ error: 'Missing required field: name' }, 400)
+
+      const count = body.count
+      if (!Number.isInteger(count) || count! < 1 || count! > MAX_BULK_CODES) {
+        return jsonResponse({ error: `Count must be between 1 and ${MAX_BULK_CODES}` }, 400)
+      }
+      const prefix = validPrefix(body.prefix)
+      if (prefix === null) {
+        return jsonResponse({ error: 'Prefix must be up to 12 letters and digits' }, 400)
+      }
+      const rules = parseRules(body)
+
+      const { data: batch, error: batchError } = await supabaseAdmin
+        .from('promo_code_batches')
+        .insert({ organizer_id: user.id, ...scope, name, prefix: prefix || null, quantity: count })
+        .select(BATCH_COLUMNS)
+        .single()
+      if (batchError) throw new Error(`promo_code_batches insert failed: ${batchError.message}`)
+
+      const codes = generatePromoCodes(count!, prefix)
+      for (let i = 0; i < codes.length; i += INSERT_CHUNK) {
+        const rows = codes.slice(i, i + INSERT_CHUNK).map((code) => ({
+          ...scope,
+          ...rules,
+          code,
+          batch_id: batch.id,
+        }))
+        const { error } = await supabaseAdmin.from('promo_codes').insert(rows)
+        if (error) {
+          // Codes cascade with their batch; a clash with an existing code
+          // is rare enough that the organizer can simply retry
+          await supabaseAdmin.from('promo_code_batches').delete().eq('id', batch.id)
+          if (error.code === '23505') {
+            return jsonResponse({ error: 'A generated code already exists, please try again' }, 409)
+          }
+          throw new Error(`promo_codes insert failed: ${error.message}`)
+        }
+      }
+
+      console.log(`[promo-codes] ${user.id} created batch ${batch.id} with ${count} codes`)
+      return jsonResponse({ batch, csv: batchCsv(codes.map((code) => ({ code, current_uses: 0, max_uses: rules.max_uses }))) })
+    }
+
+    if (action === 'export') {
+      if (!body.batch_id) return jsonResponse({ error: 'Missing required field: batch_id' }, 400)
+
+      const { data: batch } = await supabaseAdmin
+        .from('promo_code_batches')
+        .select(BATCH_COLUMNS)
+        .eq('id', body.batch_id)
+        .eq('organizer_id', user.id)
+        .maybeSingle()
+      if (!batch) return jsonResponse({ error: 'Batch not found' }, 404)
+
+      const { data: codes, error } = await supabaseAdmin
+        .from('promo_codes')
+        .select('code, current_uses, max_uses')
+        .eq('batch_id', batch.id)
+        .order('code')
+      if (error) throw new Error(`promo_codes: ${error.message}`)
+      return jsonResponse({ batch, csv: batchCsv(codes ?? []) })
+    }
+
+    if (action === 'report') {
+      if (!body.event_id) return jsonResponse({ error: 'Missing required field: event_id' }, 400)
+      await ownedScope(user.id, { event_id: body.event_id })
+
+      const { data, error } = await supabaseAdmin.rpc('promo_code_report', { p_event_id: body.event_id })
+      if (error) throw new Error(`promo_code_report failed: ${error.message}`)
+
+      const codes = (data ?? []) as any[]
+      const csv = toCsv(
+        ['code', 'type', 'value', 'series_wide', 'batch', 'redemptions', 'buyers', 'tickets', 'discount_cents', 'net_order_cents', 'refunded', 'pending'],
+        codes.map((c) => [
+          c.code, c.discount_type, c.discount_value, c.series_wide, c.batch_name, c.redemptions,
+          c.buyers, c.tickets, c.discount_cents, c.net_order_cents, c.refunded, c.pending,
+        ]),
+      )
+      return jsonResponse({ codes, csv })
+    }
+
+    return jsonResponse({ error: `Unknown action: ${action}` }, 400)
+  } catch (err) {
+    if (err instanceof PromoSettingsError) {
+      return jsonResponse({ error: err.message }, 400)
+    }
+    console.error('[promo-codes] Error:', err)
+    return jsonResponse({ error: err.message }, 500)
+  }
+})
+
+/** Exactly one of event_id / series_id, owned by the organizer. */
+async function ownedScope(
+  organizerId: string,
+  body: Pick<PromoCodesRequest, 'event_id' | 'series_id'>,
+): Promise<{ event_id: string | null; series_id: string | null }> {
+  if (!!body.event_id === !!body.series_id) {
+    throw new PromoSettingsError('Pass either event_id or series_id')
+  }
+  const table = body.event_id ? 'events' : 'event_series'
+  const { data } = await supabaseAdmin
+    .from(table)
+    .select('id')
+    .eq('id', body.event_id ?? body.series_id!)
+    .eq('organizer_id', organizerId)
+    .maybeSingle()
+  if (!data) throw new PromoSettingsError(body.event_id ? 'Event not found' : 'Series not found')
+  return { event_id: body.event_id ?? null, series_id: body.series_id ?? null }
+}
+
+/** Discount and limit columns shared by every code in a batch. */
+function parseRules(body: PromoCodesRequest) {
+  const type = body.discount_type
+  if (type !== 'percentage' && type !== 'fixed' && type !== 'buy_x_get_y') {
+    throw new PromoSettingsError('discount_type must be percentage, fixed or buy_x_get_y')
+  }
+  const value = positiveInt(body.discount_value, 'discount_value')
+  if (value === null) throw new PromoSettingsError('Missing required field: discount_value')
+  if (type !== 'fixed' && value > 100) {
+    throw new PromoSettingsError('Percentages cannot exceed 100')
+  }
+
+  const buy = positiveInt(body.buy_quantity, 'buy_quantity')
+  const get = positiveInt(body.get_quantity, 'get_quantity')
+  if (type === 'buy_x_get_y' && (buy === null || get === null)) {
+    throw new PromoSettingsError('buy_x_get_y needs buy_quantity and get_quantity')
+  }
+  if (body.ticket_type_id && body.series_id) {
+    throw new PromoSettingsError('Series-wide codes cannot be limited to a ticket type')
+  }
+
+  return {
+    discount_type: type,
+    discount_value: value,
+    buy_quantity: type === 'buy_x_get_y' ? buy : null,
+    get_quantity: type === 'buy_x_get_y' ? get : null,
+    max_uses: body.max_uses === undefined ? 1 : positiveInt(body.max_uses, 'max_uses'),
+    max_uses_per_user: body.max_uses_per_user === undefined ? 1 : positiveInt(body.max_uses_per_user, 'max_uses_per_user'),
+    min_quantity: positiveInt(body.min_quantity, 'min_quantity'),
+    min_order_cents: positiveInt(body.min_order_cents, 'min_order_cents'),
+    valid_from: body.valid_from ?? null,
+    valid_until: body.valid_until ?? null,
+    ticket_type_id: body.ticket_type_id ?? null,
+    stackable: body.stackable === true,
+  }
+}
+
+function positiveInt(value: unknown, field: string): number | null {
+  if (value === undefined || value === null) return null
+  if (!Number.isInteger(value) || (value as number) < 1) {
+    throw new PromoSettingsError(`${field} must be a positive whole number`)
+  }
+  return value as number
+}
+
+function batchCsv(codes: { code: string; current_uses: number; max_uses: number | null }[]): string {
+  return toCsv(['code', 'uses', 'max_uses'], codes.map((c) => [c.code, c.current_uses, c.max_uses]))
+}
+
+function jsonResponse(data: any, status = 200) {
+  return new Response(JSON.stringify(data), {
+    status, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
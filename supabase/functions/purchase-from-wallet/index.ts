@@ -1,5 +1,10 @@
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
+import { eventCurrency } from '../_shared/currency.ts'
+import { calculateFees, feeScheduleStamp, feeTaxColumns, scheduleSupportsCurrency } from '../_shared/fees.ts'
+import { orderTotal } from '../_shared/promo.ts'
+import { loadEventTax } from '../_shared/tax.ts'
+import { type PricedLine, priceTicketOrder } from '../_shared/ticket-types.ts'
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
@@ -9,12 +14,13 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
-// Wallet fee: 5% platform fee only (no Stripe processing fee)
-const WALLET_PLATFORM_FEE_RATE = 0.05
-
 interface WalletPurchaseRequest {
   event_id: string
   quantity: number
+  /** Tickets per type; required when the event has ticket types. */
+  ticket_items?: { ticket_type_id: string; quantity: number }[]
+  /** Codes the buyer entered to unlock hidden ticket types. */
+  access_codes?: string[]
 }
 
 serve(async (req) => {
@@ -49,7 +55,7 @@ serve(async (req) => {
 
     const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey)
     const body: WalletPurchaseRequest = await req.json()
-    const { event_id, quantity = 1 } = body
+    const { event_id, ticket_items, access_codes } = body
 
     if (!event_id) {
       return new Response(
@@ -58,17 +64,10 @@ serve(async (req) => {
       )
     }
 
-    if (quantity < 1 || quantity > 10) {
-      return new Response(
-        JSON.stringify({ error: 'Quantity must be between 1 and 10' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
-
     // Verify event exists and is active
     const { data: event, error: eventError } = await supabaseAdmin
       .from('events')
-      .select('id, title, price_in_cents, status')
+      .select('id, title, price_in_cents, status, currency')
       .eq('id', event_id)
       .single()
 
@@ -86,17 +85,63 @@ serve(async (req) => {
       )
     }
 
-    if (!event.price_in_cents || event.price_in_cents <= 0) {
+    // The wallet holds USD only
+    if (!scheduleSupportsCurrency('wallet', eventCurrency(event))) {
+      return new Response(
+        JSON.stringify({ error: 'Wallet payments are only available for events priced in USD' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Price per ticket type (windows, limits, tiers) when the event has types
+    let ticketLines: PricedLine[] | null = null
+    let quantity = body.quantity ?? 1
+    let subtotalCents = event.price_in_cents * quantity
+    if (Array.isArray(ticket_items) && ticket_items.length > 0) {
+      const order = await priceTicketOrder(supabaseAdmin, event_id, ticket_items, {
+        accessCodes: Array.isArray(access_codes) ? access_codes.filter((c) => typeof c === 'string') : [],
+      })
+      if (!order.valid) {
+        return new Response(
+          JSON.stringify({ error: order.error }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+      ticketLines = order.lines
+      quantity = ticketLines.reduce((sum, l) => sum + l.quantity, 0)
+      subtotalCents = orderTotal(ticketLines)
+    } else {
+      const { count } = await supabaseAdmin
+        .from('event_ticket_types')
+        .select('id', { count: 'exact', head: true })
+        .eq('event_id', event_id)
+        .eq('is_active', true)
+      if (count) {
+        return new Response(
+          JSON.stringify({ error: 'Select a ticket type' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+    }
+
+    if (quantity < 1 || quantity > 10) {
+      return new Response(
+        JSON.stringify({ error: 'Quantity must be between 1 and 10' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (!subtotalCents || subtotalCents <= 0) {
       return new Response(
         JSON.stringify({ error: 'Free events do not require wallet payment' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       )
     }
 
-    // Calculate fees: 5% platform fee only
-    const baseCents = event.price_in_cents * quantity
-    const platformFeeCents = Math.ceil(baseCents * WALLET_PLATFORM_FEE_RATE)
-    const totalDebitCents = baseCents + platformFeeCents
+    // Wallet schedule: platform fee only (no processor fee), plus any tax
+    const fees = calculateFees('wallet', subtotalCents, 'usd', await loadEventTax(supabaseAdmin, event_id))
+    const platformFeeCents = fees.platform_fee_cents
+    const totalDebitCents = fees.total_cents
 
     // Call atomic purchase function
     const { data: result, error: purchaseError } = await supabaseAdmin.rpc(
@@ -109,6 +154,12 @@ serve(async (req) => {
         p_platform_fee_cents: platformFeeCents,
         p_total_debit_cents: totalDebitCents,
         p_event_title: event.title,
+        p_ticket_lines: ticketLines && ticketLines.map((l) => ({
+          ticket_type_id: l.ticket_type_id,
+          quantity: l.quantity,
+          unit_price_cents: l.unit_price_cents,
+          priced_at_sold: l.priced_at_sold,
+        })),
       }
     )
 
@@ -123,6 +174,18 @@ serve(async (req) => {
           { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         )
       }
+      if (msg.includes('Not enough tickets left')) {
+        return new Response(
+          JSON.stringify({ error: 'Not enough tickets left for this order' }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+      if (msg.includes('Ticket prices changed')) {
+        return new Response(
+          JSON.stringify({ error: 'Ticket prices changed. Please review your order and try again.' }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
       if (msg.includes('Wallet not found')) {
         return new Response(
           JSON.stringify({ error: 'Wallet not found. Please add funds first.' }),
@@ -136,6 +199,12 @@ serve(async (req) => {
       )
     }
 
+    // Stamp the fee schedule and tax onto the payment row created by the RPC
+    await supabaseAdmin
+      .from('payments')
+      .update({ ...feeScheduleStamp(fees), ...feeTaxColumns(fees) })
+      .eq('id', result.payment_id)
+
     console.log(`Wallet purchase completed for user ${user.id}:`, result)
 
     return new Response(
@@ -146,6 +215,7 @@ serve(async (req) => {
         tickets_created: result.tickets_created,
         total_charged_cents: totalDebitCents,
         platform_fee_cents: platformFeeCents,
+        tax_cents: fees.tax_cents,
       }),
       { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     )
@@ -0,0 +1,60 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
+import { CURRENCIES, DEFAULT_CURRENCY } from '../_shared/currency.ts'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+// ECB reference rates, published once per working day
+const RATES_API = 'https://api.frankfurter.app'
+
+// Stores the day's exchange rates for every supported currency, quoted per
+// 1 USD, in exchange_rates. Called on a schedule (cron) with {}; admin
+// revenue reports convert each payment at the rate stored for its date.
+//
+// Pass { "date": "YYYY-MM-DD" } to backfill a past day. Weekends and
+// holidays have no rates of their own; the API answers with the last
+// working day, and that is the date the rows are stored under.
+
+serve(async (req) => {
+  try {
+    const body = await req.json().catch(() => ({}))
+    const date = typeof body.date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(body.date) ? body.date : 'latest'
+
+    const targets = Object.keys(CURRENCIES).filter((c) => c !== DEFAULT_CURRENCY)
+    const res = await fetch(`${RATES_API}/${date}?from=USD&to=${targets.map((c) => c.toUpperCase()).join(',')}`)
+    if (!res.ok) return jsonResponse({ error: `Rates API returned ${res.status}` }, 502)
+    const data: { date: string; rates: Record<string, number> } = await res.json()
+
+    const rows = Object.entries(data.rates)
+      .filter(([code, rate]) => targets.includes(code.toLowerCase()) && rate > 0)
+      .map(([code, rate]) => ({
+        rate_date: data.date,
+        currency: code.toLowerCase(),
+        units_per_usd: rate,
+        source: 'frankfurter',
+        fetched_at: new Date().toISOString(),
+      }))
+
+    const { error } = await supabase.from('exchange_rates').upsert(rows, { onConflict: 'rate_date,currency' })
+    if (error) return jsonResponse({ error: error.message }, 500)
+
+    const missing = targets.filter((c) => !rows.some((r) => r.currency === c))
+    if (missing.length > 0) console.warn(`[exchange-rates] No rate for ${missing.join(', ')} on ${data.date}`)
+    console.log(`[exchange-rates] Stored ${rows.length} rates for ${data.date}`)
+
+    return jsonResponse({ rate_date: data.date, stored: rows.length, missing })
+
+  } catch (err) {
+    console.error('[exchange-rates] Error:', err)
+    return jsonResponse({ error: err.message }, 500)
+  }
+})
+
+function jsonResponse(data: any, status = 200) {
+  return new Response(JSON.stringify(data), {
+    status, headers: { 'Content-Type': 'application/json' },
+  })
+}
@@ -0,0 +1,243 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
+import { runInBackground } from '../_shared/background.ts'
+import {
+  addressBytes,
+  loadPlatformCardano,
+  packTicketDatumUpdateBatch,
+  signTransaction,
+  ticketAssetNames,
+  type TicketDatumUpdate,
+  ticketDatum,
+  utxoHasAsset,
+} from '../_shared/cardano/mod.ts'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+// Queued refreshes claimed per invocation; the packer fits what it can
+const MAX_BATCH_TICKETS = 40
+
+// Re-locks ticket reference NFTs with a datum rebuilt from the event as it
+// is now, e.g. after reschedule-event moved it. User tokens aren't touched:
+// the reference datum is the source of truth for wallets and explorers.
+//
+// Body: { event_id } refreshes that event's queue; {} takes the event with
+// the oldest queued refresh (scheduled). One policy per transaction: tickets
+// minted under a retired key wait for the next batch.
+
+interface BatchTicket {
+  entry: any
+  update: TicketDatumUpdate
+}
+
+// ====================================================================
+// Main handler
+// ====================================================================
+
+serve(async (req) => {
+  let claimedForPolicy: any[] = []
+  let ready: BatchTicket[] = []
+  try {
+    const { event_id } = await req.json().catch(() => ({}))
+
+    const cardano = await loadPlatformCardano(supabase)
+    const { chain } = cardano
+
+    const { data: claimed, error: claimError } = await supabase.rpc('claim_nft_refresh_batch', {
+      p_event_id: event_id ?? null,
+      p_limit: MAX_BATCH_TICKETS,
+    })
+    if (claimError) return jsonResponse({ error: claimError.message }, 500)
+    if (!claimed?.length) return jsonResponse({ message: 'No queued refreshes', refreshed: 0 })
+
+    const eventId = claimed[0].event_id as string
+    console.log(`[refresh] Claimed ${claimed.length} queued refresh(es) for event ${eventId}`)
+
+    const { data: event } = await supabase.from('events').select('*').eq('id', eventId).single()
+    if (!event) {
+      await markFailed(claimed, 'Event not found')
+      return jsonResponse({ error: 'Event not found' }, 404)
+    }
+    const { data: tickets } = await supabase.from('tickets').select('*')
+      .in('id', claimed.map((q: any) => q.ticket_id))
+    const ticketsById = new Map<string, any>((tickets ?? []).map((t: any) => [t.id, t]))
+
+    // Tickets refunded, burned or gone since they were queued need nothing
+    const skipped = claimed.filter((entry: any) => {
+      const ticket = ticketsById.get(entry.ticket_id)
+      return !ticket || !ticket.nft_minted || ticket.nft_burned || !ticket.nft_policy_id
+    })
+    if (skipped.length > 0) {
+      await supabase.from('nft_mint_queue').update({ status: 'skipped', error_message: 'No live NFT to refresh' })
+        .in('id', skipped.map((e: any) => e.id))
+    }
+
+    // 1. One policy per transaction: the first ticket's
+    const live = claimed.filter((entry: any) => !skipped.includes(entry))
+    if (live.length === 0) return jsonResponse({ message: 'Nothing to refresh', skipped: skipped.length })
+    const policyId = ticketsById.get(live[0].ticket_id).nft_policy_id as string
+    const otherPolicy = live.filter((entry: any) => ticketsById.get(entry.ticket_id).nft_policy_id !== policyId)
+    if (otherPolicy.length > 0) {
+      await supabase.from('nft_mint_queue').update({ status: 'queued' }).in('id', otherPolicy.map((e: any) => e.id))
+    }
+    claimedForPolicy = live.filter((entry: any) => !otherPolicy.includes(entry))
+
+    const { keys, policy, address: platformAddress } = cardano.keyForPolicy(policyId)
+    console.log(`[refresh] Network: ${cardano.network}, platform address: ${platformAddress}, policy: ${policyId}`)
+
+    // 2. UTxOs, protocol params, latest slot
+    const [utxos, protocolParams, currentSlot] = await Promise.all([
+      chain.getUtxos(platformAddress).catch((err: Error) => {
+        console.error(`[refresh] UTxO fetch failed: ${err.message}`)
+        return null
+      }),
+      chain.getProtocolParams(),
+      chain.getLatestSlot(),
+    ])
+    if (!utxos || utxos.length === 0) {
+      const reason = utxos === null ? 'Blockfrost API failed' : 'No UTxOs at platform address'
+      await markFailed(claimedForPolicy, reason)
+      return jsonResponse({ error: reason }, 503)
+    }
+
+    // 3. Each ticket's reference NFT and its datum as of now
+    let missing = 0
+    for (const entry of claimedForPolicy) {
+      const ticket = ticketsById.get(entry.ticket_id)
+      const names = ticketAssetNames(ticket.ticket_number)
+      const refUtxo = utxos.find(u => utxoHasAsset(u, policyId + names.refAssetName))
+      if (!refUtxo) {
+        // Usually spent by a transfer still in flight; try again later
+        await markFailed([entry], `Reference NFT UTxO not found for ${policyId + names.refAssetName}`, false)
+        missing++
+        continue
+      }
+      ready.push({
+        entry,
+        update: {
+          names,
+          refUtxo,
+          datum: ticketDatum({
+            ticketId: ticket.id,
+            ticketNumber: ticket.ticket_number,
+            eventId: event.id,
+            eventTitle: event.title,
+            eventDate: event.date,
+            venue: event.venue,
+            // Only transfers name the holder; the mint datum has no owner
+            owner: ticket.nft_transfer_tx_hash ? entry.buyer_address : undefined,
+          }),
+        },
+      })
+    }
+    if (ready.length === 0) {
+      return jsonResponse({ error: 'No reference NFTs found to refresh', failed: missing }, 422)
+    }
+
+    // 4. Pack as many as fit into one transaction
+    const { tx, count } = packTicketDatumUpdateBatch({
+      platformAddress: addressBytes(platformAddress),
+      platformUtxos: utxos,
+      policy,
+      updates: ready.map(r => r.update),
+      protocolParams,
+      currentSlot,
+    })
+    const overflow = ready.slice(count)
+    ready = ready.slice(0, count)
+    console.log(`[refresh] Tx ${tx.hash}: ${count} ticket(s), ${tx.size} bytes, fee ${tx.fee} lovelace`)
+
+    if (overflow.length > 0) {
+      await supabase.from('nft_mint_queue').update({ status: 'queued' })
+        .in('id', overflow.map(r => r.entry.id))
+    }
+
+    // 5. Sign and submit
+    const signed = signTransaction(tx, [keys])
+    const txHash = await chain.submitTx(signed.cbor)
+    console.log(`[refresh] Tx submitted: ${txHash}`)
+
+    // 6. Submitted, not yet confirmed: confirm-nft-txs watches it from here
+    const submittedAt = new Date().toISOString()
+    const feeShare = Math.ceil(tx.fee / count)
+    for (const { entry, update } of ready) {
+      await supabase.from('nft_mint_queue').update({
+        status: 'refreshed', tx_hash: txHash, policy_id: policyId,
+        reference_asset_id: policyId + update.names.refAssetName,
+        fee_lovelace: feeShare, error_message: null,
+        chain_status: 'submitted', ttl_slot: tx.ttl, submitted_at: submittedAt,
+        confirmations: 0, block_height: null, confirmed_at: null,
+      }).eq('id', entry.id)
+    }
+
+    // More of this event may still be waiting: chain the next batch
+    if (overflow.length > 0 || otherPolicy.length > 0 || claimed.length === MAX_BATCH_TICKETS) {
+      invokeSelf({ event_id: eventId })
+    }
+
+    return jsonResponse({
+      success: true, tx_hash: txHash, policy_id: policyId,
+      refreshed: count, requeued: overflow.length + otherPolicy.length,
+      skipped: skipped.length, failed: missing, fee_lovelace: tx.fee,
+    })
+
+  } catch (err) {
+    console.error('[refresh] Error:', err)
+    // Nothing reached the chain: the batch goes back to the queue
+    try {
+      const entries = ready.length > 0 ? ready.map(r => r.entry) : claimedForPolicy
+      if (entries.length > 0) await markFailed(entries, err.message)
+    } catch (_) {}
+    return jsonResponse({ error: err.message }, 500)
+  }
+})
+
+const MAX_RETRIES = 5
+
+async function markFailed(entries: any[], errorMessage: string, retryNow = true) {
+  let requeued: string | null = null
+
+  for (const entry of entries) {
+    const { data } = await supabase.from('nft_mint_queue').select('retry_count').eq('id', entry.id).single()
+    const retryCount = (data?.retry_count || 0) + 1
+
+    if (retryCount > MAX_RETRIES) {
+      await supabase.from('nft_mint_queue').update({
+        status: 'failed',
+        error_message: `Gave up after ${retryCount} retries: ${errorMessage}`,
+        retry_count: retryCount,
+      }).eq('id', entry.id)
+      console.error(`[refresh] Permanently failed ${entry.id} after ${retryCount} retries`)
+      continue
+    }
+
+    await supabase.from('nft_mint_queue').update({
+      status: 'queued',
+      error_message: `Retry #${retryCount}: ${errorMessage}`,
+      retry_count: retryCount,
+    }).eq('id', entry.id)
+    requeued = entry.event_id
+  }
+
+  if (requeued && retryNow) invokeSelf({ event_id: requeued })
+}
+
+function invokeSelf(body: Record<string, unknown>) {
+  runInBackground(fetch(`${supabaseUrl}/functions/v1/refresh-ticket-nfts`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${supabaseServiceKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  }).catch(err => console.error(`[refresh] Self invocation failed: ${err}`)))
+}
+
+function jsonResponse(data: any, status = 200) {
+  return new Response(JSON.stringify(data), {
+    status, headers: { 'Content-Type': 'application/json' },
+  })
+}
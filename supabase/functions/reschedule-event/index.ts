@@ -0,0 +1,169 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
+import { runInBackground } from '../_shared/background.ts'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey)
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Moves an event to a new date, keeping every ticket valid (see the
+// event_reschedules migration).
+//
+//   { event_id, new_date, reason?, refund_until? }
+//
+// reschedule_event updates the date, notifies ticket holders and queues
+// ticket NFT refreshes. With `refund_until`, holders can get a full refund
+// until then and resale is paused meanwhile. This function then pushes the
+// new date to wallet passes and starts the NFT refresh.
+//
+// The admin dashboard calls with the service role key and names the
+// platform admin in `admin_user_id`.
+
+interface RescheduleRequest {
+  event_id?: string
+  new_date?: string
+  reason?: string
+  refund_until?: string | null
+  admin_user_id?: string
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return jsonResponse({ error: 'Missing authorization header' }, 401)
+    }
+
+    const body: RescheduleRequest = await req.json().catch(() => ({}))
+
+    let userId: string | null
+    let isPlatformAdmin = false
+    if (authHeader === `Bearer ${supabaseServiceKey}` && body.admin_user_id) {
+      userId = body.admin_user_id
+      isPlatformAdmin = true
+    } else {
+      const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(
+        authHeader.replace('Bearer ', '')
+      )
+      if (authError || !user) {
+        return jsonResponse({ error: 'Invalid authentication' }, 401)
+      }
+      userId = user.id
+    }
+
+    if (!body.event_id || !body.new_date) {
+      return jsonResponse({ error: 'event_id and new_date are required' }, 400)
+    }
+    const newDate = new Date(body.new_date)
+    const refundUntil = body.refund_until ? new Date(body.refund_until) : null
+    if (isNaN(newDate.getTime()) || (refundUntil && isNaN(refundUntil.getTime()))) {
+      return jsonResponse({ error: 'Invalid date' }, 400)
+    }
+
+    const { data: event, error: eventError } = await supabaseAdmin
+      .from('events')
+      .select('id, organizer_id, title')
+      .eq('id', body.event_id)
+      .single()
+
+    if (eventError || !event) {
+      return jsonResponse({ error: 'Event not found' }, 404)
+    }
+
+    if (!isPlatformAdmin && event.organizer_id !== userId) {
+      return jsonResponse({ error: 'Only the event organizer can reschedule an event' }, 403)
+    }
+
+    const { data: reschedule, error } = await supabaseAdmin.rpc('reschedule_event', {
+      p_event_id: event.id,
+      p_new_date: newDate.toISOString(),
+      p_requested_by: userId,
+      p_reason: body.reason?.slice(0, 500) ?? null,
+      p_refund_until: refundUntil?.toISOString() ?? null,
+    })
+    if (error) {
+      // Checks raised by reschedule_event are meant for the organizer
+      if (error.code === 'P0001') return jsonResponse({ error: error.message }, 400)
+      throw new Error(error.message)
+    }
+
+    console.log(
+      `[reschedule-event] Event ${event.id} moved from ${reschedule.previous_date} to ${reschedule.new_date}: ` +
+      `${reschedule.notified_holders} holder(s) notified, ${reschedule.nft_refreshes} NFT refresh(es) queued`
+    )
+
+    if (reschedule.nft_refreshes > 0) {
+      invokeFunction('refresh-ticket-nfts', { event_id: event.id })
+    }
+
+    const passesUpdated = await updateWalletPasses(event.id)
+    if (passesUpdated > 0) {
+      await supabaseAdmin
+        .from('event_reschedules')
+        .update({ wallet_passes_updated: passesUpdated })
+        .eq('id', reschedule.id)
+      reschedule.wallet_passes_updated = passesUpdated
+    }
+
+    return jsonResponse({ success: true, event_title: event.title, reschedule })
+
+  } catch (error: any) {
+    console.error('Error rescheduling event:', error)
+    return jsonResponse({ error: error.message || 'Failed to reschedule event' }, 500)
+  }
+})
+
+// ====================================================================
+// Helpers
+// ====================================================================
+
+/** Pushes the new date to the event's Apple and Google passes; the
+ *  reschedule stands even if this fails. Returns the passes updated. */
+async function updateWalletPasses(eventId: string): Promise<number> {
+  try {
+    const res = await fetch(`${supabaseUrl}/functions/v1/update-wallet-passes`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${supabaseServiceKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ event_id: eventId }),
+    })
+    const result = await res.json().catch(() => ({}))
+    if (!res.ok) {
+      console.error(`[reschedule-event] Wallet pass update failed: ${result.error ?? res.status}`)
+      return 0
+    }
+    return (result.apple_updated ?? 0) + (result.google_updated ?? 0)
+  } catch (err) {
+    console.error(`[reschedule-event] Wallet pass update failed: ${err}`)
+    return 0
+  }
+}
+
+function invokeFunction(name: string, body: Record<string, unknown>) {
+  runInBackground(fetch(`${supabaseUrl}/functions/v1/${name}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${supabaseServiceKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  }).catch(err => console.error(`[reschedule-event] ${name} invocation failed: ${err}`)))
+}
+
+function jsonResponse(data: any, status = 200) {
+  return new Response(JSON.stringify(data), {
+    status, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
@@ -0,0 +1,102 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
+import {
+  bytesToHex,
+  CardanoConfigError,
+  checkedSigningKey,
+  enterpriseAddress,
+  keyHash,
+  loadPlatformCardano,
+  type PlatformKey,
+  pubKeyPolicy,
+} from '../_shared/cardano/mod.ts'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+// Rotates the platform minting key for the configured network.
+//
+// Body: { signing_key_secret, verify_key }. Set the new signing key as an
+// Edge Function secret first, then call this with its name; the key never
+// travels in the request. The previous key is retired, not deleted: keep its
+// secret (and some ADA at its address) until every ticket minted under its
+// policy has been burned. Fund the new address before minting resumes.
+//
+// Service role only (called from the admin NFT wallet page).
+
+serve(async (req) => {
+  try {
+    if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+      return jsonResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const { signing_key_secret, verify_key } = await req.json().catch(() => ({}))
+    if (!signing_key_secret || !verify_key) {
+      return jsonResponse({ error: 'signing_key_secret and verify_key required' }, 400)
+    }
+
+    const cardano = await loadPlatformCardano(supabase)
+    const { network } = cardano
+
+    // Validate the new key before touching the history
+    const secret = Deno.env.get(signing_key_secret)
+    if (!secret) return jsonResponse({ error: `Secret ${signing_key_secret} is not set` }, 400)
+    const keys = checkedSigningKey(secret, verify_key, network)
+    const policyId = pubKeyPolicy(keyHash(keys.publicKey)).policyId
+    const address = enterpriseAddress(keys.publicKey, network)
+
+    // No usable current key (first setup, or a lost secret) must not block
+    // installing a new one
+    let current: PlatformKey | null = null
+    try {
+      current = cardano.active()
+    } catch (err) {
+      if (!(err instanceof CardanoConfigError)) throw err
+      console.warn(`[rotate-key] No usable current key: ${err.message}`)
+    }
+
+    // A key still running from the legacy PLATFORM_CARDANO_* secrets gets a
+    // history row first, so its policy stays signable after the rotation
+    if (current && current.id === null) {
+      await rotateTo(network, current.policy.policyId, bytesToHex(current.keys.publicKey),
+        current.address, 'PLATFORM_CARDANO_SIGNING_KEY')
+      console.log(`[rotate-key] Recorded legacy key for policy ${current.policy.policyId}`)
+    }
+
+    const keyId = await rotateTo(network, policyId, bytesToHex(keys.publicKey), address, signing_key_secret)
+    console.log(`[rotate-key] ${network}: policy ${current?.policy.policyId ?? 'none'} → ${policyId}`)
+
+    return jsonResponse({
+      success: true,
+      key_id: keyId,
+      network,
+      policy_id: policyId,
+      address,
+      previous_policy_id: current?.policy.policyId ?? null,
+    })
+
+  } catch (err) {
+    console.error('[rotate-key] Error:', err)
+    return jsonResponse({ error: err.message }, err instanceof CardanoConfigError ? 400 : 500)
+  }
+})
+
+async function rotateTo(network: string, policyId: string, verifyKey: string, address: string, secretName: string) {
+  const { data, error } = await supabase.rpc('rotate_platform_signing_key', {
+    p_network: network,
+    p_policy_id: policyId,
+    p_verify_key: verifyKey,
+    p_address: address,
+    p_signing_key_secret: secretName,
+  })
+  if (error) throw new Error(`Key rotation failed: ${error.message}`)
+  return data as string
+}
+
+function jsonResponse(data: any, status = 200) {
+  return new Response(JSON.stringify(data), {
+    status, headers: { 'Content-Type': 'application/json' },
+  })
+}
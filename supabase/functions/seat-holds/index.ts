@@ -0,0 +1,143 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
+import { holdBestAvailable, MAX_BEST_AVAILABLE } from '../_shared/seating.ts'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Seat inventory for the signed-in buyer.
+//
+//   { action: 'hold', event_id, seats: [{ section_id, seat_id }], ttl_seconds? }
+//       → { hold_id, expires_at }, or 409 { error, conflicts } when any seat
+//         is sold, blocked or held by someone else (nothing is held then)
+//   { action: 'best_available', event_id, quantity, section_id?, pricing_tier?, accessible? }
+//       → { hold_id, expires_at, seats }, the nearest `quantity` seats
+//         together in one row, held; `seats` is ready for seat_selections.
+//         409 when no row has room
+//   { action: 'extend', hold_id, ttl_seconds? }  → { hold_id, expires_at }
+//   { action: 'release', hold_id }               → { released }
+//
+// create-payment-intent re-holds the checkout's seats itself, so a hold
+// that lapses while the buyer is on the payment screen is not lost unless
+// someone else took the seats meanwhile.
+
+interface SeatHoldRequest {
+  action: 'hold' | 'best_available' | 'extend' | 'release'
+  event_id?: string
+  seats?: Array<{ section_id: string; seat_id: string }>
+  quantity?: number
+  section_id?: string
+  pricing_tier?: string
+  accessible?: boolean
+  hold_id?: string
+  ttl_seconds?: number
+}
+
+const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey)
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return jsonResponse({ error: 'Missing authorization header' }, 401)
+    }
+
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    )
+    if (authError || !user) {
+      return jsonResponse({ error: 'Invalid authentication' }, 401)
+    }
+
+    const body: SeatHoldRequest = await req.json()
+    const { action, event_id, seats, hold_id, ttl_seconds } = body
+
+    if (action === 'best_available') {
+      const { quantity, section_id, pricing_tier, accessible } = body
+      if (!event_id || !quantity) {
+        return jsonResponse({ error: 'Missing required fields: event_id, quantity' }, 400)
+      }
+      if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_BEST_AVAILABLE) {
+        return jsonResponse({ error: `Quantity must be between 1 and ${MAX_BEST_AVAILABLE}` }, 400)
+      }
+
+      const result = await holdBestAvailable(supabaseAdmin, event_id, user.id, [
+        { quantity, section_id, pricing_tier, accessible },
+      ])
+      if (!result.success) return jsonResponse({ error: result.error }, 409)
+
+      console.log(`[seat-holds] ${user.id} best available on ${event_id}: ${result.seats[0].map((s) => s.seat_label).join(', ')}`)
+      return jsonResponse({ hold_id: result.hold_id, expires_at: result.expires_at, seats: result.seats[0] })
+    }
+
+    if (action === 'hold') {
+      if (!event_id || !Array.isArray(seats) || seats.length === 0) {
+        return jsonResponse({ error: 'Missing required fields: event_id, seats' }, 400)
+      }
+      if (seats.some((s) => !s?.section_id || !s?.seat_id)) {
+        return jsonResponse({ error: 'Each seat needs section_id and seat_id' }, 400)
+      }
+
+      const { data, error } = await supabaseAdmin.rpc('hold_seats', {
+        p_event_id: event_id,
+        p_user_id: user.id,
+        p_seats: seats.map((s) => ({ section_id: s.section_id, seat_id: s.seat_id })),
+        ...(ttl_seconds && { p_ttl_seconds: ttl_seconds }),
+      })
+      if (error) throw new Error(`hold_seats failed: ${error.message}`)
+
+      if (!data.success) {
+        console.log(`[seat-holds] Hold refused for ${user.id} on ${event_id}: ${JSON.stringify(data.conflicts ?? data.error)}`)
+        return jsonResponse({ error: data.error, conflicts: data.conflicts ?? [] }, data.conflicts ? 409 : 400)
+      }
+
+      console.log(`[seat-holds] ${user.id} holds ${seats.length} seat(s) on ${event_id} until ${data.expires_at}`)
+      return jsonResponse({ hold_id: data.hold_id, expires_at: data.expires_at })
+    }
+
+    if (action === 'extend' || action === 'release') {
+      if (!hold_id) {
+        return jsonResponse({ error: 'Missing required field: hold_id' }, 400)
+      }
+
+      if (action === 'release') {
+        const { data, error } = await supabaseAdmin.rpc('release_seat_hold', {
+          p_hold_id: hold_id,
+          p_user_id: user.id,
+        })
+        if (error) throw new Error(`release_seat_hold failed: ${error.message}`)
+        return jsonResponse({ released: data.released })
+      }
+
+      const { data, error } = await supabaseAdmin.rpc('extend_seat_hold', {
+        p_hold_id: hold_id,
+        p_user_id: user.id,
+        ...(ttl_seconds && { p_ttl_seconds: ttl_seconds }),
+      })
+      if (error) throw new Error(`extend_seat_hold failed: ${error.message}`)
+      if (!data.success) return jsonResponse({ error: data.error }, 404)
+      return jsonResponse({ hold_id: data.hold_id, expires_at: data.expires_at })
+    }
+
+    return jsonResponse({ error: 'Invalid action. Must be "hold", "best_available", "extend" or "release"' }, 400)
+
+  } catch (err) {
+    console.error('[seat-holds] Error:', err)
+    return jsonResponse({ error: err.message || 'Internal server error' }, 500)
+  }
+})
+
+function jsonResponse(data: any, status = 200) {
+  return new Response(JSON.stringify(data), {
+    status, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
@@ -1,5 +1,7 @@
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
+import { formatMinor } from '../_shared/currency.ts'
+import { receiptTaxRows } from '../_shared/tax.ts'
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
@@ -154,6 +156,26 @@ serve(async (req) => {
     if (event.city) locationText += (locationText ? ', ' : '') + event.city
     if (event.country) locationText += (locationText ? ', ' : '') + event.country
 
+    // Cash sales at the door get what was paid, with any sales tax
+    const { data: cashSale } = await supabaseAdmin
+      .from('cash_transactions')
+      .select('amount_cents, currency, tax_cents, tax_inclusive, tax_lines')
+      .eq('ticket_id', ticket.id)
+      .maybeSingle()
+    let paymentRows = ''
+    if (cashSale && cashSale.amount_cents > 0) {
+      const currency = (cashSale.currency || 'usd').toLowerCase()
+      const paidCents = cashSale.amount_cents + (cashSale.tax_inclusive ? 0 : cashSale.tax_cents)
+      paymentRows = [
+        { label: 'Paid (cash)', amount: formatMinor(paidCents, currency) },
+        ...receiptTaxRows(cashSale.tax_lines, cashSale.tax_inclusive, currency),
+      ].map((r) => `
+              <div class="detail-row">
+                <span class="detail-label">${escapeHtml(r.label)}</span>
+                <span class="detail-value">${escapeHtml(r.amount)}</span>
+              </div>`).join('')
+    }
+
     // Generate QR code URL (using quickchart.io for simplicity)
     const qrData = ticket.qr_code || ticket.ticket_number
     const qrCodeUrl = `https://quickchart.io/qr?text=${encodeURIComponent(qrData)}&size=300&dark=000000&light=ffffff`
@@ -270,7 +292,7 @@ serve(async (req) => {
               <div class="detail-row">
                 <span class="detail-label">Ticket #</span>
                 <span class="detail-value">${ticket.ticket_number}</span>
-              </div>
+              </div>${paymentRows}
               <div class="qr-section">
                 <img src="${qrCodeUrl}" alt="Ticket QR Code">
                 <div class="qr-label">Present this QR code at entry</div>
@@ -361,3 +383,7 @@ serve(async (req) => {
     )
   }
 })
+
+function escapeHtml(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
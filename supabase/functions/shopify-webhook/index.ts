@@ -1,58 +1,119 @@
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
+import { decode as base64Decode } from 'https://deno.land/std@0.177.0/encoding/base64.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
 const supabase = createClient(supabaseUrl, supabaseServiceKey)
 
+/** Cart attribute create-merch-payment puts on the Shopify checkout. */
+const ORDER_ATTRIBUTE = 'tickety_order_id'
+
+// Fulfillment and payment updates never move an order out of these
+const FINAL_STATUSES = ['cancelled', 'refunded']
+
+interface MerchOrderRow {
+  id: string
+  status: string
+  quantity: number
+  amount_cents: number
+  refunded_cents: number
+  shopify_order_id: string | null
+}
+
+const ORDER_COLUMNS = 'id, status, quantity, amount_cents, refunded_cents, shopify_order_id'
+
+function json(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  })
+}
+
 serve(async (req) => {
   try {
     const topic = req.headers.get('x-shopify-topic')
-    const body = await req.json()
+    const shopDomain = req.headers.get('x-shopify-shop-domain')
+    const hmac = req.headers.get('x-shopify-hmac-sha256')
+    const webhookId = req.headers.get('x-shopify-webhook-id')
+
+    // Verify against the raw body — re-serialized JSON would not match
+    const rawBody = await req.text()
+
+    if (!topic || !shopDomain || !hmac) {
+      return json({ error: 'Missing Shopify webhook headers' }, 401)
+    }
+
+    const { data: config } = await supabase
+      .from('organizer_merch_config')
+      .select('organizer_id, shopify_webhook_secret')
+      .eq('provider', 'shopify')
+      .eq('shopify_domain', shopDomain.toLowerCase())
+      .maybeSingle()
 
-    console.log(`Shopify webhook: ${topic}`)
+    if (!config?.shopify_webhook_secret) {
+      console.warn(`Shopify webhook from unconfigured shop ${shopDomain}`)
+      return json({ error: 'Unknown shop' }, 401)
+    }
+
+    if (!await verifyShopifyHmac(rawBody, hmac, config.shopify_webhook_secret)) {
+      console.warn(`Shopify webhook HMAC mismatch for ${shopDomain} (${topic})`)
+      return json({ error: 'Invalid signature' }, 401)
+    }
+
+    const body = JSON.parse(rawBody)
+    const organizerId: string = config.organizer_id
+
+    console.log(`Shopify webhook: ${topic} from ${shopDomain}`)
+
+    // Shopify retries with the same webhook ID — handle each delivery once
+    if (webhookId) {
+      const { data: delivered } = await supabase
+        .from('shopify_webhook_deliveries')
+        .select('webhook_id')
+        .eq('webhook_id', webhookId)
+        .maybeSingle()
+
+      if (delivered) {
+        console.log(`Skipping duplicate Shopify webhook ${webhookId}`)
+        return json({ received: true, duplicate: true })
+      }
+    }
 
     switch (topic) {
-      case 'orders/fulfilled': {
-        // Find the merch order by shopify order data
-        const shopifyOrderId = body.id?.toString()
-        if (!shopifyOrderId) break
-
-        // Try to match by product external_id + user
-        const fulfillment = body.fulfillments?.[0]
-        const trackingInfo = fulfillment ? {
-          tracking_number: fulfillment.tracking_number,
-          tracking_url: fulfillment.tracking_url,
-          carrier: fulfillment.tracking_company,
-        } : null
-
-        // Update matching orders to shipped/delivered
-        const { error } = await supabase
-          .from('merch_orders')
-          .update({
-            status: fulfillment ? 'shipped' : 'delivered',
-            ...(trackingInfo && { tracking_info: trackingInfo }),
-            updated_at: new Date().toISOString(),
-          })
-          .eq('shopify_checkout_url', shopifyOrderId)
-
-        if (error) {
-          console.error('Failed to update order for fulfillment:', error)
+      case 'orders/create':
+      case 'orders/paid': {
+        const order = await findMerchOrder(organizerId, body)
+        if (!order) break
+
+        if (topic === 'orders/paid' && order.status === 'pending') {
+          await updateOrder(order.id, { status: 'paid' })
         }
         break
       }
 
+      case 'orders/updated':
+      case 'orders/partially_fulfilled':
+      case 'orders/fulfilled': {
+        const order = await findMerchOrder(organizerId, body)
+        if (!order) break
+        await reconcileFulfillment(order, body)
+        break
+      }
+
       case 'orders/cancelled': {
-        const shopifyOrderId = body.id?.toString()
-        if (!shopifyOrderId) break
-
-        await supabase
-          .from('merch_orders')
-          .update({
-            status: 'cancelled',
-            updated_at: new Date().toISOString(),
-          })
-          .eq('shopify_checkout_url', shopifyOrderId)
+        const order = await findMerchOrder(organizerId, body)
+        if (!order || order.status === 'refunded') break
+
+        await updateOrder(order.id, { status: 'cancelled' })
+        console.log(`Merch order ${order.id} cancelled in Shopify`)
+        break
+      }
+
+      case 'refunds/create': {
+        const order = await findMerchOrder(organizerId, { id: body.order_id })
+        if (!order) break
+        await applyRefund(order, body)
         break
       }
 
@@ -60,15 +121,179 @@ serve(async (req) => {
         console.log(`Unhandled Shopify topic: ${topic}`)
     }
 
-    return new Response(JSON.stringify({ received: true }), {
-      status: 200,
-      headers: { 'Content-Type': 'application/json' },
-    })
+    // Recorded only once handled, so a delivery that never got here is
+    // processed when Shopify retries it
+    if (webhookId) {
+      const { error: recordError } = await supabase
+        .from('shopify_webhook_deliveries')
+        .insert({
+          webhook_id: webhookId,
+          organizer_id: organizerId,
+          topic,
+          shopify_order_id: String(body.order_id ?? body.id ?? ''),
+        })
+
+      if (recordError && recordError.code !== '23505') {
+        console.error(`Failed to record Shopify webhook ${webhookId}:`, recordError)
+      }
+    }
+
+    return json({ received: true })
   } catch (error) {
     console.error('Shopify webhook error:', error)
-    return new Response(JSON.stringify({ error: error.message }), {
-      status: 500,
-      headers: { 'Content-Type': 'application/json' },
-    })
+    return json({ error: error.message }, 500)
   }
 })
+
+/**
+ * Shopify signs the raw request body with HMAC-SHA256 and sends the
+ * base64 digest. crypto.subtle.verify compares in constant time.
+ */
+async function verifyShopifyHmac(rawBody: string, hmacHeader: string, secret: string): Promise<boolean> {
+  let signature: Uint8Array
+  try {
+    signature = base64Decode(hmacHeader)
+  } catch {
+    return false
+  }
+
+  const encoder = new TextEncoder()
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['verify'],
+  )
+  return crypto.subtle.verify('HMAC', key, signature.buffer as ArrayBuffer, encoder.encode(rawBody))
+}
+
+/**
+ * Find the merch order for a Shopify order. Orders are matched by stored
+ * Shopify order ID; the first webhook for an order links it through the
+ * tickety_order_id cart attribute. Anything else is left unmatched.
+ */
+async function findMerchOrder(organizerId: string, shopifyOrder: any): Promise<MerchOrderRow | null> {
+  const shopifyOrderId = shopifyOrder?.id?.toString()
+  if (!shopifyOrderId) return null
+
+  const { data: linked } = await supabase
+    .from('merch_orders')
+    .select(ORDER_COLUMNS)
+    .eq('organizer_id', organizerId)
+    .eq('shopify_order_id', shopifyOrderId)
+    .maybeSingle()
+
+  if (linked) return linked as MerchOrderRow
+
+  const attributes: { name: string; value: string }[] = shopifyOrder.note_attributes ?? []
+  const ticketyOrderId = attributes.find((a) => a.name === ORDER_ATTRIBUTE)?.value
+  if (!ticketyOrderId) {
+    console.log(`Shopify order ${shopifyOrderId} has no ${ORDER_ATTRIBUTE}, not a Tickety order`)
+    return null
+  }
+
+  // Link only an order that belongs to this shop and isn't linked elsewhere
+  const { data: claimed, error } = await supabase
+    .from('merch_orders')
+    .update({ shopify_order_id: shopifyOrderId, updated_at: new Date().toISOString() })
+    .eq('id', ticketyOrderId)
+    .eq('organizer_id', organizerId)
+    .is('shopify_order_id', null)
+    .select(ORDER_COLUMNS)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to link Shopify order ${shopifyOrderId}: ${error.message}`)
+  }
+  if (!claimed) {
+    console.warn(`Shopify order ${shopifyOrderId} references unknown or already-linked merch order ${ticketyOrderId}`)
+    return null
+  }
+
+  console.log(`Linked Shopify order ${shopifyOrderId} to merch order ${claimed.id}`)
+  return claimed as MerchOrderRow
+}
+
+async function updateOrder(orderId: string, fields: Record<string, unknown>) {
+  const { error } = await supabase
+    .from('merch_orders')
+    .update({ ...fields, updated_at: new Date().toISOString() })
+    .eq('id', orderId)
+
+  if (error) {
+    throw new Error(`Failed to update merch order ${orderId}: ${error.message}`)
+  }
+}
+
+/**
+ * Sync fulfilled units and tracking from the order's successful fulfillments.
+ * A partially fulfilled order stays `processing` until every unit ships.
+ */
+async function reconcileFulfillment(order: MerchOrderRow, shopifyOrder: any) {
+  if (FINAL_STATUSES.includes(order.status)) {
+    console.log(`Merch order ${order.id} is ${order.status}, ignoring fulfillment update`)
+    return
+  }
+
+  const fulfillments = (shopifyOrder.fulfillments ?? []).filter((f: any) => f.status === 'success')
+  if (fulfillments.length === 0) return
+
+  let fulfilledUnits = 0
+  for (const fulfillment of fulfillments) {
+    for (const item of fulfillment.line_items ?? []) {
+      fulfilledUnits += item.quantity ?? 0
+    }
+  }
+  fulfilledUnits = Math.min(fulfilledUnits, order.quantity)
+
+  const complete = fulfilledUnits >= order.quantity || shopifyOrder.fulfillment_status === 'fulfilled'
+  const delivered = complete && fulfillments.every((f: any) => f.shipment_status === 'delivered')
+
+  const latest = fulfillments[fulfillments.length - 1]
+  const trackingInfo = latest.tracking_number || latest.tracking_url
+    ? {
+      tracking_number: latest.tracking_number,
+      tracking_url: latest.tracking_url,
+      carrier: latest.tracking_company,
+    }
+    : null
+
+  const status = delivered ? 'delivered' : complete ? 'shipped' : 'processing'
+
+  await updateOrder(order.id, {
+    status,
+    fulfilled_quantity: complete ? order.quantity : fulfilledUnits,
+    ...(trackingInfo && { tracking_info: trackingInfo }),
+  })
+
+  console.log(`Merch order ${order.id}: ${fulfilledUnits}/${order.quantity} fulfilled (${status})`)
+}
+
+/**
+ * Add a Shopify refund to the order's refunded total. Only successful
+ * refund transactions count; the order is refunded once fully covered.
+ */
+async function applyRefund(order: MerchOrderRow, refund: any) {
+  let refundCents = 0
+  for (const tx of refund.transactions ?? []) {
+    if (tx.kind === 'refund' && tx.status === 'success') {
+      refundCents += Math.round(parseFloat(tx.amount) * 100)
+    }
+  }
+
+  if (refundCents <= 0) {
+    console.log(`Shopify refund ${refund.id} moved no money for merch order ${order.id}`)
+    return
+  }
+
+  const refundedCents = order.refunded_cents + refundCents
+  const fullyRefunded = refundedCents >= order.amount_cents
+
+  await updateOrder(order.id, {
+    refunded_cents: refundedCents,
+    ...(fullyRefunded && { status: 'refunded' }),
+  })
+
+  console.log(`Merch order ${order.id}: refunded ${refundCents} cents (${refundedCents}/${order.amount_cents})`)
+}
@@ -0,0 +1,82 @@
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
+import Stripe from 'https://esm.sh/stripe@14.21.0'
+import { crypto } from 'https://deno.land/std@0.177.0/crypto/mod.ts'
+import { encode as hexEncode } from 'https://deno.land/std@0.177.0/encoding/hex.ts'
+
+/**
+ * Everything a webhook handler touches outside its own arguments.
+ *
+ * Handlers never reach for module-level clients so the test harness can run
+ * them against a local Postgres with a fake Stripe and no outbound calls.
+ */
+export interface WebhookContext {
+  supabase: SupabaseClient
+  stripe: Stripe
+  ticketSigningSecret: string
+  /**
+   * Events from the Stripe test account. Their payments are recorded but
+   * fulfil nothing (see isTestPayment in dispatch.ts).
+   */
+  testMode: boolean
+  /** Fire-and-forget invocation of another edge function. */
+  invokeFunction: (name: string, body: Record<string, unknown>) => void
+}
+
+/**
+ * `mode: 'test'` talks to Stripe with the test-mode secret; it handles the
+ * events of the test account, e.g. checkouts made with test-mode widget keys.
+ */
+export function createWebhookContext(mode: 'live' | 'test' = 'live'): WebhookContext {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+  return {
+    // Use service role for webhook operations
+    supabase: createClient(supabaseUrl, supabaseServiceKey),
+    stripe: new Stripe(Deno.env.get(mode === 'test' ? 'STRIPE_TEST_SECRET_KEY' : 'STRIPE_SECRET_KEY')!, {
+      apiVersion: '2023-10-16',
+    }),
+    ticketSigningSecret: Deno.env.get('TICKET_SIGNING_SECRET') || '',
+    testMode: mode === 'test',
+    invokeFunction: (name, body) => {
+      fetch(`${supabaseUrl}/functions/v1/${name}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${supabaseServiceKey}`,
+        },
+        body: JSON.stringify(body),
+      }).catch(err => console.error(`Fire-and-forget ${name} failed:`, err.message))
+    },
+  }
+}
+
+/// Generate HMAC-SHA256 signature for NFC Layer 0 verification.
+export async function generateNfcSignature(
+  ctx: WebhookContext,
+  ticketId: string,
+  eventId: string,
+  category: string,
+): Promise<string | null> {
+  if (!ctx.ticketSigningSecret) return null
+  const encoder = new TextEncoder()
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(ctx.ticketSigningSecret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  )
+  const message = encoder.encode(ticketId + eventId + category)
+  const signature = await crypto.subtle.sign('HMAC', key, message)
+  return new TextDecoder().decode(hexEncode(new Uint8Array(signature)))
+}
+
+/**
+ * Generate a human-readable ticket number, e.g. TKT-482913-0042.
+ */
+export function generateTicketNumber(): string {
+  const timestamp = Date.now().toString().substring(7)
+  const random = Math.floor(Math.random() * 9999).toString().padStart(4, '0')
+  return `TKT-${timestamp}-${random}`
+}
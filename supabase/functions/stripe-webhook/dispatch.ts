@@ -0,0 +1,368 @@
+import type Stripe from 'https://esm.sh/stripe@14.21.0'
+import type { WebhookContext } from './context.ts'
+import { handleIdentityFailed, handleIdentityVerified } from './identity.ts'
+import {
+  getPurchaseHandler,
+  MetadataError,
+  parseMetadata,
+  recordDeadLetter,
+  type MetadataSchema,
+  type ParsedMetadata,
+  type PaymentRecord,
+  type PurchaseHandler,
+} from './registry.ts'
+import {
+  handleInvoicePaid,
+  handleSubscriptionCreated,
+  handleSubscriptionDeleted,
+  handleSubscriptionUpdated,
+} from './subscriptions.ts'
+import './handlers/mod.ts'
+
+export type DispatchOutcome = 'handled' | 'dead_lettered' | 'ignored'
+
+const PAYMENT_COLUMNS = 'id, type, ticket_id, metadata, seat_selections'
+
+/**
+ * Route a verified (or replayed) Stripe event to its handler.
+ * `ledgerId` is the webhook_events row, linked from any dead letter.
+ */
+export async function dispatchStripeEvent(
+  ctx: WebhookContext,
+  event: Stripe.Event,
+  ledgerId: string | null,
+): Promise<DispatchOutcome> {
+  switch (event.type) {
+    case 'payment_intent.succeeded':
+    case 'payment_intent.payment_failed': {
+      const paymentIntent = event.data.object as Stripe.PaymentIntent
+
+      // Subscription invoice PaymentIntents carry no purchase type;
+      // invoice.paid records those payments.
+      if (paymentIntent.invoice) {
+        console.log(`Skipping invoice PaymentIntent ${paymentIntent.id}`)
+        return 'ignored'
+      }
+
+      const resolved = await resolvePurchase(ctx, event, ledgerId, paymentIntent.metadata)
+      if (!resolved) return 'dead_lettered'
+
+      if (event.type === 'payment_intent.succeeded') {
+        await handlePaymentSucceeded(ctx, paymentIntent, resolved.handler, resolved.metadata)
+      } else {
+        await handlePaymentFailed(ctx, paymentIntent, resolved.handler, resolved.metadata)
+      }
+      break
+    }
+
+    case 'payment_intent.processing': {
+      // ACH payments go through a processing state before succeeding
+      const paymentIntent = event.data.object as Stripe.PaymentIntent
+      console.log(`Payment processing: ${paymentIntent.id}, type: ${paymentIntent.metadata?.type}`)
+      break
+    }
+
+    case 'charge.refunded':
+      await handleChargeRefunded(ctx, event.data.object as Stripe.Charge)
+      break
+
+    // Invoice events (for subscription payment tracking)
+    case 'invoice.paid':
+      await handleInvoicePaid(ctx, event.data.object as Stripe.Invoice)
+      break
+
+    // Subscription events
+    case 'customer.subscription.created':
+      await handleSubscriptionCreated(ctx, event.data.object as Stripe.Subscription)
+      break
+
+    case 'customer.subscription.updated':
+      await handleSubscriptionUpdated(ctx, event.data.object as Stripe.Subscription)
+      break
+
+    case 'customer.subscription.deleted':
+      await handleSubscriptionDeleted(ctx, event.data.object as Stripe.Subscription)
+      break
+
+    // Identity verification events
+    case 'identity.verification_session.verified':
+      await handleIdentityVerified(ctx, event.data.object)
+      break
+
+    case 'identity.verification_session.requires_input':
+      await handleIdentityFailed(ctx, event.data.object)
+      break
+
+    default:
+      console.log(`Unhandled event type: ${event.type}`)
+      return 'ignored'
+  }
+
+  await resolveDeadLetter(ctx, event.id)
+  return 'handled'
+}
+
+/**
+ * Look up the handler for a PaymentIntent and validate its metadata.
+ * Returns null after dead-lettering the event when either step fails.
+ */
+async function resolvePurchase(
+  ctx: WebhookContext,
+  event: Stripe.Event,
+  ledgerId: string | null,
+  rawMetadata: Stripe.Metadata,
+) {
+  const purchaseType = rawMetadata?.type || null
+  const handler = getPurchaseHandler(purchaseType ?? undefined)
+
+  const deadLetter = (reason: string) => recordDeadLetter(ctx, {
+    webhookEventId: ledgerId,
+    stripeEventId: event.id,
+    eventType: event.type,
+    purchaseType,
+    reason,
+    payload: event,
+  })
+
+  if (!handler) {
+    await deadLetter(purchaseType ? `Unknown purchase type: ${purchaseType}` : 'PaymentIntent has no metadata.type')
+    return null
+  }
+
+  try {
+    return { handler, metadata: parseMetadata(handler.schema, rawMetadata) }
+  } catch (err) {
+    if (!(err instanceof MetadataError)) throw err
+    await deadLetter(`Malformed ${purchaseType} metadata: ${err.message}`)
+    return null
+  }
+}
+
+async function resolveDeadLetter(ctx: WebhookContext, stripeEventId: string) {
+  // A replay that now succeeds closes out the earlier dead letter
+  await ctx.supabase
+    .from('webhook_dead_letters')
+    .update({ resolved_at: new Date().toISOString() })
+    .eq('stripe_event_id', stripeEventId)
+    .is('resolved_at', null)
+}
+
+async function findPaymentByIntent(ctx: WebhookContext, paymentIntentId: string): Promise<PaymentRecord | null> {
+  const { data } = await ctx.supabase
+    .from('payments')
+    .select(PAYMENT_COLUMNS)
+    .eq('stripe_payment_intent_id', paymentIntentId)
+    .maybeSingle()
+  return data as PaymentRecord | null
+}
+
+async function handlePaymentSucceeded(
+  ctx: WebhookContext,
+  paymentIntent: Stripe.PaymentIntent,
+  handler: PurchaseHandler,
+  metadata: ParsedMetadata<MetadataSchema>,
+) {
+  const payment = handler.recordsPayment
+    ? await recordPaymentSucceeded(ctx, paymentIntent, handler.type)
+    : null
+
+  if (isTestPayment(ctx, paymentIntent, payment)) {
+    console.log(`Test-mode payment ${paymentIntent.id}: recorded, nothing fulfilled`)
+    await handler.onTestSucceeded?.(ctx, paymentIntent, metadata, payment)
+    return
+  }
+
+  await handler.onSucceeded?.(ctx, paymentIntent, metadata, payment)
+}
+
+/**
+ * Whether a payment was made against the Stripe test account: delivered
+ * through the test endpoint, or a checkout with a test-mode widget key.
+ * These issue no tickets, mints, passes, promo uses or seats.
+ */
+export function isTestPayment(
+  ctx: WebhookContext,
+  paymentIntent: Stripe.PaymentIntent,
+  payment: PaymentRecord | null,
+): boolean {
+  return ctx.testMode ||
+    paymentIntent.metadata?.widget_key_mode === 'test' ||
+    payment?.metadata?.test_mode === true
+}
+
+/**
+ * Mark the payment completed (or create it if checkout never did) and
+ * return the row so handlers can read checkout-time details like seats.
+ */
+async function recordPaymentSucceeded(
+  ctx: WebhookContext,
+  paymentIntent: Stripe.PaymentIntent,
+  type: string,
+): Promise<PaymentRecord | null> {
+  const { supabase, stripe } = ctx
+  const { event_id, user_id } = paymentIntent.metadata
+
+  // Try to fetch receipt URL from the charge
+  let receiptUrl: string | null = null
+  const chargeId = paymentIntent.latest_charge as string
+  if (chargeId) {
+    try {
+      const charge = await stripe.charges.retrieve(chargeId)
+      receiptUrl = charge.receipt_url || null
+    } catch (err) {
+      console.error('Failed to fetch charge for receipt URL:', err.message)
+    }
+  }
+
+  const existingPayment = await findPaymentByIntent(ctx, paymentIntent.id)
+
+  if (existingPayment) {
+    // Update existing record
+    const { error: updateError } = await supabase
+      .from('payments')
+      .update({
+        status: 'completed',
+        stripe_charge_id: chargeId,
+        ...(receiptUrl && { receipt_url: receiptUrl }),
+      })
+      .eq('id', existingPayment.id)
+
+    if (updateError) {
+      console.error('Failed to update payment record:', updateError)
+    }
+    return existingPayment
+  }
+
+  // Payment record was never created — insert it now
+  console.log('No existing payment record found, creating one from webhook')
+  const { data: inserted, error: insertError } = await supabase
+    .from('payments')
+    .insert({
+      user_id,
+      event_id,
+      amount_cents: paymentIntent.amount,
+      currency: paymentIntent.currency,
+      status: 'completed',
+      type,
+      stripe_payment_intent_id: paymentIntent.id,
+      stripe_charge_id: chargeId,
+      // Extract fee metadata (present when service fees were applied)
+      platform_fee_cents: parseInt(paymentIntent.metadata.service_fee_cents || '0', 10),
+      ...(receiptUrl && { receipt_url: receiptUrl }),
+      ...(paymentIntent.metadata.fee_schedule && {
+        fee_schedule: paymentIntent.metadata.fee_schedule,
+        fee_schedule_version: paymentIntent.metadata.fee_schedule_version,
+      }),
+      metadata: {
+        event_title: paymentIntent.metadata.event_title || null,
+        created_by_webhook: true,
+      },
+    })
+    .select(PAYMENT_COLUMNS)
+    .single()
+
+  if (insertError) {
+    console.error('Failed to insert payment record from webhook:', insertError)
+    return null
+  }
+  return inserted as PaymentRecord
+}
+
+async function handlePaymentFailed(
+  ctx: WebhookContext,
+  paymentIntent: Stripe.PaymentIntent,
+  handler: PurchaseHandler,
+  metadata: ParsedMetadata<MetadataSchema>,
+) {
+  const { supabase } = ctx
+  console.log(`Payment failed: ${paymentIntent.id}`)
+
+  // Find the payment first so we can cancel referral earnings
+  const failedPayment = await findPaymentByIntent(ctx, paymentIntent.id)
+
+  await handler.onFailed?.(ctx, paymentIntent, metadata, failedPayment)
+
+  if (!failedPayment) return
+
+  const { error } = await supabase
+    .from('payments')
+    .update({ status: 'failed' })
+    .eq('id', failedPayment.id)
+
+  if (error) {
+    console.error('Failed to update payment status:', error)
+  }
+
+  // Cancel any referral earnings for this payment
+  const { error: earningsError } = await supabase
+    .from('referral_earnings')
+    .update({ status: 'cancelled' })
+    .eq('payment_id', failedPayment.id)
+    .eq('status', 'pending')
+
+  if (earningsError) {
+    console.error('Failed to cancel referral earnings:', earningsError)
+  }
+}
+
+async function handleChargeRefunded(ctx: WebhookContext, charge: Stripe.Charge) {
+  const { supabase } = ctx
+  console.log(`Charge refunded: ${charge.id}`)
+
+  // Partial refunds are per-ticket refunds from process-refund, which
+  // settles the tickets and payment itself
+  if (!charge.refunded) {
+    console.log(`Partial refund of ${charge.amount_refunded}/${charge.amount} on ${charge.id}, left to process-refund`)
+    return
+  }
+
+  // Find the payment by charge ID
+  const { data: payment, error: findError } = await supabase
+    .from('payments')
+    .select(PAYMENT_COLUMNS)
+    .eq('stripe_charge_id', charge.id)
+    .single()
+
+  if (findError || !payment) {
+    console.error('Payment not found for refunded charge:', charge.id)
+    return
+  }
+
+  // Update payment status
+  const { error: updateError } = await supabase
+    .from('payments')
+    .update({ status: 'refunded', refunded_cents: charge.amount_refunded })
+    .eq('id', payment.id)
+
+  if (updateError) {
+    console.error('Failed to update payment status:', updateError)
+  }
+
+  const handler = getPurchaseHandler(payment.type)
+  if (handler?.onRefunded) {
+    await handler.onRefunded(ctx, charge, payment as PaymentRecord)
+  } else if (payment.ticket_id) {
+    // If there's an associated ticket, update its status
+    const { error: ticketError } = await supabase
+      .from('tickets')
+      .update({ status: 'refunded' })
+      .eq('id', payment.ticket_id)
+
+    if (ticketError) {
+      console.error('Failed to update ticket status:', ticketError)
+    }
+  }
+
+  // Cancel any referral earnings for this payment
+  const { error: earningsError } = await supabase
+    .from('referral_earnings')
+    .update({ status: 'cancelled' })
+    .eq('payment_id', payment.id)
+    .eq('status', 'pending')
+
+  if (earningsError) {
+    console.error('Failed to cancel referral earnings on refund:', earningsError)
+  }
+
+  console.log(`Refund processed for payment: ${payment.id}`)
+}
@@ -0,0 +1,183 @@
+import type { WebhookContext } from './context.ts'
+
+// ============================================================
+// Wallet Pass Generation (Apple Wallet & Google Wallet)
+// ============================================================
+
+export function enqueueWalletPasses(ctx: WebhookContext, ticketIds: string[]) {
+  for (const ticketId of ticketIds) {
+    // Generate both Apple and Google passes (fire-and-forget)
+    for (const passType of ['apple', 'google']) {
+      ctx.invokeFunction('generate-wallet-pass', { ticket_id: ticketId, pass_type: passType })
+    }
+    console.log(`Wallet pass generation enqueued for ticket ${ticketId}`)
+  }
+}
+
+// ============================================================
+// NFT Minting Queue
+// ============================================================
+
+export async function enqueueNftMints(ctx: WebhookContext, eventId: string, userId: string, ticketIds: string[]) {
+  const { supabase } = ctx
+
+  try {
+    // Check if event has NFT minting enabled (all new events default to true)
+    const { data: event } = await supabase
+      .from('events')
+      .select('nft_enabled')
+      .eq('id', eventId)
+      .single()
+
+    if (event?.nft_enabled === false) return
+
+    // Look up buyer's Cardano wallet address
+    const { data: wallet } = await supabase
+      .from('user_wallets')
+      .select('cardano_address')
+      .eq('user_id', userId)
+      .single()
+
+    let queued = 0
+    for (const ticketId of ticketIds) {
+      if (!wallet?.cardano_address) {
+        // No wallet — skip, user can claim later
+        await supabase.from('nft_mint_queue').insert({
+          ticket_id: ticketId,
+          event_id: eventId,
+          buyer_address: '',
+          status: 'skipped',
+          error_message: 'Buyer has no Cardano wallet',
+        })
+        console.log(`NFT mint skipped for ticket ${ticketId}: no Cardano wallet`)
+        continue
+      }
+
+      // Insert into mint queue
+      const { error: queueError } = await supabase
+        .from('nft_mint_queue')
+        .insert({
+          ticket_id: ticketId,
+          event_id: eventId,
+          buyer_address: wallet.cardano_address,
+          status: 'queued',
+        })
+
+      if (queueError) {
+        console.error(`Failed to enqueue NFT mint for ticket ${ticketId}:`, queueError)
+        continue
+      }
+
+      console.log(`NFT mint enqueued for ticket ${ticketId}`)
+      queued++
+    }
+
+    // Fire-and-forget: one invocation mints the whole purchase as a batch
+    if (queued > 0) {
+      ctx.invokeFunction('mint-ticket-nft', { event_id: eventId })
+    }
+  } catch (err) {
+    console.error('enqueueNftMints error:', err.message)
+  }
+}
+
+// ============================================================
+// NFT Transfer Queue (for resale)
+// ============================================================
+
+export async function enqueueNftTransfer(
+  ctx: WebhookContext,
+  ticketId: string, eventId: string, buyerId: string, sellerId: string, resaleListingId: string,
+) {
+  const { supabase } = ctx
+
+  try {
+    // Already enqueued by an earlier delivery of this event
+    const { data: existingTransfer } = await supabase
+      .from('nft_mint_queue')
+      .select('id')
+      .eq('resale_listing_id', resaleListingId)
+      .eq('action', 'transfer')
+      .limit(1)
+      .maybeSingle()
+
+    if (existingTransfer) {
+      console.log(`NFT transfer already enqueued for resale ${resaleListingId}`)
+      return
+    }
+
+    // Look up buyer's Cardano wallet address
+    const { data: buyerWallet } = await supabase
+      .from('user_wallets')
+      .select('cardano_address')
+      .eq('user_id', buyerId)
+      .single()
+
+    if (!buyerWallet?.cardano_address) {
+      // No wallet — skip transfer, buyer can claim later
+      await supabase.from('nft_mint_queue').insert({
+        ticket_id: ticketId,
+        event_id: eventId,
+        buyer_address: '',
+        action: 'transfer',
+        status: 'skipped',
+        resale_listing_id: resaleListingId,
+        error_message: 'Buyer has no Cardano wallet',
+      })
+      console.log(`NFT transfer skipped for ticket ${ticketId}: buyer has no wallet`)
+      return
+    }
+
+    // Look up seller's Cardano address (for reference)
+    const { data: sellerWallet } = await supabase
+      .from('user_wallets')
+      .select('cardano_address')
+      .eq('user_id', sellerId)
+      .single()
+
+    // Insert into queue
+    const { data: queueEntry, error: queueError } = await supabase
+      .from('nft_mint_queue')
+      .insert({
+        ticket_id: ticketId,
+        event_id: eventId,
+        buyer_address: buyerWallet.cardano_address,
+        seller_address: sellerWallet?.cardano_address || null,
+        action: 'transfer',
+        status: 'queued',
+        resale_listing_id: resaleListingId,
+      })
+      .select()
+      .single()
+
+    if (queueError) {
+      console.error(`Failed to enqueue NFT transfer for ticket ${ticketId}:`, queueError)
+      return
+    }
+
+    // Fire-and-forget: invoke the transfer function
+    ctx.invokeFunction('transfer-ticket-nft', { queue_id: queueEntry.id, ticket_id: ticketId })
+    console.log(`NFT transfer enqueued for ticket ${ticketId} (resale ${resaleListingId})`)
+  } catch (err) {
+    console.error('enqueueNftTransfer error:', err.message)
+  }
+}
+
+/**
+ * Resolve a buyer's email and display name for the ticket record.
+ */
+export async function lookupOwner(ctx: WebhookContext, userId: string) {
+  const { data: profile } = await ctx.supabase
+    .from('profiles')
+    .select('email, display_name')
+    .eq('id', userId)
+    .single()
+
+  // Get user's auth email as fallback
+  const { data: authData } = await ctx.supabase.auth.admin.getUserById(userId)
+
+  return {
+    email: (profile?.email || authData?.user?.email || null) as string | null,
+    name: (profile?.display_name || null) as string | null,
+  }
+}
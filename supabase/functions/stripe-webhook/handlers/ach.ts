@@ -0,0 +1,88 @@
+import { definePurchaseHandler } from '../registry.ts'
+import { refundPurchasedTickets } from './primary.ts'
+
+/**
+ * ACH direct purchases create their tickets up front; the webhook only
+ * settles the payment or revokes the tickets when the debit fails.
+ */
+export const achPurchase = definePurchaseHandler({
+  type: 'ach_purchase',
+  schema: {
+    event_id: 'string',
+    user_id: 'string',
+    event_title: 'string?',
+  },
+  recordsPayment: true,
+
+  onSucceeded: async (_ctx, paymentIntent, metadata) => {
+    // Payment already marked completed by the dispatcher. Tickets already exist.
+    console.log(`ACH purchase settled: ${paymentIntent.id} for event ${metadata.event_id}`)
+  },
+
+  onFailed: async (ctx, paymentIntent, metadata, payment) => {
+    const { supabase } = ctx
+    const { event_id: eventId, user_id: userId } = metadata
+
+    console.log(`ACH purchase failed: ${paymentIntent.id} for event ${eventId}, user ${userId}`)
+
+    if (payment) {
+      // Find all tickets created by this PaymentIntent
+      let { data: tickets } = await supabase
+        .from('tickets')
+        .select('id')
+        .eq('stripe_payment_intent_id', paymentIntent.id)
+        .eq('status', 'valid')
+
+      if (!tickets || tickets.length === 0) {
+        // Tickets created before PaymentIntent keying: match by event and buyer
+        const { data: legacyTickets } = await supabase
+          .from('tickets')
+          .select('id')
+          .eq('event_id', eventId)
+          .eq('sold_by', userId)
+          .eq('status', 'valid')
+          .is('stripe_payment_intent_id', null)
+        tickets = legacyTickets
+      }
+
+      if (tickets && tickets.length > 0) {
+        // Revoke tickets by marking them as cancelled
+        const ticketIds = tickets.map((t: { id: string }) => t.id)
+        const { error: revokeError } = await supabase
+          .from('tickets')
+          .update({ status: 'cancelled' })
+          .in('id', ticketIds)
+
+        if (revokeError) {
+          console.error('Failed to revoke tickets for failed ACH:', revokeError)
+        } else {
+          console.log(`Revoked ${ticketIds.length} tickets for failed ACH payment ${paymentIntent.id}`)
+        }
+      }
+    }
+
+    // The order never went through, so its promo code uses are free again
+    const { error: releaseError } = await supabase.rpc('release_promo_code_uses', { p_payment_intent_id: paymentIntent.id })
+    if (releaseError) {
+      console.error('Failed to release promo code uses for failed ACH:', releaseError)
+    }
+
+    // Create notification for the user about the failed payment
+    try {
+      await supabase.from('notifications').insert({
+        user_id: userId,
+        type: 'payment_failed',
+        title: 'Bank Payment Failed',
+        body: `Your bank payment for ${metadata.event_title || 'an event'} could not be processed. Your tickets have been cancelled.`,
+        data: {
+          event_id: eventId,
+          payment_intent_id: paymentIntent.id,
+        },
+      })
+    } catch (err) {
+      console.error('Failed to create notification:', err.message)
+    }
+  },
+
+  onRefunded: refundPurchasedTickets,
+})
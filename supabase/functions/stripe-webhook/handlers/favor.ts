@@ -0,0 +1,101 @@
+import { generateNfcSignature, generateTicketNumber } from '../context.ts'
+import { lookupOwner } from '../fulfilment.ts'
+import { definePurchaseHandler } from '../registry.ts'
+import { refundPurchasedTickets } from './primary.ts'
+
+/**
+ * Favor ticket purchases: create the ticket and accept the offer.
+ */
+export const favorTicketPurchase = definePurchaseHandler({
+  type: 'favor_ticket_purchase',
+  schema: {
+    offer_id: 'string',
+    user_id: 'string',
+    base_amount_cents: 'int?',
+  },
+  recordsPayment: true,
+
+  onSucceeded: async (ctx, paymentIntent, metadata) => {
+    const { supabase } = ctx
+    const { offer_id, user_id } = metadata
+
+    // Fetch the offer
+    const { data: offer, error: offerError } = await supabase
+      .from('ticket_offers')
+      .select('*')
+      .eq('id', offer_id)
+      .single()
+
+    if (offerError || !offer) {
+      console.error('Offer not found for favor ticket purchase:', offer_id)
+      return
+    }
+
+    if (offer.status === 'accepted' && offer.ticket_id) {
+      console.log(`Favor offer ${offer_id} already fulfilled with ticket ${offer.ticket_id}`)
+      return
+    }
+
+    const owner = await lookupOwner(ctx, user_id)
+    const ticketNumber = generateTicketNumber()
+
+    // Create ticket with the correct mode. Use base amount (before fees) for
+    // ticket price, fall back to total for backward compat
+    const { data: ticket, error: ticketError } = await supabase
+      .from('tickets')
+      .insert({
+        event_id: offer.event_id,
+        ticket_number: ticketNumber,
+        owner_email: owner.email,
+        owner_name: owner.name,
+        owner_user_id: user_id,
+        price_paid_cents: metadata.base_amount_cents || paymentIntent.amount,
+        currency: paymentIntent.currency.toUpperCase(),
+        status: 'valid',
+        sold_by: offer.organizer_id,
+        ticket_mode: offer.ticket_mode,
+        offer_id: offer.id,
+        stripe_payment_intent_id: paymentIntent.id,
+        purchase_line_index: 0,
+      })
+      .select()
+      .single()
+
+    if (ticketError) {
+      if (ticketError.code === '23505') {
+        console.log(`Favor ticket already exists for ${paymentIntent.id}`)
+        return
+      }
+      throw new Error(`Failed to create favor ticket: ${ticketError.message}`)
+    }
+
+    // Generate and store NFC Layer 0 signature for favor ticket
+    const favorNfcSig = await generateNfcSignature(ctx, ticket.id, offer.event_id, ticket.category || 'entry')
+    if (favorNfcSig) {
+      await supabase
+        .from('tickets')
+        .update({ nfc_signature: favorNfcSig })
+        .eq('id', ticket.id)
+    }
+
+    // Update offer status
+    await supabase
+      .from('ticket_offers')
+      .update({
+        status: 'accepted',
+        ticket_id: ticket.id,
+        recipient_user_id: user_id,
+      })
+      .eq('id', offer_id)
+
+    // Link ticket to payment
+    await supabase
+      .from('payments')
+      .update({ ticket_id: ticket.id })
+      .eq('stripe_payment_intent_id', paymentIntent.id)
+
+    console.log(`Favor ticket created: ${ticketNumber} for offer ${offer_id}`)
+  },
+
+  onRefunded: refundPurchasedTickets,
+})
@@ -0,0 +1,56 @@
+import { definePurchaseHandler } from '../registry.ts'
+
+export const merchPurchase = definePurchaseHandler({
+  type: 'merch_purchase',
+  schema: {
+    product_id: 'string',
+    variant_id: 'string?',
+    quantity: 'int?',
+  },
+  recordsPayment: true,
+
+  // Update order to paid, decrement inventory
+  onSucceeded: async (ctx, paymentIntent, metadata) => {
+    const { supabase } = ctx
+    console.log(`Merch purchase succeeded: ${paymentIntent.id}`)
+
+    // Update merch_order to paid (only the first delivery of this event transitions it)
+    const { data: paidOrders, error: orderUpdateError } = await supabase
+      .from('merch_orders')
+      .update({ status: 'paid', updated_at: new Date().toISOString() })
+      .eq('stripe_payment_intent_id', paymentIntent.id)
+      .neq('status', 'paid')
+      .select('id')
+
+    if (orderUpdateError) {
+      console.error('Failed to update merch order:', orderUpdateError)
+    }
+
+    // Decrement inventory if variant specified — skip when the order was already paid
+    if (metadata.variant_id && paidOrders && paidOrders.length > 0) {
+      const { data: variant } = await supabase
+        .from('merch_variants')
+        .select('inventory_count')
+        .eq('id', metadata.variant_id)
+        .single()
+
+      if (variant && variant.inventory_count !== null) {
+        await supabase
+          .from('merch_variants')
+          .update({ inventory_count: Math.max(0, variant.inventory_count - (metadata.quantity ?? 1)) })
+          .eq('id', metadata.variant_id)
+      }
+    }
+  },
+
+  onRefunded: async (ctx, charge) => {
+    const { error } = await ctx.supabase
+      .from('merch_orders')
+      .update({ status: 'refunded', updated_at: new Date().toISOString() })
+      .eq('stripe_payment_intent_id', charge.payment_intent as string)
+
+    if (error) {
+      console.error('Failed to mark merch order refunded:', error)
+    }
+  },
+})
@@ -0,0 +1,21 @@
+import { registerPurchaseType } from '../registry.ts'
+import { achPurchase } from './ach.ts'
+import { favorTicketPurchase } from './favor.ts'
+import { merchPurchase } from './merch.ts'
+import { cashSalePlatformFee, tapToPay } from './pos.ts'
+import { primaryPurchase, vendorPos, waitlistAutoPurchase } from './primary.ts'
+import { resalePurchase } from './resale.ts'
+import { walletTopUp } from './wallet-top-up.ts'
+
+// Every PaymentIntent `metadata.type` we create must be registered here.
+// Anything else is dead-lettered by the dispatcher.
+registerPurchaseType(primaryPurchase)
+registerPurchaseType(vendorPos)
+registerPurchaseType(waitlistAutoPurchase)
+registerPurchaseType(achPurchase)
+registerPurchaseType(walletTopUp)
+registerPurchaseType(merchPurchase)
+registerPurchaseType(resalePurchase)
+registerPurchaseType(favorTicketPurchase)
+registerPurchaseType(tapToPay)
+registerPurchaseType(cashSalePlatformFee)
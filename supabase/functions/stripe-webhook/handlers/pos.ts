@@ -0,0 +1,28 @@
+import { definePurchaseHandler } from '../registry.ts'
+
+/**
+ * Tap to Pay sales are fulfilled by the vendor app once the reader confirms;
+ * the webhook only keeps the payment record in sync.
+ */
+export const tapToPay = definePurchaseHandler({
+  type: 'tap_to_pay',
+  schema: {
+    pending_payment_id: 'string',
+    event_id: 'string',
+    vendor_id: 'string',
+  },
+  recordsPayment: true,
+})
+
+/**
+ * Off-session charge of the organizer's card for a cash sale's platform fee.
+ * Tracked on cash_transactions by process-cash-sale, not as a buyer payment.
+ */
+export const cashSalePlatformFee = definePurchaseHandler({
+  type: 'cash_sale_platform_fee',
+  schema: {
+    event_id: 'string',
+    ticket_id: 'string',
+  },
+  recordsPayment: false,
+})
@@ -0,0 +1,374 @@
+import type Stripe from 'https://esm.sh/stripe@14.21.0'
+import { seatKey } from '../../_shared/seating.ts'
+import { generateNfcSignature, generateTicketNumber, type WebhookContext } from '../context.ts'
+import { enqueueNftMints, enqueueWalletPasses, lookupOwner } from '../fulfilment.ts'
+import { definePurchaseHandler, type ParsedMetadata, type PaymentRecord } from '../registry.ts'
+
+const schema = {
+  event_id: 'string',
+  user_id: 'string',
+  quantity: 'int?',
+  base_amount_cents: 'int?',
+} as const
+
+type PrimaryMetadata = ParsedMetadata<typeof schema>
+
+/**
+ * Create one ticket per purchased line, keyed on PaymentIntent + line index
+ * so retries and replays only fill in lines that are still missing.
+ */
+async function createPurchasedTickets(
+  ctx: WebhookContext,
+  paymentIntent: Stripe.PaymentIntent,
+  metadata: PrimaryMetadata,
+  payment: PaymentRecord | null,
+) {
+  const { supabase } = ctx
+  const { event_id, user_id } = metadata
+  const quantity = metadata.quantity ?? 1
+
+  console.log(`Payment succeeded: ${paymentIntent.id} for event ${event_id}, quantity: ${quantity}`)
+
+  // Skip ticket creation for test events (non-UUID event IDs)
+  if (event_id.startsWith('test-')) {
+    console.log('Skipping ticket creation for test event')
+    return
+  }
+
+  const owner = await lookupOwner(ctx, user_id)
+  const widgetPurchase = payment?.metadata?.source === 'widget'
+
+  // Widget guests buy through a placeholder account; their tickets carry
+  // the email they checked out with so the tickets follow them on claim
+  if (widgetPurchase && payment?.metadata?.buyer_email) {
+    owner.email = payment.metadata.buyer_email
+    owner.name = payment.metadata.buyer_name ?? owner.name
+  }
+
+  // Calculate price per ticket (use base amount from metadata when fees were applied)
+  const pricePerTicket = metadata.base_amount_cents
+    ? Math.round(metadata.base_amount_cents / quantity)
+    : Math.round(paymentIntent.amount / quantity)
+
+  // Get seat_selections and ticket_items from payment record metadata
+  const seatSelections = payment?.seat_selections ?? null
+  const ticketItems: any[] | null = payment?.metadata?.ticket_items as any[] | null
+  console.log(`[ticket-creation] existingPayment=${!!payment}, hasMetadata=${!!payment?.metadata}, ticketItems=${JSON.stringify(ticketItems)}`)
+
+  // Build a flat list of per-ticket type/category/icon from ticket_items
+  // e.g. [{ticket_type_id, quantity: 2, category: 'entry'}, {ticket_type_id, quantity: 1, category: 'redeemable', item_icon: '🎸'}]
+  // → ['entry', 'entry', 'redeemable'] with icons [null, null, '🎸']
+  const ticketCategories: string[] = []
+  const ticketIcons: (string | null)[] = []
+  const ticketTypeNames: (string | null)[] = []
+  const ticketTypeIds: (string | null)[] = []
+  if (ticketItems && Array.isArray(ticketItems)) {
+    // Fetch ticket type names from DB
+    const typeIds = ticketItems.map((ti: any) => ti.ticket_type_id).filter(Boolean)
+    const typeNameMap: Record<string, string> = {}
+    if (typeIds.length > 0) {
+      const { data: dbTypes } = await supabase
+        .from('event_ticket_types')
+        .select('id, name')
+        .in('id', typeIds)
+      if (dbTypes) {
+        for (const dt of dbTypes) {
+          typeNameMap[dt.id] = dt.name
+        }
+      }
+    }
+    for (const item of ticketItems) {
+      const qty = item.quantity || 1
+      const typeName = typeNameMap[item.ticket_type_id] || null
+      for (let j = 0; j < qty; j++) {
+        ticketCategories.push(item.category || 'entry')
+        ticketIcons.push(item.item_icon || null)
+        ticketTypeNames.push(typeName)
+        ticketTypeIds.push(typeName ? item.ticket_type_id : null)
+      }
+    }
+  }
+
+  // Seats sold to someone else while this payment was in flight
+  const lostSeats = seatSelections?.length
+    ? await convertSeatHold(ctx, paymentIntent.id, event_id, user_id, seatSelections)
+    : new Set<string>()
+
+  // Tickets already created for this PaymentIntent (Stripe retry or admin replay)
+  const { data: existingTickets } = await supabase
+    .from('tickets')
+    .select('id, purchase_line_index')
+    .eq('stripe_payment_intent_id', paymentIntent.id)
+
+  const existingByLine = new Map<number, string>()
+  for (const t of existingTickets ?? []) {
+    existingByLine.set(t.purchase_line_index, t.id)
+  }
+
+  // Create tickets for each quantity, keyed on PaymentIntent + line index
+  const ticketIds: string[] = []
+  const newTicketIds: string[] = []
+  let failedLines = 0
+  for (let i = 0; i < quantity; i++) {
+    const existingTicketId = existingByLine.get(i)
+    if (existingTicketId) {
+      ticketIds.push(existingTicketId)
+      continue
+    }
+
+    const ticketNumber = generateTicketNumber()
+
+    // Assign seat data from seat_selections if present; a lost seat is
+    // still a paid ticket, issued unseated
+    const selection = seatSelections?.[i]
+    const seatData = selection && !lostSeats.has(seatKey(selection)) ? selection : null
+    // Assign category and type name from ticket_items breakdown
+    const category = ticketCategories[i] || 'entry'
+    const itemIcon = ticketIcons[i] || null
+    const typeName = ticketTypeNames[i] || null
+    const typeId = ticketTypeIds[i] || null
+
+    // Pre-insert to get the ticket ID for signature generation
+    const { data: ticket, error: ticketError } = await supabase
+      .from('tickets')
+      .insert({
+        event_id,
+        ticket_number: ticketNumber,
+        owner_email: owner.email,
+        owner_name: owner.name,
+        price_paid_cents: pricePerTicket,
+        currency: paymentIntent.currency.toUpperCase(),
+        status: 'valid',
+        sold_by: user_id,
+        category,
+        stripe_payment_intent_id: paymentIntent.id,
+        purchase_line_index: i,
+        ...(itemIcon && { item_icon: itemIcon }),
+        ...(typeName && { ticket_type_name: typeName }),
+        // Counts the sale against the type's inventory and price tiers
+        ...(typeId && { ticket_type_id: typeId }),
+        ...(seatData && {
+          venue_section_id: seatData.section_id,
+          seat_id: seatData.seat_id,
+          seat_label: seatData.seat_label,
+        }),
+      })
+      .select()
+      .single()
+
+    if (ticketError) {
+      if (ticketError.code === '23505') {
+        // A concurrent run already created this line
+        console.log(`Ticket ${i + 1}/${quantity} already exists for ${paymentIntent.id}`)
+        continue
+      }
+      console.error(`Failed to create ticket ${i + 1}/${quantity}:`, ticketError)
+      failedLines++
+      continue
+    }
+
+    // Generate and store NFC Layer 0 signature
+    const nfcSig = await generateNfcSignature(ctx, ticket.id, event_id, category)
+    if (nfcSig) {
+      await supabase
+        .from('tickets')
+        .update({ nfc_signature: nfcSig })
+        .eq('id', ticket.id)
+    }
+
+    ticketIds.push(ticket.id)
+    newTicketIds.push(ticket.id)
+    console.log(`Ticket ${i + 1}/${quantity} created: ${ticketNumber} (${category})`)
+  }
+
+  // Link first ticket to payment (for reference)
+  if (ticketIds.length > 0) {
+    await supabase
+      .from('payments')
+      .update({ ticket_id: ticketIds[0] })
+      .eq('stripe_payment_intent_id', paymentIntent.id)
+  }
+
+  // Promo code uses reserved at checkout count once the payment is in.
+  // Redeeming is idempotent, so a failure is left to Stripe's retry
+  const { error: promoError } = await supabase.rpc('redeem_promo_code_uses', { p_payment_intent_id: paymentIntent.id })
+  if (promoError) {
+    throw new Error(`Failed to redeem promo codes for ${paymentIntent.id}: ${promoError.message}`)
+  }
+
+  // The seats are sold now; drop the holds that kept them during creation
+  if (seatSelections && seatSelections.length > 0 && failedLines === 0) {
+    const { data: released } = await supabase.rpc('finish_seat_hold', { p_payment_intent_id: paymentIntent.id })
+    console.log(`Released ${released ?? 0} seat holds for ${paymentIntent.id}`)
+  }
+
+  console.log(`Created ${newTicketIds.length} tickets for payment ${paymentIntent.id} (${ticketIds.length - newTicketIds.length} already existed)`)
+
+  if (newTicketIds.length > 0) {
+    // NFT minting and wallet passes never block ticket delivery
+    await enqueueNftMints(ctx, event_id, user_id, newTicketIds)
+    enqueueWalletPasses(ctx, newTicketIds)
+  }
+
+  if (widgetPurchase) {
+    await transitionWidgetSession(ctx, paymentIntent.id, 'paid')
+    // Tickets plus, for guests, the link that claims them
+    if (newTicketIds.length > 0) {
+      ctx.invokeFunction('widget-purchase-email', { payment_intent_id: paymentIntent.id })
+    }
+  }
+
+  // Fail the event so Stripe retries the missing lines; created lines are skipped next time
+  if (failedLines > 0) {
+    throw new Error(`Failed to create ${failedLines}/${quantity} tickets for ${paymentIntent.id}`)
+  }
+}
+
+/**
+ * A test-mode checkout is paid but issues nothing: give back the promo uses
+ * and seats it reserved, and close its widget session.
+ */
+async function releaseTestCheckout(
+  ctx: WebhookContext,
+  paymentIntent: Stripe.PaymentIntent,
+  _metadata: PrimaryMetadata,
+  payment: PaymentRecord | null,
+) {
+  const { error: promoError } = await ctx.supabase.rpc('release_promo_code_uses', { p_payment_intent_id: paymentIntent.id })
+  if (promoError) {
+    console.error(`Failed to release promo codes for test payment ${paymentIntent.id}:`, promoError)
+  }
+  if (payment?.seat_selections?.length) {
+    await ctx.supabase.rpc('finish_seat_hold', { p_payment_intent_id: paymentIntent.id })
+  }
+  if (payment?.metadata?.source === 'widget') {
+    await transitionWidgetSession(ctx, paymentIntent.id, 'paid')
+  }
+}
+
+/**
+ * Move the widget checkout session paid by this PaymentIntent along its
+ * lifecycle (see the widget_checkout_lifecycle migration). A refused
+ * transition, e.g. a decline arriving after the payment, is only logged.
+ */
+async function transitionWidgetSession(
+  ctx: WebhookContext,
+  paymentIntentId: string,
+  status: 'paid' | 'failed',
+  reason?: string,
+) {
+  const { data, error } = await ctx.supabase.rpc('transition_widget_checkout_session', {
+    p_payment_intent_id: paymentIntentId,
+    p_status: status,
+    ...(reason && { p_reason: reason }),
+  })
+  if (error) throw new Error(`Failed to update widget session for ${paymentIntentId}: ${error.message}`)
+
+  if (!data?.success) {
+    console.warn(`[widget] Session for ${paymentIntentId} not moved to ${status}: ${data?.error}`)
+  } else if (data.changed) {
+    console.log(`[widget] Session ${data.session_id} ${data.from} → ${status}`)
+  }
+}
+
+/**
+ * Claim the paid seats for this PaymentIntent, overriding any hold. Returns
+ * the seats that were already sold to another payment and records them on
+ * the payment so support can re-seat or refund.
+ */
+async function convertSeatHold(
+  ctx: WebhookContext,
+  paymentIntentId: string,
+  eventId: string,
+  userId: string,
+  seatSelections: any[],
+): Promise<Set<string>> {
+  // Widget orders mixing seated and general admission lines leave gaps
+  const seats = seatSelections.filter(Boolean)
+  const { data, error } = await ctx.supabase.rpc('convert_seat_hold', {
+    p_payment_intent_id: paymentIntentId,
+    p_event_id: eventId,
+    p_user_id: userId,
+    p_seats: seats.map((s) => ({ section_id: s.section_id, seat_id: s.seat_id })),
+  })
+  // Without the claim the seats could be sold twice; let Stripe retry
+  if (error) throw new Error(`Failed to convert seat hold for ${paymentIntentId}: ${error.message}`)
+
+  const conflicts: any[] = data?.conflicts ?? []
+  if (conflicts.length === 0) return new Set()
+
+  console.warn(`[seats] ${conflicts.length} seat(s) of ${paymentIntentId} were already sold: ${JSON.stringify(conflicts)}`)
+  await ctx.supabase
+    .from('payments')
+    .update({ seat_conflicts: conflicts })
+    .eq('stripe_payment_intent_id', paymentIntentId)
+  return new Set(conflicts.map(seatKey))
+}
+
+/**
+ * Mark every ticket bought with the refunded charge as refunded. Tickets
+ * created before PaymentIntent keying only have the payment's ticket_id link.
+ */
+export async function refundPurchasedTickets(
+  ctx: WebhookContext,
+  charge: Stripe.Charge,
+  payment: PaymentRecord,
+) {
+  const paymentIntentId = charge.payment_intent as string | null
+
+  const { data: tickets } = paymentIntentId
+    ? await ctx.supabase
+      .from('tickets')
+      .update({ status: 'refunded' })
+      .eq('stripe_payment_intent_id', paymentIntentId)
+      .select('id')
+    : { data: [] }
+
+  if (tickets && tickets.length > 0) {
+    console.log(`Refunded ${tickets.length} tickets for ${paymentIntentId}`)
+    return
+  }
+
+  if (payment.ticket_id) {
+    const { error: ticketError } = await ctx.supabase
+      .from('tickets')
+      .update({ status: 'refunded' })
+      .eq('id', payment.ticket_id)
+
+    if (ticketError) {
+      console.error('Failed to update ticket status:', ticketError)
+    }
+  }
+}
+
+export const primaryPurchase = definePurchaseHandler({
+  type: 'primary_purchase',
+  schema,
+  recordsPayment: true,
+  onSucceeded: createPurchasedTickets,
+  onTestSucceeded: releaseTestCheckout,
+  onFailed: async (ctx, paymentIntent, _metadata, payment) => {
+    // The buyer may retry on the same PaymentIntent, so seats stay held
+    // until the session itself expires
+    if (payment?.metadata?.source === 'widget') {
+      await transitionWidgetSession(ctx, paymentIntent.id, 'failed', paymentIntent.last_payment_error?.message)
+    }
+  },
+  onRefunded: refundPurchasedTickets,
+})
+
+export const vendorPos = definePurchaseHandler({
+  type: 'vendor_pos',
+  schema,
+  recordsPayment: true,
+  onSucceeded: createPurchasedTickets,
+  onRefunded: refundPurchasedTickets,
+})
+
+export const waitlistAutoPurchase = definePurchaseHandler({
+  type: 'waitlist_auto_purchase',
+  schema,
+  recordsPayment: true,
+  onSucceeded: createPurchasedTickets,
+  onRefunded: refundPurchasedTickets,
+})
@@ -0,0 +1,203 @@
+import type Stripe from 'https://esm.sh/stripe@14.21.0'
+import type { WebhookContext } from '../context.ts'
+import { enqueueNftTransfer, lookupOwner } from '../fulfilment.ts'
+import { definePurchaseHandler } from '../registry.ts'
+
+/**
+ * Resale purchases: transfer ticket ownership, mark the listing sold, pay
+ * the seller and the organizer's royalty, and enqueue the NFT transfer.
+ */
+export const resalePurchase = definePurchaseHandler({
+  type: 'resale_purchase',
+  schema: {
+    resale_listing_id: 'string',
+    ticket_id: 'string',
+    buyer_id: 'string',
+    seller_id: 'string',
+    event_id: 'string',
+    seller_account_id: 'string?',
+    seller_amount_cents: 'int?',
+    royalty_cents: 'int?',
+    organizer_account_id: 'string?',
+  },
+  recordsPayment: true,
+
+  onSucceeded: async (ctx, paymentIntent, metadata) => {
+    const { supabase, stripe } = ctx
+    const {
+      resale_listing_id: resaleListingId,
+      ticket_id: ticketId,
+      buyer_id: buyerId,
+      seller_id: sellerId,
+    } = metadata
+
+    const buyer = await lookupOwner(ctx, buyerId)
+
+    // Transfer ticket ownership
+    const { error: ticketError } = await supabase
+      .from('tickets')
+      .update({
+        sold_by: buyerId,
+        owner_email: buyer.email,
+        owner_name: buyer.name,
+        listing_status: 'none',
+        listing_price_cents: null,
+      })
+      .eq('id', ticketId)
+
+    if (ticketError) {
+      console.error('Failed to transfer ticket ownership:', ticketError)
+    } else {
+      console.log(`Ticket ${ticketId} ownership transferred from ${sellerId} to ${buyerId}`)
+    }
+
+    // Mark listing as sold
+    const { error: listingError } = await supabase
+      .from('resale_listings')
+      .update({ status: 'sold' })
+      .eq('id', resaleListingId)
+
+    if (listingError) {
+      console.error('Failed to mark listing as sold:', listingError)
+    }
+
+    // Transfer funds to seller's Stripe account (Separate Charges and Transfers pattern)
+    // The charge was made on the platform account, now we transfer the seller's portion.
+    const transferMetadata = {
+      resale_listing_id: resaleListingId,
+      ticket_id: ticketId,
+      buyer_id: buyerId,
+      seller_id: sellerId,
+    }
+    const sellerAccountId = metadata.seller_account_id
+    const sellerAmountCents = metadata.seller_amount_cents ?? 0
+
+    if (sellerAccountId && sellerAmountCents > 0) {
+      await payOut(ctx, paymentIntent, {
+        destination: sellerAccountId,
+        amountCents: sellerAmountCents,
+        type: 'resale_seller_payout',
+        idempotencyPrefix: 'resale_payout',
+        metadata: transferMetadata,
+      })
+      // A failed transfer can be retried manually via debug-resale function
+    } else {
+      console.warn('Missing seller account or amount for transfer:', { sellerAccountId, sellerAmountCents })
+    }
+
+    // Organizer royalty, withheld from the seller's proceeds at intent time
+    const royaltyCents = metadata.royalty_cents ?? 0
+    if (metadata.organizer_account_id && royaltyCents > 0) {
+      await payOut(ctx, paymentIntent, {
+        destination: metadata.organizer_account_id,
+        amountCents: royaltyCents,
+        type: 'resale_royalty',
+        idempotencyPrefix: 'resale_royalty',
+        metadata: { ...transferMetadata, event_id: metadata.event_id },
+      })
+    }
+
+    // Enqueue NFT transfer if ticket has a minted NFT
+    const { data: ticketNft } = await supabase
+      .from('tickets')
+      .select('nft_minted, nft_policy_id, nft_asset_id')
+      .eq('id', ticketId)
+      .single()
+
+    if (ticketNft?.nft_minted) {
+      await enqueueNftTransfer(ctx, ticketId, metadata.event_id, buyerId, sellerId, resaleListingId)
+    }
+
+    console.log(`Resale purchase completed: listing ${resaleListingId}, ticket ${ticketId}`)
+  },
+})
+
+interface Payout {
+  destination: string
+  /** In the charge currency. */
+  amountCents: number
+  type: string
+  idempotencyPrefix: string
+  metadata: Record<string, string>
+}
+
+/**
+ * Transfers part of a resale charge to a connected account.
+ *
+ * Currency handling: The platform settles in EUR. When a USD charge is made,
+ * Stripe converts to EUR for the platform's balance. source_transaction Transfers
+ * must use the balance transaction's currency (EUR), not the charge currency (USD).
+ * We read the balance transaction to get the correct settlement currency and amount,
+ * then calculate the payee's share proportionally.
+ */
+async function payOut(ctx: WebhookContext, paymentIntent: Stripe.PaymentIntent, payout: Payout): Promise<boolean> {
+  const { stripe } = ctx
+  const chargeId = paymentIntent.latest_charge as string
+
+  if (chargeId) {
+    try {
+      // Retrieve the charge's balance transaction to get settlement currency/amount
+      const charge = await stripe.charges.retrieve(chargeId, { expand: ['balance_transaction'] })
+      const balanceTx = charge.balance_transaction as Stripe.BalanceTransaction | null
+
+      if (balanceTx && typeof balanceTx === 'object') {
+        const settlementCurrency = balanceTx.currency // e.g. 'eur'
+        const settlementAmount = balanceTx.amount      // gross amount in settlement currency
+        const stripeFee = balanceTx.fee                // Stripe's processing fee
+        const netSettlement = settlementAmount - stripeFee
+
+        // amountCents / chargeAmount gives the payee's fraction in charge currency,
+        // apply that fraction to the net settlement amount in settlement currency
+        const fraction = payout.amountCents / paymentIntent.amount
+        const settlementShare = Math.round(netSettlement * fraction)
+
+        console.log(`Settlement: ${settlementAmount} ${settlementCurrency} (net ${netSettlement}), ${payout.type} fraction: ${fraction.toFixed(4)}, gets: ${settlementShare} ${settlementCurrency}`)
+
+        if (settlementShare > 0) {
+          const transfer = await stripe.transfers.create({
+            amount: settlementShare,
+            currency: settlementCurrency,
+            destination: payout.destination,
+            source_transaction: chargeId,
+            metadata: {
+              ...payout.metadata,
+              original_currency: paymentIntent.currency,
+              original_amount: String(payout.amountCents),
+              type: payout.type,
+            },
+          }, {
+            idempotencyKey: `${payout.idempotencyPrefix}_${paymentIntent.id}`,
+          })
+          console.log(`Transfer ${transfer.id} created (source_transaction): ${settlementShare} ${settlementCurrency} to ${payout.destination}`)
+          return true
+        }
+      } else {
+        console.warn('Balance transaction not available or not expanded, trying direct...')
+      }
+    } catch (err: any) {
+      console.warn(`source_transaction transfer failed (${err.code}): ${err.message}, trying direct balance...`)
+    }
+  }
+
+  // Fallback: transfer from platform available balance in charge currency (no source_transaction)
+  // This works when platform has available funds in the charge currency
+  try {
+    const transfer = await stripe.transfers.create({
+      amount: payout.amountCents,
+      currency: paymentIntent.currency,
+      destination: payout.destination,
+      metadata: {
+        ...payout.metadata,
+        payment_intent_id: paymentIntent.id,
+        type: payout.type,
+      },
+    }, {
+      idempotencyKey: `${payout.idempotencyPrefix}_balance_${paymentIntent.id}`,
+    })
+    console.log(`Transfer ${transfer.id} created (balance): ${payout.amountCents} ${paymentIntent.currency} to ${payout.destination}`)
+    return true
+  } catch (err: any) {
+    console.error(`Balance transfer also failed (${err.code}): ${err.message}`)
+    return false
+  }
+}
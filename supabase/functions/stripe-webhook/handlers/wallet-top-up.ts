@@ -0,0 +1,117 @@
+import { definePurchaseHandler } from '../registry.ts'
+
+/**
+ * ACH wallet top-ups sit in pending_cents until the debit settles.
+ */
+export const walletTopUp = definePurchaseHandler({
+  type: 'wallet_top_up',
+  schema: {
+    supabase_user_id: 'string',
+    credit_amount_cents: 'int',
+  },
+  recordsPayment: true,
+
+  onSucceeded: async (ctx, paymentIntent, metadata) => {
+    const { supabase } = ctx
+    const userId = metadata.supabase_user_id
+    const creditAmountCents = metadata.credit_amount_cents
+
+    console.log(`Wallet top-up succeeded: ${paymentIntent.id}, credit: ${creditAmountCents} cents for user ${userId}`)
+
+    // Already settled by an earlier delivery of this event
+    const { data: settledTx } = await supabase
+      .from('wallet_transactions')
+      .select('id')
+      .eq('stripe_payment_intent_id', paymentIntent.id)
+      .eq('type', 'ach_top_up')
+      .maybeSingle()
+
+    if (settledTx) {
+      console.log(`Wallet top-up ${paymentIntent.id} already settled, skipping`)
+      return
+    }
+
+    // Move funds from pending_cents to available_cents
+    const { data: wallet, error: walletError } = await supabase
+      .from('wallet_balances')
+      .select('available_cents, pending_cents')
+      .eq('user_id', userId)
+      .single()
+
+    if (walletError || !wallet) {
+      console.error('Wallet not found for top-up settlement:', userId)
+      return
+    }
+
+    const newAvailable = wallet.available_cents + creditAmountCents
+    const newPending = Math.max(0, wallet.pending_cents - creditAmountCents)
+
+    const { error: updateError } = await supabase
+      .from('wallet_balances')
+      .update({
+        available_cents: newAvailable,
+        pending_cents: newPending,
+      })
+      .eq('user_id', userId)
+
+    if (updateError) {
+      console.error('Failed to update wallet balance on top-up settlement:', updateError)
+      return
+    }
+
+    // Update wallet transaction: change from pending to completed
+    await supabase
+      .from('wallet_transactions')
+      .update({
+        type: 'ach_top_up',
+        balance_after_cents: newAvailable,
+        description: `ACH top-up of $${(creditAmountCents / 100).toFixed(2)} (settled)`,
+      })
+      .eq('stripe_payment_intent_id', paymentIntent.id)
+
+    console.log(`Wallet top-up settled for user ${userId}: +${creditAmountCents} cents, new available: ${newAvailable}`)
+  },
+
+  onFailed: async (ctx, paymentIntent, metadata) => {
+    const { supabase } = ctx
+    const userId = metadata.supabase_user_id
+
+    console.log(`Wallet top-up failed: ${paymentIntent.id} for user ${userId}`)
+
+    // Only release funds still pending for this top-up
+    const { data: pendingTx } = await supabase
+      .from('wallet_transactions')
+      .select('id')
+      .eq('stripe_payment_intent_id', paymentIntent.id)
+      .limit(1)
+      .maybeSingle()
+
+    if (!pendingTx) {
+      console.log(`Wallet top-up ${paymentIntent.id} already cleaned up, skipping`)
+      return
+    }
+
+    // Remove from pending_cents
+    const { data: wallet } = await supabase
+      .from('wallet_balances')
+      .select('pending_cents')
+      .eq('user_id', userId)
+      .single()
+
+    if (wallet) {
+      const newPending = Math.max(0, wallet.pending_cents - metadata.credit_amount_cents)
+      await supabase
+        .from('wallet_balances')
+        .update({ pending_cents: newPending })
+        .eq('user_id', userId)
+    }
+
+    // Delete the failed wallet transaction
+    await supabase
+      .from('wallet_transactions')
+      .delete()
+      .eq('stripe_payment_intent_id', paymentIntent.id)
+
+    console.log(`Cleaned up failed wallet top-up for user ${userId}`)
+  },
+})
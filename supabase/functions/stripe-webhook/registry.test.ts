@@ -0,0 +1,61 @@
+import { assertEquals, assertThrows } from 'https://deno.land/std@0.177.0/testing/asserts.ts'
+import {
+  definePurchaseHandler,
+  getPurchaseHandler,
+  MetadataError,
+  parseMetadata,
+  registerPurchaseType,
+} from './registry.ts'
+
+const schema = {
+  event_id: 'string',
+  quantity: 'int?',
+  base_amount_cents: 'int',
+  variant_id: 'string?',
+} as const
+
+Deno.test('parses strings and integers', () => {
+  assertEquals(
+    parseMetadata(schema, { event_id: 'evt_1', quantity: '3', base_amount_cents: '2500', variant_id: 'v_1' }),
+    { event_id: 'evt_1', quantity: 3, base_amount_cents: 2500, variant_id: 'v_1' },
+  )
+})
+
+Deno.test('optional fields may be missing or empty', () => {
+  assertEquals(
+    parseMetadata(schema, { event_id: 'evt_1', base_amount_cents: '0', variant_id: '' }),
+    { event_id: 'evt_1', quantity: undefined, base_amount_cents: 0, variant_id: undefined },
+  )
+})
+
+Deno.test('ignores metadata keys outside the schema', () => {
+  const parsed = parseMetadata({ event_id: 'string' }, { event_id: 'evt_1', type: 'primary_purchase' })
+  assertEquals(parsed, { event_id: 'evt_1' })
+})
+
+Deno.test('reports every missing required field', () => {
+  assertThrows(
+    () => parseMetadata(schema, { quantity: '1' }),
+    MetadataError,
+    'missing event_id, missing base_amount_cents',
+  )
+})
+
+Deno.test('rejects non-integer numbers', () => {
+  assertThrows(() => parseMetadata(schema, { event_id: 'e', base_amount_cents: '12.5' }), MetadataError, 'base_amount_cents is not an integer')
+  assertThrows(() => parseMetadata(schema, { event_id: 'e', base_amount_cents: '10', quantity: 'two' }), MetadataError, 'quantity is not an integer')
+})
+
+Deno.test('null metadata fails required fields', () => {
+  assertThrows(() => parseMetadata(schema, null), MetadataError, 'missing event_id')
+})
+
+Deno.test('registry looks up handlers by type and refuses duplicates', () => {
+  const handler = definePurchaseHandler({ type: 'registry_test', schema: {}, recordsPayment: false })
+  registerPurchaseType(handler)
+
+  assertEquals(getPurchaseHandler('registry_test'), handler)
+  assertEquals(getPurchaseHandler('nope'), undefined)
+  assertEquals(getPurchaseHandler(undefined), undefined)
+  assertThrows(() => registerPurchaseType(handler), Error, 'already registered')
+})
@@ -0,0 +1,180 @@
+import type Stripe from 'https://esm.sh/stripe@14.21.0'
+import type { WebhookContext } from './context.ts'
+
+/**
+ * Purchase-type registry for PaymentIntent and refund events.
+ *
+ * Every PaymentIntent we create carries `metadata.type`. Each type registers
+ * a metadata schema plus the handlers that run when the payment succeeds,
+ * fails or is refunded. Events whose type is unknown, or whose metadata does
+ * not match the schema, are written to `webhook_dead_letters` instead of
+ * silently falling through.
+ */
+
+// ── Metadata schemas ─────────────────────────────────────────
+
+type FieldSpec = 'string' | 'string?' | 'int' | 'int?'
+
+type FieldValue<F extends FieldSpec> =
+  F extends 'string' ? string
+    : F extends 'string?' ? string | undefined
+    : F extends 'int' ? number
+    : number | undefined
+
+export type MetadataSchema = Record<string, FieldSpec>
+
+export type ParsedMetadata<S extends MetadataSchema> = { [K in keyof S]: FieldValue<S[K]> }
+
+export class MetadataError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'MetadataError'
+  }
+}
+
+/**
+ * Validate Stripe metadata (always string values) against a schema.
+ * Empty strings count as missing so `variant_id: ''` reads as undefined.
+ */
+export function parseMetadata<S extends MetadataSchema>(
+  schema: S,
+  metadata: Stripe.Metadata | null | undefined,
+): ParsedMetadata<S> {
+  const parsed: Record<string, string | number | undefined> = {}
+  const problems: string[] = []
+
+  for (const [key, spec] of Object.entries(schema)) {
+    const raw = metadata?.[key]
+    const present = raw !== undefined && raw !== null && raw !== ''
+    const optional = spec.endsWith('?')
+
+    if (!present) {
+      if (!optional) problems.push(`missing ${key}`)
+      parsed[key] = undefined
+      continue
+    }
+
+    if (spec.startsWith('int')) {
+      const value = Number(raw)
+      if (!Number.isInteger(value)) {
+        problems.push(`${key} is not an integer`)
+        continue
+      }
+      parsed[key] = value
+    } else {
+      parsed[key] = raw
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new MetadataError(problems.join(', '))
+  }
+
+  return parsed as ParsedMetadata<S>
+}
+
+// ── Handlers ─────────────────────────────────────────────────
+
+/** The `payments` row matching a PaymentIntent, when one exists. */
+export interface PaymentRecord {
+  id: string
+  type: string
+  ticket_id: string | null
+  metadata: Record<string, any> | null
+  seat_selections: any[] | null
+}
+
+export interface PurchaseHandler<S extends MetadataSchema = MetadataSchema> {
+  type: string
+  schema: S
+  /**
+   * Whether the dispatcher keeps a `payments` row in sync for this type.
+   * Off for charges that are not buyer payments (e.g. organizer fee charges).
+   */
+  recordsPayment: boolean
+  onSucceeded?: (
+    ctx: WebhookContext,
+    paymentIntent: Stripe.PaymentIntent,
+    metadata: ParsedMetadata<S>,
+    payment: PaymentRecord | null,
+  ) => Promise<void>
+  /**
+   * Runs instead of onSucceeded for a test-mode payment, to undo what
+   * checkout reserved. Must not issue anything.
+   */
+  onTestSucceeded?: (
+    ctx: WebhookContext,
+    paymentIntent: Stripe.PaymentIntent,
+    metadata: ParsedMetadata<S>,
+    payment: PaymentRecord | null,
+  ) => Promise<void>
+  onFailed?: (
+    ctx: WebhookContext,
+    paymentIntent: Stripe.PaymentIntent,
+    metadata: ParsedMetadata<S>,
+    payment: PaymentRecord | null,
+  ) => Promise<void>
+  onRefunded?: (
+    ctx: WebhookContext,
+    charge: Stripe.Charge,
+    payment: PaymentRecord,
+  ) => Promise<void>
+}
+
+const registry = new Map<string, PurchaseHandler>()
+
+/**
+ * Register a purchase type. Identity helper so each handler module keeps
+ * full typing of its parsed metadata.
+ */
+export function definePurchaseHandler<S extends MetadataSchema>(handler: PurchaseHandler<S>): PurchaseHandler<S> {
+  return handler
+}
+
+export function registerPurchaseType(handler: PurchaseHandler<any>) {
+  if (registry.has(handler.type)) {
+    throw new Error(`Purchase type already registered: ${handler.type}`)
+  }
+  registry.set(handler.type, handler)
+}
+
+export function getPurchaseHandler(type: string | undefined): PurchaseHandler | undefined {
+  return type ? registry.get(type) : undefined
+}
+
+export function registeredPurchaseTypes(): string[] {
+  return [...registry.keys()]
+}
+
+// ── Dead letters ─────────────────────────────────────────────
+
+export interface DeadLetter {
+  webhookEventId: string | null
+  stripeEventId: string
+  eventType: string
+  purchaseType: string | null
+  reason: string
+  payload: unknown
+}
+
+export async function recordDeadLetter(ctx: WebhookContext, letter: DeadLetter) {
+  console.warn(`Dead-lettering ${letter.eventType} ${letter.stripeEventId}: ${letter.reason}`)
+
+  const { error } = await ctx.supabase
+    .from('webhook_dead_letters')
+    .upsert({
+      webhook_event_id: letter.webhookEventId,
+      stripe_event_id: letter.stripeEventId,
+      event_type: letter.eventType,
+      purchase_type: letter.purchaseType,
+      reason: letter.reason,
+      payload: letter.payload,
+    }, {
+      onConflict: 'stripe_event_id',
+    })
+
+  if (error) {
+    // Losing the dead letter would lose the event — let Stripe retry
+    throw new Error(`Failed to record dead letter for ${letter.stripeEventId}: ${error.message}`)
+  }
+}
@@ -0,0 +1,262 @@
+import type Stripe from 'https://esm.sh/stripe@14.21.0'
+import type { WebhookContext } from './context.ts'
+
+// ============================================================
+// SUBSCRIPTION EVENT HANDLERS
+// ============================================================
+
+// Map Stripe price IDs to tier names
+const PRICE_TO_TIER: Record<string, string> = {
+  [Deno.env.get('STRIPE_PRO_PRICE_ID') || 'price_pro_monthly']: 'pro',
+  [Deno.env.get('STRIPE_ENTERPRISE_PRICE_ID') || 'price_enterprise_monthly']: 'enterprise',
+}
+
+function getTierFromPriceId(priceId: string): string {
+  return PRICE_TO_TIER[priceId] || 'base'
+}
+
+function mapSubscriptionStatus(stripeStatus: string): string {
+  switch (stripeStatus) {
+    case 'active':
+      return 'active'
+    case 'canceled':
+      return 'canceled'
+    case 'past_due':
+      return 'past_due'
+    case 'trialing':
+      return 'trialing'
+    case 'paused':
+      return 'paused'
+    case 'incomplete':
+    case 'incomplete_expired':
+    case 'unpaid':
+    default:
+      return 'canceled'
+  }
+}
+
+export async function handleInvoicePaid(ctx: WebhookContext, invoice: Stripe.Invoice) {
+  const { supabase } = ctx
+  // Extract subscription ID — handle both old and new Stripe API versions
+  // Old: invoice.subscription (string)
+  // New (2025+): invoice.parent.subscription_details.subscription
+  const subscriptionId: string | null =
+    (invoice as any).subscription as string ||
+    (invoice as any).parent?.subscription_details?.subscription as string ||
+    null
+
+  // Only track subscription invoices
+  if (!subscriptionId) {
+    console.log('Invoice is not for a subscription, skipping payment record')
+    return
+  }
+
+  const customerId = invoice.customer as string
+
+  console.log(`Subscription invoice paid: ${invoice.id}, amount: ${invoice.amount_paid}, subscription: ${subscriptionId}`)
+
+  // Find user by subscription ID
+  const { data: sub } = await supabase
+    .from('subscriptions')
+    .select('user_id, tier')
+    .eq('stripe_subscription_id', subscriptionId)
+    .single()
+
+  if (!sub) {
+    console.error('No subscription found for:', subscriptionId)
+    return
+  }
+
+  // Skip $0 invoices (e.g., trial starts)
+  if (invoice.amount_paid <= 0) {
+    console.log('Skipping $0 invoice')
+    return
+  }
+
+  // Check if we already recorded this invoice
+  const { data: existing } = await supabase
+    .from('payments')
+    .select('id')
+    .eq('stripe_invoice_id', invoice.id)
+    .maybeSingle()
+
+  if (existing) {
+    console.log('Payment already recorded for invoice:', invoice.id)
+    return
+  }
+
+  // Get receipt URL from the charge
+  let receiptUrl: string | null = null
+  const chargeId = invoice.charge as string
+  if (chargeId) {
+    try {
+      const charge = await ctx.stripe.charges.retrieve(chargeId)
+      receiptUrl = charge.receipt_url || null
+    } catch (err) {
+      console.error('Failed to fetch charge for receipt URL:', err.message)
+    }
+  }
+
+  // Determine description based on invoice lines
+  const lineItem = invoice.lines?.data?.[0]
+  const description = lineItem?.description || `${sub.tier} plan`
+
+  // Create payment record
+  const { error } = await supabase
+    .from('payments')
+    .insert({
+      user_id: sub.user_id,
+      event_id: null,
+      amount_cents: invoice.amount_paid,
+      platform_fee_cents: 0,
+      currency: invoice.currency,
+      status: 'completed',
+      type: 'subscription',
+      stripe_payment_intent_id: invoice.payment_intent as string || null,
+      stripe_charge_id: chargeId || null,
+      stripe_invoice_id: invoice.id,
+      receipt_url: receiptUrl,
+      metadata: {
+        tier: sub.tier,
+        description: description,
+        period_start: lineItem?.period?.start ? new Date(lineItem.period.start * 1000).toISOString() : null,
+        period_end: lineItem?.period?.end ? new Date(lineItem.period.end * 1000).toISOString() : null,
+      },
+    })
+
+  if (error) {
+    console.error('Failed to create subscription payment record:', error)
+  } else {
+    console.log(`Subscription payment recorded: $${(invoice.amount_paid / 100).toFixed(2)} for ${sub.tier} plan`)
+  }
+}
+
+export async function handleSubscriptionCreated(ctx: WebhookContext, subscription: Stripe.Subscription) {
+  const { supabase } = ctx
+  const userId = subscription.metadata?.supabase_user_id
+  if (!userId) {
+    console.error('No supabase_user_id in subscription metadata:', subscription.id)
+    return
+  }
+
+  const priceId = subscription.items.data[0]?.price?.id
+  const tier = subscription.metadata?.tier || getTierFromPriceId(priceId || '')
+  const status = mapSubscriptionStatus(subscription.status)
+
+  console.log(`Subscription created: ${subscription.id} for user ${userId}, tier: ${tier}, status: ${status}`)
+
+  const { error } = await supabase
+    .from('subscriptions')
+    .upsert({
+      user_id: userId,
+      tier: tier,
+      status: status,
+      stripe_subscription_id: subscription.id,
+      stripe_price_id: priceId,
+      current_period_start: new Date(subscription.current_period_start * 1000).toISOString(),
+      current_period_end: new Date(subscription.current_period_end * 1000).toISOString(),
+      cancel_at_period_end: subscription.cancel_at_period_end,
+    }, {
+      onConflict: 'user_id',
+    })
+
+  if (error) {
+    console.error('Failed to upsert subscription:', error)
+  } else {
+    console.log(`Subscription record created/updated for user ${userId}`)
+  }
+}
+
+export async function handleSubscriptionUpdated(ctx: WebhookContext, subscription: Stripe.Subscription) {
+  const { supabase } = ctx
+  const userId = subscription.metadata?.supabase_user_id
+
+  // If no user ID in metadata, try to find by subscription ID
+  let targetUserId = userId
+  if (!targetUserId) {
+    const { data: existingSub } = await supabase
+      .from('subscriptions')
+      .select('user_id')
+      .eq('stripe_subscription_id', subscription.id)
+      .single()
+
+    if (existingSub) {
+      targetUserId = existingSub.user_id
+    }
+  }
+
+  if (!targetUserId) {
+    console.error('Cannot find user for subscription:', subscription.id)
+    return
+  }
+
+  const priceId = subscription.items.data[0]?.price?.id
+  const tier = subscription.metadata?.tier || getTierFromPriceId(priceId || '')
+  const status = mapSubscriptionStatus(subscription.status)
+
+  console.log(`Subscription updated: ${subscription.id} for user ${targetUserId}, tier: ${tier}, status: ${status}`)
+
+  const { error } = await supabase
+    .from('subscriptions')
+    .update({
+      tier: tier,
+      status: status,
+      stripe_price_id: priceId,
+      current_period_start: new Date(subscription.current_period_start * 1000).toISOString(),
+      current_period_end: new Date(subscription.current_period_end * 1000).toISOString(),
+      cancel_at_period_end: subscription.cancel_at_period_end,
+    })
+    .eq('user_id', targetUserId)
+
+  if (error) {
+    console.error('Failed to update subscription:', error)
+  } else {
+    console.log(`Subscription record updated for user ${targetUserId}`)
+  }
+}
+
+export async function handleSubscriptionDeleted(ctx: WebhookContext, subscription: Stripe.Subscription) {
+  const { supabase } = ctx
+  const userId = subscription.metadata?.supabase_user_id
+
+  // If no user ID in metadata, try to find by subscription ID
+  let targetUserId = userId
+  if (!targetUserId) {
+    const { data: existingSub } = await supabase
+      .from('subscriptions')
+      .select('user_id')
+      .eq('stripe_subscription_id', subscription.id)
+      .single()
+
+    if (existingSub) {
+      targetUserId = existingSub.user_id
+    }
+  }
+
+  if (!targetUserId) {
+    console.error('Cannot find user for deleted subscription:', subscription.id)
+    return
+  }
+
+  console.log(`Subscription deleted: ${subscription.id} for user ${targetUserId}`)
+
+  // Reset user to base tier
+  const { error } = await supabase
+    .from('subscriptions')
+    .update({
+      tier: 'base',
+      status: 'canceled',
+      stripe_subscription_id: null,
+      stripe_price_id: null,
+      current_period_start: null,
+      current_period_end: null,
+      cancel_at_period_end: false,
+    })
+    .eq('user_id', targetUserId)
+
+  if (error) {
+    console.error('Failed to reset subscription to base:', error)
+  } else {
+    console.log(`User ${targetUserId} reset to base tier`)
+  }
+}
@@ -0,0 +1,556 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.177.0/testing/asserts.ts'
+import { claimWebhookEvent, finishWebhookEvent, isSettledClaim } from '../../_shared/webhook-ledger.ts'
+import { dispatchStripeEvent } from '../dispatch.ts'
+import { getPurchaseHandler } from '../registry.ts'
+import {
+  cleanupSeed,
+  createSeed,
+  createTestContext,
+  loadFixture,
+  noLocalDatabase,
+  seedEvent,
+  seedUser,
+  seedVenue,
+  uniqueId,
+  type TestContext,
+} from './harness.ts'
+
+// Every metadata.type set by a checkout function must have a handler,
+// otherwise its payments would be dead-lettered in production.
+Deno.test('all checkout purchase types are registered', () => {
+  for (const type of [
+    'primary_purchase', 'vendor_pos', 'waitlist_auto_purchase', 'ach_purchase', 'wallet_top_up',
+    'merch_purchase', 'resale_purchase', 'favor_ticket_purchase', 'tap_to_pay', 'cash_sale_platform_fee',
+  ]) {
+    assert(getPurchaseHandler(type), `${type} is not registered`)
+  }
+})
+
+// A run still in flight may die before finishing, so Stripe must keep
+// redelivering its event until the ledger lets another run take over.
+Deno.test('only settled events are acknowledged as duplicates', () => {
+  assert(isSettledClaim({ id: 'a', claimed: false, status: 'succeeded' }))
+  assert(isSettledClaim({ id: 'a', claimed: false, status: 'dead_lettered' }))
+  assert(!isSettledClaim({ id: 'a', claimed: false, status: 'processing' }))
+})
+
+function ids() {
+  return {
+    stripe_event_id: uniqueId('evt'),
+    payment_intent_id: uniqueId('pi'),
+    charge_id: uniqueId('ch'),
+  }
+}
+
+function chargeFor(chargeId: string) {
+  return { [chargeId]: { receipt_url: `https://pay.stripe.com/receipts/${chargeId}` } }
+}
+
+/** Claim + dispatch + finish, the same path index.ts runs for a delivery. */
+async function deliver(ctx: TestContext, event: Awaited<ReturnType<typeof loadFixture>>, source: 'stripe' | 'replay' = 'stripe') {
+  const claim = await claimWebhookEvent(ctx.supabase, event, 'stripe-webhook', source)
+  if (!claim.claimed) return 'duplicate'
+  const outcome = await dispatchStripeEvent(ctx, event, claim.id)
+  await finishWebhookEvent(ctx.supabase, claim.id, Date.now(), null,
+    outcome === 'dead_lettered' ? 'dead_lettered' : 'succeeded')
+  return outcome
+}
+
+async function cleanupLedger(ctx: TestContext, stripeEventIds: string[]) {
+  await ctx.supabase.from('webhook_dead_letters').delete().in('stripe_event_id', stripeEventIds)
+  await ctx.supabase.from('webhook_events').delete().in('stripe_event_id', stripeEventIds)
+}
+
+Deno.test({
+  name: 'primary purchase creates one ticket per line, and replays create none',
+  ignore: noLocalDatabase,
+  sanitizeOps: false,
+  sanitizeResources: false,
+  fn: async () => {
+    const v = ids()
+    const ctx = createTestContext(chargeFor(v.charge_id))
+    const seed = createSeed()
+
+    try {
+      const userId = await seedUser(ctx.supabase, seed)
+      const eventId = await seedEvent(ctx.supabase, seed, userId)
+      const event = await loadFixture('payment_intent.succeeded.primary_purchase', { ...v, event_id: eventId, user_id: userId })
+
+      assertEquals(await deliver(ctx, event), 'handled')
+
+      const { data: tickets } = await ctx.supabase
+        .from('tickets')
+        .select('id, purchase_line_index, price_paid_cents, nfc_signature')
+        .eq('stripe_payment_intent_id', v.payment_intent_id)
+        .order('purchase_line_index')
+
+      assertEquals(tickets?.map((t) => t.purchase_line_index), [0, 1])
+      assertEquals(tickets?.map((t) => t.price_paid_cents), [2500, 2500])
+      assert(tickets?.every((t) => t.nfc_signature), 'tickets should be signed')
+
+      const { data: payment } = await ctx.supabase
+        .from('payments')
+        .select('status, type, fee_schedule, receipt_url, ticket_id')
+        .eq('stripe_payment_intent_id', v.payment_intent_id)
+        .single()
+
+      assertEquals(payment?.status, 'completed')
+      assertEquals(payment?.type, 'primary_purchase')
+      assertEquals(payment?.fee_schedule, 'card')
+      assertEquals(payment?.receipt_url, `https://pay.stripe.com/receipts/${v.charge_id}`)
+      assertEquals(payment?.ticket_id, tickets?.[0].id)
+
+      // Two wallet passes per new ticket
+      assertEquals(ctx.invocations.filter((i) => i.name === 'generate-wallet-pass').length, 4)
+
+      // Stripe redelivery is acknowledged without running handlers
+      assertEquals(await deliver(ctx, event), 'duplicate')
+
+      // Admin replay re-runs handlers but creates no new tickets or passes
+      const invocationsBefore = ctx.invocations.length
+      assertEquals(await deliver(ctx, event, 'replay'), 'handled')
+
+      const { count } = await ctx.supabase
+        .from('tickets')
+        .select('id', { count: 'exact', head: true })
+        .eq('stripe_payment_intent_id', v.payment_intent_id)
+
+      assertEquals(count, 2)
+      assertEquals(ctx.invocations.length, invocationsBefore)
+    } finally {
+      await cleanupLedger(ctx, [v.stripe_event_id])
+      await cleanupSeed(ctx.supabase, seed, [v.payment_intent_id])
+    }
+  },
+})
+
+Deno.test({
+  name: 'primary purchase assigns held seats and issues seats sold meanwhile unseated',
+  ignore: noLocalDatabase,
+  sanitizeOps: false,
+  sanitizeResources: false,
+  fn: async () => {
+    const v = ids()
+    const otherPaymentIntentId = uniqueId('pi')
+    const ctx = createTestContext(chargeFor(v.charge_id))
+    const seed = createSeed()
+
+    try {
+      const userId = await seedUser(ctx.supabase, seed)
+      const otherUserId = await seedUser(ctx.supabase, seed)
+      const eventId = await seedEvent(ctx.supabase, seed, userId)
+      await seedVenue(ctx.supabase, eventId, userId, ['seat-1', 'seat-2'])
+      const seatSelections = ['seat-1', 'seat-2'].map((seatId) => ({
+        section_id: 'sec-a', seat_id: seatId, seat_label: seatId, section_name: 'Section A', row_label: 'A',
+      }))
+
+      // Both seats held for this checkout
+      const { data: hold } = await ctx.supabase.rpc('hold_seats', {
+        p_event_id: eventId, p_user_id: userId, p_seats: seatSelections,
+      })
+      assert(hold?.success, 'seats should be held')
+      await ctx.supabase.rpc('attach_seat_hold_payment', {
+        p_hold_id: hold.hold_id, p_user_id: userId, p_payment_intent_id: v.payment_intent_id,
+      })
+      await ctx.supabase.from('payments').insert({
+        user_id: userId, event_id: eventId, amount_cents: 5464, status: 'pending', type: 'primary_purchase',
+        stripe_payment_intent_id: v.payment_intent_id, seat_selections: seatSelections,
+      })
+
+      // Another buyer races for seat-1 and loses
+      const { data: racing } = await ctx.supabase.rpc('hold_seats', {
+        p_event_id: eventId, p_user_id: otherUserId, p_seats: [seatSelections[0]],
+      })
+      assertEquals(racing?.success, false)
+      assertEquals(racing?.conflicts, [{ section_id: 'sec-a', seat_id: 'seat-1', reason: 'held' }])
+
+      // ...but an earlier sale of seat-1 slipped through anyway
+      await ctx.supabase.from('tickets').insert({
+        event_id: eventId, ticket_number: uniqueId('TKT'), price_paid_cents: 2500, status: 'valid',
+        sold_by: otherUserId, stripe_payment_intent_id: otherPaymentIntentId, purchase_line_index: 0,
+        venue_section_id: 'sec-a', seat_id: 'seat-1',
+      })
+
+      const event = await loadFixture('payment_intent.succeeded.primary_purchase', { ...v, event_id: eventId, user_id: userId })
+      assertEquals(await deliver(ctx, event), 'handled')
+
+      const { data: tickets } = await ctx.supabase
+        .from('tickets')
+        .select('purchase_line_index, seat_id')
+        .eq('stripe_payment_intent_id', v.payment_intent_id)
+        .order('purchase_line_index')
+      assertEquals(tickets, [{ purchase_line_index: 0, seat_id: null }, { purchase_line_index: 1, seat_id: 'seat-2' }])
+
+      const { data: payment } = await ctx.supabase
+        .from('payments')
+        .select('seat_conflicts')
+        .eq('stripe_payment_intent_id', v.payment_intent_id)
+        .single()
+      assertEquals(payment?.seat_conflicts, [{ section_id: 'sec-a', seat_id: 'seat-1', reason: 'sold' }])
+
+      const { count: holdsLeft } = await ctx.supabase
+        .from('seat_holds')
+        .select('id', { count: 'exact', head: true })
+        .eq('event_id', eventId)
+      assertEquals(holdsLeft, 0)
+    } finally {
+      await cleanupLedger(ctx, [v.stripe_event_id])
+      await cleanupSeed(ctx.supabase, seed, [v.payment_intent_id, otherPaymentIntentId])
+    }
+  },
+})
+
+Deno.test({
+  name: 'widget checkout session fails on a decline and is paid by a retry on the same PaymentIntent',
+  ignore: noLocalDatabase,
+  sanitizeOps: false,
+  sanitizeResources: false,
+  fn: async () => {
+    const v = ids()
+    const retryEventId = uniqueId('evt')
+    const ctx = createTestContext(chargeFor(v.charge_id))
+    const seed = createSeed()
+    let keyId: string | null = null
+
+    try {
+      const userId = await seedUser(ctx.supabase, seed)
+      const eventId = await seedEvent(ctx.supabase, seed, userId)
+      const { data: key } = await ctx.supabase
+        .from('widget_api_keys')
+        .insert({ organizer_id: userId, key_hash: uniqueId('hash') })
+        .select('id')
+        .single()
+      keyId = key!.id
+      await ctx.supabase.from('payments').insert({
+        user_id: userId, event_id: eventId, amount_cents: 5464, status: 'pending', type: 'primary_purchase',
+        stripe_payment_intent_id: v.payment_intent_id, metadata: { source: 'widget' },
+      })
+      await ctx.supabase.from('widget_checkout_sessions').insert({
+        widget_key_id: keyId, event_id: eventId, user_id: userId, ticket_selections: [], amount_cents: 5464,
+        stripe_payment_intent_id: v.payment_intent_id, buyer_email: 'buyer@example.com',
+      })
+      const session = async () => (await ctx.supabase
+        .from('widget_checkout_sessions')
+        .select('status, failure_reason, paid_at')
+        .eq('stripe_payment_intent_id', v.payment_intent_id)
+        .single()).data
+
+      const declined = await loadFixture('payment_intent.payment_failed.primary_purchase', { ...v, event_id: eventId, user_id: userId })
+      assertEquals(await deliver(ctx, declined), 'handled')
+      assertEquals(await session(), { status: 'failed', failure_reason: 'Your card was declined.', paid_at: null })
+
+      const paid = await loadFixture('payment_intent.succeeded.primary_purchase', {
+        ...v, stripe_event_id: retryEventId, event_id: eventId, user_id: userId,
+      })
+      assertEquals(await deliver(ctx, paid), 'handled')
+      const after = await session()
+      assertEquals(after?.status, 'paid')
+      assert(after?.paid_at, 'paid_at should be set')
+      const purchaseEmails = () => ctx.invocations.filter((i) => i.name === 'widget-purchase-email')
+      assertEquals(purchaseEmails().map((i) => i.body), [{ payment_intent_id: v.payment_intent_id }])
+
+      // A late decline for a paid session changes nothing
+      assertEquals(await deliver(ctx, declined, 'replay'), 'handled')
+      assertEquals((await session())?.status, 'paid')
+      assertEquals(purchaseEmails().length, 1)
+    } finally {
+      await cleanupLedger(ctx, [v.stripe_event_id, retryEventId])
+      await ctx.supabase.from('widget_checkout_sessions').delete().eq('stripe_payment_intent_id', v.payment_intent_id)
+      if (keyId) await ctx.supabase.from('widget_api_keys').delete().eq('id', keyId)
+      await cleanupSeed(ctx.supabase, seed, [v.payment_intent_id])
+    }
+  },
+})
+
+Deno.test({
+  name: 'test-mode payments are recorded but issue no tickets, promo uses, mints or passes',
+  ignore: noLocalDatabase,
+  sanitizeOps: false,
+  sanitizeResources: false,
+  fn: async () => {
+    const v = ids()
+    const ctx: TestContext = { ...createTestContext(chargeFor(v.charge_id)), testMode: true }
+    const seed = createSeed()
+
+    try {
+      const userId = await seedUser(ctx.supabase, seed)
+      const eventId = await seedEvent(ctx.supabase, seed, userId)
+      await ctx.supabase.from('events').update({ nft_enabled: true }).eq('id', eventId)
+      const { data: type } = await ctx.supabase
+        .from('event_ticket_types')
+        .insert({ event_id: eventId, name: 'General', price_cents: 2500, max_quantity: 10 })
+        .select('id')
+        .single()
+      const { data: promo } = await ctx.supabase
+        .from('promo_codes')
+        .insert({ event_id: eventId, code: 'TESTMODE', discount_type: 'fixed', discount_value: 100, max_uses: 5 })
+        .select('id')
+        .single()
+      await ctx.supabase.from('payments').insert({
+        user_id: userId, event_id: eventId, amount_cents: 5464, status: 'pending', type: 'primary_purchase',
+        stripe_payment_intent_id: v.payment_intent_id, promo_code_id: promo!.id,
+        metadata: { source: 'widget', test_mode: true, ticket_items: [{ ticket_type_id: type!.id, quantity: 2 }] },
+      })
+      const { data: reserved } = await ctx.supabase.rpc('reserve_promo_code_uses', {
+        p_payment_intent_id: v.payment_intent_id, p_event_id: eventId, p_user_id: userId,
+        p_quantity: 2, p_order_cents: 5000, p_uses: [{ promo_code_id: promo!.id, discount_cents: 100 }],
+      })
+      assertEquals(reserved?.success, true)
+
+      const event = await loadFixture('payment_intent.succeeded.primary_purchase', { ...v, event_id: eventId, user_id: userId })
+      assertEquals(await deliver(ctx, event), 'handled')
+
+      const { count: tickets } = await ctx.supabase
+        .from('tickets')
+        .select('id', { count: 'exact', head: true })
+        .eq('stripe_payment_intent_id', v.payment_intent_id)
+      assertEquals(tickets, 0)
+
+      const { data: typeAfter } = await ctx.supabase
+        .from('event_ticket_types')
+        .select('sold_count')
+        .eq('id', type!.id)
+        .single()
+      assertEquals(typeAfter?.sold_count, 0)
+
+      // The reservation made at checkout is given back, not redeemed
+      const { data: promoAfter } = await ctx.supabase
+        .from('promo_codes')
+        .select('current_uses')
+        .eq('id', promo!.id)
+        .single()
+      assertEquals(promoAfter?.current_uses, 0)
+      const { count: uses } = await ctx.supabase
+        .from('promo_code_uses')
+        .select('id', { count: 'exact', head: true })
+        .eq('stripe_payment_intent_id', v.payment_intent_id)
+      assertEquals(uses, 0)
+
+      const { count: mints } = await ctx.supabase
+        .from('nft_mint_queue')
+        .select('id', { count: 'exact', head: true })
+        .eq('event_id', eventId)
+      assertEquals(mints, 0)
+      assertEquals(ctx.invocations, [])
+
+      const { data: payment } = await ctx.supabase
+        .from('payments')
+        .select('status')
+        .eq('stripe_payment_intent_id', v.payment_intent_id)
+        .single()
+      assertEquals(payment?.status, 'completed')
+
+      // A test-mode widget key is caught on the live endpoint too
+      const liveCtx = createTestContext(chargeFor(v.charge_id))
+      assertEquals(await deliver(liveCtx, event, 'replay'), 'handled')
+      const { count: replayed } = await ctx.supabase
+        .from('tickets')
+        .select('id', { count: 'exact', head: true })
+        .eq('stripe_payment_intent_id', v.payment_intent_id)
+      assertEquals(replayed, 0)
+      assertEquals(liveCtx.invocations, [])
+    } finally {
+      await cleanupLedger(ctx, [v.stripe_event_id])
+      await cleanupSeed(ctx.supabase, seed, [v.payment_intent_id])
+    }
+  },
+})
+
+Deno.test({
+  name: 'charge refund marks every ticket of the PaymentIntent refunded',
+  ignore: noLocalDatabase,
+  sanitizeOps: false,
+  sanitizeResources: false,
+  fn: async () => {
+    const v = ids()
+    const refundEventId = uniqueId('evt')
+    const ctx = createTestContext(chargeFor(v.charge_id))
+    const seed = createSeed()
+
+    try {
+      const userId = await seedUser(ctx.supabase, seed)
+      const eventId = await seedEvent(ctx.supabase, seed, userId)
+      await deliver(ctx, await loadFixture('payment_intent.succeeded.primary_purchase', { ...v, event_id: eventId, user_id: userId }))
+
+      const refund = await loadFixture('charge.refunded', { ...v, stripe_event_id: refundEventId })
+      assertEquals(await deliver(ctx, refund), 'handled')
+
+      const { data: tickets } = await ctx.supabase
+        .from('tickets')
+        .select('status')
+        .eq('stripe_payment_intent_id', v.payment_intent_id)
+
+      assertEquals(tickets?.map((t) => t.status), ['refunded', 'refunded'])
+
+      const { data: payment } = await ctx.supabase
+        .from('payments')
+        .select('status')
+        .eq('stripe_payment_intent_id', v.payment_intent_id)
+        .single()
+
+      assertEquals(payment?.status, 'refunded')
+    } finally {
+      await cleanupLedger(ctx, [v.stripe_event_id, refundEventId])
+      await cleanupSeed(ctx.supabase, seed, [v.payment_intent_id])
+    }
+  },
+})
+
+Deno.test({
+  name: 'wallet top-up settles pending funds exactly once',
+  ignore: noLocalDatabase,
+  sanitizeOps: false,
+  sanitizeResources: false,
+  fn: async () => {
+    const v = ids()
+    const ctx = createTestContext(chargeFor(v.charge_id))
+    const seed = createSeed()
+
+    try {
+      const userId = await seedUser(ctx.supabase, seed)
+      await ctx.supabase.from('wallet_balances').upsert({ user_id: userId, available_cents: 500, pending_cents: 2000 }, { onConflict: 'user_id' })
+      await ctx.supabase.from('wallet_transactions').insert({
+        user_id: userId,
+        type: 'ach_top_up_pending',
+        amount_cents: 2000,
+        balance_after_cents: 500,
+        stripe_payment_intent_id: v.payment_intent_id,
+        description: 'ACH top-up (pending)',
+      })
+
+      const event = await loadFixture('payment_intent.succeeded.wallet_top_up', { ...v, user_id: userId })
+      assertEquals(await deliver(ctx, event), 'handled')
+      assertEquals(await deliver(ctx, event, 'replay'), 'handled')
+
+      const { data: wallet } = await ctx.supabase
+        .from('wallet_balances')
+        .select('available_cents, pending_cents')
+        .eq('user_id', userId)
+        .single()
+
+      assertEquals(wallet, { available_cents: 2500, pending_cents: 0 })
+    } finally {
+      await cleanupLedger(ctx, [v.stripe_event_id])
+      await cleanupSeed(ctx.supabase, seed, [v.payment_intent_id])
+    }
+  },
+})
+
+Deno.test({
+  name: 'failed ACH purchase revokes its tickets and notifies the buyer',
+  ignore: noLocalDatabase,
+  sanitizeOps: false,
+  sanitizeResources: false,
+  fn: async () => {
+    const v = ids()
+    const ctx = createTestContext()
+    const seed = createSeed()
+
+    try {
+      const userId = await seedUser(ctx.supabase, seed)
+      const eventId = await seedEvent(ctx.supabase, seed, userId)
+
+      // create-ach-payment-intent issues tickets before the debit settles
+      await ctx.supabase.from('payments').insert({
+        user_id: userId,
+        event_id: eventId,
+        amount_cents: 5292,
+        currency: 'usd',
+        status: 'processing',
+        type: 'ach_purchase',
+        stripe_payment_intent_id: v.payment_intent_id,
+      })
+      await ctx.supabase.from('tickets').insert({
+        event_id: eventId,
+        ticket_number: `TKT-TEST-${v.payment_intent_id.slice(-6)}`,
+        price_paid_cents: 5000,
+        currency: 'USD',
+        status: 'valid',
+        sold_by: userId,
+        stripe_payment_intent_id: v.payment_intent_id,
+        purchase_line_index: 0,
+      })
+
+      const event = await loadFixture('payment_intent.payment_failed.ach_purchase', { ...v, event_id: eventId, user_id: userId })
+      assertEquals(await deliver(ctx, event), 'handled')
+
+      const { data: ticket } = await ctx.supabase
+        .from('tickets')
+        .select('status')
+        .eq('stripe_payment_intent_id', v.payment_intent_id)
+        .single()
+      assertEquals(ticket?.status, 'cancelled')
+
+      const { data: payment } = await ctx.supabase
+        .from('payments')
+        .select('status')
+        .eq('stripe_payment_intent_id', v.payment_intent_id)
+        .single()
+      assertEquals(payment?.status, 'failed')
+
+      const { count } = await ctx.supabase
+        .from('notifications')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .eq('type', 'payment_failed')
+      assertEquals(count, 1)
+    } finally {
+      await cleanupLedger(ctx, [v.stripe_event_id])
+      await cleanupSeed(ctx.supabase, seed, [v.payment_intent_id])
+    }
+  },
+})
+
+for (const [fixture, reason] of [
+  ['payment_intent.succeeded.unknown_type', 'Unknown purchase type: season_pass_purchase'],
+  ['payment_intent.succeeded.malformed_primary', 'Malformed primary_purchase metadata: missing user_id, quantity is not an integer'],
+]) {
+  Deno.test({
+    name: `${fixture} is dead-lettered without side effects`,
+    ignore: noLocalDatabase,
+    sanitizeOps: false,
+    sanitizeResources: false,
+    fn: async () => {
+      const v = ids()
+      const ctx = createTestContext(chargeFor(v.charge_id))
+      const seed = createSeed()
+
+      try {
+        const userId = await seedUser(ctx.supabase, seed)
+        const eventId = await seedEvent(ctx.supabase, seed, userId)
+        const event = await loadFixture(fixture, { ...v, event_id: eventId, user_id: userId })
+
+        assertEquals(await deliver(ctx, event), 'dead_lettered')
+
+        const { data: letter } = await ctx.supabase
+          .from('webhook_dead_letters')
+          .select('reason, resolved_at, webhook_event_id')
+          .eq('stripe_event_id', v.stripe_event_id)
+          .single()
+        assertEquals(letter?.reason, reason)
+        assertEquals(letter?.resolved_at, null)
+        assert(letter?.webhook_event_id)
+
+        const { data: ledger } = await ctx.supabase
+          .from('webhook_events')
+          .select('status')
+          .eq('stripe_event_id', v.stripe_event_id)
+          .single()
+        assertEquals(ledger?.status, 'dead_lettered')
+
+        // Stripe retries are acknowledged, not re-dispatched
+        assertEquals(await deliver(ctx, event), 'duplicate')
+
+        const { count } = await ctx.supabase
+          .from('payments')
+          .select('id', { count: 'exact', head: true })
+          .eq('stripe_payment_intent_id', v.payment_intent_id)
+        assertEquals(count, 0)
+        assertEquals(ctx.stripeCalls.length, 0)
+      } finally {
+        await cleanupLedger(ctx, [v.stripe_event_id])
+        await cleanupSeed(ctx.supabase, seed, [v.payment_intent_id])
+      }
+    },
+  })
+}
@@ -0,0 +1,107 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
+import { toCsv } from '../_shared/promo.ts'
+import { formatRate } from '../_shared/tax.ts'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Sales tax / VAT collected on the signed-in organizer's events, for filing
+// returns.
+//
+//   { from, to, event_id? }                               → { rows, csv }
+//       one row per event, currency and rate for orders placed between the
+//       two dates (YYYY-MM-DD, both included); refunded orders are counted
+//       apart so they can be netted off
+
+interface TaxReportRequest {
+  from?: string
+  to?: string
+  event_id?: string
+}
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/
+const MAX_RANGE_DAYS = 366
+
+const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey)
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return jsonResponse({ error: 'Missing authorization header' }, 401)
+    }
+
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    )
+    if (authError || !user) {
+      return jsonResponse({ error: 'Invalid authentication' }, 401)
+    }
+
+    const body: TaxReportRequest = await req.json()
+    const from = parseDate(body.from)
+    const to = parseDate(body.to)
+    if (!from || !to) {
+      return jsonResponse({ error: 'from and to must be dates (YYYY-MM-DD)' }, 400)
+    }
+    const days = (to.getTime() - from.getTime()) / 86_400_000
+    if (days < 0 || days >= MAX_RANGE_DAYS) {
+      return jsonResponse({ error: `The range must run forward and cover at most ${MAX_RANGE_DAYS} days` }, 400)
+    }
+
+    if (body.event_id) {
+      const { data: event } = await supabaseAdmin
+        .from('events')
+        .select('id')
+        .eq('id', body.event_id)
+        .eq('organizer_id', user.id)
+        .maybeSingle()
+      if (!event) return jsonResponse({ error: 'Event not found' }, 404)
+    }
+
+    // The RPC takes a half-open range, so end the day after `to`
+    const end = new Date(to.getTime() + 86_400_000)
+    const { data, error } = await supabaseAdmin.rpc('organizer_tax_report', {
+      p_organizer_id: user.id,
+      p_from: body.from,
+      p_to: end.toISOString().slice(0, 10),
+      p_event_id: body.event_id ?? null,
+    })
+    if (error) throw new Error(`organizer_tax_report failed: ${error.message}`)
+
+    const rows = (data ?? []) as any[]
+    const csv = toCsv(
+      ['event', 'event_date', 'currency', 'tax', 'rate', 'prices_include_tax', 'orders', 'net_sales', 'tax_collected', 'refunded_orders', 'refunded_tax'],
+      rows.map((r) => [
+        r.event_title, r.event_date?.slice(0, 10), r.currency, r.tax_name, formatRate(r.rate_bps), r.tax_inclusive,
+        r.orders, r.net_sales_cents, r.tax_cents, r.refunded_orders, r.refunded_tax_cents,
+      ]),
+    )
+    return jsonResponse({ rows, csv })
+  } catch (err) {
+    console.error('[tax-report] Error:', err)
+    return jsonResponse({ error: err.message }, 500)
+  }
+})
+
+function parseDate(value: unknown): Date | null {
+  if (typeof value !== 'string' || !DATE_RE.test(value)) return null
+  const date = new Date(`${value}T00:00:00Z`)
+  return isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== value ? null : date
+}
+
+function jsonResponse(data: any, status = 200) {
+  return new Response(JSON.stringify(data), {
+    status, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
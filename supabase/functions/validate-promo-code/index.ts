@@ -1,5 +1,6 @@
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
+import { applyPromoCodes, loadOrderLines, normalizeCodes, orderTotal, type OrderLine } from '../_shared/promo.ts'
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
@@ -9,10 +10,16 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+// Checks the entered codes (one, or several stackable ones) against the
+// buyer's order. The order is priced from `ticket_items` or the event price
+// × `quantity`; older app versions send only `base_price_cents`.
 interface ValidateRequest {
   event_id: string
-  code: string
-  base_price_cents: number
+  code?: string
+  codes?: string[]
+  ticket_items?: { ticket_type_id: string; quantity: number }[]
+  quantity?: number
+  base_price_cents?: number
   ticket_type_id?: string
 }
 
@@ -47,34 +54,36 @@ serve(async (req) => {
     }
 
     const body: ValidateRequest = await req.json()
-    const { event_id, code, base_price_cents, ticket_type_id } = body
+    const { event_id, ticket_items, quantity, base_price_cents, ticket_type_id } = body
+    const codes = normalizeCodes(body.codes ?? body.code)
 
-    if (!event_id || !code || base_price_cents == null) {
+    if (!event_id || codes.length === 0 || (quantity == null && base_price_cents == null && !ticket_items?.length)) {
       return new Response(
-        JSON.stringify({ error: 'Missing required fields: event_id, code, base_price_cents' }),
+        JSON.stringify({ error: 'Missing required fields: event_id, code, and ticket_items, quantity or base_price_cents' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       )
     }
 
-    // Call the validate_promo_code SQL function
     const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey)
-    const { data, error } = await supabaseAdmin.rpc('validate_promo_code', {
-      p_event_id: event_id,
-      p_code: code,
-      p_user_id: user.id,
-      p_base_price_cents: base_price_cents,
-      p_ticket_type_id: ticket_type_id || null,
-    })
+    const lines: OrderLine[] = ticket_items?.length || quantity != null
+      ? await loadOrderLines(supabaseAdmin, event_id, ticket_items, quantity ?? 1)
+      : [{ ticket_type_id: ticket_type_id || null, quantity: 1, unit_price_cents: base_price_cents! }]
 
-    if (error) {
-      console.error('validate_promo_code RPC error:', error)
-      return new Response(
-        JSON.stringify({ error: 'Failed to validate promo code' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
+    const result = await applyPromoCodes(supabaseAdmin, event_id, codes, user.id, lines)
+    const data = result.valid
+      ? {
+        valid: true,
+        // Single-code fields kept for older app versions
+        promo_code_id: result.codes[0].promo_code_id,
+        discount_type: result.codes[0].discount_type,
+        discount_value: result.codes[0].discount_value,
+        discount_cents: result.discount_cents,
+        discounted_price_cents: orderTotal(lines) - result.discount_cents,
+        codes: result.codes,
+      }
+      : result
 
-    console.log(`[validate-promo-code] event=${event_id}, code=${code}, result=`, data)
+    console.log(`[validate-promo-code] event=${event_id}, codes=${codes.join(',')}, result=`, data)
 
     return new Response(
       JSON.stringify(data),
@@ -0,0 +1,331 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
+import {
+  MAX_ROTATION_OVERLAP_HOURS,
+  mintWidgetKey,
+  normalizeAllowedOrigin,
+  type WidgetKeyMode,
+} from '../_shared/widget-keys.ts'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Widget API key management for the signed-in organizer.
+//
+//   { action: 'list', include_revoked? }                  → { keys }
+//   { action: 'create', mode?, label?, allowed_event_ids?, allowed_origins?,
+//     rate_limit_per_minute? }                            → { key, secret }
+//   { action: 'update', key_id, label?, allowed_event_ids?, allowed_origins?,
+//     rate_limit_per_minute?, is_active? }                → { key }
+//   { action: 'rotate', key_id, overlap_hours? }          → { key, secret, previous }
+//       mints a successor with the same mode and scopes; the old key keeps
+//       working for overlap_hours (default 24, 0 ends it now)
+//   { action: 'revoke', key_id }                          → { key }
+//   { action: 'usage', key_id?, days? }                   → { usage, totals }
+//       daily request, checkout, origin rejection and rate-limit counts
+//
+// `secret` is the plaintext key. It is returned once and never stored.
+// Empty allowed_event_ids / allowed_origins mean "all".
+
+interface WidgetKeyRequest {
+  action: 'list' | 'create' | 'update' | 'rotate' | 'revoke' | 'usage'
+  key_id?: string
+  mode?: WidgetKeyMode
+  label?: string | null
+  allowed_event_ids?: string[] | null
+  allowed_origins?: string[] | null
+  rate_limit_per_minute?: number
+  is_active?: boolean
+  overlap_hours?: number
+  include_revoked?: boolean
+  days?: number
+}
+
+const KEY_COLUMNS = `
+  id, organizer_id, mode, key_prefix, key_hint, label, allowed_event_ids, allowed_origins,
+  is_active, rate_limit_per_minute, created_at, last_used_at, expires_at,
+  revoked_at, rotated_from_key_id
+`
+
+const DEFAULT_OVERLAP_HOURS = 24
+const MAX_USAGE_DAYS = 30
+
+const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey)
+
+/** Invalid key settings in the request body; answered with a 400. */
+class KeySettingsError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'KeySettingsError'
+  }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return jsonResponse({ error: 'Missing authorization header' }, 401)
+    }
+
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    )
+    if (authError || !user) {
+      return jsonResponse({ error: 'Invalid authentication' }, 401)
+    }
+
+    const body: WidgetKeyRequest = await req.json()
+    const { action } = body
+
+    if (action === 'list') {
+      let query = supabaseAdmin
+        .from('widget_api_keys')
+        .select(KEY_COLUMNS)
+        .eq('organizer_id', user.id)
+        .order('created_at', { ascending: false })
+      if (!body.include_revoked) query = query.is('revoked_at', null)
+
+      const { data, error } = await query
+      if (error) throw new Error(`widget_api_keys: ${error.message}`)
+      return jsonResponse({ keys: data })
+    }
+
+    if (action === 'create') {
+      const mode = body.mode ?? 'live'
+      if (mode !== 'live' && mode !== 'test') {
+        return jsonResponse({ error: 'Mode must be "live" or "test"' }, 400)
+      }
+      const settings = await parseSettings(user.id, body)
+
+      const minted = await mintWidgetKey(mode)
+      const { data: key, error } = await supabaseAdmin
+        .from('widget_api_keys')
+        .insert({
+          organizer_id: user.id,
+          mode,
+          key_prefix: minted.prefix,
+          key_hash: minted.hash,
+          key_hint: minted.hint,
+          ...settings,
+        })
+        .select(KEY_COLUMNS)
+        .single()
+      if (error) throw new Error(`widget_api_keys insert failed: ${error.message}`)
+
+      console.log(`[widget-api-keys] ${user.id} created ${mode} key ${key.id}`)
+      return jsonResponse({ key, secret: minted.key })
+    }
+
+    if (action === 'usage') {
+      const days = body.days ?? 7
+      if (!Number.isInteger(days) || days < 1 || days > MAX_USAGE_DAYS) {
+        return jsonResponse({ error: `Days must be between 1 and ${MAX_USAGE_DAYS}` }, 400)
+      }
+
+      const { data, error } = await supabaseAdmin.rpc('get_widget_key_usage', {
+        p_organizer_id: user.id,
+        p_days: days,
+        p_key_id: body.key_id ?? null,
+      })
+      if (error) throw new Error(`get_widget_key_usage failed: ${error.message}`)
+
+      const usage = (data ?? []).map((row: any) => ({
+        key_id: row.key_id,
+        day: row.day,
+        requests: Number(row.requests),
+        checkouts: Number(row.checkouts),
+        origin_rejections: Number(row.origin_rejections),
+        rate_limited: Number(row.rate_limited),
+      }))
+      const totals = { requests: 0, checkouts: 0, origin_rejections: 0, rate_limited: 0 }
+      for (const row of usage) {
+        totals.requests += row.requests
+        totals.checkouts += row.checkouts
+        totals.origin_rejections += row.origin_rejections
+        totals.rate_limited += row.rate_limited
+      }
+      return jsonResponse({ days, usage, totals })
+    }
+
+    if (action === 'update' || action === 'rotate' || action === 'revoke') {
+      if (!body.key_id) {
+        return jsonResponse({ error: 'Missing required field: key_id' }, 400)
+      }
+
+      const { data: current } = await supabaseAdmin
+        .from('widget_api_keys')
+        .select('*')
+        .eq('id', body.key_id)
+        .eq('organizer_id', user.id)
+        .maybeSingle()
+      if (!current) return jsonResponse({ error: 'Key not found' }, 404)
+
+      if (action === 'revoke') {
+        if (current.revoked_at) return jsonResponse({ key: publicKey(current) })
+
+        const { data: key, error } = await supabaseAdmin
+          .from('widget_api_keys')
+          .update({ is_active: false, revoked_at: new Date().toISOString() })
+          .eq('id', current.id)
+          .select(KEY_COLUMNS)
+          .single()
+        if (error) throw new Error(`widget_api_keys update failed: ${error.message}`)
+
+        console.log(`[widget-api-keys] ${user.id} revoked key ${current.id}`)
+        return jsonResponse({ key })
+      }
+
+      if (current.revoked_at) return jsonResponse({ error: 'Key has been revoked' }, 409)
+
+      if (action === 'update') {
+        const settings = await parseSettings(user.id, body)
+        if (body.is_active !== undefined) {
+          if (typeof body.is_active !== 'boolean') {
+            return jsonResponse({ error: 'is_active must be a boolean' }, 400)
+          }
+          settings.is_active = body.is_active
+        }
+        if (Object.keys(settings).length === 0) return jsonResponse({ key: publicKey(current) })
+
+        const { data: key, error } = await supabaseAdmin
+          .from('widget_api_keys')
+          .update(settings)
+          .eq('id', current.id)
+          .select(KEY_COLUMNS)
+          .single()
+        if (error) throw new Error(`widget_api_keys update failed: ${error.message}`)
+        return jsonResponse({ key })
+      }
+
+      // rotate
+      const overlapHours = body.overlap_hours ?? DEFAULT_OVERLAP_HOURS
+      if (typeof overlapHours !== 'number' || overlapHours < 0 || overlapHours > MAX_ROTATION_OVERLAP_HOURS) {
+        return jsonResponse({ error: `overlap_hours must be between 0 and ${MAX_ROTATION_OVERLAP_HOURS}` }, 400)
+      }
+
+      // Claim the old key first so two rotations cannot both mint a successor
+      const expiresAt = new Date(Date.now() + overlapHours * 60 * 60 * 1000).toISOString()
+      const { data: previous } = await supabaseAdmin
+        .from('widget_api_keys')
+        .update({ expires_at: expiresAt })
+        .eq('id', current.id)
+        .is('expires_at', null)
+        .is('revoked_at', null)
+        .select(KEY_COLUMNS)
+        .maybeSingle()
+      if (!previous) return jsonResponse({ error: 'Key has already been rotated' }, 409)
+
+      const minted = await mintWidgetKey(current.mode)
+      const { data: key, error } = await supabaseAdmin
+        .from('widget_api_keys')
+        .insert({
+          organizer_id: user.id,
+          mode: current.mode,
+          key_prefix: minted.prefix,
+          key_hash: minted.hash,
+          key_hint: minted.hint,
+          label: current.label,
+          allowed_event_ids: current.allowed_event_ids,
+          allowed_origins: current.allowed_origins,
+          rate_limit_per_minute: current.rate_limit_per_minute,
+          is_active: current.is_active,
+          rotated_from_key_id: current.id,
+        })
+        .select(KEY_COLUMNS)
+        .single()
+      if (error) {
+        await supabaseAdmin.from('widget_api_keys').update({ expires_at: null }).eq('id', current.id)
+        throw new Error(`widget_api_keys insert failed: ${error.message}`)
+      }
+
+      console.log(`[widget-api-keys] ${user.id} rotated key ${current.id} → ${key.id}, old key expires ${expiresAt}`)
+      return jsonResponse({ key, secret: minted.key, previous })
+    }
+
+    return jsonResponse({
+      error: 'Invalid action. Must be "list", "create", "update", "rotate", "revoke" or "usage"',
+    }, 400)
+
+  } catch (err) {
+    if (err instanceof KeySettingsError) return jsonResponse({ error: err.message }, 400)
+    console.error('[widget-api-keys] Error:', err)
+    return jsonResponse({ error: err.message || 'Internal server error' }, 500)
+  }
+})
+
+// Label, scopes and rate limit present in the request, validated. Event
+// scopes must be the organizer's own events.
+async function parseSettings(organizerId: string, body: WidgetKeyRequest): Promise<Record<string, unknown>> {
+  const settings: Record<string, unknown> = {}
+
+  if (body.label !== undefined) {
+    if (body.label !== null && typeof body.label !== 'string') throw new KeySettingsError('label must be a string')
+    const label = body.label?.trim() || null
+    if (label && label.length > 100) throw new KeySettingsError('label must be at most 100 characters')
+    settings.label = label
+  }
+
+  if (body.allowed_origins !== undefined) {
+    if (body.allowed_origins !== null && !Array.isArray(body.allowed_origins)) {
+      throw new KeySettingsError('allowed_origins must be a list')
+    }
+    const origins: string[] = []
+    for (const value of body.allowed_origins ?? []) {
+      const origin = normalizeAllowedOrigin(value)
+      if (!origin) {
+        throw new KeySettingsError(`Invalid origin "${value}". Use https://example.com, *.example.com or *`)
+      }
+      if (!origins.includes(origin)) origins.push(origin)
+    }
+    settings.allowed_origins = origins.length > 0 ? origins : null
+  }
+
+  if (body.allowed_event_ids !== undefined) {
+    if (body.allowed_event_ids !== null && !Array.isArray(body.allowed_event_ids)) {
+      throw new KeySettingsError('allowed_event_ids must be a list')
+    }
+    const eventIds = [...new Set(body.allowed_event_ids ?? [])]
+    if (eventIds.length > 0) {
+      const { data: events, error } = await supabaseAdmin
+        .from('events')
+        .select('id')
+        .eq('organizer_id', organizerId)
+        .in('id', eventIds)
+      if (error) throw new KeySettingsError('allowed_event_ids must be event ids')
+      const owned = new Set((events ?? []).map((e: any) => e.id))
+      const foreign = eventIds.filter((id) => !owned.has(id))
+      if (foreign.length > 0) throw new KeySettingsError(`Not your event(s): ${foreign.join(', ')}`)
+    }
+    settings.allowed_event_ids = eventIds.length > 0 ? eventIds : null
+  }
+
+  if (body.rate_limit_per_minute !== undefined) {
+    const limit = body.rate_limit_per_minute
+    if (!Number.isInteger(limit) || limit < 1 || limit > 1000) {
+      throw new KeySettingsError('rate_limit_per_minute must be between 1 and 1000')
+    }
+    settings.rate_limit_per_minute = limit
+  }
+
+  return settings
+}
+
+function publicKey(row: any) {
+  const { key_hash: _hash, ...key } = row
+  return key
+}
+
+function jsonResponse(data: any, status = 200) {
+  return new Response(JSON.stringify(data), {
+    status, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
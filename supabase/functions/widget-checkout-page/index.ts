@@ -1,37 +1,102 @@
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
+import {
+  brandingCssVariables,
+  DEFAULT_BRANDING,
+  resolveWidgetBranding,
+  type WidgetBranding,
+} from '../_shared/widget-branding.ts'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
 
 // Serve the checkout HTML page with correct Content-Type.
 // This edge function exists because Supabase Storage serves files
 // as text/plain regardless of upload content-type headers.
+// The organizer's branding (widget_configs, then organizer_branding) is
+// rendered into the page here, including their sanitized custom CSS.
 
 serve(async (req) => {
-  // Pass through query params (key, event, color, v)
+  // Pass through query params (key, event, color, v, page, resume, access, display, instance)
   const url = new URL(req.url)
   const key = url.searchParams.get('key') || ''
   const event = url.searchParams.get('event') || ''
   const color = url.searchParams.get('color') || ''
   const v = url.searchParams.get('v') || '1.0.0'
+  const page = url.searchParams.get('page') || ''
+  const resume = url.searchParams.get('resume') || ''
+  const access = url.searchParams.get('access') || ''
+  const display = url.searchParams.get('display') === 'inline' ? 'inline' : 'modal'
+  const instance = url.searchParams.get('instance') || ''
+
+  const branding = await loadBranding(event)
 
+  // Page URLs carry arbitrary characters, so they are escaped as JS string contents
   const html = CHECKOUT_HTML
     .replace('__WIDGET_KEY__', escapeAttr(key))
     .replace('__EVENT_ID__', escapeAttr(event))
     .replace('__CUSTOM_COLOR__', escapeAttr(color))
     .replace('__VERSION__', escapeAttr(v))
+    .replace('__PAGE_URL__', () => escapeJsString(page))
+    .replace('__RESUME_TOKEN__', () => escapeJsString(resume))
+    .replace('__ACCESS_CODE__', () => escapeJsString(access))
+    .replace('__DISPLAY__', display)
+    .replace('__INSTANCE__', escapeAttr(instance))
+    .replace('__FONT_LINK__', () => fontLink(branding))
+    .replace('__BRANDING_CSS__', () => brandingCss(branding))
+    .replace('__LOGO__', () => branding.logo_url ? `<img class="brand-logo" src="${escapeAttr(branding.logo_url)}" alt="">` : '')
 
   return new Response(html, {
     status: 200,
     headers: {
       'Content-Type': 'text/html; charset=utf-8',
       'Access-Control-Allow-Origin': '*',
-      'Cache-Control': 'public, max-age=300',
+      // Resume tokens and access codes are personal; never keep them in a shared cache
+      'Cache-Control': resume || access ? 'private, no-store' : 'public, max-age=300',
     },
   })
 })
 
+// Branding never blocks checkout: an unknown event or a failed lookup
+// renders the default look
+async function loadBranding(eventId: string): Promise<WidgetBranding> {
+  if (!/^[0-9a-f-]{36}$/i.test(eventId)) return DEFAULT_BRANDING
+  try {
+    const { data: event } = await supabase
+      .from('events')
+      .select('organizer_id')
+      .eq('id', eventId)
+      .maybeSingle()
+    return event ? await resolveWidgetBranding(supabase, event.organizer_id, '#checkout') : DEFAULT_BRANDING
+  } catch (err) {
+    console.error('widget-checkout-page branding error:', err)
+    return DEFAULT_BRANDING
+  }
+}
+
+// Values are validated by resolveWidgetBranding; custom CSS is already scoped
+function brandingCss(branding: WidgetBranding): string {
+  const rules = [brandingCssVariables(branding)]
+  if (!branding.show_powered_by) rules.push('.powered-by { display: none; }')
+  if (branding.custom_css) rules.push(branding.custom_css)
+  return rules.join('\n')
+}
+
+function fontLink(branding: WidgetBranding): string {
+  if (branding.font_family === 'Inter') return ''
+  const family = encodeURIComponent(branding.font_family).replace(/%20/g, '+')
+  return `<link href="https://fonts.googleapis.com/css2?family=${family}:wght@400;500;600;700&display=swap" rel="stylesheet">`
+}
+
 function escapeAttr(s: string): string {
   return s.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
 }
 
+function escapeJsString(s: string): string {
+  return JSON.stringify(s).slice(1, -1).replace(/</g, '\\u003c')
+}
+
 const CHECKOUT_HTML = `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -40,6 +105,7 @@ const CHECKOUT_HTML = `<!DOCTYPE html>
   <title>Tickety Checkout</title>
   <link rel="preconnect" href="https://fonts.googleapis.com">
   <link href="https://fonts.googleapis.com/css2?family=Inter:wght@400;500;600;700&display=swap" rel="stylesheet">
+  __FONT_LINK__
   <script src="https://js.stripe.com/v3/"></script>
   <style>
     :root {
@@ -56,16 +122,21 @@ const CHECKOUT_HTML = `<!DOCTYPE html>
     }
     * { margin: 0; padding: 0; box-sizing: border-box; }
     body {
-      font-family: 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif;
+      font-family: var(--font-family, 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif);
       background: var(--bg); color: var(--text); line-height: 1.5;
       -webkit-font-smoothing: antialiased;
     }
     .checkout-container { display: flex; flex-direction: column; height: 100vh; overflow-y: auto; }
+    body.inline .checkout-container { height: auto; overflow: visible; }
+    body.inline #main-flow { height: auto !important; }
+    body.inline .header, body.inline .footer { position: static; }
+    body.inline .close-btn { display: none; }
     .header {
       display: flex; align-items: center; justify-content: space-between;
       padding: 16px 20px; border-bottom: 1px solid var(--border);
       position: sticky; top: 0; background: var(--bg); z-index: 10;
     }
+    .brand-logo { height: 28px; max-width: 120px; object-fit: contain; margin-right: 10px; flex-shrink: 0; }
     .header h1 { font-size: 16px; font-weight: 600; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; flex: 1; margin-right: 12px; }
     .close-btn {
       width: 32px; height: 32px; border-radius: 50%; border: none;
@@ -76,7 +147,7 @@ const CHECKOUT_HTML = `<!DOCTYPE html>
     .close-btn svg { width: 16px; height: 16px; stroke: var(--text-secondary); }
     .step-indicator { display: flex; gap: 4px; padding: 12px 20px; background: var(--bg-secondary); }
     .step-dot { flex: 1; height: 3px; border-radius: 2px; background: var(--border); transition: background 0.3s; }
-    .step-dot.active { background: var(--primary); }
+    .step-dot.active { background: var(--accent, var(--primary)); }
     .step-dot.done { background: var(--success); }
     .step-content { flex: 1; padding: 20px; display: none; }
     .step-content.active { display: block; }
@@ -106,7 +177,7 @@ const CHECKOUT_HTML = `<!DOCTYPE html>
     .form-input::placeholder { color: #9CA3AF; }
     .promo-row { display: flex; gap: 8px; margin-top: 16px; }
     .promo-row .form-input { flex: 1; }
-    .promo-btn { padding: 0 16px; border-radius: 8px; border: 1px solid var(--primary); background: transparent; color: var(--primary); font-weight: 600; font-size: 13px; cursor: pointer; white-space: nowrap; transition: all 0.15s; }
+    .promo-btn { padding: 0 16px; border-radius: var(--button-radius, 8px); border: 1px solid var(--primary); background: transparent; color: var(--primary); font-weight: 600; font-size: 13px; cursor: pointer; white-space: nowrap; transition: all 0.15s; }
     .promo-btn:hover { background: var(--primary); color: #fff; }
     .promo-result { font-size: 13px; margin-top: 8px; padding: 8px 12px; border-radius: 8px; }
     .promo-result.success { background: #ECFDF5; color: #065F46; }
@@ -121,7 +192,7 @@ const CHECKOUT_HTML = `<!DOCTYPE html>
     #card-element.StripeElement--invalid { border-color: var(--error); }
     #card-errors { font-size: 13px; color: var(--error); margin-top: 8px; min-height: 20px; }
     .footer { padding: 16px 20px; border-top: 1px solid var(--border); background: var(--bg); position: sticky; bottom: 0; }
-    .primary-btn { width: 100%; padding: 14px; border: none; border-radius: var(--radius); background: var(--primary); color: #fff; font-family: inherit; font-size: 15px; font-weight: 600; cursor: pointer; transition: background 0.15s, opacity 0.15s; }
+    .primary-btn { width: 100%; padding: 14px; border: none; border-radius: var(--button-radius, var(--radius)); background: var(--primary); color: #fff; font-family: inherit; font-size: 15px; font-weight: 600; cursor: pointer; transition: background 0.15s, opacity 0.15s; }
     .primary-btn:hover { background: var(--primary-hover); }
     .primary-btn:disabled { opacity: 0.5; cursor: not-allowed; }
     .powered-by { text-align: center; margin-top: 10px; font-size: 11px; color: var(--text-secondary); }
@@ -137,6 +208,9 @@ const CHECKOUT_HTML = `<!DOCTYPE html>
     .error-view { display: flex; flex-direction: column; align-items: center; justify-content: center; text-align: center; padding: 40px 20px; flex: 1; }
     .error-view p { color: var(--error); font-size: 14px; }
   </style>
+  <style id="tickety-branding">
+__BRANDING_CSS__
+  </style>
 </head>
 <body>
   <div class="checkout-container" id="checkout">
@@ -147,7 +221,7 @@ const CHECKOUT_HTML = `<!DOCTYPE html>
     </div>
     <div id="main-flow" style="display:none;flex-direction:column;height:100vh;">
       <div class="header">
-        <h1 id="event-title">Loading...</h1>
+        __LOGO__<h1 id="event-title">Loading...</h1>
         <button class="close-btn" onclick="closeWidget()">
           <svg viewBox="0 0 24 24" fill="none" stroke-width="2" stroke-linecap="round"><line x1="18" y1="6" x2="6" y2="18"/><line x1="6" y1="6" x2="18" y2="18"/></svg>
         </button>
@@ -207,37 +281,52 @@ const CHECKOUT_HTML = `<!DOCTYPE html>
     const WIDGET_KEY = "__WIDGET_KEY__";
     const EVENT_ID = "__EVENT_ID__";
     const CUSTOM_COLOR = "__CUSTOM_COLOR__";
+    const PAGE_URL = "__PAGE_URL__" || null, RESUME_TOKEN = "__RESUME_TOKEN__" || null, ACCESS_CODE = "__ACCESS_CODE__" || null;
+    const DISPLAY = "__DISPLAY__", INSTANCE = "__INSTANCE__" || null, HOST_ORIGIN = originOf(PAGE_URL);
     const API_BASE = 'https://hnouslchigcmbiovdbfz.supabase.co/functions/v1';
-    let currentStep = 0, eventData = null, ticketTypes = [], widgetConfig = {};
+    let currentStep = 0, eventData = null, ticketTypes = [], widgetConfig = {}, pricing = {currency:'usd',decimals:2,card_fee_fixed:30,mint_fee:25,tax:{inclusive:false,rates:[]}};
     let quantities = {}, promoDiscount = 0, promoCode = null;
     let stripeInstance = null, cardElement = null, checkoutSession = null, isProcessing = false;
 
     async function init() {
+      if (DISPLAY === 'inline') { document.body.classList.add('inline'); if (window.ResizeObserver) new ResizeObserver(rh).observe(document.body); }
+      window.addEventListener('message', onHost);
       if (!WIDGET_KEY || !EVENT_ID) { showError('Invalid widget configuration'); return; }
       try {
         const res = await fetch(API_BASE + '/widget-get-event', {
           method: 'POST', headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ widget_key: WIDGET_KEY, event_id: EVENT_ID }),
+          body: JSON.stringify({ widget_key: WIDGET_KEY, event_id: EVENT_ID, resume_token: RESUME_TOKEN, access_code: ACCESS_CODE }),
         });
         if (!res.ok) { const err = await res.json(); throw new Error(err.error || 'Failed to load event'); }
         const data = await res.json();
-        eventData = data.event; ticketTypes = data.ticket_types; widgetConfig = data.widget_config;
+        eventData = data.event; if (data.pricing) pricing = data.pricing; ticketTypes = data.ticket_types; widgetConfig = data.widget_config;
         applyTheme(); renderEvent(); renderTicketTypes();
         document.getElementById('loading-view').style.display = 'none';
         document.getElementById('main-flow').style.display = 'flex';
+        if (data.resume) await restore(data.resume);
+        emit('ready', { event_id: EVENT_ID });
       } catch (err) { showError(err.message); }
     }
 
+    async function restore(r) {
+      for(const s of r.ticket_selections||[]){const t=ticketTypes.find(x=>x.id===s.ticket_type_id);if(t&&t.is_available)chg(t.id,s.quantity);}
+      if(r.buyer_email)document.getElementById('buyer-email').value=r.buyer_email;
+      if(r.buyer_name)document.getElementById('buyer-name').value=r.buyer_name;
+      if(tq()===0)return;
+      if(r.promo_code){document.getElementById('promo-input').value=r.promo_code;await applyPromo();}
+      goTo(1);
+    }
+
+    // Saved branding is rendered server-side; the embed's theme.primaryColor overrides its color
     function applyTheme() {
-      const color = CUSTOM_COLOR ? '#' + CUSTOM_COLOR : widgetConfig.primary_color || '#6366F1';
+      if (!/^[0-9a-fA-F]{6}$/.test(CUSTOM_COLOR)) return;
+      const color = '#' + CUSTOM_COLOR;
       document.documentElement.style.setProperty('--primary', color);
-      const hex = color.replace('#',''); const num = parseInt(hex,16);
+      const hex = CUSTOM_COLOR; const num = parseInt(hex,16);
       let r = Math.min(255,Math.max(0,(num>>16)-15));
       let g = Math.min(255,Math.max(0,((num>>8)&0xFF)-15));
       let b = Math.min(255,Math.max(0,(num&0xFF)-15));
       document.documentElement.style.setProperty('--primary-hover', '#'+(r<<16|g<<8|b).toString(16).padStart(6,'0'));
-      if (widgetConfig.font_family) document.body.style.fontFamily = "'" + widgetConfig.font_family + "', sans-serif";
-      if (widgetConfig.show_powered_by === false) document.getElementById('powered-by').style.display = 'none';
     }
 
     function renderEvent() {
@@ -257,21 +346,35 @@ const CHECKOUT_HTML = `<!DOCTYPE html>
         const icon = t.category==='redeemable' ? (t.item_icon||'\\u{1F381}') : '\\u{1F3AB}';
         const el = document.createElement('div');
         el.className = 'ticket-type'+(so?' sold-out':'');
-        el.innerHTML = '<div class="ticket-icon">'+icon+'</div><div class="ticket-info"><div class="ticket-name">'+esc(t.name)+'</div>'+(t.description?'<div class="ticket-desc">'+esc(t.description)+'</div>':'')+(t.remaining!==null?'<div class="ticket-desc">'+t.remaining+' remaining</div>':'')+'</div><div class="ticket-price">'+(t.price_cents===0?'Free':fp(t.price_cents))+'</div><div class="qty-control"><button class="qty-btn" onclick="chg(\\''+t.id+'\\', -1)" id="m-'+t.id+'" disabled>\\u2212</button><span class="qty-value" id="q-'+t.id+'">0</span><button class="qty-btn" onclick="chg(\\''+t.id+'\\', 1)" id="p-'+t.id+'"'+(so?' disabled':'')+'>+</button></div>';
+        el.innerHTML = '<div class="ticket-icon">'+icon+'</div><div class="ticket-info"><div class="ticket-name">'+esc(t.name)+'</div>'+(t.description?'<div class="ticket-desc">'+esc(t.description)+'</div>':'')+tn(t)+'</div><div class="ticket-price">'+(t.price_cents===0?'Free':fp(t.price_cents))+'</div><div class="qty-control"><button class="qty-btn" onclick="chg(\\''+t.id+'\\', -1)" id="m-'+t.id+'" disabled>\\u2212</button><span class="qty-value" id="q-'+t.id+'">0</span><button class="qty-btn" onclick="chg(\\''+t.id+'\\', 1)" id="p-'+t.id+'"'+(so?' disabled':'')+'>+</button></div>';
         c.appendChild(el);
       }
       ub();
     }
 
+    function tn(t) {
+      const n = [];
+      if (t.sales_status==='scheduled') n.push('On sale '+new Date(t.sales_start_at).toLocaleDateString('en-US',{month:'short',day:'numeric',hour:'numeric',minute:'2-digit'}));
+      else if (t.sales_status==='ended') n.push('Sales ended');
+      else if (t.remaining!==null) n.push(t.remaining+' remaining');
+      if (t.tier_name&&t.is_available) n.push(t.tier_remaining!==null?esc(t.tier_name)+' \u00b7 '+t.tier_remaining+' left at this price':esc(t.tier_name));
+      if (t.min_per_order>1) n.push('Min '+t.min_per_order+' per order');
+      return n.length?'<div class="ticket-desc">'+n.join(' \u00b7 ')+'</div>':'';
+    }
+
     function chg(id, d) {
       const t = ticketTypes.find(x=>x.id===id); if(!t) return;
-      const mx = 10, ma = t.remaining!==null?t.remaining:mx;
-      const nq = Math.max(0,Math.min(Math.min(mx,ma),(quantities[id]||0)+d));
+      const mn = t.min_per_order||1, mx = t.max_per_order||10, ma = Math.min(mx,t.remaining!==null?t.remaining:mx);
+      let nq = (quantities[id]||0)+d;
+      if (nq>0&&nq<mn) nq = d>0?mn:0;
+      nq = Math.max(0,Math.min(ma,nq)); if (nq>0&&nq<mn) nq = 0;
+      if (nq === (quantities[id]||0)) return;
       quantities[id] = nq;
       document.getElementById('q-'+id).textContent = nq;
       document.getElementById('m-'+id).disabled = nq<=0;
-      document.getElementById('p-'+id).disabled = nq>=Math.min(mx,ma);
-      ub();
+      document.getElementById('p-'+id).disabled = nq>=ma;
+      ub(); if(promoCode) applyPromo();
+      emit('ticket_selected',{event_id:EVENT_ID,ticket_type_id:id,quantity:nq,total_quantity:tq(),subtotal_cents:bc()});
     }
 
     function ub() {
@@ -303,10 +406,14 @@ const CHECKOUT_HTML = `<!DOCTYPE html>
     function rs(cid) {
       const el = document.getElementById(cid); let h = '';
       for(const t of ticketTypes){const q=quantities[t.id]||0;if(q===0)continue;h+='<div class="summary-line"><span class="label">'+esc(t.name)+' \\u00D7 '+q+'</span><span>'+fp(t.price_cents*q)+'</span></div>';}
+      if(checkoutSession?.seats?.length) h+='<div class="summary-line"><span class="label">Seats</span><span style="text-align:right">'+checkoutSession.seats.map(s=>esc(s.section_name+' \\u00B7 Row '+s.row_label+' \\u00B7 Seat '+s.seat_number)).join('<br>')+'</span></div>';
       if(promoDiscount>0) h+='<div class="summary-line"><span class="label">Promo discount</span><span style="color:var(--success)">\\u2212'+fp(promoDiscount)+'</span></div>';
       const nb = Math.max(0,bc()-promoDiscount), f = sf(nb);
       if(f>0) h+='<div class="summary-line"><span class="label">Service fee</span><span>'+fp(f)+'</span></div>';
+      const tx = tc(nb), tl = tx.lines.filter(l=>l.tax_cents>0).map(l=>'<div class="summary-line"><span class="label">'+(tx.inclusive?'Includes ':'')+esc(l.name)+' ('+Number((l.rate_bps/100).toFixed(3))+'%)</span><span>'+fp(l.tax_cents)+'</span></div>').join('');
+      if(!tx.inclusive) h+=tl;
       h+='<div class="summary-line total"><span class="label">Total</span><span>'+fp(ct(nb))+'</span></div>';
+      if(tx.inclusive) h+=tl;
       el.innerHTML = h;
     }
 
@@ -315,9 +422,9 @@ const CHECKOUT_HTML = `<!DOCTYPE html>
       const r = document.getElementById('promo-result'), b = document.getElementById('promo-btn');
       b.disabled=true; b.textContent='...';
       try {
-        const res = await fetch(API_BASE+'/widget-validate-promo',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({widget_key:WIDGET_KEY,event_id:EVENT_ID,code,base_price_cents:bc()})});
+        const res = await fetch(API_BASE+'/widget-validate-promo',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({widget_key:WIDGET_KEY,event_id:EVENT_ID,code,ticket_selections:sels()})});
         const d = await res.json();
-        if(d.valid){promoDiscount=d.discount_cents;promoCode=code;r.className='promo-result success';r.textContent='\\u2212'+fp(d.discount_cents)+' discount applied!';}
+        if(d.valid){promoDiscount=d.discount_cents;promoCode=code;r.className='promo-result success';r.textContent='\\u2212'+fp(d.discount_cents)+' discount applied!';emit('promo_applied',{event_id:EVENT_ID,code,discount_cents:d.discount_cents});}
         else{promoDiscount=0;promoCode=null;r.className='promo-result error';r.textContent=d.error||'Invalid promo code';}
       }catch{r.className='promo-result error';r.textContent='Failed to validate code';}
       b.disabled=false;b.textContent='Apply';ub();
@@ -327,45 +434,53 @@ const CHECKOUT_HTML = `<!DOCTYPE html>
 
     async function ccs() {
       const btn = document.getElementById('action-btn'); btn.disabled=true; btn.textContent='Setting up payment...';
-      const sel = [];
-      for(const t of ticketTypes){const q=quantities[t.id]||0;if(q>0)sel.push({ticket_type_id:t.id,quantity:q});}
+      const sel = sels();
       try {
-        const res = await fetch(API_BASE+'/widget-create-checkout',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({widget_key:WIDGET_KEY,event_id:EVENT_ID,ticket_selections:sel,buyer_email:document.getElementById('buyer-email').value.trim(),buyer_name:document.getElementById('buyer-name').value.trim()||null,promo_code:promoCode})});
+        const res = await fetch(API_BASE+'/widget-create-checkout',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({widget_key:WIDGET_KEY,event_id:EVENT_ID,ticket_selections:sel,buyer_email:document.getElementById('buyer-email').value.trim(),buyer_name:document.getElementById('buyer-name').value.trim()||null,promo_code:promoCode,access_code:ACCESS_CODE,page_url:PAGE_URL,resume_token:RESUME_TOKEN})});
         if(!res.ok){const e=await res.json();throw new Error(e.error||'Checkout failed');}
-        checkoutSession = await res.json();
+        checkoutSession = await res.json(); rs('summary-step2');
         stripeInstance = Stripe(checkoutSession.publishable_key);
         const elements = stripeInstance.elements();
         cardElement = elements.create('card',{style:{base:{fontSize:'15px',fontFamily:"'Inter',sans-serif",color:'#111827','::placeholder':{color:'#9CA3AF'}},invalid:{color:'#EF4444'}}});
         cardElement.mount('#card-element');
         cardElement.on('change',ev=>{document.getElementById('card-errors').textContent=ev.error?.message||'';});
         ub();
-      } catch(err){document.getElementById('card-errors').textContent=err.message;btn.disabled=false;btn.textContent='Retry';}
+      } catch(err){document.getElementById('card-errors').textContent=err.message;emit('error',{event_id:EVENT_ID,stage:'checkout',message:err.message});btn.disabled=false;btn.textContent='Retry';}
     }
 
     async function processPayment() {
       if(!stripeInstance||!cardElement||!checkoutSession) return;
       isProcessing=true; const btn=document.getElementById('action-btn'); btn.disabled=true; btn.textContent='Processing...';
+      emit('payment_started',{event_id:EVENT_ID,session_id:checkoutSession.session_id,amount_cents:checkoutSession.amount_cents});
       try {
         const {error,paymentIntent} = await stripeInstance.confirmCardPayment(checkoutSession.client_secret,{payment_method:{card:cardElement,billing_details:{email:document.getElementById('buyer-email').value.trim(),name:document.getElementById('buyer-name').value.trim()||undefined}}});
-        if(error){document.getElementById('card-errors').textContent=error.message;isProcessing=false;btn.disabled=false;ub();return;}
+        if(error){document.getElementById('card-errors').textContent=error.message;emit('error',{event_id:EVENT_ID,stage:'payment',message:error.message});isProcessing=false;btn.disabled=false;ub();return;}
         if(paymentIntent.status==='succeeded') showSuccess();
         else if(paymentIntent.status==='processing') showSuccess('Your payment is processing. Tickets will arrive by email shortly.');
-      }catch{document.getElementById('card-errors').textContent='Payment failed. Please try again.';isProcessing=false;btn.disabled=false;ub();}
+      }catch{document.getElementById('card-errors').textContent='Payment failed. Please try again.';emit('error',{event_id:EVENT_ID,stage:'payment',message:'Payment failed'});isProcessing=false;btn.disabled=false;ub();}
     }
 
     function showSuccess(msg){
       document.getElementById('main-flow').style.display='none';
       document.getElementById('success-view').style.display='flex';
       if(msg)document.getElementById('success-message').textContent=msg;
-      window.parent.postMessage({type:'tickety:checkout_complete',payload:{session_id:checkoutSession?.session_id,event_id:EVENT_ID,email:document.getElementById('buyer-email')?.value?.trim()}},'*');
+      emit('completed',{session_id:checkoutSession?.session_id,event_id:EVENT_ID,email:document.getElementById('buyer-email')?.value?.trim()});
     }
-    function showError(msg){document.getElementById('loading-view').style.display='none';document.getElementById('error-view').style.display='flex';document.getElementById('error-message').textContent=msg;}
-    function closeWidget(){window.parent.postMessage({type:'tickety:close'},'*');}
+    function showError(msg){document.getElementById('loading-view').style.display='none';document.getElementById('error-view').style.display='flex';document.getElementById('error-message').textContent=msg;emit('error',{event_id:EVENT_ID,stage:'load',message:msg});}
+    function closeWidget(){emit('close',{event_id:EVENT_ID});}
+
+    // postMessage protocol v1 (see widget/checkout/checkout.html), host origin only
+    function emit(type,payload){if(!HOST_ORIGIN||window.parent===window)return;window.parent.postMessage({source:'tickety',version:1,instance:INSTANCE,type,payload:payload||{}},HOST_ORIGIN);}
+    function onHost(e){if(e.source!==window.parent||e.origin!==HOST_ORIGIN)return;const m=e.data;if(!m||m.source!=='tickety'||m.version!==1)return;if(m.type==='measure')rh();}
+    function rh(){if(DISPLAY==='inline')emit('resize',{height:Math.ceil(document.body.offsetHeight)});}
+    function originOf(u){try{const x=new URL(u);return x.protocol==='https:'||x.protocol==='http:'?x.origin:null;}catch{return null;}}
     function tq(){return Object.values(quantities).reduce((a,b)=>a+b,0);}
+    function sels(){const s=[];for(const t of ticketTypes){const q=quantities[t.id]||0;if(q>0)s.push({ticket_type_id:t.id,quantity:q});}return s;}
     function bc(){let t=0;for(const x of ticketTypes)t+=(quantities[x.id]||0)*x.price_cents;return t;}
-    function sf(b){if(b<=0)return 0;const p=Math.ceil(b*0.05),s=b+p+25;return Math.ceil((s+30)/(1-0.029))-b;}
-    function ct(b){if(b<=0)return 0;const p=Math.ceil(b*0.05),s=b+p+25;return Math.ceil((s+30)/(1-0.029));}
-    function fp(c){return '$'+(c/100).toFixed(2);}
+    function sf(b){if(b<=0)return 0;const t=tc(b);return ct(b)-b-(t.inclusive?0:t.tax_cents);}
+    function ct(b){if(b<=0)return 0;const t=tc(b),p=Math.ceil(t.net_cents*0.05),s=b+(t.inclusive?0:t.tax_cents)+p+pricing.mint_fee;return Math.ceil((s+pricing.card_fee_fixed)/(1-0.029));}
+    function tc(a){const c=pricing.tax||{inclusive:false,rates:[]},r=c.rates.filter(x=>x.rate_bps>0),t={inclusive:!!c.inclusive,tax_cents:0,net_cents:a,lines:r.map(x=>({name:x.name,rate_bps:x.rate_bps,tax_cents:0}))};if(a<=0||!r.length)return t;if(!t.inclusive){t.lines.forEach(l=>{l.tax_cents=Math.round(a*l.rate_bps/10000);});t.tax_cents=t.lines.reduce((s,l)=>s+l.tax_cents,0);return t;}const tb=r.reduce((s,x)=>s+x.rate_bps,0);t.net_cents=Math.round(a*10000/(10000+tb));t.tax_cents=a-t.net_cents;let m=t.tax_cents;t.lines.forEach((l,i)=>{l.tax_cents=i===t.lines.length-1?m:Math.round(t.tax_cents*l.rate_bps/tb);m-=l.tax_cents;});return t;}
+    function fp(c){const d=pricing.decimals,v=c/Math.pow(10,d);try{return new Intl.NumberFormat(undefined,{style:'currency',currency:pricing.currency.toUpperCase(),minimumFractionDigits:d,maximumFractionDigits:d}).format(v);}catch(e){return pricing.currency.toUpperCase()+' '+v.toFixed(d);}}
     function esc(s){const d=document.createElement('div');d.textContent=s;return d.innerHTML;}
     init();
   </script>
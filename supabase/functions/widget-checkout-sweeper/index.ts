@@ -0,0 +1,254 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
+import Stripe from 'https://esm.sh/stripe@14.21.0'
+import { newResumeToken, RESUME_WINDOW_DAYS, resumeUrl, sha256Hex } from '../_shared/widget-checkout.ts'
+
+const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY')!, {
+  apiVersion: '2023-10-16',
+})
+
+// Sessions started with test-mode widget keys have test-mode PaymentIntents
+const testSecretKey = Deno.env.get('STRIPE_TEST_SECRET_KEY')
+const stripeTest = testSecretKey ? new Stripe(testSecretKey, { apiVersion: '2023-10-16' }) : null
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+const resendApiKey = Deno.env.get('RESEND_API_KEY')
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+const BATCH_SIZE = 100 // Sessions handled per step and invocation
+
+// Abandoned carts are only worth a nudge while the buyer still remembers them
+const RECOVERY_EMAIL_WINDOW_HOURS = 24
+
+// Side effects of closed widget checkout sessions. Called on a schedule
+// (cron) with {}; the state changes themselves are made by
+// sweep_widget_checkout_sessions, which this also runs first.
+//
+// - cancel:  the PaymentIntent of every abandoned or expired session is
+//            cancelled so it cannot be paid after its seats were released,
+//            and its payment is marked failed
+// - recover: for organizers with widget_configs.abandonment_emails on,
+//            abandoned buyers get one "finish your order" email linking
+//            back to the page they checked out on
+
+// ====================================================================
+// Main handler
+// ====================================================================
+
+serve(async (_req) => {
+  try {
+    const { data: closed, error } = await supabase.rpc('sweep_widget_checkout_sessions')
+    if (error) return jsonResponse({ error: error.message }, 500)
+
+    const cancelled = await cancelClosedPaymentIntents()
+    const emailed = await sendRecoveryEmails()
+
+    return jsonResponse({ closed, ...cancelled, ...emailed })
+
+  } catch (err) {
+    console.error('[widget-sweeper] Error:', err)
+    return jsonResponse({ error: err.message }, 500)
+  }
+})
+
+// ====================================================================
+// Cancel PaymentIntents
+// ====================================================================
+
+async function cancelClosedPaymentIntents() {
+  const { data: sessions, error } = await supabase
+    .from('widget_checkout_sessions')
+    .select('id, stripe_payment_intent_id, widget_api_keys:widget_key_id ( mode )')
+    .in('status', ['abandoned', 'expired'])
+    .not('stripe_payment_intent_id', 'is', null)
+    .is('payment_intent_cancelled_at', null)
+    .order('closed_at', { ascending: true })
+    .limit(BATCH_SIZE)
+  if (error) throw new Error(`widget_checkout_sessions: ${error.message}`)
+
+  const counts = { cancelled: 0, cancel_errors: 0 }
+  for (const session of (sessions ?? []) as any[]) {
+    const paymentIntentId = session.stripe_payment_intent_id
+    const client = session.widget_api_keys?.mode === 'test' ? stripeTest : stripe
+    if (!client) continue
+    try {
+      const paymentIntent = await client.paymentIntents.retrieve(paymentIntentId)
+      // Paid or settling after all: the webhook moves the session to paid
+      if (paymentIntent.status === 'succeeded' || paymentIntent.status === 'processing') continue
+      if (paymentIntent.status !== 'canceled') {
+        await client.paymentIntents.cancel(paymentIntentId, { cancellation_reason: 'abandoned' })
+      }
+
+      await supabase
+        .from('widget_checkout_sessions')
+        .update({ payment_intent_cancelled_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+        .eq('id', session.id)
+      await supabase
+        .from('payments')
+        .update({ status: 'failed' })
+        .eq('stripe_payment_intent_id', paymentIntentId)
+        .eq('status', 'pending')
+      counts.cancelled++
+    } catch (err) {
+      // A payment confirmed in the meantime makes cancel fail; the next run re-checks
+      console.error(`[widget-sweeper] Failed to cancel ${paymentIntentId}:`, err.message)
+      counts.cancel_errors++
+    }
+  }
+
+  if (counts.cancelled > 0) console.log(`[widget-sweeper] Cancelled ${counts.cancelled} PaymentIntent(s)`)
+  return counts
+}
+
+// ====================================================================
+// Recovery emails
+// ====================================================================
+
+async function sendRecoveryEmails() {
+  const since = new Date(Date.now() - RECOVERY_EMAIL_WINDOW_HOURS * 60 * 60 * 1000).toISOString()
+  const { data: sessions, error } = await supabase
+    .from('widget_checkout_sessions')
+    .select(`
+      id, event_id, buyer_email, page_url, ticket_selections, metadata, created_at,
+      widget_api_keys:widget_key_id ( organizer_id, mode ),
+      events:event_id ( title, date )
+    `)
+    .eq('status', 'abandoned')
+    .is('recovery_email_sent_at', null)
+    .not('buyer_email', 'is', null)
+    .not('page_url', 'is', null)
+    .gt('closed_at', since)
+    .limit(BATCH_SIZE)
+  if (error) throw new Error(`widget_checkout_sessions: ${error.message}`)
+  if (!sessions?.length) return { emailed: 0 }
+
+  const organizerIds = [...new Set(sessions.map((s: any) => s.widget_api_keys?.organizer_id).filter(Boolean))]
+  const { data: configs } = await supabase
+    .from('widget_configs')
+    .select('organizer_id')
+    .in('organizer_id', organizerIds)
+    .eq('abandonment_emails', true)
+  const optedIn = new Set((configs ?? []).map((c: any) => c.organizer_id))
+
+  const counts = { emailed: 0, email_errors: 0 }
+  for (const session of sessions as any[]) {
+    if (!optedIn.has(session.widget_api_keys?.organizer_id)) continue
+    if (session.widget_api_keys?.mode === 'test') continue
+    const event = session.events
+    if (!event || new Date(event.date) <= new Date()) continue
+    if (await boughtSince(session)) continue
+
+    // Claim the session before sending so overlapping runs email once
+    const token = newResumeToken()
+    const { data: claimed } = await supabase
+      .from('widget_checkout_sessions')
+      .update({ resume_token_hash: await sha256Hex(token), recovery_email_sent_at: new Date().toISOString() })
+      .eq('id', session.id)
+      .is('recovery_email_sent_at', null)
+      .select('id')
+    if (!claimed?.length) continue
+
+    try {
+      await sendEmail(session.buyer_email, `Finish your order for ${event.title}`, recoveryEmailHtml({
+        eventTitle: event.title,
+        eventDate: event.date,
+        buyerName: session.metadata?.buyer_name ?? null,
+        ticketCount: (session.ticket_selections ?? []).reduce((sum: number, s: any) => sum + (s.quantity || 0), 0),
+        link: resumeUrl(session.page_url, session.event_id, token),
+      }))
+      counts.emailed++
+    } catch (err) {
+      console.error(`[widget-sweeper] Recovery email for session ${session.id} failed:`, err.message)
+      // Release the claim so the next run retries
+      await supabase
+        .from('widget_checkout_sessions')
+        .update({ resume_token_hash: null, recovery_email_sent_at: null })
+        .eq('id', session.id)
+      counts.email_errors++
+    }
+  }
+
+  if (counts.emailed > 0) console.log(`[widget-sweeper] Sent ${counts.emailed} recovery email(s)`)
+  return counts
+}
+
+// The buyer came back on their own and paid for the event
+async function boughtSince(session: any): Promise<boolean> {
+  const { count } = await supabase
+    .from('widget_checkout_sessions')
+    .select('id', { count: 'exact', head: true })
+    .eq('event_id', session.event_id)
+    .eq('buyer_email', session.buyer_email)
+    .eq('status', 'paid')
+    .gt('created_at', session.created_at)
+  return (count ?? 0) > 0
+}
+
+async function sendEmail(to: string, subject: string, html: string) {
+  if (!resendApiKey) {
+    // Development: log instead of sending
+    console.log('RESEND_API_KEY not set. Would send email to:', to)
+    console.log('Email subject:', subject)
+    return
+  }
+
+  const response = await fetch('https://api.resend.com/emails', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${resendApiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ from: 'Tickety <tickets@tickety.app>', to, subject, html }),
+  })
+  if (!response.ok) throw new Error(`Resend API error: ${await response.text()}`)
+}
+
+function recoveryEmailHtml(opts: {
+  eventTitle: string
+  eventDate: string
+  buyerName: string | null
+  ticketCount: number
+  link: string
+}): string {
+  const date = new Date(opts.eventDate).toLocaleDateString('en-US', {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+  const tickets = `${opts.ticketCount} ticket${opts.ticketCount === 1 ? '' : 's'}`
+
+  return `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1">
+      </head>
+      <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <div style="background: #f9fafb; padding: 30px; border-radius: 12px;">
+          <p>Hi${opts.buyerName ? ' ' + escapeHtml(opts.buyerName) : ''},</p>
+          <p>You were getting ${tickets} for <strong>${escapeHtml(opts.eventTitle)}</strong> (${escapeHtml(date)}) but didn't finish checking out.</p>
+          <p>Your selection is saved. Pick up where you left off:</p>
+          <p style="text-align: center; margin: 28px 0;">
+            <a href="${escapeHtml(opts.link)}" style="background: #6366f1; color: white; padding: 12px 28px; border-radius: 8px; text-decoration: none; font-weight: 600;">Finish your order</a>
+          </p>
+          <p style="color: #6b7280; font-size: 14px;">Tickets are not reserved until you pay, and this link expires in ${RESUME_WINDOW_DAYS} days. If you've changed your mind, just ignore this email.</p>
+        </div>
+      </body>
+    </html>
+  `
+}
+
+function escapeHtml(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+function jsonResponse(data: any, status = 200) {
+  return new Response(JSON.stringify(data), {
+    status, headers: { 'Content-Type': 'application/json' },
+  })
+}
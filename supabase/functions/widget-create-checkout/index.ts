@@ -1,36 +1,39 @@
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
 import Stripe from 'https://esm.sh/stripe@14.21.0'
-
-const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY')!, {
-  apiVersion: '2023-10-16',
-})
+import { eventCurrency } from '../_shared/currency.ts'
+import { calculateFees, feeScheduleStamp, feeTaxColumns } from '../_shared/fees.ts'
+import {
+  type AppliedPromo,
+  evaluatePromoCodes,
+  lookupPromoCodes,
+  normalizeCodes,
+  orderTotal,
+  type PromoCodeRow,
+  reservePromoCodes,
+} from '../_shared/promo.ts'
+import { holdBestAvailable, type SeatSelection } from '../_shared/seating.ts'
+import { loadEventTax } from '../_shared/tax.ts'
+import { priceTicketOrder } from '../_shared/ticket-types.ts'
+import { checkoutPageUrl, findResumableSession } from '../_shared/widget-checkout.ts'
+import { authenticateWidgetKey, type WidgetKeyMode } from '../_shared/widget-keys.ts'
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-const stripePublishableKey = Deno.env.get('STRIPE_PUBLISHABLE_KEY')!
 const supabase = createClient(supabaseUrl, supabaseServiceKey)
 
-// Fee constants — must match create-payment-intent exactly
-const PLATFORM_FEE_RATE = 0.05
-const STRIPE_FEE_RATE = 0.029
-const STRIPE_FEE_FIXED_CENTS = 30
-const MINT_FEE_CENTS = 25
-
-function calculateFees(baseCents: number) {
-  if (baseCents <= 0) {
-    return {
-      base_cents: 0, platform_fee_cents: 0, mint_fee_cents: 0,
-      stripe_fee_cents: 0, service_fee_cents: 0, total_cents: 0,
+// Test-mode widget keys take payments with the Stripe test-mode keys
+const stripeAccounts: Record<WidgetKeyMode, { stripe: Stripe; publishableKey: string } | null> = {
+  live: {
+    stripe: new Stripe(Deno.env.get('STRIPE_SECRET_KEY')!, { apiVersion: '2023-10-16' }),
+    publishableKey: Deno.env.get('STRIPE_PUBLISHABLE_KEY')!,
+  },
+  test: Deno.env.get('STRIPE_TEST_SECRET_KEY') && Deno.env.get('STRIPE_TEST_PUBLISHABLE_KEY')
+    ? {
+      stripe: new Stripe(Deno.env.get('STRIPE_TEST_SECRET_KEY')!, { apiVersion: '2023-10-16' }),
+      publishableKey: Deno.env.get('STRIPE_TEST_PUBLISHABLE_KEY')!,
     }
-  }
-  const platform_fee_cents = Math.ceil(baseCents * PLATFORM_FEE_RATE)
-  const mint_fee_cents = MINT_FEE_CENTS
-  const subtotal = baseCents + platform_fee_cents + mint_fee_cents
-  const total_cents = Math.ceil((subtotal + STRIPE_FEE_FIXED_CENTS) / (1 - STRIPE_FEE_RATE))
-  const stripe_fee_cents = total_cents - subtotal
-  const service_fee_cents = platform_fee_cents + stripe_fee_cents + mint_fee_cents
-  return { base_cents: baseCents, platform_fee_cents, mint_fee_cents, stripe_fee_cents, service_fee_cents, total_cents }
+    : null,
 }
 
 serve(async (req) => {
@@ -47,7 +50,10 @@ serve(async (req) => {
 
   try {
     const body = await req.json()
-    const { widget_key, event_id, ticket_selections, buyer_email, buyer_name, promo_code } = body
+    const {
+      widget_key, event_id, ticket_selections, buyer_email, buyer_name, promo_code, access_code,
+      accessible_seating, page_url, resume_token,
+    } = body
 
     if (!widget_key || !event_id || !ticket_selections || !buyer_email) {
       return new Response(
@@ -66,18 +72,34 @@ serve(async (req) => {
     }
 
     // Validate widget key
-    const keyValidation = await validateWidgetKey(widget_key, event_id, requestOrigin)
-    if (!keyValidation.valid) {
+    const auth = await authenticateWidgetKey(supabase, widget_key, {
+      eventId: event_id,
+      origin: req.headers.get('origin'),
+      checkout: true,
+    })
+    if (!auth.valid) {
       return new Response(
-        JSON.stringify({ error: keyValidation.error }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: auth.error }),
+        { status: auth.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+    const widgetKey = auth.key
+    const testMode = widgetKey.mode === 'test'
+
+    const account = stripeAccounts[widgetKey.mode]
+    if (!account) {
+      console.error('widget-create-checkout: test-mode key used but STRIPE_TEST_SECRET_KEY is not set')
+      return new Response(
+        JSON.stringify({ error: 'Test mode is not available' }),
+        { status: 503, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       )
     }
+    const { stripe } = account
 
     // Verify event belongs to this organizer
     const { data: event, error: eventError } = await supabase
       .from('events')
-      .select('id, title, organizer_id, price_in_cents')
+      .select('id, title, organizer_id, price_in_cents, currency')
       .eq('id', event_id)
       .single()
 
@@ -88,97 +110,77 @@ serve(async (req) => {
       )
     }
 
-    if (event.organizer_id !== keyValidation.organizerId) {
+    if (event.organizer_id !== widgetKey.organizer_id) {
       return new Response(
         JSON.stringify({ error: 'Not authorized for this event' }),
         { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       )
     }
 
-    // Fetch ticket type prices and validate availability
-    const typeIds = ticket_selections.map((ts: any) => ts.ticket_type_id)
-    const { data: dbTypes, error: typesError } = await supabase
-      .from('event_ticket_types')
-      .select('id, name, price_cents, max_quantity, sold_count, is_active, category, item_icon')
-      .in('id', typeIds)
-
-    if (typesError || !dbTypes) {
+    // Check the selection against each type's sales rules and price it
+    // (tiers included). Promo codes (comma-separated when stacked) and the
+    // access code may unlock hidden types; the buyer's own promo limits are
+    // checked when the uses are reserved below.
+    if (!Array.isArray(ticket_selections)) {
       return new Response(
-        JSON.stringify({ error: 'Failed to fetch ticket types' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: 'Invalid ticket selection' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       )
     }
-
-    const typeMap: Record<string, any> = {}
-    for (const dt of dbTypes) {
-      typeMap[dt.id] = dt
+    const enteredCodes = typeof promo_code === 'string' ? normalizeCodes(promo_code.split(',')) : []
+    const promos: PromoCodeRow[] = enteredCodes.length > 0
+      ? await lookupPromoCodes(supabase, event_id, enteredCodes, null)
+      : []
+    const order = await priceTicketOrder(supabase, event_id, ticket_selections, {
+      accessCodes: typeof access_code === 'string' ? [access_code] : [],
+      promos,
+    })
+    if (!order.valid) {
+      return new Response(
+        JSON.stringify({ error: order.error, code: 'ticket_unavailable' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
     }
 
-    // Calculate total and validate availability
-    let baseCents = 0
-    let totalQuantity = 0
-    const validatedItems: any[] = []
-
-    for (const sel of ticket_selections) {
-      const dbType = typeMap[sel.ticket_type_id]
-      if (!dbType) {
-        return new Response(
-          JSON.stringify({ error: `Ticket type ${sel.ticket_type_id} not found` }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+    // One item per priced line: a type that crosses a tier boundary gets
+    // a line per price
+    const validatedItems = order.lines.map((line) => {
+      const type = order.types.get(line.ticket_type_id)!
+      return {
+        ...line,
+        category: type.category || 'entry',
+        item_icon: type.item_icon,
+        name: type.name,
+        venue_section_id: type.venue_section_id,
       }
-      if (!dbType.is_active) {
-        return new Response(
-          JSON.stringify({ error: `${dbType.name} is no longer available` }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
-      }
-      if (dbType.max_quantity && (dbType.sold_count || 0) + sel.quantity > dbType.max_quantity) {
-        const remaining = dbType.max_quantity - (dbType.sold_count || 0)
+    })
+    const baseCents = orderTotal(order.lines)
+    const totalQuantity = order.lines.reduce((sum, l) => sum + l.quantity, 0)
+
+    let appliedPromos: AppliedPromo[] = []
+    if (enteredCodes.length > 0) {
+      const promoResult = evaluatePromoCodes(enteredCodes, promos, order.lines)
+      if (!promoResult.valid) {
         return new Response(
-          JSON.stringify({ error: `Only ${remaining} ${dbType.name} ticket(s) remaining` }),
+          JSON.stringify({ error: promoResult.error, code: 'promo_invalid' }),
           { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         )
       }
-
-      baseCents += dbType.price_cents * sel.quantity
-      totalQuantity += sel.quantity
-      validatedItems.push({
-        ticket_type_id: sel.ticket_type_id,
-        quantity: sel.quantity,
-        category: dbType.category || 'entry',
-        item_icon: dbType.item_icon,
-        name: dbType.name,
-        unit_price_cents: dbType.price_cents,
-      })
-    }
-
-    // Validate promo code if provided
-    let promoDiscountCents = 0
-    let promoCodeId: string | null = null
-    if (promo_code) {
-      const { data: promoResult } = await supabase.rpc('validate_promo_code', {
-        p_event_id: event_id,
-        p_code: promo_code,
-        p_user_id: null,  // guest — skip user-specific checks
-        p_base_price_cents: baseCents,
-        p_ticket_type_id: null,
-      })
-      if (promoResult?.valid) {
-        promoDiscountCents = promoResult.discount_cents
-        promoCodeId = promoResult.promo_code_id
-      }
+      appliedPromos = promoResult.codes
     }
+    const promoDiscountCents = appliedPromos.reduce((sum, p) => sum + p.discount_cents, 0)
+    const promoCodeId = appliedPromos[0]?.promo_code_id ?? null
 
-    // Calculate fees
+    // Calculate fees and tax in the event's currency
+    const currency = eventCurrency(event)
     const netBase = Math.max(0, baseCents - promoDiscountCents)
-    const fees = calculateFees(netBase)
+    const fees = calculateFees('card', netBase, currency, await loadEventTax(supabase, event_id))
 
     // Get or create guest buyer
     let guestBuyer: any
     const { data: existingBuyer } = await supabase
       .from('widget_guest_buyers')
-      .select('id, stripe_customer_id')
+      .select('id, stripe_customer_id, user_id, claimed_by')
       .eq('email', buyer_email.toLowerCase())
       .single()
 
@@ -203,9 +205,10 @@ serve(async (req) => {
       guestBuyer = newBuyer
     }
 
-    // Get or create Stripe customer for guest
-    let stripeCustomerId = guestBuyer.stripe_customer_id
-    if (!stripeCustomerId) {
+    // Get or create Stripe customer for guest. The stored customer lives in
+    // live mode, so test checkouts go without one.
+    let stripeCustomerId = testMode ? undefined : guestBuyer.stripe_customer_id
+    if (!stripeCustomerId && !testMode) {
       const customer = await stripe.customers.create({
         email: buyer_email.toLowerCase(),
         name: buyer_name || undefined,
@@ -218,65 +221,78 @@ serve(async (req) => {
         .eq('id', guestBuyer.id)
     }
 
-    // Get or create a Supabase auth user for the guest (enables existing ticket flow)
-    // Look up by email in profiles table first (efficient, no full user scan)
+    // The account that owns the purchase: the buyer's own account when they
+    // have one (or claimed earlier guest purchases), otherwise the guest's
+    // placeholder account, which they claim by verifying their email
     let userId: string
     const { data: existingProfile } = await supabase
       .from('profiles')
       .select('id')
       .eq('email', buyer_email.toLowerCase())
+      .limit(1)
       .maybeSingle()
 
-    if (existingProfile) {
+    if (guestBuyer.claimed_by) {
+      userId = guestBuyer.claimed_by
+    } else if (existingProfile) {
       userId = existingProfile.id
+    } else if (guestBuyer.user_id) {
+      userId = guestBuyer.user_id
     } else {
-      // Try to create a new auth user
-      const { data: newUser, error: userError } = await supabase.auth.admin.createUser({
-        email: buyer_email.toLowerCase(),
-        email_confirm: true,
-        user_metadata: { source: 'widget_checkout', display_name: buyer_name || null },
-      })
+      const placeholder = await createGuestPlaceholder(guestBuyer.id, buyer_name)
+      if (!placeholder) {
+        return new Response(
+          JSON.stringify({ error: 'Failed to create user account' }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+      userId = placeholder
+    }
 
-      if (userError) {
-        // User might already exist (race condition or profile missing) — look up by email via admin API
-        const { data: listResult } = await supabase.auth.admin.listUsers({ filter: `email.eq.${buyer_email.toLowerCase()}` })
-        const found = listResult?.users?.[0]
-        if (found) {
-          userId = found.id
-        } else {
-          console.error('Failed to create or find auth user:', userError)
-          return new Response(
-            JSON.stringify({ error: 'Failed to create user account' }),
-            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-          )
-        }
-      } else {
-        userId = newUser.user!.id
+    // Reserved seating: the widget has no seat picker, so ticket types tied
+    // to a venue section get the best seats available in that section. The
+    // list lines up with ticket lines; general admission lines stay null.
+    let seatSelections: (SeatSelection | null)[] | null = null
+    let seatHoldId: string | null = null
+    const seatedItems = validatedItems.filter((item: any) => item.venue_section_id)
+    if (seatedItems.length > 0) {
+      const seating = await holdBestAvailable(supabase, event_id, userId, seatedItems.map((item: any) => ({
+        quantity: item.quantity,
+        section_id: item.venue_section_id,
+        accessible: accessible_seating === true,
+      })))
+      if (!seating.success) {
+        return new Response(
+          JSON.stringify({ error: seating.error, code: 'seat_conflict' }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
       }
 
-      // Create minimal profile
-      await supabase.from('profiles').upsert({
-        id: userId,
-        email: buyer_email.toLowerCase(),
-        display_name: buyer_name || buyer_email.split('@')[0],
-      })
+      seatHoldId = seating.hold_id
+      let block = 0
+      seatSelections = validatedItems.flatMap((item: any) =>
+        item.venue_section_id ? seating.seats[block++] : Array(item.quantity).fill(null)
+      )
     }
 
     // Build ticket_items metadata for the webhook
-    const ticketItems = validatedItems.map((item: any) => ({
+    const ticketItems = validatedItems.map((item) => ({
       ticket_type_id: item.ticket_type_id,
       quantity: item.quantity,
       category: item.category,
       item_icon: item.item_icon,
+      unit_price_cents: item.unit_price_cents,
+      ...(item.tier_name && { tier_name: item.tier_name }),
     }))
 
     // Create Stripe PaymentIntent
     const paymentIntent = await stripe.paymentIntents.create({
       amount: fees.total_cents,
-      currency: 'usd',
+      currency,
       customer: stripeCustomerId,
       metadata: {
         source: 'widget',
+        widget_key_mode: widgetKey.mode,
         event_id,
         event_title: event.title,
         user_id: userId,
@@ -284,10 +300,45 @@ serve(async (req) => {
         quantity: totalQuantity.toString(),
         base_amount_cents: netBase.toString(),
         service_fee_cents: fees.service_fee_cents.toString(),
+        ...feeScheduleStamp(fees),
+        ...(fees.tax_cents > 0 && { tax_cents: fees.tax_cents.toString() }),
         ...(promoCodeId && { promo_code_id: promoCodeId }),
       },
     })
 
+    if (seatHoldId) {
+      const { data: attached } = await supabase.rpc('attach_seat_hold_payment', {
+        p_hold_id: seatHoldId,
+        p_user_id: userId,
+        p_payment_intent_id: paymentIntent.id,
+      })
+      if (!attached?.success) {
+        await stripe.paymentIntents.cancel(paymentIntent.id)
+        return new Response(
+          JSON.stringify({ error: 'Seat hold expired. Please try again.', code: 'seat_conflict' }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+    }
+
+    // Hold the promo uses; a limit reached since validation cancels the intent
+    if (appliedPromos.length > 0) {
+      const promoError = await reservePromoCodes(supabase, {
+        paymentIntentId: paymentIntent.id,
+        eventId: event_id,
+        userId,
+        lines: order.lines,
+        applied: appliedPromos,
+      })
+      if (promoError) {
+        await stripe.paymentIntents.cancel(paymentIntent.id)
+        return new Response(
+          JSON.stringify({ error: promoError, code: 'promo_invalid' }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+    }
+
     // Create payment record (used by stripe-webhook to get ticket_items)
     const { data: payment } = await supabase
       .from('payments')
@@ -295,12 +346,15 @@ serve(async (req) => {
         user_id: userId,
         event_id,
         amount_cents: fees.total_cents,
-        currency: 'usd',
+        currency,
         status: 'pending',
         type: 'primary_purchase',
         stripe_payment_intent_id: paymentIntent.id,
-        platform_fee_cents: fees.platform_fee_cents,
+        platform_fee_cents: fees.service_fee_cents,
+        ...feeScheduleStamp(fees),
+        ...feeTaxColumns(fees),
         ...(promoCodeId && { promo_code_id: promoCodeId }),
+        ...(seatSelections && { seat_selections: seatSelections }),
         metadata: {
           source: 'widget',
           event_title: event.title,
@@ -309,27 +363,38 @@ serve(async (req) => {
           guest_buyer_id: guestBuyer.id,
           buyer_email: buyer_email.toLowerCase(),
           buyer_name: buyer_name || null,
+          ...(testMode && { test_mode: true }),
           ...(promoDiscountCents > 0 && { promo_discount_cents: promoDiscountCents }),
+          ...(appliedPromos.length > 1 && { promo_codes: appliedPromos }),
         },
       })
       .select()
       .single()
 
-    // Create checkout session
+    // Checkout resumed from a recovery email links back to the abandoned session
+    const resumedFrom = typeof resume_token === 'string'
+      ? await findResumableSession(supabase, resume_token, widgetKey.id, event_id)
+      : null
+
+    // Create checkout session; the webhook and sweeper move it on from pending
     const { data: session } = await supabase
       .from('widget_checkout_sessions')
       .insert({
-        widget_key_id: keyValidation.keyId,
+        widget_key_id: widgetKey.id,
         event_id,
         guest_buyer_id: guestBuyer.id,
         user_id: userId,
         ticket_selections,
         amount_cents: fees.total_cents,
-        currency: 'usd',
-        status: 'payment_started',
+        currency,
+        status: 'pending',
         stripe_payment_intent_id: paymentIntent.id,
         promo_code_id: promoCodeId,
+        promo_code: promoCodeId ? appliedPromos.map((p) => p.code).join(',') : null,
         promo_discount_cents: promoDiscountCents,
+        buyer_email: buyer_email.toLowerCase(),
+        page_url: checkoutPageUrl(page_url, req.headers.get('origin')),
+        resumed_from_session_id: resumedFrom?.id ?? null,
         metadata: { buyer_email: buyer_email.toLowerCase(), buyer_name },
       })
       .select('id')
@@ -339,7 +404,8 @@ serve(async (req) => {
       JSON.stringify({
         session_id: session?.id,
         client_secret: paymentIntent.client_secret,
-        publishable_key: stripePublishableKey,
+        publishable_key: account.publishableKey,
+        ...(testMode && { test_mode: true }),
         payment_intent_id: paymentIntent.id,
         amount_cents: fees.total_cents,
         fee_breakdown: {
@@ -348,9 +414,13 @@ serve(async (req) => {
           stripe_fee_cents: fees.stripe_fee_cents,
           mint_fee_cents: fees.mint_fee_cents,
           service_fee_cents: fees.service_fee_cents,
+          tax_cents: fees.tax_cents,
+          tax_inclusive: fees.tax?.inclusive ?? false,
+          tax_lines: fees.tax?.lines ?? [],
           total_cents: fees.total_cents,
         },
         ...(promoDiscountCents > 0 && { promo_discount_cents: promoDiscountCents }),
+        ...(seatSelections && { seats: seatSelections.filter(Boolean) }),
       }),
       { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     )
@@ -363,56 +433,48 @@ serve(async (req) => {
   }
 })
 
-async function validateWidgetKey(
-  key: string,
-  eventId: string,
-  origin: string
-): Promise<{ valid: boolean; error?: string; organizerId?: string; keyId?: string }> {
-  const encoder = new TextEncoder()
-  const data = encoder.encode(key)
-  const hashBuffer = await crypto.subtle.digest('SHA-256', data)
-  const hashArray = Array.from(new Uint8Array(hashBuffer))
-  const keyHash = hashArray.map(b => b.toString(16).padStart(2, '0')).join('')
-
-  const { data: keyRecord, error } = await supabase
-    .from('widget_api_keys')
-    .select('id, organizer_id, allowed_event_ids, allowed_origins, is_active')
-    .eq('key_hash', keyHash)
-    .single()
-
-  if (error || !keyRecord) return { valid: false, error: 'Invalid widget key' }
-  if (!keyRecord.is_active) return { valid: false, error: 'Widget key is deactivated' }
-
-  if (keyRecord.allowed_event_ids?.length > 0 && !keyRecord.allowed_event_ids.includes(eventId)) {
-    return { valid: false, error: 'Key not authorized for this event' }
-  }
-
-  if (keyRecord.allowed_origins?.length > 0) {
-    const match = keyRecord.allowed_origins.some((o: string) =>
-      o === '*' || origin === o || origin.endsWith(o.replace('*.', '.'))
-    )
-    if (!match && origin !== 'null' && origin !== '*') {
-      return { valid: false, error: `Origin ${origin} not allowed` }
-    }
+/**
+ * Placeholder account for a guest buyer. It has a synthetic, unconfirmed
+ * email and no password, so nobody can sign in to it; the purchases move to
+ * the buyer's real account when they verify their email (see the
+ * widget_guest_claims migration).
+ */
+async function createGuestPlaceholder(guestBuyerId: string, buyerName: string | null): Promise<string | null> {
+  const { data, error } = await supabase.auth.admin.createUser({
+    email: `guest-${guestBuyerId}@guests.tickety.app`,
+    email_confirm: false,
+    app_metadata: { widget_guest: true, guest_buyer_id: guestBuyerId },
+    user_metadata: { source: 'widget_checkout', display_name: buyerName || 'Guest' },
+  })
+
+  if (error || !data.user) {
+    // A concurrent checkout for the same guest may have created it first
+    const { data: existing } = await supabase
+      .from('widget_guest_buyers')
+      .select('user_id')
+      .eq('id', guestBuyerId)
+      .single()
+    if (existing?.user_id) return existing.user_id
+    console.error('Failed to create guest placeholder account:', error)
+    return null
   }
 
-  // Basic rate limiting: count recent checkout sessions for this key
-  const oneMinuteAgo = new Date(Date.now() - 60000).toISOString()
-  const { count } = await supabase
-    .from('widget_checkout_sessions')
-    .select('id', { count: 'exact', head: true })
-    .eq('widget_key_id', keyRecord.id)
-    .gte('created_at', oneMinuteAgo)
-
-  const limit = keyRecord.rate_limit_per_minute || 100
-  if (count !== null && count >= limit) {
-    return { valid: false, error: 'Rate limit exceeded. Please try again later.' }
+  const { data: linked } = await supabase
+    .from('widget_guest_buyers')
+    .update({ user_id: data.user.id })
+    .eq('id', guestBuyerId)
+    .is('user_id', null)
+    .select('user_id')
+  if (!linked?.length) {
+    // Lost the race: keep the placeholder that was linked first
+    await supabase.auth.admin.deleteUser(data.user.id)
+    const { data: existing } = await supabase
+      .from('widget_guest_buyers')
+      .select('user_id')
+      .eq('id', guestBuyerId)
+      .single()
+    return existing?.user_id ?? null
   }
 
-  await supabase
-    .from('widget_api_keys')
-    .update({ last_used_at: new Date().toISOString() })
-    .eq('id', keyRecord.id)
-
-  return { valid: true, organizerId: keyRecord.organizer_id, keyId: keyRecord.id }
+  return data.user.id
 }
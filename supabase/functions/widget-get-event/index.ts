@@ -1,6 +1,12 @@
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
-import { createHash } from 'https://deno.land/std@0.177.0/crypto/mod.ts'
+import { currencyInfo, eventCurrency } from '../_shared/currency.ts'
+import { lookupPromoCodes, normalizeCode } from '../_shared/promo.ts'
+import { loadEventTax } from '../_shared/tax.ts'
+import { loadTicketTypes, publicTicketType, unlockedTypeIds } from '../_shared/ticket-types.ts'
+import { resolveWidgetBranding } from '../_shared/widget-branding.ts'
+import { findResumableSession } from '../_shared/widget-checkout.ts'
+import { authenticateWidgetKey } from '../_shared/widget-keys.ts'
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
@@ -21,7 +27,7 @@ serve(async (req) => {
   }
 
   try {
-    const { widget_key, event_id } = await req.json()
+    const { widget_key, event_id, resume_token, access_code } = await req.json()
 
     if (!widget_key || !event_id) {
       return new Response(
@@ -31,18 +37,17 @@ serve(async (req) => {
     }
 
     // Validate widget key
-    const keyValidation = await validateWidgetKey(widget_key, event_id, requestOrigin)
-    if (!keyValidation.valid) {
+    const auth = await authenticateWidgetKey(supabase, widget_key, {
+      eventId: event_id,
+      origin: req.headers.get('origin'),
+    })
+    if (!auth.valid) {
       return new Response(
-        JSON.stringify({ error: keyValidation.error }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: auth.error }),
+        { status: auth.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       )
     }
-
-    // Update CORS to match allowed origins
-    if (keyValidation.allowedOrigins && keyValidation.allowedOrigins.length > 0) {
-      corsHeaders['Access-Control-Allow-Origin'] = requestOrigin
-    }
+    const widgetKey = auth.key
 
     // Fetch event data
     const { data: event, error: eventError } = await supabase
@@ -65,20 +70,23 @@ serve(async (req) => {
     }
 
     // Verify the key's organizer owns this event
-    if (event.organizer_id !== keyValidation.organizerId) {
+    if (event.organizer_id !== widgetKey.organizer_id) {
       return new Response(
         JSON.stringify({ error: 'Widget key not authorized for this event' }),
         { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       )
     }
 
-    // Fetch active ticket types
-    const { data: ticketTypes } = await supabase
-      .from('event_ticket_types')
-      .select('id, name, description, price_cents, currency, max_quantity, sold_count, is_active, sort_order, category, item_icon, item_description')
-      .eq('event_id', event_id)
-      .eq('is_active', true)
-      .order('sort_order', { ascending: true })
+    // Active ticket types; hidden ones only when access_code unlocks them
+    // (the type's own code or a promo code limited to it)
+    const allTypes = (await loadTicketTypes(supabase, event_id)).filter((t) => t.is_active)
+    const code = typeof access_code === 'string' ? normalizeCode(access_code) : ''
+    const unlocked = code !== '' && allTypes.some((t) => t.is_hidden)
+      ? unlockedTypeIds(allTypes, [code], await lookupPromoCodes(supabase, event_id, [code], null))
+      : new Set<string>()
+    const ticketTypes = allTypes
+      .filter((t) => !t.is_hidden || unlocked.has(t.id))
+      .sort((a, b) => (a.sort_order ?? 0) - (b.sort_order ?? 0))
 
     // Fetch organizer profile
     const { data: organizer } = await supabase
@@ -87,28 +95,46 @@ serve(async (req) => {
       .eq('id', event.organizer_id)
       .single()
 
-    // Fetch widget config for styling
-    const { data: widgetConfig } = await supabase
-      .from('widget_configs')
-      .select('primary_color, accent_color, font_family, logo_url, button_style, show_powered_by')
-      .eq('organizer_id', event.organizer_id)
-      .single()
+    // Branding for styling; custom CSS is only rendered by widget-checkout-page
+    const { custom_css: _css, ...widgetConfig } = await resolveWidgetBranding(supabase, event.organizer_id)
+
+    // Build ticket type response with availability; price_cents is the
+    // price the next ticket sells at
+    const now = new Date()
+    const currency = currencyInfo(eventCurrency(event))
+    const types = ticketTypes.map((row) => {
+      const t = publicTicketType(row, now)
+      return {
+        id: t.id,
+        name: t.name,
+        description: t.description,
+        price_cents: t.current_price_cents,
+        next_price_cents: t.next_price_cents,
+        tier_name: t.current_tier?.name ?? null,
+        tier_remaining: t.current_tier?.remaining ?? null,
+        tier_ends_at: t.current_tier?.ends_at ?? null,
+        currency: currency.code,
+        max_quantity: t.max_quantity,
+        remaining: t.remaining,
+        is_available: t.sales_status === 'on_sale',
+        sales_status: t.sales_status,
+        sales_start_at: t.sales_start_at,
+        sales_end_at: t.sales_end_at,
+        min_per_order: t.min_per_order,
+        max_per_order: t.max_per_order,
+        category: t.category || 'entry',
+        item_icon: t.item_icon,
+        item_description: t.item_description,
+        sort_order: t.sort_order,
+      }
+    })
 
-    // Build ticket type response with availability
-    const types = (ticketTypes || []).map((t: any) => ({
-      id: t.id,
-      name: t.name,
-      description: t.description,
-      price_cents: t.price_cents,
-      currency: t.currency || 'usd',
-      max_quantity: t.max_quantity,
-      remaining: t.max_quantity ? Math.max(0, t.max_quantity - (t.sold_count || 0)) : null,
-      is_available: t.max_quantity ? (t.sold_count || 0) < t.max_quantity : true,
-      category: t.category || 'entry',
-      item_icon: t.item_icon,
-      item_description: t.item_description,
-      sort_order: t.sort_order,
-    }))
+    const tax = await loadEventTax(supabase, event_id)
+
+    // Opened from a recovery email: hand back the abandoned order
+    const resume = typeof resume_token === 'string'
+      ? await findResumableSession(supabase, resume_token, widgetKey.id, event_id)
+      : null
 
     return new Response(
       JSON.stringify({
@@ -121,18 +147,32 @@ serve(async (req) => {
           address: event.formatted_address,
           image_url: event.image_url,
           event_format: event.event_format || 'in_person',
+          currency: currency.code,
+        },
+        // What the checkout page needs to show the card total before the
+        // server prices the order
+        pricing: {
+          currency: currency.code,
+          decimals: currency.decimals,
+          card_fee_fixed: currency.cardFeeFixed,
+          mint_fee: currency.mintFee,
+          tax,
         },
         ticket_types: types,
         organizer: {
           name: organizer?.display_name || 'Event Organizer',
           avatar_url: organizer?.avatar_url,
         },
-        widget_config: widgetConfig || {
-          primary_color: '#6366F1',
-          font_family: 'Inter',
-          button_style: 'rounded',
-          show_powered_by: true,
-        },
+        widget_config: widgetConfig,
+        ...(resume && {
+          resume: {
+            session_id: resume.id,
+            ticket_selections: resume.ticket_selections,
+            promo_code: resume.promo_code,
+            buyer_email: resume.buyer_email,
+            buyer_name: resume.buyer_name,
+          },
+        }),
       }),
       { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     )
@@ -144,61 +184,3 @@ serve(async (req) => {
     )
   }
 })
-
-async function validateWidgetKey(
-  key: string,
-  eventId: string,
-  origin: string
-): Promise<{ valid: boolean; error?: string; organizerId?: string; keyId?: string; allowedOrigins?: string[] }> {
-  // Hash the key for lookup
-  const encoder = new TextEncoder()
-  const data = encoder.encode(key)
-  const hashBuffer = await crypto.subtle.digest('SHA-256', data)
-  const hashArray = Array.from(new Uint8Array(hashBuffer))
-  const keyHash = hashArray.map(b => b.toString(16).padStart(2, '0')).join('')
-
-  const { data: keyRecord, error } = await supabase
-    .from('widget_api_keys')
-    .select('id, organizer_id, allowed_event_ids, allowed_origins, is_active')
-    .eq('key_hash', keyHash)
-    .single()
-
-  if (error || !keyRecord) {
-    return { valid: false, error: 'Invalid widget key' }
-  }
-
-  if (!keyRecord.is_active) {
-    return { valid: false, error: 'Widget key is deactivated' }
-  }
-
-  // Check event scope
-  if (keyRecord.allowed_event_ids && keyRecord.allowed_event_ids.length > 0) {
-    if (!keyRecord.allowed_event_ids.includes(eventId)) {
-      return { valid: false, error: 'Widget key not authorized for this event' }
-    }
-  }
-
-  // Check origin
-  if (keyRecord.allowed_origins && keyRecord.allowed_origins.length > 0) {
-    const originMatch = keyRecord.allowed_origins.some((o: string) => {
-      if (o === '*') return true
-      return origin === o || origin.endsWith(o.replace('*.', '.'))
-    })
-    if (!originMatch && origin !== 'null' && origin !== '*') {
-      return { valid: false, error: `Origin ${origin} not allowed` }
-    }
-  }
-
-  // Update last_used_at
-  await supabase
-    .from('widget_api_keys')
-    .update({ last_used_at: new Date().toISOString() })
-    .eq('id', keyRecord.id)
-
-  return {
-    valid: true,
-    organizerId: keyRecord.organizer_id,
-    keyId: keyRecord.id,
-    allowedOrigins: keyRecord.allowed_origins,
-  }
-}
@@ -0,0 +1,115 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
+import { eventCurrency } from '../_shared/currency.ts'
+import { currentPrice, salesStatus, TICKET_TYPE_COLUMNS, type TicketTypeRow } from '../_shared/ticket-types.ts'
+import { authenticateWidgetKey } from '../_shared/widget-keys.ts'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+const MAX_EVENTS = 50
+
+// Upcoming events of the widget key's organizer, for the widget's event
+// list mode. Private, hidden and past events are left out; keys scoped to
+// events only list those. Optional series_id narrows to one series.
+serve(async (req) => {
+  // Dynamic CORS — allow any origin, validated against key's allowed_origins
+  const requestOrigin = req.headers.get('origin') || '*'
+
+  const corsHeaders: Record<string, string> = {
+    'Access-Control-Allow-Origin': requestOrigin,
+    'Access-Control-Allow-Headers': 'content-type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  }
+
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 204, headers: corsHeaders })
+  }
+
+  try {
+    const { widget_key, series_id, limit } = await req.json()
+
+    if (!widget_key) {
+      return new Response(
+        JSON.stringify({ error: 'Missing widget_key' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const auth = await authenticateWidgetKey(supabase, widget_key, { origin: req.headers.get('origin') })
+    if (!auth.valid) {
+      return new Response(
+        JSON.stringify({ error: auth.error }),
+        { status: auth.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+    const widgetKey = auth.key
+
+    let query = supabase
+      .from('events')
+      .select('id, title, date, venue, city, location, image_url, price_in_cents, currency, series_id')
+      .eq('organizer_id', widgetKey.organizer_id)
+      .eq('status', 'active')
+      .eq('is_private', false)
+      .is('deleted_at', null)
+      .gte('date', new Date().toISOString())
+      .order('date', { ascending: true })
+      .limit(Number.isInteger(limit) && limit > 0 ? Math.min(limit, MAX_EVENTS) : MAX_EVENTS)
+    if (series_id) query = query.eq('series_id', series_id)
+    if (widgetKey.allowed_event_ids?.length) query = query.in('id', widgetKey.allowed_event_ids)
+
+    const { data: events, error } = await query
+    if (error) throw new Error(`events: ${error.message}`)
+
+    // Lowest current price of the types on sale and sold-out state from
+    // the listed (active, not hidden) ticket types
+    const eventIds = (events ?? []).map((e: any) => e.id)
+    const { data: ticketTypes } = eventIds.length > 0
+      ? await supabase
+        .from('event_ticket_types')
+        .select(`event_id, ${TICKET_TYPE_COLUMNS}`)
+        .in('event_id', eventIds)
+        .eq('is_active', true)
+        .eq('is_hidden', false)
+      : { data: [] }
+
+    const now = new Date()
+    const typesByEvent = new Map<string, TicketTypeRow[]>()
+    for (const t of ticketTypes ?? []) {
+      typesByEvent.set(t.event_id, [...(typesByEvent.get(t.event_id) ?? []), t])
+    }
+
+    const listed = (events ?? []).map((event: any) => {
+      const types = typesByEvent.get(event.id) ?? []
+      const prices = (types.length > 0
+        ? types.filter((t) => salesStatus(t, now) === 'on_sale').map((t) => currentPrice(t, now).price_cents)
+        : [event.price_in_cents])
+        .filter((p) => typeof p === 'number')
+
+      return {
+        id: event.id,
+        title: event.title,
+        date: event.date,
+        venue: event.venue || event.location,
+        city: event.city,
+        image_url: event.image_url,
+        currency: eventCurrency(event),
+        series_id: event.series_id,
+        price_from_cents: prices.length > 0 ? Math.min(...prices) : null,
+        sold_out: types.length > 0 && types.every((t) => salesStatus(t, now) === 'sold_out'),
+      }
+    })
+
+    return new Response(
+      JSON.stringify({ events: listed }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (err) {
+    console.error('widget-list-events error:', err)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
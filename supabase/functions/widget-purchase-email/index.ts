@@ -0,0 +1,231 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
+import { DEFAULT_CURRENCY, formatMinor, normalizeCurrency } from '../_shared/currency.ts'
+import { receiptTaxRows, type TaxLine } from '../_shared/tax.ts'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+const resendApiKey = Deno.env.get('RESEND_API_KEY')
+const appUrl = Deno.env.get('APP_URL') || 'https://tickety.app'
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+// Purchase email for a paid widget checkout. Invoked by stripe-webhook with
+// { payment_intent_id } once the tickets exist; sends at most once per
+// session (purchase_email_sent_at).
+//
+// Guests whose tickets sit on a placeholder account get a sign-in link for
+// the email they bought with. Following it verifies the address, which
+// claims the purchases into their own account (see the widget_guest_claims
+// migration). Buyers who already have an account get a link to the app.
+
+// ====================================================================
+// Main handler
+// ====================================================================
+
+serve(async (req) => {
+  // Service role only: the email carries a sign-in link
+  if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+    return jsonResponse({ error: 'Unauthorized' }, 401)
+  }
+
+  try {
+    const { payment_intent_id } = await req.json()
+    if (!payment_intent_id) return jsonResponse({ error: 'Missing payment_intent_id' }, 400)
+
+    const { data: session } = await supabase
+      .from('widget_checkout_sessions')
+      .select('id, user_id, guest_buyer_id, buyer_email, amount_cents, currency, metadata, purchase_email_sent_at, events(title, date, venue, city)')
+      .eq('stripe_payment_intent_id', payment_intent_id)
+      .maybeSingle()
+    if (!session?.buyer_email) return jsonResponse({ error: 'Session not found' }, 404)
+    if (session.purchase_email_sent_at) return jsonResponse({ sent: false, reason: 'already_sent' })
+
+    const { data: tickets } = await supabase
+      .from('tickets')
+      .select('ticket_number, ticket_type_name, seat_label')
+      .eq('stripe_payment_intent_id', payment_intent_id)
+      .order('purchase_line_index', { ascending: true })
+    if (!tickets?.length) return jsonResponse({ error: 'No tickets for this payment yet' }, 409)
+
+    const { data: payment } = await supabase
+      .from('payments')
+      .select('tax_inclusive, tax_lines')
+      .eq('stripe_payment_intent_id', payment_intent_id)
+      .limit(1)
+      .maybeSingle()
+
+    // Claim the session before sending so retries email once
+    const { data: claimed } = await supabase
+      .from('widget_checkout_sessions')
+      .update({ purchase_email_sent_at: new Date().toISOString() })
+      .eq('id', session.id)
+      .is('purchase_email_sent_at', null)
+      .select('id')
+    if (!claimed?.length) return jsonResponse({ sent: false, reason: 'already_sent' })
+
+    try {
+      const guest = await isUnclaimedGuest(session)
+      const event = session.events as any
+      await sendEmail(session.buyer_email, `Your tickets for ${event?.title ?? 'your event'}`, purchaseEmailHtml({
+        eventTitle: event?.title ?? 'your event',
+        eventDate: event?.date ?? null,
+        venue: event?.venue || event?.city || null,
+        buyerName: session.metadata?.buyer_name ?? null,
+        tickets,
+        totalCents: session.amount_cents,
+        currency: normalizeCurrency(session.currency) ?? DEFAULT_CURRENCY,
+        taxInclusive: payment?.tax_inclusive ?? false,
+        taxLines: payment?.tax_lines ?? [],
+        claimLink: guest ? await claimLink(session.buyer_email) : null,
+      }))
+    } catch (err) {
+      // Release the claim so a replayed webhook retries
+      await supabase
+        .from('widget_checkout_sessions')
+        .update({ purchase_email_sent_at: null })
+        .eq('id', session.id)
+      throw err
+    }
+
+    return jsonResponse({ sent: true })
+  } catch (err) {
+    console.error('[widget-purchase-email] Error:', err)
+    return jsonResponse({ error: err.message }, 500)
+  }
+})
+
+// ====================================================================
+// Claim link
+// ====================================================================
+
+// The purchase is still on the guest's placeholder account
+async function isUnclaimedGuest(session: any): Promise<boolean> {
+  if (!session.guest_buyer_id) return false
+  const { data: guest } = await supabase
+    .from('widget_guest_buyers')
+    .select('user_id, claimed_by')
+    .eq('id', session.guest_buyer_id)
+    .single()
+  return !!guest?.user_id && !guest.claimed_by && guest.user_id === session.user_id
+}
+
+// An invite for new emails, a magic link when an unverified account already
+// exists (e.g. from an earlier purchase email). Either verifies the email.
+async function claimLink(email: string): Promise<string | null> {
+  for (const type of ['invite', 'magiclink'] as const) {
+    const { data, error } = await supabase.auth.admin.generateLink({
+      type,
+      email,
+      options: { redirectTo: `${appUrl}/tickets` },
+    })
+    if (!error && data?.properties?.action_link) return data.properties.action_link
+  }
+  console.error(`[widget-purchase-email] Could not generate a claim link for ${email}`)
+  return null
+}
+
+// ====================================================================
+// Email
+// ====================================================================
+
+async function sendEmail(to: string, subject: string, html: string) {
+  if (!resendApiKey) {
+    // Development: log instead of sending
+    console.log('RESEND_API_KEY not set. Would send email to:', to)
+    console.log('Email subject:', subject)
+    return
+  }
+
+  const response = await fetch('https://api.resend.com/emails', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${resendApiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ from: 'Tickety <tickets@tickety.app>', to, subject, html }),
+  })
+  if (!response.ok) throw new Error(`Resend API error: ${await response.text()}`)
+}
+
+function purchaseEmailHtml(opts: {
+  eventTitle: string
+  eventDate: string | null
+  venue: string | null
+  buyerName: string | null
+  tickets: { ticket_number: string; ticket_type_name: string | null; seat_label: string | null }[]
+  totalCents: number
+  currency: string
+  taxInclusive: boolean
+  taxLines: TaxLine[]
+  claimLink: string | null
+}): string {
+  const date = opts.eventDate
+    ? new Date(opts.eventDate).toLocaleDateString('en-US', {
+      weekday: 'long',
+      month: 'long',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    })
+    : null
+  const where = [date, opts.venue].filter(Boolean).join(' · ')
+  const total = formatMinor(opts.totalCents, opts.currency)
+
+  const rows = opts.tickets.map((t) => `
+          <tr>
+            <td style="padding: 8px 0; border-bottom: 1px solid #e5e7eb;">${escapeHtml(t.ticket_type_name || 'Ticket')}${t.seat_label ? ` · ${escapeHtml(t.seat_label)}` : ''}</td>
+            <td style="padding: 8px 0; border-bottom: 1px solid #e5e7eb; text-align: right; font-family: monospace;">${escapeHtml(t.ticket_number)}</td>
+          </tr>`).join('')
+
+  // Added tax is part of the total; included tax is shown under it
+  const taxRows = receiptTaxRows(opts.taxLines, opts.taxInclusive, opts.currency).map((r) => `
+            <tr>
+              <td style="padding: 4px 0; color: #6b7280; font-size: 14px;">${escapeHtml(r.label)}</td>
+              <td style="padding: 4px 0; color: #6b7280; font-size: 14px; text-align: right;">${escapeHtml(r.amount)}</td>
+            </tr>`).join('')
+
+  const action = opts.claimLink
+    ? `
+          <p>Your tickets are saved under this email address. Add them to your own Tickety account to see them in the app, transfer or resell them:</p>
+          <p style="text-align: center; margin: 28px 0;">
+            <a href="${escapeHtml(opts.claimLink)}" style="background: #6366f1; color: white; padding: 12px 28px; border-radius: 8px; text-decoration: none; font-weight: 600;">Claim your tickets</a>
+          </p>
+          <p style="color: #6b7280; font-size: 14px;">The button signs you in and only works for a limited time. You can also sign up later with this email address; your tickets move over once it is verified.</p>`
+    : `
+          <p style="text-align: center; margin: 28px 0;">
+            <a href="${escapeHtml(appUrl)}/tickets" style="background: #6366f1; color: white; padding: 12px 28px; border-radius: 8px; text-decoration: none; font-weight: 600;">View in Tickety</a>
+          </p>`
+
+  return `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1">
+      </head>
+      <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <div style="background: #f9fafb; padding: 30px; border-radius: 12px;">
+          <p>Hi${opts.buyerName ? ' ' + escapeHtml(opts.buyerName) : ''},</p>
+          <p>You're going to <strong>${escapeHtml(opts.eventTitle)}</strong>${where ? ` (${escapeHtml(where)})` : ''}.</p>
+          <table style="width: 100%; border-collapse: collapse; margin: 16px 0;">${rows}${opts.taxInclusive ? '' : taxRows}
+            <tr>
+              <td style="padding: 8px 0; font-weight: 600;">Total paid</td>
+              <td style="padding: 8px 0; text-align: right; font-weight: 600;">${escapeHtml(total)}</td>
+            </tr>${opts.taxInclusive ? taxRows : ''}
+          </table>${action}
+        </div>
+      </body>
+    </html>
+  `
+}
+
+function escapeHtml(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+function jsonResponse(data: any, status = 200) {
+  return new Response(JSON.stringify(data), {
+    status, headers: { 'Content-Type': 'application/json' },
+  })
+}
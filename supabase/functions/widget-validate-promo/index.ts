@@ -1,5 +1,7 @@
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
+import { applyPromoCodes, loadOrderLines, type OrderLine } from '../_shared/promo.ts'
+import { authenticateWidgetKey } from '../_shared/widget-keys.ts'
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
@@ -18,9 +20,9 @@ serve(async (req) => {
   }
 
   try {
-    const { widget_key, event_id, code, base_price_cents } = await req.json()
+    const { widget_key, event_id, code, ticket_selections, base_price_cents } = await req.json()
 
-    if (!widget_key || !event_id || !code || !base_price_cents) {
+    if (!widget_key || !event_id || typeof code !== 'string' || (!ticket_selections?.length && !base_price_cents)) {
       return new Response(
         JSON.stringify({ error: 'Missing required fields' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -28,48 +30,28 @@ serve(async (req) => {
     }
 
     // Validate widget key
-    const encoder = new TextEncoder()
-    const data = encoder.encode(widget_key)
-    const hashBuffer = await crypto.subtle.digest('SHA-256', data)
-    const hashArray = Array.from(new Uint8Array(hashBuffer))
-    const keyHash = hashArray.map(b => b.toString(16).padStart(2, '0')).join('')
-
-    const { data: keyRecord } = await supabase
-      .from('widget_api_keys')
-      .select('id, is_active')
-      .eq('key_hash', keyHash)
-      .single()
-
-    if (!keyRecord?.is_active) {
-      return new Response(
-        JSON.stringify({ error: 'Invalid widget key' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
-
-    // Validate promo code (no user-specific checks for guest checkout)
-    const { data: result, error } = await supabase.rpc('validate_promo_code', {
-      p_event_id: event_id,
-      p_code: code,
-      p_user_id: null,
-      p_base_price_cents: base_price_cents,
-      p_ticket_type_id: null,
+    const auth = await authenticateWidgetKey(supabase, widget_key, {
+      eventId: event_id,
+      origin: req.headers.get('origin'),
     })
-
-    if (error) {
+    if (!auth.valid) {
       return new Response(
-        JSON.stringify({ valid: false, error: 'Failed to validate code' }),
-        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: auth.error }),
+        { status: auth.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       )
     }
 
+    // No buyer yet, so per-user limits are checked at checkout. Several
+    // stackable codes can be entered comma-separated.
+    const lines: OrderLine[] = ticket_selections?.length
+      ? await loadOrderLines(supabase, event_id, ticket_selections, 0)
+      : [{ ticket_type_id: null, quantity: 1, unit_price_cents: base_price_cents }]
+    const result = await applyPromoCodes(supabase, event_id, code.split(','), null, lines)
+
     return new Response(
-      JSON.stringify({
-        valid: result?.valid ?? false,
-        discount_cents: result?.discount_cents ?? 0,
-        discount_type: result?.discount_type,
-        error: result?.error,
-      }),
+      JSON.stringify(result.valid
+        ? { valid: true, discount_cents: result.discount_cents, discount_type: result.codes[0].discount_type, codes: result.codes }
+        : { valid: false, discount_cents: 0, error: result.error }),
       { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     )
   } catch (err) {
@@ -0,0 +1,14 @@
+-- Record which fee schedule priced each payment.
+-- Stamped by every checkout edge function from supabase/functions/_shared/fees.ts
+-- so the same ticket can be audited across card, ACH, wallet, resale and waitlist paths.
+
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS fee_schedule VARCHAR(20);
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS fee_schedule_version VARCHAR(20);
+
+CREATE INDEX IF NOT EXISTS idx_payments_fee_schedule ON payments(fee_schedule, fee_schedule_version);
+
+COMMENT ON COLUMN payments.fee_schedule IS 'Fee schedule used to price this payment: card, ach, wallet, wallet_top_up, resale, waitlist';
+COMMENT ON COLUMN payments.fee_schedule_version IS 'Version of the fee schedule (FEE_SCHEDULE_VERSION) at the time of charge';
+
+-- Existing rows were all priced before schedules were versioned
+UPDATE payments SET fee_schedule_version = 'legacy' WHERE fee_schedule_version IS NULL;
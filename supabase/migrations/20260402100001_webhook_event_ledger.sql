@@ -0,0 +1,113 @@
+-- ============================================================
+-- Durable Stripe webhook ledger + idempotent ticket creation
+-- ============================================================
+
+-- ── webhook_events: one row per Stripe event ────────────────
+
+-- Earlier replays left several rows per event. Keep the newest and move
+-- the others to webhook_events_archive so the event stays unique without
+-- losing its history
+CREATE TABLE IF NOT EXISTS webhook_events_archive (LIKE webhook_events INCLUDING DEFAULTS);
+ALTER TABLE webhook_events_archive
+    ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+ALTER TABLE webhook_events_archive ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can read archived webhook events" ON webhook_events_archive;
+CREATE POLICY "Staff can read archived webhook events"
+    ON webhook_events_archive FOR SELECT
+    USING ((SELECT public.is_staff_role()));
+
+WITH superseded AS (
+    DELETE FROM webhook_events a
+    USING webhook_events b
+    WHERE a.stripe_event_id = b.stripe_event_id
+      AND (a.created_at < b.created_at OR (a.created_at = b.created_at AND a.id < b.id))
+    RETURNING a.*
+)
+INSERT INTO webhook_events_archive
+SELECT * FROM superseded;
+
+DROP INDEX IF EXISTS idx_webhook_events_stripe_id;
+CREATE UNIQUE INDEX idx_webhook_events_stripe_id ON webhook_events(stripe_event_id);
+
+ALTER TABLE webhook_events
+    ADD COLUMN IF NOT EXISTS function_name TEXT,
+    ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'stripe',  -- stripe, replay
+    ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS started_at TIMESTAMPTZ;
+
+-- Record an incoming event and claim it for processing.
+-- Returns claimed = false when the event already succeeded or another
+-- invocation is still working on it. p_force re-claims regardless (admin replay).
+CREATE OR REPLACE FUNCTION claim_webhook_event(
+    p_stripe_event_id TEXT,
+    p_event_type TEXT,
+    p_payload JSONB,
+    p_function_name TEXT,
+    p_source TEXT DEFAULT 'stripe',
+    p_force BOOLEAN DEFAULT false
+)
+RETURNS TABLE (id UUID, claimed BOOLEAN, status TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+    v_id UUID;
+    v_status TEXT;
+BEGIN
+    INSERT INTO webhook_events (stripe_event_id, event_type, status, payload, function_name, source, attempts, started_at)
+    VALUES (p_stripe_event_id, p_event_type, 'processing', p_payload, p_function_name, p_source, 1, now())
+    ON CONFLICT (stripe_event_id) DO NOTHING
+    RETURNING webhook_events.id INTO v_id;
+
+    IF v_id IS NOT NULL THEN
+        RETURN QUERY SELECT v_id, true, 'processing'::TEXT;
+        RETURN;
+    END IF;
+
+    -- Retry after failure, or take over a run that died mid-flight
+    UPDATE webhook_events w
+    SET status = 'processing',
+        source = p_source,
+        attempts = w.attempts + 1,
+        error_message = NULL,
+        started_at = now(),
+        processed_at = NULL
+    WHERE w.stripe_event_id = p_stripe_event_id
+      AND (
+          p_force
+          OR w.status IN ('received', 'failed')
+          OR (w.status = 'processing' AND w.started_at < now() - INTERVAL '5 minutes')
+      )
+    RETURNING w.id INTO v_id;
+
+    IF v_id IS NOT NULL THEN
+        RETURN QUERY SELECT v_id, true, 'processing'::TEXT;
+        RETURN;
+    END IF;
+
+    SELECT w.id, w.status INTO v_id, v_status
+    FROM webhook_events w
+    WHERE w.stripe_event_id = p_stripe_event_id;
+
+    RETURN QUERY SELECT v_id, false, v_status;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_webhook_event(TEXT, TEXT, JSONB, TEXT, TEXT, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+-- ── tickets: key webhook-created tickets on PaymentIntent + line ──
+
+ALTER TABLE tickets
+    ADD COLUMN IF NOT EXISTS stripe_payment_intent_id VARCHAR(255),
+    ADD COLUMN IF NOT EXISTS purchase_line_index INTEGER;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tickets_payment_intent_line
+    ON tickets(stripe_payment_intent_id, purchase_line_index)
+    WHERE stripe_payment_intent_id IS NOT NULL;
+
+COMMENT ON COLUMN tickets.stripe_payment_intent_id IS 'PaymentIntent that created this ticket (NULL for cash, wallet and legacy tickets)';
+COMMENT ON COLUMN tickets.purchase_line_index IS 'Zero-based position of this ticket within its PaymentIntent; makes webhook ticket creation idempotent';
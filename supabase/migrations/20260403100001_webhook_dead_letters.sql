@@ -0,0 +1,38 @@
+-- ============================================================
+-- Dead letters for Stripe events the webhook cannot route
+-- ============================================================
+-- stripe-webhook dispatches PaymentIntent events by metadata.type through
+-- a typed handler registry. Events with an unknown type, or metadata that
+-- fails the handler's schema, land here instead of being dropped. The
+-- ledger row in webhook_events is marked 'dead_lettered' so Stripe retries
+-- are acknowledged; an admin replay re-runs the event once it is fixed.
+
+CREATE TABLE IF NOT EXISTS public.webhook_dead_letters (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    webhook_event_id UUID REFERENCES public.webhook_events(id) ON DELETE SET NULL,
+    stripe_event_id TEXT NOT NULL,
+    event_type TEXT NOT NULL,
+    purchase_type TEXT,          -- PaymentIntent metadata.type, when present
+    reason TEXT NOT NULL,
+    payload JSONB,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    resolved_at TIMESTAMPTZ      -- set when a replay of the event succeeds
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_webhook_dead_letters_stripe_id
+    ON public.webhook_dead_letters(stripe_event_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_dead_letters_unresolved
+    ON public.webhook_dead_letters(created_at DESC)
+    WHERE resolved_at IS NULL;
+
+ALTER TABLE public.webhook_dead_letters ENABLE ROW LEVEL SECURITY;
+
+-- Only staff can read dead letters
+CREATE POLICY "Staff can read webhook dead letters"
+    ON public.webhook_dead_letters FOR SELECT
+    USING ((SELECT public.is_staff_role()));
+
+-- Service role inserts (from edge functions) bypass RLS automatically
+
+COMMENT ON TABLE public.webhook_dead_letters IS 'Stripe events stripe-webhook could not route (unknown purchase type or malformed metadata)';
+COMMENT ON COLUMN public.webhook_events.status IS 'received, processing, succeeded, failed, dead_lettered';
@@ -0,0 +1,72 @@
+-- ============================================================
+-- Shopify webhook verification + exact order reconciliation
+-- ============================================================
+-- shopify-webhook verifies X-Shopify-Hmac-Sha256 against the organizer's
+-- webhook secret, links Shopify orders to merch_orders through the
+-- tickety_order_id cart attribute, and tracks partial fulfillment and
+-- refunds per order.
+
+-- ── organizer_merch_config: webhook signing secret ─────────
+
+ALTER TABLE organizer_merch_config
+  ADD COLUMN IF NOT EXISTS shopify_webhook_secret TEXT;
+
+-- Incoming webhooks identify the store by X-Shopify-Shop-Domain, matched
+-- exactly against the lowercased domain
+UPDATE organizer_merch_config
+SET shopify_domain = lower(shopify_domain)
+WHERE shopify_domain IS DISTINCT FROM lower(shopify_domain);
+
+CREATE OR REPLACE FUNCTION normalize_shopify_domain()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.shopify_domain := lower(NEW.shopify_domain);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS organizer_merch_config_normalize_shopify_domain ON organizer_merch_config;
+CREATE TRIGGER organizer_merch_config_normalize_shopify_domain
+  BEFORE INSERT OR UPDATE OF shopify_domain ON organizer_merch_config
+  FOR EACH ROW
+  EXECUTE FUNCTION normalize_shopify_domain();
+
+DROP INDEX IF EXISTS idx_organizer_merch_config_shopify_domain;
+CREATE INDEX idx_organizer_merch_config_shopify_domain
+  ON organizer_merch_config (shopify_domain)
+  WHERE provider = 'shopify';
+
+COMMENT ON COLUMN organizer_merch_config.shopify_webhook_secret IS 'Shopify webhook signing secret (Settings → Notifications → Webhooks); verifies X-Shopify-Hmac-Sha256';
+
+-- ── merch_orders: Shopify order link, fulfillment, refunds ──
+
+ALTER TABLE merch_orders
+  ADD COLUMN IF NOT EXISTS shopify_order_id TEXT,
+  ADD COLUMN IF NOT EXISTS fulfilled_quantity INT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS refunded_cents INT NOT NULL DEFAULT 0;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_merch_orders_shopify_order
+  ON merch_orders (organizer_id, shopify_order_id)
+  WHERE shopify_order_id IS NOT NULL;
+
+COMMENT ON COLUMN merch_orders.shopify_order_id IS 'Shopify order ID, set when the order webhook carries our tickety_order_id cart attribute';
+COMMENT ON COLUMN merch_orders.fulfilled_quantity IS 'Units fulfilled so far; status stays processing until every unit ships';
+COMMENT ON COLUMN merch_orders.refunded_cents IS 'Total refunded to the buyer; status becomes refunded once it covers amount_cents';
+
+-- ── shopify_webhook_deliveries: dedupe Shopify retries ──────
+
+CREATE TABLE IF NOT EXISTS shopify_webhook_deliveries (
+  webhook_id TEXT PRIMARY KEY,  -- X-Shopify-Webhook-Id, stable across retries
+  organizer_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  topic TEXT NOT NULL,
+  shopify_order_id TEXT,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE shopify_webhook_deliveries ENABLE ROW LEVEL SECURITY;
+-- Service role only (edge function); no client policies
+
+CREATE INDEX IF NOT EXISTS idx_shopify_webhook_deliveries_received
+  ON shopify_webhook_deliveries (received_at);
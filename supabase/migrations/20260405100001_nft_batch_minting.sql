@@ -0,0 +1,112 @@
+-- ============================================================
+-- Batch NFT minting: many queued tickets per Cardano transaction
+-- ============================================================
+
+-- ── nft_mint_batches: one row per batch mint transaction ────
+
+CREATE TABLE IF NOT EXISTS nft_mint_batches (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+    policy_id TEXT,
+    status TEXT NOT NULL DEFAULT 'building'
+        CHECK (status IN ('building', 'submitted', 'failed')),
+    ticket_count INTEGER NOT NULL DEFAULT 0,
+    tx_hash TEXT,
+    tx_size_bytes INTEGER,
+    fee_lovelace BIGINT,
+    error_message TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    submitted_at TIMESTAMPTZ
+);
+
+ALTER TABLE nft_mint_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access on mint batches"
+    ON nft_mint_batches FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+
+CREATE INDEX IF NOT EXISTS idx_nft_mint_batches_event ON nft_mint_batches(event_id);
+CREATE INDEX IF NOT EXISTS idx_nft_mint_batches_submitted ON nft_mint_batches(submitted_at DESC)
+    WHERE status = 'submitted';
+
+COMMENT ON TABLE nft_mint_batches IS 'Batch mint transactions built by mint-ticket-nft; each carries the CIP-68 token pairs for many queued tickets of one event';
+COMMENT ON COLUMN nft_mint_batches.fee_lovelace IS 'Network fee paid by the whole transaction';
+
+-- ── nft_mint_queue: link rows to their batch ────────────────
+
+ALTER TABLE nft_mint_queue
+    ADD COLUMN IF NOT EXISTS batch_id UUID REFERENCES nft_mint_batches(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS fee_lovelace BIGINT,
+    ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_nft_mint_queue_batch ON nft_mint_queue(batch_id) WHERE batch_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_nft_mint_queue_claim ON nft_mint_queue(event_id, created_at)
+    WHERE action = 'mint' AND status = 'queued';
+
+COMMENT ON COLUMN nft_mint_queue.batch_id IS 'Batch transaction this mint was submitted in (NULL before batching or for transfers/burns)';
+COMMENT ON COLUMN nft_mint_queue.fee_lovelace IS 'This ticket''s share of its batch fee';
+COMMENT ON COLUMN nft_mint_queue.claimed_at IS 'When a mint worker last claimed this row; a stale claim is handed back to the queue';
+
+-- Claim up to p_limit queued mints for one event and mark them 'minting'.
+-- With no event given, the event of the oldest queued mint is used.
+-- SKIP LOCKED lets concurrent invocations claim disjoint batches.
+-- Rows a worker claimed but never submitted (it died in between) go back
+-- to the queue once their claim is 15 minutes old.
+CREATE OR REPLACE FUNCTION claim_nft_mint_batch(
+    p_event_id UUID DEFAULT NULL,
+    p_limit INTEGER DEFAULT 40
+)
+RETURNS SETOF nft_mint_queue
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_event_id UUID := p_event_id;
+BEGIN
+    UPDATE nft_mint_queue q
+    SET status = 'queued',
+        batch_id = NULL
+    WHERE q.action = 'mint'
+      AND q.status = 'minting'
+      AND (q.claimed_at IS NULL OR q.claimed_at < now() - INTERVAL '15 minutes')
+      AND NOT EXISTS (
+          SELECT 1 FROM nft_mint_batches b
+          WHERE b.id = q.batch_id AND b.status = 'submitted'
+      );
+
+    IF v_event_id IS NULL THEN
+        SELECT q.event_id INTO v_event_id
+        FROM nft_mint_queue q
+        WHERE q.action = 'mint' AND q.status = 'queued'
+        ORDER BY q.created_at
+        LIMIT 1;
+
+        IF v_event_id IS NULL THEN
+            RETURN;
+        END IF;
+    END IF;
+
+    RETURN QUERY
+    WITH claimed AS (
+        UPDATE nft_mint_queue q
+        SET status = 'minting',
+            claimed_at = now()
+        WHERE q.id IN (
+            SELECT c.id
+            FROM nft_mint_queue c
+            WHERE c.event_id = v_event_id
+              AND c.action = 'mint'
+              AND c.status = 'queued'
+            ORDER BY c.created_at
+            LIMIT p_limit
+            FOR UPDATE SKIP LOCKED
+        )
+        RETURNING q.*
+    )
+    SELECT * FROM claimed ORDER BY claimed.created_at;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_nft_mint_batch(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,67 @@
+-- ============================================================
+-- Chain confirmation tracking for NFT mint/transfer/burn txs
+-- ============================================================
+-- A queue entry used to be "done" as soon as Blockfrost accepted the
+-- transaction. confirm-nft-txs now polls each submitted tx_hash until it is
+-- N blocks deep, and re-queues entries whose transactions never land.
+
+-- ── nft_mint_queue: on-chain state of the submitted tx ──────
+
+ALTER TABLE nft_mint_queue
+    ADD COLUMN IF NOT EXISTS chain_status TEXT
+        CHECK (chain_status IN ('submitted', 'confirmed')),
+    ADD COLUMN IF NOT EXISTS ttl_slot BIGINT,
+    ADD COLUMN IF NOT EXISTS submitted_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS confirmations INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS block_height BIGINT,
+    ADD COLUMN IF NOT EXISTS confirmed_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS last_checked_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS dropped_count INTEGER NOT NULL DEFAULT 0;
+
+-- Existing submissions were settled long ago and carry no TTL, so the
+-- watcher can't tell a pruned tx from a dropped one: take them as confirmed
+UPDATE nft_mint_queue
+SET chain_status = 'confirmed',
+    submitted_at = COALESCE(submitted_at, updated_at),
+    confirmed_at = COALESCE(confirmed_at, updated_at)
+WHERE tx_hash IS NOT NULL
+  AND status IN ('minted', 'transferred', 'burned')
+  AND chain_status IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_nft_mint_queue_unconfirmed
+    ON nft_mint_queue(last_checked_at NULLS FIRST)
+    WHERE chain_status = 'submitted';
+
+COMMENT ON COLUMN nft_mint_queue.chain_status IS 'submitted: accepted by a node, not yet deep enough; confirmed: required confirmations reached. NULL until submitted';
+COMMENT ON COLUMN nft_mint_queue.ttl_slot IS 'invalid_hereafter of the submitted tx; once the tip passes it a missing tx can never land';
+COMMENT ON COLUMN nft_mint_queue.dropped_count IS 'Times a submitted tx for this entry vanished and the entry was re-queued';
+
+-- ── nft_mint_batches: batch tx confirmation ─────────────────
+
+ALTER TABLE nft_mint_batches DROP CONSTRAINT IF EXISTS nft_mint_batches_status_check;
+ALTER TABLE nft_mint_batches ADD CONSTRAINT nft_mint_batches_status_check
+    CHECK (status IN ('building', 'submitted', 'confirmed', 'dropped', 'failed'));
+
+ALTER TABLE nft_mint_batches
+    ADD COLUMN IF NOT EXISTS confirmed_at TIMESTAMPTZ;
+
+-- ── tickets: what check-in sees ─────────────────────────────
+
+ALTER TABLE tickets
+    ADD COLUMN IF NOT EXISTS nft_chain_status TEXT
+        CHECK (nft_chain_status IN ('submitted', 'confirmed')),
+    ADD COLUMN IF NOT EXISTS nft_confirmed_at TIMESTAMPTZ;
+
+UPDATE tickets
+SET nft_chain_status = 'confirmed',
+    nft_confirmed_at = COALESCE(nft_minted_at, now())
+WHERE nft_minted = TRUE
+  AND nft_chain_status IS NULL;
+
+COMMENT ON COLUMN tickets.nft_chain_status IS 'On-chain state of the latest mint/transfer tx for this ticket''s NFT: submitted (not yet confirmed) or confirmed';
+
+-- ── Confirmation depth ──────────────────────────────────────
+
+INSERT INTO platform_cardano_config (key, value)
+VALUES ('required_confirmations', '10')
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,107 @@
+-- ============================================================
+-- Configurable Cardano network + rotatable platform signing keys
+-- ============================================================
+-- The NFT functions used to assume preview and a single signing key from
+-- Edge Function secrets. The network now comes from platform_cardano_config,
+-- and every platform key is recorded with the policy it controls so tickets
+-- minted before a rotation can still be transferred and burned.
+
+-- ── Network ─────────────────────────────────────────────────
+
+INSERT INTO platform_cardano_config (key, value)
+VALUES ('network', 'preview')
+ON CONFLICT (key) DO NOTHING;
+
+-- Typos here would point every NFT function at the wrong chain
+CREATE OR REPLACE FUNCTION check_platform_cardano_network()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF NEW.key = 'network' AND NEW.value NOT IN ('preview', 'preprod', 'mainnet') THEN
+        RAISE EXCEPTION 'Unknown Cardano network: %', NEW.value;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_check_platform_cardano_network ON platform_cardano_config;
+CREATE TRIGGER trg_check_platform_cardano_network
+    BEFORE INSERT OR UPDATE ON platform_cardano_config
+    FOR EACH ROW EXECUTE FUNCTION check_platform_cardano_network();
+
+-- ── platform_signing_keys: key history per network ──────────
+
+CREATE TABLE IF NOT EXISTS platform_signing_keys (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    network TEXT NOT NULL CHECK (network IN ('preview', 'preprod', 'mainnet')),
+    status TEXT NOT NULL DEFAULT 'active'
+        CHECK (status IN ('active', 'retired')),
+    policy_id TEXT NOT NULL,
+    verify_key TEXT NOT NULL,
+    address TEXT NOT NULL,
+    signing_key_secret TEXT NOT NULL,
+    activated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    retired_at TIMESTAMPTZ,
+    UNIQUE (network, policy_id)
+);
+
+ALTER TABLE platform_signing_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access on signing keys"
+    ON platform_signing_keys FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+
+-- One key signs new mints per network
+CREATE UNIQUE INDEX IF NOT EXISTS idx_platform_signing_keys_active
+    ON platform_signing_keys(network) WHERE status = 'active';
+
+COMMENT ON TABLE platform_signing_keys IS 'Platform minting keys per network. Retired keys still sign transfers and burns for their policy';
+COMMENT ON COLUMN platform_signing_keys.signing_key_secret IS 'Name of the Edge Function secret holding the signing key hex; the key itself is never stored here';
+COMMENT ON COLUMN platform_signing_keys.address IS 'Enterprise address of the key; holds the reference NFTs minted under its policy';
+
+-- Make a key the active one for its network, retiring the current one.
+-- Re-activating a retired key (same policy) reuses its row.
+CREATE OR REPLACE FUNCTION rotate_platform_signing_key(
+    p_network TEXT,
+    p_policy_id TEXT,
+    p_verify_key TEXT,
+    p_address TEXT,
+    p_signing_key_secret TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_id UUID;
+BEGIN
+    UPDATE platform_signing_keys
+    SET status = 'retired', retired_at = NOW()
+    WHERE network = p_network
+      AND status = 'active'
+      AND policy_id <> p_policy_id;
+
+    INSERT INTO platform_signing_keys (network, policy_id, verify_key, address, signing_key_secret)
+    VALUES (p_network, p_policy_id, p_verify_key, p_address, p_signing_key_secret)
+    ON CONFLICT (network, policy_id) DO UPDATE
+    SET status = 'active',
+        retired_at = NULL,
+        activated_at = NOW(),
+        verify_key = EXCLUDED.verify_key,
+        address = EXCLUDED.address,
+        signing_key_secret = EXCLUDED.signing_key_secret
+    RETURNING id INTO v_id;
+
+    -- New mints (and the admin wallet view) follow the active key's address
+    INSERT INTO platform_cardano_config (key, value, updated_at)
+    VALUES ('minting_address', p_address, NOW())
+    ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value, updated_at = NOW();
+
+    RETURN v_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION rotate_platform_signing_key(TEXT, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
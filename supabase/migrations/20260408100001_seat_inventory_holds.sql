@@ -0,0 +1,388 @@
+-- ============================================================
+-- Seat inventory: atomic holds, checkout attachment, conversion
+-- ============================================================
+-- Seat holds used to be written straight from the app with an upsert, so
+-- two buyers could overwrite each other's hold and both pay for the same
+-- seat. Holds now go through these functions, which serialize per event,
+-- check every seat against the venue map, sold tickets and other buyers'
+-- holds, and tie the hold to the PaymentIntent that pays for it.
+--
+-- Lifecycle: hold_seats → (extend_seat_hold)* → attach_seat_hold_payment
+-- → convert_seat_hold on payment_intent.succeeded. release_seat_hold gives
+-- seats back early; sweep_expired_seat_holds frees abandoned ones.
+
+-- ── seat_holds: group and payment link ──────────────────────
+
+-- All seats held in one call share a hold_group_id, which is the hold id
+-- callers extend, release and attach
+ALTER TABLE seat_holds
+    ADD COLUMN IF NOT EXISTS hold_group_id UUID NOT NULL DEFAULT gen_random_uuid(),
+    ADD COLUMN IF NOT EXISTS payment_intent_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_seat_holds_group
+    ON seat_holds(hold_group_id);
+
+CREATE INDEX IF NOT EXISTS idx_seat_holds_payment_intent
+    ON seat_holds(payment_intent_id) WHERE payment_intent_id IS NOT NULL;
+
+COMMENT ON COLUMN seat_holds.hold_group_id IS 'Hold id returned by hold_seats; shared by every seat held in that call';
+COMMENT ON COLUMN seat_holds.payment_intent_id IS 'PaymentIntent paying for the hold, set once checkout starts';
+
+-- Inserts bypassed the conflict checks; holds are created by hold_seats only
+DROP POLICY IF EXISTS "Users can create own holds" ON seat_holds;
+
+-- Seats that were sold to another buyer while this payment was in flight
+ALTER TABLE payments
+    ADD COLUMN IF NOT EXISTS seat_conflicts JSONB;
+
+COMMENT ON COLUMN payments.seat_conflicts IS 'Seats that could not be assigned when the payment succeeded; those tickets were issued unseated';
+
+-- ── Event seat map ──────────────────────────────────────────
+
+-- Every seat of the event's venue layout, with venue_seats overrides applied
+CREATE OR REPLACE FUNCTION event_seat_map(p_event_id UUID)
+RETURNS TABLE (
+    section_id TEXT,
+    section_name TEXT,
+    pricing_tier TEXT,
+    row_label TEXT,
+    seat_id TEXT,
+    seat_number INT,
+    x NUMERIC,
+    y NUMERIC,
+    status TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT
+        sec->>'id',
+        sec->>'name',
+        sec->>'pricingTier',
+        r->>'label',
+        seat->>'id',
+        (seat->>'number')::INT,
+        (seat->>'x')::NUMERIC,
+        (seat->>'y')::NUMERIC,
+        COALESCE(vs.status, seat->>'status', 'available')
+    FROM events e
+    JOIN venues v ON v.id = e.venue_id
+    CROSS JOIN LATERAL jsonb_array_elements(COALESCE(v.layout_data->'sections', '[]'::JSONB)) sec
+    CROSS JOIN LATERAL jsonb_array_elements(COALESCE(sec->'rows', '[]'::JSONB)) r
+    CROSS JOIN LATERAL jsonb_array_elements(COALESCE(r->'seats', '[]'::JSONB)) seat
+    LEFT JOIN venue_seats vs
+        ON vs.venue_id = v.id
+       AND vs.section_id = sec->>'id'
+       AND vs.row_label = r->>'label'
+       AND vs.seat_number = (seat->>'number')::INT
+    WHERE e.id = p_event_id;
+$$;
+
+COMMENT ON FUNCTION event_seat_map(UUID) IS 'Seats of an event''s venue layout with venue_seats status overrides';
+
+-- ── Conflict check ──────────────────────────────────────────
+
+-- Requested seats that p_user_id cannot hold, each with a reason:
+-- unknown (not in the venue map), blocked, sold, or held (by another buyer).
+-- Tickets already issued for p_payment_intent_id do not count as sold, so
+-- a webhook retry does not conflict with its own tickets.
+CREATE OR REPLACE FUNCTION seat_hold_conflicts(
+    p_event_id UUID,
+    p_user_id UUID,
+    p_seats JSONB,
+    p_payment_intent_id TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    WITH requested AS (
+        SELECT DISTINCT s.section_id, s.seat_id
+        FROM jsonb_to_recordset(p_seats) AS s(section_id TEXT, seat_id TEXT)
+    ),
+    seat_map AS (
+        SELECT m.section_id, m.seat_id, m.status FROM event_seat_map(p_event_id) m
+    ),
+    checked AS (
+        SELECT
+            rq.section_id,
+            rq.seat_id,
+            CASE
+                WHEN m.seat_id IS NULL THEN 'unknown'
+                WHEN m.status = 'blocked' THEN 'blocked'
+                WHEN EXISTS (
+                    SELECT 1 FROM tickets t
+                    WHERE t.event_id = p_event_id
+                      AND t.venue_section_id = rq.section_id
+                      AND t.seat_id = rq.seat_id
+                      AND t.status IN ('valid', 'used')
+                      AND t.stripe_payment_intent_id IS DISTINCT FROM p_payment_intent_id
+                ) THEN 'sold'
+                WHEN EXISTS (
+                    SELECT 1 FROM seat_holds h
+                    WHERE h.event_id = p_event_id
+                      AND h.venue_section_id = rq.section_id
+                      AND h.seat_id = rq.seat_id
+                      AND h.expires_at > NOW()
+                      AND h.user_id <> p_user_id
+                ) THEN 'held'
+            END AS reason
+        FROM requested rq
+        LEFT JOIN seat_map m ON m.section_id = rq.section_id AND m.seat_id = rq.seat_id
+    )
+    SELECT COALESCE(
+        jsonb_agg(jsonb_build_object('section_id', section_id, 'seat_id', seat_id, 'reason', reason)),
+        '[]'::JSONB
+    )
+    FROM checked
+    WHERE reason IS NOT NULL;
+$$;
+
+-- ── hold_seats ──────────────────────────────────────────────
+
+-- Hold every seat in p_seats ([{section_id, seat_id}, ...]) for p_user_id,
+-- or none of them. Seats the user already holds move into the new hold.
+CREATE OR REPLACE FUNCTION hold_seats(
+    p_event_id UUID,
+    p_user_id UUID,
+    p_seats JSONB,
+    p_ttl_seconds INT DEFAULT 600
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_hold_id UUID := gen_random_uuid();
+    v_expires_at TIMESTAMPTZ;
+    v_conflicts JSONB;
+BEGIN
+    IF p_seats IS NULL OR jsonb_typeof(p_seats) <> 'array' OR jsonb_array_length(p_seats) = 0 THEN
+        RETURN jsonb_build_object('success', false, 'error', 'No seats selected');
+    END IF;
+
+    -- One hold at a time per event, so two buyers cannot both pass the check
+    PERFORM pg_advisory_xact_lock(hashtext('seat_holds:' || p_event_id::TEXT));
+
+    DELETE FROM seat_holds WHERE event_id = p_event_id AND expires_at <= NOW();
+
+    v_conflicts := seat_hold_conflicts(p_event_id, p_user_id, p_seats);
+    IF jsonb_array_length(v_conflicts) > 0 THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'Seats no longer available',
+            'conflicts', v_conflicts
+        );
+    END IF;
+
+    -- Clamped to 1–30 minutes
+    v_expires_at := NOW() + make_interval(secs => LEAST(GREATEST(COALESCE(p_ttl_seconds, 600), 60), 1800));
+
+    INSERT INTO seat_holds (event_id, venue_section_id, seat_id, user_id, expires_at, hold_group_id)
+    SELECT DISTINCT p_event_id, s.section_id, s.seat_id, p_user_id, v_expires_at, v_hold_id
+    FROM jsonb_to_recordset(p_seats) AS s(section_id TEXT, seat_id TEXT)
+    ON CONFLICT (event_id, venue_section_id, seat_id) DO UPDATE
+    SET hold_group_id = EXCLUDED.hold_group_id,
+        expires_at = EXCLUDED.expires_at,
+        payment_intent_id = NULL,
+        created_at = NOW();
+
+    RETURN jsonb_build_object('success', true, 'hold_id', v_hold_id, 'expires_at', v_expires_at);
+END;
+$$;
+
+-- ── extend_seat_hold ────────────────────────────────────────
+
+-- Push a live hold's expiry out by p_ttl_seconds, up to 30 minutes after it
+-- was taken. An expired hold cannot be revived; hold the seats again.
+CREATE OR REPLACE FUNCTION extend_seat_hold(
+    p_hold_id UUID,
+    p_user_id UUID,
+    p_ttl_seconds INT DEFAULT 600
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_expires_at TIMESTAMPTZ;
+BEGIN
+    UPDATE seat_holds
+    SET expires_at = GREATEST(
+        expires_at,
+        LEAST(
+            NOW() + make_interval(secs => LEAST(GREATEST(COALESCE(p_ttl_seconds, 600), 60), 1800)),
+            created_at + INTERVAL '30 minutes'
+        )
+    )
+    WHERE hold_group_id = p_hold_id
+      AND user_id = p_user_id
+      AND expires_at > NOW();
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Hold not found or expired');
+    END IF;
+
+    SELECT MIN(expires_at) INTO v_expires_at
+    FROM seat_holds WHERE hold_group_id = p_hold_id;
+
+    RETURN jsonb_build_object('success', true, 'hold_id', p_hold_id, 'expires_at', v_expires_at);
+END;
+$$;
+
+-- ── release_seat_hold ───────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION release_seat_hold(p_hold_id UUID, p_user_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_released INT;
+BEGIN
+    DELETE FROM seat_holds
+    WHERE hold_group_id = p_hold_id
+      AND user_id = p_user_id;
+    GET DIAGNOSTICS v_released = ROW_COUNT;
+
+    RETURN jsonb_build_object('success', true, 'released', v_released);
+END;
+$$;
+
+-- ── attach_seat_hold_payment ────────────────────────────────
+
+-- Link a live hold to the PaymentIntent created for it. The hold is kept
+-- for at least 15 more minutes so slow card authentication does not lose
+-- the seats mid-payment.
+CREATE OR REPLACE FUNCTION attach_seat_hold_payment(
+    p_hold_id UUID,
+    p_user_id UUID,
+    p_payment_intent_id TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE seat_holds
+    SET payment_intent_id = p_payment_intent_id,
+        expires_at = GREATEST(expires_at, NOW() + INTERVAL '15 minutes')
+    WHERE hold_group_id = p_hold_id
+      AND user_id = p_user_id
+      AND expires_at > NOW();
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Hold not found or expired');
+    END IF;
+
+    RETURN jsonb_build_object('success', true, 'hold_id', p_hold_id);
+END;
+$$;
+
+-- ── convert_seat_hold ───────────────────────────────────────
+
+-- Called when a PaymentIntent succeeds, before its tickets are created. A
+-- paid seat wins over any hold, even another buyer's, so the seats are
+-- re-held under the PaymentIntent until finish_seat_hold runs. Only a seat
+-- already sold to a different payment is a conflict; those are returned
+-- and the caller issues the ticket without a seat.
+CREATE OR REPLACE FUNCTION convert_seat_hold(
+    p_payment_intent_id TEXT,
+    p_event_id UUID,
+    p_user_id UUID,
+    p_seats JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_conflicts JSONB;
+BEGIN
+    IF p_seats IS NULL OR jsonb_typeof(p_seats) <> 'array' OR jsonb_array_length(p_seats) = 0 THEN
+        RETURN jsonb_build_object('success', true, 'conflicts', '[]'::JSONB);
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(hashtext('seat_holds:' || p_event_id::TEXT));
+
+    SELECT COALESCE(jsonb_agg(c), '[]'::JSONB) INTO v_conflicts
+    FROM jsonb_array_elements(seat_hold_conflicts(p_event_id, p_user_id, p_seats, p_payment_intent_id)) c
+    WHERE c->>'reason' = 'sold';
+
+    INSERT INTO seat_holds (event_id, venue_section_id, seat_id, user_id, expires_at, payment_intent_id)
+    SELECT DISTINCT p_event_id, s.section_id, s.seat_id, p_user_id, NOW() + INTERVAL '10 minutes', p_payment_intent_id
+    FROM jsonb_to_recordset(p_seats) AS s(section_id TEXT, seat_id TEXT)
+    WHERE NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements(v_conflicts) c
+        WHERE c->>'section_id' = s.section_id AND c->>'seat_id' = s.seat_id
+    )
+    ON CONFLICT (event_id, venue_section_id, seat_id) DO UPDATE
+    SET user_id = EXCLUDED.user_id,
+        expires_at = EXCLUDED.expires_at,
+        payment_intent_id = EXCLUDED.payment_intent_id;
+
+    RETURN jsonb_build_object('success', jsonb_array_length(v_conflicts) = 0, 'conflicts', v_conflicts);
+END;
+$$;
+
+-- Drop a PaymentIntent's holds once its tickets exist
+CREATE OR REPLACE FUNCTION finish_seat_hold(p_payment_intent_id TEXT)
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_count INT;
+BEGIN
+    DELETE FROM seat_holds WHERE payment_intent_id = p_payment_intent_id;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$;
+
+-- ── Sweeper ─────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION sweep_expired_seat_holds()
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_count INT;
+BEGIN
+    DELETE FROM seat_holds WHERE expires_at <= NOW();
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$;
+
+-- Same job name, so this replaces the raw DELETE scheduled with seat holds
+SELECT cron.schedule(
+    'expire-seat-holds',
+    '* * * * *',
+    $$SELECT sweep_expired_seat_holds()$$
+);
+
+-- ── Access ──────────────────────────────────────────────────
+
+-- Called from Edge Functions with the service role, which pass the
+-- authenticated user's id
+REVOKE EXECUTE ON FUNCTION seat_hold_conflicts(UUID, UUID, JSONB, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION hold_seats(UUID, UUID, JSONB, INT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION extend_seat_hold(UUID, UUID, INT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_seat_hold(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION attach_seat_hold_payment(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION convert_seat_hold(TEXT, UUID, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION finish_seat_hold(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION sweep_expired_seat_holds() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,210 @@
+-- ============================================================
+-- Widget checkout sessions: lifecycle, abandonment and recovery
+-- ============================================================
+-- Sessions were created as 'payment_started', marked 'completed' by the
+-- webhook and otherwise left alone: the expiry cron only looked at
+-- 'pending', so nothing ever expired and seat holds lived on until their
+-- own TTL.
+--
+-- State machine:
+--
+--   pending ──► paid                       payment_intent.succeeded
+--      │  └───► failed ──► paid            payment_intent.payment_failed
+--      │           │                       (a retry on the same PI can still pay)
+--      └───────────┴─► abandoned | expired sweep_widget_checkout_sessions
+--
+-- The sweeper closes sessions past expires_at: 'abandoned' when the buyer
+-- left an email we can follow up on, 'expired' otherwise. Closing releases
+-- the session's seat holds. A late payment on a closed session still moves
+-- it to 'paid', since the buyer has been charged.
+--
+-- The widget-checkout-sweeper Edge Function handles the side effects that
+-- need Stripe or email: cancelling the PaymentIntent of closed sessions and,
+-- for organizers who opted in, sending a "finish your order" email with a
+-- resume link back to the page the buyer checked out on.
+
+-- ── Sessions: status, buyer and recovery columns ────────────
+
+UPDATE widget_checkout_sessions SET status = 'pending' WHERE status = 'payment_started';
+UPDATE widget_checkout_sessions SET status = 'paid' WHERE status = 'completed';
+
+ALTER TABLE widget_checkout_sessions
+    ADD COLUMN IF NOT EXISTS buyer_email TEXT,
+    ADD COLUMN IF NOT EXISTS promo_code TEXT,
+    ADD COLUMN IF NOT EXISTS page_url TEXT,
+    ADD COLUMN IF NOT EXISTS failure_reason TEXT,
+    ADD COLUMN IF NOT EXISTS paid_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS closed_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS payment_intent_cancelled_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS resume_token_hash VARCHAR(64),
+    ADD COLUMN IF NOT EXISTS recovery_email_sent_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS resumed_from_session_id UUID REFERENCES widget_checkout_sessions(id);
+
+UPDATE widget_checkout_sessions
+SET buyer_email = metadata->>'buyer_email'
+WHERE buyer_email IS NULL AND metadata ? 'buyer_email';
+
+ALTER TABLE widget_checkout_sessions
+    ALTER COLUMN status SET DEFAULT 'pending',
+    ADD CONSTRAINT widget_checkout_sessions_status_check
+        CHECK (status IN ('pending', 'paid', 'failed', 'expired', 'abandoned'));
+
+CREATE INDEX IF NOT EXISTS idx_widget_sessions_open
+    ON widget_checkout_sessions(expires_at) WHERE status IN ('pending', 'failed');
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_widget_sessions_resume_token
+    ON widget_checkout_sessions(resume_token_hash) WHERE resume_token_hash IS NOT NULL;
+
+COMMENT ON COLUMN widget_checkout_sessions.page_url IS 'Page hosting the widget; resume links point back here';
+COMMENT ON COLUMN widget_checkout_sessions.failure_reason IS 'Last decline or error reported by Stripe';
+COMMENT ON COLUMN widget_checkout_sessions.closed_at IS 'When the sweeper moved the session to abandoned or expired';
+COMMENT ON COLUMN widget_checkout_sessions.payment_intent_cancelled_at IS 'When the sweeper cancelled the PaymentIntent of a closed session';
+COMMENT ON COLUMN widget_checkout_sessions.resume_token_hash IS 'SHA-256 of the token in the recovery email link';
+COMMENT ON COLUMN widget_checkout_sessions.resumed_from_session_id IS 'Abandoned session this checkout was resumed from';
+
+-- Organizers opt in to recovery emails
+ALTER TABLE widget_configs
+    ADD COLUMN IF NOT EXISTS abandonment_emails BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN widget_configs.abandonment_emails IS 'Email buyers who abandon checkout a link to finish their order';
+
+-- ── Transitions ─────────────────────────────────────────────
+
+-- Move the session paid by a PaymentIntent to paid or failed. Repeating a
+-- transition is a no-op, so webhook retries are safe.
+CREATE OR REPLACE FUNCTION transition_widget_checkout_session(
+    p_payment_intent_id TEXT,
+    p_status TEXT,
+    p_reason TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_session RECORD;
+BEGIN
+    IF p_status NOT IN ('paid', 'failed') THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Unsupported transition to ' || p_status);
+    END IF;
+
+    SELECT id, status INTO v_session
+    FROM widget_checkout_sessions
+    WHERE stripe_payment_intent_id = p_payment_intent_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Session not found');
+    END IF;
+
+    IF v_session.status = p_status THEN
+        RETURN jsonb_build_object('success', true, 'session_id', v_session.id, 'status', p_status, 'changed', false);
+    END IF;
+
+    -- Paid is final; failed only replaces an open session
+    IF v_session.status = 'paid' OR (p_status = 'failed' AND v_session.status <> 'pending') THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'Cannot move a ' || v_session.status || ' session to ' || p_status,
+            'session_id', v_session.id,
+            'status', v_session.status
+        );
+    END IF;
+
+    UPDATE widget_checkout_sessions
+    SET status = p_status,
+        failure_reason = CASE WHEN p_status = 'failed' THEN p_reason ELSE failure_reason END,
+        paid_at = CASE WHEN p_status = 'paid' THEN NOW() ELSE paid_at END,
+        updated_at = NOW()
+    WHERE id = v_session.id;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'session_id', v_session.id,
+        'from', v_session.status,
+        'status', p_status,
+        'changed', true
+    );
+END;
+$$;
+
+-- ── Sweeper ─────────────────────────────────────────────────
+
+-- Close sessions past expires_at and release their seat holds
+CREATE OR REPLACE FUNCTION sweep_widget_checkout_sessions()
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_closed INT;
+    v_released INT;
+BEGIN
+    WITH closed AS (
+        UPDATE widget_checkout_sessions
+        SET status = CASE WHEN buyer_email IS NOT NULL THEN 'abandoned' ELSE 'expired' END,
+            closed_at = NOW(),
+            updated_at = NOW()
+        WHERE status IN ('pending', 'failed')
+          AND expires_at < NOW()
+        RETURNING stripe_payment_intent_id
+    ), released AS (
+        DELETE FROM seat_holds
+        WHERE payment_intent_id IN (SELECT stripe_payment_intent_id FROM closed)
+        RETURNING 1
+    )
+    SELECT (SELECT COUNT(*) FROM closed), (SELECT COUNT(*) FROM released)
+    INTO v_closed, v_released;
+
+    IF v_closed > 0 THEN
+        RAISE NOTICE 'Closed % widget checkout sessions, released % seat holds', v_closed, v_released;
+    END IF;
+
+    RETURN v_closed;
+END;
+$$;
+
+-- Same job name, so this replaces the UPDATE scheduled with the widget
+SELECT cron.schedule(
+    'expire-widget-sessions',
+    '* * * * *',
+    $$SELECT sweep_widget_checkout_sessions()$$
+);
+
+-- ── Organizer funnel ────────────────────────────────────────
+
+-- Checkout outcomes across the caller's widget keys
+CREATE OR REPLACE FUNCTION get_widget_checkout_stats(p_days INT DEFAULT 30)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT jsonb_build_object(
+        'started', COUNT(*),
+        'paid', COUNT(*) FILTER (WHERE s.status = 'paid'),
+        'abandoned', COUNT(*) FILTER (WHERE s.status = 'abandoned'),
+        'expired', COUNT(*) FILTER (WHERE s.status = 'expired'),
+        'failed', COUNT(*) FILTER (WHERE s.status = 'failed'),
+        'recovery_emails_sent', COUNT(*) FILTER (WHERE s.recovery_email_sent_at IS NOT NULL),
+        'recovered', COUNT(*) FILTER (WHERE s.status = 'paid' AND s.resumed_from_session_id IS NOT NULL),
+        'abandoned_cents', COALESCE(SUM(s.amount_cents) FILTER (WHERE s.status = 'abandoned'), 0),
+        'recovered_cents', COALESCE(SUM(s.amount_cents) FILTER (
+            WHERE s.status = 'paid' AND s.resumed_from_session_id IS NOT NULL
+        ), 0)
+    )
+    FROM widget_checkout_sessions s
+    JOIN widget_api_keys k ON k.id = s.widget_key_id
+    WHERE k.organizer_id = auth.uid()
+      AND s.created_at > NOW() - make_interval(days => p_days);
+$$;
+
+-- ── Access ──────────────────────────────────────────────────
+
+REVOKE EXECUTE ON FUNCTION transition_widget_checkout_session(TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION sweep_widget_checkout_sessions() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_widget_checkout_stats(INT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_widget_checkout_stats(INT) TO authenticated;
@@ -0,0 +1,208 @@
+-- ============================================================
+-- Widget API keys: test mode, rotation, revocation and usage
+-- ============================================================
+-- Keys used to be minted by the app, which inserted the SHA-256 straight
+-- into widget_api_keys. The widget-api-keys Edge Function now owns the
+-- lifecycle: it generates the key server-side and returns the plaintext
+-- exactly once, so organizers only read the table directly.
+--
+-- Modes: 'live' keys (twk_live_…) take real payments; 'test' keys
+-- (twk_test_…) create their PaymentIntents with the Stripe test-mode
+-- secret so organizers can try an embed with test cards. Test checkouts
+-- are left out of the checkout funnel stats.
+--
+-- Rotation mints a successor with the same scopes and gives the old key an
+-- expires_at, so embeds can be switched over while both keys work.
+-- Revocation is immediate and final; keys are never deleted because
+-- checkout sessions reference them.
+--
+-- Usage: every widget request is counted per key and minute in
+-- widget_api_key_usage, together with origin rejections and rate-limit
+-- hits. The rate limit applies to checkout creation only, as before, but is
+-- now read from the counters instead of counting checkout sessions.
+
+-- ── Keys: mode, display hint, rotation and revocation ───────
+
+ALTER TABLE widget_api_keys
+    ADD COLUMN IF NOT EXISTS mode VARCHAR(4) NOT NULL DEFAULT 'live',
+    ADD COLUMN IF NOT EXISTS key_hint VARCHAR(4),
+    ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS rotated_from_key_id UUID REFERENCES widget_api_keys(id) ON DELETE SET NULL;
+
+UPDATE widget_api_keys SET mode = 'test' WHERE key_prefix = 'twk_test_';
+
+-- Keys set outside the new range are clamped into it
+UPDATE widget_api_keys
+SET rate_limit_per_minute = LEAST(GREATEST(rate_limit_per_minute, 1), 1000)
+WHERE rate_limit_per_minute NOT BETWEEN 1 AND 1000;
+
+ALTER TABLE widget_api_keys
+    DROP CONSTRAINT IF EXISTS widget_api_keys_mode_check,
+    DROP CONSTRAINT IF EXISTS widget_api_keys_rate_limit_check;
+
+ALTER TABLE widget_api_keys
+    ADD CONSTRAINT widget_api_keys_mode_check CHECK (mode IN ('live', 'test')),
+    ADD CONSTRAINT widget_api_keys_rate_limit_check CHECK (rate_limit_per_minute BETWEEN 1 AND 1000);
+
+DROP INDEX IF EXISTS idx_widget_api_keys_hash;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_widget_api_keys_hash ON widget_api_keys(key_hash);
+
+COMMENT ON COLUMN widget_api_keys.mode IS 'live: real payments; test: PaymentIntents in Stripe test mode';
+COMMENT ON COLUMN widget_api_keys.key_hint IS 'Last four characters of the key, for telling keys apart';
+COMMENT ON COLUMN widget_api_keys.expires_at IS 'Set on a rotated key; it stops authenticating after this';
+COMMENT ON COLUMN widget_api_keys.revoked_at IS 'Revoked keys never authenticate again';
+COMMENT ON COLUMN widget_api_keys.rotated_from_key_id IS 'Key this one replaced';
+
+-- Keys are minted, rotated and revoked by the widget-api-keys Edge Function
+DROP POLICY IF EXISTS "Organizers manage own widget keys" ON widget_api_keys;
+
+CREATE POLICY "Organizers view own widget keys"
+    ON widget_api_keys FOR SELECT
+    USING (organizer_id = auth.uid());
+
+-- ── Usage counters ──────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS widget_api_key_usage (
+    key_id UUID NOT NULL REFERENCES widget_api_keys(id) ON DELETE CASCADE,
+    minute TIMESTAMPTZ NOT NULL,
+    requests INTEGER NOT NULL DEFAULT 0,
+    checkouts INTEGER NOT NULL DEFAULT 0,
+    origin_rejections INTEGER NOT NULL DEFAULT 0,
+    rate_limited INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (key_id, minute)
+);
+
+-- Service role only: organizers read usage through widget-api-keys
+ALTER TABLE widget_api_key_usage ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE widget_api_key_usage IS 'Widget requests per key and minute';
+COMMENT ON COLUMN widget_api_key_usage.requests IS 'Every request made with the key, rejected or not';
+COMMENT ON COLUMN widget_api_key_usage.checkouts IS 'Checkouts started; rate_limit_per_minute applies to these';
+
+-- Count a request made with an authenticated key and decide its outcome:
+-- 'origin_rejected', 'rate_limited' or 'ok'. Only checkout requests are
+-- rate limited. The upsert locks the minute's row, so concurrent checkouts
+-- cannot both take the last slot.
+CREATE OR REPLACE FUNCTION record_widget_key_request(
+    p_key_id UUID,
+    p_origin_allowed BOOLEAN,
+    p_checkout BOOLEAN DEFAULT false
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_minute TIMESTAMPTZ := date_trunc('minute', NOW());
+    v_checkouts INT;
+    v_limit INT;
+BEGIN
+    INSERT INTO widget_api_key_usage AS u (key_id, minute, requests)
+    VALUES (p_key_id, v_minute, 1)
+    ON CONFLICT (key_id, minute) DO UPDATE SET requests = u.requests + 1
+    RETURNING u.checkouts INTO v_checkouts;
+
+    IF NOT p_origin_allowed THEN
+        UPDATE widget_api_key_usage
+        SET origin_rejections = origin_rejections + 1
+        WHERE key_id = p_key_id AND minute = v_minute;
+        RETURN 'origin_rejected';
+    END IF;
+
+    IF p_checkout THEN
+        SELECT rate_limit_per_minute INTO v_limit FROM widget_api_keys WHERE id = p_key_id;
+
+        IF v_checkouts >= v_limit THEN
+            UPDATE widget_api_key_usage
+            SET rate_limited = rate_limited + 1
+            WHERE key_id = p_key_id AND minute = v_minute;
+            RETURN 'rate_limited';
+        END IF;
+
+        UPDATE widget_api_key_usage
+        SET checkouts = checkouts + 1
+        WHERE key_id = p_key_id AND minute = v_minute;
+    END IF;
+
+    UPDATE widget_api_keys SET last_used_at = NOW() WHERE id = p_key_id;
+    RETURN 'ok';
+END;
+$$;
+
+-- Daily totals for an organizer's keys, newest day first
+CREATE OR REPLACE FUNCTION get_widget_key_usage(
+    p_organizer_id UUID,
+    p_days INT DEFAULT 7,
+    p_key_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    key_id UUID,
+    day DATE,
+    requests BIGINT,
+    checkouts BIGINT,
+    origin_rejections BIGINT,
+    rate_limited BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT u.key_id,
+           (u.minute AT TIME ZONE 'UTC')::DATE AS day,
+           SUM(u.requests),
+           SUM(u.checkouts),
+           SUM(u.origin_rejections),
+           SUM(u.rate_limited)
+    FROM widget_api_key_usage u
+    JOIN widget_api_keys k ON k.id = u.key_id
+    WHERE k.organizer_id = p_organizer_id
+      AND (p_key_id IS NULL OR u.key_id = p_key_id)
+      AND u.minute >= date_trunc('day', NOW() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'
+                      - make_interval(days => p_days - 1)
+    GROUP BY u.key_id, day
+    ORDER BY day DESC, u.key_id;
+$$;
+
+-- Minute rows are only needed for the 30 days the usage endpoint reports on
+SELECT cron.schedule(
+    'prune-widget-key-usage',
+    '17 3 * * *',
+    $$DELETE FROM widget_api_key_usage WHERE minute < NOW() - INTERVAL '31 days'$$
+);
+
+-- ── Organizer funnel: live keys only ────────────────────────
+
+CREATE OR REPLACE FUNCTION get_widget_checkout_stats(p_days INT DEFAULT 30)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT jsonb_build_object(
+        'started', COUNT(*),
+        'paid', COUNT(*) FILTER (WHERE s.status = 'paid'),
+        'abandoned', COUNT(*) FILTER (WHERE s.status = 'abandoned'),
+        'expired', COUNT(*) FILTER (WHERE s.status = 'expired'),
+        'failed', COUNT(*) FILTER (WHERE s.status = 'failed'),
+        'recovery_emails_sent', COUNT(*) FILTER (WHERE s.recovery_email_sent_at IS NOT NULL),
+        'recovered', COUNT(*) FILTER (WHERE s.status = 'paid' AND s.resumed_from_session_id IS NOT NULL),
+        'abandoned_cents', COALESCE(SUM(s.amount_cents) FILTER (WHERE s.status = 'abandoned'), 0),
+        'recovered_cents', COALESCE(SUM(s.amount_cents) FILTER (
+            WHERE s.status = 'paid' AND s.resumed_from_session_id IS NOT NULL
+        ), 0)
+    )
+    FROM widget_checkout_sessions s
+    JOIN widget_api_keys k ON k.id = s.widget_key_id
+    WHERE k.organizer_id = auth.uid()
+      AND k.mode = 'live'
+      AND s.created_at > NOW() - make_interval(days => p_days);
+$$;
+
+-- ── Access ──────────────────────────────────────────────────
+
+REVOKE EXECUTE ON FUNCTION record_widget_key_request(UUID, BOOLEAN, BOOLEAN) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_widget_key_usage(UUID, INT, UUID) FROM PUBLIC, anon, authenticated;
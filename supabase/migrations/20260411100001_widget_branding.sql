@@ -0,0 +1,37 @@
+-- ============================================================
+-- Widget branding: validated widget_configs, rendered server-side
+-- ============================================================
+-- widget-checkout-page now renders the organizer's saved branding into the
+-- checkout it serves: colors, font, logo, button style, the powered-by
+-- footer and custom CSS. Fields left empty in widget_configs fall back to
+-- organizer_branding (see _shared/widget-branding.ts).
+--
+-- The edge function validates every value again before it reaches the
+-- page and sanitizes custom CSS (scoped to the checkout, no url() or
+-- @import), so these constraints only keep obviously bad input out of the
+-- table. They are NOT VALID so existing rows keep saving until edited.
+--
+-- show_powered_by = false is only honored for active Pro and Enterprise
+-- subscriptions; the column keeps whatever the organizer chose.
+
+-- ── Fall back to organizer_branding ─────────────────────────
+
+-- A default color would always win over organizer_branding.primary_color
+ALTER TABLE widget_configs ALTER COLUMN primary_color DROP DEFAULT;
+
+-- ── Constraints ─────────────────────────────────────────────
+
+ALTER TABLE widget_configs
+    ADD CONSTRAINT widget_configs_primary_color_check
+        CHECK (primary_color IS NULL OR primary_color ~ '^#[0-9A-Fa-f]{6}$') NOT VALID,
+    ADD CONSTRAINT widget_configs_accent_color_check
+        CHECK (accent_color IS NULL OR accent_color ~ '^#[0-9A-Fa-f]{6}$') NOT VALID,
+    ADD CONSTRAINT widget_configs_button_style_check
+        CHECK (button_style IN ('rounded', 'square', 'pill')) NOT VALID,
+    ADD CONSTRAINT widget_configs_custom_css_length
+        CHECK (custom_css IS NULL OR length(custom_css) <= 10000) NOT VALID;
+
+COMMENT ON COLUMN widget_configs.custom_css IS
+    'Organizer CSS for the hosted checkout. Sanitized and scoped to #checkout when served; url(), @import and other at-rules except @media are dropped.';
+COMMENT ON COLUMN widget_configs.show_powered_by IS
+    'Hiding the powered-by footer is only honored on active Pro/Enterprise subscriptions.';
@@ -0,0 +1,204 @@
+-- ============================================================
+-- Widget guest buyers: placeholder accounts and claiming
+-- ============================================================
+-- Widget checkout needs a user id for tickets (sold_by), payments and seat
+-- holds. Buyers without a Tickety account used to get a confirmed auth user
+-- under their own email, which then blocked them from signing up. New
+-- guests instead get a placeholder account (app_metadata.widget_guest,
+-- synthetic email, no way to sign in), recorded on widget_guest_buyers.
+--
+-- Claiming: when an account with a verified email matching a guest buyer
+-- appears (sign-up with a confirmed email, email verification or a
+-- verified email change), everything owned by the placeholder moves to it:
+-- tickets, payments, widget checkout sessions and seat holds. Wallet passes
+-- belong to tickets and follow them. Each claim is recorded in
+-- widget_guest_claims.
+--
+-- The purchase email (widget-purchase-email) carries a sign-in link for
+-- the buyer's email, so following it verifies the address and claims the
+-- tickets straight away.
+--
+-- Guests from before this change already own an account under their email
+-- and just sign in.
+
+-- ── Guest buyers ────────────────────────────────────────────
+
+ALTER TABLE widget_guest_buyers
+    ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS claimed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN widget_guest_buyers.user_id IS
+    'Placeholder account that owns this guest''s purchases until they are claimed.';
+COMMENT ON COLUMN widget_guest_buyers.claimed_by IS
+    'Account the purchases were moved to; later widget purchases go to it directly.';
+
+ALTER TABLE widget_checkout_sessions
+    ADD COLUMN IF NOT EXISTS purchase_email_sent_at TIMESTAMPTZ;
+
+-- ── Claim audit ─────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS widget_guest_claims (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    guest_buyer_id UUID NOT NULL REFERENCES widget_guest_buyers(id) ON DELETE CASCADE,
+    guest_user_id UUID NOT NULL,  -- no FK: the record outlives the placeholder
+    claimed_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    email VARCHAR(255) NOT NULL,
+    source VARCHAR(20) NOT NULL
+        CHECK (source IN ('signup', 'email_verified', 'email_changed', 'manual')),
+    tickets_moved INT NOT NULL DEFAULT 0,
+    payments_moved INT NOT NULL DEFAULT 0,
+    sessions_moved INT NOT NULL DEFAULT 0,
+    wallet_passes_moved INT NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_widget_guest_claims_claimed_by ON widget_guest_claims(claimed_by);
+
+ALTER TABLE widget_guest_claims ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users view own guest claims"
+    ON widget_guest_claims FOR SELECT
+    USING (claimed_by = auth.uid());
+
+-- ── Claim ───────────────────────────────────────────────────
+
+-- Move every unclaimed guest purchase made with p_user_id's verified email
+-- to p_user_id. Placeholder accounts never claim.
+CREATE OR REPLACE FUNCTION claim_widget_guest_purchases(p_user_id UUID, p_source TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_email TEXT;
+    v_confirmed_at TIMESTAMPTZ;
+    v_app_meta JSONB;
+    v_guest RECORD;
+    v_ticket_ids UUID[];
+    v_payments INT;
+    v_sessions INT;
+    v_passes INT;
+    v_claimed INT := 0;
+    v_tickets_total INT := 0;
+BEGIN
+    SELECT email, email_confirmed_at, raw_app_meta_data
+    INTO v_email, v_confirmed_at, v_app_meta
+    FROM auth.users
+    WHERE id = p_user_id;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('success', false, 'error', 'User not found');
+    END IF;
+    IF v_email IS NULL OR v_confirmed_at IS NULL THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Email not verified');
+    END IF;
+    IF COALESCE((v_app_meta->>'widget_guest')::BOOLEAN, false) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Guest accounts cannot claim purchases');
+    END IF;
+
+    FOR v_guest IN
+        SELECT id, user_id
+        FROM widget_guest_buyers
+        WHERE email = lower(v_email)
+          AND claimed_at IS NULL
+          AND user_id IS NOT NULL
+          AND user_id <> p_user_id
+        FOR UPDATE
+    LOOP
+        WITH moved AS (
+            UPDATE tickets SET sold_by = p_user_id
+            WHERE sold_by = v_guest.user_id
+            RETURNING id
+        )
+        SELECT COALESCE(array_agg(id), '{}') INTO v_ticket_ids FROM moved;
+
+        UPDATE payments SET user_id = p_user_id WHERE user_id = v_guest.user_id;
+        GET DIAGNOSTICS v_payments = ROW_COUNT;
+
+        UPDATE widget_checkout_sessions SET user_id = p_user_id WHERE user_id = v_guest.user_id;
+        GET DIAGNOSTICS v_sessions = ROW_COUNT;
+
+        UPDATE seat_holds SET user_id = p_user_id WHERE user_id = v_guest.user_id;
+
+        UPDATE wallet_passes SET updated_at = now() WHERE ticket_id = ANY(v_ticket_ids);
+        GET DIAGNOSTICS v_passes = ROW_COUNT;
+
+        UPDATE widget_guest_buyers
+        SET claimed_by = p_user_id, claimed_at = now()
+        WHERE id = v_guest.id;
+
+        INSERT INTO widget_guest_claims (
+            guest_buyer_id, guest_user_id, claimed_by, email, source,
+            tickets_moved, payments_moved, sessions_moved, wallet_passes_moved
+        ) VALUES (
+            v_guest.id, v_guest.user_id, p_user_id, lower(v_email), p_source,
+            cardinality(v_ticket_ids), v_payments, v_sessions, v_passes
+        );
+
+        v_claimed := v_claimed + 1;
+        v_tickets_total := v_tickets_total + cardinality(v_ticket_ids);
+    END LOOP;
+
+    RETURN jsonb_build_object('success', true, 'claimed', v_claimed, 'tickets_moved', v_tickets_total);
+END;
+$$;
+
+-- For the app, in case a claim was missed when the email was verified
+CREATE OR REPLACE FUNCTION claim_my_widget_purchases()
+RETURNS JSONB
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT claim_widget_guest_purchases(auth.uid(), 'manual');
+$$;
+
+-- ── Claim on sign-up and verification ───────────────────────
+
+CREATE OR REPLACE FUNCTION claim_widget_guest_purchases_on_verify()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_source TEXT;
+BEGIN
+    IF NEW.email IS NULL OR NEW.email_confirmed_at IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        v_source := 'signup';
+    ELSIF OLD.email_confirmed_at IS NULL THEN
+        v_source := 'email_verified';
+    ELSIF OLD.email IS DISTINCT FROM NEW.email THEN
+        v_source := 'email_changed';
+    ELSE
+        RETURN NEW;
+    END IF;
+
+    -- A failed claim must never block sign-in; claim_my_widget_purchases retries
+    BEGIN
+        PERFORM claim_widget_guest_purchases(NEW.id, v_source);
+    EXCEPTION WHEN OTHERS THEN
+        RAISE WARNING 'claim_widget_guest_purchases failed for %: %', NEW.id, SQLERRM;
+    END;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_user_verified_claim_widget_purchases ON auth.users;
+CREATE TRIGGER on_user_verified_claim_widget_purchases
+    AFTER INSERT OR UPDATE OF email, email_confirmed_at ON auth.users
+    FOR EACH ROW
+    EXECUTE FUNCTION claim_widget_guest_purchases_on_verify();
+
+-- ── Access ──────────────────────────────────────────────────
+
+REVOKE ALL ON FUNCTION claim_widget_guest_purchases(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION claim_my_widget_purchases() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION claim_my_widget_purchases() TO authenticated;
@@ -0,0 +1,369 @@
+-- ============================================================
+-- Promo engine: series codes, order rules, stacking, bulk codes
+-- ============================================================
+-- Promo codes grow from "one discount per event" into rules the edge
+-- functions evaluate per order (see _shared/promo.ts):
+--
+--   * series_id       a code valid on every occurrence of an event series
+--                     (exactly one of event_id / series_id is set)
+--   * buy_x_get_y     buy buy_quantity, get get_quantity of the cheapest
+--                     qualifying tickets discount_value percent off
+--   * max_uses_per_user (NULL = unlimited; 1 keeps the old behavior)
+--   * min_quantity / min_order_cents
+--   * stackable       may be combined with other stackable codes
+--   * batch_id        bulk-generated single-use codes for partners
+--
+-- Uses are reserved when the PaymentIntent is created and redeemed by the
+-- webhook when it is paid. A reservation counts against the limits for an
+-- hour, long enough for checkout, and then lapses, so abandoned checkouts
+-- don't burn single-use codes. current_uses counts redeemed uses only.
+-- A returned ACH debit releases its uses again.
+--
+-- validate_promo_code / redeem_promo_code are replaced by
+-- lookup_promo_codes, reserve_promo_code_uses, redeem_promo_code_uses and
+-- release_promo_code_uses.
+-- Buyers no longer read promo_codes directly: validation goes through the
+-- edge functions, and partner codes must not be listable.
+
+-- ── Bulk batches ────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS promo_code_batches (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organizer_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    event_id UUID REFERENCES events(id) ON DELETE CASCADE,
+    series_id UUID REFERENCES event_series(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,  -- e.g. the partner the codes were made for
+    prefix VARCHAR(12),
+    quantity INT NOT NULL CHECK (quantity > 0),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    CHECK (num_nonnulls(event_id, series_id) = 1)
+);
+
+CREATE INDEX IF NOT EXISTS idx_promo_code_batches_organizer ON promo_code_batches(organizer_id);
+
+ALTER TABLE promo_code_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Organizers view own promo code batches"
+    ON promo_code_batches FOR SELECT
+    USING (organizer_id = auth.uid());
+
+-- ── Promo codes ─────────────────────────────────────────────
+
+ALTER TABLE promo_codes
+    ALTER COLUMN event_id DROP NOT NULL,
+    ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES event_series(id) ON DELETE CASCADE,
+    ADD COLUMN IF NOT EXISTS buy_quantity INT,
+    ADD COLUMN IF NOT EXISTS get_quantity INT,
+    ADD COLUMN IF NOT EXISTS max_uses_per_user INT DEFAULT 1,
+    ADD COLUMN IF NOT EXISTS min_quantity INT,
+    ADD COLUMN IF NOT EXISTS min_order_cents INT,
+    ADD COLUMN IF NOT EXISTS stackable BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN IF NOT EXISTS batch_id UUID REFERENCES promo_code_batches(id) ON DELETE CASCADE;
+
+ALTER TABLE promo_codes DROP CONSTRAINT IF EXISTS promo_codes_discount_type_check;
+
+ALTER TABLE promo_codes
+    ADD CONSTRAINT promo_codes_discount_type_check
+        CHECK (discount_type IN ('percentage', 'fixed', 'buy_x_get_y')),
+    ADD CONSTRAINT promo_codes_scope_check
+        CHECK (num_nonnulls(event_id, series_id) = 1),
+    ADD CONSTRAINT promo_codes_percentage_check
+        CHECK (discount_type <> 'percentage' OR discount_value <= 100) NOT VALID,
+    ADD CONSTRAINT promo_codes_buy_x_get_y_check
+        CHECK (discount_type <> 'buy_x_get_y'
+               OR (buy_quantity >= 1 AND get_quantity >= 1 AND discount_value <= 100)),
+    ADD CONSTRAINT promo_codes_limits_check
+        CHECK ((max_uses_per_user IS NULL OR max_uses_per_user > 0)
+               AND (min_quantity IS NULL OR min_quantity > 0)
+               AND (min_order_cents IS NULL OR min_order_cents > 0));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_promo_codes_series_upper_code
+    ON promo_codes (series_id, UPPER(code)) WHERE series_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_promo_codes_batch ON promo_codes(batch_id) WHERE batch_id IS NOT NULL;
+
+COMMENT ON COLUMN promo_codes.discount_value IS
+    'Percent for percentage and buy_x_get_y (percent off the free tickets; 100 = free), cents for fixed.';
+COMMENT ON COLUMN promo_codes.current_uses IS
+    'Redeemed (paid) uses. Live reservations in promo_code_uses also count against max_uses.';
+
+-- ── Uses ────────────────────────────────────────────────────
+
+-- Per-user limits replace the one-use-per-user constraint
+ALTER TABLE promo_code_uses DROP CONSTRAINT IF EXISTS promo_code_uses_promo_code_id_user_id_key;
+
+-- Existing rows were counted in current_uses when they were created
+ALTER TABLE promo_code_uses
+    ADD COLUMN IF NOT EXISTS status VARCHAR(10) NOT NULL DEFAULT 'redeemed'
+        CHECK (status IN ('reserved', 'redeemed')),
+    ADD COLUMN IF NOT EXISTS event_id UUID REFERENCES events(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS stripe_payment_intent_id VARCHAR(255),
+    ADD COLUMN IF NOT EXISTS quantity INT,
+    ADD COLUMN IF NOT EXISTS order_cents INT,
+    ADD COLUMN IF NOT EXISTS reserved_until TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS redeemed_at TIMESTAMPTZ;
+
+ALTER TABLE promo_code_uses ALTER COLUMN status SET DEFAULT 'reserved';
+
+UPDATE promo_code_uses u
+SET event_id = pc.event_id, redeemed_at = u.created_at
+FROM promo_codes pc
+WHERE pc.id = u.promo_code_id AND u.event_id IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_promo_code_uses_intent
+    ON promo_code_uses (stripe_payment_intent_id, promo_code_id) WHERE stripe_payment_intent_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_promo_code_uses_code_user ON promo_code_uses(promo_code_id, user_id);
+CREATE INDEX IF NOT EXISTS idx_promo_code_uses_event ON promo_code_uses(event_id);
+
+COMMENT ON COLUMN promo_code_uses.order_cents IS
+    'Undiscounted ticket total of the order the code was used on.';
+
+-- ── RLS ─────────────────────────────────────────────────────
+
+DROP POLICY IF EXISTS "Authenticated users can read active promo codes" ON promo_codes;
+
+CREATE POLICY "Organizers can manage their series promo codes"
+    ON promo_codes FOR ALL
+    USING (
+        EXISTS (
+            SELECT 1 FROM event_series
+            WHERE event_series.id = promo_codes.series_id
+              AND event_series.organizer_id = auth.uid()
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM event_series
+            WHERE event_series.id = promo_codes.series_id
+              AND event_series.organizer_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Organizers can see usage of their series codes"
+    ON promo_code_uses FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM promo_codes
+            JOIN event_series ON event_series.id = promo_codes.series_id
+            WHERE promo_codes.id = promo_code_uses.promo_code_id
+              AND event_series.organizer_id = auth.uid()
+        )
+    );
+
+-- ── Lookup ──────────────────────────────────────────────────
+
+DROP FUNCTION IF EXISTS validate_promo_code(UUID, TEXT, UUID, INT, UUID);
+DROP FUNCTION IF EXISTS redeem_promo_code(UUID, UUID, UUID, INT);
+
+-- The entered codes that exist for an event (its own or its series'),
+-- with uses = redeemed + live reservations and user_uses the same for
+-- p_user_id. An event's own code wins over a series code with the same text.
+CREATE OR REPLACE FUNCTION lookup_promo_codes(p_event_id UUID, p_codes TEXT[], p_user_id UUID DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE(jsonb_agg(
+        to_jsonb(c) || jsonb_build_object(
+            'uses', c.current_uses + counts.reserved,
+            'user_uses', counts.mine
+        )
+    ), '[]'::jsonb)
+    FROM (
+        SELECT DISTINCT ON (UPPER(pc.code)) pc.*
+        FROM promo_codes pc
+        JOIN events e ON e.id = p_event_id
+        WHERE UPPER(pc.code) IN (SELECT UPPER(TRIM(x)) FROM unnest(p_codes) AS x)
+          AND (pc.event_id = e.id OR (pc.series_id IS NOT NULL AND pc.series_id = e.series_id))
+        ORDER BY UPPER(pc.code), pc.event_id NULLS LAST
+    ) c
+    CROSS JOIN LATERAL (
+        SELECT
+            count(*) FILTER (WHERE u.status = 'reserved') AS reserved,
+            count(*) FILTER (WHERE u.user_id = p_user_id) AS mine
+        FROM promo_code_uses u
+        WHERE u.promo_code_id = c.id
+          AND (u.status = 'redeemed' OR u.reserved_until > now())
+    ) counts;
+$$;
+
+-- ── Reserve and redeem ──────────────────────────────────────
+
+-- Reserve one use of each code in p_uses ([{promo_code_id, discount_cents}])
+-- for a PaymentIntent. The limits are re-checked under row locks; nothing
+-- is reserved unless every code still has room. Idempotent per intent.
+CREATE OR REPLACE FUNCTION reserve_promo_code_uses(
+    p_payment_intent_id TEXT,
+    p_event_id UUID,
+    p_user_id UUID,
+    p_quantity INT,
+    p_order_cents INT,
+    p_uses JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_use RECORD;
+    v_promo promo_codes%ROWTYPE;
+    v_reserved INT;
+    v_mine INT;
+BEGIN
+    IF EXISTS (SELECT 1 FROM promo_code_uses WHERE stripe_payment_intent_id = p_payment_intent_id) THEN
+        RETURN jsonb_build_object('success', true, 'already_reserved', true);
+    END IF;
+
+    FOR v_use IN
+        SELECT x.promo_code_id
+        FROM jsonb_to_recordset(p_uses) AS x(promo_code_id UUID, discount_cents INT)
+        ORDER BY x.promo_code_id  -- stable lock order
+    LOOP
+        SELECT * INTO v_promo FROM promo_codes WHERE id = v_use.promo_code_id FOR UPDATE;
+
+        IF NOT FOUND OR NOT v_promo.is_active THEN
+            RETURN jsonb_build_object('success', false, 'error', 'This code is no longer active');
+        END IF;
+
+        SELECT
+            count(*) FILTER (WHERE status = 'reserved'),
+            count(*) FILTER (WHERE user_id = p_user_id)
+        INTO v_reserved, v_mine
+        FROM promo_code_uses
+        WHERE promo_code_id = v_promo.id
+          AND (status = 'redeemed' OR reserved_until > now());
+
+        IF v_promo.max_uses IS NOT NULL AND v_promo.current_uses + v_reserved >= v_promo.max_uses THEN
+            RETURN jsonb_build_object('success', false, 'error', 'This code has reached its usage limit');
+        END IF;
+        IF v_promo.max_uses_per_user IS NOT NULL AND v_mine >= v_promo.max_uses_per_user THEN
+            RETURN jsonb_build_object('success', false, 'error', 'You have already used this code');
+        END IF;
+    END LOOP;
+
+    INSERT INTO promo_code_uses (
+        promo_code_id, user_id, event_id, stripe_payment_intent_id,
+        quantity, order_cents, discount_cents, status, reserved_until
+    )
+    SELECT
+        x.promo_code_id, p_user_id, p_event_id, p_payment_intent_id,
+        p_quantity, p_order_cents, x.discount_cents, 'reserved', now() + INTERVAL '1 hour'
+    FROM jsonb_to_recordset(p_uses) AS x(promo_code_id UUID, discount_cents INT);
+
+    RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- Redeem the uses reserved for a paid PaymentIntent, even if the
+-- reservation lapsed: the buyer paid the discounted price. Idempotent.
+CREATE OR REPLACE FUNCTION redeem_promo_code_uses(p_payment_intent_id TEXT)
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_count INT;
+BEGIN
+    WITH redeemed AS (
+        UPDATE promo_code_uses
+        SET status = 'redeemed',
+            redeemed_at = now(),
+            payment_id = COALESCE(payment_id, (
+                SELECT id FROM payments WHERE stripe_payment_intent_id = p_payment_intent_id LIMIT 1
+            ))
+        WHERE stripe_payment_intent_id = p_payment_intent_id
+          AND status = 'reserved'
+        RETURNING promo_code_id
+    ), per_code AS (
+        SELECT promo_code_id, count(*) AS n FROM redeemed GROUP BY promo_code_id
+    )
+    UPDATE promo_codes pc
+    SET current_uses = pc.current_uses + per_code.n
+    FROM per_code
+    WHERE pc.id = per_code.promo_code_id;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$;
+
+-- Give back the uses of a payment whose tickets were revoked (a returned
+-- ACH debit). Redeemed uses come off current_uses again.
+CREATE OR REPLACE FUNCTION release_promo_code_uses(p_payment_intent_id TEXT)
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_count INT;
+BEGIN
+    WITH released AS (
+        DELETE FROM promo_code_uses
+        WHERE stripe_payment_intent_id = p_payment_intent_id
+        RETURNING promo_code_id, status
+    ), per_code AS (
+        SELECT promo_code_id, count(*) AS n FROM released
+        WHERE status = 'redeemed'
+        GROUP BY promo_code_id
+    )
+    UPDATE promo_codes pc
+    SET current_uses = GREATEST(pc.current_uses - per_code.n, 0)
+    FROM per_code
+    WHERE pc.id = per_code.promo_code_id;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$;
+
+-- ── Reporting ───────────────────────────────────────────────
+
+-- Redemptions per code for one event, series codes included (their uses on
+-- this event only). Pending = live reservations not yet paid.
+CREATE OR REPLACE FUNCTION promo_code_report(p_event_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE(jsonb_agg(r ORDER BY r.redemptions DESC, r.code), '[]'::jsonb)
+    FROM (
+        SELECT
+            pc.id AS promo_code_id,
+            pc.code,
+            pc.discount_type,
+            pc.discount_value,
+            pc.max_uses,
+            pc.is_active,
+            pc.series_id IS NOT NULL AS series_wide,
+            pc.batch_id,
+            b.name AS batch_name,
+            count(u.id) FILTER (WHERE u.status = 'redeemed') AS redemptions,
+            count(DISTINCT u.user_id) FILTER (WHERE u.status = 'redeemed') AS buyers,
+            COALESCE(sum(u.quantity) FILTER (WHERE u.status = 'redeemed'), 0) AS tickets,
+            COALESCE(sum(u.discount_cents) FILTER (WHERE u.status = 'redeemed'), 0) AS discount_cents,
+            COALESCE(sum(u.order_cents - u.discount_cents) FILTER (WHERE u.status = 'redeemed'), 0) AS net_order_cents,
+            count(u.id) FILTER (WHERE u.status = 'redeemed' AND p.status = 'refunded') AS refunded,
+            count(u.id) FILTER (WHERE u.status = 'reserved' AND u.reserved_until > now()) AS pending
+        FROM promo_codes pc
+        JOIN events e ON e.id = p_event_id
+        LEFT JOIN promo_code_batches b ON b.id = pc.batch_id
+        LEFT JOIN promo_code_uses u ON u.promo_code_id = pc.id AND u.event_id = p_event_id
+        LEFT JOIN payments p ON p.id = u.payment_id
+        WHERE pc.event_id = e.id OR (pc.series_id IS NOT NULL AND pc.series_id = e.series_id)
+        GROUP BY pc.id, b.name
+    ) r;
+$$;
+
+-- ── Access ──────────────────────────────────────────────────
+
+REVOKE ALL ON FUNCTION lookup_promo_codes(UUID, TEXT[], UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION reserve_promo_code_uses(TEXT, UUID, UUID, INT, INT, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION redeem_promo_code_uses(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION release_promo_code_uses(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION promo_code_report(UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,586 @@
+-- ============================================================
+-- Ticket type sales rules: windows, order limits, hidden types, tiers
+-- ============================================================
+-- Each ticket type gets its own sales rules, checked by the payment
+-- functions (see _shared/ticket-types.ts):
+--
+--   * sales_start_at / sales_end_at   on-sale window (NULL = open)
+--   * min_per_order / max_per_order   tickets of the type per order
+--   * is_hidden       not listed to buyers; unlocked with the type's
+--                     access_password or a promo code limited to the type
+--   * ticket_type_price_tiers         automatic price steps ("early bird
+--                     until 100 sold or 1 May, then regular"). A tier
+--                     applies until ends_after_sold tickets of the type are
+--                     sold or ends_at passes; after the last tier the
+--                     type's price_cents applies.
+--
+-- Until now a hidden type was just one with an access_password, and every
+-- buyer could read the password off the row. Hidden types are now left out
+-- of the public policy; the app unlocks them with unlock_ticket_types,
+-- which never returns a password.
+--
+-- Primary purchases now set tickets.ticket_type_id, so sold_count (and with
+-- it inventory and count-based tiers) follows every sale. purchase_from_wallet
+-- takes priced ticket lines and checks inventory under the type row lock.
+
+-- ── Ticket types ────────────────────────────────────────────
+
+ALTER TABLE event_ticket_types
+    ADD COLUMN IF NOT EXISTS sales_start_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS sales_end_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS min_per_order INT NOT NULL DEFAULT 1,
+    ADD COLUMN IF NOT EXISTS max_per_order INT,
+    ADD COLUMN IF NOT EXISTS is_hidden BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE event_ticket_types
+    ADD CONSTRAINT ticket_type_sales_window CHECK (
+        sales_start_at IS NULL OR sales_end_at IS NULL OR sales_start_at < sales_end_at
+    ),
+    ADD CONSTRAINT ticket_type_order_limits CHECK (
+        min_per_order >= 1 AND (max_per_order IS NULL OR max_per_order >= min_per_order)
+    );
+
+-- Types with a code were the hidden ones
+UPDATE event_ticket_types
+SET is_hidden = true
+WHERE access_password IS NOT NULL AND access_password <> '';
+
+-- ...and still are, whichever app version wrote the row
+CREATE OR REPLACE FUNCTION hide_ticket_types_with_code()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.access_password IS NOT NULL AND NEW.access_password <> '' THEN
+        NEW.is_hidden := true;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_hide_ticket_types_with_code ON event_ticket_types;
+CREATE TRIGGER trigger_hide_ticket_types_with_code
+    BEFORE INSERT OR UPDATE OF access_password, is_hidden ON event_ticket_types
+    FOR EACH ROW
+    EXECUTE FUNCTION hide_ticket_types_with_code();
+
+DROP POLICY IF EXISTS "Anyone can view active ticket types" ON event_ticket_types;
+CREATE POLICY "Anyone can view active ticket types"
+    ON event_ticket_types
+    FOR SELECT
+    USING (is_active = true AND is_hidden = false);
+
+-- ── Price tiers ─────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS ticket_type_price_tiers (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    ticket_type_id UUID NOT NULL REFERENCES event_ticket_types(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    price_cents INT NOT NULL CHECK (price_cents >= 0),
+    sort_order INT NOT NULL DEFAULT 0,
+    ends_after_sold INT CHECK (ends_after_sold IS NULL OR ends_after_sold > 0),
+    ends_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    -- The last step is the type's own price, so every tier has to end
+    CHECK (num_nonnulls(ends_after_sold, ends_at) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_tiers_ticket_type ON ticket_type_price_tiers(ticket_type_id, sort_order);
+
+ALTER TABLE ticket_type_price_tiers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view tiers of listed ticket types"
+    ON ticket_type_price_tiers FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM event_ticket_types t
+            WHERE t.id = ticket_type_price_tiers.ticket_type_id
+            AND t.is_active = true
+            AND t.is_hidden = false
+        )
+    );
+
+CREATE POLICY "Organizers can manage tiers of their ticket types"
+    ON ticket_type_price_tiers FOR ALL
+    USING (
+        EXISTS (
+            SELECT 1 FROM event_ticket_types t
+            JOIN events e ON e.id = t.event_id
+            WHERE t.id = ticket_type_price_tiers.ticket_type_id
+            AND e.organizer_id = auth.uid()
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM event_ticket_types t
+            JOIN events e ON e.id = t.event_id
+            WHERE t.id = ticket_type_price_tiers.ticket_type_id
+            AND e.organizer_id = auth.uid()
+        )
+    );
+
+-- ── Hidden types ────────────────────────────────────────────
+
+-- Whether the buy sheet should offer a code field
+CREATE OR REPLACE FUNCTION event_has_hidden_ticket_types(p_event_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM event_ticket_types
+        WHERE event_id = p_event_id AND is_active = true AND is_hidden = true
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The hidden types a code unlocks: the type's own access code (any case),
+-- or an active promo code of the event (or its series) limited to the type.
+-- Returned like the table rows plus price_tiers, without access_password.
+CREATE OR REPLACE FUNCTION unlock_ticket_types(p_event_id UUID, p_code TEXT)
+RETURNS JSONB AS $$
+DECLARE
+    v_code TEXT := upper(btrim(COALESCE(p_code, '')));
+    v_series_id UUID;
+BEGIN
+    IF v_code = '' THEN
+        RETURN '[]'::JSONB;
+    END IF;
+
+    SELECT series_id INTO v_series_id FROM events WHERE id = p_event_id;
+
+    RETURN COALESCE((
+        SELECT jsonb_agg(
+            (to_jsonb(t) - 'access_password') || jsonb_build_object(
+                'price_tiers', COALESCE((
+                    SELECT jsonb_agg(to_jsonb(pt) ORDER BY pt.sort_order)
+                    FROM ticket_type_price_tiers pt
+                    WHERE pt.ticket_type_id = t.id
+                ), '[]'::JSONB)
+            )
+            ORDER BY t.sort_order, t.price_cents
+        )
+        FROM event_ticket_types t
+        WHERE t.event_id = p_event_id
+        AND t.is_active = true
+        AND t.is_hidden = true
+        AND (
+            upper(btrim(t.access_password)) = v_code
+            OR EXISTS (
+                SELECT 1 FROM promo_codes pc
+                WHERE pc.ticket_type_id = t.id
+                AND pc.is_active = true
+                AND upper(pc.code) = v_code
+                AND (pc.event_id = p_event_id OR (v_series_id IS NOT NULL AND pc.series_id = v_series_id))
+            )
+        )
+    ), '[]'::JSONB);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Availability listing for buyers leaves hidden types out as well
+CREATE OR REPLACE FUNCTION get_event_ticket_types(p_event_id UUID)
+RETURNS TABLE (
+    id UUID,
+    event_id UUID,
+    name VARCHAR(100),
+    description TEXT,
+    price_cents INTEGER,
+    currency VARCHAR(3),
+    max_quantity INTEGER,
+    sold_count INTEGER,
+    sort_order INTEGER,
+    is_active BOOLEAN,
+    created_at TIMESTAMPTZ,
+    remaining_quantity INTEGER,
+    is_available BOOLEAN
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        t.id,
+        t.event_id,
+        t.name,
+        t.description,
+        t.price_cents,
+        t.currency,
+        t.max_quantity,
+        t.sold_count,
+        t.sort_order,
+        t.is_active,
+        t.created_at,
+        CASE
+            WHEN t.max_quantity IS NULL THEN NULL
+            ELSE t.max_quantity - t.sold_count
+        END::INTEGER AS remaining_quantity,
+        CASE
+            WHEN NOT t.is_active THEN false
+            WHEN t.max_quantity IS NULL THEN true
+            ELSE t.sold_count < t.max_quantity
+        END AS is_available
+    FROM event_ticket_types t
+    WHERE t.event_id = p_event_id
+    AND t.is_hidden = false
+    ORDER BY t.sort_order, t.price_cents;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ── Wallet purchase ─────────────────────────────────────────
+
+-- p_ticket_lines: [{ ticket_type_id, quantity, unit_price_cents,
+-- priced_at_sold }] as priced by the edge function. The type rows are
+-- locked and the inventory checked again here; a count-based tier that
+-- moved on since pricing fails the purchase rather than sell at the old
+-- price. Without lines the event's flat price applies, as before.
+DROP FUNCTION IF EXISTS purchase_from_wallet(UUID, UUID, INT, INT, INT, INT, TEXT);
+
+CREATE OR REPLACE FUNCTION purchase_from_wallet(
+  p_user_id UUID,
+  p_event_id UUID,
+  p_quantity INT,
+  p_unit_price_cents INT,
+  p_platform_fee_cents INT,
+  p_total_debit_cents INT,
+  p_event_title TEXT DEFAULT NULL,
+  p_ticket_lines JSONB DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_wallet wallet_balances%ROWTYPE;
+  v_payment_id UUID;
+  v_new_balance INT;
+  v_ticket_ids UUID[] := '{}';
+  v_ticket_id UUID;
+  v_ticket_number TEXT;
+  v_owner_email TEXT;
+  v_owner_name TEXT;
+  v_i INT;
+  v_type RECORD;
+  v_line JSONB;
+BEGIN
+  -- 1. Lock the ticket types in a fixed order and check what is left
+  IF p_ticket_lines IS NOT NULL THEN
+    FOR v_type IN
+      SELECT t.*, w.quantity AS wanted, w.priced_at_sold
+      FROM event_ticket_types t
+      JOIN (
+        SELECT (l->>'ticket_type_id')::UUID AS ticket_type_id,
+               SUM((l->>'quantity')::INT) AS quantity,
+               MIN((l->>'priced_at_sold')::INT) AS priced_at_sold
+        FROM jsonb_array_elements(p_ticket_lines) AS l
+        GROUP BY 1
+      ) w ON w.ticket_type_id = t.id
+      WHERE t.event_id = p_event_id
+      ORDER BY t.id
+      FOR UPDATE OF t
+    LOOP
+      IF v_type.max_quantity IS NOT NULL AND v_type.sold_count + v_type.wanted > v_type.max_quantity THEN
+        RAISE EXCEPTION 'Not enough tickets left: % remaining for %',
+          GREATEST(0, v_type.max_quantity - v_type.sold_count), v_type.name;
+      END IF;
+      IF v_type.sold_count <> v_type.priced_at_sold AND EXISTS (
+        SELECT 1 FROM ticket_type_price_tiers
+        WHERE ticket_type_id = v_type.id AND ends_after_sold IS NOT NULL
+      ) THEN
+        RAISE EXCEPTION 'Ticket prices changed for %', v_type.name;
+      END IF;
+    END LOOP;
+  END IF;
+
+  -- 2. Lock the wallet row (prevents concurrent purchases)
+  SELECT * INTO v_wallet
+  FROM wallet_balances
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Wallet not found for user %', p_user_id;
+  END IF;
+
+  -- 3. Validate sufficient balance
+  IF v_wallet.available_cents < p_total_debit_cents THEN
+    RAISE EXCEPTION 'Insufficient wallet balance: have % cents, need %',
+      v_wallet.available_cents, p_total_debit_cents;
+  END IF;
+
+  -- 4. Debit wallet
+  v_new_balance := v_wallet.available_cents - p_total_debit_cents;
+
+  UPDATE wallet_balances
+  SET available_cents = v_new_balance
+  WHERE user_id = p_user_id;
+
+  -- 5. Create payment record
+  INSERT INTO payments (
+    user_id, event_id, amount_cents, platform_fee_cents,
+    currency, status, type, metadata
+  ) VALUES (
+    p_user_id, p_event_id, p_total_debit_cents, p_platform_fee_cents,
+    'usd', 'completed', 'wallet_purchase',
+    jsonb_build_object(
+      'event_title', COALESCE(p_event_title, ''),
+      'wallet_purchase', true,
+      'quantity', p_quantity
+    ) || CASE WHEN p_ticket_lines IS NOT NULL
+      THEN jsonb_build_object('ticket_items', p_ticket_lines)
+      ELSE '{}'::JSONB END
+  )
+  RETURNING id INTO v_payment_id;
+
+  -- 6. Get user info for tickets
+  SELECT email, display_name INTO v_owner_email, v_owner_name
+  FROM profiles
+  WHERE id = p_user_id;
+
+  -- 7. Create tickets, one line at a time when priced per type
+  FOR v_line IN
+    SELECT l FROM jsonb_array_elements(
+      COALESCE(p_ticket_lines, jsonb_build_array(jsonb_build_object(
+        'quantity', p_quantity, 'unit_price_cents', p_unit_price_cents
+      )))
+    ) AS l
+  LOOP
+    SELECT * INTO v_type FROM event_ticket_types
+    WHERE id = (v_line->>'ticket_type_id')::UUID;
+
+    FOR v_i IN 1..(v_line->>'quantity')::INT LOOP
+      v_ticket_number := 'TKT-' ||
+        SUBSTRING(EXTRACT(EPOCH FROM NOW())::TEXT FROM 8 FOR 6) || '-' ||
+        LPAD(FLOOR(RANDOM() * 9999)::TEXT, 4, '0');
+
+      INSERT INTO tickets (
+        event_id, ticket_number, owner_email, owner_name,
+        price_paid_cents, currency, status, sold_by,
+        ticket_type_id, ticket_type_name, category, item_icon
+      ) VALUES (
+        p_event_id, v_ticket_number, v_owner_email, v_owner_name,
+        (v_line->>'unit_price_cents')::INT, 'USD', 'valid', p_user_id,
+        v_type.id, v_type.name, COALESCE(v_type.category, 'entry'), v_type.item_icon
+      )
+      RETURNING id INTO v_ticket_id;
+
+      v_ticket_ids := array_append(v_ticket_ids, v_ticket_id);
+    END LOOP;
+  END LOOP;
+
+  -- 8. Link first ticket to payment
+  IF array_length(v_ticket_ids, 1) > 0 THEN
+    UPDATE payments SET ticket_id = v_ticket_ids[1] WHERE id = v_payment_id;
+  END IF;
+
+  -- 9. Create wallet transaction record
+  INSERT INTO wallet_transactions (
+    user_id, type, amount_cents, fee_cents,
+    balance_after_cents, payment_id, description
+  ) VALUES (
+    p_user_id, 'ticket_purchase', -p_total_debit_cents, p_platform_fee_cents,
+    v_new_balance, v_payment_id,
+    'Purchased ' || p_quantity || 'x ticket for ' || COALESCE(p_event_title, 'event')
+  );
+
+  -- 10. Return result
+  RETURN jsonb_build_object(
+    'payment_id', v_payment_id,
+    'ticket_ids', to_jsonb(v_ticket_ids),
+    'new_balance_cents', v_new_balance,
+    'tickets_created', array_length(v_ticket_ids, 1)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ── Series occurrences ──────────────────────────────────────
+
+-- Occurrences copy the order limits, hidden flag and count-based tiers of
+-- the template's ticket types. Sales windows and dated tiers belong to the
+-- template's own date and are not copied.
+CREATE OR REPLACE FUNCTION generate_series_occurrences(
+  p_series_id UUID,
+  p_min_future INT DEFAULT 8
+)
+RETURNS INT AS $$
+DECLARE
+  v_series RECORD;
+  v_template JSONB;
+  v_ticket_types JSONB;
+  v_organizer_id UUID;
+  v_last_date TIMESTAMPTZ;
+  v_next_date TIMESTAMPTZ;
+  v_created INT := 0;
+  v_future_count INT;
+  v_total_count INT;
+  v_max_index INT;
+  v_dom INT;
+  v_new_event_id UUID;
+  v_tt JSONB;
+  v_new_type_id UUID;
+BEGIN
+  -- Fetch series info
+  SELECT * INTO v_series FROM event_series WHERE id = p_series_id AND is_active = true;
+  IF NOT FOUND THEN RETURN 0; END IF;
+
+  v_template := v_series.template_snapshot;
+  v_ticket_types := v_series.ticket_types_snapshot;
+  v_organizer_id := v_series.organizer_id;
+
+  -- Count existing occurrences
+  SELECT COUNT(*), COUNT(*) FILTER (WHERE date >= NOW()),
+         COALESCE(MAX(occurrence_index), -1)
+  INTO v_total_count, v_future_count, v_max_index
+  FROM events
+  WHERE series_id = p_series_id AND deleted_at IS NULL;
+
+  -- Find the last occurrence date
+  SELECT COALESCE(MAX(date), v_series.starts_at - INTERVAL '1 day')
+  INTO v_last_date
+  FROM events
+  WHERE series_id = p_series_id AND deleted_at IS NULL;
+
+  -- Generate occurrences until we have enough future ones
+  WHILE v_future_count + v_created < p_min_future LOOP
+    IF v_series.max_occurrences IS NOT NULL
+       AND v_total_count + v_created >= v_series.max_occurrences THEN
+      EXIT;
+    END IF;
+
+    CASE v_series.recurrence_type
+      WHEN 'daily' THEN
+        v_next_date := v_last_date + INTERVAL '1 day';
+        v_next_date := date_trunc('day', v_next_date) + v_series.recurrence_time;
+
+      WHEN 'weekly' THEN
+        v_next_date := v_last_date + INTERVAL '1 day';
+        LOOP
+          EXIT WHEN EXTRACT(DOW FROM v_next_date) = v_series.recurrence_day;
+          v_next_date := v_next_date + INTERVAL '1 day';
+        END LOOP;
+        v_next_date := date_trunc('day', v_next_date) + v_series.recurrence_time;
+
+      WHEN 'biweekly' THEN
+        v_next_date := v_last_date + INTERVAL '8 days';
+        LOOP
+          EXIT WHEN EXTRACT(DOW FROM v_next_date) = v_series.recurrence_day;
+          v_next_date := v_next_date + INTERVAL '1 day';
+        END LOOP;
+        v_next_date := date_trunc('day', v_next_date) + v_series.recurrence_time;
+
+      WHEN 'monthly' THEN
+        v_dom := COALESCE(v_series.recurrence_day, 1);
+        v_next_date := (date_trunc('month', v_last_date) + INTERVAL '1 month');
+        v_next_date := v_next_date +
+          (LEAST(v_dom, EXTRACT(DAY FROM (date_trunc('month', v_next_date) + INTERVAL '1 month' - INTERVAL '1 day'))::INT) - 1) * INTERVAL '1 day';
+        v_next_date := date_trunc('day', v_next_date) + v_series.recurrence_time;
+
+        IF v_next_date <= v_last_date THEN
+          v_next_date := (date_trunc('month', v_last_date) + INTERVAL '2 months');
+          v_next_date := v_next_date +
+            (LEAST(v_dom, EXTRACT(DAY FROM (date_trunc('month', v_next_date) + INTERVAL '1 month' - INTERVAL '1 day'))::INT) - 1) * INTERVAL '1 day';
+          v_next_date := date_trunc('day', v_next_date) + v_series.recurrence_time;
+        END IF;
+    END CASE;
+
+    IF v_series.ends_at IS NOT NULL AND v_next_date > v_series.ends_at THEN
+      EXIT;
+    END IF;
+
+    v_max_index := v_max_index + 1;
+
+    INSERT INTO events (
+      organizer_id,
+      title,
+      subtitle,
+      description,
+      date,
+      location,
+      venue,
+      city,
+      country,
+      image_url,
+      noise_seed,
+      custom_noise_config,
+      tags,
+      category,
+      price_in_cents,
+      currency,
+      hide_location,
+      max_tickets,
+      cash_sales_enabled,
+      is_private,
+      nft_enabled,
+      latitude,
+      longitude,
+      formatted_address,
+      series_id,
+      occurrence_index,
+      recurrence_type,
+      access_password
+    ) VALUES (
+      v_organizer_id,
+      v_template->>'title',
+      v_template->>'subtitle',
+      v_template->>'description',
+      v_next_date,
+      v_template->>'location',
+      v_template->>'venue',
+      v_template->>'city',
+      v_template->>'country',
+      v_template->>'image_url',
+      COALESCE((v_template->>'noise_seed')::INT, floor(random() * 10000)::INT),
+      v_template->'custom_noise_config',
+      COALESCE((SELECT array_agg(t.value) FROM jsonb_array_elements_text(v_template->'tags') AS t(value)), ARRAY[]::TEXT[]),
+      v_template->>'category',
+      (v_template->>'price_in_cents')::INT,
+      COALESCE(v_template->>'currency', 'USD'),
+      COALESCE((v_template->>'hide_location')::BOOLEAN, false),
+      (v_template->>'max_tickets')::INT,
+      COALESCE((v_template->>'cash_sales_enabled')::BOOLEAN, true),
+      COALESCE((v_template->>'is_private')::BOOLEAN, false),
+      COALESCE((v_template->>'nft_enabled')::BOOLEAN, true),
+      (v_template->>'latitude')::DOUBLE PRECISION,
+      (v_template->>'longitude')::DOUBLE PRECISION,
+      v_template->>'formatted_address',
+      p_series_id,
+      v_max_index,
+      v_series.recurrence_type,
+      v_template->>'access_password'
+    )
+    RETURNING id INTO v_new_event_id;
+
+    -- Clone ticket types and their count-based tiers
+    FOR v_tt IN
+      SELECT tt FROM jsonb_array_elements(COALESCE(v_ticket_types, '[]'::JSONB)) AS tt
+    LOOP
+      INSERT INTO event_ticket_types (
+        event_id, name, description, price_cents, max_quantity, sort_order,
+        access_password, is_hidden, min_per_order, max_per_order
+      ) VALUES (
+        v_new_event_id,
+        v_tt->>'name',
+        v_tt->>'description',
+        COALESCE((v_tt->>'price_cents')::INT, 0),
+        (v_tt->>'max_quantity')::INT,
+        (v_tt->>'sort_order')::INT,
+        v_tt->>'access_password',
+        COALESCE((v_tt->>'is_hidden')::BOOLEAN, COALESCE(v_tt->>'access_password', '') <> ''),
+        COALESCE((v_tt->>'min_per_order')::INT, 1),
+        (v_tt->>'max_per_order')::INT
+      )
+      RETURNING id INTO v_new_type_id;
+
+      INSERT INTO ticket_type_price_tiers (ticket_type_id, name, price_cents, sort_order, ends_after_sold)
+      SELECT
+        v_new_type_id,
+        tier->>'name',
+        COALESCE((tier->>'price_cents')::INT, 0),
+        COALESCE((tier->>'sort_order')::INT, 0),
+        (tier->>'ends_after_sold')::INT
+      FROM jsonb_array_elements(COALESCE(v_tt->'price_tiers', '[]'::JSONB)) AS tier
+      WHERE (tier->>'ends_after_sold') IS NOT NULL;
+    END LOOP;
+
+    v_last_date := v_next_date;
+    v_created := v_created + 1;
+  END LOOP;
+
+  RETURN v_created;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ── Access ──────────────────────────────────────────────────
+
+REVOKE ALL ON FUNCTION purchase_from_wallet(UUID, UUID, INT, INT, INT, INT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION event_has_hidden_ticket_types(UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION unlock_ticket_types(UUID, TEXT) TO anon, authenticated;
@@ -0,0 +1,388 @@
+-- ============================================================
+-- Multi-currency pricing, settlement and reporting
+-- ============================================================
+-- Events are priced in one of the supported currencies (USD, EUR, GBP,
+-- CAD, AUD, JPY) and every card charge for the event is made in it; the
+-- edge functions price fees per currency (see _shared/currency.ts and
+-- _shared/fees.ts). ACH and the wallet stay USD-only.
+--
+-- Amounts keep their `_cents` column names but are in the minor unit of
+-- the row's currency: cents for most, whole yen for JPY.
+--
+--   * events.currency           stored uppercase, limited to the supported
+--                               set, and fixed once tickets are sold;
+--                               ticket types follow their event
+--   * widget_checkout_sessions  no USD default: the session is opened in
+--                               the event's currency
+--   * seller_currency_balances  a seller's Stripe balance per currency
+--                               (seller_balances keeps the USD figures)
+--   * seller_payouts            every withdrawal, with its currency
+--   * exchange_rates            daily rates per 1 USD, stored by the
+--                               refresh-exchange-rates function
+--   * get_admin_overview_stats  takes a reporting currency and converts
+--                               each payment at the rate for its day
+
+-- ── Event currency ──────────────────────────────────────────
+
+ALTER TABLE events ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD';
+
+UPDATE events
+SET currency = CASE
+    WHEN upper(currency) IN ('USD', 'EUR', 'GBP', 'CAD', 'AUD', 'JPY') THEN upper(currency)
+    ELSE 'USD'
+  END
+WHERE currency IS DISTINCT FROM upper(currency)
+   OR upper(currency) NOT IN ('USD', 'EUR', 'GBP', 'CAD', 'AUD', 'JPY');
+
+ALTER TABLE events DROP CONSTRAINT IF EXISTS events_currency_supported;
+ALTER TABLE events ADD CONSTRAINT events_currency_supported
+    CHECK (currency IN ('USD', 'EUR', 'GBP', 'CAD', 'AUD', 'JPY'));
+
+CREATE OR REPLACE FUNCTION normalize_event_currency()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.currency := upper(COALESCE(NEW.currency, 'USD'));
+
+  IF TG_OP = 'UPDATE' AND NEW.currency <> OLD.currency
+     AND EXISTS (SELECT 1 FROM tickets WHERE event_id = NEW.id) THEN
+    RAISE EXCEPTION 'The currency can''t be changed after tickets have been sold';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS events_normalize_currency ON events;
+CREATE TRIGGER events_normalize_currency
+    BEFORE INSERT OR UPDATE OF currency ON events
+    FOR EACH ROW
+    EXECUTE FUNCTION normalize_event_currency();
+
+-- Ticket types and favor ticket offers are priced in their event's currency
+CREATE OR REPLACE FUNCTION sync_event_child_currency()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'events' THEN
+    UPDATE event_ticket_types SET currency = NEW.currency
+    WHERE event_id = NEW.id AND currency IS DISTINCT FROM NEW.currency;
+    UPDATE ticket_offers SET currency = NEW.currency
+    WHERE event_id = NEW.id AND status = 'pending'
+      AND currency IS DISTINCT FROM NEW.currency;
+    RETURN NULL;
+  END IF;
+
+  SELECT currency INTO NEW.currency FROM events WHERE id = NEW.event_id;
+  NEW.currency := COALESCE(NEW.currency, 'USD');
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS events_sync_child_currency ON events;
+CREATE TRIGGER events_sync_child_currency
+    AFTER UPDATE OF currency ON events
+    FOR EACH ROW
+    EXECUTE FUNCTION sync_event_child_currency();
+
+DROP TRIGGER IF EXISTS ticket_types_sync_currency ON event_ticket_types;
+CREATE TRIGGER ticket_types_sync_currency
+    BEFORE INSERT OR UPDATE OF currency, event_id ON event_ticket_types
+    FOR EACH ROW
+    EXECUTE FUNCTION sync_event_child_currency();
+
+UPDATE event_ticket_types t
+SET currency = e.currency
+FROM events e
+WHERE e.id = t.event_id AND t.currency IS DISTINCT FROM e.currency;
+
+DROP TRIGGER IF EXISTS ticket_offers_sync_currency ON ticket_offers;
+CREATE TRIGGER ticket_offers_sync_currency
+    BEFORE INSERT OR UPDATE OF currency, event_id ON ticket_offers
+    FOR EACH ROW
+    EXECUTE FUNCTION sync_event_child_currency();
+
+UPDATE ticket_offers o
+SET currency = e.currency
+FROM events e
+WHERE e.id = o.event_id AND o.status = 'pending'
+  AND o.currency IS DISTINCT FROM e.currency;
+
+-- ── Widget checkout sessions ────────────────────────────────
+
+ALTER TABLE widget_checkout_sessions ALTER COLUMN currency DROP DEFAULT;
+
+-- ── Seller balances and payouts ─────────────────────────────
+
+CREATE TABLE IF NOT EXISTS seller_currency_balances (
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    currency VARCHAR(3) NOT NULL,
+    available_cents BIGINT NOT NULL DEFAULT 0,
+    pending_cents BIGINT NOT NULL DEFAULT 0,
+    last_synced_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    PRIMARY KEY (user_id, currency)
+);
+
+ALTER TABLE seller_currency_balances ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own currency balances"
+    ON seller_currency_balances FOR SELECT
+    USING (auth.uid() = user_id);
+
+COMMENT ON TABLE seller_currency_balances IS
+  'Per-currency cache of a seller''s Stripe balance, refreshed by get-seller-balance. Stripe stays the source of truth.';
+
+-- Replace a seller's cached balances with what Stripe reported
+CREATE OR REPLACE FUNCTION sync_seller_currency_balances(p_user_id UUID, p_balances JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM seller_currency_balances
+  WHERE user_id = p_user_id
+    AND currency NOT IN (
+      SELECT lower(b->>'currency') FROM jsonb_array_elements(p_balances) b
+    );
+
+  INSERT INTO seller_currency_balances (user_id, currency, available_cents, pending_cents, last_synced_at)
+  SELECT p_user_id, lower(b->>'currency'),
+         COALESCE((b->>'available_cents')::BIGINT, 0),
+         COALESCE((b->>'pending_cents')::BIGINT, 0),
+         now()
+  FROM jsonb_array_elements(p_balances) b
+  ON CONFLICT (user_id, currency) DO UPDATE
+  SET available_cents = EXCLUDED.available_cents,
+      pending_cents = EXCLUDED.pending_cents,
+      last_synced_at = EXCLUDED.last_synced_at;
+END;
+$$;
+
+CREATE TABLE IF NOT EXISTS seller_payouts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    stripe_payout_id TEXT NOT NULL UNIQUE,
+    amount_cents BIGINT NOT NULL,
+    currency VARCHAR(3) NOT NULL,
+    status TEXT NOT NULL,
+    arrival_date TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_seller_payouts_user ON seller_payouts(user_id, created_at DESC);
+
+ALTER TABLE seller_payouts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own payouts"
+    ON seller_payouts FOR SELECT
+    USING (auth.uid() = user_id);
+
+-- ── Exchange rates ──────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS exchange_rates (
+    rate_date DATE NOT NULL,
+    currency VARCHAR(3) NOT NULL,
+    units_per_usd NUMERIC(18, 8) NOT NULL CHECK (units_per_usd > 0),
+    source TEXT NOT NULL DEFAULT 'frankfurter',
+    fetched_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    PRIMARY KEY (currency, rate_date)
+);
+
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE exchange_rates IS
+  'Daily exchange rates quoted per 1 USD (USD itself is implicitly 1). Written by refresh-exchange-rates.';
+
+CREATE OR REPLACE FUNCTION currency_decimals(p_currency TEXT)
+RETURNS INT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE lower(p_currency) WHEN 'jpy' THEN 0 ELSE 2 END;
+$$;
+
+-- Units of p_currency per USD on p_date: the latest rate on or before the
+-- day (weekends use Friday's), or the earliest stored rate for days before
+-- rates were recorded. NULL when the currency has no rates at all.
+CREATE OR REPLACE FUNCTION exchange_rate_on(p_currency TEXT, p_date DATE)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE WHEN lower(p_currency) = 'usd' THEN 1 ELSE COALESCE(
+    (SELECT units_per_usd FROM exchange_rates
+     WHERE currency = lower(p_currency) AND rate_date <= p_date
+     ORDER BY rate_date DESC LIMIT 1),
+    (SELECT units_per_usd FROM exchange_rates
+     WHERE currency = lower(p_currency)
+     ORDER BY rate_date ASC LIMIT 1)
+  ) END;
+$$;
+
+-- Minor units of p_from converted to minor units of p_to at p_date's rates
+CREATE OR REPLACE FUNCTION convert_minor_units(p_amount BIGINT, p_from TEXT, p_to TEXT, p_date DATE)
+RETURNS BIGINT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE WHEN lower(p_from) = lower(p_to) THEN p_amount ELSE round(
+    p_amount / power(10, currency_decimals(p_from)) / exchange_rate_on(p_from, p_date)
+      * exchange_rate_on(p_to, p_date) * power(10, currency_decimals(p_to))
+  )::BIGINT END;
+$$;
+
+-- ── Admin overview in a reporting currency ──────────────────
+
+DROP FUNCTION IF EXISTS get_admin_overview_stats();
+
+CREATE OR REPLACE FUNCTION get_admin_overview_stats(p_reporting_currency TEXT DEFAULT 'usd')
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_currency TEXT := lower(COALESCE(p_reporting_currency, 'usd'));
+  v_total_users BIGINT;
+  v_total_events BIGINT;
+  v_total_revenue BIGINT;
+  v_active_subs BIGINT;
+  v_tickets_30d BIGINT;
+  v_fees_30d BIGINT;
+  v_revenue_weekly JSONB;
+  v_revenue_by_currency JSONB;
+  v_unconverted JSONB;
+  v_signups_weekly JSONB;
+  v_tier_dist JSONB;
+BEGIN
+  IF v_currency NOT IN ('usd', 'eur', 'gbp', 'cad', 'aud', 'jpy') THEN
+    RAISE EXCEPTION 'Unsupported reporting currency: %', p_reporting_currency;
+  END IF;
+
+  -- KPI counts (all use COUNT which hits indexes)
+  SELECT COUNT(*) INTO v_total_users FROM profiles;
+
+  SELECT COUNT(*) INTO v_total_events
+  FROM events WHERE deleted_at IS NULL;
+
+  SELECT COUNT(*) INTO v_active_subs
+  FROM subscriptions WHERE status = 'active' AND tier != 'base';
+
+  SELECT COUNT(*) INTO v_tickets_30d
+  FROM tickets WHERE sold_at >= now() - interval '30 days';
+
+  -- Completed payments, each converted at the rate for the day it was made
+  CREATE TEMP TABLE tmp_converted_payments ON COMMIT DROP AS
+  SELECT
+    p.created_at,
+    lower(p.currency) AS currency,
+    p.amount_cents,
+    convert_minor_units(p.amount_cents, p.currency, v_currency, p.created_at::date) AS amount_reporting,
+    convert_minor_units(COALESCE(p.platform_fee_cents, 0), p.currency, v_currency, p.created_at::date) AS fee_reporting
+  FROM payments p
+  WHERE p.status = 'completed';
+
+  SELECT COALESCE(SUM(amount_reporting), 0) INTO v_total_revenue
+  FROM tmp_converted_payments;
+
+  SELECT COALESCE(SUM(fee_reporting), 0) INTO v_fees_30d
+  FROM tmp_converted_payments
+  WHERE created_at >= now() - interval '30 days';
+
+  -- Revenue weekly (12 weeks, bucketed in SQL)
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object('week', w.week_start, 'revenue', w.total)
+    ORDER BY w.week_start
+  ), '[]'::jsonb)
+  INTO v_revenue_weekly
+  FROM (
+    SELECT
+      date_trunc('week', created_at)::date AS week_start,
+      COALESCE(SUM(amount_reporting), 0) AS total
+    FROM tmp_converted_payments
+    WHERE created_at >= now() - interval '84 days'
+    GROUP BY date_trunc('week', created_at)::date
+  ) w;
+
+  -- Unconverted totals per charge currency
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object('currency', c.currency, 'revenue', c.total)
+    ORDER BY c.total DESC
+  ), '[]'::jsonb)
+  INTO v_revenue_by_currency
+  FROM (
+    SELECT currency, SUM(amount_cents) AS total
+    FROM tmp_converted_payments
+    GROUP BY currency
+  ) c;
+
+  -- Currencies with no stored rate are left out of the converted totals
+  SELECT COALESCE(jsonb_agg(DISTINCT currency), '[]'::jsonb)
+  INTO v_unconverted
+  FROM tmp_converted_payments
+  WHERE amount_reporting IS NULL;
+
+  -- Signups weekly (12 weeks, from profiles.created_at)
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object('week', w.week_start, 'signups', w.total)
+    ORDER BY w.week_start
+  ), '[]'::jsonb)
+  INTO v_signups_weekly
+  FROM (
+    SELECT
+      date_trunc('week', created_at)::date AS week_start,
+      COUNT(*) AS total
+    FROM profiles
+    WHERE created_at >= now() - interval '84 days'
+    GROUP BY date_trunc('week', created_at)::date
+  ) w;
+
+  -- Tier distribution
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object('name', tier, 'value', cnt)
+  ), '[]'::jsonb)
+  INTO v_tier_dist
+  FROM (
+    SELECT tier, COUNT(*) AS cnt
+    FROM subscriptions
+    WHERE status = 'active'
+    GROUP BY tier
+  ) t;
+
+  DROP TABLE tmp_converted_payments;
+
+  RETURN jsonb_build_object(
+    'reporting_currency', v_currency,
+    'total_users', v_total_users,
+    'total_events', v_total_events,
+    'total_revenue', v_total_revenue,
+    'active_subscriptions', v_active_subs,
+    'tickets_sold_30d', v_tickets_30d,
+    'platform_fees_30d', v_fees_30d,
+    'revenue_weekly', v_revenue_weekly,
+    'revenue_by_currency', v_revenue_by_currency,
+    'unconverted_currencies', v_unconverted,
+    'signups_weekly', v_signups_weekly,
+    'tier_distribution', v_tier_dist
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION get_admin_overview_stats(TEXT) IS
+  'Admin overview KPIs + 12-week trends with revenue converted to the reporting currency at each payment''s daily rate.';
+
+-- ── Access ──────────────────────────────────────────────────
+
+REVOKE ALL ON FUNCTION sync_seller_currency_balances(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION sync_seller_currency_balances(UUID, JSONB) TO service_role;
+REVOKE ALL ON FUNCTION get_admin_overview_stats(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_admin_overview_stats(TEXT) TO service_role;
@@ -0,0 +1,172 @@
+-- ============================================================
+-- Sales tax / VAT
+-- ============================================================
+-- Organizers list the tax rates that apply to an event and say whether
+-- ticket prices include them. Every checkout path works the tax out on the
+-- discounted ticket price (see _shared/tax.ts) and adds it on top or
+-- records the share already in the price; the service fee is not taxed.
+--
+--   * events.tax_inclusive   listed prices include the tax (the VAT norm)
+--                            rather than having it added at checkout
+--   * event_tax_rates        the event's rates in basis points (2000 = 20%),
+--                            e.g. a state sales tax plus a city admission tax
+--   * payments.tax_*         the tax in each charge, kept apart from
+--                            platform_fee_cents, with a line per rate
+--   * cash_transactions.tax_*  the same for cash sales at the door
+--   * organizer_tax_report   tax collected per event, currency and rate
+--                            over a date range, for filing returns
+
+-- ── Event tax settings ──────────────────────────────────────
+
+ALTER TABLE events ADD COLUMN IF NOT EXISTS tax_inclusive BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS event_tax_rates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+    name TEXT NOT NULL CHECK (length(trim(name)) BETWEEN 1 AND 40),
+    rate_bps INT NOT NULL CHECK (rate_bps BETWEEN 0 AND 10000),
+    sort_order INT NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    UNIQUE (event_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_tax_rates_event
+    ON event_tax_rates(event_id, sort_order);
+
+ALTER TABLE event_tax_rates ENABLE ROW LEVEL SECURITY;
+
+-- Buyers' apps need the rates to show the total before paying
+DROP POLICY IF EXISTS "Anyone can view event tax rates" ON event_tax_rates;
+CREATE POLICY "Anyone can view event tax rates"
+    ON event_tax_rates FOR SELECT
+    USING (true);
+
+DROP POLICY IF EXISTS "Organizers can manage their event tax rates" ON event_tax_rates;
+CREATE POLICY "Organizers can manage their event tax rates"
+    ON event_tax_rates FOR ALL
+    USING (
+        EXISTS (
+            SELECT 1 FROM events e
+            WHERE e.id = event_tax_rates.event_id
+            AND e.organizer_id = auth.uid()
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM events e
+            WHERE e.id = event_tax_rates.event_id
+            AND e.organizer_id = auth.uid()
+        )
+    );
+
+-- Stacked rates above 100% are always a typo
+CREATE OR REPLACE FUNCTION check_event_tax_total()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    v_total INT;
+BEGIN
+    SELECT COALESCE(SUM(rate_bps), 0) INTO v_total
+    FROM event_tax_rates
+    WHERE event_id = NEW.event_id;
+
+    IF v_total > 10000 THEN
+        RAISE EXCEPTION 'Tax rates for an event cannot add up to more than 100%%';
+    END IF;
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS event_tax_rates_check_total ON event_tax_rates;
+CREATE TRIGGER event_tax_rates_check_total
+    AFTER INSERT OR UPDATE OF rate_bps, event_id ON event_tax_rates
+    FOR EACH ROW
+    EXECUTE FUNCTION check_event_tax_total();
+
+-- ── Tax on payments ─────────────────────────────────────────
+
+ALTER TABLE payments
+    ADD COLUMN IF NOT EXISTS tax_cents INT NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS tax_inclusive BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN IF NOT EXISTS tax_lines JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN payments.tax_cents IS
+    'Sales tax / VAT in the charge, added on top or included in the ticket price (tax_inclusive). Not part of platform_fee_cents.';
+COMMENT ON COLUMN payments.tax_lines IS
+    'One entry per rate: { name, rate_bps, tax_cents, net_cents }; net_cents is the ticket price without tax it applied to.';
+
+CREATE INDEX IF NOT EXISTS idx_payments_taxed
+    ON payments(event_id, created_at)
+    WHERE tax_cents > 0;
+
+-- Cash sales: amount_cents stays the ticket price, the tax is collected
+-- on top of it (or is part of it when the event's prices include tax)
+ALTER TABLE cash_transactions
+    ADD COLUMN IF NOT EXISTS tax_cents INT NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS tax_inclusive BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN IF NOT EXISTS tax_lines JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- ── Reporting ───────────────────────────────────────────────
+
+-- Tax per event, currency and rate on an organizer's completed and refunded
+-- payments, and cash sales, created in [p_from, p_to). Pass p_event_id for
+-- one event. Refunded charges are listed apart so the organizer can net
+-- them off; disputed cash sales are left out.
+CREATE OR REPLACE FUNCTION organizer_tax_report(
+    p_organizer_id UUID,
+    p_from DATE,
+    p_to DATE,
+    p_event_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    WITH taxed AS (
+        SELECT p.event_id, p.currency, p.tax_inclusive, p.tax_lines,
+               p.status = 'refunded' AS refunded
+        FROM payments p
+        WHERE p.tax_cents > 0
+          AND p.status IN ('completed', 'refunded')
+          AND p.created_at >= p_from
+          AND p.created_at < p_to
+        UNION ALL
+        SELECT c.event_id, c.currency, c.tax_inclusive, c.tax_lines, false
+        FROM cash_transactions c
+        WHERE c.tax_cents > 0
+          AND c.status IN ('pending', 'collected')
+          AND c.created_at >= p_from
+          AND c.created_at < p_to
+    )
+    SELECT COALESCE(jsonb_agg(r ORDER BY r.event_date, r.event_title, r.currency, r.tax_name), '[]'::jsonb)
+    FROM (
+        SELECT
+            e.id AS event_id,
+            e.title AS event_title,
+            e.date AS event_date,
+            upper(t.currency) AS currency,
+            line->>'name' AS tax_name,
+            (line->>'rate_bps')::int AS rate_bps,
+            t.tax_inclusive,
+            count(*) FILTER (WHERE NOT t.refunded) AS orders,
+            COALESCE(sum((line->>'net_cents')::int) FILTER (WHERE NOT t.refunded), 0) AS net_sales_cents,
+            COALESCE(sum((line->>'tax_cents')::int) FILTER (WHERE NOT t.refunded), 0) AS tax_cents,
+            count(*) FILTER (WHERE t.refunded) AS refunded_orders,
+            COALESCE(sum((line->>'tax_cents')::int) FILTER (WHERE t.refunded), 0) AS refunded_tax_cents
+        FROM taxed t
+        JOIN events e ON e.id = t.event_id
+        CROSS JOIN LATERAL jsonb_array_elements(t.tax_lines) AS line
+        WHERE e.organizer_id = p_organizer_id
+          AND (p_event_id IS NULL OR e.id = p_event_id)
+        GROUP BY e.id, e.title, e.date, upper(t.currency), line->>'name', (line->>'rate_bps')::int, t.tax_inclusive
+    ) r;
+$$;
+
+-- ── Access ──────────────────────────────────────────────────
+
+REVOKE ALL ON FUNCTION organizer_tax_report(UUID, DATE, DATE, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION organizer_tax_report(UUID, DATE, DATE, UUID) TO service_role;
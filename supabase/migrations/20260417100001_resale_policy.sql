@@ -0,0 +1,136 @@
+-- ============================================================
+-- Resale policy: price caps, royalties and a resale window
+-- ============================================================
+-- Until now a ticket could be relisted at any price right up to the event,
+-- and the seller kept everything after the platform fee. Organizers now set
+-- a resale policy per event:
+--
+--   * resale_max_price_percent     highest listing price as a percentage of
+--                                  face value; 100 = face value only,
+--                                  NULL = no cap
+--   * resale_min_price_percent     lowest listing price, same basis
+--   * resale_royalty_bps           the organizer's cut of each resale, withheld
+--                                  from the seller's proceeds and transferred
+--                                  to the organizer's Connect account
+--   * resale_opens_at              no listings before this time
+--   * resale_closes_minutes_before listing and buying close this long before
+--                                  the event starts (e.g. 120 = 2h before doors)
+--
+-- Face value is what the ticket was first sold for, falling back to its
+-- ticket type's price and then the event price for comps and free claims.
+-- The policy is enforced here when a listing is created or repriced, and
+-- again by create-resale-intent (_shared/resale-policy.ts) when a buyer
+-- starts paying, so listings made before a policy change are caught too.
+
+-- ── Event resale settings ───────────────────────────────────
+
+ALTER TABLE events
+    ADD COLUMN IF NOT EXISTS resale_max_price_percent INT
+        CHECK (resale_max_price_percent IS NULL OR resale_max_price_percent BETWEEN 1 AND 1000),
+    ADD COLUMN IF NOT EXISTS resale_min_price_percent INT
+        CHECK (resale_min_price_percent IS NULL OR resale_min_price_percent BETWEEN 0 AND 1000),
+    ADD COLUMN IF NOT EXISTS resale_royalty_bps INT NOT NULL DEFAULT 0
+        CHECK (resale_royalty_bps BETWEEN 0 AND 5000),
+    ADD COLUMN IF NOT EXISTS resale_opens_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS resale_closes_minutes_before INT
+        CHECK (resale_closes_minutes_before IS NULL OR resale_closes_minutes_before BETWEEN 0 AND 43200);
+
+ALTER TABLE events DROP CONSTRAINT IF EXISTS events_resale_price_range;
+ALTER TABLE events ADD CONSTRAINT events_resale_price_range
+    CHECK (resale_min_price_percent IS NULL
+        OR resale_max_price_percent IS NULL
+        OR resale_min_price_percent <= resale_max_price_percent);
+
+COMMENT ON COLUMN events.resale_max_price_percent IS
+    'Highest resale price as a percentage of face value (100 = face value only). NULL = no cap.';
+COMMENT ON COLUMN events.resale_royalty_bps IS
+    'Organizer royalty on each resale in basis points, withheld from the seller''s proceeds.';
+
+-- ── Royalty on payments ─────────────────────────────────────
+
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS resale_royalty_cents INT NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN payments.resale_royalty_cents IS
+    'Organizer royalty withheld from a resale; the seller receives amount_cents - platform_fee_cents - resale_royalty_cents.';
+
+-- ── Face value ──────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION ticket_face_value_cents(p_ticket_id UUID)
+RETURNS INT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE(NULLIF(t.price_paid_cents, 0), NULLIF(tt.price_cents, 0), NULLIF(e.price_in_cents, 0), 0)
+    FROM tickets t
+    JOIN events e ON e.id = t.event_id
+    LEFT JOIN event_ticket_types tt ON tt.id = t.ticket_type_id
+    WHERE t.id = p_ticket_id;
+$$;
+
+-- ── Listing enforcement ─────────────────────────────────────
+
+-- Runs alongside block_private_ticket_resale(), which only guards inserts;
+-- repricing a listing has to stay inside the caps as well.
+CREATE OR REPLACE FUNCTION enforce_resale_policy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_event RECORD;
+    v_face INT;
+BEGIN
+    IF NEW.status <> 'active' THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT e.date, e.resale_max_price_percent, e.resale_min_price_percent,
+           e.resale_opens_at, e.resale_closes_minutes_before
+    INTO v_event
+    FROM events e
+    JOIN tickets t ON t.event_id = e.id
+    WHERE t.id = NEW.ticket_id;
+
+    IF v_event.resale_opens_at IS NOT NULL AND now() < v_event.resale_opens_at THEN
+        RAISE EXCEPTION 'Resale has not opened yet for this event';
+    END IF;
+
+    IF v_event.resale_closes_minutes_before IS NOT NULL
+       AND now() >= v_event.date - make_interval(mins => v_event.resale_closes_minutes_before) THEN
+        RAISE EXCEPTION 'Resale has closed for this event';
+    END IF;
+
+    v_face := ticket_face_value_cents(NEW.ticket_id);
+    IF v_face > 0 THEN
+        -- Integer division rounds the cap down; the minimum rounds up
+        IF v_event.resale_max_price_percent IS NOT NULL
+           AND NEW.price_cents > v_face * v_event.resale_max_price_percent / 100 THEN
+            IF v_event.resale_max_price_percent = 100 THEN
+                RAISE EXCEPTION 'The organizer only allows resale at face value';
+            END IF;
+            RAISE EXCEPTION 'The price is above the organizer''s resale cap';
+        END IF;
+
+        IF v_event.resale_min_price_percent IS NOT NULL
+           AND NEW.price_cents < ceil(v_face * v_event.resale_min_price_percent / 100.0) THEN
+            RAISE EXCEPTION 'The price is below the organizer''s resale minimum';
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_resale_policy ON resale_listings;
+CREATE TRIGGER enforce_resale_policy
+    BEFORE INSERT OR UPDATE OF price_cents ON resale_listings
+    FOR EACH ROW
+    EXECUTE FUNCTION enforce_resale_policy();
+
+-- ── Access ──────────────────────────────────────────────────
+
+REVOKE ALL ON FUNCTION ticket_face_value_cents(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION ticket_face_value_cents(UUID) TO service_role;
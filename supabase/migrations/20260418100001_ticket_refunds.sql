@@ -0,0 +1,239 @@
+-- ============================================================
+-- Per-ticket refunds and refund policies
+-- ============================================================
+-- Refunds used to cover a whole payment, so a buyer who bought four
+-- tickets couldn't return one. process-refund now refunds by ticket: each
+-- ticket gets an equal share of the charge's ticket price, added tax and
+-- service fee (see _shared/refunds.ts), and the payment is only marked
+-- refunded once every ticket on it is.
+--
+--   * event_refund_tiers     organizer's policy: "100% until 14 days out,
+--                            50% until 7, none after"
+--   * events.refund_fees     whether policy refunds include the service fee
+--   * ticket_refunds         one row per ticket refunded or requested;
+--                            buyers' requests that the policy doesn't cover
+--                            wait here for the organizer
+--   * payments.refunded_cents  running total refunded on the charge
+--
+-- A ticket that becomes refunded (by any path, including a full refund from
+-- the Stripe dashboard) has its NFC signature voided, any resale listing
+-- cancelled and its NFT queued for burning.
+
+-- ── Refund policy ───────────────────────────────────────────
+
+ALTER TABLE events ADD COLUMN IF NOT EXISTS refund_fees BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS event_refund_tiers (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+    -- The tier applies from this many days before the event onwards
+    days_before INT NOT NULL CHECK (days_before BETWEEN 0 AND 365),
+    refund_percent INT NOT NULL CHECK (refund_percent BETWEEN 0 AND 100),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    UNIQUE (event_id, days_before)
+);
+
+ALTER TABLE event_refund_tiers ENABLE ROW LEVEL SECURITY;
+
+-- Buyers see the policy before they buy and before they ask for a refund
+DROP POLICY IF EXISTS "Anyone can view event refund tiers" ON event_refund_tiers;
+CREATE POLICY "Anyone can view event refund tiers"
+    ON event_refund_tiers FOR SELECT
+    USING (true);
+
+DROP POLICY IF EXISTS "Organizers can manage their event refund tiers" ON event_refund_tiers;
+CREATE POLICY "Organizers can manage their event refund tiers"
+    ON event_refund_tiers FOR ALL
+    USING (
+        EXISTS (
+            SELECT 1 FROM events e
+            WHERE e.id = event_refund_tiers.event_id
+            AND e.organizer_id = auth.uid()
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM events e
+            WHERE e.id = event_refund_tiers.event_id
+            AND e.organizer_id = auth.uid()
+        )
+    );
+
+-- ── Ticket refunds ──────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS ticket_refunds (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    ticket_id UUID NOT NULL REFERENCES tickets(id) ON DELETE CASCADE,
+    payment_id UUID REFERENCES payments(id) ON DELETE SET NULL,
+    event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+    requested_by UUID REFERENCES auth.users(id),
+    status TEXT NOT NULL DEFAULT 'requested'
+        CHECK (status IN ('requested', 'refunded', 'declined', 'failed')),
+    -- Share of the ticket price refunded; the service fee follows fee_cents
+    refund_percent INT CHECK (refund_percent BETWEEN 0 AND 100),
+    amount_cents INT NOT NULL DEFAULT 0,
+    fee_cents INT NOT NULL DEFAULT 0,
+    tax_cents INT NOT NULL DEFAULT 0,
+    currency TEXT,
+    reason TEXT CHECK (length(reason) <= 500),
+    -- 'policy' when the event's refund policy approved it automatically
+    decided_by TEXT,
+    decided_at TIMESTAMPTZ,
+    -- The organizer's note to the buyer when declining
+    decision_note TEXT CHECK (length(decision_note) <= 500),
+    stripe_refund_id TEXT,
+    error_message TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- A ticket is refunded at most once and has at most one open request
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ticket_refunds_open
+    ON ticket_refunds(ticket_id)
+    WHERE status IN ('requested', 'refunded');
+
+CREATE INDEX IF NOT EXISTS idx_ticket_refunds_event_status
+    ON ticket_refunds(event_id, status, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_ticket_refunds_payment
+    ON ticket_refunds(payment_id);
+
+ALTER TABLE ticket_refunds ENABLE ROW LEVEL SECURITY;
+
+-- Writes go through process-refund (service role)
+DROP POLICY IF EXISTS "Users can view refunds of their tickets" ON ticket_refunds;
+CREATE POLICY "Users can view refunds of their tickets"
+    ON ticket_refunds FOR SELECT
+    USING (
+        requested_by = auth.uid()
+        OR EXISTS (
+            SELECT 1 FROM tickets t
+            WHERE t.id = ticket_refunds.ticket_id
+            AND t.sold_by = auth.uid()
+        )
+    );
+
+DROP POLICY IF EXISTS "Organizers can view refunds for their events" ON ticket_refunds;
+CREATE POLICY "Organizers can view refunds for their events"
+    ON ticket_refunds FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM events e
+            WHERE e.id = ticket_refunds.event_id
+            AND e.organizer_id = auth.uid()
+        )
+    );
+
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS refunded_cents INT NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN payments.refunded_cents IS
+    'Amount refunded so far. The payment stays completed while some of its tickets are still standing.';
+
+-- ── Voiding refunded tickets ────────────────────────────────
+
+CREATE OR REPLACE FUNCTION void_refunded_ticket()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    -- Scanners reject a ticket without a signature, so a screenshot of the
+    -- old QR or a cached NFC payload can't get in
+    NEW.nfc_signature := NULL;
+    NEW.listing_status := 'none';
+    NEW.listing_price_cents := NULL;
+
+    UPDATE resale_listings
+    SET status = 'cancelled', updated_at = now()
+    WHERE ticket_id = NEW.id AND status = 'active';
+
+    IF NEW.nft_minted AND NOT NEW.nft_burned
+       AND NOT EXISTS (
+           SELECT 1 FROM nft_mint_queue q
+           WHERE q.ticket_id = NEW.id
+             AND q.action = 'burn'
+             AND q.status IN ('queued', 'burning')
+       ) THEN
+        INSERT INTO nft_mint_queue (ticket_id, event_id, buyer_address, action, status)
+        SELECT NEW.id, NEW.event_id, COALESCE(uw.cardano_address, 'no_wallet'), 'burn', 'queued'
+        FROM (SELECT 1) one
+        LEFT JOIN user_wallets uw ON uw.user_id = NEW.sold_by;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS tickets_void_on_refund ON tickets;
+CREATE TRIGGER tickets_void_on_refund
+    BEFORE UPDATE OF status ON tickets
+    FOR EACH ROW
+    WHEN (NEW.status = 'refunded' AND OLD.status IS DISTINCT FROM 'refunded')
+    EXECUTE FUNCTION void_refunded_ticket();
+
+-- ── Recording a refund ──────────────────────────────────────
+
+-- Marks the refunded tickets, adds the amount to the payment and marks the
+-- payment refunded once none of its tickets are left. Called by
+-- process-refund after Stripe accepts the refund. Idempotent: a retry only
+-- counts the rows it moves to refunded, so nothing is added twice.
+CREATE OR REPLACE FUNCTION record_ticket_refunds(
+    p_payment_id UUID,
+    p_refund_ids UUID[],
+    p_stripe_refund_id TEXT,
+    p_decided_by TEXT
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_amount INT;
+    v_intent TEXT;
+    v_standing INT;
+    v_status TEXT;
+BEGIN
+    WITH settled AS (
+        UPDATE ticket_refunds
+        SET status = 'refunded',
+            stripe_refund_id = p_stripe_refund_id,
+            decided_by = COALESCE(decided_by, p_decided_by),
+            decided_at = COALESCE(decided_at, now()),
+            error_message = NULL,
+            updated_at = now()
+        WHERE id = ANY(p_refund_ids)
+          AND status <> 'refunded'
+        RETURNING amount_cents
+    )
+    SELECT COALESCE(sum(amount_cents), 0) INTO v_amount FROM settled;
+
+    UPDATE tickets
+    SET status = 'refunded'
+    WHERE id IN (SELECT ticket_id FROM ticket_refunds WHERE id = ANY(p_refund_ids))
+      AND status <> 'refunded';
+
+    SELECT stripe_payment_intent_id INTO v_intent FROM payments WHERE id = p_payment_id;
+
+    SELECT count(*) INTO v_standing
+    FROM tickets t
+    WHERE t.status <> 'refunded'
+      AND (t.stripe_payment_intent_id = v_intent
+           OR t.id = (SELECT ticket_id FROM payments WHERE id = p_payment_id));
+
+    UPDATE payments
+    SET refunded_cents = refunded_cents + v_amount,
+        status = CASE WHEN v_standing = 0 THEN 'refunded' ELSE status END,
+        updated_at = now()
+    WHERE id = p_payment_id
+    RETURNING status INTO v_status;
+
+    RETURN v_status;
+END;
+$$;
+
+-- ── Access ──────────────────────────────────────────────────
+
+REVOKE ALL ON FUNCTION record_ticket_refunds(UUID, UUID[], TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_ticket_refunds(UUID, UUID[], TEXT, TEXT) TO service_role;
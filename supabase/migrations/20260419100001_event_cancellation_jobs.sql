@@ -0,0 +1,434 @@
+-- ============================================================
+-- Resumable event cancellation
+-- ============================================================
+-- cancel-event used to refund every payment of an event inside one request.
+-- A large event timed out partway, leaving some buyers refunded and others
+-- not, with nothing recording how far it got. Cancelling is now a job:
+--
+--   * event_cancellation_jobs   one per cancelled event, with progress
+--                               counts organizers and admins can watch
+--   * event_cancellation_items  one per payment to refund
+--
+-- start_event_cancellation takes the event off sale straight away (soft
+-- delete, resale listings, waitlist, open refund requests) and lists the
+-- payments. cancel-event then refunds them in batches, re-invoking itself
+-- until none are left; a scheduled call with {} picks up jobs whose
+-- invocation died. Items are leased while being refunded, so a crashed
+-- batch is claimed again once the lease runs out, and each Stripe refund
+-- carries an idempotency key so a replay can't refund twice.
+--
+--   pending ─► processing ─┬─► refunded | skipped (nothing left to refund)
+--                          └─► failed ─► pending (retry_event_cancellation)
+--
+-- When no items are pending the job finishes: remaining valid tickets
+-- (comps, free and cash sales) are cancelled and their holders notified.
+
+-- ── Jobs ────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS event_cancellation_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    event_id UUID NOT NULL UNIQUE REFERENCES events(id) ON DELETE CASCADE,
+    requested_by UUID REFERENCES auth.users(id),
+    reason TEXT,
+    status TEXT NOT NULL DEFAULT 'running'
+        CHECK (status IN ('running', 'completed', 'completed_with_errors')),
+    total_payments INT NOT NULL DEFAULT 0,
+    refunded_count INT NOT NULL DEFAULT 0,
+    skipped_count INT NOT NULL DEFAULT 0,
+    failed_count INT NOT NULL DEFAULT 0,
+    refunded_cents BIGINT NOT NULL DEFAULT 0,
+    cancelled_tickets INT NOT NULL DEFAULT 0,
+    finished_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_cancellation_jobs_running
+    ON event_cancellation_jobs(created_at)
+    WHERE status = 'running';
+
+COMMENT ON COLUMN event_cancellation_jobs.refunded_cents IS 'Sum refunded by this job, in each payment''s own currency';
+COMMENT ON COLUMN event_cancellation_jobs.cancelled_tickets IS 'Tickets without a card payment cancelled when the job finished';
+
+-- ── Items ───────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS event_cancellation_items (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    job_id UUID NOT NULL REFERENCES event_cancellation_jobs(id) ON DELETE CASCADE,
+    payment_id UUID NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
+    user_id UUID,
+    status TEXT NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'processing', 'refunded', 'skipped', 'failed')),
+    -- Claims, including ones lost to a crash
+    attempts INT NOT NULL DEFAULT 0,
+    -- Manual retries; part of the Stripe idempotency key so a retry after a
+    -- definite failure is a new request while a replayed claim is not
+    retries INT NOT NULL DEFAULT 0,
+    locked_until TIMESTAMPTZ,
+    -- Set before calling Stripe so a replayed claim asks for the same amount
+    amount_cents INT NOT NULL DEFAULT 0,
+    stripe_refund_id TEXT,
+    error_message TEXT,
+    processed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    UNIQUE (job_id, payment_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_cancellation_items_job_status
+    ON event_cancellation_items(job_id, status, created_at);
+
+ALTER TABLE event_cancellation_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE event_cancellation_items ENABLE ROW LEVEL SECURITY;
+
+-- Writes go through cancel-event (service role)
+DROP POLICY IF EXISTS "Organizers can view their event cancellations" ON event_cancellation_jobs;
+CREATE POLICY "Organizers can view their event cancellations"
+    ON event_cancellation_jobs FOR SELECT
+    USING (
+        requested_by = auth.uid()
+        OR EXISTS (
+            SELECT 1 FROM events e
+            WHERE e.id = event_cancellation_jobs.event_id
+            AND e.organizer_id = auth.uid()
+        )
+    );
+
+DROP POLICY IF EXISTS "Organizers can view their event cancellation items" ON event_cancellation_items;
+CREATE POLICY "Organizers can view their event cancellation items"
+    ON event_cancellation_items FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM event_cancellation_jobs j
+            JOIN events e ON e.id = j.event_id
+            WHERE j.id = event_cancellation_items.job_id
+            AND e.organizer_id = auth.uid()
+        )
+    );
+
+-- ── Starting a cancellation ─────────────────────────────────
+
+-- Creates the job and its items and takes the event off sale. Returns the
+-- existing job when the event is already being cancelled.
+CREATE OR REPLACE FUNCTION start_event_cancellation(
+    p_event_id UUID,
+    p_requested_by UUID,
+    p_reason TEXT DEFAULT NULL
+)
+RETURNS event_cancellation_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_job event_cancellation_jobs;
+BEGIN
+    -- Serialises concurrent starts for the same event
+    PERFORM 1 FROM events WHERE id = p_event_id FOR UPDATE;
+
+    SELECT * INTO v_job FROM event_cancellation_jobs WHERE event_id = p_event_id;
+    IF FOUND THEN
+        RETURN v_job;
+    END IF;
+
+    INSERT INTO event_cancellation_jobs (event_id, requested_by, reason)
+    VALUES (p_event_id, p_requested_by, p_reason)
+    RETURNING * INTO v_job;
+
+    INSERT INTO event_cancellation_items (job_id, payment_id, user_id)
+    SELECT v_job.id, p.id, p.user_id
+    FROM payments p
+    WHERE p.event_id = p_event_id
+      AND p.status = 'completed'
+      AND p.stripe_payment_intent_id IS NOT NULL;
+
+    UPDATE event_cancellation_jobs
+    SET total_payments = (SELECT count(*) FROM event_cancellation_items WHERE job_id = v_job.id)
+    WHERE id = v_job.id
+    RETURNING * INTO v_job;
+
+    UPDATE events
+    SET deleted_at = now(),
+        status = 'suspended',
+        status_reason = COALESCE(p_reason, 'Event cancelled by organizer')
+    WHERE id = p_event_id;
+
+    UPDATE resale_listings
+    SET status = 'cancelled'
+    WHERE event_id = p_event_id
+      AND status IN ('active', 'pending');
+
+    UPDATE waitlist_entries
+    SET status = 'cancelled'
+    WHERE event_id = p_event_id
+      AND status = 'active';
+
+    -- Every order is refunded in full, so buyers' requests are moot
+    UPDATE ticket_refunds
+    SET status = 'declined',
+        decided_by = p_requested_by::TEXT,
+        decided_at = now(),
+        decision_note = 'The event was cancelled and every order is being refunded in full.',
+        updated_at = now()
+    WHERE event_id = p_event_id
+      AND status = 'requested';
+
+    RETURN v_job;
+END;
+$$;
+
+-- ── Processing ──────────────────────────────────────────────
+
+-- Leases up to p_limit pending items, plus processing items whose lease ran
+-- out (their batch died).
+CREATE OR REPLACE FUNCTION claim_event_cancellation_items(
+    p_job_id UUID,
+    p_limit INTEGER DEFAULT 25,
+    p_lease_seconds INTEGER DEFAULT 300
+)
+RETURNS SETOF event_cancellation_items
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    RETURN QUERY
+    WITH claimed AS (
+        UPDATE event_cancellation_items i
+        SET status = 'processing',
+            attempts = i.attempts + 1,
+            locked_until = now() + make_interval(secs => p_lease_seconds),
+            updated_at = now()
+        WHERE i.id IN (
+            SELECT c.id
+            FROM event_cancellation_items c
+            WHERE c.job_id = p_job_id
+              AND (c.status = 'pending'
+                   OR (c.status = 'processing' AND c.locked_until < now()))
+            ORDER BY c.created_at
+            LIMIT p_limit
+            FOR UPDATE SKIP LOCKED
+        )
+        RETURNING i.*
+    )
+    SELECT * FROM claimed ORDER BY claimed.created_at;
+END;
+$$;
+
+-- Records a payment refunded by the job (p_amount_cents = 0 when nothing
+-- was left to refund): the payment and its tickets become refunded, or
+-- cancelled for a free order, and the buyer is notified once per job.
+CREATE OR REPLACE FUNCTION record_event_cancellation_refund(
+    p_item_id UUID,
+    p_stripe_refund_id TEXT,
+    p_amount_cents INT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_item event_cancellation_items;
+    v_job event_cancellation_jobs;
+    v_payment payments;
+    v_title TEXT;
+BEGIN
+    UPDATE event_cancellation_items
+    SET status = CASE WHEN p_amount_cents > 0 THEN 'refunded' ELSE 'skipped' END,
+        amount_cents = p_amount_cents,
+        stripe_refund_id = p_stripe_refund_id,
+        error_message = NULL,
+        locked_until = NULL,
+        processed_at = now(),
+        updated_at = now()
+    WHERE id = p_item_id
+    RETURNING * INTO v_item;
+
+    SELECT * INTO v_job FROM event_cancellation_jobs WHERE id = v_item.job_id;
+
+    UPDATE payments
+    SET status = 'refunded',
+        -- The charge.refunded webhook may have recorded this refund already
+        refunded_cents = LEAST(amount_cents, refunded_cents + p_amount_cents),
+        metadata = COALESCE(metadata, '{}'::JSONB) || jsonb_build_object(
+            'refund_id', p_stripe_refund_id,
+            'refund_reason', 'event_cancelled',
+            'refunded_by', v_job.requested_by,
+            'refunded_at', now(),
+            'cancellation_reason', v_job.reason
+        ),
+        updated_at = now()
+    WHERE id = v_item.payment_id
+    RETURNING * INTO v_payment;
+
+    UPDATE tickets
+    SET status = CASE WHEN p_amount_cents > 0 THEN 'refunded' ELSE 'cancelled' END
+    WHERE status NOT IN ('refunded', 'cancelled')
+      AND (stripe_payment_intent_id = v_payment.stripe_payment_intent_id
+           OR id = v_payment.ticket_id);
+
+    IF p_amount_cents > 0 AND v_item.user_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM event_cancellation_items other
+        WHERE other.job_id = v_item.job_id
+          AND other.user_id = v_item.user_id
+          AND other.status = 'refunded'
+          AND other.id <> v_item.id
+    ) THEN
+        SELECT title INTO v_title FROM events WHERE id = v_job.event_id;
+
+        INSERT INTO notifications (user_id, type, title, body, data)
+        VALUES (
+            v_item.user_id,
+            'event_cancelled',
+            'Event Cancelled — Refund Issued',
+            '"' || v_title || '" has been cancelled. Your payment has been refunded to your original payment method.',
+            jsonb_build_object('event_id', v_job.event_id, 'event_title', v_title)
+        );
+    END IF;
+END;
+$$;
+
+-- Refreshes the job's counts and finishes it once no items are pending.
+-- Finishing cancels the tickets no payment covered and notifies their
+-- holders and the organizer; it runs again after a retry, which only
+-- touches tickets still valid by then.
+CREATE OR REPLACE FUNCTION refresh_event_cancellation_job(p_job_id UUID)
+RETURNS event_cancellation_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_job event_cancellation_jobs;
+    v_open INT;
+    v_failed INT;
+    v_title TEXT;
+    v_organizer UUID;
+    v_cancelled INT := 0;
+BEGIN
+    SELECT * INTO v_job FROM event_cancellation_jobs WHERE id = p_job_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT count(*) FILTER (WHERE status IN ('pending', 'processing')),
+           count(*) FILTER (WHERE status = 'failed')
+    INTO v_open, v_failed
+    FROM event_cancellation_items WHERE job_id = p_job_id;
+
+    IF v_open = 0 AND v_job.status = 'running' THEN
+        SELECT title, organizer_id INTO v_title, v_organizer
+        FROM events WHERE id = v_job.event_id;
+
+        WITH cancelled AS (
+            UPDATE tickets
+            SET status = 'cancelled'
+            WHERE event_id = v_job.event_id
+              AND status = 'valid'
+              -- Tickets of a failed refund stay valid until it goes through
+              AND NOT EXISTS (
+                  SELECT 1 FROM event_cancellation_items i
+                  JOIN payments p ON p.id = i.payment_id
+                  WHERE i.job_id = p_job_id
+                    AND i.status = 'failed'
+                    AND (p.stripe_payment_intent_id = tickets.stripe_payment_intent_id
+                         OR p.ticket_id = tickets.id)
+              )
+            RETURNING sold_by
+        ), notified AS (
+            INSERT INTO notifications (user_id, type, title, body, data)
+            SELECT DISTINCT c.sold_by,
+                'event_cancelled',
+                'Event Cancelled',
+                '"' || v_title || '" has been cancelled. Your ticket has been cancelled.',
+                jsonb_build_object('event_id', v_job.event_id, 'event_title', v_title)
+            FROM cancelled c
+            WHERE c.sold_by IS NOT NULL
+              AND NOT EXISTS (
+                  SELECT 1 FROM event_cancellation_items i
+                  WHERE i.job_id = p_job_id
+                    AND i.user_id = c.sold_by
+                    AND i.status = 'refunded'
+              )
+        )
+        SELECT count(*) INTO v_cancelled FROM cancelled;
+
+        IF v_organizer IS NOT NULL THEN
+            INSERT INTO notifications (user_id, type, title, body, data)
+            VALUES (
+                v_organizer,
+                'event_cancellation_finished',
+                CASE WHEN v_failed > 0 THEN 'Cancellation Finished With Errors' ELSE 'Cancellation Finished' END,
+                '"' || v_title || '": '
+                    || (SELECT count(*) FROM event_cancellation_items WHERE job_id = p_job_id AND status = 'refunded')
+                    || ' refunded, ' || v_failed || ' failed.',
+                jsonb_build_object('event_id', v_job.event_id, 'job_id', p_job_id)
+            );
+        END IF;
+    END IF;
+
+    UPDATE event_cancellation_jobs j
+    SET refunded_count = s.refunded,
+        skipped_count = s.skipped,
+        failed_count = s.failed,
+        refunded_cents = s.cents,
+        cancelled_tickets = j.cancelled_tickets + v_cancelled,
+        status = CASE
+            WHEN v_open > 0 THEN 'running'
+            WHEN s.failed > 0 THEN 'completed_with_errors'
+            ELSE 'completed'
+        END,
+        finished_at = CASE WHEN v_open > 0 THEN NULL ELSE COALESCE(j.finished_at, now()) END,
+        updated_at = now()
+    FROM (
+        SELECT count(*) FILTER (WHERE status = 'refunded') AS refunded,
+               count(*) FILTER (WHERE status = 'skipped') AS skipped,
+               count(*) FILTER (WHERE status = 'failed') AS failed,
+               COALESCE(sum(amount_cents) FILTER (WHERE status = 'refunded'), 0) AS cents
+        FROM event_cancellation_items WHERE job_id = p_job_id
+    ) s
+    WHERE j.id = p_job_id
+    RETURNING j.* INTO v_job;
+
+    RETURN v_job;
+END;
+$$;
+
+-- Puts a job's failed items back in the queue
+CREATE OR REPLACE FUNCTION retry_event_cancellation(p_job_id UUID)
+RETURNS event_cancellation_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE event_cancellation_items
+    SET status = 'pending',
+        retries = retries + 1,
+        attempts = 0,
+        locked_until = NULL,
+        updated_at = now()
+    WHERE job_id = p_job_id
+      AND status = 'failed';
+
+    UPDATE event_cancellation_jobs
+    SET status = 'running', updated_at = now()
+    WHERE id = p_job_id;
+
+    RETURN refresh_event_cancellation_job(p_job_id);
+END;
+$$;
+
+-- ── Access ──────────────────────────────────────────────────
+
+REVOKE ALL ON FUNCTION start_event_cancellation(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION claim_event_cancellation_items(UUID, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION record_event_cancellation_refund(UUID, TEXT, INT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION refresh_event_cancellation_job(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION retry_event_cancellation(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION start_event_cancellation(UUID, UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION claim_event_cancellation_items(UUID, INTEGER, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION record_event_cancellation_refund(UUID, TEXT, INT) TO service_role;
+GRANT EXECUTE ON FUNCTION refresh_event_cancellation_job(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION retry_event_cancellation(UUID) TO service_role;
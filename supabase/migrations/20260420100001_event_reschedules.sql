@@ -0,0 +1,305 @@
+-- ============================================================
+-- Event rescheduling
+-- ============================================================
+-- Cancelling was the only way out when a show moved. reschedule_event
+-- moves an event to a new date and keeps every ticket valid:
+--
+--   * event_reschedules               one row per date change, with the
+--                                     refund window it opened
+--   * events.reschedule_refund_until  until then, holders who can't make
+--                                     the new date get a full refund, fees
+--                                     included (_shared/refunds.ts)
+--   * events.resale_paused_until      resale listing and buying are blocked
+--                                     until the same time, so tickets don't
+--                                     change hands while holders decide
+--
+-- Ticket holders are notified, and every minted ticket NFT gets a
+-- 'refresh' queue entry: refresh-ticket-nfts re-locks its reference NFT
+-- with a datum carrying the new date. The reschedule-event function then
+-- pushes the new date to Apple and Google wallet passes.
+
+-- ── Events ──────────────────────────────────────────────────
+
+ALTER TABLE events
+    ADD COLUMN IF NOT EXISTS reschedule_refund_until TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS resale_paused_until TIMESTAMPTZ;
+
+COMMENT ON COLUMN events.reschedule_refund_until IS 'End of the full-refund window opened by the latest reschedule';
+COMMENT ON COLUMN events.resale_paused_until IS 'Resale is blocked until this time (set while a reschedule''s refund window is open)';
+
+-- ── Reschedules ─────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS event_reschedules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+    requested_by UUID REFERENCES auth.users(id),
+    previous_date TIMESTAMPTZ,
+    new_date TIMESTAMPTZ NOT NULL,
+    reason TEXT,
+    refund_until TIMESTAMPTZ,
+    notified_holders INT NOT NULL DEFAULT 0,
+    nft_refreshes INT NOT NULL DEFAULT 0,
+    wallet_passes_updated INT NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_reschedules_event
+    ON event_reschedules(event_id, created_at DESC);
+
+COMMENT ON COLUMN event_reschedules.refund_until IS 'End of the full-refund window; NULL when the reschedule opened none';
+COMMENT ON COLUMN event_reschedules.nft_refreshes IS 'Ticket NFTs queued for a reference datum refresh';
+COMMENT ON COLUMN event_reschedules.wallet_passes_updated IS 'Apple and Google passes update-wallet-passes pushed the new date to';
+
+ALTER TABLE event_reschedules ENABLE ROW LEVEL SECURITY;
+
+-- Writes go through reschedule-event (service role)
+DROP POLICY IF EXISTS "Organizers can view their event reschedules" ON event_reschedules;
+CREATE POLICY "Organizers can view their event reschedules"
+    ON event_reschedules FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM events e
+            WHERE e.id = event_reschedules.event_id
+            AND e.organizer_id = auth.uid()
+        )
+    );
+
+-- ── NFT queue: datum refreshes ──────────────────────────────
+
+ALTER TABLE nft_mint_queue DROP CONSTRAINT IF EXISTS nft_mint_queue_action_check;
+ALTER TABLE nft_mint_queue ADD CONSTRAINT nft_mint_queue_action_check
+    CHECK (action IN ('mint', 'transfer', 'burn', 'refresh'));
+
+ALTER TABLE nft_mint_queue DROP CONSTRAINT IF EXISTS nft_mint_queue_status_check;
+ALTER TABLE nft_mint_queue ADD CONSTRAINT nft_mint_queue_status_check
+    CHECK (status IN (
+        'queued', 'minting', 'minted', 'failed', 'skipped',
+        'transferring', 'transferred',
+        'burning', 'burned',
+        'refreshing', 'refreshed'
+    ));
+
+CREATE INDEX IF NOT EXISTS idx_nft_mint_queue_refresh_claim ON nft_mint_queue(event_id, created_at)
+    WHERE action = 'refresh' AND status = 'queued';
+
+-- Claim up to p_limit queued refreshes for one event and mark them
+-- 'refreshing'; like claim_nft_mint_batch, the oldest event goes first
+-- when none is given.
+CREATE OR REPLACE FUNCTION claim_nft_refresh_batch(
+    p_event_id UUID DEFAULT NULL,
+    p_limit INTEGER DEFAULT 40
+)
+RETURNS SETOF nft_mint_queue
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_event_id UUID := p_event_id;
+BEGIN
+    IF v_event_id IS NULL THEN
+        SELECT q.event_id INTO v_event_id
+        FROM nft_mint_queue q
+        WHERE q.action = 'refresh' AND q.status = 'queued'
+        ORDER BY q.created_at
+        LIMIT 1;
+
+        IF v_event_id IS NULL THEN
+            RETURN;
+        END IF;
+    END IF;
+
+    RETURN QUERY
+    WITH claimed AS (
+        UPDATE nft_mint_queue q
+        SET status = 'refreshing'
+        WHERE q.id IN (
+            SELECT c.id
+            FROM nft_mint_queue c
+            WHERE c.event_id = v_event_id
+              AND c.action = 'refresh'
+              AND c.status = 'queued'
+            ORDER BY c.created_at
+            LIMIT p_limit
+            FOR UPDATE SKIP LOCKED
+        )
+        RETURNING q.*
+    )
+    SELECT * FROM claimed ORDER BY claimed.created_at;
+END;
+$$;
+
+-- ── Resale pause ────────────────────────────────────────────
+
+-- As in 20260417100001_resale_policy.sql, plus the reschedule pause
+CREATE OR REPLACE FUNCTION enforce_resale_policy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_event RECORD;
+    v_face INT;
+BEGIN
+    IF NEW.status <> 'active' THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT e.date, e.resale_max_price_percent, e.resale_min_price_percent,
+           e.resale_opens_at, e.resale_closes_minutes_before, e.resale_paused_until
+    INTO v_event
+    FROM events e
+    JOIN tickets t ON t.event_id = e.id
+    WHERE t.id = NEW.ticket_id;
+
+    IF v_event.resale_opens_at IS NOT NULL AND now() < v_event.resale_opens_at THEN
+        RAISE EXCEPTION 'Resale has not opened yet for this event';
+    END IF;
+
+    IF v_event.resale_paused_until IS NOT NULL AND now() < v_event.resale_paused_until THEN
+        RAISE EXCEPTION 'Resale is paused while this event is rescheduled';
+    END IF;
+
+    IF v_event.resale_closes_minutes_before IS NOT NULL
+       AND now() >= v_event.date - make_interval(mins => v_event.resale_closes_minutes_before) THEN
+        RAISE EXCEPTION 'Resale has closed for this event';
+    END IF;
+
+    v_face := ticket_face_value_cents(NEW.ticket_id);
+    IF v_face > 0 THEN
+        -- Integer division rounds the cap down; the minimum rounds up
+        IF v_event.resale_max_price_percent IS NOT NULL
+           AND NEW.price_cents > v_face * v_event.resale_max_price_percent / 100 THEN
+            IF v_event.resale_max_price_percent = 100 THEN
+                RAISE EXCEPTION 'The organizer only allows resale at face value';
+            END IF;
+            RAISE EXCEPTION 'The price is above the organizer''s resale cap';
+        END IF;
+
+        IF v_event.resale_min_price_percent IS NOT NULL
+           AND NEW.price_cents < ceil(v_face * v_event.resale_min_price_percent / 100.0) THEN
+            RAISE EXCEPTION 'The price is below the organizer''s resale minimum';
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- ── Rescheduling ────────────────────────────────────────────
+
+-- Moves the event to p_new_date, opens the refund window (and resale
+-- pause) until p_refund_until, notifies holders of valid tickets and
+-- queues NFT refreshes. A NULL p_refund_until opens no window and lifts
+-- any pause left by an earlier reschedule.
+CREATE OR REPLACE FUNCTION reschedule_event(
+    p_event_id UUID,
+    p_new_date TIMESTAMPTZ,
+    p_requested_by UUID,
+    p_reason TEXT DEFAULT NULL,
+    p_refund_until TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS event_reschedules
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_event RECORD;
+    v_reschedule event_reschedules;
+    v_notified INT;
+    v_refreshes INT;
+BEGIN
+    SELECT id, title, date, deleted_at INTO v_event
+    FROM events WHERE id = p_event_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Event not found';
+    END IF;
+    IF v_event.deleted_at IS NOT NULL THEN
+        RAISE EXCEPTION 'Cancelled events can''t be rescheduled';
+    END IF;
+    IF p_new_date <= now() THEN
+        RAISE EXCEPTION 'The new date must be in the future';
+    END IF;
+    IF v_event.date IS NOT DISTINCT FROM p_new_date THEN
+        RAISE EXCEPTION 'The event is already on that date';
+    END IF;
+    IF p_refund_until IS NOT NULL AND (p_refund_until <= now() OR p_refund_until > p_new_date) THEN
+        RAISE EXCEPTION 'The refund window must end between now and the new date';
+    END IF;
+
+    UPDATE events
+    SET date = p_new_date,
+        reschedule_refund_until = p_refund_until,
+        resale_paused_until = p_refund_until,
+        updated_at = now()
+    WHERE id = p_event_id;
+
+    INSERT INTO event_reschedules (event_id, requested_by, previous_date, new_date, reason, refund_until)
+    VALUES (p_event_id, p_requested_by, v_event.date, p_new_date, p_reason, p_refund_until)
+    RETURNING * INTO v_reschedule;
+
+    INSERT INTO notifications (user_id, type, title, body, data)
+    SELECT DISTINCT t.sold_by,
+        'event_rescheduled',
+        'Event Rescheduled',
+        '"' || v_event.title || '" has moved to a new date. Your ticket is still valid.'
+            || CASE WHEN p_refund_until IS NOT NULL
+                    THEN ' Can''t make it? You can get a full refund from your ticket for a limited time.'
+                    ELSE '' END,
+        jsonb_build_object(
+            'event_id', p_event_id,
+            'event_title', v_event.title,
+            'previous_date', v_event.date,
+            'new_date', p_new_date,
+            'refund_until', p_refund_until
+        )
+    FROM tickets t
+    WHERE t.event_id = p_event_id
+      AND t.status = 'valid'
+      AND t.sold_by IS NOT NULL;
+    GET DIAGNOSTICS v_notified = ROW_COUNT;
+
+    -- The datum keeps the holder named by the ticket's latest transfer
+    INSERT INTO nft_mint_queue (ticket_id, event_id, buyer_address, action, status)
+    SELECT t.id, t.event_id, holder.buyer_address, 'refresh', 'queued'
+    FROM tickets t
+    CROSS JOIN LATERAL (
+        SELECT q.buyer_address
+        FROM nft_mint_queue q
+        WHERE q.ticket_id = t.id
+          AND q.action IN ('mint', 'transfer')
+          AND q.tx_hash IS NOT NULL
+        ORDER BY q.created_at DESC
+        LIMIT 1
+    ) holder
+    WHERE t.event_id = p_event_id
+      AND t.status = 'valid'
+      AND t.nft_minted
+      AND NOT t.nft_burned
+      AND NOT EXISTS (
+          SELECT 1 FROM nft_mint_queue r
+          WHERE r.ticket_id = t.id
+            AND r.action = 'refresh'
+            AND r.status IN ('queued', 'refreshing')
+      );
+    GET DIAGNOSTICS v_refreshes = ROW_COUNT;
+
+    UPDATE event_reschedules
+    SET notified_holders = v_notified,
+        nft_refreshes = v_refreshes
+    WHERE id = v_reschedule.id
+    RETURNING * INTO v_reschedule;
+
+    RETURN v_reschedule;
+END;
+$$;
+
+-- ── Access ──────────────────────────────────────────────────
+
+REVOKE ALL ON FUNCTION claim_nft_refresh_batch(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION reschedule_event(UUID, TIMESTAMPTZ, UUID, TEXT, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_nft_refresh_batch(UUID, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION reschedule_event(UUID, TIMESTAMPTZ, UUID, TEXT, TIMESTAMPTZ) TO service_role;
@@ -0,0 +1,472 @@
+-- ============================================================
+-- Waitlist fairness: claim windows and lottery mode
+-- ============================================================
+-- process-waitlist used to notify every 'notify' entry of a batch at once,
+-- so whoever tapped fastest won, and 'auto_buy' entries further down the
+-- queue could be charged before notified users got to pay. Organizers now
+-- pick a waitlist mode per event (_shared/waitlist.ts):
+--
+--   * fifo          the old behaviour, and the default
+--   * claim_window  entries are served one at a time in queue order. An
+--                   auto-buy entry is charged in its turn; a notify entry
+--                   is offered the ticket exclusively for
+--                   waitlist_claim_minutes, with the resale listing held
+--                   for it, and the offer then rolls to the next entry
+--   * lottery       claim windows, served in a random order for entries
+--                   registered before waitlist_lottery_cutoff; later
+--                   entries follow in the order they joined
+--
+-- Offers: offer_waitlist_entry moves an entry to 'offered' and reserves
+-- the listing (resale_listings.reserved_for / reserved_until), which
+-- create-resale-intent refuses to sell to anyone else. A sale of the
+-- listing to the holder marks the entry 'purchased'; a sale to someone
+-- else or a cancelled listing puts the entry back in the queue in its old
+-- place, and leaving the waitlist releases the hold. expire_waitlist_offers
+-- marks lapsed offers 'missed' and releases their holds, and finds the
+-- events whose offers closed under them; the scheduled process-waitlist
+-- call then rolls each one on.
+-- Offers made without a listing (capacity added, manual runs) hold no
+-- ticket, but still go to one entry at a time.
+--
+-- Lottery: setting the cutoff creates a waitlist_lotteries row with a
+-- random seed, of which only the SHA-256 commitment is published. Once the
+-- cutoff passes, process-waitlist ranks the entries by
+-- sha256(seed || ':' || entry id) and record_waitlist_lottery_draw stores
+-- the ranks and reveals the seed, so anyone can check the order.
+
+-- ── Event waitlist settings ─────────────────────────────────
+
+ALTER TABLE events
+    ADD COLUMN IF NOT EXISTS waitlist_mode TEXT NOT NULL DEFAULT 'fifo'
+        CHECK (waitlist_mode IN ('fifo', 'claim_window', 'lottery')),
+    ADD COLUMN IF NOT EXISTS waitlist_claim_minutes INT NOT NULL DEFAULT 15
+        CHECK (waitlist_claim_minutes BETWEEN 5 AND 1440),
+    ADD COLUMN IF NOT EXISTS waitlist_lottery_cutoff TIMESTAMPTZ;
+
+ALTER TABLE events DROP CONSTRAINT IF EXISTS events_waitlist_lottery_cutoff;
+ALTER TABLE events ADD CONSTRAINT events_waitlist_lottery_cutoff
+    CHECK (waitlist_mode <> 'lottery' OR waitlist_lottery_cutoff IS NOT NULL);
+
+COMMENT ON COLUMN events.waitlist_mode IS 'fifo (notify everyone at once), claim_window (one exclusive offer at a time) or lottery (claim windows in a drawn order)';
+COMMENT ON COLUMN events.waitlist_claim_minutes IS 'How long a claim_window or lottery offer is held for one entry';
+COMMENT ON COLUMN events.waitlist_lottery_cutoff IS 'Entries registered before this are drawn in random order';
+
+-- ── Waitlist entries: offers and lottery ranks ──────────────
+
+ALTER TABLE waitlist_entries
+    ADD COLUMN IF NOT EXISTS offered_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS offer_expires_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS offer_listing_id UUID REFERENCES resale_listings(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS lottery_rank INT;
+
+-- offered → an exclusive claim window is open
+-- missed  → the window closed without a purchase
+ALTER TABLE waitlist_entries DROP CONSTRAINT IF EXISTS waitlist_entries_status_check;
+ALTER TABLE waitlist_entries ADD CONSTRAINT waitlist_entries_status_check
+    CHECK (status IN ('active', 'offered', 'notified', 'purchased', 'cancelled', 'expired', 'failed', 'missed'));
+
+COMMENT ON COLUMN waitlist_entries.offer_expires_at IS 'End of the entry''s exclusive claim window while status = offered';
+COMMENT ON COLUMN waitlist_entries.offer_listing_id IS 'Resale listing held for the offer; NULL when the offer holds no ticket';
+COMMENT ON COLUMN waitlist_entries.lottery_rank IS 'Place drawn by the event''s waitlist lottery; NULL for entries after the cutoff';
+
+-- An entry with an open offer still counts as the user's place in line
+DROP INDEX IF EXISTS idx_waitlist_one_active_per_user;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_waitlist_one_active_per_user
+    ON waitlist_entries (event_id, user_id)
+    WHERE status IN ('active', 'offered');
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_queue_order
+    ON waitlist_entries (event_id, lottery_rank, created_at)
+    WHERE status = 'active';
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_open_offers
+    ON waitlist_entries (offer_expires_at)
+    WHERE status = 'offered';
+
+-- ── Resale listing holds ────────────────────────────────────
+
+ALTER TABLE resale_listings
+    ADD COLUMN IF NOT EXISTS reserved_for UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS reserved_until TIMESTAMPTZ;
+
+COMMENT ON COLUMN resale_listings.reserved_for IS 'Waitlist user the listing is held for until reserved_until';
+
+-- ── Lotteries ───────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS waitlist_lotteries (
+    event_id UUID PRIMARY KEY REFERENCES events(id) ON DELETE CASCADE,
+    seed TEXT NOT NULL,
+    seed_commitment TEXT NOT NULL,
+    cutoff_at TIMESTAMPTZ NOT NULL,
+    drawn_at TIMESTAMPTZ,
+    ranked_entry_ids UUID[],
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN waitlist_lotteries.seed IS 'Kept secret until the draw; read it through get_waitlist_lottery';
+COMMENT ON COLUMN waitlist_lotteries.seed_commitment IS 'SHA-256 of the seed, published from the start';
+COMMENT ON COLUMN waitlist_lotteries.ranked_entry_ids IS 'Entries registered before the cutoff, in drawn order';
+
+-- No policies: the seed must not leak before the draw
+ALTER TABLE waitlist_lotteries ENABLE ROW LEVEL SECURITY;
+
+-- A lottery gets its seed when the organizer first sets a cutoff. The
+-- cutoff can move until the draw, the seed never does. Switching to
+-- another mode before the draw discards the lottery.
+CREATE OR REPLACE FUNCTION sync_waitlist_lottery()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_lottery waitlist_lotteries%ROWTYPE;
+    v_seed TEXT;
+BEGIN
+    IF NEW.waitlist_mode <> 'lottery' THEN
+        DELETE FROM waitlist_lotteries WHERE event_id = NEW.id AND drawn_at IS NULL;
+        RETURN NEW;
+    END IF;
+
+    SELECT * INTO v_lottery FROM waitlist_lotteries WHERE event_id = NEW.id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        v_seed := encode(sha256(convert_to(
+            gen_random_uuid()::TEXT || gen_random_uuid()::TEXT || clock_timestamp()::TEXT, 'UTF8'
+        )), 'hex');
+        INSERT INTO waitlist_lotteries (event_id, seed, seed_commitment, cutoff_at)
+        VALUES (NEW.id, v_seed, encode(sha256(convert_to(v_seed, 'UTF8')), 'hex'), NEW.waitlist_lottery_cutoff);
+    ELSIF v_lottery.drawn_at IS NULL THEN
+        UPDATE waitlist_lotteries SET cutoff_at = NEW.waitlist_lottery_cutoff WHERE event_id = NEW.id;
+    ELSIF v_lottery.cutoff_at IS DISTINCT FROM NEW.waitlist_lottery_cutoff THEN
+        RAISE EXCEPTION 'The waitlist lottery has already been drawn';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_sync_waitlist_lottery ON events;
+CREATE TRIGGER trg_sync_waitlist_lottery
+    AFTER INSERT OR UPDATE OF waitlist_mode, waitlist_lottery_cutoff ON events
+    FOR EACH ROW EXECUTE FUNCTION sync_waitlist_lottery();
+
+-- What anyone may see of an event's lottery: the commitment from the
+-- start, the seed and the drawn order once drawn. A lottery switched off
+-- before its draw no longer shows.
+CREATE OR REPLACE FUNCTION get_waitlist_lottery(p_event_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT jsonb_build_object(
+        'event_id', l.event_id,
+        'seed_commitment', l.seed_commitment,
+        'cutoff_at', l.cutoff_at,
+        'drawn_at', l.drawn_at,
+        'seed', CASE WHEN l.drawn_at IS NOT NULL THEN l.seed END,
+        'ranked_entry_ids', CASE WHEN l.drawn_at IS NOT NULL THEN to_jsonb(l.ranked_entry_ids) END
+    )
+    FROM waitlist_lotteries l
+    JOIN events e ON e.id = l.event_id
+    WHERE l.event_id = p_event_id
+      AND (e.waitlist_mode = 'lottery' OR l.drawn_at IS NOT NULL);
+$$;
+
+-- Store the order process-waitlist drew. p_entry_ids must be exactly the
+-- entries waiting since before the cutoff, so none can be left out; a
+-- second call returns the first draw unchanged.
+CREATE OR REPLACE FUNCTION record_waitlist_lottery_draw(
+    p_event_id UUID,
+    p_entry_ids UUID[]
+)
+RETURNS waitlist_lotteries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_lottery waitlist_lotteries%ROWTYPE;
+BEGIN
+    SELECT * INTO v_lottery FROM waitlist_lotteries WHERE event_id = p_event_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Event has no waitlist lottery';
+    END IF;
+    IF v_lottery.drawn_at IS NOT NULL THEN
+        RETURN v_lottery;
+    END IF;
+    IF now() < v_lottery.cutoff_at THEN
+        RAISE EXCEPTION 'The waitlist lottery cutoff has not passed';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM waitlist_entries
+        WHERE event_id = p_event_id
+          AND status = 'active'
+          AND created_at < v_lottery.cutoff_at
+          AND NOT (id = ANY(COALESCE(p_entry_ids, '{}')))
+    ) THEN
+        RAISE EXCEPTION 'Waitlist entries changed during the draw';
+    END IF;
+
+    UPDATE waitlist_entries w
+    SET lottery_rank = r.rank
+    FROM unnest(p_entry_ids) WITH ORDINALITY AS r(entry_id, rank)
+    WHERE w.id = r.entry_id
+      AND w.event_id = p_event_id;
+
+    UPDATE waitlist_lotteries
+    SET drawn_at = now(),
+        ranked_entry_ids = COALESCE(p_entry_ids, '{}')
+    WHERE event_id = p_event_id
+    RETURNING * INTO v_lottery;
+
+    RETURN v_lottery;
+END;
+$$;
+
+-- ── Queue order ─────────────────────────────────────────────
+
+-- Drawn lottery places first, then everyone else in the order they joined
+CREATE OR REPLACE FUNCTION get_waitlist_queue(
+  p_event_id UUID,
+  p_mode TEXT DEFAULT NULL,
+  p_limit INT DEFAULT 50
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  mode TEXT,
+  max_price_cents INT,
+  payment_method_id TEXT,
+  stripe_customer_id TEXT,
+  created_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    w.id,
+    w.user_id,
+    w.mode,
+    w.max_price_cents,
+    w.payment_method_id,
+    w.stripe_customer_id,
+    w.created_at
+  FROM waitlist_entries w
+  WHERE w.event_id = p_event_id
+    AND w.status = 'active'
+    AND (p_mode IS NULL OR w.mode = p_mode)
+  ORDER BY w.lottery_rank ASC NULLS LAST, w.created_at ASC
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ── Offers ──────────────────────────────────────────────────
+
+-- Offer the ticket to one entry for p_minutes, holding p_listing_id for it.
+-- Returns NULL when the entry is no longer waiting, the listing is gone or
+-- already held, or (without a listing) another offer is still open.
+CREATE OR REPLACE FUNCTION offer_waitlist_entry(
+    p_entry_id UUID,
+    p_listing_id UUID,
+    p_minutes INT
+)
+RETURNS waitlist_entries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_entry waitlist_entries%ROWTYPE;
+    v_listing resale_listings%ROWTYPE;
+    v_expires_at TIMESTAMPTZ;
+BEGIN
+    SELECT * INTO v_entry FROM waitlist_entries WHERE id = p_entry_id;
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    -- One offer decision at a time per event
+    PERFORM pg_advisory_xact_lock(hashtext('waitlist_offers:' || v_entry.event_id::TEXT));
+
+    SELECT * INTO v_entry FROM waitlist_entries WHERE id = p_entry_id FOR UPDATE;
+    IF v_entry.status <> 'active' THEN
+        RETURN NULL;
+    END IF;
+
+    v_expires_at := now() + make_interval(mins => LEAST(GREATEST(COALESCE(p_minutes, 15), 5), 1440));
+
+    IF p_listing_id IS NOT NULL THEN
+        SELECT * INTO v_listing FROM resale_listings WHERE id = p_listing_id FOR UPDATE;
+        IF NOT FOUND OR v_listing.status <> 'active'
+           OR (v_listing.reserved_until IS NOT NULL AND v_listing.reserved_until > now()) THEN
+            RETURN NULL;
+        END IF;
+
+        UPDATE resale_listings
+        SET reserved_for = v_entry.user_id,
+            reserved_until = v_expires_at
+        WHERE id = p_listing_id;
+    ELSIF EXISTS (
+        SELECT 1 FROM waitlist_entries
+        WHERE event_id = v_entry.event_id
+          AND status = 'offered'
+          AND offer_listing_id IS NULL
+          AND offer_expires_at > now()
+    ) THEN
+        RETURN NULL;
+    END IF;
+
+    UPDATE waitlist_entries
+    SET status = 'offered',
+        offered_at = now(),
+        offer_expires_at = v_expires_at,
+        offer_listing_id = p_listing_id
+    WHERE id = p_entry_id
+    RETURNING * INTO v_entry;
+
+    RETURN v_entry;
+END;
+$$;
+
+-- Close lapsed offers and release their holds. Returns what to offer next:
+-- each listing that is still for sale, or the event for offers without one,
+-- and for events whose held listing went away, their oldest unheld listing.
+CREATE OR REPLACE FUNCTION expire_waitlist_offers()
+RETURNS TABLE (event_id UUID, listing_id UUID)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    RETURN QUERY
+    WITH lapsed AS (
+        UPDATE waitlist_entries w
+        SET status = 'missed'
+        WHERE w.status = 'offered'
+          AND w.offer_expires_at <= now()
+        RETURNING w.event_id, w.user_id, w.offer_listing_id
+    ),
+    released AS (
+        UPDATE resale_listings l
+        SET reserved_for = NULL,
+            reserved_until = NULL
+        FROM lapsed
+        WHERE l.id = lapsed.offer_listing_id
+          AND l.reserved_for = lapsed.user_id
+        RETURNING l.id, l.status
+    ),
+    requeued AS (
+        UPDATE waitlist_entries w
+        SET offer_listing_id = NULL
+        WHERE w.status = 'active'
+          AND w.offer_listing_id IS NOT NULL
+        RETURNING w.event_id
+    )
+    SELECT DISTINCT lapsed.event_id, lapsed.offer_listing_id
+    FROM lapsed
+    LEFT JOIN released ON released.id = lapsed.offer_listing_id
+    WHERE lapsed.offer_listing_id IS NULL
+       OR released.status = 'active'
+    UNION
+    (
+        SELECT DISTINCT ON (requeued.event_id) requeued.event_id, l.id
+        FROM requeued
+        JOIN tickets t ON t.event_id = requeued.event_id
+        JOIN resale_listings l ON l.ticket_id = t.id
+        WHERE l.status = 'active'
+          AND (l.reserved_until IS NULL OR l.reserved_until <= now())
+        ORDER BY requeued.event_id, l.created_at
+    );
+END;
+$$;
+
+-- A held listing that stops being for sale closes its offer: bought by the
+-- holder, the entry is done; otherwise it goes back to its place in line.
+-- A requeued entry keeps offer_listing_id until expire_waitlist_offers
+-- hands its event to the next scheduled run.
+CREATE OR REPLACE FUNCTION close_waitlist_offer_on_listing_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE waitlist_entries w
+    SET status = CASE
+            WHEN NEW.status = 'sold' AND EXISTS (
+                SELECT 1 FROM tickets t WHERE t.id = NEW.ticket_id AND t.sold_by = w.user_id
+            ) THEN 'purchased'
+            ELSE 'active'
+        END,
+        offer_expires_at = NULL
+    WHERE w.offer_listing_id = NEW.id
+      AND w.status = 'offered';
+
+    NEW.reserved_for := NULL;
+    NEW.reserved_until := NULL;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_close_waitlist_offer ON resale_listings;
+CREATE TRIGGER trg_close_waitlist_offer
+    BEFORE UPDATE OF status ON resale_listings
+    FOR EACH ROW
+    WHEN (OLD.status = 'active' AND NEW.status <> 'active')
+    EXECUTE FUNCTION close_waitlist_offer_on_listing_change();
+
+-- Leaving the waitlist during a claim window gives the held ticket up
+CREATE OR REPLACE FUNCTION release_waitlist_hold_on_leave()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE resale_listings
+    SET reserved_for = NULL,
+        reserved_until = NULL
+    WHERE id = OLD.offer_listing_id
+      AND reserved_for = OLD.user_id;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_release_waitlist_hold ON waitlist_entries;
+CREATE TRIGGER trg_release_waitlist_hold
+    AFTER UPDATE OF status ON waitlist_entries
+    FOR EACH ROW
+    WHEN (OLD.status = 'offered' AND NEW.status = 'cancelled' AND OLD.offer_listing_id IS NOT NULL)
+    EXECUTE FUNCTION release_waitlist_hold_on_leave();
+
+-- Past events also close open offers
+CREATE OR REPLACE FUNCTION expire_past_event_waitlists()
+RETURNS INT AS $$
+DECLARE
+  expired_count INT;
+BEGIN
+  UPDATE waitlist_entries
+  SET status = 'expired'
+  WHERE status IN ('active', 'offered')
+    AND event_id IN (
+      SELECT id FROM events
+      WHERE date < now() - INTERVAL '1 hour'
+    );
+
+  GET DIAGNOSTICS expired_count = ROW_COUNT;
+  RETURN expired_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ── Access ──────────────────────────────────────────────────
+
+REVOKE ALL ON FUNCTION record_waitlist_lottery_draw(UUID, UUID[]) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION offer_waitlist_entry(UUID, UUID, INT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION expire_waitlist_offers() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_waitlist_lottery_draw(UUID, UUID[]) TO service_role;
+GRANT EXECUTE ON FUNCTION offer_waitlist_entry(UUID, UUID, INT) TO service_role;
+GRANT EXECUTE ON FUNCTION expire_waitlist_offers() TO service_role;
+GRANT EXECUTE ON FUNCTION get_waitlist_lottery(UUID) TO anon, authenticated;
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+import { writeAuditLog } from "@/lib/utils/audit";
+
+// Progress of the event's cancellation job and its failed refunds
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: eventId } = await params;
+  const admin = createAdminClient();
+
+  const { data: job, error } = await admin
+    .from("event_cancellation_jobs")
+    .select("*")
+    .eq("event_id", eventId)
+    .maybeSingle();
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+  if (!job) {
+    return NextResponse.json({ job: null, failed: [] });
+  }
+
+  const { data: failed } = await admin
+    .from("event_cancellation_items")
+    .select("*")
+    .eq("job_id", job.id)
+    .eq("status", "failed")
+    .order("processed_at", { ascending: false })
+    .limit(100);
+
+  return NextResponse.json({ job, failed: failed ?? [] });
+}
+
+// Queue the job's failed refunds again
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const serverClient = await createServerSupabaseClient();
+  const {
+    data: { session },
+  } = await serverClient.auth.getSession();
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id: eventId } = await params;
+  const admin = createAdminClient();
+
+  const { data: job } = await admin
+    .from("event_cancellation_jobs")
+    .select("id, failed_count")
+    .eq("event_id", eventId)
+    .maybeSingle();
+
+  if (!job) {
+    return NextResponse.json(
+      { error: "Event has no cancellation" },
+      { status: 404 }
+    );
+  }
+
+  // cancel-event treats the service role caller as a platform admin
+  const { data: result, error: invokeError } = await admin.functions.invoke(
+    "cancel-event",
+    {
+      body: {
+        job_id: job.id,
+        retry_failed: true,
+        admin_user_id: session.user.id,
+      },
+    }
+  );
+
+  if (invokeError) {
+    return NextResponse.json(
+      { error: invokeError.message ?? "Retry failed" },
+      { status: 500 }
+    );
+  }
+
+  await writeAuditLog({
+    admin_user_id: session.user.id,
+    action: "event_cancellation_retry",
+    target_table: "event_cancellation_jobs",
+    target_id: job.id,
+    old_values: { failed_count: job.failed_count },
+    new_values: {
+      status: result?.job?.status,
+      failed_count: result?.job?.failed_count,
+    },
+    details: { event_id: eventId },
+    ip_address: request.headers.get("x-forwarded-for") ?? undefined,
+  });
+
+  return NextResponse.json({ job: result?.job ?? null });
+}
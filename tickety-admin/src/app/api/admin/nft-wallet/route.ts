@@ -1,11 +1,39 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClient } from "@/lib/supabase/admin";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+import { writeAuditLog } from "@/lib/utils/audit";
 
-const BLOCKFROST_BASE = "https://cardano-preview.blockfrost.io/api/v0";
+// Mirrors NETWORKS in supabase/functions/_shared/cardano/platform.ts
+const NETWORKS: Record<string, { blockfrostBase: string; explorerUrl: string }> = {
+  preview: {
+    blockfrostBase: "https://cardano-preview.blockfrost.io/api/v0",
+    explorerUrl: "https://preview.cardanoscan.io",
+  },
+  preprod: {
+    blockfrostBase: "https://cardano-preprod.blockfrost.io/api/v0",
+    explorerUrl: "https://preprod.cardanoscan.io",
+  },
+  mainnet: {
+    blockfrostBase: "https://cardano-mainnet.blockfrost.io/api/v0",
+    explorerUrl: "https://cardanoscan.io",
+  },
+};
 const BLOCKFROST_PROJECT_ID = process.env.BLOCKFROST_PROJECT_ID ?? "";
 
-async function blockfrostGet(path: string) {
-  const res = await fetch(`${BLOCKFROST_BASE}${path}`, {
+async function cardanoNetwork(supabase: ReturnType<typeof createAdminClient>) {
+  const { data } = await supabase
+    .from("platform_cardano_config")
+    .select("value")
+    .eq("key", "network")
+    .maybeSingle();
+  const network = data?.value && data.value in NETWORKS ? data.value : "preview";
+  return { network, ...NETWORKS[network] };
+}
+
+async function blockfrostGet(network: string, path: string) {
+  // Project IDs are prefixed with their network; a mismatched one only 403s
+  if (!BLOCKFROST_PROJECT_ID.startsWith(network)) return null;
+  const res = await fetch(`${NETWORKS[network].blockfrostBase}${path}`, {
     headers: { project_id: BLOCKFROST_PROJECT_ID },
     next: { revalidate: 30 },
   });
@@ -16,6 +44,7 @@ async function blockfrostGet(path: string) {
 export async function GET(request: NextRequest) {
   const supabase = createAdminClient();
   const eventId = request.nextUrl.searchParams.get("event_id");
+  const { network, explorerUrl } = await cardanoNetwork(supabase);
 
   // If event_id is provided, return per-event NFT stats
   if (eventId) {
@@ -44,7 +73,7 @@ export async function GET(request: NextRequest) {
     }
 
     return NextResponse.json({
-      eventNft: { queue, policyId, entries: entries ?? [] },
+      eventNft: { queue, policyId, entries: entries ?? [], explorerUrl },
     });
   }
 
@@ -65,8 +94,8 @@ export async function GET(request: NextRequest) {
   // Fetch wallet balance from Blockfrost
   let balanceAda = 0;
   let utxoCount = 0;
-  if (mintingAddress && BLOCKFROST_PROJECT_ID) {
-    const addressInfo = await blockfrostGet(`/addresses/${mintingAddress}`);
+  if (mintingAddress) {
+    const addressInfo = await blockfrostGet(network, `/addresses/${mintingAddress}`);
     if (addressInfo) {
       const lovelace = addressInfo.amount?.find(
         (a: any) => a.unit === "lovelace"
@@ -75,7 +104,7 @@ export async function GET(request: NextRequest) {
         ? parseInt(lovelace.quantity) / 1_000_000
         : 0;
     }
-    const utxos = await blockfrostGet(`/addresses/${mintingAddress}/utxos`);
+    const utxos = await blockfrostGet(network, `/addresses/${mintingAddress}/utxos`);
     utxoCount = Array.isArray(utxos) ? utxos.length : 0;
   }
 
@@ -112,11 +141,42 @@ export async function GET(request: NextRequest) {
         .eq("status", "burned"),
       supabase
         .from("nft_mint_queue")
-        .select("id, ticket_id, event_id, buyer_address, status, tx_hash, policy_id, error_message, retry_count, action, created_at, updated_at")
+        .select("id, ticket_id, event_id, buyer_address, status, tx_hash, policy_id, error_message, retry_count, action, batch_id, fee_lovelace, created_at, updated_at")
         .order("created_at", { ascending: false })
         .limit(50),
     ]);
 
+  // Batch mint throughput over the last 24 hours
+  const since = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+  const [{ data: batches }, { data: mintedRows }] = await Promise.all([
+    supabase
+      .from("nft_mint_batches")
+      .select("ticket_count, fee_lovelace, tx_size_bytes, submitted_at")
+      .in("status", ["submitted", "confirmed"])
+      .gte("submitted_at", since)
+      .order("submitted_at", { ascending: false })
+      .limit(1000),
+    supabase
+      .from("nft_mint_queue")
+      .select("created_at, updated_at")
+      .eq("action", "mint")
+      .eq("status", "minted")
+      .gte("updated_at", since)
+      .limit(1000),
+  ]);
+
+  let batchTickets = 0;
+  let batchFees = 0;
+  for (const batch of batches ?? []) {
+    batchTickets += batch.ticket_count;
+    batchFees += Number(batch.fee_lovelace ?? 0);
+  }
+  let waitMs = 0;
+  for (const row of mintedRows ?? []) {
+    waitMs += new Date(row.updated_at).getTime() - new Date(row.created_at).getTime();
+  }
+  const batchCount = batches?.length ?? 0;
+
   // Fetch NFT-enabled events count
   const { count: nftEnabledEvents } = await supabase
     .from("events")
@@ -124,6 +184,13 @@ export async function GET(request: NextRequest) {
     .eq("nft_enabled", true)
     .is("deleted_at", null);
 
+  // Signing key history (retired keys still sign for their policy)
+  const { data: signingKeys } = await supabase
+    .from("platform_signing_keys")
+    .select("id, status, policy_id, address, signing_key_secret, activated_at, retired_at")
+    .eq("network", network)
+    .order("activated_at", { ascending: false });
+
   // Fetch total minted tickets
   const { count: totalMintedTickets } = await supabase
     .from("tickets")
@@ -135,8 +202,10 @@ export async function GET(request: NextRequest) {
       address: mintingAddress,
       balanceAda,
       utxoCount,
-      network: "preview",
+      network,
+      explorerUrl,
     },
+    signingKeys: signingKeys ?? [],
     queue: {
       queued: queuedResult.count ?? 0,
       minting: mintingResult.count ?? 0,
@@ -150,6 +219,17 @@ export async function GET(request: NextRequest) {
       nftEnabledEvents: nftEnabledEvents ?? 0,
       totalMintedTickets: totalMintedTickets ?? 0,
     },
+    throughput: {
+      windowHours: 24,
+      batches: batchCount,
+      ticketsMinted: batchTickets,
+      ticketsPerHour: batchTickets / 24,
+      avgTicketsPerBatch: batchCount ? batchTickets / batchCount : 0,
+      feePerTicketAda: batchTickets ? batchFees / batchTickets / 1_000_000 : 0,
+      totalFeesAda: batchFees / 1_000_000,
+      avgWaitSeconds: mintedRows?.length ? waitMs / mintedRows.length / 1000 : 0,
+      lastBatch: batches?.[0] ?? null,
+    },
     recentQueue: recentResult.data ?? [],
   });
 }
@@ -196,5 +276,42 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ success: true });
   }
 
+  if (body.action === "rotate_key") {
+    const serverClient = await createServerSupabaseClient();
+    const {
+      data: { session },
+    } = await serverClient.auth.getSession();
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!body.signing_key_secret || !body.verify_key) {
+      return NextResponse.json(
+        { error: "signing_key_secret and verify_key are required" },
+        { status: 400 }
+      );
+    }
+
+    // The edge function reads the key from its own secrets and validates it
+    const { data: result, error } = await supabase.functions.invoke("rotate-platform-key", {
+      body: { signing_key_secret: body.signing_key_secret, verify_key: body.verify_key },
+    });
+    if (error) {
+      return NextResponse.json({ error: error.message ?? "Key rotation failed" }, { status: 500 });
+    }
+
+    await writeAuditLog({
+      admin_user_id: session.user.id,
+      action: "nft_key_rotation",
+      target_table: "platform_signing_keys",
+      target_id: result?.key_id,
+      old_values: { policy_id: result?.previous_policy_id },
+      new_values: { policy_id: result?.policy_id, address: result?.address },
+      details: { network: result?.network, signing_key_secret: body.signing_key_secret },
+      ip_address: request.headers.get("x-forwarded-for") ?? undefined,
+    });
+
+    return NextResponse.json({ success: true, ...result });
+  }
+
   return NextResponse.json({ error: "Invalid action" }, { status: 400 });
 }
@@ -3,6 +3,45 @@ import { createAdminClient } from "@/lib/supabase/admin";
 import { createServerSupabaseClient } from "@/lib/supabase/server";
 import { writeAuditLog } from "@/lib/utils/audit";
 
+// Tickets on a payment, for choosing which ones to refund
+export async function GET(request: NextRequest) {
+  const paymentId = request.nextUrl.searchParams.get("payment_id");
+  if (!paymentId) {
+    return NextResponse.json(
+      { error: "Missing payment_id" },
+      { status: 400 }
+    );
+  }
+
+  const admin = createAdminClient();
+
+  const { data: payment } = await admin
+    .from("payments")
+    .select("ticket_id, stripe_payment_intent_id")
+    .eq("id", paymentId)
+    .single();
+
+  if (!payment?.stripe_payment_intent_id) {
+    return NextResponse.json({ error: "Payment not found" }, { status: 404 });
+  }
+
+  const filter = payment.ticket_id
+    ? `stripe_payment_intent_id.eq.${payment.stripe_payment_intent_id},id.eq.${payment.ticket_id}`
+    : `stripe_payment_intent_id.eq.${payment.stripe_payment_intent_id}`;
+
+  const { data, error } = await admin
+    .from("tickets")
+    .select("id, ticket_number, owner_email, owner_name, status, price_paid_cents")
+    .or(filter)
+    .order("id");
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json(data ?? []);
+}
+
 export async function POST(request: NextRequest) {
   const serverClient = await createServerSupabaseClient();
   const {
@@ -14,7 +53,7 @@ export async function POST(request: NextRequest) {
   }
 
   const body = await request.json();
-  const { payment_id } = body;
+  const { payment_id, ticket_ids, percent, include_fees, reason } = body;
 
   if (!payment_id) {
     return NextResponse.json(
@@ -50,12 +89,16 @@ export async function POST(request: NextRequest) {
     );
   }
 
-  // Call the existing process-refund Edge Function
+  // process-refund treats the service role caller as a platform admin
   const { data: refundResult, error: refundError } =
     await admin.functions.invoke("process-refund", {
       body: {
-        payment_intent_id: payment.stripe_payment_intent_id,
         payment_id: payment.id,
+        ticket_ids: ticket_ids?.length ? ticket_ids : undefined,
+        percent,
+        include_fees,
+        reason,
+        admin_user_id: session.user.id,
       },
     });
 
@@ -71,9 +114,18 @@ export async function POST(request: NextRequest) {
     action: "payment_refund",
     target_table: "payments",
     target_id: payment_id,
-    old_values: { status: payment.status },
-    new_values: { status: "refunded" },
-    details: { stripe_payment_intent_id: payment.stripe_payment_intent_id },
+    old_values: { status: payment.status, refunded_cents: payment.refunded_cents },
+    new_values: {
+      status: refundResult?.payment?.status,
+      refunded_cents: refundResult?.payment?.refunded_cents,
+    },
+    details: {
+      stripe_payment_intent_id: payment.stripe_payment_intent_id,
+      refund_id: refundResult?.refund_id,
+      ticket_ids: ticket_ids ?? null,
+      percent: percent ?? 100,
+      include_fees: include_fees ?? true,
+    },
     ip_address: request.headers.get("x-forwarded-for") ?? undefined,
   });
 
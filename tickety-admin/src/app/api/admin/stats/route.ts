@@ -1,11 +1,20 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { createAdminClient } from "@/lib/supabase/admin";
+import { REPORTING_CURRENCIES } from "@/lib/utils/format";
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   const supabase = createAdminClient();
 
-  // Single RPC call — all aggregation happens server-side in SQL
-  const { data, error } = await supabase.rpc("get_admin_overview_stats");
+  const currency = (request.nextUrl.searchParams.get("currency") ?? "USD").toUpperCase();
+  if (!REPORTING_CURRENCIES.includes(currency)) {
+    return NextResponse.json({ error: "Unsupported currency" }, { status: 400 });
+  }
+
+  // Single RPC call — all aggregation (and conversion at each payment's
+  // daily rate) happens server-side in SQL
+  const { data, error } = await supabase.rpc("get_admin_overview_stats", {
+    p_reporting_currency: currency.toLowerCase(),
+  });
 
   if (error) {
     console.error("get_admin_overview_stats failed:", error);
@@ -14,6 +23,7 @@ export async function GET() {
 
   // Map snake_case RPC output to camelCase for frontend compatibility
   return NextResponse.json({
+    currency,
     totalUsers: data.total_users ?? 0,
     totalEvents: data.total_events ?? 0,
     totalRevenue: data.total_revenue ?? 0,
@@ -21,6 +31,8 @@ export async function GET() {
     ticketsSold30d: data.tickets_sold_30d ?? 0,
     platformFees30d: data.platform_fees_30d ?? 0,
     revenueWeekly: data.revenue_weekly ?? [],
+    revenueByCurrency: data.revenue_by_currency ?? [],
+    unconvertedCurrencies: data.unconverted_currencies ?? [],
     signupsWeekly: data.signups_weekly ?? [],
     tierDistribution: data.tier_distribution ?? [],
   });
@@ -31,54 +31,34 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: "Event not found" }, { status: 404 });
   }
 
-  // Determine which edge function to call based on event type
+  // Route to the edge function that originally handled the event
   const eventType = event.event_type as string;
-  let functionName = "stripe-webhook";
-  if (eventType.startsWith("account.")) {
-    functionName = "connect-webhook";
-  }
-
-  // Mark as processing
-  await admin
-    .from("webhook_events")
-    .update({ status: "processing" })
-    .eq("id", webhook_event_id);
+  const functionName =
+    (event.function_name as string | null) ??
+    (eventType.startsWith("account.") ? "connect-webhook" : "stripe-webhook");
 
-  // Re-invoke the edge function with the original payload
-  const startTime = Date.now();
+  // The edge function re-claims the ledger row and records status,
+  // processing time and any error itself — handlers are idempotent.
   const { error: invokeError } = await admin.functions.invoke(functionName, {
-    body: event.payload,
+    body: { replay_webhook_event_id: webhook_event_id },
   });
 
-  const processingTime = Date.now() - startTime;
+  const { data: replayed } = await admin
+    .from("webhook_events")
+    .select("status, error_message, processing_time_ms, attempts")
+    .eq("id", webhook_event_id)
+    .single();
 
   if (invokeError) {
-    await admin
-      .from("webhook_events")
-      .update({
-        status: "failed",
-        error_message: invokeError.message,
-        processing_time_ms: processingTime,
-        processed_at: new Date().toISOString(),
-      })
-      .eq("id", webhook_event_id);
-
     return NextResponse.json(
-      { error: invokeError.message, replayed: true },
+      {
+        error: replayed?.error_message ?? invokeError.message,
+        replayed: true,
+      },
       { status: 500 }
     );
   }
 
-  await admin
-    .from("webhook_events")
-    .update({
-      status: "succeeded",
-      error_message: null,
-      processing_time_ms: processingTime,
-      processed_at: new Date().toISOString(),
-    })
-    .eq("id", webhook_event_id);
-
   await writeAuditLog({
     admin_user_id: session.user.id,
     action: "webhook_replay",
@@ -92,5 +72,10 @@ export async function POST(request: NextRequest) {
     ip_address: request.headers.get("x-forwarded-for") ?? undefined,
   });
 
-  return NextResponse.json({ success: true, processing_time_ms: processingTime });
+  return NextResponse.json({
+    success: true,
+    status: replayed?.status,
+    attempts: replayed?.attempts,
+    processing_time_ms: replayed?.processing_time_ms ?? null,
+  });
 }
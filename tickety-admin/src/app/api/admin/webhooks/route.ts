@@ -23,6 +23,27 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ error: error.message }, { status: 500 });
   }
 
+  // Attach the routing failure for dead-lettered events
+  const deadLetteredIds = (data ?? [])
+    .filter((e) => e.status === "dead_lettered")
+    .map((e) => e.stripe_event_id);
+
+  const reasons = new Map<string, string>();
+  if (deadLetteredIds.length > 0) {
+    const { data: letters } = await supabase
+      .from("webhook_dead_letters")
+      .select("stripe_event_id, reason")
+      .in("stripe_event_id", deadLetteredIds);
+    for (const letter of letters ?? []) {
+      reasons.set(letter.stripe_event_id, letter.reason);
+    }
+  }
+
+  const events = (data ?? []).map((e) => ({
+    ...e,
+    dead_letter_reason: reasons.get(e.stripe_event_id) ?? null,
+  }));
+
   // Also get summary stats
   const [totalRes, failedRes, last24hRes] = await Promise.all([
     supabase
@@ -39,7 +60,7 @@ export async function GET(request: NextRequest) {
   ]);
 
   return NextResponse.json({
-    events: data ?? [],
+    events,
     stats: {
       total: totalRes.count ?? 0,
       failed: failedRes.count ?? 0,
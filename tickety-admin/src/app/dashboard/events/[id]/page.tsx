@@ -17,8 +17,15 @@ import {
 } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
 import { formatCents, formatDate, formatDateTime } from "@/lib/utils/format";
-import type { Event, EventTicketType, EventStaff, Profile } from "@/types/database";
-import { ArrowLeft, ShieldCheck, Ban, CheckCircle, RefreshCw, ExternalLink, Coins } from "lucide-react";
+import type {
+  Event,
+  EventCancellationItem,
+  EventCancellationJob,
+  EventTicketType,
+  EventStaff,
+  Profile,
+} from "@/types/database";
+import { ArrowLeft, ShieldCheck, Ban, CheckCircle, RefreshCw, ExternalLink, Coins, Undo2 } from "lucide-react";
 import Link from "next/link";
 
 interface EventEngagement {
@@ -49,6 +56,12 @@ interface NftEventStats {
   queue: Record<string, number>;
   policyId: string | null;
   entries: NftQueueEntry[];
+  explorerUrl: string;
+}
+
+interface CancellationProgress {
+  job: EventCancellationJob | null;
+  failed: EventCancellationItem[];
 }
 
 interface EventDetail {
@@ -76,6 +89,19 @@ export default function EventDetailPage() {
   const [retryLoading, setRetryLoading] = useState<string | null>(null);
   const [suspendOpen, setSuspendOpen] = useState(false);
   const [suspendReason, setSuspendReason] = useState("");
+  const [cancellation, setCancellation] = useState<CancellationProgress | null>(null);
+  const [cancellationRetrying, setCancellationRetrying] = useState(false);
+
+  const fetchCancellation = async () => {
+    try {
+      const res = await fetch(`/api/admin/events/${eventId}/cancellation`);
+      if (res.ok) {
+        setCancellation(await res.json());
+      }
+    } catch {
+      // Cancellation progress non-critical
+    }
+  };
 
   const fetchNftStats = async () => {
     try {
@@ -103,6 +129,9 @@ export default function EventDetailPage() {
           if (eventData.event?.nft_enabled) {
             fetchNftStats();
           }
+          if (eventData.event?.deleted_at) {
+            fetchCancellation();
+          }
         }
         if (engagementRes.ok) {
           setEngagement(await engagementRes.json());
@@ -115,6 +144,31 @@ export default function EventDetailPage() {
     fetchEvent();
   }, [eventId]);
 
+  // Follow a running cancellation until it finishes
+  const cancellationRunning = cancellation?.job?.status === "running";
+  useEffect(() => {
+    if (!cancellationRunning) return;
+    const timer = setInterval(async () => {
+      const res = await fetch(`/api/admin/events/${eventId}/cancellation`);
+      if (res.ok) setCancellation(await res.json());
+    }, 5000);
+    return () => clearInterval(timer);
+  }, [cancellationRunning, eventId]);
+
+  const handleRetryCancellation = async () => {
+    setCancellationRetrying(true);
+    try {
+      const res = await fetch(`/api/admin/events/${eventId}/cancellation`, {
+        method: "POST",
+      });
+      if (res.ok) {
+        await fetchCancellation();
+      }
+    } finally {
+      setCancellationRetrying(false);
+    }
+  };
+
   const handleRetryMint = async (queueId: string) => {
     setRetryLoading(queueId);
     try {
@@ -281,6 +335,18 @@ export default function EventDetailPage() {
         </DialogContent>
       </Dialog>
 
+      {/* Cancellation refunds */}
+      {cancellation?.job && (
+        <CancellationCard
+          job={cancellation.job}
+          currency={event.currency}
+          failed={cancellation.failed}
+          retrying={cancellationRetrying}
+          onRefresh={fetchCancellation}
+          onRetry={handleRetryCancellation}
+        />
+      )}
+
       <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
         {/* Event Info */}
         <Card className="border-zinc-800 bg-zinc-900">
@@ -477,7 +543,7 @@ export default function EventDetailPage() {
                   {nftStats.policyId}
                 </code>
                 <a
-                  href={`https://preview.cardanoscan.io/tokenPolicy/${nftStats.policyId}`}
+                  href={`${nftStats.explorerUrl}/tokenPolicy/${nftStats.policyId}`}
                   target="_blank"
                   rel="noopener noreferrer"
                   className="text-indigo-400 hover:text-indigo-300"
@@ -546,7 +612,7 @@ export default function EventDetailPage() {
                         {entry.ticket_id.slice(0, 8)}...
                       </span>
                       <a
-                        href={`https://preview.cardanoscan.io/transaction/${entry.tx_hash}`}
+                        href={`${nftStats.explorerUrl}/transaction/${entry.tx_hash}`}
                         target="_blank"
                         rel="noopener noreferrer"
                         className="flex items-center gap-1 text-xs text-indigo-400 hover:underline"
@@ -674,3 +740,143 @@ function InfoRow({
     </div>
   );
 }
+
+const cancellationStatusLabels: Record<EventCancellationJob["status"], string> = {
+  running: "Refunding",
+  completed: "Completed",
+  completed_with_errors: "Completed with errors",
+};
+
+function CancellationCard({
+  job,
+  currency,
+  failed,
+  retrying,
+  onRefresh,
+  onRetry,
+}: {
+  job: EventCancellationJob;
+  currency: string;
+  failed: EventCancellationItem[];
+  retrying: boolean;
+  onRefresh: () => void;
+  onRetry: () => void;
+}) {
+  const processed = job.refunded_count + job.skipped_count + job.failed_count;
+  const percent = job.total_payments > 0
+    ? Math.round((processed / job.total_payments) * 100)
+    : 100;
+
+  return (
+    <Card className="border-zinc-800 bg-zinc-900">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2 text-sm text-zinc-400">
+          <Undo2 className="h-4 w-4" />
+          Cancellation Refunds
+          <Badge
+            variant="outline"
+            className={
+              job.status === "completed"
+                ? "border-emerald-500/30 text-emerald-400"
+                : job.status === "running"
+                  ? "border-amber-500/30 text-amber-400"
+                  : "border-red-500/30 text-red-400"
+            }
+          >
+            {cancellationStatusLabels[job.status]}
+          </Badge>
+        </CardTitle>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onRefresh}
+          className="text-zinc-400 hover:text-white"
+        >
+          <RefreshCw className="h-3 w-3" />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-1">
+          <div className="h-2 overflow-hidden rounded bg-zinc-800">
+            <div
+              className={`h-full ${job.failed_count > 0 ? "bg-amber-500" : "bg-emerald-500"}`}
+              style={{ width: `${percent}%` }}
+            />
+          </div>
+          <p className="text-xs text-zinc-500">
+            {processed} of {job.total_payments} payments processed
+            {job.reason && ` · ${job.reason}`}
+            {job.finished_at && ` · finished ${formatDateTime(job.finished_at)}`}
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4 sm:grid-cols-5">
+          <InfoStat label="Refunded" value={job.refunded_count} className="text-emerald-400" />
+          <InfoStat label="Skipped" value={job.skipped_count} className="text-zinc-400" />
+          <InfoStat label="Failed" value={job.failed_count} className="text-red-400" />
+          <InfoStat label="Tickets cancelled" value={job.cancelled_tickets} className="text-zinc-400" />
+          <div>
+            <p className="text-xs text-zinc-500">Amount refunded</p>
+            <p className="text-lg font-bold text-white">{formatCents(job.refunded_cents, currency)}</p>
+          </div>
+        </div>
+
+        {failed.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <p className="text-xs font-medium text-red-400">Failed refunds</p>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={onRetry}
+                disabled={retrying || job.status === "running"}
+                className="border-amber-500/30 text-amber-400 hover:bg-amber-950/30"
+              >
+                {retrying ? (
+                  <RefreshCw className="h-3 w-3 animate-spin" />
+                ) : (
+                  "Retry failed refunds"
+                )}
+              </Button>
+            </div>
+            {failed.map((item) => (
+              <div
+                key={item.id}
+                className="rounded-lg border border-red-500/20 bg-red-950/20 p-3"
+              >
+                <span className="font-mono text-xs text-zinc-300">
+                  {item.payment_id.slice(0, 8)}...
+                </span>
+                {item.error_message && (
+                  <p className="mt-1 max-w-xl truncate text-xs text-red-400">
+                    {item.error_message}
+                  </p>
+                )}
+                {item.retries > 0 && (
+                  <p className="text-xs text-zinc-600">{item.retries} retries</p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function InfoStat({
+  label,
+  value,
+  className,
+}: {
+  label: string;
+  value: number;
+  className: string;
+}) {
+  return (
+    <div>
+      <p className="text-xs text-zinc-500">{label}</p>
+      <p className={`text-lg font-bold ${className}`}>{value}</p>
+    </div>
+  );
+}
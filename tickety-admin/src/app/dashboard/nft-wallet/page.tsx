@@ -22,6 +22,8 @@ import {
   SkipForward,
   Filter,
   X,
+  Layers,
+  KeyRound,
 } from "lucide-react";
 import { Input } from "@/components/ui/input";
 
@@ -30,6 +32,17 @@ interface WalletInfo {
   balanceAda: number;
   utxoCount: number;
   network: string;
+  explorerUrl: string;
+}
+
+interface SigningKey {
+  id: string;
+  status: "active" | "retired";
+  policy_id: string;
+  address: string;
+  signing_key_secret: string;
+  activated_at: string;
+  retired_at: string | null;
 }
 
 interface QueueStats {
@@ -47,6 +60,23 @@ interface NftStats {
   totalMintedTickets: number;
 }
 
+interface Throughput {
+  windowHours: number;
+  batches: number;
+  ticketsMinted: number;
+  ticketsPerHour: number;
+  avgTicketsPerBatch: number;
+  feePerTicketAda: number;
+  totalFeesAda: number;
+  avgWaitSeconds: number;
+  lastBatch: {
+    ticket_count: number;
+    fee_lovelace: number;
+    tx_size_bytes: number;
+    submitted_at: string;
+  } | null;
+}
+
 interface QueueEntry {
   id: string;
   ticket_id: string;
@@ -57,6 +87,8 @@ interface QueueEntry {
   policy_id: string | null;
   error_message: string | null;
   retry_count: number;
+  batch_id: string | null;
+  fee_lovelace: number | null;
   created_at: string;
   updated_at: string;
 }
@@ -65,6 +97,8 @@ interface DashboardData {
   wallet: WalletInfo;
   queue: QueueStats;
   stats: NftStats;
+  throughput: Throughput;
+  signingKeys: SigningKey[];
   recentQueue: QueueEntry[];
 }
 
@@ -73,6 +107,10 @@ export default function NftWalletPage() {
   const [loading, setLoading] = useState(true);
   const [eventFilter, setEventFilter] = useState("");
   const [retryLoading, setRetryLoading] = useState<string | null>(null);
+  const [newKeySecret, setNewKeySecret] = useState("");
+  const [newVerifyKey, setNewVerifyKey] = useState("");
+  const [rotating, setRotating] = useState(false);
+  const [rotateError, setRotateError] = useState<string | null>(null);
 
   const fetchData = async () => {
     setLoading(true);
@@ -103,6 +141,32 @@ export default function NftWalletPage() {
     }
   };
 
+  const handleRotate = async () => {
+    setRotating(true);
+    setRotateError(null);
+    try {
+      const res = await fetch("/api/admin/nft-wallet", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action: "rotate_key",
+          signing_key_secret: newKeySecret.trim(),
+          verify_key: newVerifyKey.trim(),
+        }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        setRotateError(json.error ?? "Key rotation failed");
+        return;
+      }
+      setNewKeySecret("");
+      setNewVerifyKey("");
+      await fetchData();
+    } finally {
+      setRotating(false);
+    }
+  };
+
   const filteredQueue = data?.recentQueue.filter((entry) => {
     if (!eventFilter) return true;
     return entry.event_id.toLowerCase().includes(eventFilter.toLowerCase());
@@ -114,6 +178,19 @@ export default function NftWalletPage() {
     }
   };
 
+  const formatWait = (seconds: number) =>
+    seconds < 60
+      ? `${Math.round(seconds)}s`
+      : seconds < 3600
+        ? `${Math.round(seconds / 60)}m`
+        : `${(seconds / 3600).toFixed(1)}h`;
+
+  const network = data?.wallet.network ?? "preview";
+  const explorerUrl = data?.wallet.explorerUrl ?? "https://preview.cardanoscan.io";
+  const fundingHint = network === "mainnet"
+    ? "Top up the wallet with ADA."
+    : `Fund from the ${network} faucet.`;
+
   const truncate = (s: string, len = 16) =>
     s.length > len ? `${s.slice(0, len / 2)}...${s.slice(-len / 2)}` : s;
 
@@ -181,9 +258,13 @@ export default function NftWalletPage() {
             Platform Minting Wallet
             <Badge
               variant="outline"
-              className="ml-2 border-indigo-500/30 text-indigo-400"
+              className={`ml-2 ${
+                network === "mainnet"
+                  ? "border-emerald-500/30 text-emerald-400"
+                  : "border-indigo-500/30 text-indigo-400"
+              }`}
             >
-              {data?.wallet.network ?? "preview"} testnet
+              {network === "mainnet" ? "mainnet" : `${network} testnet`}
             </Badge>
           </CardTitle>
         </CardHeader>
@@ -205,7 +286,7 @@ export default function NftWalletPage() {
                   <Copy className="h-4 w-4" />
                 </Button>
                 <a
-                  href={`https://preview.cardanoscan.io/address/${data.wallet.address}`}
+                  href={`${explorerUrl}/address/${data.wallet.address}`}
                   target="_blank"
                   rel="noopener noreferrer"
                 >
@@ -241,13 +322,13 @@ export default function NftWalletPage() {
               {data.wallet.balanceAda < 5 && data.wallet.balanceAda > 0 && (
                 <div className="flex items-center gap-2 rounded bg-amber-500/10 px-3 py-2 text-sm text-amber-400">
                   <AlertTriangle className="h-4 w-4" />
-                  Low balance — each mint costs ~0.5 ADA. Fund from the Preview faucet.
+                  Low balance — each mint costs ~0.5 ADA. {fundingHint}
                 </div>
               )}
               {data.wallet.balanceAda === 0 && (
                 <div className="flex items-center gap-2 rounded bg-red-500/10 px-3 py-2 text-sm text-red-400">
                   <XCircle className="h-4 w-4" />
-                  Wallet is empty — minting will fail. Fund from the Preview faucet.
+                  Wallet is empty — minting will fail. {fundingHint}
                 </div>
               )}
             </>
@@ -307,6 +388,157 @@ export default function NftWalletPage() {
         />
       </div>
 
+      {/* Batch Mint Throughput */}
+      <Card className="border-zinc-800 bg-zinc-900">
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center gap-2 text-sm font-medium text-zinc-400">
+            <Layers className="h-4 w-4" />
+            Mint Throughput (last {data?.throughput.windowHours ?? 24}h)
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading && !data ? (
+            <Skeleton className="h-16 w-full bg-zinc-800" />
+          ) : data?.throughput.batches ? (
+            <>
+              <div className="grid grid-cols-2 gap-4 sm:grid-cols-3 lg:grid-cols-5">
+                <div>
+                  <p className="text-xs text-zinc-500">Tickets / hour</p>
+                  <p className="text-lg font-semibold text-white">
+                    {data.throughput.ticketsPerHour.toFixed(1)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-xs text-zinc-500">Batches</p>
+                  <p className="text-lg font-semibold text-white">
+                    {data.throughput.batches}
+                    <span className="ml-1 text-xs font-normal text-zinc-500">
+                      ({data.throughput.ticketsMinted} tickets)
+                    </span>
+                  </p>
+                </div>
+                <div>
+                  <p className="text-xs text-zinc-500">Avg tickets / tx</p>
+                  <p className="text-lg font-semibold text-white">
+                    {data.throughput.avgTicketsPerBatch.toFixed(1)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-xs text-zinc-500">Fee per ticket</p>
+                  <p className="text-lg font-semibold text-white">
+                    {data.throughput.feePerTicketAda.toFixed(4)} ADA
+                  </p>
+                </div>
+                <div>
+                  <p className="text-xs text-zinc-500">Avg queue wait</p>
+                  <p className="text-lg font-semibold text-white">
+                    {formatWait(data.throughput.avgWaitSeconds)}
+                  </p>
+                </div>
+              </div>
+              {data.throughput.lastBatch && (
+                <p className="mt-3 text-xs text-zinc-500">
+                  Last batch: {data.throughput.lastBatch.ticket_count} tickets,{" "}
+                  {(data.throughput.lastBatch.tx_size_bytes / 1024).toFixed(1)} KB,{" "}
+                  {(data.throughput.lastBatch.fee_lovelace / 1_000_000).toFixed(4)} ADA fee,{" "}
+                  {new Date(data.throughput.lastBatch.submitted_at).toLocaleString()}
+                </p>
+              )}
+            </>
+          ) : (
+            <p className="py-2 text-sm text-zinc-500">
+              No batch mints in the last {data?.throughput.windowHours ?? 24} hours.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Signing Keys */}
+      <Card className="border-zinc-800 bg-zinc-900">
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center gap-2 text-sm font-medium text-zinc-400">
+            <KeyRound className="h-4 w-4" />
+            Signing Keys
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {loading && !data ? (
+            <Skeleton className="h-16 w-full bg-zinc-800" />
+          ) : data?.signingKeys.length ? (
+            <div className="space-y-2">
+              {data.signingKeys.map((key) => (
+                <div
+                  key={key.id}
+                  className="flex flex-wrap items-center gap-3 rounded bg-zinc-800/50 px-3 py-2 text-xs"
+                >
+                  <Badge
+                    variant="outline"
+                    className={
+                      key.status === "active"
+                        ? "border-emerald-500/30 text-emerald-400"
+                        : "border-zinc-500/30 text-zinc-400"
+                    }
+                  >
+                    {key.status}
+                  </Badge>
+                  <span className="text-zinc-500">Policy</span>
+                  <a
+                    href={`${explorerUrl}/tokenPolicy/${key.policy_id}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="font-mono text-indigo-400 hover:text-indigo-300"
+                  >
+                    {truncate(key.policy_id, 20)}
+                  </a>
+                  <span className="text-zinc-500">Secret</span>
+                  <code className="font-mono text-zinc-300">{key.signing_key_secret}</code>
+                  <span className="ml-auto text-zinc-500">
+                    {new Date(key.activated_at).toLocaleDateString()}
+                    {key.retired_at && ` – ${new Date(key.retired_at).toLocaleDateString()}`}
+                  </span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-zinc-500">
+              No keys recorded — minting uses the PLATFORM_CARDANO_SIGNING_KEY secret.
+            </p>
+          )}
+          <div className="space-y-2 border-t border-zinc-800 pt-4">
+            <p className="text-xs text-zinc-500">
+              Rotate: store the new signing key as an Edge Function secret, then enter its name
+              and verify key. Retired keys keep signing transfers and burns for their policy.
+            </p>
+            <div className="flex flex-col gap-2 sm:flex-row">
+              <Input
+                placeholder="Secret name, e.g. PLATFORM_CARDANO_SIGNING_KEY_2"
+                value={newKeySecret}
+                onChange={(e) => setNewKeySecret(e.target.value)}
+                className="h-8 border-zinc-700 bg-zinc-800 text-xs text-white placeholder:text-zinc-500"
+              />
+              <Input
+                placeholder="Verify key (hex)"
+                value={newVerifyKey}
+                onChange={(e) => setNewVerifyKey(e.target.value)}
+                className="h-8 border-zinc-700 bg-zinc-800 font-mono text-xs text-white placeholder:text-zinc-500"
+              />
+              <Button
+                size="sm"
+                onClick={handleRotate}
+                disabled={rotating || !newKeySecret.trim() || !newVerifyKey.trim()}
+                className="h-8 bg-indigo-600 text-white hover:bg-indigo-500"
+              >
+                {rotating ? <Loader2 className="mr-2 h-3 w-3 animate-spin" /> : <KeyRound className="mr-2 h-3 w-3" />}
+                Rotate Key
+              </Button>
+            </div>
+            {rotateError && (
+              <p className="text-xs text-red-400">{rotateError}</p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Recent Mint Queue */}
       <Card className="border-zinc-800 bg-zinc-900">
         <CardHeader className="flex flex-row items-center justify-between">
@@ -367,6 +599,10 @@ export default function NftWalletPage() {
                       </div>
                       <p className="mt-0.5 font-mono text-[10px] text-zinc-600">
                         event: {truncate(entry.event_id, 12)}
+                        {entry.batch_id && <> · batch: {truncate(entry.batch_id, 12)}</>}
+                        {entry.fee_lovelace != null && (
+                          <> · fee: {(entry.fee_lovelace / 1_000_000).toFixed(4)} ADA</>
+                        )}
                       </p>
                       {entry.error_message && (
                         <p className="mt-1 max-w-md truncate text-xs text-red-400">
@@ -375,7 +611,7 @@ export default function NftWalletPage() {
                       )}
                       {entry.tx_hash && (
                         <a
-                          href={`https://preview.cardanoscan.io/transaction/${entry.tx_hash}`}
+                          href={`${explorerUrl}/transaction/${entry.tx_hash}`}
                           target="_blank"
                           rel="noopener noreferrer"
                           className="mt-1 flex items-center gap-1 text-xs text-indigo-400 hover:underline"
@@ -8,7 +8,12 @@ import { TierDistribution } from "@/components/dashboard/tier-distribution";
 import { EngagementChart } from "@/components/dashboard/engagement-chart";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
-import { formatCents, formatCompact, formatRelative } from "@/lib/utils/format";
+import {
+  formatCents,
+  formatCompact,
+  formatRelative,
+  REPORTING_CURRENCIES,
+} from "@/lib/utils/format";
 import { useRouter } from "next/navigation";
 import {
   Users,
@@ -31,6 +36,7 @@ import {
 } from "recharts";
 
 interface Stats {
+  currency: string;
   totalUsers: number;
   totalEvents: number;
   totalRevenue: number;
@@ -38,6 +44,8 @@ interface Stats {
   ticketsSold30d: number;
   platformFees30d: number;
   revenueWeekly: { week: string; revenue: number }[];
+  revenueByCurrency: { currency: string; revenue: number }[];
+  unconvertedCurrencies: string[];
   signupsWeekly: { week: string; signups: number }[];
   tierDistribution: { name: string; value: number }[];
 }
@@ -62,6 +70,7 @@ interface EngagementData {
 export default function AnalyticsPage() {
   const [stats, setStats] = useState<Stats | null>(null);
   const [statsLoading, setStatsLoading] = useState(true);
+  const [currency, setCurrency] = useState("USD");
   const [engagement, setEngagement] = useState<EngagementData | null>(null);
   const [engagementLoading, setEngagementLoading] = useState(true);
   const [cityFilter, setCityFilter] = useState("");
@@ -69,11 +78,11 @@ export default function AnalyticsPage() {
   const router = useRouter();
 
   useEffect(() => {
-    fetch("/api/admin/stats")
+    fetch(`/api/admin/stats?currency=${currency}`)
       .then((res) => res.json())
       .then(setStats)
       .finally(() => setStatsLoading(false));
-  }, []);
+  }, [currency]);
 
   useEffect(() => {
     setEngagementLoading(true);
@@ -105,6 +114,32 @@ export default function AnalyticsPage() {
 
         <TabsContent value="overview">
           <div className="space-y-6 pt-2">
+            <div className="flex items-center justify-end gap-3">
+              {stats && stats.unconvertedCurrencies?.length > 0 && (
+                <span className="text-xs text-amber-400">
+                  No exchange rates for{" "}
+                  {stats.unconvertedCurrencies
+                    .map((c) => c.toUpperCase())
+                    .join(", ")}{" "}
+                  — left out of revenue
+                </span>
+              )}
+              <select
+                value={currency}
+                onChange={(e) => {
+                  setStatsLoading(true);
+                  setCurrency(e.target.value);
+                }}
+                className="rounded-lg border border-zinc-700 bg-zinc-800 px-3 py-2 text-sm text-zinc-200 focus:border-indigo-500 focus:outline-none"
+              >
+                {REPORTING_CURRENCIES.map((code) => (
+                  <option key={code} value={code}>
+                    {code}
+                  </option>
+                ))}
+              </select>
+            </div>
+
             <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6">
               <KpiCard
                 label="Total Users"
@@ -120,7 +155,7 @@ export default function AnalyticsPage() {
               />
               <KpiCard
                 label="Total Revenue"
-                value={stats ? formatCents(stats.totalRevenue) : ""}
+                value={stats ? formatCents(stats.totalRevenue, stats.currency) : ""}
                 icon={DollarSign}
                 loading={statsLoading}
               />
@@ -138,19 +173,54 @@ export default function AnalyticsPage() {
               />
               <KpiCard
                 label="Fees (30d)"
-                value={stats ? formatCents(stats.platformFees30d) : ""}
+                value={stats ? formatCents(stats.platformFees30d, stats.currency) : ""}
                 icon={Percent}
                 loading={statsLoading}
               />
             </div>
 
             <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
-              <RevenueChart data={stats?.revenueWeekly ?? []} />
+              <RevenueChart
+                data={stats?.revenueWeekly ?? []}
+                currency={stats?.currency}
+              />
               <SignupsChart data={stats?.signupsWeekly ?? []} />
             </div>
 
             <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
               <TierDistribution data={stats?.tierDistribution ?? []} />
+              <Card className="border-zinc-800 bg-zinc-900">
+                <CardHeader>
+                  <CardTitle className="text-sm font-medium text-zinc-400">
+                    Revenue by Charge Currency
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {(stats?.revenueByCurrency ?? []).length > 0 ? (
+                    <table className="w-full text-sm">
+                      <tbody>
+                        {stats!.revenueByCurrency.map((row) => (
+                          <tr
+                            key={row.currency}
+                            className="border-b border-zinc-800/50"
+                          >
+                            <td className="py-2 text-zinc-200">
+                              {row.currency.toUpperCase()}
+                            </td>
+                            <td className="py-2 text-right text-zinc-300">
+                              {formatCents(row.revenue, row.currency)}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  ) : (
+                    <p className="py-8 text-center text-zinc-500">
+                      No data yet
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
             </div>
           </div>
         </TabsContent>
@@ -5,6 +5,8 @@ import { DataTable } from "@/components/tables/data-table";
 import { paymentColumns } from "@/components/tables/columns/payments";
 import type { Payment } from "@/types/database";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
 import {
   Dialog,
   DialogContent,
@@ -22,11 +24,27 @@ interface PaymentRow extends Payment {
   event_title?: string;
 }
 
+interface PaymentTicket {
+  id: string;
+  ticket_number: string;
+  owner_email: string | null;
+  owner_name: string | null;
+  status: string;
+  price_paid_cents: number;
+}
+
 export default function PaymentsPage() {
   const [payments, setPayments] = useState<PaymentRow[]>([]);
   const [loading, setLoading] = useState(true);
   const [refundTarget, setRefundTarget] = useState<PaymentRow | null>(null);
   const [refunding, setRefunding] = useState(false);
+  const [refundTickets, setRefundTickets] = useState<PaymentTicket[]>([]);
+  const [selectedTickets, setSelectedTickets] = useState<Set<string>>(
+    new Set()
+  );
+  const [refundPercent, setRefundPercent] = useState("100");
+  const [refundFees, setRefundFees] = useState(true);
+  const [refundError, setRefundError] = useState<string | null>(null);
 
   useEffect(() => {
     async function fetchPayments() {
@@ -46,25 +64,80 @@ export default function PaymentsPage() {
     fetchPayments();
   }, []);
 
+  const openRefund = async (payment: PaymentRow) => {
+    setRefundTarget(payment);
+    setRefundTickets([]);
+    setSelectedTickets(new Set());
+    setRefundPercent("100");
+    setRefundFees(true);
+    setRefundError(null);
+    try {
+      const res = await fetch(
+        `/api/admin/payments/refund?payment_id=${payment.id}`
+      );
+      if (!res.ok) return;
+      const tickets: PaymentTicket[] = await res.json();
+      setRefundTickets(tickets);
+      setSelectedTickets(
+        new Set(
+          tickets.filter((t) => t.status !== "refunded").map((t) => t.id)
+        )
+      );
+    } catch {
+      // Fetch failed; the whole payment can still be refunded
+    }
+  };
+
+  const toggleTicket = (id: string, checked: boolean) => {
+    setSelectedTickets((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const percentValue = Number(refundPercent);
+  const percentValid =
+    Number.isInteger(percentValue) && percentValue >= 1 && percentValue <= 100;
+
   const handleRefund = async () => {
     if (!refundTarget) return;
     setRefunding(true);
+    setRefundError(null);
     try {
       const res = await fetch("/api/admin/payments/refund", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ payment_id: refundTarget.id }),
+        body: JSON.stringify({
+          payment_id: refundTarget.id,
+          ticket_ids: refundTickets.length
+            ? Array.from(selectedTickets)
+            : undefined,
+          percent: percentValue,
+          include_fees: refundFees,
+        }),
       });
-      if (res.ok) {
-        setPayments((prev) =>
-          prev.map((p) =>
-            p.id === refundTarget.id ? { ...p, status: "refunded" } : p
-          )
-        );
+      const data = await res.json();
+      if (!res.ok) {
+        setRefundError(data.error ?? "Refund failed");
+        return;
       }
+      const updated = data.refund?.payment;
+      setPayments((prev) =>
+        prev.map((p) =>
+          p.id === refundTarget.id
+            ? {
+                ...p,
+                status: updated?.status ?? "refunded",
+                refunded_cents: updated?.refunded_cents ?? p.amount_cents,
+              }
+            : p
+        )
+      );
+      setRefundTarget(null);
     } finally {
       setRefunding(false);
-      setRefundTarget(null);
     }
   };
 
@@ -87,7 +160,7 @@ export default function PaymentsPage() {
             size="sm"
             onClick={(e) => {
               e.stopPropagation();
-              setRefundTarget(payment);
+              openRefund(payment);
             }}
             className="text-red-400 hover:text-red-300"
           >
@@ -127,13 +200,70 @@ export default function PaymentsPage() {
           <DialogHeader>
             <DialogTitle className="text-white">Confirm Refund</DialogTitle>
             <DialogDescription className="text-zinc-400">
-              Refund payment of{" "}
+              Refund tickets from the{" "}
               <strong>
                 ${((refundTarget?.amount_cents ?? 0) / 100).toFixed(2)}
               </strong>{" "}
-              for {refundTarget?.user_email}? This action cannot be undone.
+              payment by {refundTarget?.user_email}
+              {refundTarget?.refunded_cents
+                ? ` ($${(refundTarget.refunded_cents / 100).toFixed(2)} already refunded)`
+                : ""}
+              . Refunded tickets stop scanning. This action cannot be undone.
             </DialogDescription>
           </DialogHeader>
+          <div className="space-y-4">
+            {refundTickets.length > 0 && (
+              <div className="space-y-2">
+                {refundTickets.map((ticket) => (
+                  <label
+                    key={ticket.id}
+                    className="flex items-center gap-3 text-sm text-zinc-300"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selectedTickets.has(ticket.id)}
+                      disabled={ticket.status === "refunded"}
+                      onChange={(e) => toggleTicket(ticket.id, e.target.checked)}
+                    />
+                    <span className="font-mono">{ticket.ticket_number}</span>
+                    <span className="text-zinc-500">
+                      {ticket.owner_name ?? ticket.owner_email ?? ""}
+                    </span>
+                    <span className="ml-auto text-zinc-500">
+                      {ticket.status === "refunded"
+                        ? "refunded"
+                        : `$${(ticket.price_paid_cents / 100).toFixed(2)}`}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            )}
+            <div className="flex items-center gap-6">
+              <div>
+                <label className="mb-1 block text-sm text-zinc-400">
+                  Percent of ticket price
+                </label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={refundPercent}
+                  onChange={(e) => setRefundPercent(e.target.value)}
+                  className="w-24 border-zinc-700 bg-zinc-800 text-white"
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm text-zinc-400">
+                <Switch
+                  checked={refundFees}
+                  onCheckedChange={setRefundFees}
+                />
+                Refund service fees
+              </label>
+            </div>
+            {refundError && (
+              <p className="text-sm text-red-400">{refundError}</p>
+            )}
+          </div>
           <DialogFooter>
             <Button
               variant="outline"
@@ -144,7 +274,11 @@ export default function PaymentsPage() {
             </Button>
             <Button
               onClick={handleRefund}
-              disabled={refunding}
+              disabled={
+                refunding ||
+                !percentValid ||
+                (refundTickets.length > 0 && selectedTickets.size === 0)
+              }
               className="bg-red-600 hover:bg-red-700"
             >
               {refunding ? "Refunding..." : "Confirm Refund"}
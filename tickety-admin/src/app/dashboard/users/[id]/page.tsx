@@ -562,7 +562,7 @@ export default function UserDetailPage() {
                       {t.status}
                     </Badge>
                     <span className="text-xs text-zinc-500">
-                      {formatCents(t.price_paid_cents)}
+                      {formatCents(t.price_paid_cents, t.currency)}
                     </span>
                   </div>
                 </div>
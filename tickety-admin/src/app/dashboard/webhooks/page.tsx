@@ -21,7 +21,10 @@ interface WebhookEvent {
   stripe_event_id: string;
   event_type: string;
   status: string;
+  source: "stripe" | "replay";
+  attempts: number;
   error_message: string | null;
+  dead_letter_reason: string | null;
   processing_time_ms: number | null;
   created_at: string;
   processed_at: string | null;
@@ -74,6 +77,7 @@ export default function WebhooksPage() {
     processing: "border-blue-500/30 text-blue-400",
     succeeded: "border-emerald-500/30 text-emerald-400",
     failed: "border-red-500/30 text-red-400",
+    dead_lettered: "border-amber-500/30 text-amber-400",
   };
 
   return (
@@ -114,6 +118,7 @@ export default function WebhooksPage() {
             <SelectItem value="all">All</SelectItem>
             <SelectItem value="succeeded">Succeeded</SelectItem>
             <SelectItem value="failed">Failed</SelectItem>
+            <SelectItem value="dead_lettered">Dead-lettered</SelectItem>
             <SelectItem value="processing">Processing</SelectItem>
             <SelectItem value="received">Received</SelectItem>
           </SelectContent>
@@ -126,8 +131,8 @@ export default function WebhooksPage() {
         <Card className="border-zinc-800 bg-zinc-900">
           <CardContent className="flex h-48 items-center justify-center">
             <p className="text-zinc-500">
-              No webhook events yet. Events will appear here once your Stripe
-              webhooks start logging to the webhook_events table.
+              No webhook events yet. Events appear here as soon as Stripe
+              delivers them to the stripe-webhook or connect-webhook functions.
             </p>
           </CardContent>
         </Card>
@@ -153,6 +158,16 @@ export default function WebhooksPage() {
                   </div>
                 </div>
                 <div className="flex items-center gap-4">
+                  {event.source === "replay" && (
+                    <Badge variant="outline" className="border-amber-500/30 text-amber-400">
+                      replay
+                    </Badge>
+                  )}
+                  {event.attempts > 1 && (
+                    <span className="text-xs text-zinc-500">
+                      {event.attempts} attempts
+                    </span>
+                  )}
                   {event.processing_time_ms !== null && (
                     <span className="text-xs text-zinc-500">
                       {event.processing_time_ms}ms
@@ -161,7 +176,7 @@ export default function WebhooksPage() {
                   <span className="text-xs text-zinc-500">
                     {formatDateTime(event.created_at)}
                   </span>
-                  {event.status === "failed" && (
+                  {(event.status === "failed" || event.status === "dead_lettered") && (
                     <Button
                       variant="outline"
                       size="sm"
@@ -182,6 +197,13 @@ export default function WebhooksPage() {
                   </p>
                 </CardContent>
               )}
+              {event.dead_letter_reason && (
+                <CardContent className="-mt-2 px-4 pb-4">
+                  <p className="rounded bg-amber-950/30 px-3 py-2 text-xs text-amber-400">
+                    {event.dead_letter_reason}
+                  </p>
+                </CardContent>
+              )}
             </Card>
           ))}
         </div>
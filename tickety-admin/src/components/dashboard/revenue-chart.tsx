@@ -10,6 +10,7 @@ import {
   ResponsiveContainer,
 } from "recharts";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { formatCents } from "@/lib/utils/format";
 
 interface DataPoint {
   week: string;
@@ -18,14 +19,16 @@ interface DataPoint {
 
 interface RevenueChartProps {
   data: DataPoint[];
+  /** Reporting currency the revenue was converted to. */
+  currency?: string;
 }
 
-export function RevenueChart({ data }: RevenueChartProps) {
+export function RevenueChart({ data, currency = "USD" }: RevenueChartProps) {
   return (
     <Card className="border-zinc-800 bg-zinc-900">
       <CardHeader>
         <CardTitle className="text-sm font-medium text-zinc-400">
-          Revenue Over Time (12 weeks)
+          Revenue Over Time (12 weeks, {currency})
         </CardTitle>
       </CardHeader>
       <CardContent>
@@ -48,7 +51,7 @@ export function RevenueChart({ data }: RevenueChartProps) {
               stroke="#71717a"
               fontSize={12}
               tickLine={false}
-              tickFormatter={(v) => `$${(v / 100).toLocaleString()}`}
+              tickFormatter={(v) => formatCents(v, currency).replace(/\.\d+$/, "")}
             />
             <Tooltip
               contentStyle={{
@@ -58,7 +61,7 @@ export function RevenueChart({ data }: RevenueChartProps) {
                 color: "#fff",
               }}
               formatter={(value) => [
-                `$${(Number(value) / 100).toFixed(2)}`,
+                formatCents(Number(value), currency),
                 "Revenue",
               ]}
             />
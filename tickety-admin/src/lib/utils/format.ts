@@ -1,11 +1,15 @@
 import { format, formatDistanceToNow } from "date-fns";
 
+export const REPORTING_CURRENCIES = ["USD", "EUR", "GBP", "CAD", "AUD", "JPY"];
+
+/** Format an amount in the currency's minor unit (cents, or whole yen for JPY). */
 export function formatCents(cents: number, currency = "USD"): string {
-  return new Intl.NumberFormat("en-US", {
+  const formatter = new Intl.NumberFormat("en-US", {
     style: "currency",
     currency: currency.toUpperCase(),
-    minimumFractionDigits: 2,
-  }).format(cents / 100);
+  });
+  const decimals = formatter.resolvedOptions().maximumFractionDigits ?? 2;
+  return formatter.format(cents / 10 ** decimals);
 }
 
 export function formatDate(dateStr: string): string {
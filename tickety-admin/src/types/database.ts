@@ -78,6 +78,8 @@ export interface Ticket {
   delivery_method: string | null;
   listing_status: string;
   listing_price_cents: number | null;
+  stripe_payment_intent_id: string | null;
+  purchase_line_index: number | null;
   metadata: Record<string, unknown> | null;
   // Joined fields
   event?: Event;
@@ -91,12 +93,15 @@ export interface Payment {
   event_id: string;
   amount_cents: number;
   platform_fee_cents: number;
+  refunded_cents: number;
   currency: string;
   status: "pending" | "processing" | "completed" | "failed" | "refunded";
   type: string;
   stripe_payment_intent_id: string | null;
   stripe_charge_id: string | null;
   receipt_url: string | null;
+  fee_schedule: string | null;
+  fee_schedule_version: string | null;
   metadata: Record<string, unknown> | null;
   created_at: string;
   updated_at: string;
@@ -105,6 +110,38 @@ export interface Payment {
   event?: Event;
 }
 
+export interface EventCancellationJob {
+  id: string;
+  event_id: string;
+  requested_by: string | null;
+  reason: string | null;
+  status: "running" | "completed" | "completed_with_errors";
+  total_payments: number;
+  refunded_count: number;
+  skipped_count: number;
+  failed_count: number;
+  refunded_cents: number;
+  cancelled_tickets: number;
+  finished_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface EventCancellationItem {
+  id: string;
+  job_id: string;
+  payment_id: string;
+  user_id: string | null;
+  status: "pending" | "processing" | "refunded" | "skipped" | "failed";
+  attempts: number;
+  retries: number;
+  amount_cents: number;
+  stripe_refund_id: string | null;
+  error_message: string | null;
+  processed_at: string | null;
+  created_at: string;
+}
+
 export interface Subscription {
   id: string;
   user_id: string;
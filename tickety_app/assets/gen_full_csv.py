@@ -822,6 +822,7 @@ ENGLISH_MAP = {
     'seat_picker_your_seat': 'Your seat',
     'seat_picker_available': 'Available',
     'seat_picker_taken': 'Taken',
+    'seat_picker_best_available': 'Best available',
     'seat_picker_confirm_seats': 'Confirm {0} Seats',
     'seat_picker_seats_selected': '{0} of {1} selected',
     'venue_saved': 'Venue saved!',
@@ -868,6 +869,7 @@ ENGLISH_MAP = {
     'payments_no_cards_saved': 'No cards saved',
     'payments_add_card': 'Add Card',
     'payments_add_card_subtitle': 'Add a card to speed up checkout',
+    'payments_add_promo_code': 'Add another code',
     'payments_remove_card': 'Remove Card',
     'payments_set_as_default': 'Set as Default',
     'payments_card_mobile_only': 'Available on mobile devices only',
@@ -1092,6 +1094,35 @@ ENGLISH_MAP = {
     'get_notified_or_auto_buy': 'Get notified or auto-buy',
     # Event Create
     'event_name': 'Event Name',
+    'event_refund_add_tier': 'Add tier',
+    'event_refund_after_last': 'No automatic refund after that',
+    'event_refund_approve': 'Approve',
+    'event_refund_approve_percent': 'Refund of ticket price',
+    'event_refund_approve_title': 'Approve refund',
+    'event_refund_approved': 'Refund sent',
+    'event_refund_days_before': 'Days before event',
+    'event_refund_decline': 'Decline',
+    'event_refund_decline_note': 'Note to the buyer (optional)',
+    'event_refund_decline_title': 'Decline refund',
+    'event_refund_declined': 'Request declined',
+    'event_refund_duplicate_days': "Two tiers can't start the same number of days out",
+    'event_refund_fees': 'Refund service fees',
+    'event_refund_fees_hint': "Include the ticket's share of the service fee in policy refunds",
+    'event_refund_invalid_tier': 'Enter 0–365 days and a refund of 0–100% for each tier',
+    'event_refund_no_tiers': 'No automatic refunds. Every request comes to you.',
+    'event_refund_percent': 'Refund',
+    'event_refund_policy': 'Refund policy',
+    'event_refund_policy_hint': 'Buyers who ask inside these tiers are refunded straight away. Requests outside them come to you.',
+    'event_refund_request_row': 'Ticket {0} · {1}',
+    'event_refund_requests': 'Refund requests',
+    'event_refund_requests_empty': 'No refund requests waiting',
+    'event_refund_requests_failed': "Couldn't load refund requests",
+    'event_refund_save': 'Save refund policy',
+    'event_refund_save_failed': "Couldn't save the refund policy",
+    'event_refund_saved': 'Refund policy saved',
+    'event_refund_tier_summary': '{0}% back until {1} days before the event',
+    'event_refund_tier_summary_start': '{0}% back until the event starts',
+    'event_refund_title': 'Refunds',
     'event_format': 'Event Format',
     'in_person': 'In-Person',
     'virtual': 'Virtual',
@@ -1137,6 +1168,22 @@ ENGLISH_MAP = {
     'change_logo': 'Change Logo',
     'pick_a_color': 'Pick a color',
     'event_branding_label': 'EVENT BRANDING',
+    'event_cancellation_amount': 'Amount refunded',
+    'event_cancellation_background_hint': 'Refunds keep going out if you leave this screen. You will get a notification when they are done.',
+    'event_cancellation_completed': 'All refunds have been processed.',
+    'event_cancellation_completed_with_errors': 'Finished, but some refunds failed. You can send them again.',
+    'event_cancellation_failed': 'Failed',
+    'event_cancellation_failures': 'Why refunds failed',
+    'event_cancellation_not_found': 'This event has no cancellation.',
+    'event_cancellation_progress': '{0} of {1} payments processed',
+    'event_cancellation_refresh': 'Refresh',
+    'event_cancellation_refunded': 'Refunded',
+    'event_cancellation_retry': 'Retry failed refunds',
+    'event_cancellation_running': 'Refunding ticket holders…',
+    'event_cancellation_skipped': 'Nothing to refund',
+    'event_cancellation_tickets_cancelled': 'Other tickets cancelled',
+    'event_cancellation_title': 'Event Cancellation',
+    'event_cancellation_unknown_error': 'Unknown error',
     'primary': 'Primary',
     'accent': 'Accent',
     'preview': 'Preview',
@@ -1173,6 +1220,12 @@ ENGLISH_MAP = {
     'admin_algorithm_tuning_subtitle': 'Adjust discovery feed ranking weights',
     'admin_referral_dashboard': 'Referral Dashboard',
     'admin_referral_dashboard_subtitle': 'View top referrers and channel performance',
+    'admin_refunds': 'Refunds',
+    'admin_refunds_subtitle': 'Refund policy and refund requests',
+    'admin_resale_policy': 'Resale Policy',
+    'admin_resale_policy_subtitle': 'Price caps, royalties and the resale window',
+    'admin_reschedule_event': 'Reschedule Event',
+    'admin_reschedule_event_subtitle': 'Move the date, keep tickets valid',
     'admin_feature_event': 'Feature Event',
     'admin_feature_subtitle': 'Pin to featured carousel',
     'admin_unfeature_event': 'Unfeature Event',
@@ -1215,7 +1268,11 @@ ENGLISH_MAP = {
     'admin_private_event': 'Private Event',
     'admin_revenue': 'Revenue',
     'admin_staff': 'Staff',
+    'admin_tax_settings': 'Sales Tax / VAT',
+    'admin_tax_settings_subtitle': 'Tax rates, tax-inclusive prices and tax report',
     'admin_view_plans': 'View Plans',
+    'admin_waitlist_settings': 'Waitlist Settings',
+    'admin_waitlist_settings_subtitle': 'Claim windows and lottery drops',
     'admin_add_payment_method': 'Add Payment Method',
     # Unprefixed variants (used in some screens)
     'data': 'Data',
@@ -1237,6 +1294,27 @@ ENGLISH_MAP = {
     'enterprise_feature': 'Enterprise Feature',
     'pending_review': 'Pending Review',
     'event_suspended': 'Event Suspended',
+    'event_tax_add_rate': 'Add rate',
+    'event_tax_applies_to_new': 'Changes apply to new orders. The service fee and resale tickets are not taxed.',
+    'event_tax_example': 'A {0} ticket: buyer pays {1}, of which {2} is tax',
+    'event_tax_inclusive': 'Prices include tax',
+    'event_tax_inclusive_hint': 'Turn on where prices are quoted with VAT included. Otherwise tax is added on top at checkout.',
+    'event_tax_invalid_rate': 'Each rate needs a name and a rate above 0%',
+    'event_tax_no_rates': "No tax is charged on this event's tickets",
+    'event_tax_rate_name': 'Name (e.g. VAT)',
+    'event_tax_rate_percent': 'Rate %',
+    'event_tax_rates': 'Tax rates',
+    'event_tax_report': 'Tax report',
+    'event_tax_report_empty': 'No tax collected in this period',
+    'event_tax_report_export': 'Export CSV',
+    'event_tax_report_failed': 'Could not load the tax report',
+    'event_tax_report_refunded': '{0} refunded (−{1})',
+    'event_tax_report_row': '{0} orders · {1} net sales',
+    'event_tax_save': 'Save',
+    'event_tax_save_failed': 'Could not save tax settings',
+    'event_tax_saved': 'Tax settings saved',
+    'event_tax_title': 'Sales Tax / VAT',
+    'event_tax_total_too_high': 'Rates cannot add up to more than 100%',
     # My Events
     'my_events': 'My Events',
     'created': 'Created',
@@ -1283,6 +1361,7 @@ ENGLISH_MAP = {
     'select_ticket_type': 'Select Ticket Type',
     'tap_to_pay': 'Tap to Pay',
     'cash_sale': 'Cash Sale',
+    'cash_sale_collect_with_tax': 'Collect (incl. tax)',
     'cash_not_enabled': 'Cash sales not enabled',
     'last_sold_ticket': 'Last Sold Ticket',
     'ticket_number': 'Ticket #',
@@ -1363,6 +1442,24 @@ ENGLISH_MAP = {
     'receive_ticket': 'Receive Ticket',
     'ready_to_receive': 'Ready to Receive',
     'ticket_received': 'Ticket Received!',
+    'ticket_refund_declined': 'The organizer declined your refund request',
+    'ticket_refund_done': 'Refund of {0} on its way',
+    'ticket_refund_failed': "Your refund couldn't be processed. You can ask again.",
+    'ticket_refund_outside_policy': "This is outside the organizer's refund policy, so they'll review your request.",
+    'ticket_refund_pending': 'Refund requested, waiting for the organizer',
+    'ticket_refund_policy_fees': 'Service fees are refunded too.',
+    'ticket_refund_policy_no_fees': "Service fees aren't refundable.",
+    'ticket_refund_policy_now': "Under the organizer's policy you'll get {0}% of the ticket price back.",
+    'ticket_refund_reason': 'Reason (optional)',
+    'ticket_refund_refunded': 'Refunded {0}',
+    'ticket_refund_request': 'Request refund',
+    'ticket_refund_request_title': 'Request a refund',
+    'ticket_refund_requested': 'Request sent to the organizer',
+    'ticket_refund_rescheduled': "This event was rescheduled. Can't make it? You can get a full refund until {0}.",
+    'ticket_refund_submit': 'Request refund',
+    'ticket_refund_void_notice': 'Once refunded, this ticket stops working at the door.',
+    'ticket_sales_ended': 'Sales ended',
+    'ticket_sales_open_on': 'On sale {0}',
     'transfer_failed': 'Transfer Failed',
     # Notification Settings
     'notification_settings': 'Notification Settings',
@@ -1445,6 +1542,7 @@ ENGLISH_MAP = {
     'cash_sale_price': 'Price',
     'cash_sale_processing': 'Processing...',
     'cash_sale_processing_desc': 'Issuing ticket to customer...',
+    'cash_sale_tax_included': 'Tax included',
     'cash_sale_test': 'Test Sale',
     'cash_sale_ticket': 'Ticket',
     'cash_sale_ticket_type': 'Ticket Type',
@@ -1507,6 +1605,9 @@ ENGLISH_MAP = {
     'create_entry_tickets': 'Entry Tickets',
     'create_event_branding': 'Event Branding',
     'create_event_created': 'Event created successfully!',
+    'create_event_currency': 'Currency',
+    'create_event_currency_hint': 'All ticket prices for this event are in this currency',
+    'create_event_currency_locked': "Currency can't be changed after tickets have sold",
     'create_event_format': 'Event Format',
     'create_event_name_hint': 'Give your event a name',
     'create_event_updated': 'Event updated successfully!',
@@ -1556,9 +1657,25 @@ ENGLISH_MAP = {
     'create_step_tags': 'Tags',
     'create_step_tickets': 'Tickets',
     'create_tagline_hint': 'A short tagline for your event',
+    'create_ticket_add_price_tier': 'Add price tier',
     'create_ticket_description_hint': 'Describe what this ticket includes',
+    'create_ticket_max_per_order': 'Max per order',
+    'create_ticket_min_per_order': 'Min per order',
     'create_ticket_name_hint': 'e.g. General Admission',
+    'create_ticket_no_limit': 'No limit',
+    'create_ticket_price_tiers': 'Price tiers',
+    'create_ticket_price_tiers_hint': 'Each tier ends after a number sold or at a date, then the next one applies. After the last tier the regular price applies.',
     'create_ticket_pricing_hint': 'Set a price or leave blank for free',
+    'create_ticket_sales_end': 'Sales close',
+    'create_ticket_sales_end_event': 'At the event',
+    'create_ticket_sales_rules': 'Sales window, limits & price tiers',
+    'create_ticket_sales_start': 'Sales open',
+    'create_ticket_sales_start_now': 'Now',
+    'create_ticket_sales_window_invalid': 'Ticket sales must close after they open',
+    'create_ticket_tier_ends_after_sold': 'Ends after # sold',
+    'create_ticket_tier_ends_at': 'Ends',
+    'create_ticket_tier_name': 'Tier',
+    'create_ticket_tier_name_hint': 'Early bird',
     'create_ticket_type_limit': 'Ticket type limit reached',
     'create_update_event': 'Update Event',
     'create_upload': 'Upload',
@@ -1597,6 +1714,55 @@ ENGLISH_MAP = {
     'event_details_not_available': 'Event details not available',
     'event_reminders': 'Event Reminders',
     'event_reminders_subtitle': 'Get reminded before events you are attending',
+    'event_resale_any_price': 'any price',
+    'event_resale_applies_to_listed': "Applies to existing listings too: tickets listed outside these rules can't sell until the seller changes the price.",
+    'event_resale_closes': 'Resale closes',
+    'event_resale_closes_at_start': 'At the start time',
+    'event_resale_closes_days_before': '{0} day(s) before the event',
+    'event_resale_closes_hours_before': '{0}h before the event',
+    'event_resale_closes_never': 'When the event starts',
+    'event_resale_example': 'A {0} ticket can be resold for {1} to {2}; you get {3} of a {4} resale',
+    'event_resale_face_value_only': 'Face value only',
+    'event_resale_face_value_only_hint': 'Tickets can be resold for no more than they were bought for',
+    'event_resale_invalid_max': 'The maximum must be between 1% and 1000% of face value',
+    'event_resale_invalid_min': "The minimum can't be above the maximum",
+    'event_resale_invalid_royalty': 'The royalty can be at most 50%',
+    'event_resale_max_percent': 'Maximum price (% of face value)',
+    'event_resale_min_percent': 'Minimum price (% of face value)',
+    'event_resale_no_cap': 'No cap',
+    'event_resale_no_minimum': 'No minimum',
+    'event_resale_opens': 'Resale opens',
+    'event_resale_opens_now': 'As soon as tickets are sold',
+    'event_resale_price_limits': 'Price limits',
+    'event_resale_royalty': 'Royalty',
+    'event_resale_royalty_hint': "Taken from the seller's proceeds and paid to your payout account",
+    'event_resale_royalty_needs_payout': 'Set up a payout account to receive royalties. Until then sellers keep the royalty.',
+    'event_resale_royalty_percent': 'Royalty on each resale',
+    'event_resale_save': 'Save Resale Policy',
+    'event_resale_save_failed': 'Could not save the resale policy',
+    'event_resale_saved': 'Resale policy saved',
+    'event_resale_set_up_payouts': 'Set up',
+    'event_resale_title': 'Resale Policy',
+    'event_resale_window': 'Resale window',
+    'event_reschedule_confirm_body': '{0} will move to {1}. Every ticket holder will be notified.',
+    'event_reschedule_confirm_title': 'Reschedule event?',
+    'event_reschedule_counts': '{0} holders notified, {1} wallet passes and {2} NFTs updated',
+    'event_reschedule_current_date': 'Currently {0}',
+    'event_reschedule_date_in_past': 'The new date must be in the future',
+    'event_reschedule_done': 'Event rescheduled. {0} ticket holders notified.',
+    'event_reschedule_history': 'Previous changes',
+    'event_reschedule_new_date': 'New date and time',
+    'event_reschedule_no_refund_hint': 'Refunds follow your usual refund policy.',
+    'event_reschedule_no_refund_window': 'No refund window',
+    'event_reschedule_pick_date': 'Pick the new date',
+    'event_reschedule_reason': 'Reason (optional)',
+    'event_reschedule_refund_days': '{0} days',
+    'event_reschedule_refund_hint': "Holders who can't make the new date can get a full refund until {0}. Resale is paused until then.",
+    'event_reschedule_refund_window': 'Refund window',
+    'event_reschedule_refunds_until': 'Full refunds until {0}',
+    'event_reschedule_submit': 'Reschedule',
+    'event_reschedule_title': 'Reschedule Event',
+    'event_reschedule_what_happens': 'All tickets stay valid. Holders are notified, and wallet passes and ticket NFTs are updated with the new date.',
     'event_scoring_weights': 'Event Scoring Weights',
     'event_tickets_remaining': '{0} tickets remaining',
     'event_updates': 'Event Updates',
@@ -1749,6 +1915,19 @@ ENGLISH_MAP = {
     'private_event_found': 'Private event found',
     'products_synced_from_shopify': 'Products synced from Shopify',
     # Promo
+    'promo_bulk_code': 'Bulk code',
+    'promo_bulk_count': 'Number of codes',
+    'promo_bulk_count_range': 'Choose between 1 and {0} codes',
+    'promo_bulk_created': '{0} codes created',
+    'promo_bulk_description': 'Unique single-use codes for a partner, shared as a CSV file.',
+    'promo_bulk_enter_name': 'Enter who the codes are for',
+    'promo_bulk_generate': 'Generate and share',
+    'promo_bulk_name': 'Partner or campaign',
+    'promo_bulk_name_hint': 'e.g. Radio giveaway',
+    'promo_bulk_prefix': 'Prefix',
+    'promo_bulk_title': 'Bulk codes',
+    'promo_buy_quantity': 'Buy',
+    'promo_buy_x_get_y': 'Buy X get Y',
     'promo_code_label': 'Promo Code',
     'promo_create_code': 'Create Code',
     'promo_create_description': 'Create a discount code for your event.',
@@ -1757,11 +1936,26 @@ ENGLISH_MAP = {
     'promo_enter_code': 'Enter code',
     'promo_fixed_amount': 'Fixed Amount',
     'promo_generate_random': 'Generate random code',
+    'promo_get_free': 'Free',
+    'promo_get_quantity': 'Get',
     'promo_max_uses': 'Max Uses',
     'promo_max_uses_hint': 'Leave blank for unlimited',
+    'promo_max_uses_per_user': 'Uses per buyer',
+    'promo_min_order': 'Min. order ($)',
+    'promo_min_tickets': 'Min. tickets',
+    'promo_min_tickets_chip': '{0}+ tickets',
     'promo_no_codes': 'No promo codes yet',
     'promo_percentage': 'Percentage',
     'promo_price_preview': 'Price Preview',
+    'promo_report_export': 'Export CSV',
+    'promo_report_failed': 'Could not load the report',
+    'promo_report_pending': '{0} pending',
+    'promo_report_row': '{0} orders · {1} tickets · {2} off',
+    'promo_report_title': 'Redemptions',
+    'promo_series_wide': 'Whole series',
+    'promo_series_wide_hint': 'Valid for every date in this series',
+    'promo_stackable': 'Stackable',
+    'promo_stackable_hint': 'Can be combined with other stackable codes',
     'purchase_confirmations_receipts': 'Purchase confirmations & receipts',
     'purchase_details': 'Purchase Details',
     'push_changes': 'Push Changes',
@@ -1797,8 +1991,11 @@ ENGLISH_MAP = {
     'resale_checking_payout': 'Checking payout setup...',
     'resale_complete_payout_setup': 'Complete payout setup to list tickets.',
     'resale_enter_price': 'Enter a price',
+    'resale_face_value_only': 'The organizer only allows resale at face value ({0})',
     'resale_fee_reminder': 'A 5% platform fee and Stripe processing fee apply.',
     'resale_general_admission': 'General Admission',
+    'resale_held_for_waitlist': 'Held for the waitlist',
+    'resale_held_for_you': 'Held for you until {0}',
     'resale_keep_listed': 'Keep Listed',
     'resale_list_for_sale': 'List for Sale',
     'resale_listed_for_sale': 'Listed for Sale',
@@ -1807,10 +2004,18 @@ ENGLISH_MAP = {
     'resale_max_price': 'Max Price',
     'resale_no_tickets': 'No Resale Tickets',
     'resale_no_tickets_description': 'No resale tickets available right now.',
+    'resale_organizer_royalty': 'Organizer Royalty ({0}%)',
     'resale_payout_method': 'Payout Method',
     'resale_payout_setup_required': 'Payout setup required',
     'resale_payout_stripe_info': 'Payouts are processed via Stripe.',
     'resale_payouts_enabled': 'Payouts enabled',
+    'resale_policy_closes': 'Resale closes {0}',
+    'resale_policy_face_value': 'Face value only: up to {0}',
+    'resale_policy_max': 'Maximum price: {0}',
+    'resale_policy_min': 'Minimum price: {0}',
+    'resale_policy_title': 'Organizer resale rules',
+    'resale_price_above_cap': 'The organizer caps resale at {0}',
+    'resale_price_below_minimum': "The organizer's minimum resale price is {0}",
     'resale_sale_price': 'Sale Price',
     'resale_sell_ticket': 'Sell Ticket',
     'resale_set_price': 'Set Your Price',
@@ -1949,12 +2154,15 @@ ENGLISH_MAP = {
     'this_week': 'This Week',
     'ticket_checked_in': 'Ticket checked in',
     'ticket_delivery': 'Ticket Delivery',
+    'ticket_min_per_order': 'Min {0} per order',
     'ticket_number_label': 'Ticket Number',
     'ticket_number_copied': 'Ticket number copied!',
     'ticket_purchases': 'Ticket Purchases',
     'ticket_scanned': 'Ticket Scanned',
     'ticket_scanned_subtitle': 'Ticket has been verified.',
     'ticket_sold': 'Ticket Sold',
+    'ticket_tier_remaining': '{0}: {1} left at this price',
+    'ticket_tier_until': '{0} until {1}',
     'ticket_wrong_event': 'This ticket is for a different event',
     'tickets_label': 'Tickets',
     'tickets_sold_today': 'Tickets Sold Today',
@@ -2031,14 +2239,41 @@ ENGLISH_MAP = {
     'waitlist_enter_valid_price': 'Please enter a valid price',
     'waitlist_join_title': 'Join Waitlist',
     'waitlist_leave': 'Leave Waitlist',
+    'waitlist_lottery_awaiting_draw': 'Your place will be drawn at {0}',
+    'waitlist_lottery_commitment': 'Lottery commitment: {0}',
+    'waitlist_lottery_join_hint': 'This waitlist is a lottery: everyone who joins before {0} is served in a random order',
+    'waitlist_lottery_position': 'Position #{0} in queue (drawn #{1})',
+    'waitlist_lottery_seed': 'Lottery seed: {0}',
     'waitlist_max_price': 'Max Price',
     'waitlist_no_payment_methods': 'No payment methods available',
     'waitlist_no_stripe_customer': 'No Stripe customer found',
     'waitlist_notify_description': 'Get notified when tickets become available.',
     'waitlist_notify_me': 'Notify Me',
     'waitlist_notify_when_available': 'Notify when available',
+    'waitlist_offer_decline': 'Pass to the Next Person',
+    'waitlist_offer_held_until': 'A ticket is held for you in resale until {0}',
+    'waitlist_offer_title': "It's Your Turn!",
+    'waitlist_offer_until': 'Tickets are yours to claim until {0}',
     'waitlist_on_waitlist': "You're on the waitlist!",
     'waitlist_payment_method': 'Payment Method',
+    'waitlist_settings_claim_hours': '{0} h',
+    'waitlist_settings_claim_minutes': 'Claim window',
+    'waitlist_settings_claim_minutes_hint': 'How long each person has to buy before the ticket goes to the next',
+    'waitlist_settings_claim_minutes_option': '{0} minutes',
+    'waitlist_settings_claim_window': 'Claim windows',
+    'waitlist_settings_claim_window_hint': 'Offer each ticket to one person at a time, in the order they joined, and hold it for them',
+    'waitlist_settings_commitment_hint': 'The seed is fixed now and revealed at the draw. Share this commitment so anyone can check the order afterwards.',
+    'waitlist_settings_cutoff': 'Lottery cutoff',
+    'waitlist_settings_drawn': 'Drawn {0} for {1} entries',
+    'waitlist_settings_fifo': 'Everyone at once',
+    'waitlist_settings_fifo_hint': 'Notify everyone when a ticket comes up; the fastest buyer gets it',
+    'waitlist_settings_invalid_cutoff': 'The cutoff must be in the future and before the event',
+    'waitlist_settings_lottery': 'Lottery',
+    'waitlist_settings_lottery_hint': 'Claim windows in a random order, drawn for everyone who joins before a cutoff',
+    'waitlist_settings_pick_cutoff': 'Pick when entries close for the draw',
+    'waitlist_settings_save': 'Save',
+    'waitlist_settings_saved': 'Waitlist settings saved',
+    'waitlist_settings_title': 'Waitlist Settings',
     # Wallet Send/Receive
     'wallet_receive_instructions': 'Share your address to receive ADA.',
     'wallet_receive_no_wallet': 'No wallet found',
@@ -2067,8 +2302,27 @@ ENGLISH_MAP = {
     'whats_needed_description': 'Documents and information required for verification.',
     'why_verify': 'Why Verify?',
     'why_verify_description': 'Verification is required for events with 250+ capacity.',
+    'widget_abandonment_emails': 'Email buyers who abandon checkout',
+    'widget_abandonment_emails_desc': 'One reminder with a link that restores their order',
     'widget_appearance_saved': 'Widget appearance saved!',
+    'widget_checkout_abandoned': 'Abandoned',
+    'widget_checkout_abandoned_value': '{0} left in abandoned carts',
+    'widget_checkout_activity': 'Checkout activity (30 days)',
     'widget_checkout_description': 'Embed a checkout button on your website.',
+    'widget_checkout_paid': 'Paid',
+    'widget_checkout_recovered': 'Recovered',
+    'widget_checkout_started': 'Started',
+    'widget_create_test_key': 'Create test key',
+    'widget_custom_css': 'Custom CSS',
+    'widget_custom_css_hint': 'Applies inside the checkout only. Images, fonts and @import are removed.',
+    'widget_key_expires_hours': 'Rotated · stops working in {0}h',
+    'widget_key_revoke': 'Revoke key',
+    'widget_key_revoke_warning': 'Embeds using this key stop working right away. This cannot be undone.',
+    'widget_key_rotate': 'Rotate key',
+    'widget_key_rotate_warning': 'A new key with the same settings replaces this one. The current key keeps working for 24 hours while you update your embed code.',
+    'widget_key_test': 'Test mode',
+    'widget_key_usage': '{0} requests · {1} blocked (7 days)',
+    'widget_powered_by_paid': 'Hiding it requires Pro or Enterprise',
     'your_event': 'Your Event',
     'youre_verified': "You're Verified!",
 }
@@ -30,6 +30,7 @@ class DoorListEntry {
   final String? nftAssetId;
   final String? nftPolicyId;
   final String? nftTxHash;
+  final String? nftChainStatus; // 'submitted', 'confirmed', or null (no NFT)
   final String? seatLabel;
   final String category;
   final String? itemIcon;
@@ -47,6 +48,7 @@ class DoorListEntry {
     this.nftAssetId,
     this.nftPolicyId,
     this.nftTxHash,
+    this.nftChainStatus,
     this.seatLabel,
     this.category = 'entry',
     this.itemIcon,
@@ -60,6 +62,9 @@ class DoorListEntry {
   bool get isCancelled => status == 'cancelled';
   bool get isRefunded => status == 'refunded';
   bool get hasNft => nftAssetId != null && nftAssetId!.isNotEmpty;
+
+  /// NFT tx is still waiting for chain confirmations (may yet be rolled back).
+  bool get isNftUnconfirmed => hasNft && nftChainStatus == 'submitted';
   bool get isRedeemable => category == 'redeemable';
 
   Map<String, dynamic> toMap() {
@@ -73,6 +78,7 @@ class DoorListEntry {
       'nft_asset_id': nftAssetId,
       'nft_policy_id': nftPolicyId,
       'nft_tx_hash': nftTxHash,
+      'nft_chain_status': nftChainStatus,
       'seat_label': seatLabel,
       'category': category,
       'item_icon': itemIcon,
@@ -93,6 +99,7 @@ class DoorListEntry {
       nftAssetId: map['nft_asset_id'] as String?,
       nftPolicyId: map['nft_policy_id'] as String?,
       nftTxHash: map['nft_tx_hash'] as String?,
+      nftChainStatus: map['nft_chain_status'] as String?,
       seatLabel: map['seat_label'] as String?,
       category: map['category'] as String? ?? 'entry',
       itemIcon: map['item_icon'] as String?,
@@ -158,7 +165,14 @@ class SyncQueueEntry {
 }
 
 /// Result of blockchain NFT verification.
-enum BlockchainVerifyStatus { verified, notFound, ownerMismatch, skipped, error }
+enum BlockchainVerifyStatus {
+  verified,
+  unconfirmed,
+  notFound,
+  ownerMismatch,
+  skipped,
+  error,
+}
 
 class BlockchainVerifyResult {
   final BlockchainVerifyStatus status;
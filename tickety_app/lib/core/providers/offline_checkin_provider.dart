@@ -466,7 +466,9 @@ class OfflineCheckInNotifier extends StateNotifier<OfflineCheckInState> {
             status: TierStatus.verified,
             message: blockchainResult.message,
           ),
-        BlockchainVerifyStatus.skipped => TierResult(
+        BlockchainVerifyStatus.skipped ||
+        BlockchainVerifyStatus.unconfirmed =>
+          TierResult(
             status: TierStatus.skipped,
             message: blockchainResult.message,
           ),
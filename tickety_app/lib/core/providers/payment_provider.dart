@@ -60,7 +60,7 @@ class PaymentProcessNotifier extends StateNotifier<PaymentProcessState> {
     String currency = 'usd',
     int quantity = 1,
     Map<String, dynamic>? metadata,
-    String? promoCodeId,
+    List<String>? promoCodes,
     List<Map<String, dynamic>>? seatSelections,
   }) async {
     if (state.isLoading) {
@@ -88,7 +88,7 @@ class PaymentProcessNotifier extends StateNotifier<PaymentProcessState> {
         currency: currency,
         type: PaymentType.primaryPurchase,
         quantity: quantity,
-        promoCodeId: promoCodeId,
+        promoCodes: promoCodes,
         metadata: metadata,
         seatSelections: seatSelections,
       );
@@ -22,20 +22,22 @@ final promoCodeRepositoryProvider = Provider<PromoCodeRepository>((ref) {
 class PromoValidationState {
   final bool isValidating;
   final PromoValidationResult? result;
-  final String? appliedCode;
+
+  /// Codes currently applied to the order, in the order entered.
+  final List<String> appliedCodes;
   final String? error;
 
   const PromoValidationState({
     this.isValidating = false,
     this.result,
-    this.appliedCode,
+    this.appliedCodes = const [],
     this.error,
   });
 
   PromoValidationState copyWith({
     bool? isValidating,
     PromoValidationResult? result,
-    String? appliedCode,
+    List<String>? appliedCodes,
     String? error,
     bool clearResult = false,
     bool clearError = false,
@@ -43,14 +45,18 @@ class PromoValidationState {
     return PromoValidationState(
       isValidating: isValidating ?? this.isValidating,
       result: clearResult ? null : (result ?? this.result),
-      appliedCode: clearResult ? null : (appliedCode ?? this.appliedCode),
+      appliedCodes:
+          clearResult ? const [] : (appliedCodes ?? this.appliedCodes),
       error: clearError ? null : (error ?? this.error),
     );
   }
 
   bool get hasDiscount => result != null && result!.valid;
   int get discountCents => result?.discountCents ?? 0;
-  String? get promoCodeId => result?.promoCodeId;
+
+  /// Applied codes for display, e.g. "SPRING + VIP10".
+  String? get appliedCode =>
+      appliedCodes.isEmpty ? null : appliedCodes.join(' + ');
 }
 
 class PromoValidationNotifier extends StateNotifier<PromoValidationState> {
@@ -59,39 +65,73 @@ class PromoValidationNotifier extends StateNotifier<PromoValidationState> {
   PromoValidationNotifier(this._repository)
       : super(const PromoValidationState());
 
-  /// Validate a promo code.
+  /// Add a promo code to the order. Stackable codes combine with the ones
+  /// already applied; an invalid code leaves the applied ones in place.
   Future<void> validateCode({
     required String eventId,
     required String code,
-    required int basePriceCents,
-    String? ticketTypeId,
+    required int quantity,
+    List<Map<String, dynamic>>? ticketItems,
   }) async {
-    if (state.isValidating) return;
+    final normalized = code.trim().toUpperCase();
+    if (state.appliedCodes.contains(normalized)) return;
+    await _validate(
+      eventId: eventId,
+      codes: [...state.appliedCodes, normalized],
+      quantity: quantity,
+      ticketItems: ticketItems,
+    );
+  }
 
-    AppLogger.info('Validating promo code: $code', tag: _tag);
-    state = state.copyWith(
-      isValidating: true,
-      clearError: true,
-      clearResult: true,
+  /// Remove one applied code and re-price the rest.
+  Future<void> removeCode({
+    required String eventId,
+    required String code,
+    required int quantity,
+    List<Map<String, dynamic>>? ticketItems,
+  }) async {
+    final remaining = state.appliedCodes.where((c) => c != code).toList();
+    if (remaining.isEmpty) {
+      clearCode();
+      return;
+    }
+    state = state.copyWith(clearResult: true);
+    await _validate(
+      eventId: eventId,
+      codes: remaining,
+      quantity: quantity,
+      ticketItems: ticketItems,
     );
+  }
+
+  Future<void> _validate({
+    required String eventId,
+    required List<String> codes,
+    required int quantity,
+    List<Map<String, dynamic>>? ticketItems,
+  }) async {
+    if (state.isValidating) return;
+
+    AppLogger.info('Validating promo codes: ${codes.join(',')}', tag: _tag);
+    state = state.copyWith(isValidating: true, clearError: true);
 
     try {
-      final result = await _repository.validateCode(
+      final result = await _repository.validateCodes(
         eventId: eventId,
-        code: code,
-        basePriceCents: basePriceCents,
-        ticketTypeId: ticketTypeId,
+        codes: codes,
+        quantity: quantity,
+        ticketItems: ticketItems,
       );
 
       if (result.valid) {
         AppLogger.info(
-          'Promo code valid: discount=${result.discountCents} cents',
+          'Promo codes valid: discount=${result.discountCents} cents',
           tag: _tag,
         );
         state = state.copyWith(
           isValidating: false,
           result: result,
-          appliedCode: code.toUpperCase(),
+          appliedCodes: codes,
         );
       } else {
         state = state.copyWith(
@@ -114,7 +154,7 @@ class PromoValidationNotifier extends StateNotifier<PromoValidationState> {
     }
   }
 
-  /// Clear the applied promo code.
+  /// Clear the applied promo codes.
   void clearCode() {
     state = const PromoValidationState();
   }
@@ -164,14 +204,17 @@ class PromoCodeManagementNotifier
   PromoCodeManagementNotifier(this._repository)
       : super(const PromoCodeManagementState());
 
-  /// Load promo codes for an event.
-  Future<void> loadCodes(String eventId) async {
+  /// Load promo codes for an event, with its series' codes.
+  Future<void> loadCodes(String eventId, {String? seriesId}) async {
     if (state.isLoading) return;
 
     state = state.copyWith(isLoading: true, clearError: true);
 
     try {
-      final codes = await _repository.getEventPromoCodes(eventId);
+      final codes = await _repository.getEventPromoCodes(
+        eventId,
+        seriesId: seriesId,
+      );
       AppLogger.info('Loaded ${codes.length} promo codes', tag: _tag);
       state = state.copyWith(codes: codes, isLoading: false);
     } catch (e, s) {
@@ -189,10 +232,17 @@ class PromoCodeManagementNotifier
   /// Create a new promo code.
   Future<bool> createCode({
     required String eventId,
+    String? seriesId,
     required String code,
     required PromoDiscountType discountType,
     required int discountValue,
+    int? buyQuantity,
+    int? getQuantity,
     int? maxUses,
+    int? maxUsesPerUser = 1,
+    int? minQuantity,
+    int? minOrderCents,
+    bool stackable = false,
     DateTime? validFrom,
     DateTime? validUntil,
     String? ticketTypeId,
@@ -200,10 +250,17 @@ class PromoCodeManagementNotifier
     try {
       final newCode = await _repository.createPromoCode(
         eventId: eventId,
+        seriesId: seriesId,
         code: code,
         discountType: discountType,
         discountValue: discountValue,
+        buyQuantity: buyQuantity,
+        getQuantity: getQuantity,
         maxUses: maxUses,
+        maxUsesPerUser: maxUsesPerUser,
+        minQuantity: minQuantity,
+        minOrderCents: minOrderCents,
+        stackable: stackable,
         validFrom: validFrom,
         validUntil: validUntil,
         ticketTypeId: ticketTypeId,
@@ -223,30 +280,57 @@ class PromoCodeManagementNotifier
     }
   }
 
+  /// Generate a batch of codes; reloads the list so they show up.
+  Future<PromoCodeBatch?> bulkCreate({
+    required String eventId,
+    String? seriesId,
+    required String name,
+    required int count,
+    String? prefix,
+    required PromoDiscountType discountType,
+    required int discountValue,
+    int? buyQuantity,
+    int? getQuantity,
+    DateTime? validUntil,
+    bool stackable = false,
+  }) async {
+    try {
+      final batch = await _repository.bulkCreate(
+        eventId: eventId,
+        seriesId: seriesId,
+        name: name,
+        count: count,
+        prefix: prefix,
+        discountType: discountType,
+        discountValue: discountValue,
+        buyQuantity: buyQuantity,
+        getQuantity: getQuantity,
+        validUntil: validUntil,
+        stackable: stackable,
+      );
+      await loadCodes(eventId, seriesId: seriesId);
+      return batch;
+    } catch (e, s) {
+      final appError = ErrorHandler.normalize(e, s);
+      AppLogger.error(
+        'Failed to bulk create promo codes',
+        error: appError.technicalDetails ?? e,
+        stackTrace: s,
+        tag: _tag,
+      );
+      state = state.copyWith(error: appError.userMessage);
+      return null;
+    }
+  }
+
   /// Deactivate a promo code.
   Future<void> deactivateCode(String id) async {
     try {
       await _repository.deactivatePromoCode(id);
       state = state.copyWith(
-        codes: state.codes.map((c) {
-          if (c.id == id) {
-            return PromoCode(
-              id: c.id,
-              eventId: c.eventId,
-              code: c.code,
-              discountType: c.discountType,
-              discountValue: c.discountValue,
-              maxUses: c.maxUses,
-              currentUses: c.currentUses,
-              validFrom: c.validFrom,
-              validUntil: c.validUntil,
-              ticketTypeId: c.ticketTypeId,
-              isActive: false,
-              createdAt: c.createdAt,
-            );
-          }
-          return c;
-        }).toList(),
+        codes: state.codes
+            .map((c) => c.id == id ? c.withActive(false) : c)
+            .toList(),
       );
     } catch (e, s) {
       final appError = ErrorHandler.normalize(e, s);
@@ -265,25 +349,9 @@ class PromoCodeManagementNotifier
     try {
       await _repository.activatePromoCode(id);
       state = state.copyWith(
-        codes: state.codes.map((c) {
-          if (c.id == id) {
-            return PromoCode(
-              id: c.id,
-              eventId: c.eventId,
-              code: c.code,
-              discountType: c.discountType,
-              discountValue: c.discountValue,
-              maxUses: c.maxUses,
-              currentUses: c.currentUses,
-              validFrom: c.validFrom,
-              validUntil: c.validUntil,
-              ticketTypeId: c.ticketTypeId,
-              isActive: true,
-              createdAt: c.createdAt,
-            );
-          }
-          return c;
-        }).toList(),
+        codes: state.codes
+            .map((c) => c.id == id ? c.withActive(true) : c)
+            .toList(),
       );
     } catch (e, s) {
       final appError = ErrorHandler.normalize(e, s);
@@ -119,14 +119,17 @@ class SellerBalanceNotifier extends StateNotifier<SellerBalanceState> {
 
   /// Initiate a withdrawal from the seller's Stripe balance.
   ///
-  /// If [amountCents] is null, withdraws the full available balance.
-  /// Returns the withdrawal result, which may include an onboarding URL
-  /// if the seller needs to add bank details first.
-  Future<WithdrawalResult?> initiateWithdrawal({int? amountCents}) async {
+  /// If [amountCents] is null, withdraws the full available balance of
+  /// [currency]. Returns the withdrawal result, which may include an
+  /// onboarding URL if the seller needs to add bank details first.
+  Future<WithdrawalResult?> initiateWithdrawal({
+    int? amountCents,
+    String currency = 'usd',
+  }) async {
     if (state.isWithdrawing) return null;
 
     AppLogger.info(
-      'Initiating withdrawal${amountCents != null ? " for $amountCents cents" : ""}',
+      'Initiating $currency withdrawal${amountCents != null ? " for $amountCents cents" : ""}',
       tag: _tag,
     );
     state = state.copyWith(
@@ -138,6 +141,7 @@ class SellerBalanceNotifier extends StateNotifier<SellerBalanceState> {
     try {
       final result = await _repository.initiateWithdrawal(
         amountCents: amountCents,
+        currency: currency,
       );
 
       AppLogger.info('Withdrawal result: $result', tag: _tag);
@@ -146,15 +150,28 @@ class SellerBalanceNotifier extends StateNotifier<SellerBalanceState> {
         // Update the cached balance
         final currentBalance = state.balance;
         if (currentBalance != null && result.remainingBalanceCents != null) {
+          final isPrimary = result.currency == currentBalance.currency;
           state = state.copyWith(
             balance: SellerBalance(
               hasAccount: currentBalance.hasAccount,
-              availableBalanceCents: result.remainingBalanceCents!,
+              availableBalanceCents: isPrimary
+                  ? result.remainingBalanceCents!
+                  : currentBalance.availableBalanceCents,
               pendingBalanceCents: currentBalance.pendingBalanceCents,
               payoutsEnabled: currentBalance.payoutsEnabled,
               detailsSubmitted: currentBalance.detailsSubmitted,
               needsOnboarding: currentBalance.needsOnboarding,
               currency: currentBalance.currency,
+              balances: [
+                for (final b in currentBalance.balances)
+                  b.currency == result.currency
+                      ? CurrencyBalance(
+                          currency: b.currency,
+                          availableCents: result.remainingBalanceCents!,
+                          pendingCents: b.pendingCents,
+                        )
+                      : b,
+              ],
             ),
             isWithdrawing: false,
             lastWithdrawal: result,
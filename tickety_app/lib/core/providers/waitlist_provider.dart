@@ -2,6 +2,7 @@ import 'package:flutter_riverpod/flutter_riverpod.dart';
 
 import '../../features/waitlist/data/waitlist_repository.dart';
 import '../../features/waitlist/models/waitlist_entry.dart';
+import '../../features/waitlist/models/waitlist_settings.dart';
 
 /// Repository provider.
 final waitlistRepositoryProvider = Provider<WaitlistRepository>((ref) {
@@ -15,11 +16,15 @@ class WaitlistState {
   final String? error;
   final int? position;
 
+  /// The event's waitlist lottery, if it runs one.
+  final WaitlistLottery? lottery;
+
   const WaitlistState({
     this.entry,
     this.isLoading = false,
     this.error,
     this.position,
+    this.lottery,
   });
 
   WaitlistState copyWith({
@@ -27,6 +32,7 @@ class WaitlistState {
     bool? isLoading,
     String? error,
     int? position,
+    WaitlistLottery? lottery,
     bool clearEntry = false,
     bool clearError = false,
   }) {
@@ -35,12 +41,22 @@ class WaitlistState {
       isLoading: isLoading ?? this.isLoading,
       error: clearError ? null : (error ?? this.error),
       position: position ?? this.position,
+      lottery: lottery ?? this.lottery,
     );
   }
 
-  bool get isOnWaitlist => entry != null && entry!.isActive;
+  bool get isOnWaitlist => entry != null && entry!.isWaiting;
+
   bool get isAutoBuy => entry?.isAutoBuy ?? false;
   bool get isNotify => entry?.isNotify ?? false;
+
+  /// Whether the user's place is still to be drawn by the lottery.
+  bool get awaitsLotteryDraw {
+    final lottery = this.lottery;
+    return lottery != null &&
+        !lottery.isDrawn &&
+        (entry == null || entry!.createdAt.isBefore(lottery.cutoffAt));
+  }
 }
 
 /// Manages waitlist state for a specific event.
@@ -56,12 +72,17 @@ class WaitlistNotifier extends StateNotifier<WaitlistState> {
   Future<void> load() async {
     state = state.copyWith(isLoading: true, clearError: true);
     try {
-      final entry = await _repository.getMyEntry(eventId);
+      final results = await Future.wait([
+        _repository.getMyEntry(eventId),
+        _repository.getLottery(eventId),
+      ]);
+      final entry = results[0] as WaitlistEntry?;
+      final lottery = results[1] as WaitlistLottery?;
       int? position;
       if (entry != null) {
         position = await _repository.getPosition(eventId);
       }
-      state = WaitlistState(entry: entry, position: position);
+      state = WaitlistState(entry: entry, position: position, lottery: lottery);
     } catch (e) {
       state = state.copyWith(isLoading: false, error: e.toString());
     }
@@ -72,7 +93,11 @@ class WaitlistNotifier extends StateNotifier<WaitlistState> {
     try {
       final entry = await _repository.joinNotify(eventId);
       final position = await _repository.getPosition(eventId);
-      state = WaitlistState(entry: entry, position: position);
+      state = WaitlistState(
+        entry: entry,
+        position: position,
+        lottery: state.lottery,
+      );
     } catch (e) {
       state = state.copyWith(
         isLoading: false,
@@ -97,7 +122,11 @@ class WaitlistNotifier extends StateNotifier<WaitlistState> {
         stripeCustomerId: stripeCustomerId,
       );
       final position = await _repository.getPosition(eventId);
-      state = WaitlistState(entry: entry, position: position);
+      state = WaitlistState(
+        entry: entry,
+        position: position,
+        lottery: state.lottery,
+      );
     } catch (e) {
       state = state.copyWith(
         isLoading: false,
@@ -115,7 +144,15 @@ class WaitlistNotifier extends StateNotifier<WaitlistState> {
     state = state.copyWith(isLoading: true, clearError: true);
     try {
       await _repository.cancel(entry.id);
-      state = const WaitlistState();
+      // Declining an open offer passes it to the next entry right away
+      if (entry.hasOpenOffer()) {
+        _repository.triggerProcessing(
+          eventId: eventId,
+          trigger: 'offer_declined',
+          listingId: entry.offerListingId,
+        );
+      }
+      state = WaitlistState(lottery: state.lottery);
     } catch (e) {
       state = state.copyWith(isLoading: false, error: 'Failed to leave waitlist');
     }
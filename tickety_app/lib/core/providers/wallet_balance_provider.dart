@@ -129,6 +129,8 @@ class WalletBalanceNotifier extends StateNotifier<WalletBalanceState> {
   Future<Map<String, dynamic>?> purchaseFromWallet({
     required String eventId,
     required int quantity,
+    List<Map<String, dynamic>>? ticketItems,
+    List<String>? accessCodes,
   }) async {
     if (state.isPurchasing) return null;
 
@@ -139,6 +141,8 @@ class WalletBalanceNotifier extends StateNotifier<WalletBalanceState> {
       final result = await _repository.purchaseFromWallet(
         eventId: eventId,
         quantity: quantity,
+        ticketItems: ticketItems,
+        accessCodes: accessCodes,
       );
 
       AppLogger.info('Wallet purchase completed: ${result['payment_id']}', tag: _tag);
@@ -18,6 +18,8 @@ class BlockchainVerifyService {
   ///
   /// Returns [BlockchainVerifyResult] with status:
   /// - `verified` if asset exists on-chain
+  /// - `unconfirmed` if the mint/transfer tx is still awaiting confirmations
+  ///   (non-blocking: the asset may not be indexed yet, or may be rolled back)
   /// - `notFound` if asset doesn't exist
   /// - `skipped` if ticket has no NFT
   /// - `error` on API failure (non-blocking)
@@ -37,6 +39,19 @@ class BlockchainVerifyService {
 
       final assetInfo = await _blockfrost.getAssetInfo(entry.nftAssetId!);
 
+      if (entry.isNftUnconfirmed) {
+        AppLogger.debug(
+          'NFT tx not yet confirmed: ${entry.nftAssetId}',
+          tag: _tag,
+        );
+        return BlockchainVerifyResult(
+          status: BlockchainVerifyStatus.unconfirmed,
+          message: assetInfo == null
+              ? 'NFT mint pending confirmation'
+              : 'NFT on chain, awaiting confirmations',
+        );
+      }
+
       if (assetInfo == null) {
         AppLogger.debug(
           'NFT asset not found on chain: ${entry.nftAssetId}',
@@ -316,7 +316,8 @@ class CheckInSyncService {
           .from('tickets')
           .select(
             'id, ticket_number, event_id, status, owner_name, owner_email, '
-            'nft_asset_id, nft_policy_id, nft_tx_hash, checked_in_at, checked_in_by',
+            'nft_asset_id, nft_policy_id, nft_tx_hash, nft_chain_status, '
+            'checked_in_at, checked_in_by',
           )
           .eq('event_id', eventId)
           .eq('id', ticketIdOrNumber)
@@ -327,7 +328,8 @@ class CheckInSyncService {
           .from('tickets')
           .select(
             'id, ticket_number, event_id, status, owner_name, owner_email, '
-            'nft_asset_id, nft_policy_id, nft_tx_hash, checked_in_at, checked_in_by',
+            'nft_asset_id, nft_policy_id, nft_tx_hash, nft_chain_status, '
+            'checked_in_at, checked_in_by',
           )
           .eq('event_id', eventId)
           .eq('ticket_number', ticketIdOrNumber)
@@ -345,6 +347,7 @@ class CheckInSyncService {
         nftAssetId: response['nft_asset_id'] as String?,
         nftPolicyId: response['nft_policy_id'] as String?,
         nftTxHash: response['nft_tx_hash'] as String?,
+        nftChainStatus: response['nft_chain_status'] as String?,
         checkedInAt: response['checked_in_at'] as String?,
         checkedInBy: response['checked_in_by'] as String?,
         updatedAt: DateTime.now().toUtc().toIso8601String(),
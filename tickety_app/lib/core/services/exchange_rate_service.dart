@@ -3,6 +3,8 @@ import 'dart:convert';
 import 'package:http/http.dart' as http;
 import 'package:shared_preferences/shared_preferences.dart';
 
+import '../utils/currency_formatter.dart';
+
 /// Fetches and caches exchange rates from the Frankfurter API (ECB data).
 /// Free, no API key, updated daily.
 class ExchangeRateService {
@@ -53,14 +55,17 @@ class ExchangeRateService {
     await _fetchFromApi(prefs);
   }
 
-  /// Convert an amount in cents from one currency to another.
-  /// Returns the converted amount in cents.
+  /// Convert an amount in minor units from one currency to another.
+  /// Returns the converted amount in the target's minor units (whole yen
+  /// for JPY).
   int convert(int cents, {required String from, required String to}) {
     if (from == to) return cents;
     final fromRate = _rates[from.toLowerCase()] ?? 1.0;
     final toRate = _rates[to.toLowerCase()] ?? 1.0;
-    // Convert: cents_in_from → USD → cents_in_to
-    return (cents / fromRate * toRate).round();
+    final fromUnit = AppCurrency.fromCode(from).minorPerMajor;
+    final toUnit = AppCurrency.fromCode(to).minorPerMajor;
+    // Convert: minor units in from → USD → minor units in to
+    return (cents / fromUnit / fromRate * toRate * toUnit).round();
   }
 
   /// Get the exchange rate from one currency to another.
@@ -73,7 +78,11 @@ class ExchangeRateService {
 
   Future<void> _fetchFromApi(SharedPreferences prefs) async {
     // Frankfurter uses EUR as base. We fetch EUR→others, then rebase to USD.
-    final uri = Uri.parse('$_baseUrl/latest?from=USD&to=EUR,GBP,CAD,AUD');
+    final targets = AppCurrency.values
+        .where((c) => c != AppCurrency.usd)
+        .map((c) => c.displayCode)
+        .join(',');
+    final uri = Uri.parse('$_baseUrl/latest?from=USD&to=$targets');
     final response = await http.get(uri).timeout(const Duration(seconds: 10));
 
     if (response.statusCode != 200) return;
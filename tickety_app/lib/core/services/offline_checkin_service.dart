@@ -49,7 +49,7 @@ class OfflineCheckInService {
 
     _db = await openDatabase(
       path,
-      version: 5,
+      version: 6,
       onCreate: _createTables,
       onUpgrade: _upgradeTables,
     );
@@ -69,6 +69,7 @@ class OfflineCheckInService {
         nft_asset_id TEXT,
         nft_policy_id TEXT,
         nft_tx_hash TEXT,
+        nft_chain_status TEXT,
         seat_label TEXT,
         category TEXT DEFAULT 'entry',
         item_icon TEXT,
@@ -157,6 +158,9 @@ class OfflineCheckInService {
         )
       ''');
     }
+    if (oldVersion < 6) {
+      await db.execute('ALTER TABLE door_list ADD COLUMN nft_chain_status TEXT');
+    }
   }
 
   /// Get door list cache info for a given event.
@@ -204,7 +208,8 @@ class OfflineCheckInService {
         .from('tickets')
         .select(
           'id, ticket_number, event_id, status, owner_name, owner_email, '
-          'nft_asset_id, nft_policy_id, nft_tx_hash, seat_label, checked_in_at, checked_in_by',
+          'nft_asset_id, nft_policy_id, nft_tx_hash, nft_chain_status, seat_label, '
+          'checked_in_at, checked_in_by',
         )
         .eq('event_id', eventId)
         .inFilter('status', ['valid', 'used'])
@@ -247,6 +252,7 @@ class OfflineCheckInService {
           'nft_asset_id': map['nft_asset_id'] as String?,
           'nft_policy_id': map['nft_policy_id'] as String?,
           'nft_tx_hash': map['nft_tx_hash'] as String?,
+          'nft_chain_status': map['nft_chain_status'] as String?,
           'seat_label': map['seat_label'] as String?,
           'checked_in_at': map['checked_in_at'] as String?,
           'checked_in_by': map['checked_in_by'] as String?,
@@ -70,6 +70,14 @@ class PasswordCacheService {
     return tickets?[ticketTypeId] != null;
   }
 
+  /// Distinct ticket codes entered for an event (to unlock hidden types again).
+  Future<List<String>> getTicketPasswords(String eventId) async {
+    final cache = await _load();
+    final entry = cache[eventId] as Map<String, dynamic>?;
+    final tickets = entry?['tickets'] as Map<String, dynamic>?;
+    return tickets?.values.whereType<String>().toSet().toList() ?? [];
+  }
+
   /// Check if a ticket type is accessible (either via master or ticket-specific password).
   Future<bool> isTicketUnlocked(String eventId, String ticketTypeId) async {
     if (await hasEventPassword(eventId)) return true;
@@ -1,20 +1,47 @@
+import 'dart:math' as math;
+
 import '../services/exchange_rate_service.dart';
 
 /// Supported currencies with their display properties.
+///
+/// Amounts are integers in the currency's minor unit: cents, or whole yen
+/// for JPY. The fixed fee amounts must match `_shared/currency.ts`.
 enum AppCurrency {
-  usd('usd', 'USD', '\$', 'US Dollar'),
-  eur('eur', 'EUR', '\u20AC', 'Euro'),
-  gbp('gbp', 'GBP', '\u00A3', 'British Pound'),
-  cad('cad', 'CAD', 'CA\$', 'Canadian Dollar'),
-  aud('aud', 'AUD', 'A\$', 'Australian Dollar');
+  usd('usd', 'USD', '\$', 'US Dollar', cardFeeFixed: 30, mintFee: 25),
+  eur('eur', 'EUR', '\u20AC', 'Euro', cardFeeFixed: 25, mintFee: 25),
+  gbp('gbp', 'GBP', '\u00A3', 'British Pound', cardFeeFixed: 20, mintFee: 20),
+  cad('cad', 'CAD', 'CA\$', 'Canadian Dollar', cardFeeFixed: 30, mintFee: 30),
+  aud('aud', 'AUD', 'A\$', 'Australian Dollar', cardFeeFixed: 30, mintFee: 30),
+  jpy('jpy', 'JPY', '\u00A5', 'Japanese Yen',
+      decimals: 0, cardFeeFixed: 40, mintFee: 40);
 
-  const AppCurrency(this.code, this.displayCode, this.symbol, this.name);
+  const AppCurrency(
+    this.code,
+    this.displayCode,
+    this.symbol,
+    this.name, {
+    this.decimals = 2,
+    required this.cardFeeFixed,
+    required this.mintFee,
+  });
 
   final String code;
   final String displayCode;
   final String symbol;
   final String name;
 
+  /// Digits after the decimal point (0 for zero-decimal currencies).
+  final int decimals;
+
+  /// Stripe's fixed per-charge card fee, in minor units.
+  final int cardFeeFixed;
+
+  /// Flat NFT mint fee per card order, in minor units.
+  final int mintFee;
+
+  /// Minor units per major unit (100, or 1 for JPY).
+  int get minorPerMajor => math.pow(10, decimals).toInt();
+
   static AppCurrency fromCode(String code) {
     return AppCurrency.values.firstWhere(
       (c) => c.code == code.toLowerCase(),
@@ -28,21 +55,22 @@ enum AppCurrency {
 class CurrencyFormatter {
   const CurrencyFormatter._();
 
-  /// Format cents to a currency string (e.g., "$12.34", "€12.34").
-  /// No conversion — just formats the raw amount with the currency symbol.
+  /// Format minor units to a currency string (e.g., "$12.34", "€12.34",
+  /// "¥1500"). No conversion — just formats the raw amount with the symbol.
   static String format(int cents, {String currencyCode = 'usd'}) {
     final currency = AppCurrency.fromCode(currencyCode);
-    final amount = (cents / 100).toStringAsFixed(2);
-    return '${currency.symbol}$amount';
+    return '${currency.symbol}${_amount(cents, currency)}';
   }
 
   /// Format cents with the currency code suffix (e.g., "$12.34 USD").
   static String formatWithCode(int cents, {String currencyCode = 'usd'}) {
     final currency = AppCurrency.fromCode(currencyCode);
-    final amount = (cents / 100).toStringAsFixed(2);
-    return '${currency.symbol}$amount ${currency.displayCode}';
+    return '${currency.symbol}${_amount(cents, currency)} ${currency.displayCode}';
   }
 
+  static String _amount(int cents, AppCurrency currency) =>
+      (cents / currency.minorPerMajor).toStringAsFixed(currency.decimals);
+
   /// Convert cents from [fromCurrency] and format in [toCurrency].
   /// Uses live exchange rates. Falls back to raw format if rates unavailable.
   /// Example: convertAndFormat(5000, from: 'usd', to: 'eur') → "€46.15"
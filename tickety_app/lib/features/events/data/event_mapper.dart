@@ -2,6 +2,8 @@ import 'dart:ui';
 
 import '../../../core/graphics/graphics.dart';
 import '../models/event_model.dart';
+import '../models/event_tax.dart';
+import '../models/resale_policy.dart';
 
 /// Maps between JSON data and [EventModel] instances.
 ///
@@ -41,6 +43,9 @@ abstract class EventMapper {
       hideLocation: json['hide_location'] as bool? ?? false,
       maxTickets: json['max_tickets'] as int?,
       cashSalesEnabled: json['cash_sales_enabled'] as bool? ?? true,
+      taxInclusive: json['tax_inclusive'] as bool? ?? false,
+      taxRates: _parseTaxRates(json['tax_rates']),
+      resalePolicy: ResalePolicy.fromJson(json),
       organizerName: organizer?['display_name'] as String?,
       organizerHandle: organizer?['handle'] as String?,
       organizerVerified: organizerVerificationStatus == 'verified',
@@ -120,6 +125,16 @@ abstract class EventMapper {
     };
   }
 
+  static List<EventTaxRate> _parseTaxRates(dynamic json) {
+    if (json is! List) return const [];
+    final rates = json
+        .whereType<Map<String, dynamic>>()
+        .map(EventTaxRate.fromJson)
+        .toList()
+      ..sort((a, b) => a.sortOrder.compareTo(b.sortOrder));
+    return rates;
+  }
+
   static NoiseConfig? _parseNoiseConfig(dynamic json) {
     if (json == null) return null;
     if (json is! Map<String, dynamic>) return null;
@@ -3,8 +3,13 @@ import 'package:flutter/foundation.dart';
 import '../../../core/errors/errors.dart';
 import '../../../core/models/models.dart';
 import '../../../core/services/services.dart';
+import '../models/event_cancellation.dart';
 import '../models/event_model.dart';
+import '../models/event_reschedule.dart';
 import '../models/event_series.dart';
+import '../models/event_tax.dart';
+import '../models/refund_policy.dart';
+import '../models/resale_policy.dart';
 import '../models/ticket_availability.dart';
 import '../models/ticket_type.dart';
 import 'event_mapper.dart';
@@ -21,6 +26,11 @@ class TicketTypeInput {
   final String? itemIcon;
   final String? itemDescription;
   final String? accessPassword;
+  final DateTime? salesStartAt;
+  final DateTime? salesEndAt;
+  final int minPerOrder;
+  final int? maxPerOrder;
+  final List<TicketPriceTier> priceTiers;
 
   const TicketTypeInput({
     required this.name,
@@ -32,6 +42,11 @@ class TicketTypeInput {
     this.itemIcon,
     this.itemDescription,
     this.accessPassword,
+    this.salesStartAt,
+    this.salesEndAt,
+    this.minPerOrder = 1,
+    this.maxPerOrder,
+    this.priceTiers = const [],
   });
 }
 
@@ -208,7 +223,7 @@ class SupabaseEventRepository implements EventRepository {
 
     final response = await _client
         .from(_tableName)
-        .select()
+        .select('*, tax_rates:event_tax_rates(*)')
         .eq('id', id)
         .isFilter('deleted_at', null)
         .maybeSingle();
@@ -378,28 +393,112 @@ class SupabaseEventRepository implements EventRepository {
     AppLogger.info('Event deleted: $id', tag: _tag);
   }
 
-  /// Cancel an event and auto-refund all ticket holders.
-  /// Returns a map with refund results: total_payments, refunded, failed, skipped, errors.
-  Future<Map<String, dynamic>> cancelEvent(String eventId, {String? reason}) async {
+  /// Cancel an event and refund all ticket holders.
+  ///
+  /// The event comes off sale straight away; refunds go out in batches in
+  /// the background. Returns the cancellation with its progress so far.
+  /// Calling again for an event already being cancelled resumes it.
+  Future<EventCancellation> cancelEvent(String eventId, {String? reason}) async {
     AppLogger.debug('Cancelling event: $eventId', tag: _tag);
 
-    final response = await _client.functions.invoke(
-      'cancel-event',
-      body: {
-        'event_id': eventId,
-        if (reason != null) 'reason': reason,
-      },
-    );
+    final data = await _invokeCancelEvent({
+      'event_id': eventId,
+      if (reason != null) 'reason': reason,
+    });
+
+    AppLogger.info('Event cancelled: $eventId', tag: _tag);
+    return EventCancellation.fromJson(data['job'] as Map<String, dynamic>);
+  }
+
+  /// The cancellation of an event, if it was cancelled.
+  Future<EventCancellation?> getCancellation(String eventId) async {
+    final response = await _client
+        .from('event_cancellation_jobs')
+        .select('*, events(title, currency)')
+        .eq('event_id', eventId)
+        .maybeSingle();
+
+    return response == null ? null : EventCancellation.fromJson(response);
+  }
+
+  /// Why each of a cancellation's failed refunds failed, newest first.
+  Future<List<String>> getCancellationFailures(String jobId) async {
+    final response = await _client
+        .from('event_cancellation_items')
+        .select('error_message')
+        .eq('job_id', jobId)
+        .eq('status', 'failed')
+        .order('processed_at', ascending: false);
+
+    return (response as List<dynamic>)
+        .map((row) => row['error_message'] as String? ?? '')
+        .toList();
+  }
+
+  /// Send a cancellation's failed refunds again.
+  Future<EventCancellation> retryCancellationRefunds(String jobId) async {
+    AppLogger.debug('Retrying failed cancellation refunds: $jobId', tag: _tag);
+
+    final data = await _invokeCancelEvent({
+      'job_id': jobId,
+      'retry_failed': true,
+    });
+    return EventCancellation.fromJson(data['job'] as Map<String, dynamic>);
+  }
+
+  Future<Map<String, dynamic>> _invokeCancelEvent(Map<String, dynamic> body) async {
+    final response = await _client.functions.invoke('cancel-event', body: body);
 
     if (response.status != 200) {
       final error = response.data is Map ? response.data['error'] : 'Failed to cancel event';
       throw BusinessException(error.toString());
     }
-
-    AppLogger.info('Event cancelled: $eventId', tag: _tag);
     return response.data as Map<String, dynamic>;
   }
 
+  /// Move an event to [newDate], keeping every ticket valid.
+  ///
+  /// Holders are notified and their wallet passes and ticket NFTs updated.
+  /// With [refundUntil], holders can get a full refund until then and
+  /// resale is paused meanwhile.
+  Future<EventReschedule> rescheduleEvent(
+    String eventId,
+    DateTime newDate, {
+    String? reason,
+    DateTime? refundUntil,
+  }) async {
+    AppLogger.debug('Rescheduling event: $eventId', tag: _tag);
+
+    final response = await _client.functions.invoke('reschedule-event', body: {
+      'event_id': eventId,
+      'new_date': newDate.toUtc().toIso8601String(),
+      if (reason != null) 'reason': reason,
+      'refund_until': refundUntil?.toUtc().toIso8601String(),
+    });
+
+    if (response.status != 200) {
+      final error = response.data is Map ? response.data['error'] : 'Failed to reschedule event';
+      throw BusinessException(error.toString());
+    }
+
+    AppLogger.info('Event rescheduled: $eventId', tag: _tag);
+    final data = response.data as Map<String, dynamic>;
+    return EventReschedule.fromJson(data['reschedule'] as Map<String, dynamic>);
+  }
+
+  /// An event's reschedules, newest first.
+  Future<List<EventReschedule>> getReschedules(String eventId) async {
+    final response = await _client
+        .from('event_reschedules')
+        .select()
+        .eq('event_id', eventId)
+        .order('created_at', ascending: false);
+
+    return (response as List<dynamic>)
+        .map((json) => EventReschedule.fromJson(json as Map<String, dynamic>))
+        .toList();
+  }
+
   /// Link or unlink a venue to an event.
   Future<void> linkVenue(String eventId, String? venueId) async {
     await _client.from(_tableName).update({
@@ -510,7 +609,7 @@ class SupabaseEventRepository implements EventRepository {
     // Use direct query instead of RPC for debugging
     final response = await _client
         .from('event_ticket_types')
-        .select()
+        .select('*, price_tiers:ticket_type_price_tiers(*)')
         .eq('event_id', eventId)
         .eq('is_active', true)
         .order('sort_order')
@@ -554,6 +653,10 @@ class SupabaseEventRepository implements EventRepository {
         if (tt.itemIcon != null) 'item_icon': tt.itemIcon,
         if (tt.itemDescription != null) 'item_description': tt.itemDescription,
         if (tt.accessPassword != null) 'access_password': tt.accessPassword,
+        'sales_start_at': tt.salesStartAt?.toUtc().toIso8601String(),
+        'sales_end_at': tt.salesEndAt?.toUtc().toIso8601String(),
+        'min_per_order': tt.minPerOrder,
+        'max_per_order': tt.maxPerOrder,
       };
       debugPrint('Ticket type data: $item');
       return item;
@@ -568,10 +671,39 @@ class SupabaseEventRepository implements EventRepository {
 
       debugPrint('Insert response: $response');
 
-      final created = (response as List<dynamic>)
+      var created = (response as List<dynamic>)
           .map((json) => TicketType.fromJson(json as Map<String, dynamic>))
           .toList();
 
+      // Tiers reference their type, so they go in once the types exist.
+      // Rows come back in insert order, matching [ticketTypes].
+      final tiers = [
+        for (var i = 0; i < created.length; i++)
+          for (var j = 0; j < ticketTypes[i].priceTiers.length; j++)
+            {
+              ...ticketTypes[i].priceTiers[j].toJson()..remove('id'),
+              'ticket_type_id': created[i].id,
+              'sort_order': j,
+            },
+      ];
+      if (tiers.isNotEmpty) {
+        final tierRows = await _client
+            .from('ticket_type_price_tiers')
+            .insert(tiers)
+            .select();
+        final byType = <String, List<TicketPriceTier>>{};
+        for (final row in tierRows as List<dynamic>) {
+          final json = row as Map<String, dynamic>;
+          byType
+              .putIfAbsent(json['ticket_type_id'] as String, () => [])
+              .add(TicketPriceTier.fromJson(json));
+        }
+        created = [
+          for (final t in created)
+            t.copyWith(priceTiers: byType[t.id] ?? const []),
+        ];
+      }
+
       debugPrint('Successfully created ${created.length} ticket types');
       return created;
     } catch (e, stack) {
@@ -581,6 +713,29 @@ class SupabaseEventRepository implements EventRepository {
     }
   }
 
+  /// Hidden ticket types of an event that [code] unlocks: the type's own
+  /// access code, or a promo code limited to the type.
+  Future<List<TicketType>> unlockTicketTypes(String eventId, String code) async {
+    final response = await _client.rpc(
+      'unlock_ticket_types',
+      params: {'p_event_id': eventId, 'p_code': code},
+    );
+
+    return (response as List<dynamic>? ?? [])
+        .map((json) => TicketType.fromJson(json as Map<String, dynamic>))
+        .toList();
+  }
+
+  /// Whether an event has hidden ticket types (so the buy sheet offers a
+  /// code field).
+  Future<bool> hasHiddenTicketTypes(String eventId) async {
+    final response = await _client.rpc(
+      'event_has_hidden_ticket_types',
+      params: {'p_event_id': eventId},
+    );
+    return response == true;
+  }
+
   /// Delete existing ticket types for an event and re-insert new ones.
   Future<List<TicketType>> updateEventTicketTypes(
     String eventId,
@@ -598,6 +753,163 @@ class SupabaseEventRepository implements EventRepository {
     return createTicketTypes(eventId, ticketTypes);
   }
 
+  /// An event's sales tax / VAT setup.
+  Future<EventTax> getEventTax(String eventId) async {
+    final results = await Future.wait([
+      _client.from(_tableName).select('tax_inclusive').eq('id', eventId).maybeSingle(),
+      _client
+          .from('event_tax_rates')
+          .select()
+          .eq('event_id', eventId)
+          .order('sort_order', ascending: true),
+    ]);
+
+    final event = results[0] as Map<String, dynamic>?;
+    final rates = (results[1] as List<dynamic>)
+        .map((json) => EventTaxRate.fromJson(json as Map<String, dynamic>))
+        .toList();
+    return EventTax(
+      inclusive: event?['tax_inclusive'] as bool? ?? false,
+      rates: rates,
+    );
+  }
+
+  /// Replace an event's tax rates and set whether its prices include them.
+  ///
+  /// Only new orders are affected; payments keep the tax they were charged.
+  Future<EventTax> saveEventTax(String eventId, EventTax tax) async {
+    AppLogger.debug('Saving tax settings for event: $eventId', tag: _tag);
+
+    await _client.from(_tableName).update({
+      'tax_inclusive': tax.inclusive,
+      'updated_at': DateTime.now().toUtc().toIso8601String(),
+    }).eq('id', eventId);
+
+    await _client.from('event_tax_rates').delete().eq('event_id', eventId);
+
+    if (tax.rates.isNotEmpty) {
+      await _client.from('event_tax_rates').insert([
+        for (var i = 0; i < tax.rates.length; i++)
+          {
+            'event_id': eventId,
+            'name': tax.rates[i].name.trim(),
+            'rate_bps': tax.rates[i].rateBps,
+            'sort_order': i,
+          },
+      ]);
+    }
+
+    AppLogger.info('Tax settings saved for event: $eventId', tag: _tag);
+    return getEventTax(eventId);
+  }
+
+  /// An event's resale policy.
+  Future<ResalePolicy> getResalePolicy(String eventId) async {
+    final response = await _client
+        .from(_tableName)
+        .select(
+          'resale_max_price_percent, resale_min_price_percent, resale_royalty_bps, '
+          'resale_opens_at, resale_closes_minutes_before',
+        )
+        .eq('id', eventId)
+        .maybeSingle();
+    return response != null ? ResalePolicy.fromJson(response) : ResalePolicy.open;
+  }
+
+  /// Set an event's resale price limits, royalty and window.
+  ///
+  /// Listings are checked again when a buyer starts paying, so existing
+  /// listings outside the new limits can't sell until they are repriced.
+  Future<ResalePolicy> saveResalePolicy(String eventId, ResalePolicy policy) async {
+    AppLogger.debug('Saving resale policy for event: $eventId', tag: _tag);
+
+    await _client.from(_tableName).update({
+      ...policy.toJson(),
+      'updated_at': DateTime.now().toUtc().toIso8601String(),
+    }).eq('id', eventId);
+
+    AppLogger.info('Resale policy saved for event: $eventId', tag: _tag);
+    return getResalePolicy(eventId);
+  }
+
+  /// An event's refund policy.
+  Future<RefundPolicy> getRefundPolicy(String eventId) async {
+    final results = await Future.wait([
+      _client
+          .from(_tableName)
+          .select('refund_fees, reschedule_refund_until')
+          .eq('id', eventId)
+          .maybeSingle(),
+      _client.from('event_refund_tiers').select().eq('event_id', eventId),
+    ]);
+
+    final event = results[0] as Map<String, dynamic>?;
+    final refundUntil = event?['reschedule_refund_until'] as String?;
+    return RefundPolicy(
+      refundFees: event?['refund_fees'] as bool? ?? false,
+      rescheduleRefundUntil:
+          refundUntil != null ? DateTime.parse(refundUntil) : null,
+      tiers: (results[1] as List<dynamic>)
+          .map((json) => RefundTier.fromJson(json as Map<String, dynamic>))
+          .toList(),
+    );
+  }
+
+  /// Replace an event's refund tiers and set whether they refund fees.
+  ///
+  /// Applies to refund requests from now on; refunds already made stand.
+  Future<RefundPolicy> saveRefundPolicy(String eventId, RefundPolicy policy) async {
+    AppLogger.debug('Saving refund policy for event: $eventId', tag: _tag);
+
+    await _client.from(_tableName).update({
+      'refund_fees': policy.refundFees,
+      'updated_at': DateTime.now().toUtc().toIso8601String(),
+    }).eq('id', eventId);
+
+    await _client.from('event_refund_tiers').delete().eq('event_id', eventId);
+
+    if (!policy.isEmpty) {
+      await _client.from('event_refund_tiers').insert([
+        for (final tier in policy.tiers) {'event_id': eventId, ...tier.toJson()},
+      ]);
+    }
+
+    AppLogger.info('Refund policy saved for event: $eventId', tag: _tag);
+    return getRefundPolicy(eventId);
+  }
+
+  /// Tax collected on the caller's events between [from] and [to]
+  /// (inclusive dates), per event, currency and rate.
+  Future<({List<TaxReportRow> rows, String csv})> getTaxReport({
+    String? eventId,
+    required DateTime from,
+    required DateTime to,
+  }) async {
+    String day(DateTime d) => d.toIso8601String().substring(0, 10);
+
+    final response = await _client.functions.invoke(
+      'tax-report',
+      body: {
+        if (eventId != null) 'event_id': eventId,
+        'from': day(from),
+        'to': day(to),
+      },
+    );
+
+    if (response.status != 200) {
+      final error = response.data is Map ? response.data['error'] : 'Failed to load tax report';
+      throw BusinessException(error.toString());
+    }
+
+    final data = response.data as Map<String, dynamic>;
+    return (
+      rows: (data['rows'] as List<dynamic>? ?? [])
+          .map((json) => TaxReportRow.fromJson(json as Map<String, dynamic>))
+          .toList(),
+      csv: data['csv'] as String? ?? '',
+    );
+  }
+
   /// Find events with similar titles (for duplicate/impersonation detection).
   @override
   Future<List<Map<String, dynamic>>> findSimilarEvents({
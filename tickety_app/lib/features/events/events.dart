@@ -5,6 +5,11 @@
 library;
 
 export 'models/event_analytics.dart';
+export 'models/event_cancellation.dart';
 export 'models/event_model.dart';
+export 'models/event_reschedule.dart';
+export 'models/event_tax.dart';
+export 'models/refund_policy.dart';
+export 'models/resale_policy.dart';
 export 'models/ticket_type.dart';
 export 'widgets/widgets.dart';
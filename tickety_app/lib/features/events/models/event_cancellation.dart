@@ -0,0 +1,101 @@
+import 'package:flutter/foundation.dart';
+
+/// Where an event cancellation's refunds stand.
+enum EventCancellationStatus {
+  /// Refunds are still going out.
+  running('running'),
+  completed('completed'),
+
+  /// Done, but some refunds failed and can be retried.
+  completedWithErrors('completed_with_errors');
+
+  final String value;
+  const EventCancellationStatus(this.value);
+
+  static EventCancellationStatus fromString(String? value) {
+    return EventCancellationStatus.values.firstWhere(
+      (s) => s.value == value,
+      orElse: () => EventCancellationStatus.running,
+    );
+  }
+}
+
+/// A cancelled event's refund job: one refund per card payment, processed
+/// in batches by the cancel-event function.
+@immutable
+class EventCancellation {
+  final String id;
+  final String eventId;
+  final String? reason;
+  final EventCancellationStatus status;
+  final int totalPayments;
+  final int refundedCount;
+
+  /// Payments with nothing left to refund (free orders, already refunded).
+  final int skippedCount;
+
+  final int failedCount;
+  final int refundedCents;
+
+  /// Tickets without a card payment (comps, cash sales) that were cancelled.
+  final int cancelledTickets;
+
+  final DateTime? finishedAt;
+  final DateTime createdAt;
+
+  /// Event title (joined data).
+  final String? eventTitle;
+
+  /// The event's currency (joined data); refunds are in it.
+  final String currency;
+
+  const EventCancellation({
+    required this.id,
+    required this.eventId,
+    this.reason,
+    required this.status,
+    this.totalPayments = 0,
+    this.refundedCount = 0,
+    this.skippedCount = 0,
+    this.failedCount = 0,
+    this.refundedCents = 0,
+    this.cancelledTickets = 0,
+    this.finishedAt,
+    required this.createdAt,
+    this.eventTitle,
+    this.currency = 'usd',
+  });
+
+  int get processedCount => refundedCount + skippedCount + failedCount;
+
+  /// Share of payments processed, 0.0 to 1.0.
+  double get progress => totalPayments == 0
+      ? 1.0
+      : (processedCount / totalPayments).clamp(0.0, 1.0).toDouble();
+
+  bool get isRunning => status == EventCancellationStatus.running;
+
+  bool get canRetry => !isRunning && failedCount > 0;
+
+  factory EventCancellation.fromJson(Map<String, dynamic> json) {
+    final event = json['events'] as Map<String, dynamic>?;
+    return EventCancellation(
+      id: json['id'] as String,
+      eventId: json['event_id'] as String,
+      reason: json['reason'] as String?,
+      status: EventCancellationStatus.fromString(json['status'] as String?),
+      totalPayments: json['total_payments'] as int? ?? 0,
+      refundedCount: json['refunded_count'] as int? ?? 0,
+      skippedCount: json['skipped_count'] as int? ?? 0,
+      failedCount: json['failed_count'] as int? ?? 0,
+      refundedCents: json['refunded_cents'] as int? ?? 0,
+      cancelledTickets: json['cancelled_tickets'] as int? ?? 0,
+      finishedAt: json['finished_at'] != null
+          ? DateTime.parse(json['finished_at'] as String)
+          : null,
+      createdAt: DateTime.parse(json['created_at'] as String),
+      eventTitle: event?['title'] as String?,
+      currency: event?['currency'] as String? ?? 'usd',
+    );
+  }
+}
@@ -1,8 +1,11 @@
 import 'package:flutter/material.dart';
 
 import '../../../core/graphics/graphics.dart';
+import '../../../core/utils/currency_formatter.dart';
 import 'event_category.dart';
 import 'event_tag.dart';
+import 'event_tax.dart';
+import 'resale_policy.dart';
 export 'event_tag.dart' show AutoBadge;
 
 /// Represents an event that can be displayed in the application.
@@ -76,6 +79,15 @@ class EventModel {
   /// When true, staff can sell tickets for cash at the door.
   final bool cashSalesEnabled;
 
+  /// Whether listed ticket prices include the event's sales tax / VAT.
+  final bool taxInclusive;
+
+  /// Sales tax / VAT rates for the event (from joined event_tax_rates).
+  final List<EventTaxRate> taxRates;
+
+  /// The organizer's resale price limits, royalty and window.
+  final ResalePolicy resalePolicy;
+
   /// Organizer display name (from joined profiles data).
   final String? organizerName;
 
@@ -175,6 +187,9 @@ class EventModel {
     this.hideLocation = false,
     this.maxTickets,
     this.cashSalesEnabled = true,
+    this.taxInclusive = false,
+    this.taxRates = const [],
+    this.resalePolicy = ResalePolicy.open,
     this.organizerName,
     this.organizerHandle,
     this.organizerVerified = false,
@@ -269,6 +284,9 @@ class EventModel {
         .toList();
   }
 
+  /// The event's tax setup for fee and tax calculations.
+  EventTax get tax => EventTax(inclusive: taxInclusive, rates: taxRates);
+
   /// Returns true if this event has the specified tag.
   bool hasTag(String tagId) => tags.contains(tagId);
 
@@ -278,11 +296,14 @@ class EventModel {
     isPartOfSeries: isPartOfSeries,
   );
 
-  /// Formatted price string.
+  /// Formatted price string in the event's currency.
   String get formattedPrice {
     if (isFree) return 'Free';
-    final dollars = priceInCents! / 100;
-    return '\$$dollars';
+    final money = AppCurrency.fromCode(currency);
+    final amount = money.decimals == 0
+        ? '$priceInCents'
+        : '${priceInCents! / money.minorPerMajor}';
+    return '${money.symbol}$amount';
   }
 
   /// Gets the noise configuration for this event.
@@ -336,6 +357,9 @@ class EventModel {
     bool? hideLocation,
     int? maxTickets,
     bool? cashSalesEnabled,
+    bool? taxInclusive,
+    List<EventTaxRate>? taxRates,
+    ResalePolicy? resalePolicy,
     String? organizerName,
     String? organizerHandle,
     bool? organizerVerified,
@@ -383,6 +407,9 @@ class EventModel {
       hideLocation: hideLocation ?? this.hideLocation,
       maxTickets: maxTickets ?? this.maxTickets,
       cashSalesEnabled: cashSalesEnabled ?? this.cashSalesEnabled,
+      taxInclusive: taxInclusive ?? this.taxInclusive,
+      taxRates: taxRates ?? this.taxRates,
+      resalePolicy: resalePolicy ?? this.resalePolicy,
       organizerName: organizerName ?? this.organizerName,
       organizerHandle: organizerHandle ?? this.organizerHandle,
       organizerVerified: organizerVerified ?? this.organizerVerified,
@@ -0,0 +1,63 @@
+import 'package:flutter/foundation.dart';
+
+/// One move of an event to a new date. Tickets stay valid; holders who
+/// can't make it may get a full refund until [refundUntil], and resale is
+/// paused until then.
+@immutable
+class EventReschedule {
+  final String id;
+  final String eventId;
+  final DateTime? previousDate;
+  final DateTime newDate;
+  final String? reason;
+
+  /// End of the full-refund window, or null if the reschedule opened none.
+  final DateTime? refundUntil;
+
+  /// Ticket holders notified of the new date.
+  final int notifiedHolders;
+
+  /// Ticket NFTs queued to have their metadata updated with the new date.
+  final int nftRefreshes;
+
+  /// Apple and Google wallet passes updated with the new date.
+  final int walletPassesUpdated;
+
+  final DateTime createdAt;
+
+  const EventReschedule({
+    required this.id,
+    required this.eventId,
+    this.previousDate,
+    required this.newDate,
+    this.reason,
+    this.refundUntil,
+    this.notifiedHolders = 0,
+    this.nftRefreshes = 0,
+    this.walletPassesUpdated = 0,
+    required this.createdAt,
+  });
+
+  /// Whether holders can still get a full refund at [now].
+  bool refundWindowOpen({DateTime? now}) =>
+      refundUntil != null && (now ?? DateTime.now()).isBefore(refundUntil!);
+
+  factory EventReschedule.fromJson(Map<String, dynamic> json) {
+    return EventReschedule(
+      id: json['id'] as String,
+      eventId: json['event_id'] as String,
+      previousDate: json['previous_date'] != null
+          ? DateTime.parse(json['previous_date'] as String)
+          : null,
+      newDate: DateTime.parse(json['new_date'] as String),
+      reason: json['reason'] as String?,
+      refundUntil: json['refund_until'] != null
+          ? DateTime.parse(json['refund_until'] as String)
+          : null,
+      notifiedHolders: json['notified_holders'] as int? ?? 0,
+      nftRefreshes: json['nft_refreshes'] as int? ?? 0,
+      walletPassesUpdated: json['wallet_passes_updated'] as int? ?? 0,
+      createdAt: DateTime.parse(json['created_at'] as String),
+    );
+  }
+}
@@ -0,0 +1,197 @@
+import 'package:flutter/foundation.dart';
+
+/// One sales tax / VAT rate that applies to an event (e.g. "VAT 20%").
+@immutable
+class EventTaxRate {
+  /// Unique identifier (null for rates not yet saved).
+  final String? id;
+
+  /// Display name shown on receipts (e.g. "VAT", "City admission tax").
+  final String name;
+
+  /// Rate in basis points: 2000 = 20%.
+  final int rateBps;
+
+  /// Rates are listed in this order (lowest first).
+  final int sortOrder;
+
+  const EventTaxRate({
+    this.id,
+    required this.name,
+    required this.rateBps,
+    this.sortOrder = 0,
+  });
+
+  /// The rate as a percentage string, e.g. "20%" or "8.25%".
+  String get formattedRate => formatTaxRate(rateBps);
+
+  factory EventTaxRate.fromJson(Map<String, dynamic> json) {
+    return EventTaxRate(
+      id: json['id'] as String?,
+      name: json['name'] as String? ?? '',
+      rateBps: json['rate_bps'] as int? ?? 0,
+      sortOrder: json['sort_order'] as int? ?? 0,
+    );
+  }
+
+  Map<String, dynamic> toJson() {
+    return {
+      if (id != null) 'id': id,
+      'name': name,
+      'rate_bps': rateBps,
+      'sort_order': sortOrder,
+    };
+  }
+}
+
+/// An event's tax setup: its rates and whether ticket prices include them.
+@immutable
+class EventTax {
+  /// Whether listed ticket prices already include the tax.
+  final bool inclusive;
+
+  final List<EventTaxRate> rates;
+
+  const EventTax({this.inclusive = false, this.rates = const []});
+
+  static const none = EventTax();
+}
+
+/// Tax for one rate on an order.
+typedef TaxLine = ({String name, int rateBps, int taxCents});
+
+/// Tax on an order's ticket price.
+typedef TaxBreakdown = ({
+  bool inclusive,
+  int taxCents,
+
+  /// The ticket price without tax.
+  int netCents,
+  List<TaxLine> lines,
+});
+
+/// Works out sales tax / VAT on a ticket price.
+///
+/// Must round exactly like the server's `_shared/tax.ts`: added tax rounds
+/// each rate half up; included tax splits the price into net + tax and
+/// shares the tax across the rates, the last rate taking the remainder.
+class TaxCalculator {
+  TaxCalculator._();
+
+  static const int _bps = 10000;
+
+  static TaxBreakdown calculate(int amountCents, EventTax tax) {
+    final rates = tax.rates.where((r) => r.rateBps > 0).toList();
+    final amount = amountCents < 0 ? 0 : amountCents;
+    if (amount == 0 || rates.isEmpty) {
+      return (
+        inclusive: tax.inclusive,
+        taxCents: 0,
+        netCents: amount,
+        lines: [
+          for (final r in rates) (name: r.name, rateBps: r.rateBps, taxCents: 0),
+        ],
+      );
+    }
+
+    if (!tax.inclusive) {
+      final lines = [
+        for (final r in rates)
+          (
+            name: r.name,
+            rateBps: r.rateBps,
+            taxCents: (amount * r.rateBps / _bps).round(),
+          ),
+      ];
+      return (
+        inclusive: false,
+        taxCents: lines.fold(0, (sum, l) => sum + l.taxCents),
+        netCents: amount,
+        lines: lines,
+      );
+    }
+
+    final totalBps = rates.fold(0, (sum, r) => sum + r.rateBps);
+    final netCents = (amount * _bps / (_bps + totalBps)).round();
+    final taxCents = amount - netCents;
+    var remaining = taxCents;
+    final lines = <TaxLine>[];
+    for (var i = 0; i < rates.length; i++) {
+      final share = i == rates.length - 1
+          ? remaining
+          : (taxCents * rates[i].rateBps / totalBps).round();
+      remaining -= share;
+      lines.add((name: rates[i].name, rateBps: rates[i].rateBps, taxCents: share));
+    }
+    return (
+      inclusive: true,
+      taxCents: taxCents,
+      netCents: netCents,
+      lines: lines,
+    );
+  }
+
+  /// Tax added to the buyer's total (0 when prices include it).
+  static int addedCents(TaxBreakdown? tax) =>
+      tax != null && !tax.inclusive ? tax.taxCents : 0;
+}
+
+/// A rate in basis points as a percentage string, e.g. 825 -> "8.25%".
+String formatTaxRate(int rateBps) {
+  final percent = (rateBps / 100).toStringAsFixed(3);
+  final trimmed = percent.replaceFirst(RegExp(r'\.?0+$'), '');
+  return '$trimmed%';
+}
+
+/// One row of an organizer's tax report: tax per event, currency and rate.
+@immutable
+class TaxReportRow {
+  final String eventId;
+  final String eventTitle;
+  final DateTime? eventDate;
+  final String currency;
+  final String taxName;
+  final int rateBps;
+  final bool taxInclusive;
+
+  /// Orders still standing; refunded ones are counted apart.
+  final int orders;
+  final int netSalesCents;
+  final int taxCents;
+  final int refundedOrders;
+  final int refundedTaxCents;
+
+  const TaxReportRow({
+    required this.eventId,
+    required this.eventTitle,
+    this.eventDate,
+    required this.currency,
+    required this.taxName,
+    required this.rateBps,
+    required this.taxInclusive,
+    required this.orders,
+    required this.netSalesCents,
+    required this.taxCents,
+    required this.refundedOrders,
+    required this.refundedTaxCents,
+  });
+
+  factory TaxReportRow.fromJson(Map<String, dynamic> json) {
+    return TaxReportRow(
+      eventId: json['event_id'] as String,
+      eventTitle: json['event_title'] as String? ?? '',
+      eventDate: json['event_date'] != null
+          ? DateTime.tryParse(json['event_date'] as String)
+          : null,
+      currency: json['currency'] as String? ?? 'USD',
+      taxName: json['tax_name'] as String? ?? '',
+      rateBps: json['rate_bps'] as int? ?? 0,
+      taxInclusive: json['tax_inclusive'] as bool? ?? false,
+      orders: json['orders'] as int? ?? 0,
+      netSalesCents: json['net_sales_cents'] as int? ?? 0,
+      taxCents: json['tax_cents'] as int? ?? 0,
+      refundedOrders: json['refunded_orders'] as int? ?? 0,
+      refundedTaxCents: json['refunded_tax_cents'] as int? ?? 0,
+    );
+  }
+}
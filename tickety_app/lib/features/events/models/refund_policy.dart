@@ -0,0 +1,80 @@
+import 'package:flutter/foundation.dart';
+
+/// One step of a refund policy: [refundPercent] of the ticket price back
+/// from [daysBefore] days before the event onwards.
+@immutable
+class RefundTier {
+  final int daysBefore;
+  final int refundPercent;
+
+  const RefundTier({required this.daysBefore, required this.refundPercent});
+
+  factory RefundTier.fromJson(Map<String, dynamic> json) {
+    return RefundTier(
+      daysBefore: json['days_before'] as int? ?? 0,
+      refundPercent: json['refund_percent'] as int? ?? 0,
+    );
+  }
+
+  Map<String, dynamic> toJson() {
+    return {
+      'days_before': daysBefore,
+      'refund_percent': refundPercent,
+    };
+  }
+}
+
+/// An organizer's refund policy for an event, e.g. "full refund until 30
+/// days out, 50% until 7, none after".
+///
+/// Buyers' refund requests inside the policy are approved automatically;
+/// the rest go to the organizer. After a reschedule, everything is refunded,
+/// fees included, until [rescheduleRefundUntil]. Must pick tiers exactly
+/// like the server's `_shared/refunds.ts`.
+@immutable
+class RefundPolicy {
+  /// Sorted furthest out first.
+  final List<RefundTier> tiers;
+
+  /// Whether policy refunds include the ticket's share of the service fee.
+  final bool refundFees;
+
+  /// End of the full-refund window opened by rescheduling the event.
+  final DateTime? rescheduleRefundUntil;
+
+  RefundPolicy({
+    List<RefundTier> tiers = const [],
+    this.refundFees = false,
+    this.rescheduleRefundUntil,
+  }) : tiers = List.unmodifiable(
+          [...tiers]..sort((a, b) => b.daysBefore.compareTo(a.daysBefore)),
+        );
+
+  /// No automatic refunds; every request goes to the organizer.
+  static final none = RefundPolicy();
+
+  bool get isEmpty => tiers.isEmpty;
+
+  /// Whether a reschedule's full-refund window is open at [now].
+  bool rescheduleWindowOpen({DateTime? now}) =>
+      rescheduleRefundUntil != null &&
+      (now ?? DateTime.now()).isBefore(rescheduleRefundUntil!);
+
+  /// Whether a refund approved at [now] includes the service fee.
+  bool refundsFeesAt({DateTime? now}) =>
+      refundFees || rescheduleWindowOpen(now: now);
+
+  /// Percentage of the ticket price refunded for an event on [eventDate]
+  /// if the buyer asks at [now]; 0 once the event has started.
+  int percentAt(DateTime? eventDate, {DateTime? now}) {
+    if (eventDate == null) return 0;
+    final at = now ?? DateTime.now();
+    final daysLeft = eventDate.difference(at).inMinutes / Duration.minutesPerDay;
+    if (daysLeft < 0) return 0;
+    if (rescheduleWindowOpen(now: at)) return 100;
+    for (final tier in tiers) {
+      if (daysLeft >= tier.daysBefore) return tier.refundPercent;
+    }
+    return 0;
+  }
+}
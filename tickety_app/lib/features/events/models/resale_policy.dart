@@ -0,0 +1,122 @@
+import 'package:flutter/foundation.dart';
+
+/// Price limits for relisting one ticket.
+typedef ResalePriceLimits = ({int faceValueCents, int? minCents, int? maxCents});
+
+/// An organizer's rules for reselling tickets to their event.
+///
+/// Must work limits out exactly like the server's
+/// `_shared/resale-policy.ts` and the `enforce_resale_policy` trigger: the
+/// cap rounds down, the minimum rounds up and the royalty rounds half up.
+@immutable
+class ResalePolicy {
+  /// Highest resale price as a percentage of face value; 100 means face
+  /// value only, null means no cap.
+  final int? maxPricePercent;
+
+  /// Lowest resale price as a percentage of face value.
+  final int? minPricePercent;
+
+  /// Organizer's cut of each resale in basis points (1000 = 10%), withheld
+  /// from the seller's proceeds.
+  final int royaltyBps;
+
+  /// Tickets can't be listed before this time.
+  final DateTime? opensAt;
+
+  /// Listing and buying close this many minutes before the event starts.
+  final int? closesMinutesBefore;
+
+  /// Resale is paused until this time while a rescheduled event's refund
+  /// window is open. Set by rescheduling, not part of the saved policy.
+  final DateTime? pausedUntil;
+
+  const ResalePolicy({
+    this.maxPricePercent,
+    this.minPricePercent,
+    this.royaltyBps = 0,
+    this.opensAt,
+    this.closesMinutesBefore,
+    this.pausedUntil,
+  });
+
+  /// No limits, no royalty.
+  static const open = ResalePolicy();
+
+  bool get isFaceValueOnly => maxPricePercent == 100;
+
+  bool get hasRules =>
+      maxPricePercent != null ||
+      minPricePercent != null ||
+      royaltyBps > 0 ||
+      opensAt != null ||
+      closesMinutesBefore != null;
+
+  /// Reads the policy columns of an `events` row.
+  factory ResalePolicy.fromJson(Map<String, dynamic> json) {
+    return ResalePolicy(
+      maxPricePercent: json['resale_max_price_percent'] as int?,
+      minPricePercent: json['resale_min_price_percent'] as int?,
+      royaltyBps: json['resale_royalty_bps'] as int? ?? 0,
+      opensAt: json['resale_opens_at'] != null
+          ? DateTime.tryParse(json['resale_opens_at'] as String)
+          : null,
+      closesMinutesBefore: json['resale_closes_minutes_before'] as int?,
+      pausedUntil: json['resale_paused_until'] != null
+          ? DateTime.tryParse(json['resale_paused_until'] as String)
+          : null,
+    );
+  }
+
+  Map<String, dynamic> toJson() {
+    return {
+      'resale_max_price_percent': maxPricePercent,
+      'resale_min_price_percent': minPricePercent,
+      'resale_royalty_bps': royaltyBps,
+      'resale_opens_at': opensAt?.toUtc().toIso8601String(),
+      'resale_closes_minutes_before': closesMinutesBefore,
+    };
+  }
+
+  /// Price limits for a ticket with the given face value.
+  ResalePriceLimits limitsFor(int faceValueCents) {
+    if (faceValueCents <= 0) {
+      return (faceValueCents: 0, minCents: null, maxCents: null);
+    }
+    return (
+      faceValueCents: faceValueCents,
+      minCents: minPricePercent != null
+          ? (faceValueCents * minPricePercent! / 100).ceil()
+          : null,
+      maxCents: maxPricePercent != null
+          ? faceValueCents * maxPricePercent! ~/ 100
+          : null,
+    );
+  }
+
+  /// When resale closes for an event on [eventDate], or null if it stays
+  /// open until the event.
+  DateTime? closesAt(DateTime? eventDate) {
+    if (eventDate == null || closesMinutesBefore == null) return null;
+    return eventDate.subtract(Duration(minutes: closesMinutesBefore!));
+  }
+
+  /// Whether tickets to an event on [eventDate] can be resold right now.
+  bool isOpen(DateTime? eventDate, {DateTime? now}) {
+    final at = now ?? DateTime.now();
+    if (opensAt != null && at.isBefore(opensAt!)) return false;
+    if (isPausedAt(at)) return false;
+    final closes = closesAt(eventDate);
+    return closes == null || at.isBefore(closes);
+  }
+
+  /// Whether resale is paused for a reschedule at [now].
+  bool isPausedAt(DateTime now) =>
+      pausedUntil != null && now.isBefore(pausedUntil!);
+
+  /// The organizer's royalty on a resale at [priceCents].
+  int royaltyCents(int priceCents) {
+    if (royaltyBps <= 0 || priceCents <= 0) return 0;
+    return (priceCents * royaltyBps / 10000).round();
+  }
+}
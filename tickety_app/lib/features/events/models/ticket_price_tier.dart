@@ -0,0 +1,63 @@
+import 'package:flutter/foundation.dart';
+
+/// One automatic price step of a ticket type (e.g. "Early bird").
+///
+/// A tier applies until [endsAfterSold] tickets of the type are sold or
+/// [endsAt] passes, whichever comes first. After the last tier the type's
+/// own price applies.
+@immutable
+class TicketPriceTier {
+  /// Unique identifier (null for tiers not yet saved).
+  final String? id;
+
+  /// Display name (e.g. "Early bird").
+  final String name;
+
+  /// Price while this tier is current, in cents.
+  final int priceInCents;
+
+  /// Tiers apply in this order (lowest first).
+  final int sortOrder;
+
+  /// The tier ends once this many tickets of the type are sold.
+  final int? endsAfterSold;
+
+  /// The tier ends at this time.
+  final DateTime? endsAt;
+
+  const TicketPriceTier({
+    this.id,
+    required this.name,
+    required this.priceInCents,
+    this.sortOrder = 0,
+    this.endsAfterSold,
+    this.endsAt,
+  });
+
+  /// Whether the tier's end date has passed.
+  bool isExpired(DateTime now) => endsAt != null && !endsAt!.isAfter(now);
+
+  factory TicketPriceTier.fromJson(Map<String, dynamic> json) {
+    return TicketPriceTier(
+      id: json['id'] as String?,
+      name: json['name'] as String? ?? '',
+      priceInCents: json['price_cents'] as int? ?? 0,
+      sortOrder: json['sort_order'] as int? ?? 0,
+      endsAfterSold: json['ends_after_sold'] as int?,
+      endsAt: json['ends_at'] != null
+          ? DateTime.parse(json['ends_at'] as String)
+          : null,
+    );
+  }
+
+  Map<String, dynamic> toJson() {
+    return {
+      if (id != null) 'id': id,
+      'name': name,
+      'price_cents': priceInCents,
+      'sort_order': sortOrder,
+      'ends_after_sold': endsAfterSold,
+      'ends_at': endsAt?.toUtc().toIso8601String(),
+    };
+  }
+}
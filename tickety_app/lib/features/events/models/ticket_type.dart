@@ -1,5 +1,13 @@
 import 'package:flutter/material.dart';
 
+import '../../../core/utils/currency_formatter.dart';
+import 'ticket_price_tier.dart';
+
+export 'ticket_price_tier.dart';
+
+/// Where a ticket type is in its sales window.
+enum TicketSalesStatus { onSale, inactive, scheduled, ended, soldOut }
+
 /// Represents a type of ticket available for an event.
 ///
 /// Events can have multiple ticket types with different prices,
@@ -57,6 +65,25 @@ class TicketType {
   /// to purchase this ticket type.
   final String? accessPassword;
 
+  /// Whether buyers only see this type after entering its access code or
+  /// a promo code limited to it.
+  final bool isHidden;
+
+  /// Sales open at this time (null means as soon as the event is listed).
+  final DateTime? salesStartAt;
+
+  /// Sales close at this time (null means until the event).
+  final DateTime? salesEndAt;
+
+  /// Fewest tickets of this type one order may take.
+  final int minPerOrder;
+
+  /// Most tickets of this type one order may take (null means no limit).
+  final int? maxPerOrder;
+
+  /// Automatic price steps, in order. Empty for a flat price.
+  final List<TicketPriceTier> priceTiers;
+
   /// When this ticket type was created.
   final DateTime createdAt;
 
@@ -77,8 +104,14 @@ class TicketType {
     this.itemIcon,
     this.itemDescription,
     this.accessPassword,
+    bool? isHidden,
+    this.salesStartAt,
+    this.salesEndAt,
+    this.minPerOrder = 1,
+    this.maxPerOrder,
+    this.priceTiers = const [],
     required this.createdAt,
-  });
+  }) : isHidden = isHidden ?? (accessPassword != null && accessPassword != '');
 
   /// Whether this is a redeemable item (not event entry).
   bool get isRedeemable => category == 'redeemable';
@@ -86,9 +119,6 @@ class TicketType {
   /// Whether this ticket type requires a password to purchase.
   bool get isPasswordProtected => accessPassword != null && accessPassword!.isNotEmpty;
 
-  /// Whether this ticket type is hidden (requires a code to discover in the buy sheet).
-  bool get isHidden => accessPassword != null && accessPassword!.isNotEmpty;
-
   /// Whether this ticket type has limited quantity.
   bool get hasLimit => maxQuantity != null;
 
@@ -112,11 +142,83 @@ class TicketType {
     return soldCount >= maxQuantity!;
   }
 
-  /// Formatted price string.
+  /// Where this type is in its sales window right now.
+  TicketSalesStatus get salesStatus {
+    final now = DateTime.now();
+    if (!isActive) return TicketSalesStatus.inactive;
+    if (salesStartAt != null && salesStartAt!.isAfter(now)) {
+      return TicketSalesStatus.scheduled;
+    }
+    if (salesEndAt != null && !salesEndAt!.isAfter(now)) {
+      return TicketSalesStatus.ended;
+    }
+    if (isSoldOut) return TicketSalesStatus.soldOut;
+    return TicketSalesStatus.onSale;
+  }
+
+  /// Whether buyers can order this type right now.
+  bool get isOnSale => salesStatus == TicketSalesStatus.onSale;
+
+  /// Tiers that haven't passed their end date, in order.
+  List<TicketPriceTier> get _liveTiers {
+    final now = DateTime.now();
+    return priceTiers.where((t) => !t.isExpired(now)).toList()
+      ..sort((a, b) => a.sortOrder.compareTo(b.sortOrder));
+  }
+
+  /// The tier the next ticket sells in, or null at the regular price.
+  TicketPriceTier? get currentTier {
+    for (final tier in _liveTiers) {
+      if (tier.endsAfterSold == null || soldCount < tier.endsAfterSold!) {
+        return tier;
+      }
+    }
+    return null;
+  }
+
+  /// The price the next ticket sells at.
+  int get currentPriceInCents => currentTier?.priceInCents ?? priceInCents;
+
+  /// Tickets left at the current tier's price (null if not count-limited).
+  int? get currentTierRemaining {
+    final tier = currentTier;
+    if (tier?.endsAfterSold == null) return null;
+    return tier!.endsAfterSold! - soldCount;
+  }
+
+  /// Total for [quantity] tickets at current prices. Mirrors the server:
+  /// tickets beyond what's left in a tier pay the next price.
+  int priceForQuantity(int quantity) {
+    var sold = soldCount;
+    var left = quantity;
+    var total = 0;
+    for (final tier in _liveTiers) {
+      if (left == 0) break;
+      final room = tier.endsAfterSold == null
+          ? left
+          : (tier.endsAfterSold! - sold).clamp(0, left);
+      total += room * tier.priceInCents;
+      sold += room;
+      left -= room;
+    }
+    return total + left * priceInCents;
+  }
+
+  /// Most tickets of this type one order can take now, or null if unlimited.
+  int? get orderLimit {
+    final remaining = remainingQuantity;
+    if (maxPerOrder == null) return remaining;
+    if (remaining == null) return maxPerOrder;
+    return remaining < maxPerOrder! ? remaining : maxPerOrder;
+  }
+
+  /// Formatted price string (the current tier's price, if any).
   String get formattedPrice {
-    if (priceInCents == 0) return 'Free';
-    final dollars = priceInCents / 100;
-    return '\$${dollars.toStringAsFixed(dollars.truncateToDouble() == dollars ? 0 : 2)}';
+    final cents = currentPriceInCents;
+    if (cents == 0) return 'Free';
+    final money = AppCurrency.fromCode(currency);
+    final amount = cents / money.minorPerMajor;
+    return '${money.symbol}${amount.toStringAsFixed(amount.truncateToDouble() == amount ? 0 : money.decimals)}';
   }
 
   /// Availability text for display.
@@ -149,6 +251,18 @@ class TicketType {
       itemIcon: json['item_icon'] as String?,
       itemDescription: json['item_description'] as String?,
       accessPassword: json['access_password'] as String?,
+      isHidden: json['is_hidden'] as bool?,
+      salesStartAt: json['sales_start_at'] != null
+          ? DateTime.parse(json['sales_start_at'] as String)
+          : null,
+      salesEndAt: json['sales_end_at'] != null
+          ? DateTime.parse(json['sales_end_at'] as String)
+          : null,
+      minPerOrder: json['min_per_order'] as int? ?? 1,
+      maxPerOrder: json['max_per_order'] as int?,
+      priceTiers: (json['price_tiers'] as List<dynamic>? ?? [])
+          .map((t) => TicketPriceTier.fromJson(t as Map<String, dynamic>))
+          .toList(),
       createdAt: DateTime.parse(json['created_at'] as String),
     );
   }
@@ -171,6 +285,13 @@ class TicketType {
       if (itemIcon != null) 'item_icon': itemIcon,
       if (itemDescription != null) 'item_description': itemDescription,
       if (accessPassword != null) 'access_password': accessPassword,
+      'is_hidden': isHidden,
+      'sales_start_at': salesStartAt?.toUtc().toIso8601String(),
+      'sales_end_at': salesEndAt?.toUtc().toIso8601String(),
+      'min_per_order': minPerOrder,
+      'max_per_order': maxPerOrder,
+      if (priceTiers.isNotEmpty)
+        'price_tiers': priceTiers.map((t) => t.toJson()).toList(),
       'created_at': createdAt.toIso8601String(),
     };
   }
@@ -194,6 +315,12 @@ class TicketType {
     String? itemIcon,
     String? itemDescription,
     String? accessPassword,
+    bool? isHidden,
+    DateTime? salesStartAt,
+    DateTime? salesEndAt,
+    int? minPerOrder,
+    int? maxPerOrder,
+    List<TicketPriceTier>? priceTiers,
     DateTime? createdAt,
   }) {
     return TicketType(
@@ -213,6 +340,12 @@ class TicketType {
       itemIcon: itemIcon ?? this.itemIcon,
       itemDescription: itemDescription ?? this.itemDescription,
       accessPassword: accessPassword ?? this.accessPassword,
+      isHidden: isHidden ?? this.isHidden,
+      salesStartAt: salesStartAt ?? this.salesStartAt,
+      salesEndAt: salesEndAt ?? this.salesEndAt,
+      minPerOrder: minPerOrder ?? this.minPerOrder,
+      maxPerOrder: maxPerOrder ?? this.maxPerOrder,
+      priceTiers: priceTiers ?? this.priceTiers,
       createdAt: createdAt ?? this.createdAt,
     );
   }
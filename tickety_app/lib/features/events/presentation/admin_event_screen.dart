@@ -20,7 +20,13 @@ import '../models/event_model.dart';
 import '../models/event_series.dart';
 import '../../payments/presentation/promo_codes_screen.dart';
 import 'create_event_screen.dart';
+import 'event_cancellation_screen.dart';
 import 'event_data_screen.dart';
+import 'event_refund_policy_screen.dart';
+import 'event_resale_policy_screen.dart';
+import 'event_reschedule_screen.dart';
+import 'event_tax_screen.dart';
+import '../../waitlist/presentation/waitlist_settings_screen.dart';
 import '../../widget/presentation/widget_settings_screen.dart';
 import 'manage_tickets_screen.dart';
 
@@ -490,6 +496,62 @@ class _AdminEventScreenState extends ConsumerState<AdminEventScreen> {
                     },
                   ),
                   const SizedBox(height: 12),
+                  _AdminActionCard(
+                    icon: Icons.receipt_long_outlined,
+                    title: L.tr('admin_tax_settings'),
+                    subtitle: L.tr('admin_tax_settings_subtitle'),
+                    color: Colors.teal,
+                    onTap: () {
+                      Navigator.of(context).push(
+                        MaterialPageRoute(
+                          builder: (_) => EventTaxScreen(event: event),
+                        ),
+                      );
+                    },
+                  ),
+                  const SizedBox(height: 12),
+                  _AdminActionCard(
+                    icon: Icons.sell_outlined,
+                    title: L.tr('admin_resale_policy'),
+                    subtitle: L.tr('admin_resale_policy_subtitle'),
+                    color: Colors.deepOrange,
+                    onTap: () {
+                      Navigator.of(context).push(
+                        MaterialPageRoute(
+                          builder: (_) => EventResalePolicyScreen(event: event),
+                        ),
+                      );
+                    },
+                  ),
+                  const SizedBox(height: 12),
+                  _AdminActionCard(
+                    icon: Icons.how_to_reg_outlined,
+                    title: L.tr('admin_waitlist_settings'),
+                    subtitle: L.tr('admin_waitlist_settings_subtitle'),
+                    color: Colors.indigo,
+                    onTap: () {
+                      Navigator.of(context).push(
+                        MaterialPageRoute(
+                          builder: (_) => WaitlistSettingsScreen(event: event),
+                        ),
+                      );
+                    },
+                  ),
+                  const SizedBox(height: 12),
+                  _AdminActionCard(
+                    icon: Icons.currency_exchange,
+                    title: L.tr('admin_refunds'),
+                    subtitle: L.tr('admin_refunds_subtitle'),
+                    color: Colors.teal,
+                    onTap: () {
+                      Navigator.of(context).push(
+                        MaterialPageRoute(
+                          builder: (_) => EventRefundPolicyScreen(event: event),
+                        ),
+                      );
+                    },
+                  ),
+                  const SizedBox(height: 12),
                   _AdminActionCard(
                     icon: Icons.content_cut,
                     customIcon: const _TicketTearIcon(size: 28),
@@ -517,6 +579,20 @@ class _AdminEventScreenState extends ConsumerState<AdminEventScreen> {
                       }
                     },
                   ),
+                  const SizedBox(height: 12),
+                  _AdminActionCard(
+                    icon: Icons.event_repeat,
+                    title: L.tr('admin_reschedule_event'),
+                    subtitle: L.tr('admin_reschedule_event_subtitle'),
+                    color: Colors.orange,
+                    onTap: () {
+                      Navigator.of(context).push(
+                        MaterialPageRoute(
+                          builder: (_) => EventRescheduleScreen(event: event),
+                        ),
+                      );
+                    },
+                  ),
                   // Venue Layout action — always visible, enterprise-gated
                   const SizedBox(height: 12),
                   _AdminActionCard(
@@ -599,12 +675,7 @@ class _AdminEventScreenState extends ConsumerState<AdminEventScreen> {
                   ),
                   const SizedBox(height: 24),
                   // ── Cancel Event ──
-                  _CancelEventButton(
-                    event: event,
-                    onCancelled: () {
-                      Navigator.of(context).pop(); // Return to My Events
-                    },
-                  ),
+                  _CancelEventButton(event: event),
                   const SizedBox(height: 32),
                 ],
               ),
@@ -1741,12 +1812,8 @@ class _AccessPasswordCard extends StatelessWidget {
 
 class _CancelEventButton extends StatefulWidget {
   final EventModel event;
-  final VoidCallback onCancelled;
 
-  const _CancelEventButton({
-    required this.event,
-    required this.onCancelled,
-  });
+  const _CancelEventButton({required this.event});
 
   @override
   State<_CancelEventButton> createState() => _CancelEventButtonState();
@@ -1808,28 +1875,21 @@ class _CancelEventButtonState extends State<_CancelEventButton> {
 
     try {
       final repo = SupabaseEventRepository();
-      final result = await repo.cancelEvent(
+      final cancellation = await repo.cancelEvent(
         widget.event.id,
         reason: 'Cancelled by organizer',
       );
 
-      final refunded = result['refunded'] ?? 0;
-      final failed = result['failed'] ?? 0;
-      final skipped = result['skipped'] ?? 0;
-
-      messenger.showSnackBar(
-        SnackBar(
-          content: Text(
-            'Event cancelled. $refunded refunded'
-            '${skipped > 0 ? ', $skipped free tickets cancelled' : ''}'
-            '${failed > 0 ? ', $failed refunds failed' : ''}',
+      // Refunds carry on in the background; follow them there
+      nav.pushReplacement(
+        MaterialPageRoute(
+          builder: (_) => EventCancellationScreen(
+            eventId: widget.event.id,
+            eventTitle: widget.event.title,
+            initial: cancellation,
           ),
-          behavior: SnackBarBehavior.floating,
-          duration: const Duration(seconds: 4),
         ),
       );
-
-      widget.onCancelled();
     } catch (e) {
       if (!mounted) return;
       setState(() => _isCancelling = false);
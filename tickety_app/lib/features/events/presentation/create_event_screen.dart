@@ -29,6 +29,7 @@ import '../data/data.dart';
 import '../models/event_model.dart';
 import '../models/event_series.dart';
 import '../models/event_tag.dart';
+import '../models/ticket_price_tier.dart';
 import '../../../core/state/app_state.dart';
 import '../../subscriptions/models/tier_limits.dart';
 
@@ -56,6 +57,52 @@ const _predefinedTicketNames = [
   'All Access',
 ];
 
+/// Price entry in major units: whole numbers for zero-decimal currencies.
+TextInputFormatter _priceInputFormatter(AppCurrency currency) =>
+    FilteringTextInputFormatter.allow(
+        RegExp(currency.decimals == 0 ? r'^\d*' : r'^\d*\.?\d{0,2}'));
+
+/// An automatic price step being edited (see [TicketPriceTier]).
+class _PriceTier {
+  DateTime? endsAt;
+  final TextEditingController nameController;
+  final TextEditingController priceController;
+  final TextEditingController endsAfterSoldController;
+
+  _PriceTier({String name = '', double price = 0, int? endsAfterSold, this.endsAt})
+      : nameController = TextEditingController(text: name),
+        priceController = TextEditingController(text: price > 0 ? price.toString() : ''),
+        endsAfterSoldController =
+            TextEditingController(text: endsAfterSold?.toString() ?? '');
+
+  factory _PriceTier.from(TicketPriceTier tier, AppCurrency currency) => _PriceTier(
+        name: tier.name,
+        price: tier.priceInCents / currency.minorPerMajor,
+        endsAfterSold: tier.endsAfterSold,
+        endsAt: tier.endsAt,
+      );
+
+  /// The tier to save, or null if it has no name or never ends.
+  TicketPriceTier? toTier(AppCurrency currency) {
+    final name = Validators.sanitize(nameController.text);
+    final endsAfterSold = int.tryParse(endsAfterSoldController.text);
+    if (name.isEmpty || (endsAfterSold == null && endsAt == null)) return null;
+    return TicketPriceTier(
+      name: name,
+      priceInCents:
+          ((double.tryParse(priceController.text) ?? 0) * currency.minorPerMajor).round(),
+      endsAfterSold: endsAfterSold != null && endsAfterSold > 0 ? endsAfterSold : null,
+      endsAt: endsAt,
+    );
+  }
+
+  void dispose() {
+    nameController.dispose();
+    priceController.dispose();
+    endsAfterSoldController.dispose();
+  }
+}
+
 /// Represents a ticket type with name, price, quantity, and description.
 class _TicketType {
   String name;
@@ -67,11 +114,16 @@ class _TicketType {
   String? itemIcon;
   String? itemDescription;
   String? accessPassword;
+  DateTime? salesStartAt;
+  DateTime? salesEndAt;
+  final List<_PriceTier> priceTiers;
   final TextEditingController nameController;
   final TextEditingController descriptionController;
   final TextEditingController priceController;
   final TextEditingController quantityController;
   final TextEditingController itemDescriptionController;
+  final TextEditingController minPerOrderController;
+  final TextEditingController maxPerOrderController;
 
   _TicketType({
     required this.name,
@@ -83,7 +135,17 @@ class _TicketType {
     this.itemIcon,
     this.itemDescription,
     this.accessPassword,
-  })  : nameController = TextEditingController(text: name),
+    this.salesStartAt,
+    this.salesEndAt,
+    int minPerOrder = 1,
+    int? maxPerOrder,
+    List<_PriceTier>? priceTiers,
+  })  : priceTiers = priceTiers ?? [],
+        minPerOrderController =
+            TextEditingController(text: minPerOrder > 1 ? '$minPerOrder' : ''),
+        maxPerOrderController =
+            TextEditingController(text: maxPerOrder?.toString() ?? ''),
+        nameController = TextEditingController(text: name),
         descriptionController = TextEditingController(text: description),
         priceController = TextEditingController(text: price > 0 ? price.toString() : '0'),
         quantityController = TextEditingController(text: quantity.toString()),
@@ -91,12 +153,35 @@ class _TicketType {
 
   bool get isRedeemable => category == 'redeemable';
 
+  int get minPerOrder {
+    final value = int.tryParse(minPerOrderController.text) ?? 1;
+    return value < 1 ? 1 : value;
+  }
+
+  int? get maxPerOrder {
+    final value = int.tryParse(maxPerOrderController.text);
+    if (value == null || value < 1) return null;
+    return value < minPerOrder ? minPerOrder : value;
+  }
+
+  bool get hasSalesRules =>
+      salesStartAt != null ||
+      salesEndAt != null ||
+      minPerOrderController.text.isNotEmpty ||
+      maxPerOrderController.text.isNotEmpty ||
+      priceTiers.isNotEmpty;
+
   void dispose() {
     nameController.dispose();
     descriptionController.dispose();
     priceController.dispose();
     quantityController.dispose();
     itemDescriptionController.dispose();
+    minPerOrderController.dispose();
+    maxPerOrderController.dispose();
+    for (final tier in priceTiers) {
+      tier.dispose();
+    }
   }
 }
 
@@ -128,6 +213,10 @@ class _CreateEventScreenState extends ConsumerState<CreateEventScreen> {
   final _virtualUrlController = TextEditingController();
   final _virtualPasswordController = TextEditingController();
   bool _nftEnabled = true;
+
+  /// Currency the event's tickets are priced in; fixed once tickets sell.
+  AppCurrency _currency = AppCurrency.usd;
+  bool _hasSales = false;
   DateTime _selectedDate = DateTime.now().add(const Duration(days: 7));
   TimeOfDay _selectedTime = const TimeOfDay(hour: 19, minute: 0);
 
@@ -195,6 +284,7 @@ class _CreateEventScreenState extends ConsumerState<CreateEventScreen> {
       _hideLocation = event.hideLocation;
       _nftEnabled = event.nftEnabled;
       _noiseSeed = event.noiseSeed;
+      _currency = AppCurrency.fromCode(event.currency);
 
       // Resolve tags from IDs
       _selectedTags = event.tags
@@ -241,6 +331,7 @@ class _CreateEventScreenState extends ConsumerState<CreateEventScreen> {
       _loadExistingTicketTypes(event.id);
     } else {
       _noiseSeed = Random().nextInt(10000);
+      _currency = ref.read(currencyProvider);
       // Initialize with default General Admission ticket
       _ticketTypes = [_TicketType(name: _predefinedTicketNames[0])];
     }
@@ -254,15 +345,21 @@ class _CreateEventScreenState extends ConsumerState<CreateEventScreen> {
       final types = await _repository.getEventTicketTypes(eventId);
       if (mounted) {
         setState(() {
+          _hasSales = types.any((t) => t.soldCount > 0);
           _ticketTypes = types.map((t) => _TicketType(
             name: t.name,
             description: t.description ?? '',
-            price: t.priceInCents / 100.0,
+            price: t.priceInCents / _currency.minorPerMajor,
             quantity: t.maxQuantity ?? 0,
             category: t.category,
             itemIcon: t.itemIcon,
             itemDescription: t.itemDescription,
             accessPassword: t.accessPassword,
+            salesStartAt: t.salesStartAt,
+            salesEndAt: t.salesEndAt,
+            minPerOrder: t.minPerOrder,
+            maxPerOrder: t.maxPerOrder,
+            priceTiers: t.priceTiers.map((tier) => _PriceTier.from(tier, _currency)).toList(),
           )).toList();
           if (_ticketTypes.isEmpty) {
             _ticketTypes = [_TicketType(name: _predefinedTicketNames[0])];
@@ -410,6 +507,20 @@ class _CreateEventScreenState extends ConsumerState<CreateEventScreen> {
       return;
     }
 
+    final badWindow = _ticketTypes.any((tt) =>
+        tt.salesStartAt != null &&
+        tt.salesEndAt != null &&
+        !tt.salesEndAt!.isAfter(tt.salesStartAt!));
+    if (badWindow) {
+      ScaffoldMessenger.of(context).showSnackBar(
+        SnackBar(
+          content: Text(L.tr('create_ticket_sales_window_invalid')),
+          behavior: SnackBarBehavior.floating,
+        ),
+      );
+      return;
+    }
+
     // Check if total capacity exceeds 250 and organizer is unverified
     final totalCapacity = _ticketTypes.fold<int>(0, (sum, tt) {
       final qty = int.tryParse(tt.quantityController.text) ?? 0;
@@ -478,7 +589,7 @@ class _CreateEventScreenState extends ConsumerState<CreateEventScreen> {
       debugPrint('Converting ${_ticketTypes.length} ticket types');
       final ticketTypeInputs = _ticketTypes.map((tt) {
         final priceDollars = double.tryParse(tt.priceController.text) ?? 0;
-        final priceCents = (priceDollars * 100).round();
+        final priceCents = (priceDollars * _currency.minorPerMajor).round();
         final quantity = int.tryParse(tt.quantityController.text);
         debugPrint('Ticket type: ${tt.nameController.text}, price: $priceCents cents, qty: $quantity');
         return TicketTypeInput(
@@ -501,6 +612,14 @@ class _CreateEventScreenState extends ConsumerState<CreateEventScreen> {
           accessPassword: tt.accessPassword?.isNotEmpty == true
               ? tt.accessPassword
               : null,
+          salesStartAt: tt.salesStartAt,
+          salesEndAt: tt.salesEndAt,
+          minPerOrder: tt.minPerOrder,
+          maxPerOrder: tt.maxPerOrder,
+          priceTiers: tt.priceTiers
+              .map((tier) => tier.toTier(_currency))
+              .whereType<TicketPriceTier>()
+              .toList(),
         );
       }).toList();
       debugPrint('Created ${ticketTypeInputs.length} TicketTypeInput objects');
@@ -560,6 +679,7 @@ class _CreateEventScreenState extends ConsumerState<CreateEventScreen> {
           longitude: _selectedPlace?.lng,
           formattedAddress: _selectedPlace?.formattedAddress,
           priceInCents: lowestPrice,
+          currency: _currency.displayCode,
           eventFormat: _eventFormat,
           virtualEventUrl: virtualUrl,
           virtualEventPassword: virtualPassword,
@@ -596,7 +716,7 @@ class _CreateEventScreenState extends ConsumerState<CreateEventScreen> {
           'is_private': !_isPublic,
           'nft_enabled': _nftEnabled,
           'price_in_cents': lowestPrice,
-          'currency': 'USD',
+          'currency': _currency.displayCode,
           'cash_sales_enabled': true,
           'location': _selectedPlace?.formattedAddress ?? (venue != null && city != null ? '$venue, $city' : venue ?? city),
           if (_selectedPlace?.lat != null) 'latitude': _selectedPlace!.lat,
@@ -619,6 +739,13 @@ class _CreateEventScreenState extends ConsumerState<CreateEventScreen> {
           'max_quantity': e.value.maxQuantity,
           'sort_order': e.key,
           if (e.value.accessPassword != null) 'access_password': e.value.accessPassword,
+          'min_per_order': e.value.minPerOrder,
+          'max_per_order': e.value.maxPerOrder,
+          // Dated tiers belong to one occurrence; only count-based ones repeat
+          'price_tiers': e.value.priceTiers
+              .where((t) => t.endsAfterSold != null)
+              .map((t) => t.toJson()..remove('ends_at'))
+              .toList(),
         }).toList();
 
         // Compute recurrence_day
@@ -657,6 +784,7 @@ class _CreateEventScreenState extends ConsumerState<CreateEventScreen> {
           city: city,
           country: country,
           ticketTypes: ticketTypeInputs,
+          currency: _currency.displayCode,
           tags: tagIds,
           noiseSeed: _noiseSeed,
           hideLocation: _hideLocation,
@@ -2076,6 +2204,30 @@ class _CreateEventScreenState extends ConsumerState<CreateEventScreen> {
     return Column(
       key: const ValueKey('tickets'),
       children: [
+        const SizedBox(height: 16),
+        // Currency every ticket type of the event is priced in
+        DropdownButtonFormField<AppCurrency>(
+          value: _currency,
+          decoration: InputDecoration(
+            labelText: L.tr('create_event_currency'),
+            helperText: _hasSales
+                ? L.tr('create_event_currency_locked')
+                : L.tr('create_event_currency_hint'),
+            border: const OutlineInputBorder(),
+            isDense: true,
+          ),
+          items: AppCurrency.values
+              .map((c) => DropdownMenuItem(
+                    value: c,
+                    child: Text('${c.symbol}  ${c.displayCode} \u00B7 ${c.name}'),
+                  ))
+              .toList(),
+          onChanged: _hasSales
+              ? null
+              : (c) {
+                  if (c != null) setState(() => _currency = c);
+                },
+        ),
         const SizedBox(height: 16),
         // Entry ticket types
         if (entryTypes.isNotEmpty) ...[
@@ -2097,6 +2249,7 @@ class _CreateEventScreenState extends ConsumerState<CreateEventScreen> {
             padding: const EdgeInsets.only(bottom: 16),
             child: _TicketTypeRow(
               ticketType: ticketType,
+              currency: _currency,
               venueSections: venueSections,
               canRemove: _ticketTypes.length > 1,
               onRemove: () => _removeTicketType(index),
@@ -2108,6 +2261,7 @@ class _CreateEventScreenState extends ConsumerState<CreateEventScreen> {
               onCategoryChanged: (cat) => setState(() => ticketType.category = cat),
               onItemIconChanged: (icon) => setState(() => ticketType.itemIcon = icon),
               onHiddenCodeChanged: (code) => setState(() => ticketType.accessPassword = code),
+              onSalesRulesChanged: () => setState(() {}),
             ),
           );
         }),
@@ -2137,6 +2291,7 @@ class _CreateEventScreenState extends ConsumerState<CreateEventScreen> {
               padding: const EdgeInsets.only(bottom: 16),
               child: _TicketTypeRow(
                 ticketType: ticketType,
+                currency: _currency,
                 venueSections: const [],
                 canRemove: _ticketTypes.length > 1,
                 onRemove: () => _removeTicketType(index),
@@ -2148,6 +2303,7 @@ class _CreateEventScreenState extends ConsumerState<CreateEventScreen> {
                 onCategoryChanged: (cat) => setState(() => ticketType.category = cat),
                 onItemIconChanged: (icon) => setState(() => ticketType.itemIcon = icon),
                 onHiddenCodeChanged: (code) => setState(() => ticketType.accessPassword = code),
+                onSalesRulesChanged: () => setState(() {}),
               ),
             );
           }),
@@ -2209,8 +2365,272 @@ class _CreateEventScreenState extends ConsumerState<CreateEventScreen> {
 }
 
 /// Row widget for a single ticket type with name, description, price, and quantity.
+/// Sales window, per-order limits and automatic price tiers of a ticket
+/// type. Collapsed until opened or already set.
+class _TicketSalesRules extends StatelessWidget {
+  final _TicketType ticketType;
+  final AppCurrency currency;
+  final VoidCallback onChanged;
+
+  const _TicketSalesRules({
+    required this.ticketType,
+    required this.currency,
+    required this.onChanged,
+  });
+
+  static String _formatDate(DateTime d) {
+    final months = [
+      L.tr('month_jan'), L.tr('month_feb'), L.tr('month_mar'),
+      L.tr('month_apr'), L.tr('month_may'), L.tr('month_jun'),
+      L.tr('month_jul'), L.tr('month_aug'), L.tr('month_sep'),
+      L.tr('month_oct'), L.tr('month_nov'), L.tr('month_dec'),
+    ];
+    final hour = d.hour > 12 ? d.hour - 12 : (d.hour == 0 ? 12 : d.hour);
+    final minute = d.minute.toString().padLeft(2, '0');
+    final period = d.hour >= 12 ? 'PM' : 'AM';
+    return '${months[d.month - 1]} ${d.day}, $hour:$minute $period';
+  }
+
+  Future<DateTime?> _pickDateTime(BuildContext context, DateTime? initial) async {
+    final now = DateTime.now();
+    final date = await showDatePicker(
+      context: context,
+      initialDate: initial ?? now,
+      firstDate: now.subtract(const Duration(days: 1)),
+      lastDate: now.add(const Duration(days: 730)),
+    );
+    if (date == null || !context.mounted) return null;
+    final time = await showTimePicker(
+      context: context,
+      initialTime: TimeOfDay.fromDateTime(initial ?? now),
+    );
+    if (time == null) return null;
+    return DateTime(date.year, date.month, date.day, time.hour, time.minute);
+  }
+
+  Widget _dateChip(
+    BuildContext context, {
+    required String label,
+    required DateTime? value,
+    required String emptyText,
+    required ValueChanged<DateTime?> onPicked,
+  }) {
+    final theme = Theme.of(context);
+    return InputChip(
+      label: Text(
+        '$label: ${value != null ? _formatDate(value) : emptyText}',
+        style: theme.textTheme.labelSmall,
+      ),
+      onPressed: () async {
+        final picked = await _pickDateTime(context, value);
+        if (picked != null) onPicked(picked);
+      },
+      onDeleted: value != null ? () => onPicked(null) : null,
+      visualDensity: VisualDensity.compact,
+    );
+  }
+
+  @override
+  Widget build(BuildContext context) {
+    final theme = Theme.of(context);
+    final colorScheme = theme.colorScheme;
+    final labelStyle = theme.textTheme.labelSmall?.copyWith(
+      color: colorScheme.onSurfaceVariant,
+      fontWeight: FontWeight.w600,
+    );
+
+    return Theme(
+      data: theme.copyWith(dividerColor: Colors.transparent),
+      child: ExpansionTile(
+        initiallyExpanded: ticketType.hasSalesRules,
+        tilePadding: EdgeInsets.zero,
+        childrenPadding: EdgeInsets.zero,
+        dense: true,
+        leading: Icon(Icons.schedule, size: 16, color: colorScheme.onSurfaceVariant),
+        title: Text(L.tr('create_ticket_sales_rules'), style: labelStyle),
+        expandedCrossAxisAlignment: CrossAxisAlignment.start,
+        children: [
+          // Sales window
+          Wrap(
+            spacing: 8,
+            runSpacing: 4,
+            children: [
+              _dateChip(
+                context,
+                label: L.tr('create_ticket_sales_start'),
+                value: ticketType.salesStartAt,
+                emptyText: L.tr('create_ticket_sales_start_now'),
+                onPicked: (d) {
+                  ticketType.salesStartAt = d;
+                  onChanged();
+                },
+              ),
+              _dateChip(
+                context,
+                label: L.tr('create_ticket_sales_end'),
+                value: ticketType.salesEndAt,
+                emptyText: L.tr('create_ticket_sales_end_event'),
+                onPicked: (d) {
+                  ticketType.salesEndAt = d;
+                  onChanged();
+                },
+              ),
+            ],
+          ),
+          if (ticketType.salesStartAt != null &&
+              ticketType.salesEndAt != null &&
+              !ticketType.salesEndAt!.isAfter(ticketType.salesStartAt!))
+            Text(
+              L.tr('create_ticket_sales_window_invalid'),
+              style: theme.textTheme.labelSmall?.copyWith(color: colorScheme.error),
+            ),
+          const SizedBox(height: 12),
+          // Per-order limits
+          Row(
+            children: [
+              Expanded(
+                child: TextField(
+                  controller: ticketType.minPerOrderController,
+                  keyboardType: TextInputType.number,
+                  inputFormatters: [FilteringTextInputFormatter.digitsOnly],
+                  decoration: InputDecoration(
+                    labelText: L.tr('create_ticket_min_per_order'),
+                    labelStyle: theme.textTheme.labelSmall,
+                    hintText: '1',
+                    border: const OutlineInputBorder(),
+                    isDense: true,
+                  ),
+                ),
+              ),
+              const SizedBox(width: 12),
+              Expanded(
+                child: TextField(
+                  controller: ticketType.maxPerOrderController,
+                  keyboardType: TextInputType.number,
+                  inputFormatters: [FilteringTextInputFormatter.digitsOnly],
+                  decoration: InputDecoration(
+                    labelText: L.tr('create_ticket_max_per_order'),
+                    labelStyle: theme.textTheme.labelSmall,
+                    hintText: L.tr('create_ticket_no_limit'),
+                    border: const OutlineInputBorder(),
+                    isDense: true,
+                  ),
+                ),
+              ),
+            ],
+          ),
+          const SizedBox(height: 12),
+          // Price tiers
+          Text(L.tr('create_ticket_price_tiers'), style: labelStyle),
+          const SizedBox(height: 2),
+          Text(
+            L.tr('create_ticket_price_tiers_hint'),
+            style: theme.textTheme.labelSmall?.copyWith(
+              color: colorScheme.onSurfaceVariant,
+              fontSize: 10,
+            ),
+          ),
+          const SizedBox(height: 8),
+          ...ticketType.priceTiers.asMap().entries.map((entry) {
+            final tier = entry.value;
+            return Padding(
+              padding: const EdgeInsets.only(bottom: 8),
+              child: Column(
+                children: [
+                  Row(
+                    children: [
+                      Expanded(
+                        flex: 3,
+                        child: TextField(
+                          controller: tier.nameController,
+                          decoration: InputDecoration(
+                            labelText: L.tr('create_ticket_tier_name'),
+                            labelStyle: theme.textTheme.labelSmall,
+                            hintText: L.tr('create_ticket_tier_name_hint'),
+                            border: const OutlineInputBorder(),
+                            isDense: true,
+                          ),
+                        ),
+                      ),
+                      const SizedBox(width: 8),
+                      Expanded(
+                        flex: 2,
+                        child: TextField(
+                          controller: tier.priceController,
+                          keyboardType: const TextInputType.numberWithOptions(decimal: true),
+                          inputFormatters: [_priceInputFormatter(currency)],
+                          decoration: InputDecoration(
+                            labelText: L.tr('create_price'),
+                            labelStyle: theme.textTheme.labelSmall,
+                            prefixText: '${currency.symbol} ',
+                            border: const OutlineInputBorder(),
+                            isDense: true,
+                          ),
+                        ),
+                      ),
+                      IconButton(
+                        icon: Icon(Icons.close, size: 18, color: colorScheme.onSurfaceVariant),
+                        visualDensity: VisualDensity.compact,
+                        onPressed: () {
+                          ticketType.priceTiers.removeAt(entry.key).dispose();
+                          onChanged();
+                        },
+                      ),
+                    ],
+                  ),
+                  const SizedBox(height: 6),
+                  Row(
+                    children: [
+                      Expanded(
+                        child: TextField(
+                          controller: tier.endsAfterSoldController,
+                          keyboardType: TextInputType.number,
+                          inputFormatters: [FilteringTextInputFormatter.digitsOnly],
+                          decoration: InputDecoration(
+                            labelText: L.tr('create_ticket_tier_ends_after_sold'),
+                            labelStyle: theme.textTheme.labelSmall,
+                            border: const OutlineInputBorder(),
+                            isDense: true,
+                          ),
+                        ),
+                      ),
+                      const SizedBox(width: 8),
+                      _dateChip(
+                        context,
+                        label: L.tr('create_ticket_tier_ends_at'),
+                        value: tier.endsAt,
+                        emptyText: '\u2014',
+                        onPicked: (d) {
+                          tier.endsAt = d;
+                          onChanged();
+                        },
+                      ),
+                    ],
+                  ),
+                ],
+              ),
+            );
+          }),
+          Align(
+            alignment: Alignment.centerLeft,
+            child: TextButton.icon(
+              icon: const Icon(Icons.add, size: 16),
+              label: Text(L.tr('create_ticket_add_price_tier')),
+              onPressed: () {
+                ticketType.priceTiers.add(_PriceTier());
+                onChanged();
+              },
+            ),
+          ),
+        ],
+      ),
+    );
+  }
+}
+
 class _TicketTypeRow extends StatelessWidget {
   final _TicketType ticketType;
+  final AppCurrency currency;
   final List<VenueSection> venueSections;
   final bool canRemove;
   final VoidCallback onRemove;
@@ -2222,9 +2642,11 @@ class _TicketTypeRow extends StatelessWidget {
   final ValueChanged<String>? onCategoryChanged;
   final ValueChanged<String?>? onItemIconChanged;
   final ValueChanged<String?>? onHiddenCodeChanged;
+  final VoidCallback? onSalesRulesChanged;
 
   const _TicketTypeRow({
     required this.ticketType,
+    this.currency = AppCurrency.usd,
     this.venueSections = const [],
     required this.canRemove,
     required this.onRemove,
@@ -2236,6 +2658,7 @@ class _TicketTypeRow extends StatelessWidget {
     this.onCategoryChanged,
     this.onItemIconChanged,
     this.onHiddenCodeChanged,
+    this.onSalesRulesChanged,
   });
 
   @override
@@ -2406,7 +2829,7 @@ class _TicketTypeRow extends StatelessWidget {
                       controller: ticketType.priceController,
                       keyboardType: const TextInputType.numberWithOptions(decimal: true),
                       decoration: InputDecoration(
-                        prefixText: '\$ ',
+                        prefixText: '${currency.symbol} ',
                         prefixStyle: TextStyle(
                           color: colorScheme.primary,
                           fontWeight: FontWeight.w600,
@@ -2415,9 +2838,7 @@ class _TicketTypeRow extends StatelessWidget {
                         border: const OutlineInputBorder(),
                         isDense: true,
                       ),
-                      inputFormatters: [
-                        FilteringTextInputFormatter.allow(RegExp(r'^\d*\.?\d{0,2}')),
-                      ],
+                      inputFormatters: [_priceInputFormatter(currency)],
                       onChanged: onPriceChanged,
                     ),
                   ],
@@ -2508,6 +2929,18 @@ class _TicketTypeRow extends StatelessWidget {
               ],
             ),
           ],
+          // ── Sales window, order limits and price tiers ──
+          if (onSalesRulesChanged != null) ...[
+            Divider(
+              height: 20,
+              color: colorScheme.outlineVariant.withValues(alpha: 0.3),
+            ),
+            _TicketSalesRules(
+              ticketType: ticketType,
+              currency: currency,
+              onChanged: onSalesRulesChanged!,
+            ),
+          ],
           // ── Hidden ticket toggle ──
           if (onHiddenCodeChanged != null) ...[
             Divider(
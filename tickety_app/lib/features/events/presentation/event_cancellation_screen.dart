@@ -0,0 +1,298 @@
+import 'dart:async';
+
+import 'package:flutter/material.dart';
+import 'package:flutter_riverpod/flutter_riverpod.dart';
+
+import '../../../core/errors/errors.dart';
+import '../../../core/localization/localization.dart';
+import '../../../core/providers/providers.dart';
+import '../../../core/utils/currency_formatter.dart';
+import '../data/supabase_event_repository.dart';
+import '../models/event_cancellation.dart';
+
+/// Organizer screen following a cancelled event's refunds as they go out,
+/// with a retry for the ones that failed.
+class EventCancellationScreen extends ConsumerStatefulWidget {
+  final String eventId;
+  final String? eventTitle;
+
+  /// The cancellation as returned when starting it, shown until the first
+  /// refresh.
+  final EventCancellation? initial;
+
+  const EventCancellationScreen({
+    super.key,
+    required this.eventId,
+    this.eventTitle,
+    this.initial,
+  });
+
+  @override
+  ConsumerState<EventCancellationScreen> createState() =>
+      _EventCancellationScreenState();
+}
+
+class _EventCancellationScreenState
+    extends ConsumerState<EventCancellationScreen> {
+  static const _pollInterval = Duration(seconds: 4);
+
+  EventCancellation? _cancellation;
+  List<String> _failures = const [];
+  Timer? _poll;
+  bool _isLoading = true;
+  bool _isRetrying = false;
+  String? _error;
+
+  SupabaseEventRepository get _repo =>
+      ref.read(eventRepositoryProvider) as SupabaseEventRepository;
+
+  @override
+  void initState() {
+    super.initState();
+    _cancellation = widget.initial;
+    _load();
+  }
+
+  @override
+  void dispose() {
+    _poll?.cancel();
+    super.dispose();
+  }
+
+  Future<void> _load() async {
+    try {
+      final cancellation = await _repo.getCancellation(widget.eventId);
+      final failures = cancellation != null && cancellation.failedCount > 0
+          ? await _repo.getCancellationFailures(cancellation.id)
+          : const <String>[];
+      if (!mounted) return;
+      setState(() {
+        _cancellation = cancellation ?? _cancellation;
+        _failures = failures;
+        _isLoading = false;
+        _error = null;
+      });
+    } catch (e, s) {
+      if (!mounted) return;
+      setState(() {
+        _isLoading = false;
+        _error = ErrorHandler.normalize(e, s).userMessage;
+      });
+    }
+    _schedulePoll();
+  }
+
+  void _schedulePoll() {
+    _poll?.cancel();
+    if (!mounted || _cancellation?.isRunning != true) return;
+    _poll = Timer(_pollInterval, _load);
+  }
+
+  Future<void> _retry() async {
+    final cancellation = _cancellation;
+    if (cancellation == null) return;
+
+    setState(() {
+      _isRetrying = true;
+      _error = null;
+    });
+    try {
+      await _repo.retryCancellationRefunds(cancellation.id);
+      if (!mounted) return;
+      setState(() => _isRetrying = false);
+      await _load();
+    } catch (e, s) {
+      if (!mounted) return;
+      setState(() {
+        _isRetrying = false;
+        _error = ErrorHandler.normalize(e, s).userMessage;
+      });
+    }
+  }
+
+  @override
+  Widget build(BuildContext context) {
+    final theme = Theme.of(context);
+    final cancellation = _cancellation;
+    final title = cancellation?.eventTitle ?? widget.eventTitle;
+
+    return Scaffold(
+      appBar: AppBar(
+        title: Text(L.tr('event_cancellation_title')),
+        actions: [
+          IconButton(
+            onPressed: _isLoading ? null : _load,
+            icon: const Icon(Icons.refresh),
+            tooltip: L.tr('event_cancellation_refresh'),
+          ),
+        ],
+      ),
+      body: cancellation == null
+          ? Center(
+              child: _isLoading
+                  ? const CircularProgressIndicator()
+                  : Text(_error ?? L.tr('event_cancellation_not_found')),
+            )
+          : ListView(
+              padding: const EdgeInsets.all(16),
+              children: [
+                if (title != null) ...[
+                  Text(title, style: theme.textTheme.titleLarge),
+                  const SizedBox(height: 4),
+                ],
+                Text(
+                  _statusText(cancellation),
+                  style: theme.textTheme.bodyMedium?.copyWith(
+                    color: theme.colorScheme.onSurfaceVariant,
+                  ),
+                ),
+                const SizedBox(height: 16),
+                ClipRRect(
+                  borderRadius: BorderRadius.circular(4),
+                  child: LinearProgressIndicator(
+                    value: cancellation.progress,
+                    minHeight: 8,
+                    color: cancellation.failedCount > 0 ? Colors.orange : Colors.green,
+                  ),
+                ),
+                const SizedBox(height: 8),
+                Text(
+                  L.tr('event_cancellation_progress', [
+                    cancellation.processedCount,
+                    cancellation.totalPayments,
+                  ]),
+                  style: theme.textTheme.bodySmall,
+                ),
+                const SizedBox(height: 16),
+                Card(
+                  child: Column(
+                    children: [
+                      _CountTile(
+                        icon: Icons.check_circle_outline,
+                        color: Colors.green,
+                        label: L.tr('event_cancellation_refunded'),
+                        value: '${cancellation.refundedCount}',
+                      ),
+                      _CountTile(
+                        icon: Icons.payments_outlined,
+                        color: Colors.green,
+                        label: L.tr('event_cancellation_amount'),
+                        value: CurrencyFormatter.format(
+                          cancellation.refundedCents,
+                          currencyCode: cancellation.currency,
+                        ),
+                      ),
+                      _CountTile(
+                        icon: Icons.remove_circle_outline,
+                        color: theme.colorScheme.onSurfaceVariant,
+                        label: L.tr('event_cancellation_skipped'),
+                        value: '${cancellation.skippedCount}',
+                      ),
+                      _CountTile(
+                        icon: Icons.error_outline,
+                        color: Colors.red,
+                        label: L.tr('event_cancellation_failed'),
+                        value: '${cancellation.failedCount}',
+                      ),
+                      if (!cancellation.isRunning)
+                        _CountTile(
+                          icon: Icons.confirmation_number_outlined,
+                          color: theme.colorScheme.onSurfaceVariant,
+                          label: L.tr('event_cancellation_tickets_cancelled'),
+                          value: '${cancellation.cancelledTickets}',
+                        ),
+                    ],
+                  ),
+                ),
+                if (_failures.isNotEmpty) ...[
+                  const SizedBox(height: 16),
+                  Text(
+                    L.tr('event_cancellation_failures'),
+                    style: theme.textTheme.titleSmall,
+                  ),
+                  const SizedBox(height: 8),
+                  for (final failure in _failures.take(10))
+                    Padding(
+                      padding: const EdgeInsets.only(bottom: 4),
+                      child: Text(
+                        failure.isEmpty ? L.tr('event_cancellation_unknown_error') : failure,
+                        style: theme.textTheme.bodySmall?.copyWith(color: Colors.red),
+                      ),
+                    ),
+                ],
+                if (_error != null) ...[
+                  const SizedBox(height: 16),
+                  Text(
+                    _error!,
+                    style: TextStyle(color: theme.colorScheme.error),
+                  ),
+                ],
+                if (cancellation.canRetry) ...[
+                  const SizedBox(height: 24),
+                  FilledButton.icon(
+                    onPressed: _isRetrying ? null : _retry,
+                    icon: _isRetrying
+                        ? const SizedBox(
+                            width: 18,
+                            height: 18,
+                            child: CircularProgressIndicator(strokeWidth: 2),
+                          )
+                        : const Icon(Icons.replay),
+                    label: Text(L.tr('event_cancellation_retry')),
+                    style: FilledButton.styleFrom(
+                      minimumSize: const Size.fromHeight(48),
+                    ),
+                  ),
+                ],
+                if (cancellation.isRunning) ...[
+                  const SizedBox(height: 24),
+                  Text(
+                    L.tr('event_cancellation_background_hint'),
+                    style: theme.textTheme.bodySmall?.copyWith(
+                      color: theme.colorScheme.onSurfaceVariant,
+                    ),
+                  ),
+                ],
+              ],
+            ),
+    );
+  }
+
+  String _statusText(EventCancellation cancellation) {
+    switch (cancellation.status) {
+      case EventCancellationStatus.running:
+        return L.tr('event_cancellation_running');
+      case EventCancellationStatus.completed:
+        return L.tr('event_cancellation_completed');
+      case EventCancellationStatus.completedWithErrors:
+        return L.tr('event_cancellation_completed_with_errors');
+    }
+  }
+}
+
+class _CountTile extends StatelessWidget {
+  final IconData icon;
+  final Color color;
+  final String label;
+  final String value;
+
+  const _CountTile({
+    required this.icon,
+    required this.color,
+    required this.label,
+    required this.value,
+  });
+
+  @override
+  Widget build(BuildContext context) {
+    return ListTile(
+      dense: true,
+      leading: Icon(icon, color: color),
+      title: Text(label),
+      trailing: Text(
+        value,
+        style: Theme.of(context).textTheme.titleMedium,
+      ),
+    );
+  }
+}
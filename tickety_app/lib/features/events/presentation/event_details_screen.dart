@@ -7,6 +7,7 @@ import '../../../core/localization/localization.dart';
 import '../../../core/providers/providers.dart';
 import '../../../core/services/services.dart';
 import '../../../core/utils/auth_gate.dart';
+import '../../../core/utils/currency_formatter.dart';
 import '../../../shared/widgets/widgets.dart';
 import '../../merch/models/merch_product.dart';
 import '../../merch/presentation/product_detail_screen.dart';
@@ -21,6 +22,7 @@ import '../../waitlist/presentation/waitlist_sheet.dart';
 import '../data/supabase_event_repository.dart';
 import '../models/event_model.dart';
 import '../models/event_series.dart';
+import '../models/event_tax.dart';
 import '../models/ticket_availability.dart';
 import '../models/ticket_type.dart';
 import 'report_event_sheet.dart';
@@ -63,7 +65,8 @@ final _entryPriceProvider =
   final types = await repo.getEventTicketTypes(eventId);
   final entryTypes = types.where((t) => t.isActive && !t.isRedeemable);
   if (entryTypes.isEmpty) return null;
-  final prices = entryTypes.map((t) => t.priceInCents).where((p) => p > 0);
+  final prices =
+      entryTypes.map((t) => t.currentPriceInCents).where((p) => p > 0);
   if (prices.isEmpty) return 0;
   return prices.reduce((a, b) => a < b ? a : b);
 });
@@ -729,6 +732,7 @@ class EventDetailsScreen extends ConsumerWidget {
       bottomNavigationBar: _BottomBuyBar(
         eventId: event.id,
         fallbackPriceInCents: event.priceInCents,
+        currency: event.currency,
         onBuyPressed: () {
           if (!requireAuth(context)) return;
           _showBuyTicketSheet(context);
@@ -884,11 +888,13 @@ class _InfoCard extends StatelessWidget {
 class _BottomBuyBar extends ConsumerWidget {
   final String eventId;
   final int? fallbackPriceInCents;
+  final String currency;
   final VoidCallback onBuyPressed;
 
   const _BottomBuyBar({
     required this.eventId,
     required this.fallbackPriceInCents,
+    required this.currency,
     required this.onBuyPressed,
   });
 
@@ -906,7 +912,7 @@ class _BottomBuyBar extends ConsumerWidget {
 
     String formattedPrice() {
       if (displayPrice == null || displayPrice == 0) return 'Free';
-      return '\$${(displayPrice / 100).toStringAsFixed(2)}';
+      return CurrencyFormatter.format(displayPrice, currencyCode: currency);
     }
 
     return Container(
@@ -1008,13 +1014,19 @@ class _BuyTicketSheetState extends ConsumerState<_BuyTicketSheet> {
   final _passwordController = TextEditingController();
   String? _passwordError;
 
-  // Hidden ticket codes — revealed ticket type IDs
+  // Hidden ticket codes — types are fetched from the server once a code
+  // unlocks them; the codes go with the order so checkout can verify them
+  bool _eventHasHiddenTypes = false;
   final Set<String> _revealedHiddenTickets = {};
+  final Set<String> _accessCodes = {};
   final _hiddenCodeController = TextEditingController();
   String? _hiddenCodeError;
 
+  // Sales tax / VAT, loaded with the ticket types so checkout can show it
+  EventTax _tax = EventTax.none;
+
   bool get _hasVenue => widget.event.venueId != null;
-  bool get _hasTicketTypes => _ticketTypes.isNotEmpty;
+  bool get _hasTicketTypes => _ticketTypes.isNotEmpty || _eventHasHiddenTypes;
 
   int get _pricePerTicketCents => widget.event.priceInCents ?? 0;
 
@@ -1022,9 +1034,8 @@ class _BuyTicketSheetState extends ConsumerState<_BuyTicketSheet> {
   bool get _needsEventPassword =>
       widget.event.isPasswordProtected && !_eventPasswordUnlocked;
 
-  /// Whether there are any hidden tickets that haven't been revealed yet.
-  bool get _hasHiddenTickets =>
-      _ticketTypes.any((t) => t.isHidden && !_revealedHiddenTickets.contains(t.id));
+  /// Whether the event has hidden tickets a code could still reveal.
+  bool get _hasHiddenTickets => _eventHasHiddenTypes;
 
   /// Filter: visible tickets = not hidden, OR revealed via code.
   bool _isTicketVisible(TicketType t) {
@@ -1051,13 +1062,6 @@ class _BuyTicketSheetState extends ConsumerState<_BuyTicketSheet> {
     if (await cache.hasEventPassword(widget.event.id)) {
       setState(() => _eventPasswordUnlocked = true);
     }
-    // Restore revealed hidden tickets from cache
-    for (final t in _ticketTypes) {
-      if (t.isHidden && await cache.hasTicketPassword(widget.event.id, t.id)) {
-        _revealedHiddenTickets.add(t.id);
-      }
-    }
-    if (mounted && _revealedHiddenTickets.isNotEmpty) setState(() {});
   }
 
   Future<void> _loadTicketData() async {
@@ -1068,6 +1072,8 @@ class _BuyTicketSheetState extends ConsumerState<_BuyTicketSheet> {
       // Always load ticket types; optionally load venue
       final futures = <Future>[
         (eventRepo as SupabaseEventRepository).getEventTicketTypes(widget.event.id),
+        eventRepo.hasHiddenTicketTypes(widget.event.id),
+        eventRepo.getEventTax(widget.event.id),
       ];
       if (_hasVenue) {
         final venueRepo = ref.read(venueRepositoryProvider);
@@ -1077,9 +1083,11 @@ class _BuyTicketSheetState extends ConsumerState<_BuyTicketSheet> {
       final results = await Future.wait(futures);
       if (mounted) {
         final types = results[0] as List<TicketType>;
-        final venue = _hasVenue ? results[1] as Venue? : null;
+        final venue = _hasVenue ? results[3] as Venue? : null;
         setState(() {
           _ticketTypes = types.where((t) => t.isActive).toList();
+          _eventHasHiddenTypes = results[1] as bool;
+          _tax = results[2] as EventTax;
           _venue = venue;
           // Initialize quantities
           for (final t in _ticketTypes) {
@@ -1096,22 +1104,71 @@ class _BuyTicketSheetState extends ConsumerState<_BuyTicketSheet> {
   }
 
   Future<void> _restoreCachedHiddenCodes() async {
-    final cache = PasswordCacheService.instance;
-    bool changed = false;
-    for (final t in _ticketTypes) {
-      if (t.isHidden && await cache.hasTicketPassword(widget.event.id, t.id)) {
+    if (!_eventHasHiddenTypes) return;
+    final codes =
+        await PasswordCacheService.instance.getTicketPasswords(widget.event.id);
+    for (final code in codes) {
+      await _unlockHiddenTypes(code);
+    }
+  }
+
+  /// Asks the server which hidden types [code] unlocks and adds them to the
+  /// sheet. Returns the newly revealed types.
+  Future<List<TicketType>> _unlockHiddenTypes(String code) async {
+    final repo = ref.read(eventRepositoryProvider) as SupabaseEventRepository;
+    final List<TicketType> unlocked;
+    try {
+      unlocked = await repo.unlockTicketTypes(widget.event.id, code);
+    } catch (_) {
+      return [];
+    }
+    final added = unlocked
+        .where((t) => !_revealedHiddenTickets.contains(t.id))
+        .toList();
+    if (unlocked.isEmpty || !mounted) return added;
+
+    setState(() {
+      _accessCodes.add(code);
+      for (final t in added) {
         _revealedHiddenTickets.add(t.id);
-        changed = true;
+        _ticketTypes.add(t);
+        _quantities[t.id] = 0;
       }
+      _ticketTypes.sort((a, b) => a.sortOrder.compareTo(b.sortOrder));
+    });
+    for (final t in unlocked) {
+      PasswordCacheService.instance
+          .saveTicketPassword(widget.event.id, t.id, code);
     }
-    if (mounted && changed) setState(() {});
+    return added;
+  }
+
+  /// Most tickets of [t] the steppers allow in this order.
+  int _maxFor(TicketType t) {
+    final limit = t.orderLimit;
+    return limit == null || limit > _maxTickets ? _maxTickets : limit;
+  }
+
+  /// Next quantity up: from zero straight to the type's per-order minimum.
+  VoidCallback? _incrementFor(TicketType t, int qty) {
+    if (!t.isOnSale) return null;
+    final next = qty == 0 ? t.minPerOrder : qty + 1;
+    if (next > _maxFor(t)) return null;
+    return () => setState(() => _quantities[t.id] = next);
+  }
+
+  /// Next quantity down: below the per-order minimum means none.
+  VoidCallback? _decrementFor(TicketType t, int qty) {
+    if (qty == 0) return null;
+    final next = qty <= t.minPerOrder ? 0 : qty - 1;
+    return () => setState(() => _quantities[t.id] = next);
   }
 
   int _totalCents() {
     if (_hasTicketTypes) {
       var total = 0;
       for (final t in _ticketTypes) {
-        total += (_quantities[t.id] ?? 0) * t.priceInCents;
+        total += t.priceForQuantity(_quantities[t.id] ?? 0);
       }
       return total;
     }
@@ -1138,7 +1195,7 @@ class _BuyTicketSheetState extends ConsumerState<_BuyTicketSheet> {
 
   String _formatPrice(int cents) {
     if (cents == 0) return 'Free';
-    return '\$${(cents / 100).toStringAsFixed(2)}';
+    return CurrencyFormatter.format(cents, currencyCode: widget.event.currency);
   }
 
   Set<String> get _highlightedSections {
@@ -1312,12 +1369,8 @@ class _BuyTicketSheetState extends ConsumerState<_BuyTicketSheet> {
                     quantity: qty,
                     sectionName: sectionName,
                     isHighlighted: isHighlighted,
-                    onIncrement: qty < _maxTickets
-                        ? () => setState(() => _quantities[t.id] = qty + 1)
-                        : null,
-                    onDecrement: qty > 0
-                        ? () => setState(() => _quantities[t.id] = qty - 1)
-                        : null,
+                    onIncrement: _incrementFor(t, qty),
+                    onDecrement: _decrementFor(t, qty),
                   ),
                 );
               }),
@@ -1350,12 +1403,8 @@ class _BuyTicketSheetState extends ConsumerState<_BuyTicketSheet> {
                       child: _RedeemableItemCard(
                         ticketType: t,
                         quantity: qty,
-                        onIncrement: qty < _maxTickets
-                            ? () => setState(() => _quantities[t.id] = qty + 1)
-                            : null,
-                        onDecrement: qty > 0
-                            ? () => setState(() => _quantities[t.id] = qty - 1)
-                            : null,
+                        onIncrement: _incrementFor(t, qty),
+                        onDecrement: _decrementFor(t, qty),
                       ),
                     );
                   })
@@ -1591,7 +1640,7 @@ class _BuyTicketSheetState extends ConsumerState<_BuyTicketSheet> {
     );
   }
 
-  void _tryEventPassword() {
+  Future<void> _tryEventPassword() async {
     final entered = _passwordController.text.trim();
     if (entered.isEmpty) {
       setState(() => _passwordError = 'Please enter a password');
@@ -1611,15 +1660,14 @@ class _BuyTicketSheetState extends ConsumerState<_BuyTicketSheet> {
     }
 
     // Check against any hidden ticket code (reveals it)
-    for (final t in _ticketTypes) {
-      if (t.isHidden &&
-          entered.toUpperCase() == t.accessPassword?.toUpperCase()) {
+    if (_eventHasHiddenTypes) {
+      final revealed = await _unlockHiddenTypes(entered);
+      if (!mounted) return;
+      if (revealed.isNotEmpty) {
         setState(() {
-          _revealedHiddenTickets.add(t.id);
           _passwordError = null;
           _passwordController.clear();
         });
-        PasswordCacheService.instance.saveTicketPassword(widget.event.id, t.id, entered);
         return;
       }
     }
@@ -1627,26 +1675,17 @@ class _BuyTicketSheetState extends ConsumerState<_BuyTicketSheet> {
     setState(() => _passwordError = 'Incorrect password');
   }
 
-  void _tryHiddenCode() {
+  Future<void> _tryHiddenCode() async {
     final entered = _hiddenCodeController.text.trim();
     if (entered.isEmpty) {
       setState(() => _hiddenCodeError = 'Enter a code');
       return;
     }
 
-    // Check each hidden ticket's code
-    bool found = false;
-    for (final t in _ticketTypes) {
-      if (t.isHidden &&
-          !_revealedHiddenTickets.contains(t.id) &&
-          entered.toUpperCase() == t.accessPassword?.toUpperCase()) {
-        _revealedHiddenTickets.add(t.id);
-        PasswordCacheService.instance.saveTicketPassword(widget.event.id, t.id, entered);
-        found = true;
-      }
-    }
+    final revealed = await _unlockHiddenTypes(entered);
+    if (!mounted) return;
 
-    if (found) {
+    if (revealed.isNotEmpty) {
       setState(() {
         _hiddenCodeError = null;
         _hiddenCodeController.clear();
@@ -1694,10 +1733,20 @@ class _BuyTicketSheetState extends ConsumerState<_BuyTicketSheet> {
     return map;
   }
 
+  /// The event with its tax setup, for checkout.
+  EventModel get _taxedEvent => widget.event.copyWith(
+        taxInclusive: _tax.inclusive,
+        taxRates: _tax.rates,
+      );
+
   Future<void> _checkout(BuildContext context) async {
     final baseTotalCents = _totalCents();
     final checkoutAmountCents = baseTotalCents > 0
-        ? ServiceFeeCalculator.calculate(baseTotalCents).totalCents
+        ? ServiceFeeCalculator.calculate(
+            baseTotalCents,
+            currency: widget.event.currency,
+            tax: _tax,
+          ).totalCents
         : 0;
 
     // Capture everything before popping the bottom sheet (context/ref become invalid after pop)
@@ -1768,12 +1817,13 @@ class _BuyTicketSheetState extends ConsumerState<_BuyTicketSheet> {
       if (seatSelections != null)
         'seat_selections': seatSelections.map((s) => s.toJson()).toList(),
       if (ticketItems.isNotEmpty) 'ticket_items': ticketItems,
+      if (_accessCodes.isNotEmpty) 'access_codes': _accessCodes.toList(),
     };
 
     navigator.push(
       MaterialPageRoute(
         builder: (_) => CheckoutScreen(
-          event: widget.event,
+          event: _taxedEvent,
           amountCents: checkoutAmountCents,
           paymentType: PaymentType.primaryPurchase,
           quantity: totalQty,
@@ -1791,7 +1841,11 @@ class _BuyTicketSheetState extends ConsumerState<_BuyTicketSheet> {
   ) async {
     final baseTotalCents = _totalCents();
     final checkoutAmountCents = baseTotalCents > 0
-        ? ServiceFeeCalculator.calculate(baseTotalCents).totalCents
+        ? ServiceFeeCalculator.calculate(
+            baseTotalCents,
+            currency: widget.event.currency,
+            tax: _tax,
+          ).totalCents
         : 0;
 
     // Hold the selected seats
@@ -1833,7 +1887,7 @@ class _BuyTicketSheetState extends ConsumerState<_BuyTicketSheet> {
     Navigator.of(context).push(
       MaterialPageRoute(
         builder: (_) => CheckoutScreen(
-          event: widget.event,
+          event: _taxedEvent,
           amountCents: checkoutAmountCents,
           paymentType: PaymentType.primaryPurchase,
           quantity: _totalQuantity(),
@@ -1843,6 +1897,7 @@ class _BuyTicketSheetState extends ConsumerState<_BuyTicketSheet> {
           metadata: {
             'seat_selections': selections.map((s) => s.toJson()).toList(),
             if (ticketItems.isNotEmpty) 'ticket_items': ticketItems,
+            if (_accessCodes.isNotEmpty) 'access_codes': _accessCodes.toList(),
           },
         ),
       ),
@@ -1951,6 +2006,7 @@ class _RedeemableItemCard extends StatelessWidget {
     final theme = Theme.of(context);
     final colorScheme = theme.colorScheme;
     final hasQty = quantity > 0;
+    final salesNote = _ticketSalesNote(ticketType);
 
     return AnimatedContainer(
       duration: const Duration(milliseconds: 200),
@@ -2007,6 +2063,16 @@ class _RedeemableItemCard extends StatelessWidget {
                     fontWeight: FontWeight.w600,
                   ),
                 ),
+                if (salesNote != null)
+                  Text(
+                    salesNote,
+                    style: theme.textTheme.bodySmall?.copyWith(
+                      color: ticketType.isOnSale
+                          ? colorScheme.tertiary
+                          : colorScheme.error,
+                      fontSize: 11,
+                    ),
+                  ),
               ],
             ),
           ),
@@ -2185,6 +2251,50 @@ class _HiddenCodeEntryField extends StatelessWidget {
   }
 }
 
+/// Sales window, price tier and order minimum of a ticket type, for the
+/// line under its price. Null when there is nothing to say.
+String? _ticketSalesNote(TicketType t) {
+  String dateText(DateTime d) {
+    final local = d.toLocal();
+    final months = [
+      L.tr('month_jan'), L.tr('month_feb'), L.tr('month_mar'),
+      L.tr('month_apr'), L.tr('month_may'), L.tr('month_jun'),
+      L.tr('month_jul'), L.tr('month_aug'), L.tr('month_sep'),
+      L.tr('month_oct'), L.tr('month_nov'), L.tr('month_dec'),
+    ];
+    final hour = local.hour > 12 ? local.hour - 12 : (local.hour == 0 ? 12 : local.hour);
+    final minute = local.minute.toString().padLeft(2, '0');
+    final period = local.hour >= 12 ? 'PM' : 'AM';
+    return '${months[local.month - 1]} ${local.day}, $hour:$minute $period';
+  }
+
+  switch (t.salesStatus) {
+    case TicketSalesStatus.scheduled:
+      return L.tr('ticket_sales_open_on', [dateText(t.salesStartAt!)]);
+    case TicketSalesStatus.ended:
+      return L.tr('ticket_sales_ended');
+    case TicketSalesStatus.soldOut:
+      return L.tr('sold_out');
+    case TicketSalesStatus.inactive:
+      return null;
+    case TicketSalesStatus.onSale:
+      break;
+  }
+
+  final notes = <String>[];
+  final tier = t.currentTier;
+  if (tier != null) {
+    final remaining = t.currentTierRemaining;
+    notes.add(remaining != null
+        ? L.tr('ticket_tier_remaining', [tier.name, remaining])
+        : L.tr('ticket_tier_until', [tier.name, dateText(tier.endsAt!)]));
+  }
+  if (t.minPerOrder > 1) {
+    notes.add(L.tr('ticket_min_per_order', [t.minPerOrder]));
+  }
+  return notes.isEmpty ? null : notes.join(' \u00b7 ');
+}
+
 class _VenueTicketTypeCard extends StatelessWidget {
   final TicketType ticketType;
   final int quantity;
@@ -2207,6 +2317,7 @@ class _VenueTicketTypeCard extends StatelessWidget {
     final theme = Theme.of(context);
     final colorScheme = theme.colorScheme;
     final hasQty = quantity > 0;
+    final salesNote = _ticketSalesNote(ticketType);
 
     return AnimatedContainer(
       duration: const Duration(milliseconds: 200),
@@ -2272,6 +2383,19 @@ class _VenueTicketTypeCard extends StatelessWidget {
                     ],
                   ],
                 ),
+                if (salesNote != null) ...[
+                  const SizedBox(height: 2),
+                  Text(
+                    salesNote,
+                    style: theme.textTheme.bodySmall?.copyWith(
+                      color: ticketType.isOnSale
+                          ? colorScheme.tertiary
+                          : colorScheme.error,
+                      fontSize: 11,
+                      fontWeight: FontWeight.w500,
+                    ),
+                  ),
+                ],
                 if (ticketType.description != null) ...[
                   const SizedBox(height: 2),
                   Text(
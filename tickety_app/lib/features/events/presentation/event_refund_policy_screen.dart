@@ -0,0 +1,661 @@
+import 'package:flutter/material.dart';
+import 'package:flutter/services.dart';
+import 'package:flutter_riverpod/flutter_riverpod.dart';
+
+import '../../../core/errors/errors.dart';
+import '../../../core/localization/localization.dart';
+import '../../../core/providers/providers.dart';
+import '../../payments/data/i_payment_repository.dart';
+import '../../payments/models/ticket_refund.dart';
+import '../data/supabase_event_repository.dart';
+import '../models/event_model.dart';
+import '../models/refund_policy.dart';
+
+/// Organizer screen for an event's refund policy (how much buyers get back
+/// depending on how close the event is) and the refund requests that fall
+/// outside it.
+class EventRefundPolicyScreen extends ConsumerStatefulWidget {
+  final EventModel event;
+
+  const EventRefundPolicyScreen({super.key, required this.event});
+
+  @override
+  ConsumerState<EventRefundPolicyScreen> createState() =>
+      _EventRefundPolicyScreenState();
+}
+
+class _EventRefundPolicyScreenState
+    extends ConsumerState<EventRefundPolicyScreen> {
+  final List<_TierFields> _tiers = [];
+  bool _refundFees = false;
+  int _openRequests = 0;
+  bool _isLoading = true;
+  bool _isSaving = false;
+  String? _error;
+
+  SupabaseEventRepository get _repo =>
+      ref.read(eventRepositoryProvider) as SupabaseEventRepository;
+
+  @override
+  void initState() {
+    super.initState();
+    _load();
+  }
+
+  @override
+  void dispose() {
+    for (final t in _tiers) {
+      t.dispose();
+    }
+    super.dispose();
+  }
+
+  Future<void> _load() async {
+    try {
+      final results = await Future.wait([
+        _repo.getRefundPolicy(widget.event.id),
+        ref
+            .read(paymentRepositoryProvider)
+            .getEventRefunds(widget.event.id, openOnly: true),
+      ]);
+      final policy = results[0] as RefundPolicy;
+      if (!mounted) return;
+      setState(() {
+        _refundFees = policy.refundFees;
+        _tiers.addAll(policy.tiers.map(_TierFields.fromTier));
+        _openRequests = (results[1] as List<TicketRefund>).length;
+        _isLoading = false;
+      });
+    } catch (_) {
+      if (mounted) {
+        setState(() {
+          _isLoading = false;
+          _error = L.tr('event_refund_save_failed');
+        });
+      }
+    }
+  }
+
+  /// The tiers as entered, or null (with [_error] set) when one is invalid.
+  List<RefundTier>? _parseTiers() {
+    final tiers = <RefundTier>[];
+    for (final fields in _tiers) {
+      final days = int.tryParse(fields.days.text.trim());
+      final percent = int.tryParse(fields.percent.text.trim());
+      if (days == null || days > 365 || percent == null || percent > 100) {
+        setState(() => _error = L.tr('event_refund_invalid_tier'));
+        return null;
+      }
+      if (tiers.any((t) => t.daysBefore == days)) {
+        setState(() => _error = L.tr('event_refund_duplicate_days'));
+        return null;
+      }
+      tiers.add(RefundTier(daysBefore: days, refundPercent: percent));
+    }
+    return tiers;
+  }
+
+  Future<void> _save() async {
+    final tiers = _parseTiers();
+    if (tiers == null) return;
+
+    setState(() {
+      _isSaving = true;
+      _error = null;
+    });
+    try {
+      await _repo.saveRefundPolicy(
+        widget.event.id,
+        RefundPolicy(tiers: tiers, refundFees: _refundFees),
+      );
+      if (!mounted) return;
+      setState(() => _isSaving = false);
+      ScaffoldMessenger.of(context).showSnackBar(
+        SnackBar(content: Text(L.tr('event_refund_saved'))),
+      );
+    } catch (_) {
+      if (mounted) {
+        setState(() {
+          _isSaving = false;
+          _error = L.tr('event_refund_save_failed');
+        });
+      }
+    }
+  }
+
+  void _addTier() {
+    setState(() => _tiers.add(_TierFields()));
+  }
+
+  void _removeTier(int index) {
+    final removed = _tiers.removeAt(index);
+    setState(() {});
+    // The fields still hold the controllers until the next frame
+    WidgetsBinding.instance.addPostFrameCallback((_) => removed.dispose());
+  }
+
+  /// The tiers as currently entered, in words, furthest out first.
+  List<String> get _summary {
+    final policy = RefundPolicy(tiers: [
+      for (final t in _tiers)
+        if (int.tryParse(t.days.text.trim()) != null &&
+            int.tryParse(t.percent.text.trim()) != null)
+          RefundTier(
+            daysBefore: int.parse(t.days.text.trim()),
+            refundPercent: int.parse(t.percent.text.trim()),
+          ),
+    ]);
+    if (policy.isEmpty) return const [];
+    return [
+      for (final tier in policy.tiers)
+        tier.daysBefore == 0
+            ? L.tr('event_refund_tier_summary_start', [tier.refundPercent])
+            : L.tr('event_refund_tier_summary',
+                [tier.refundPercent, tier.daysBefore]),
+      if (policy.tiers.last.daysBefore > 0) L.tr('event_refund_after_last'),
+    ];
+  }
+
+  Future<void> _showRequests() async {
+    await showModalBottomSheet(
+      context: context,
+      isScrollControlled: true,
+      backgroundColor: Colors.transparent,
+      builder: (context) => _RefundRequestsSheet(
+        eventId: widget.event.id,
+        repository: ref.read(paymentRepositoryProvider),
+      ),
+    );
+    final open = await ref
+        .read(paymentRepositoryProvider)
+        .getEventRefunds(widget.event.id, openOnly: true);
+    if (mounted) setState(() => _openRequests = open.length);
+  }
+
+  @override
+  Widget build(BuildContext context) {
+    final theme = Theme.of(context);
+    final colorScheme = theme.colorScheme;
+    final summary = _summary;
+    final digits = [FilteringTextInputFormatter.digitsOnly];
+
+    return Scaffold(
+      appBar: AppBar(
+        title: Text(L.tr('event_refund_title')),
+        actions: [
+          IconButton(
+            icon: Badge(
+              isLabelVisible: _openRequests > 0,
+              label: Text('$_openRequests'),
+              child: const Icon(Icons.inbox_outlined),
+            ),
+            tooltip: L.tr('event_refund_requests'),
+            onPressed: _showRequests,
+          ),
+        ],
+      ),
+      body: _isLoading
+          ? const Center(child: CircularProgressIndicator())
+          : ListView(
+              padding: const EdgeInsets.all(20),
+              children: [
+                Text(
+                  L.tr('event_refund_policy'),
+                  style: theme.textTheme.titleMedium?.copyWith(
+                    fontWeight: FontWeight.w600,
+                  ),
+                ),
+                const SizedBox(height: 4),
+                Text(
+                  L.tr('event_refund_policy_hint'),
+                  style: theme.textTheme.bodySmall?.copyWith(
+                    color: colorScheme.onSurfaceVariant,
+                  ),
+                ),
+                const SizedBox(height: 12),
+                if (_tiers.isEmpty)
+                  Text(
+                    L.tr('event_refund_no_tiers'),
+                    style: theme.textTheme.bodyMedium?.copyWith(
+                      color: colorScheme.onSurfaceVariant,
+                    ),
+                  ),
+                for (var i = 0; i < _tiers.length; i++)
+                  Padding(
+                    padding: const EdgeInsets.only(bottom: 12),
+                    child: Row(
+                      children: [
+                        Expanded(
+                          child: TextField(
+                            controller: _tiers[i].days,
+                            keyboardType: TextInputType.number,
+                            inputFormatters: digits,
+                            decoration: InputDecoration(
+                              labelText: L.tr('event_refund_days_before'),
+                              border: const OutlineInputBorder(),
+                            ),
+                            onChanged: (_) => setState(() {}),
+                          ),
+                        ),
+                        const SizedBox(width: 12),
+                        Expanded(
+                          child: TextField(
+                            controller: _tiers[i].percent,
+                            keyboardType: TextInputType.number,
+                            inputFormatters: digits,
+                            decoration: InputDecoration(
+                              labelText: L.tr('event_refund_percent'),
+                              suffixText: '%',
+                              border: const OutlineInputBorder(),
+                            ),
+                            onChanged: (_) => setState(() {}),
+                          ),
+                        ),
+                        IconButton(
+                          icon: const Icon(Icons.remove_circle_outline),
+                          onPressed: () => _removeTier(i),
+                        ),
+                      ],
+                    ),
+                  ),
+                Align(
+                  alignment: Alignment.centerLeft,
+                  child: TextButton.icon(
+                    onPressed: _addTier,
+                    icon: const Icon(Icons.add),
+                    label: Text(L.tr('event_refund_add_tier')),
+                  ),
+                ),
+                for (final line in summary)
+                  Padding(
+                    padding: const EdgeInsets.only(top: 4),
+                    child: Text(line, style: theme.textTheme.bodyMedium),
+                  ),
+                const SizedBox(height: 8),
+                SwitchListTile(
+                  contentPadding: EdgeInsets.zero,
+                  title: Text(L.tr('event_refund_fees')),
+                  subtitle: Text(L.tr('event_refund_fees_hint')),
+                  value: _refundFees,
+                  onChanged: (v) => setState(() => _refundFees = v),
+                ),
+                if (_error != null) ...[
+                  const SizedBox(height: 16),
+                  Text(
+                    _error!,
+                    style: TextStyle(color: colorScheme.error),
+                  ),
+                ],
+                const SizedBox(height: 24),
+                FilledButton(
+                  onPressed: _isSaving ? null : _save,
+                  child: _isSaving
+                      ? const SizedBox(
+                          width: 20,
+                          height: 20,
+                          child: CircularProgressIndicator(strokeWidth: 2),
+                        )
+                      : Text(L.tr('event_refund_save')),
+                ),
+              ],
+            ),
+    );
+  }
+}
+
+/// Text fields for one tier being edited.
+class _TierFields {
+  final TextEditingController days;
+  final TextEditingController percent;
+
+  _TierFields({String days = '', String percent = ''})
+      : days = TextEditingController(text: days),
+        percent = TextEditingController(text: percent);
+
+  factory _TierFields.fromTier(RefundTier tier) => _TierFields(
+        days: '${tier.daysBefore}',
+        percent: '${tier.refundPercent}',
+      );
+
+  void dispose() {
+    days.dispose();
+    percent.dispose();
+  }
+}
+
+// ============================================================
+// Refund Requests Sheet
+// ============================================================
+
+class _RefundRequestsSheet extends StatefulWidget {
+  final String eventId;
+  final IPaymentRepository repository;
+
+  const _RefundRequestsSheet({required this.eventId, required this.repository});
+
+  @override
+  State<_RefundRequestsSheet> createState() => _RefundRequestsSheetState();
+}
+
+class _RefundRequestsSheetState extends State<_RefundRequestsSheet> {
+  late Future<List<TicketRefund>> _requests;
+  String? _deciding;
+
+  @override
+  void initState() {
+    super.initState();
+    _requests = _load();
+  }
+
+  Future<List<TicketRefund>> _load() =>
+      widget.repository.getEventRefunds(widget.eventId, openOnly: true);
+
+  Future<void> _approve(TicketRefund request) async {
+    final choice = await showDialog<({int percent, bool includeFees})>(
+      context: context,
+      builder: (_) => const _ApproveRefundDialog(),
+    );
+    if (choice == null) return;
+    await _decide(
+      request,
+      () => widget.repository.decideRefundRequests(
+        [request.id],
+        approve: true,
+        percent: choice.percent,
+        includeFees: choice.includeFees,
+      ),
+      L.tr('event_refund_approved'),
+    );
+  }
+
+  Future<void> _decline(TicketRefund request) async {
+    final note = await showDialog<String>(
+      context: context,
+      builder: (_) => const _DeclineRefundDialog(),
+    );
+    if (note == null) return;
+    await _decide(
+      request,
+      () => widget.repository.decideRefundRequests(
+        [request.id],
+        approve: false,
+        note: note,
+      ),
+      L.tr('event_refund_declined'),
+    );
+  }
+
+  Future<void> _decide(
+    TicketRefund request,
+    Future<TicketRefundResult> Function() decision,
+    String doneMessage,
+  ) async {
+    if (!mounted) return;
+    setState(() => _deciding = request.id);
+    final messenger = ScaffoldMessenger.of(context);
+    try {
+      await decision();
+      messenger.showSnackBar(SnackBar(content: Text(doneMessage)));
+      if (!mounted) return;
+      setState(() {
+        _deciding = null;
+        _requests = _load();
+      });
+    } catch (e, s) {
+      final appError = ErrorHandler.normalize(e, s);
+      messenger.showSnackBar(SnackBar(content: Text(appError.userMessage)));
+      if (mounted) setState(() => _deciding = null);
+    }
+  }
+
+  @override
+  Widget build(BuildContext context) {
+    final theme = Theme.of(context);
+    final colorScheme = theme.colorScheme;
+    final localizations = MaterialLocalizations.of(context);
+
+    return Container(
+      constraints: BoxConstraints(
+        maxHeight: MediaQuery.of(context).size.height * 0.8,
+      ),
+      decoration: BoxDecoration(
+        color: colorScheme.surface,
+        borderRadius: const BorderRadius.vertical(top: Radius.circular(24)),
+      ),
+      padding: EdgeInsets.only(
+        left: 24,
+        right: 24,
+        top: 16,
+        bottom: MediaQuery.of(context).padding.bottom + 24,
+      ),
+      child: FutureBuilder<List<TicketRefund>>(
+        future: _requests,
+        builder: (context, snapshot) {
+          final requests = snapshot.data;
+          return Column(
+            mainAxisSize: MainAxisSize.min,
+            children: [
+              Container(
+                width: 40,
+                height: 4,
+                decoration: BoxDecoration(
+                  color: colorScheme.onSurfaceVariant.withValues(alpha: 0.3),
+                  borderRadius: BorderRadius.circular(2),
+                ),
+              ),
+              const SizedBox(height: 16),
+              Align(
+                alignment: Alignment.centerLeft,
+                child: Text(
+                  L.tr('event_refund_requests'),
+                  style: theme.textTheme.titleLarge?.copyWith(
+                    fontWeight: FontWeight.bold,
+                  ),
+                ),
+              ),
+              const SizedBox(height: 8),
+              if (snapshot.connectionState != ConnectionState.done)
+                const Padding(
+                  padding: EdgeInsets.all(32),
+                  child: CircularProgressIndicator(),
+                )
+              else if (snapshot.hasError)
+                Padding(
+                  padding: const EdgeInsets.all(24),
+                  child: Text(
+                    L.tr('event_refund_requests_failed'),
+                    style: TextStyle(color: colorScheme.error),
+                  ),
+                )
+              else if (requests!.isEmpty)
+                Padding(
+                  padding: const EdgeInsets.all(24),
+                  child: Text(L.tr('event_refund_requests_empty')),
+                )
+              else
+                Flexible(
+                  child: ListView.separated(
+                    shrinkWrap: true,
+                    itemCount: requests.length,
+                    separatorBuilder: (_, __) => Divider(
+                      height: 1,
+                      color: colorScheme.outlineVariant.withValues(alpha: 0.3),
+                    ),
+                    itemBuilder: (context, index) {
+                      final request = requests[index];
+                      final busy = _deciding == request.id;
+                      return Padding(
+                        padding: const EdgeInsets.symmetric(vertical: 12),
+                        child: Column(
+                          crossAxisAlignment: CrossAxisAlignment.start,
+                          children: [
+                            Text(
+                              L.tr('event_refund_request_row', [
+                                request.ticketNumber ?? '',
+                                localizations.formatMediumDate(
+                                  request.createdAt.toLocal(),
+                                ),
+                              ]),
+                              style: const TextStyle(fontWeight: FontWeight.bold),
+                            ),
+                            if (request.ownerName != null)
+                              Text(request.ownerName!),
+                            if (request.reason != null) ...[
+                              const SizedBox(height: 4),
+                              Text(
+                                request.reason!,
+                                style: theme.textTheme.bodySmall?.copyWith(
+                                  color: colorScheme.onSurfaceVariant,
+                                ),
+                              ),
+                            ],
+                            const SizedBox(height: 8),
+                            Row(
+                              mainAxisAlignment: MainAxisAlignment.end,
+                              children: [
+                                TextButton(
+                                  onPressed: busy
+                                      ? null
+                                      : () => _decline(request),
+                                  child: Text(L.tr('event_refund_decline')),
+                                ),
+                                const SizedBox(width: 8),
+                                FilledButton(
+                                  onPressed: busy
+                                      ? null
+                                      : () => _approve(request),
+                                  child: busy
+                                      ? const SizedBox(
+                                          width: 16,
+                                          height: 16,
+                                          child: CircularProgressIndicator(
+                                            strokeWidth: 2,
+                                          ),
+                                        )
+                                      : Text(L.tr('event_refund_approve')),
+                                ),
+                              ],
+                            ),
+                          ],
+                        ),
+                      );
+                    },
+                  ),
+                ),
+            ],
+          );
+        },
+      ),
+    );
+  }
+}
+
+/// Asks how much of a requested refund to give back.
+class _ApproveRefundDialog extends StatefulWidget {
+  const _ApproveRefundDialog();
+
+  @override
+  State<_ApproveRefundDialog> createState() => _ApproveRefundDialogState();
+}
+
+class _ApproveRefundDialogState extends State<_ApproveRefundDialog> {
+  final _percent = TextEditingController(text: '100');
+  bool _includeFees = true;
+
+  @override
+  void dispose() {
+    _percent.dispose();
+    super.dispose();
+  }
+
+  int? get _value {
+    final percent = int.tryParse(_percent.text.trim());
+    return percent != null && percent >= 1 && percent <= 100 ? percent : null;
+  }
+
+  @override
+  Widget build(BuildContext context) {
+    return AlertDialog(
+      title: Text(L.tr('event_refund_approve_title')),
+      content: Column(
+        mainAxisSize: MainAxisSize.min,
+        children: [
+          TextField(
+            controller: _percent,
+            keyboardType: TextInputType.number,
+            inputFormatters: [FilteringTextInputFormatter.digitsOnly],
+            decoration: InputDecoration(
+              labelText: L.tr('event_refund_approve_percent'),
+              suffixText: '%',
+              border: const OutlineInputBorder(),
+            ),
+            onChanged: (_) => setState(() {}),
+          ),
+          SwitchListTile(
+            contentPadding: EdgeInsets.zero,
+            title: Text(L.tr('event_refund_fees')),
+            value: _includeFees,
+            onChanged: (v) => setState(() => _includeFees = v),
+          ),
+        ],
+      ),
+      actions: [
+        TextButton(
+          onPressed: () => Navigator.of(context).pop(),
+          child: Text(L.tr('cancel')),
+        ),
+        FilledButton(
+          onPressed: _value == null
+              ? null
+              : () => Navigator.of(context)
+                  .pop((percent: _value!, includeFees: _includeFees)),
+          child: Text(L.tr('event_refund_approve')),
+        ),
+      ],
+    );
+  }
+}
+
+/// Asks for an optional note to the buyer when declining.
+class _DeclineRefundDialog extends StatefulWidget {
+  const _DeclineRefundDialog();
+
+  @override
+  State<_DeclineRefundDialog> createState() => _DeclineRefundDialogState();
+}
+
+class _DeclineRefundDialogState extends State<_DeclineRefundDialog> {
+  final _note = TextEditingController();
+
+  @override
+  void dispose() {
+    _note.dispose();
+    super.dispose();
+  }
+
+  @override
+  Widget build(BuildContext context) {
+    return AlertDialog(
+      title: Text(L.tr('event_refund_decline_title')),
+      content: TextField(
+        controller: _note,
+        maxLength: 500,
+        maxLines: 3,
+        decoration: InputDecoration(
+          labelText: L.tr('event_refund_decline_note'),
+          border: const OutlineInputBorder(),
+        ),
+      ),
+      actions: [
+        TextButton(
+          onPressed: () => Navigator.of(context).pop(),
+          child: Text(L.tr('cancel')),
+        ),
+        FilledButton(
+          onPressed: () => Navigator.of(context).pop(_note.text),
+          child: Text(L.tr('event_refund_decline')),
+        ),
+      ],
+    );
+  }
+}
@@ -0,0 +1,398 @@
+import 'package:flutter/material.dart';
+import 'package:flutter/services.dart';
+import 'package:flutter_riverpod/flutter_riverpod.dart';
+
+import '../../../core/localization/localization.dart';
+import '../../../core/providers/providers.dart';
+import '../../../core/utils/currency_formatter.dart';
+import '../../payments/presentation/seller_onboarding_screen.dart';
+import '../data/supabase_event_repository.dart';
+import '../models/event_model.dart';
+import '../models/resale_policy.dart';
+
+/// Organizer screen for an event's resale rules: price cap and minimum as a
+/// share of face value, a royalty on each resale, and when resale is open.
+class EventResalePolicyScreen extends ConsumerStatefulWidget {
+  final EventModel event;
+
+  const EventResalePolicyScreen({super.key, required this.event});
+
+  @override
+  ConsumerState<EventResalePolicyScreen> createState() =>
+      _EventResalePolicyScreenState();
+}
+
+class _EventResalePolicyScreenState
+    extends ConsumerState<EventResalePolicyScreen> {
+  /// Choices for when resale closes, in minutes before the event.
+  final List<int?> _closeOptions = [null, 0, 60, 120, 240, 1440, 2880];
+
+  final _maxPercent = TextEditingController();
+  final _minPercent = TextEditingController();
+  final _royaltyPercent = TextEditingController();
+  bool _faceValueOnly = false;
+  DateTime? _opensAt;
+  int? _closesMinutesBefore;
+  bool _hasPayoutAccount = true;
+  bool _isLoading = true;
+  bool _isSaving = false;
+  String? _error;
+
+  SupabaseEventRepository get _repo =>
+      ref.read(eventRepositoryProvider) as SupabaseEventRepository;
+
+  @override
+  void initState() {
+    super.initState();
+    _load();
+  }
+
+  @override
+  void dispose() {
+    _maxPercent.dispose();
+    _minPercent.dispose();
+    _royaltyPercent.dispose();
+    super.dispose();
+  }
+
+  Future<void> _load() async {
+    try {
+      final results = await Future.wait([
+        _repo.getResalePolicy(widget.event.id),
+        ref.read(resaleRepositoryProvider).hasSellerAccount(),
+      ]);
+      final policy = results[0] as ResalePolicy;
+      if (!mounted) return;
+      setState(() {
+        _faceValueOnly = policy.isFaceValueOnly;
+        if (!policy.isFaceValueOnly && policy.maxPricePercent != null) {
+          _maxPercent.text = '${policy.maxPricePercent}';
+        }
+        if (policy.minPricePercent != null) {
+          _minPercent.text = '${policy.minPricePercent}';
+        }
+        if (policy.royaltyBps > 0) {
+          _royaltyPercent.text = _formatBps(policy.royaltyBps);
+        }
+        _opensAt = policy.opensAt?.toLocal();
+        _closesMinutesBefore = policy.closesMinutesBefore;
+        if (!_closeOptions.contains(_closesMinutesBefore)) {
+          _closeOptions
+            ..add(_closesMinutesBefore)
+            ..sort((a, b) => (a ?? -1).compareTo(b ?? -1));
+        }
+        _hasPayoutAccount = results[1] as bool;
+        _isLoading = false;
+      });
+    } catch (_) {
+      if (mounted) {
+        setState(() {
+          _isLoading = false;
+          _error = L.tr('event_resale_save_failed');
+        });
+      }
+    }
+  }
+
+  static String _formatBps(int bps) =>
+      (bps / 100).toStringAsFixed(2).replaceFirst(RegExp(r'\.?0+$'), '');
+
+  int? _parsePercent(TextEditingController controller) =>
+      int.tryParse(controller.text.trim());
+
+  int _royaltyBps() {
+    final percent =
+        double.tryParse(_royaltyPercent.text.trim().replaceAll(',', '.'));
+    return percent == null ? 0 : (percent * 100).round();
+  }
+
+  /// The policy as entered, or null (with [_error] set) when it is invalid.
+  ResalePolicy? _parsePolicy() {
+    final max = _faceValueOnly ? 100 : _parsePercent(_maxPercent);
+    final min = _parsePercent(_minPercent);
+    final royaltyBps = _royaltyBps();
+
+    if (max != null && (max < 1 || max > 1000)) {
+      setState(() => _error = L.tr('event_resale_invalid_max'));
+      return null;
+    }
+    if (min != null && (min > 1000 || (max != null && min > max))) {
+      setState(() => _error = L.tr('event_resale_invalid_min'));
+      return null;
+    }
+    if (royaltyBps < 0 || royaltyBps > 5000) {
+      setState(() => _error = L.tr('event_resale_invalid_royalty'));
+      return null;
+    }
+    return ResalePolicy(
+      maxPricePercent: max,
+      minPricePercent: min,
+      royaltyBps: royaltyBps,
+      opensAt: _opensAt,
+      closesMinutesBefore: _closesMinutesBefore,
+    );
+  }
+
+  Future<void> _save() async {
+    final policy = _parsePolicy();
+    if (policy == null) return;
+
+    setState(() {
+      _isSaving = true;
+      _error = null;
+    });
+    try {
+      await _repo.saveResalePolicy(widget.event.id, policy);
+      if (!mounted) return;
+      setState(() => _isSaving = false);
+      ScaffoldMessenger.of(context).showSnackBar(
+        SnackBar(content: Text(L.tr('event_resale_saved'))),
+      );
+    } catch (_) {
+      if (mounted) {
+        setState(() {
+          _isSaving = false;
+          _error = L.tr('event_resale_save_failed');
+        });
+      }
+    }
+  }
+
+  Future<void> _pickOpensAt() async {
+    final now = DateTime.now();
+    final eventDate = widget.event.date;
+    final initial = _opensAt ?? (now.isAfter(eventDate) ? eventDate : now);
+    final date = await showDatePicker(
+      context: context,
+      initialDate: initial.isAfter(eventDate) ? eventDate : initial,
+      firstDate: DateTime(now.year - 1),
+      lastDate: eventDate,
+    );
+    if (date == null || !mounted) return;
+    final time = await showTimePicker(
+      context: context,
+      initialTime: TimeOfDay.fromDateTime(initial),
+    );
+    if (time == null) return;
+    setState(() {
+      _opensAt =
+          DateTime(date.year, date.month, date.day, time.hour, time.minute);
+    });
+  }
+
+  String _closeLabel(int? minutes) {
+    if (minutes == null) return L.tr('event_resale_closes_never');
+    if (minutes == 0) return L.tr('event_resale_closes_at_start');
+    if (minutes % 1440 == 0) {
+      return L.tr('event_resale_closes_days_before', ['${minutes ~/ 1440}']);
+    }
+    return L.tr('event_resale_closes_hours_before', ['${minutes ~/ 60}']);
+  }
+
+  /// "A $25.00 ticket can be resold for $12.50 to $30.00; you get $0.75 of
+  /// a $30.00 resale", for the event's listed price and the rules as
+  /// currently entered.
+  String? get _example {
+    final price = widget.event.priceInCents ?? 0;
+    if (price <= 0) return null;
+    final policy = ResalePolicy(
+      maxPricePercent: _faceValueOnly ? 100 : _parsePercent(_maxPercent),
+      minPricePercent: _parsePercent(_minPercent),
+      royaltyBps: _royaltyBps(),
+    );
+    if (!policy.hasRules) return null;
+
+    final limits = policy.limitsFor(price);
+    final top = limits.maxCents ?? price;
+    String format(int cents) =>
+        CurrencyFormatter.format(cents, currencyCode: widget.event.currency);
+    return L.tr('event_resale_example', [
+      format(price),
+      format(limits.minCents ?? 0),
+      limits.maxCents != null
+          ? format(limits.maxCents!)
+          : L.tr('event_resale_any_price'),
+      format(policy.royaltyCents(top)),
+      format(top),
+    ]);
+  }
+
+  @override
+  Widget build(BuildContext context) {
+    final theme = Theme.of(context);
+    final colorScheme = theme.colorScheme;
+    final localizations = MaterialLocalizations.of(context);
+    final example = _example;
+    final percentFormatters = [FilteringTextInputFormatter.digitsOnly];
+
+    return Scaffold(
+      appBar: AppBar(title: Text(L.tr('event_resale_title'))),
+      body: _isLoading
+          ? const Center(child: CircularProgressIndicator())
+          : ListView(
+              padding: const EdgeInsets.all(20),
+              children: [
+                Text(
+                  L.tr('event_resale_price_limits'),
+                  style: theme.textTheme.titleMedium?.copyWith(
+                    fontWeight: FontWeight.w600,
+                  ),
+                ),
+                SwitchListTile(
+                  contentPadding: EdgeInsets.zero,
+                  title: Text(L.tr('event_resale_face_value_only')),
+                  subtitle: Text(L.tr('event_resale_face_value_only_hint')),
+                  value: _faceValueOnly,
+                  onChanged: (v) => setState(() => _faceValueOnly = v),
+                ),
+                if (!_faceValueOnly) ...[
+                  const SizedBox(height: 8),
+                  TextField(
+                    controller: _maxPercent,
+                    keyboardType: TextInputType.number,
+                    inputFormatters: percentFormatters,
+                    decoration: InputDecoration(
+                      labelText: L.tr('event_resale_max_percent'),
+                      hintText: L.tr('event_resale_no_cap'),
+                      suffixText: '%',
+                      border: const OutlineInputBorder(),
+                    ),
+                    onChanged: (_) => setState(() {}),
+                  ),
+                ],
+                const SizedBox(height: 16),
+                TextField(
+                  controller: _minPercent,
+                  keyboardType: TextInputType.number,
+                  inputFormatters: percentFormatters,
+                  decoration: InputDecoration(
+                    labelText: L.tr('event_resale_min_percent'),
+                    hintText: L.tr('event_resale_no_minimum'),
+                    suffixText: '%',
+                    border: const OutlineInputBorder(),
+                  ),
+                  onChanged: (_) => setState(() {}),
+                ),
+                const SizedBox(height: 24),
+                Text(
+                  L.tr('event_resale_royalty'),
+                  style: theme.textTheme.titleMedium?.copyWith(
+                    fontWeight: FontWeight.w600,
+                  ),
+                ),
+                const SizedBox(height: 12),
+                TextField(
+                  controller: _royaltyPercent,
+                  keyboardType:
+                      const TextInputType.numberWithOptions(decimal: true),
+                  inputFormatters: [
+                    FilteringTextInputFormatter.allow(RegExp(r'[0-9.,]')),
+                  ],
+                  decoration: InputDecoration(
+                    labelText: L.tr('event_resale_royalty_percent'),
+                    helperText: L.tr('event_resale_royalty_hint'),
+                    helperMaxLines: 2,
+                    suffixText: '%',
+                    border: const OutlineInputBorder(),
+                  ),
+                  onChanged: (_) => setState(() {}),
+                ),
+                if (_royaltyBps() > 0 && !_hasPayoutAccount) ...[
+                  const SizedBox(height: 8),
+                  Row(
+                    children: [
+                      Icon(Icons.warning_amber_rounded,
+                          size: 18, color: colorScheme.error),
+                      const SizedBox(width: 8),
+                      Expanded(
+                        child: Text(
+                          L.tr('event_resale_royalty_needs_payout'),
+                          style: theme.textTheme.bodySmall?.copyWith(
+                            color: colorScheme.error,
+                          ),
+                        ),
+                      ),
+                      TextButton(
+                        onPressed: () => Navigator.of(context).push(
+                          MaterialPageRoute(
+                            builder: (_) => const SellerOnboardingScreen(),
+                          ),
+                        ),
+                        child: Text(L.tr('event_resale_set_up_payouts')),
+                      ),
+                    ],
+                  ),
+                ],
+                if (example != null) ...[
+                  const SizedBox(height: 16),
+                  Text(example, style: theme.textTheme.bodyMedium),
+                ],
+                const SizedBox(height: 24),
+                Text(
+                  L.tr('event_resale_window'),
+                  style: theme.textTheme.titleMedium?.copyWith(
+                    fontWeight: FontWeight.w600,
+                  ),
+                ),
+                ListTile(
+                  contentPadding: EdgeInsets.zero,
+                  title: Text(L.tr('event_resale_opens')),
+                  subtitle: Text(
+                    _opensAt == null
+                        ? L.tr('event_resale_opens_now')
+                        : '${localizations.formatMediumDate(_opensAt!)} '
+                            '${localizations.formatTimeOfDay(TimeOfDay.fromDateTime(_opensAt!))}',
+                  ),
+                  trailing: _opensAt == null
+                      ? const Icon(Icons.event)
+                      : IconButton(
+                          icon: const Icon(Icons.clear),
+                          onPressed: () => setState(() => _opensAt = null),
+                        ),
+                  onTap: _pickOpensAt,
+                ),
+                DropdownButtonFormField<int?>(
+                  value: _closesMinutesBefore,
+                  decoration: InputDecoration(
+                    labelText: L.tr('event_resale_closes'),
+                    border: const OutlineInputBorder(),
+                  ),
+                  items: [
+                    for (final minutes in _closeOptions)
+                      DropdownMenuItem(
+                        value: minutes,
+                        child: Text(_closeLabel(minutes)),
+                      ),
+                  ],
+                  onChanged: (v) => setState(() => _closesMinutesBefore = v),
+                ),
+                const SizedBox(height: 8),
+                Text(
+                  L.tr('event_resale_applies_to_listed'),
+                  style: theme.textTheme.bodySmall?.copyWith(
+                    color: colorScheme.onSurfaceVariant,
+                  ),
+                ),
+                if (_error != null) ...[
+                  const SizedBox(height: 16),
+                  Text(
+                    _error!,
+                    style: TextStyle(color: colorScheme.error),
+                  ),
+                ],
+                const SizedBox(height: 24),
+                FilledButton(
+                  onPressed: _isSaving ? null : _save,
+                  child: _isSaving
+                      ? const SizedBox(
+                          width: 20,
+                          height: 20,
+                          child: CircularProgressIndicator(strokeWidth: 2),
+                        )
+                      : Text(L.tr('event_resale_save')),
+                ),
+              ],
+            ),
+    );
+  }
+}
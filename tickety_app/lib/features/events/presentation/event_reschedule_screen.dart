@@ -0,0 +1,319 @@
+import 'package:flutter/material.dart';
+import 'package:flutter_riverpod/flutter_riverpod.dart';
+
+import '../../../core/errors/errors.dart';
+import '../../../core/localization/localization.dart';
+import '../../../core/providers/providers.dart';
+import '../data/supabase_event_repository.dart';
+import '../models/event_model.dart';
+import '../models/event_reschedule.dart';
+
+/// Organizer screen for moving an event to a new date. Tickets stay valid;
+/// holders are told, and may get a full refund for a while if they can't
+/// make it.
+class EventRescheduleScreen extends ConsumerStatefulWidget {
+  final EventModel event;
+
+  const EventRescheduleScreen({super.key, required this.event});
+
+  @override
+  ConsumerState<EventRescheduleScreen> createState() =>
+      _EventRescheduleScreenState();
+}
+
+class _EventRescheduleScreenState extends ConsumerState<EventRescheduleScreen> {
+  /// Refund window choices in days; 0 opens none.
+  static const _refundDayOptions = [0, 3, 7, 14, 30];
+
+  final _reason = TextEditingController();
+  late DateTime _currentDate = widget.event.date;
+  DateTime? _newDate;
+  int _refundDays = 14;
+  List<EventReschedule> _history = const [];
+  bool _isSaving = false;
+  String? _error;
+
+  SupabaseEventRepository get _repo =>
+      ref.read(eventRepositoryProvider) as SupabaseEventRepository;
+
+  @override
+  void initState() {
+    super.initState();
+    _loadHistory();
+  }
+
+  @override
+  void dispose() {
+    _reason.dispose();
+    super.dispose();
+  }
+
+  Future<void> _loadHistory() async {
+    try {
+      final history = await _repo.getReschedules(widget.event.id);
+      if (mounted) setState(() => _history = history);
+    } catch (_) {
+      // The history just stays empty
+    }
+  }
+
+  /// When the refund window closes: [_refundDays] from now, but never after
+  /// the new date.
+  DateTime? get _refundUntil {
+    final newDate = _newDate;
+    if (newDate == null || _refundDays == 0) return null;
+    final until = DateTime.now().add(Duration(days: _refundDays));
+    return until.isAfter(newDate) ? newDate : until;
+  }
+
+  Future<void> _pickNewDate() async {
+    final now = DateTime.now();
+    final initial = _newDate ?? (_currentDate.isAfter(now) ? _currentDate : now);
+    final date = await showDatePicker(
+      context: context,
+      initialDate: initial,
+      firstDate: now,
+      lastDate: DateTime(now.year + 3),
+    );
+    if (date == null || !mounted) return;
+    final time = await showTimePicker(
+      context: context,
+      initialTime: TimeOfDay.fromDateTime(initial),
+    );
+    if (time == null) return;
+    setState(() {
+      _newDate =
+          DateTime(date.year, date.month, date.day, time.hour, time.minute);
+      _error = null;
+    });
+  }
+
+  Future<void> _submit() async {
+    final newDate = _newDate;
+    if (newDate == null) {
+      setState(() => _error = L.tr('event_reschedule_pick_date'));
+      return;
+    }
+    if (!newDate.isAfter(DateTime.now())) {
+      setState(() => _error = L.tr('event_reschedule_date_in_past'));
+      return;
+    }
+
+    final confirmed = await showDialog<bool>(
+      context: context,
+      builder: (ctx) => AlertDialog(
+        title: Text(L.tr('event_reschedule_confirm_title')),
+        content: Text(L.tr('event_reschedule_confirm_body', [
+          widget.event.title,
+          _formatDateTime(newDate),
+        ])),
+        actions: [
+          TextButton(
+            onPressed: () => Navigator.pop(ctx, false),
+            child: Text(L.tr('cancel')),
+          ),
+          FilledButton(
+            onPressed: () => Navigator.pop(ctx, true),
+            child: Text(L.tr('event_reschedule_submit')),
+          ),
+        ],
+      ),
+    );
+    if (confirmed != true || !mounted) return;
+
+    setState(() {
+      _isSaving = true;
+      _error = null;
+    });
+    try {
+      final reason = _reason.text.trim();
+      final reschedule = await _repo.rescheduleEvent(
+        widget.event.id,
+        newDate,
+        reason: reason.isEmpty ? null : reason,
+        refundUntil: _refundUntil,
+      );
+      if (!mounted) return;
+      setState(() {
+        _isSaving = false;
+        _currentDate = reschedule.newDate.toLocal();
+        _newDate = null;
+        _reason.clear();
+        _history = [reschedule, ..._history];
+      });
+      ScaffoldMessenger.of(context).showSnackBar(
+        SnackBar(
+          content: Text(L.tr('event_reschedule_done', [
+            reschedule.notifiedHolders,
+          ])),
+        ),
+      );
+    } catch (e, s) {
+      if (!mounted) return;
+      setState(() {
+        _isSaving = false;
+        _error = ErrorHandler.normalize(e, s).userMessage;
+      });
+    }
+  }
+
+  String _formatDateTime(DateTime date) {
+    final localizations = MaterialLocalizations.of(context);
+    final local = date.toLocal();
+    return '${localizations.formatMediumDate(local)} '
+        '${localizations.formatTimeOfDay(TimeOfDay.fromDateTime(local))}';
+  }
+
+  String _refundLabel(int days) => days == 0
+      ? L.tr('event_reschedule_no_refund_window')
+      : L.tr('event_reschedule_refund_days', [days]);
+
+  @override
+  Widget build(BuildContext context) {
+    final theme = Theme.of(context);
+    final colorScheme = theme.colorScheme;
+    final refundUntil = _refundUntil;
+
+    return Scaffold(
+      appBar: AppBar(title: Text(L.tr('event_reschedule_title'))),
+      body: ListView(
+        padding: const EdgeInsets.all(20),
+        children: [
+          Text(widget.event.title, style: theme.textTheme.titleLarge),
+          const SizedBox(height: 4),
+          Text(
+            L.tr('event_reschedule_current_date', [_formatDateTime(_currentDate)]),
+            style: theme.textTheme.bodyMedium?.copyWith(
+              color: colorScheme.onSurfaceVariant,
+            ),
+          ),
+          const SizedBox(height: 16),
+          ListTile(
+            contentPadding: EdgeInsets.zero,
+            title: Text(L.tr('event_reschedule_new_date')),
+            subtitle: Text(
+              _newDate == null
+                  ? L.tr('event_reschedule_pick_date')
+                  : _formatDateTime(_newDate!),
+            ),
+            trailing: const Icon(Icons.event),
+            onTap: _isSaving ? null : _pickNewDate,
+          ),
+          const SizedBox(height: 8),
+          DropdownButtonFormField<int>(
+            value: _refundDays,
+            decoration: InputDecoration(
+              labelText: L.tr('event_reschedule_refund_window'),
+              border: const OutlineInputBorder(),
+            ),
+            items: [
+              for (final days in _refundDayOptions)
+                DropdownMenuItem(value: days, child: Text(_refundLabel(days))),
+            ],
+            onChanged: (v) => setState(() => _refundDays = v ?? 0),
+          ),
+          const SizedBox(height: 8),
+          Text(
+            refundUntil != null
+                ? L.tr('event_reschedule_refund_hint', [_formatDateTime(refundUntil)])
+                : L.tr('event_reschedule_no_refund_hint'),
+            style: theme.textTheme.bodySmall?.copyWith(
+              color: colorScheme.onSurfaceVariant,
+            ),
+          ),
+          const SizedBox(height: 16),
+          TextField(
+            controller: _reason,
+            maxLength: 500,
+            maxLines: 2,
+            decoration: InputDecoration(
+              labelText: L.tr('event_reschedule_reason'),
+              border: const OutlineInputBorder(),
+            ),
+          ),
+          const SizedBox(height: 8),
+          Text(
+            L.tr('event_reschedule_what_happens'),
+            style: theme.textTheme.bodySmall?.copyWith(
+              color: colorScheme.onSurfaceVariant,
+            ),
+          ),
+          if (_error != null) ...[
+            const SizedBox(height: 16),
+            Text(_error!, style: TextStyle(color: colorScheme.error)),
+          ],
+          const SizedBox(height: 24),
+          FilledButton.icon(
+            onPressed: _isSaving ? null : _submit,
+            icon: _isSaving
+                ? const SizedBox(
+                    width: 18,
+                    height: 18,
+                    child: CircularProgressIndicator(strokeWidth: 2),
+                  )
+                : const Icon(Icons.event_repeat),
+            label: Text(L.tr('event_reschedule_submit')),
+            style: FilledButton.styleFrom(
+              minimumSize: const Size.fromHeight(48),
+            ),
+          ),
+          if (_history.isNotEmpty) ...[
+            const SizedBox(height: 32),
+            Text(
+              L.tr('event_reschedule_history'),
+              style: theme.textTheme.titleMedium?.copyWith(
+                fontWeight: FontWeight.w600,
+              ),
+            ),
+            const SizedBox(height: 8),
+            for (final reschedule in _history)
+              _RescheduleTile(
+                reschedule: reschedule,
+                formatDateTime: _formatDateTime,
+              ),
+          ],
+        ],
+      ),
+    );
+  }
+}
+
+class _RescheduleTile extends StatelessWidget {
+  final EventReschedule reschedule;
+  final String Function(DateTime) formatDateTime;
+
+  const _RescheduleTile({
+    required this.reschedule,
+    required this.formatDateTime,
+  });
+
+  @override
+  Widget build(BuildContext context) {
+    final theme = Theme.of(context);
+    final previous = reschedule.previousDate;
+    final details = [
+      if (reschedule.refundUntil != null)
+        L.tr('event_reschedule_refunds_until', [
+          formatDateTime(reschedule.refundUntil!),
+        ]),
+      L.tr('event_reschedule_counts', [
+        reschedule.notifiedHolders,
+        reschedule.walletPassesUpdated,
+        reschedule.nftRefreshes,
+      ]),
+      if (reschedule.reason != null) reschedule.reason!,
+    ];
+
+    return ListTile(
+      contentPadding: EdgeInsets.zero,
+      leading: const Icon(Icons.history),
+      title: Text(
+        previous != null
+            ? '${formatDateTime(previous)} → ${formatDateTime(reschedule.newDate)}'
+            : formatDateTime(reschedule.newDate),
+      ),
+      subtitle: Text(details.join('\n'), style: theme.textTheme.bodySmall),
+      isThreeLine: details.length > 1,
+    );
+  }
+}
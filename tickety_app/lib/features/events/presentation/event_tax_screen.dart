@@ -0,0 +1,508 @@
+import 'package:flutter/material.dart';
+import 'package:flutter/services.dart';
+import 'package:flutter_riverpod/flutter_riverpod.dart';
+import 'package:share_plus/share_plus.dart';
+
+import '../../../core/localization/localization.dart';
+import '../../../core/providers/providers.dart';
+import '../../../core/utils/currency_formatter.dart';
+import '../data/supabase_event_repository.dart';
+import '../models/event_model.dart';
+import '../models/event_tax.dart';
+
+/// Organizer screen for an event's sales tax / VAT rates, whether its
+/// prices include tax, and the tax report.
+class EventTaxScreen extends ConsumerStatefulWidget {
+  final EventModel event;
+
+  const EventTaxScreen({super.key, required this.event});
+
+  @override
+  ConsumerState<EventTaxScreen> createState() => _EventTaxScreenState();
+}
+
+class _EventTaxScreenState extends ConsumerState<EventTaxScreen> {
+  final List<_RateFields> _rates = [];
+  bool _inclusive = false;
+  bool _isLoading = true;
+  bool _isSaving = false;
+  String? _error;
+
+  SupabaseEventRepository get _repo =>
+      ref.read(eventRepositoryProvider) as SupabaseEventRepository;
+
+  @override
+  void initState() {
+    super.initState();
+    _load();
+  }
+
+  @override
+  void dispose() {
+    for (final r in _rates) {
+      r.dispose();
+    }
+    super.dispose();
+  }
+
+  Future<void> _load() async {
+    try {
+      final tax = await _repo.getEventTax(widget.event.id);
+      if (!mounted) return;
+      setState(() {
+        _inclusive = tax.inclusive;
+        _rates.addAll(tax.rates.map(_RateFields.fromRate));
+        _isLoading = false;
+      });
+    } catch (_) {
+      if (mounted) {
+        setState(() {
+          _isLoading = false;
+          _error = L.tr('event_tax_save_failed');
+        });
+      }
+    }
+  }
+
+  /// The rates as entered, or null (with [_error] set) when one is invalid.
+  List<EventTaxRate>? _parseRates() {
+    final rates = <EventTaxRate>[];
+    for (final fields in _rates) {
+      final name = fields.name.text.trim();
+      final percent =
+          double.tryParse(fields.percent.text.trim().replaceAll(',', '.'));
+      final bps = percent == null ? null : (percent * 100).round();
+      if (name.isEmpty || bps == null || bps <= 0) {
+        setState(() => _error = L.tr('event_tax_invalid_rate'));
+        return null;
+      }
+      rates.add(EventTaxRate(name: name, rateBps: bps, sortOrder: rates.length));
+    }
+    if (rates.fold(0, (sum, r) => sum + r.rateBps) > 10000) {
+      setState(() => _error = L.tr('event_tax_total_too_high'));
+      return null;
+    }
+    return rates;
+  }
+
+  Future<void> _save() async {
+    final rates = _parseRates();
+    if (rates == null) return;
+
+    setState(() {
+      _isSaving = true;
+      _error = null;
+    });
+    try {
+      await _repo.saveEventTax(
+        widget.event.id,
+        EventTax(inclusive: _inclusive, rates: rates),
+      );
+      if (!mounted) return;
+      setState(() => _isSaving = false);
+      ScaffoldMessenger.of(context).showSnackBar(
+        SnackBar(content: Text(L.tr('event_tax_saved'))),
+      );
+    } catch (_) {
+      if (mounted) {
+        setState(() {
+          _isSaving = false;
+          _error = L.tr('event_tax_save_failed');
+        });
+      }
+    }
+  }
+
+  void _addRate() {
+    setState(() => _rates.add(_RateFields()));
+  }
+
+  void _removeRate(int index) {
+    final removed = _rates.removeAt(index);
+    setState(() {});
+    // The fields still hold the controllers until the next frame
+    WidgetsBinding.instance.addPostFrameCallback((_) => removed.dispose());
+  }
+
+  /// "A $10.00 ticket: buyer pays $10.83, of which $0.83 is tax", for the
+  /// event's listed price with the rates as currently entered.
+  String? get _example {
+    final price = widget.event.priceInCents ?? 0;
+    if (price <= 0) return null;
+    final rates = [
+      for (final r in _rates)
+        EventTaxRate(
+          name: r.name.text,
+          rateBps: ((double.tryParse(r.percent.text.replaceAll(',', '.')) ?? 0) *
+                  100)
+              .round(),
+        ),
+    ];
+    final tax = TaxCalculator.calculate(
+      price,
+      EventTax(inclusive: _inclusive, rates: rates),
+    );
+    if (tax.taxCents <= 0) return null;
+    String format(int cents) =>
+        CurrencyFormatter.format(cents, currencyCode: widget.event.currency);
+    return L.tr('event_tax_example', [
+      format(price),
+      format(price + TaxCalculator.addedCents(tax)),
+      format(tax.taxCents),
+    ]);
+  }
+
+  void _showReport() {
+    showModalBottomSheet(
+      context: context,
+      isScrollControlled: true,
+      backgroundColor: Colors.transparent,
+      builder: (context) => _TaxReportSheet(
+        eventId: widget.event.id,
+        repository: _repo,
+      ),
+    );
+  }
+
+  @override
+  Widget build(BuildContext context) {
+    final theme = Theme.of(context);
+    final colorScheme = theme.colorScheme;
+    final example = _example;
+
+    return Scaffold(
+      appBar: AppBar(
+        title: Text(L.tr('event_tax_title')),
+        actions: [
+          IconButton(
+            icon: const Icon(Icons.bar_chart),
+            tooltip: L.tr('event_tax_report'),
+            onPressed: _showReport,
+          ),
+        ],
+      ),
+      body: _isLoading
+          ? const Center(child: CircularProgressIndicator())
+          : ListView(
+              padding: const EdgeInsets.all(20),
+              children: [
+                SwitchListTile(
+                  contentPadding: EdgeInsets.zero,
+                  title: Text(L.tr('event_tax_inclusive')),
+                  subtitle: Text(L.tr('event_tax_inclusive_hint')),
+                  value: _inclusive,
+                  onChanged: (v) => setState(() => _inclusive = v),
+                ),
+                const SizedBox(height: 16),
+                Text(
+                  L.tr('event_tax_rates'),
+                  style: theme.textTheme.titleMedium?.copyWith(
+                    fontWeight: FontWeight.w600,
+                  ),
+                ),
+                const SizedBox(height: 12),
+                if (_rates.isEmpty)
+                  Text(
+                    L.tr('event_tax_no_rates'),
+                    style: theme.textTheme.bodyMedium?.copyWith(
+                      color: colorScheme.onSurfaceVariant,
+                    ),
+                  ),
+                for (var i = 0; i < _rates.length; i++)
+                  Padding(
+                    padding: const EdgeInsets.only(bottom: 12),
+                    child: Row(
+                      children: [
+                        Expanded(
+                          flex: 3,
+                          child: TextField(
+                            controller: _rates[i].name,
+                            maxLength: 40,
+                            decoration: InputDecoration(
+                              labelText: L.tr('event_tax_rate_name'),
+                              counterText: '',
+                              border: const OutlineInputBorder(),
+                            ),
+                            onChanged: (_) => setState(() {}),
+                          ),
+                        ),
+                        const SizedBox(width: 12),
+                        Expanded(
+                          flex: 2,
+                          child: TextField(
+                            controller: _rates[i].percent,
+                            keyboardType: const TextInputType.numberWithOptions(
+                              decimal: true,
+                            ),
+                            inputFormatters: [
+                              FilteringTextInputFormatter.allow(
+                                RegExp(r'[0-9.,]'),
+                              ),
+                            ],
+                            decoration: InputDecoration(
+                              labelText: L.tr('event_tax_rate_percent'),
+                              suffixText: '%',
+                              border: const OutlineInputBorder(),
+                            ),
+                            onChanged: (_) => setState(() {}),
+                          ),
+                        ),
+                        IconButton(
+                          icon: const Icon(Icons.remove_circle_outline),
+                          onPressed: () => _removeRate(i),
+                        ),
+                      ],
+                    ),
+                  ),
+                Align(
+                  alignment: Alignment.centerLeft,
+                  child: TextButton.icon(
+                    onPressed: _addRate,
+                    icon: const Icon(Icons.add),
+                    label: Text(L.tr('event_tax_add_rate')),
+                  ),
+                ),
+                if (example != null) ...[
+                  const SizedBox(height: 8),
+                  Text(
+                    example,
+                    style: theme.textTheme.bodyMedium,
+                  ),
+                ],
+                const SizedBox(height: 8),
+                Text(
+                  L.tr('event_tax_applies_to_new'),
+                  style: theme.textTheme.bodySmall?.copyWith(
+                    color: colorScheme.onSurfaceVariant,
+                  ),
+                ),
+                if (_error != null) ...[
+                  const SizedBox(height: 16),
+                  Text(
+                    _error!,
+                    style: TextStyle(color: colorScheme.error),
+                  ),
+                ],
+                const SizedBox(height: 24),
+                FilledButton(
+                  onPressed: _isSaving ? null : _save,
+                  child: _isSaving
+                      ? const SizedBox(
+                          width: 20,
+                          height: 20,
+                          child: CircularProgressIndicator(strokeWidth: 2),
+                        )
+                      : Text(L.tr('event_tax_save')),
+                ),
+              ],
+            ),
+    );
+  }
+}
+
+/// Text fields for one rate being edited.
+class _RateFields {
+  final TextEditingController name;
+  final TextEditingController percent;
+
+  _RateFields({String name = '', String percent = ''})
+      : name = TextEditingController(text: name),
+        percent = TextEditingController(text: percent);
+
+  factory _RateFields.fromRate(EventTaxRate rate) => _RateFields(
+        name: rate.name,
+        percent: rate.formattedRate.replaceAll('%', ''),
+      );
+
+  void dispose() {
+    name.dispose();
+    percent.dispose();
+  }
+}
+
+// ============================================================
+// Tax Report Sheet
+// ============================================================
+
+class _TaxReportSheet extends StatefulWidget {
+  final String eventId;
+  final SupabaseEventRepository repository;
+
+  const _TaxReportSheet({required this.eventId, required this.repository});
+
+  @override
+  State<_TaxReportSheet> createState() => _TaxReportSheetState();
+}
+
+class _TaxReportSheetState extends State<_TaxReportSheet> {
+  late DateTimeRange _range;
+  late Future<({List<TaxReportRow> rows, String csv})> _report;
+
+  @override
+  void initState() {
+    super.initState();
+    final now = DateTime.now();
+    _range = DateTimeRange(start: DateTime(now.year, 1, 1), end: now);
+    _report = _load();
+  }
+
+  Future<({List<TaxReportRow> rows, String csv})> _load() =>
+      widget.repository.getTaxReport(
+        eventId: widget.eventId,
+        from: _range.start,
+        to: _range.end,
+      );
+
+  Future<void> _pickRange() async {
+    final now = DateTime.now();
+    final picked = await showDateRangePicker(
+      context: context,
+      firstDate: DateTime(now.year - 5),
+      lastDate: now,
+      initialDateRange: _range,
+    );
+    if (picked == null) return;
+    setState(() {
+      _range = picked;
+      _report = _load();
+    });
+  }
+
+  String _formatDate(DateTime d) =>
+      '${d.year}-${d.month.toString().padLeft(2, '0')}-${d.day.toString().padLeft(2, '0')}';
+
+  @override
+  Widget build(BuildContext context) {
+    final theme = Theme.of(context);
+    final colorScheme = theme.colorScheme;
+
+    return Container(
+      constraints: BoxConstraints(
+        maxHeight: MediaQuery.of(context).size.height * 0.8,
+      ),
+      decoration: BoxDecoration(
+        color: colorScheme.surface,
+        borderRadius: const BorderRadius.vertical(top: Radius.circular(24)),
+      ),
+      padding: EdgeInsets.only(
+        left: 24,
+        right: 24,
+        top: 16,
+        bottom: MediaQuery.of(context).padding.bottom + 24,
+      ),
+      child: FutureBuilder<({List<TaxReportRow> rows, String csv})>(
+        future: _report,
+        builder: (context, snapshot) {
+          final report = snapshot.data;
+          return Column(
+            mainAxisSize: MainAxisSize.min,
+            children: [
+              Container(
+                width: 40,
+                height: 4,
+                decoration: BoxDecoration(
+                  color: colorScheme.onSurfaceVariant.withValues(alpha: 0.3),
+                  borderRadius: BorderRadius.circular(2),
+                ),
+              ),
+              const SizedBox(height: 16),
+              Row(
+                children: [
+                  Expanded(
+                    child: Text(
+                      L.tr('event_tax_report'),
+                      style: theme.textTheme.titleLarge?.copyWith(
+                        fontWeight: FontWeight.bold,
+                      ),
+                    ),
+                  ),
+                  IconButton(
+                    icon: const Icon(Icons.ios_share),
+                    tooltip: L.tr('event_tax_report_export'),
+                    onPressed: report == null || report.rows.isEmpty
+                        ? null
+                        : () => Share.share(report.csv),
+                  ),
+                ],
+              ),
+              Align(
+                alignment: Alignment.centerLeft,
+                child: TextButton.icon(
+                  onPressed: _pickRange,
+                  icon: const Icon(Icons.date_range, size: 18),
+                  label: Text(
+                    '${_formatDate(_range.start)} – ${_formatDate(_range.end)}',
+                  ),
+                ),
+              ),
+              const SizedBox(height: 8),
+              if (snapshot.connectionState != ConnectionState.done)
+                const Padding(
+                  padding: EdgeInsets.all(32),
+                  child: CircularProgressIndicator(),
+                )
+              else if (snapshot.hasError)
+                Padding(
+                  padding: const EdgeInsets.all(24),
+                  child: Text(
+                    L.tr('event_tax_report_failed'),
+                    style: TextStyle(color: colorScheme.error),
+                  ),
+                )
+              else if (report!.rows.isEmpty)
+                Padding(
+                  padding: const EdgeInsets.all(24),
+                  child: Text(L.tr('event_tax_report_empty')),
+                )
+              else
+                Flexible(
+                  child: ListView.separated(
+                    shrinkWrap: true,
+                    itemCount: report.rows.length,
+                    separatorBuilder: (_, __) => Divider(
+                      height: 1,
+                      color: colorScheme.outlineVariant.withValues(alpha: 0.3),
+                    ),
+                    itemBuilder: (context, index) {
+                      final row = report.rows[index];
+                      String format(int cents) => CurrencyFormatter.format(
+                            cents,
+                            currencyCode: row.currency,
+                          );
+                      return ListTile(
+                        contentPadding: EdgeInsets.zero,
+                        title: Text(
+                          '${row.taxName} (${formatTaxRate(row.rateBps)})',
+                          style: const TextStyle(fontWeight: FontWeight.bold),
+                        ),
+                        subtitle: Text(
+                          [
+                            L.tr('event_tax_report_row', [
+                              row.orders,
+                              format(row.netSalesCents),
+                            ]),
+                            if (row.taxInclusive) L.tr('event_tax_inclusive'),
+                            if (row.refundedOrders > 0)
+                              L.tr('event_tax_report_refunded', [
+                                row.refundedOrders,
+                                format(row.refundedTaxCents),
+                              ]),
+                          ].join(' · '),
+                        ),
+                        trailing: Text(
+                          format(row.taxCents),
+                          style: theme.textTheme.titleSmall?.copyWith(
+                            fontWeight: FontWeight.w600,
+                          ),
+                        ),
+                      );
+                    },
+                  ),
+                ),
+            ],
+          );
+        },
+      ),
+    );
+  }
+}
@@ -16,6 +16,7 @@ import '../../venues/widgets/venue_picker_sheet.dart';
 import '../data/supabase_event_repository.dart';
 import '../models/event_model.dart';
 import '../models/ticket_type.dart';
+import 'event_tax_screen.dart';
 
 /// Screen for managing all ticket types for an event.
 /// Shows each ticket type with sold/available counts and actions
@@ -329,6 +330,18 @@ class _ManageTicketsScreenState extends ConsumerState<ManageTicketsScreen> {
                   foregroundColor: Colors.orange,
                 ),
               ),
+              IconButton(
+                onPressed: () {
+                  Navigator.of(context).push(
+                    MaterialPageRoute(
+                      builder: (_) => EventTaxScreen(event: widget.event),
+                    ),
+                  );
+                },
+                icon: const Icon(Icons.receipt_long_outlined, size: 20),
+                tooltip: L.tr('event_tax_title'),
+                color: Colors.teal,
+              ),
             ],
           ),
           const SizedBox(height: 12),
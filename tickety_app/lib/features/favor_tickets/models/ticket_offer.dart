@@ -1,3 +1,5 @@
+import '../../../core/utils/currency_formatter.dart';
+
 /// Status of a ticket offer.
 enum TicketOfferStatus {
   pending('pending'),
@@ -182,8 +184,7 @@ class TicketOffer {
 
   String get formattedPrice {
     if (priceCents == 0) return 'Free';
-    final dollars = priceCents / 100;
-    return '\$${dollars.toStringAsFixed(2)}';
+    return CurrencyFormatter.format(priceCents, currencyCode: currency);
   }
 
   @override
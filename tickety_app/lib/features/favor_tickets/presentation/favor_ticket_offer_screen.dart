@@ -5,6 +5,7 @@ import 'package:flutter_riverpod/flutter_riverpod.dart';
 import '../../../core/errors/errors.dart';
 import '../../../core/localization/localization.dart';
 import '../../../core/providers/providers.dart';
+import '../../events/data/supabase_event_repository.dart';
 import '../../events/models/event_model.dart';
 import '../../payments/models/payment.dart';
 import '../../payments/presentation/checkout_screen.dart';
@@ -142,18 +143,31 @@ class _FavorTicketOfferScreenState
         return;
       }
 
-      _navigateToCheckout(refreshedEvent);
+      await _navigateToCheckout(refreshedEvent);
     } else {
-      _navigateToCheckout(event);
+      await _navigateToCheckout(event);
     }
   }
 
-  void _navigateToCheckout(EventModel event) {
-    final fees = ServiceFeeCalculator.calculate(_offer!.priceCents);
+  Future<void> _navigateToCheckout(EventModel event) async {
+    // Offers are sold by the organizer, so the event's sales tax applies
+    final repo = ref.read(eventRepositoryProvider) as SupabaseEventRepository;
+    final tax = await repo.getEventTax(event.id);
+    if (!mounted) return;
+
+    final taxedEvent = event.copyWith(
+      taxInclusive: tax.inclusive,
+      taxRates: tax.rates,
+    );
+    final fees = ServiceFeeCalculator.calculate(
+      _offer!.priceCents,
+      currency: event.currency,
+      tax: tax,
+    );
     Navigator.of(context).push(
       MaterialPageRoute(
         builder: (_) => CheckoutScreen(
-          event: event,
+          event: taxedEvent,
           amountCents: fees.totalCents,
           paymentType: PaymentType.favorTicketPurchase,
           baseUnitPriceCents: _offer!.priceCents,
@@ -37,6 +37,9 @@ class OrganizerMerchConfig {
   final MerchProvider provider;
   final String? shopifyDomain;
   final String? shopifyStorefrontToken;
+
+  /// Signing secret for Shopify order webhooks (verifies X-Shopify-Hmac-Sha256).
+  final String? shopifyWebhookSecret;
   final bool isActive;
 
   const OrganizerMerchConfig({
@@ -45,6 +48,7 @@ class OrganizerMerchConfig {
     this.provider = MerchProvider.none,
     this.shopifyDomain,
     this.shopifyStorefrontToken,
+    this.shopifyWebhookSecret,
     this.isActive = false,
   });
 
@@ -59,6 +63,7 @@ class OrganizerMerchConfig {
       provider: MerchProvider.fromString(json['provider'] as String?),
       shopifyDomain: json['shopify_domain'] as String?,
       shopifyStorefrontToken: json['shopify_storefront_token'] as String?,
+      shopifyWebhookSecret: json['shopify_webhook_secret'] as String?,
       isActive: json['is_active'] as bool? ?? false,
     );
   }
@@ -68,6 +73,7 @@ class OrganizerMerchConfig {
     'provider': provider.value,
     'shopify_domain': shopifyDomain,
     'shopify_storefront_token': shopifyStorefrontToken,
+    'shopify_webhook_secret': shopifyWebhookSecret,
     'is_active': isActive,
   };
 
@@ -75,6 +81,7 @@ class OrganizerMerchConfig {
     MerchProvider? provider,
     String? shopifyDomain,
     String? shopifyStorefrontToken,
+    String? shopifyWebhookSecret,
     bool? isActive,
   }) {
     return OrganizerMerchConfig(
@@ -83,6 +90,7 @@ class OrganizerMerchConfig {
       provider: provider ?? this.provider,
       shopifyDomain: shopifyDomain ?? this.shopifyDomain,
       shopifyStorefrontToken: shopifyStorefrontToken ?? this.shopifyStorefrontToken,
+      shopifyWebhookSecret: shopifyWebhookSecret ?? this.shopifyWebhookSecret,
       isActive: isActive ?? this.isActive,
     );
   }
@@ -111,6 +111,11 @@ class MerchOrder {
   final String fulfillmentType;
   final String? stripePaymentIntentId;
   final String? shopifyCheckoutUrl;
+  final String? shopifyOrderId;
+
+  /// Units fulfilled so far (Shopify orders can ship in several parts).
+  final int fulfilledQuantity;
+  final int refundedCents;
   final DateTime createdAt;
   final DateTime updatedAt;
 
@@ -133,6 +138,9 @@ class MerchOrder {
     this.fulfillmentType = 'ship',
     this.stripePaymentIntentId,
     this.shopifyCheckoutUrl,
+    this.shopifyOrderId,
+    this.fulfilledQuantity = 0,
+    this.refundedCents = 0,
     required this.createdAt,
     required this.updatedAt,
     this.productTitle,
@@ -145,6 +153,14 @@ class MerchOrder {
     return '\$${dollars.toStringAsFixed(2)}';
   }
 
+  bool get isPartiallyFulfilled =>
+      fulfilledQuantity > 0 && fulfilledQuantity < quantity;
+
+  bool get isPartiallyRefunded =>
+      refundedCents > 0 && status != MerchOrderStatus.refunded;
+
+  String get formattedRefund => '\$${(refundedCents / 100).toStringAsFixed(2)}';
+
   String? get trackingNumber => trackingInfo?['tracking_number'] as String?;
   String? get trackingUrl => trackingInfo?['tracking_url'] as String?;
   String? get carrier => trackingInfo?['carrier'] as String?;
@@ -177,6 +193,9 @@ class MerchOrder {
       fulfillmentType: json['fulfillment_type'] as String? ?? 'ship',
       stripePaymentIntentId: json['stripe_payment_intent_id'] as String?,
       shopifyCheckoutUrl: json['shopify_checkout_url'] as String?,
+      shopifyOrderId: json['shopify_order_id'] as String?,
+      fulfilledQuantity: json['fulfilled_quantity'] as int? ?? 0,
+      refundedCents: json['refunded_cents'] as int? ?? 0,
       createdAt: DateTime.parse(json['created_at'] as String),
       updatedAt: DateTime.parse(json['updated_at'] as String),
       productTitle: product?['title'] as String?,
@@ -152,7 +152,9 @@ class _OrganizerOrderCardState extends ConsumerState<_OrganizerOrderCard> {
             Row(
               children: [
                 Text(
-                  'Qty: ${order.quantity}',
+                  order.isPartiallyFulfilled
+                      ? 'Qty: ${order.quantity} (${order.fulfilledQuantity} shipped)'
+                      : 'Qty: ${order.quantity}',
                   style: theme.textTheme.bodySmall?.copyWith(
                     color: colorScheme.onSurfaceVariant,
                   ),
@@ -164,6 +166,15 @@ class _OrganizerOrderCardState extends ConsumerState<_OrganizerOrderCard> {
                     fontWeight: FontWeight.w600,
                   ),
                 ),
+                if (order.isPartiallyRefunded) ...[
+                  const SizedBox(width: 8),
+                  Text(
+                    '${order.formattedRefund} refunded',
+                    style: theme.textTheme.bodySmall?.copyWith(
+                      color: MerchOrderStatus.refunded.color,
+                    ),
+                  ),
+                ],
                 const Spacer(),
                 Text(
                   _formatDate(order.createdAt),
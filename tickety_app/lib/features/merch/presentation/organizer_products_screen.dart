@@ -471,12 +471,14 @@ class _MerchSetupSheetState extends ConsumerState<_MerchSetupSheet> {
   MerchProvider _selectedProvider = MerchProvider.stripe;
   final _domainController = TextEditingController();
   final _tokenController = TextEditingController();
+  final _webhookSecretController = TextEditingController();
   bool _isSaving = false;
 
   @override
   void dispose() {
     _domainController.dispose();
     _tokenController.dispose();
+    _webhookSecretController.dispose();
     super.dispose();
   }
 
@@ -545,6 +547,16 @@ class _MerchSetupSheetState extends ConsumerState<_MerchSetupSheet> {
               ),
               obscureText: true,
             ),
+            const SizedBox(height: 12),
+            TextField(
+              controller: _webhookSecretController,
+              decoration: const InputDecoration(
+                labelText: 'Webhook Signing Secret',
+                helperText: 'Shopify admin → Settings → Notifications → Webhooks',
+                border: OutlineInputBorder(),
+              ),
+              obscureText: true,
+            ),
           ] else ...[
             Text(
               'Products will be managed directly in Tickety.\nCreate products, set prices, and track inventory.',
@@ -586,6 +598,9 @@ class _MerchSetupSheetState extends ConsumerState<_MerchSetupSheet> {
         shopifyStorefrontToken: _selectedProvider == MerchProvider.shopify
             ? _tokenController.text.trim()
             : null,
+        shopifyWebhookSecret: _selectedProvider == MerchProvider.shopify
+            ? _webhookSecretController.text.trim()
+            : null,
         isActive: true,
       ));
       widget.onSaved();
@@ -8,6 +8,8 @@ enum NotificationType {
   waitlistAvailable('waitlist_available'),
   waitlistAutoPurchased('waitlist_auto_purchased'),
   virtualEventRevealed('virtual_event_revealed'),
+  eventCancellationFinished('event_cancellation_finished'),
+  eventRescheduled('event_rescheduled'),
   unknown('unknown');
 
   const NotificationType(this.value);
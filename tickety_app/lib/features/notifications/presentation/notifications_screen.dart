@@ -4,6 +4,7 @@ import 'package:flutter_riverpod/flutter_riverpod.dart';
 import '../../../core/localization/localization.dart';
 import '../../../core/providers/providers.dart';
 import '../../../core/services/supabase_service.dart';
+import '../../events/presentation/event_cancellation_screen.dart';
 import '../../events/presentation/event_details_screen.dart';
 import '../../events/presentation/my_events_screen.dart';
 import '../../favor_tickets/presentation/favor_ticket_offer_screen.dart';
@@ -264,6 +265,25 @@ class _NotificationsScreenState extends ConsumerState<NotificationsScreen> {
           );
         }
         break;
+      case NotificationType.eventCancellationFinished:
+        // Cancelled events are gone from My Events; this is the way back
+        final eventId = notification.eventId;
+        if (eventId != null) {
+          Navigator.of(context).push(
+            MaterialPageRoute(
+              builder: (_) => EventCancellationScreen(eventId: eventId),
+            ),
+          );
+        }
+        break;
+      case NotificationType.eventRescheduled:
+        // Holders who can't make the new date ask for refunds from the ticket
+        Navigator.of(context).push(
+          MaterialPageRoute(
+            builder: (_) => const MyTicketsScreen(),
+          ),
+        );
+        break;
       case NotificationType.unknown:
         break;
     }
@@ -539,6 +559,10 @@ class _NotificationTile extends StatelessWidget {
         return Icons.flash_on_outlined;
       case NotificationType.virtualEventRevealed:
         return Icons.videocam_outlined;
+      case NotificationType.eventCancellationFinished:
+        return Icons.currency_exchange;
+      case NotificationType.eventRescheduled:
+        return Icons.event_repeat;
       case NotificationType.unknown:
         return Icons.notifications_outlined;
     }
@@ -562,6 +586,10 @@ class _NotificationTile extends StatelessWidget {
         return Colors.green.withValues(alpha: 0.15);
       case NotificationType.virtualEventRevealed:
         return Colors.cyan.withValues(alpha: 0.15);
+      case NotificationType.eventCancellationFinished:
+        return Colors.red.withValues(alpha: 0.15);
+      case NotificationType.eventRescheduled:
+        return Colors.orange.withValues(alpha: 0.15);
       case NotificationType.unknown:
         return colorScheme.surfaceContainerHighest;
     }
@@ -585,6 +613,10 @@ class _NotificationTile extends StatelessWidget {
         return Colors.green;
       case NotificationType.virtualEventRevealed:
         return Colors.cyan;
+      case NotificationType.eventCancellationFinished:
+        return Colors.red;
+      case NotificationType.eventRescheduled:
+        return Colors.orange;
       case NotificationType.unknown:
         return colorScheme.onSurfaceVariant;
     }
@@ -1,6 +1,15 @@
 import '../../../core/models/models.dart';
 import '../models/payment.dart';
 import '../models/payment_method.dart';
+import '../models/ticket_refund.dart';
+
+/// Outcome of a ticket refund call: `refunded` with the money on its way,
+/// `requested` when it waits for the organizer, or `declined`.
+typedef TicketRefundResult = ({
+  TicketRefundStatus status,
+  Payment payment,
+  List<TicketRefund> refunds,
+});
 
 /// Interface for payment data operations.
 ///
@@ -50,6 +59,32 @@ abstract class IPaymentRepository {
   /// Returns the updated payment with refunded status.
   Future<Payment> requestRefund(String paymentId);
 
+  /// Ask for a refund of one ticket.
+  ///
+  /// Approved straight away at the event's refund policy, or sent to the
+  /// organizer when the policy doesn't cover it.
+  Future<TicketRefundResult> requestTicketRefund(String ticketId, {String? reason});
+
+  /// Refunds and refund requests for one of the caller's tickets, newest
+  /// first.
+  Future<List<TicketRefund>> getTicketRefunds(String ticketId);
+
+  /// Refunds and refund requests for an event (organizer view), newest
+  /// first.
+  Future<List<TicketRefund>> getEventRefunds(String eventId, {bool openOnly = false});
+
+  /// Approve or decline refund requests on one payment (organizer).
+  ///
+  /// Approving refunds [percent] of the ticket price (default 100) with or
+  /// without the service fee (default with).
+  Future<TicketRefundResult> decideRefundRequests(
+    List<String> requestIds, {
+    required bool approve,
+    int? percent,
+    bool? includeFees,
+    String? note,
+  });
+
   /// Update payment status (typically called by webhooks).
   Future<Payment> updatePaymentStatus(
     String paymentId,
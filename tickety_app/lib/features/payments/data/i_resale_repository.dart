@@ -90,5 +90,9 @@ abstract class IResaleRepository {
   ///
   /// If the seller hasn't added bank details, returns a URL to complete setup.
   /// If withdrawal is successful, returns the payout details.
-  Future<WithdrawalResult> initiateWithdrawal({int? amountCents});
+  /// [currency] picks which balance to pay out (USD by default).
+  Future<WithdrawalResult> initiateWithdrawal({
+    int? amountCents,
+    String currency = 'usd',
+  });
 }
@@ -3,6 +3,7 @@ import '../../../core/models/models.dart';
 import '../../../core/services/services.dart';
 import '../models/payment.dart';
 import '../models/payment_method.dart';
+import '../models/ticket_refund.dart';
 import 'i_payment_repository.dart';
 
 const _tag = 'PaymentRepository';
@@ -279,6 +280,90 @@ class PaymentRepository implements IPaymentRepository {
     return Payment.fromJson(data['payment'] as Map<String, dynamic>);
   }
 
+  @override
+  Future<TicketRefundResult> requestTicketRefund(String ticketId, {String? reason}) async {
+    AppLogger.info('Requesting refund for ticket: $ticketId', tag: _tag);
+    return _invokeRefund({
+      'ticket_ids': [ticketId],
+      if (reason != null && reason.trim().isNotEmpty) 'reason': reason.trim(),
+    });
+  }
+
+  @override
+  Future<List<TicketRefund>> getTicketRefunds(String ticketId) async {
+    final response = await _client
+        .from('ticket_refunds')
+        .select()
+        .eq('ticket_id', ticketId)
+        .order('created_at', ascending: false);
+
+    return (response as List<dynamic>)
+        .map((json) => TicketRefund.fromJson(json as Map<String, dynamic>))
+        .toList();
+  }
+
+  @override
+  Future<List<TicketRefund>> getEventRefunds(String eventId, {bool openOnly = false}) async {
+    AppLogger.debug('Fetching refunds for event: $eventId', tag: _tag);
+
+    var query = _client
+        .from('ticket_refunds')
+        .select('*, tickets(ticket_number, owner_name)')
+        .eq('event_id', eventId);
+    if (openOnly) {
+      query = query.eq('status', TicketRefundStatus.requested.value);
+    }
+    final response = await query.order('created_at', ascending: false).limit(200);
+
+    return (response as List<dynamic>)
+        .map((json) => TicketRefund.fromJson(json as Map<String, dynamic>))
+        .toList();
+  }
+
+  @override
+  Future<TicketRefundResult> decideRefundRequests(
+    List<String> requestIds, {
+    required bool approve,
+    int? percent,
+    bool? includeFees,
+    String? note,
+  }) async {
+    AppLogger.info(
+      '${approve ? 'Approving' : 'Declining'} ${requestIds.length} refund request(s)',
+      tag: _tag,
+    );
+    return _invokeRefund({
+      'refund_request_ids': requestIds,
+      'decision': approve ? 'approve' : 'decline',
+      if (percent != null) 'percent': percent,
+      if (includeFees != null) 'include_fees': includeFees,
+      if (note != null && note.trim().isNotEmpty) 'reason': note.trim(),
+    });
+  }
+
+  Future<TicketRefundResult> _invokeRefund(Map<String, dynamic> body) async {
+    final response = await _client.functions.invoke('process-refund', body: body);
+
+    if (response.status != 200) {
+      final error = response.data is Map ? response.data['error'] : 'Unknown error';
+      AppLogger.error('Failed to process ticket refund: $error', tag: _tag);
+
+      if (error.toString().contains('already refunded')) {
+        throw PaymentException.alreadyRefunded();
+      }
+      throw PaymentException.refundFailed(error.toString());
+    }
+
+    final data = response.data as Map<String, dynamic>;
+    return (
+      status: TicketRefundStatus.fromString(data['status'] as String?),
+      payment: Payment.fromJson(data['payment'] as Map<String, dynamic>),
+      refunds: ((data['refunds'] as List<dynamic>?) ?? const [])
+          .map((json) => TicketRefund.fromJson(json as Map<String, dynamic>))
+          .toList(),
+    );
+  }
+
   @override
   Future<Payment> updatePaymentStatus(
     String paymentId,
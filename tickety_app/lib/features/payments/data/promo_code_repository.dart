@@ -8,15 +8,18 @@ const _tag = 'PromoCodeRepository';
 class PromoCodeRepository {
   final _client = SupabaseService.instance.client;
 
-  /// Validate a promo code via edge function.
-  Future<PromoValidationResult> validateCode({
+  /// Validate promo codes against an order via edge function.
+  ///
+  /// The order is priced server-side from [ticketItems] (ticket type +
+  /// quantity) or, without them, from the event price times [quantity].
+  Future<PromoValidationResult> validateCodes({
     required String eventId,
-    required String code,
-    required int basePriceCents,
-    String? ticketTypeId,
+    required List<String> codes,
+    required int quantity,
+    List<Map<String, dynamic>>? ticketItems,
   }) async {
     AppLogger.info(
-      'Validating promo code: event=$eventId, code=$code',
+      'Validating promo codes: event=$eventId, codes=${codes.join(',')}',
       tag: _tag,
     );
 
@@ -26,9 +29,9 @@ class PromoCodeRepository {
       'validate-promo-code',
       body: {
         'event_id': eventId,
-        'code': code,
-        'base_price_cents': basePriceCents,
-        if (ticketTypeId != null) 'ticket_type_id': ticketTypeId,
+        'codes': codes,
+        'quantity': quantity,
+        if (ticketItems != null) 'ticket_items': ticketItems,
       },
     );
 
@@ -47,14 +50,20 @@ class PromoCodeRepository {
     return PromoValidationResult.fromJson(data);
   }
 
-  /// Get all promo codes for an event (organizer).
-  Future<List<PromoCode>> getEventPromoCodes(String eventId) async {
+  /// Get all promo codes for an event (organizer), including the
+  /// series-wide codes of its series.
+  Future<List<PromoCode>> getEventPromoCodes(
+    String eventId, {
+    String? seriesId,
+  }) async {
     AppLogger.info('Loading promo codes for event=$eventId', tag: _tag);
 
     final response = await _client
         .from('promo_codes')
         .select()
-        .eq('event_id', eventId)
+        .or(seriesId != null
+            ? 'event_id.eq.$eventId,series_id.eq.$seriesId'
+            : 'event_id.eq.$eventId')
         .order('created_at', ascending: false);
 
     return (response as List)
@@ -62,30 +71,44 @@ class PromoCodeRepository {
         .toList();
   }
 
-  /// Create a new promo code.
+  /// Create a new promo code for an event, or for its whole series when
+  /// [seriesId] is given.
   Future<PromoCode> createPromoCode({
     required String eventId,
+    String? seriesId,
     required String code,
     required PromoDiscountType discountType,
     required int discountValue,
+    int? buyQuantity,
+    int? getQuantity,
     int? maxUses,
+    int? maxUsesPerUser = 1,
+    int? minQuantity,
+    int? minOrderCents,
+    bool stackable = false,
     DateTime? validFrom,
     DateTime? validUntil,
     String? ticketTypeId,
   }) async {
     AppLogger.info(
-      'Creating promo code: event=$eventId, code=$code, type=${discountType.value}, value=$discountValue',
+      'Creating promo code: event=$eventId, series=$seriesId, code=$code, type=${discountType.value}, value=$discountValue',
       tag: _tag,
     );
 
     final response = await _client
         .from('promo_codes')
         .insert({
-          'event_id': eventId,
+          if (seriesId != null) 'series_id': seriesId else 'event_id': eventId,
           'code': code.toUpperCase(),
           'discount_type': discountType.value,
           'discount_value': discountValue,
+          if (buyQuantity != null) 'buy_quantity': buyQuantity,
+          if (getQuantity != null) 'get_quantity': getQuantity,
           if (maxUses != null) 'max_uses': maxUses,
+          'max_uses_per_user': maxUsesPerUser,
+          if (minQuantity != null) 'min_quantity': minQuantity,
+          if (minOrderCents != null) 'min_order_cents': minOrderCents,
+          'stackable': stackable,
           if (validFrom != null) 'valid_from': validFrom.toIso8601String(),
           if (validUntil != null) 'valid_until': validUntil.toIso8601String(),
           if (ticketTypeId != null) 'ticket_type_id': ticketTypeId,
@@ -97,6 +120,87 @@ class PromoCodeRepository {
     return PromoCode.fromJson(response);
   }
 
+  /// Generate [count] single-use codes (by default) for a partner.
+  Future<PromoCodeBatch> bulkCreate({
+    required String eventId,
+    String? seriesId,
+    required String name,
+    required int count,
+    String? prefix,
+    required PromoDiscountType discountType,
+    required int discountValue,
+    int? buyQuantity,
+    int? getQuantity,
+    int? maxUsesPerCode = 1,
+    DateTime? validUntil,
+    bool stackable = false,
+  }) async {
+    AppLogger.info(
+      'Bulk creating $count promo codes: event=$eventId, series=$seriesId, name=$name',
+      tag: _tag,
+    );
+
+    final data = await _invokePromoCodes({
+      'action': 'bulk_create',
+      if (seriesId != null) 'series_id': seriesId else 'event_id': eventId,
+      'name': name,
+      'count': count,
+      if (prefix != null && prefix.isNotEmpty) 'prefix': prefix,
+      'discount_type': discountType.value,
+      'discount_value': discountValue,
+      if (buyQuantity != null) 'buy_quantity': buyQuantity,
+      if (getQuantity != null) 'get_quantity': getQuantity,
+      'max_uses': maxUsesPerCode,
+      if (validUntil != null) 'valid_until': validUntil.toIso8601String(),
+      'stackable': stackable,
+    });
+
+    final batch = data['batch'] as Map<String, dynamic>;
+    return PromoCodeBatch(
+      id: batch['id'] as String,
+      name: batch['name'] as String,
+      quantity: batch['quantity'] as int,
+      csv: data['csv'] as String,
+    );
+  }
+
+  /// Redemptions per code for an event, series-wide codes included.
+  /// Returns the rows and the same report as CSV.
+  Future<({List<PromoCodeReport> codes, String csv})> getRedemptionReport(
+    String eventId,
+  ) async {
+    AppLogger.info('Loading promo code report for event=$eventId', tag: _tag);
+
+    final data = await _invokePromoCodes({
+      'action': 'report',
+      'event_id': eventId,
+    });
+
+    final rows = (data['codes'] as List<dynamic>)
+        .map((r) => PromoCodeReport.fromJson(r as Map<String, dynamic>))
+        .toList();
+    return (codes: rows, csv: data['csv'] as String);
+  }
+
+  Future<Map<String, dynamic>> _invokePromoCodes(
+    Map<String, dynamic> body,
+  ) async {
+    await _client.auth.refreshSession();
+
+    final response = await _client.functions.invoke('promo-codes', body: body);
+
+    if (response.status != 200) {
+      final error = response.data is Map
+          ? response.data['error'] as String?
+          : 'Unknown error';
+      throw PaymentException(
+        error ?? 'Promo code request failed',
+        technicalDetails: 'Edge function error (${response.status}): $error',
+      );
+    }
+    return response.data as Map<String, dynamic>;
+  }
+
   /// Deactivate a promo code.
   Future<void> deactivatePromoCode(String id) async {
     AppLogger.info('Deactivating promo code: $id', tag: _tag);
@@ -474,7 +474,10 @@ class ResaleRepository implements IResaleRepository {
   }
 
   @override
-  Future<WithdrawalResult> initiateWithdrawal({int? amountCents}) async {
+  Future<WithdrawalResult> initiateWithdrawal({
+    int? amountCents,
+    String currency = 'usd',
+  }) async {
     final userId = SupabaseService.instance.currentUser?.id;
     if (userId == null) {
       throw AuthException.notAuthenticated();
@@ -485,7 +488,7 @@ class ResaleRepository implements IResaleRepository {
       tag: _tag,
     );
 
-    final body = <String, dynamic>{'user_id': userId};
+    final body = <String, dynamic>{'user_id': userId, 'currency': currency};
     if (amountCents != null) {
       body['amount_cents'] = amountCents;
     }
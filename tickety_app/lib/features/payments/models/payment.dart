@@ -1,3 +1,6 @@
+import '../../../core/utils/currency_formatter.dart';
+import '../../events/models/event_tax.dart';
+
 /// Status of a payment.
 enum PaymentStatus {
   pending('pending'),
@@ -60,6 +63,11 @@ class Payment {
   final String? stripePaymentIntentId;
   final String? stripeChargeId;
   final String? receiptUrl;
+
+  /// Amount refunded so far; the payment stays completed until all of its
+  /// tickets are refunded.
+  final int refundedCents;
+
   final DateTime createdAt;
   final DateTime updatedAt;
 
@@ -79,6 +87,7 @@ class Payment {
     this.stripePaymentIntentId,
     this.stripeChargeId,
     this.receiptUrl,
+    this.refundedCents = 0,
     required this.createdAt,
     required this.updatedAt,
     this.metadata,
@@ -99,6 +108,7 @@ class Payment {
       stripePaymentIntentId: json['stripe_payment_intent_id'] as String?,
       stripeChargeId: json['stripe_charge_id'] as String?,
       receiptUrl: json['receipt_url'] as String?,
+      refundedCents: json['refunded_cents'] as int? ?? 0,
       createdAt: DateTime.parse(json['created_at'] as String),
       updatedAt: DateTime.parse(json['updated_at'] as String),
       metadata: json['metadata'] as Map<String, dynamic>?,
@@ -120,6 +130,7 @@ class Payment {
       'stripe_payment_intent_id': stripePaymentIntentId,
       'stripe_charge_id': stripeChargeId,
       'receipt_url': receiptUrl,
+      'refunded_cents': refundedCents,
       'metadata': metadata,
     };
   }
@@ -138,6 +149,7 @@ class Payment {
     String? stripePaymentIntentId,
     String? stripeChargeId,
     String? receiptUrl,
+    int? refundedCents,
     DateTime? createdAt,
     DateTime? updatedAt,
     Map<String, dynamic>? metadata,
@@ -155,6 +167,7 @@ class Payment {
       stripePaymentIntentId: stripePaymentIntentId ?? this.stripePaymentIntentId,
       stripeChargeId: stripeChargeId ?? this.stripeChargeId,
       receiptUrl: receiptUrl ?? this.receiptUrl,
+      refundedCents: refundedCents ?? this.refundedCents,
       createdAt: createdAt ?? this.createdAt,
       updatedAt: updatedAt ?? this.updatedAt,
       metadata: metadata ?? this.metadata,
@@ -173,6 +186,9 @@ class Payment {
     return '\$${dollars.toStringAsFixed(2)}';
   }
 
+  /// Some tickets refunded, others still standing.
+  bool get isPartiallyRefunded => refundedCents > 0 && !status.isRefunded;
+
   /// The seller's portion after platform fee.
   int get sellerAmountCents => amountCents - platformFeeCents;
 
@@ -199,19 +215,28 @@ class Payment {
 }
 
 /// Fee breakdown for a ticket purchase.
+///
+/// [serviceFeeCents] never includes tax; [taxCents] is added to
+/// [totalCents] only when the event's prices exclude tax ([tax] says which).
 typedef FeeBreakdown = ({
   int baseCents,
   int platformFeeCents,
   int mintFeeCents,
   int stripeFeeCents,
   int serviceFeeCents,
+  int taxCents,
+  TaxBreakdown? tax,
   int totalCents,
 });
 
 /// Calculates service fees for ticket purchases.
 ///
-/// The service fee covers: 5% platform fee, Stripe processing (2.9% + $0.30),
-/// and a future mint fee (currently $0). The formula passes all costs to the buyer.
+/// The service fee covers: 5% platform fee, Stripe processing (2.9% plus
+/// the currency's fixed fee, $0.30 in USD) and the mint fee. The formula
+/// passes all costs to the buyer. Must match the server's `card` schedule.
+///
+/// With sales tax the platform fee is charged on the price without tax, and
+/// tax added on top is charged to the card along with the price.
 ///
 /// Example: $10 ticket -> base=1000, service_fee=113, total=1113
 class ServiceFeeCalculator {
@@ -219,10 +244,15 @@ class ServiceFeeCalculator {
 
   static const double _platformFeeRate = 0.05;
   static const double _stripeFeeRate = 0.029;
-  static const int _stripeFeeFixedCents = 30;
-  static const int _mintFeeCents = 25;
 
-  static FeeBreakdown calculate(int baseCents) {
+  /// Fees for [baseCents] in the minor units of [currency]; the fixed parts
+  /// come from the currency (30¢ and 25¢ in USD).
+  static FeeBreakdown calculate(
+    int baseCents, {
+    String currency = 'usd',
+    EventTax tax = EventTax.none,
+  }) {
+    final money = AppCurrency.fromCode(currency);
     if (baseCents <= 0) {
       return (
         baseCents: 0,
@@ -230,15 +260,21 @@ class ServiceFeeCalculator {
         mintFeeCents: 0,
         stripeFeeCents: 0,
         serviceFeeCents: 0,
+        taxCents: 0,
+        tax: null,
         totalCents: 0,
       );
     }
 
-    final platformFeeCents = (baseCents * _platformFeeRate).ceil();
-    const mintFeeCents = _mintFeeCents;
-    final subtotal = baseCents + platformFeeCents + mintFeeCents;
+    final taxBreakdown = _taxOn(baseCents, tax);
+    final addedTax = TaxCalculator.addedCents(taxBreakdown);
+    final netCents = taxBreakdown?.netCents ?? baseCents;
+
+    final platformFeeCents = (netCents * _platformFeeRate).ceil();
+    final mintFeeCents = money.mintFee;
+    final subtotal = baseCents + addedTax + platformFeeCents + mintFeeCents;
     final totalCents =
-        ((subtotal + _stripeFeeFixedCents) / (1 - _stripeFeeRate)).ceil();
+        ((subtotal + money.cardFeeFixed) / (1 - _stripeFeeRate)).ceil();
     final stripeFeeCents = totalCents - subtotal;
     final serviceFeeCents = platformFeeCents + stripeFeeCents + mintFeeCents;
 
@@ -248,11 +284,19 @@ class ServiceFeeCalculator {
       mintFeeCents: mintFeeCents,
       stripeFeeCents: stripeFeeCents,
       serviceFeeCents: serviceFeeCents,
+      taxCents: taxBreakdown?.taxCents ?? 0,
+      tax: taxBreakdown,
       totalCents: totalCents,
     );
   }
 }
 
+/// Tax on a ticket price, or null when none is due.
+TaxBreakdown? _taxOn(int baseCents, EventTax tax) {
+  final breakdown = TaxCalculator.calculate(baseCents, tax);
+  return breakdown.taxCents > 0 ? breakdown : null;
+}
+
 /// Data needed to create a payment intent.
 class CreatePaymentIntentRequest {
   final String eventId;
@@ -262,7 +306,9 @@ class CreatePaymentIntentRequest {
   final int quantity;
   final String? ticketId;
   final String? resaleListingId;
-  final String? promoCodeId;
+
+  /// Applied promo codes; more than one only when all are stackable.
+  final List<String>? promoCodes;
   final Map<String, dynamic>? metadata;
 
   final List<Map<String, dynamic>>? seatSelections;
@@ -275,7 +321,7 @@ class CreatePaymentIntentRequest {
     this.quantity = 1,
     this.ticketId,
     this.resaleListingId,
-    this.promoCodeId,
+    this.promoCodes,
     this.metadata,
     this.seatSelections,
   });
@@ -289,7 +335,7 @@ class CreatePaymentIntentRequest {
       'quantity': quantity,
       if (ticketId != null) 'ticket_id': ticketId,
       if (resaleListingId != null) 'resale_listing_id': resaleListingId,
-      if (promoCodeId != null) 'promo_code_id': promoCodeId,
+      if (promoCodes != null && promoCodes!.isNotEmpty) 'promo_codes': promoCodes,
       if (metadata != null) 'metadata': metadata,
       if (seatSelections != null) 'seat_selections': seatSelections,
     };
@@ -363,12 +409,15 @@ typedef ACHPurchaseFeeBreakdown = ({
   int baseCents,
   int platformFeeCents,
   int achFeeCents,
+  int taxCents,
+  TaxBreakdown? tax,
   int totalCents,
 });
 
 /// Calculates fees for direct ACH ticket purchases.
 ///
-/// 5% platform fee + 0.8% ACH fee (capped at $5).
+/// 5% platform fee (on the price without tax) + 0.8% ACH fee (capped at $5),
+/// plus any tax added on top of the price.
 /// Must match server-side create-ach-payment-intent exactly.
 class ACHPurchaseFeeCalculator {
   ACHPurchaseFeeCalculator._();
@@ -377,13 +426,27 @@ class ACHPurchaseFeeCalculator {
   static const double _achFeeRate = 0.008;
   static const int _achFeeCapCents = 500;
 
-  static ACHPurchaseFeeBreakdown calculate(int baseCents) {
+  static ACHPurchaseFeeBreakdown calculate(
+    int baseCents, {
+    EventTax tax = EventTax.none,
+  }) {
     if (baseCents <= 0) {
-      return (baseCents: 0, platformFeeCents: 0, achFeeCents: 0, totalCents: 0);
+      return (
+        baseCents: 0,
+        platformFeeCents: 0,
+        achFeeCents: 0,
+        taxCents: 0,
+        tax: null,
+        totalCents: 0,
+      );
     }
 
-    final platformFeeCents = (baseCents * _platformFeeRate).ceil();
-    final subtotal = baseCents + platformFeeCents;
+    final taxBreakdown = _taxOn(baseCents, tax);
+    final netCents = taxBreakdown?.netCents ?? baseCents;
+
+    final platformFeeCents = (netCents * _platformFeeRate).ceil();
+    final subtotal =
+        baseCents + TaxCalculator.addedCents(taxBreakdown) + platformFeeCents;
     final achFeeCents =
         (subtotal * _achFeeRate).ceil().clamp(0, _achFeeCapCents);
     final totalCents = subtotal + achFeeCents;
@@ -392,6 +455,8 @@ class ACHPurchaseFeeCalculator {
       baseCents: baseCents,
       platformFeeCents: platformFeeCents,
       achFeeCents: achFeeCents,
+      taxCents: taxBreakdown?.taxCents ?? 0,
+      tax: taxBreakdown,
       totalCents: totalCents,
     );
   }
@@ -1,7 +1,11 @@
 /// Discount type for a promo code.
 enum PromoDiscountType {
   percentage('percentage'),
-  fixed('fixed');
+  fixed('fixed'),
+
+  /// Buy [PromoCode.buyQuantity], get [PromoCode.getQuantity] of the
+  /// cheapest tickets [PromoCode.discountValue] percent off.
+  buyXGetY('buy_x_get_y');
 
   final String value;
   const PromoDiscountType(this.value);
@@ -14,32 +18,56 @@ enum PromoDiscountType {
   }
 }
 
-/// A promo code attached to an event.
+/// A promo code attached to an event, or to every occurrence of a series.
 class PromoCode {
   final String id;
-  final String eventId;
+
+  /// Null for series-wide codes.
+  final String? eventId;
+  final String? seriesId;
   final String code;
   final PromoDiscountType discountType;
   final int discountValue;
+  final int? buyQuantity;
+  final int? getQuantity;
   final int? maxUses;
+
+  /// Null means unlimited.
+  final int? maxUsesPerUser;
+  final int? minQuantity;
+  final int? minOrderCents;
   final int currentUses;
   final DateTime? validFrom;
   final DateTime? validUntil;
   final String? ticketTypeId;
+
+  /// Whether it can be combined with other stackable codes.
+  final bool stackable;
+
+  /// Set for bulk-generated codes.
+  final String? batchId;
   final bool isActive;
   final DateTime createdAt;
 
   const PromoCode({
     required this.id,
-    required this.eventId,
+    this.eventId,
+    this.seriesId,
     required this.code,
     required this.discountType,
     required this.discountValue,
+    this.buyQuantity,
+    this.getQuantity,
     this.maxUses,
+    this.maxUsesPerUser = 1,
+    this.minQuantity,
+    this.minOrderCents,
     this.currentUses = 0,
     this.validFrom,
     this.validUntil,
     this.ticketTypeId,
+    this.stackable = false,
+    this.batchId,
     this.isActive = true,
     required this.createdAt,
   });
@@ -47,11 +75,17 @@ class PromoCode {
   factory PromoCode.fromJson(Map<String, dynamic> json) {
     return PromoCode(
       id: json['id'] as String,
-      eventId: json['event_id'] as String,
+      eventId: json['event_id'] as String?,
+      seriesId: json['series_id'] as String?,
       code: json['code'] as String,
       discountType: PromoDiscountType.fromString(json['discount_type'] as String),
       discountValue: json['discount_value'] as int,
+      buyQuantity: json['buy_quantity'] as int?,
+      getQuantity: json['get_quantity'] as int?,
       maxUses: json['max_uses'] as int?,
+      maxUsesPerUser: json['max_uses_per_user'] as int?,
+      minQuantity: json['min_quantity'] as int?,
+      minOrderCents: json['min_order_cents'] as int?,
       currentUses: json['current_uses'] as int? ?? 0,
       validFrom: json['valid_from'] != null
           ? DateTime.parse(json['valid_from'] as String)
@@ -60,17 +94,54 @@ class PromoCode {
           ? DateTime.parse(json['valid_until'] as String)
           : null,
       ticketTypeId: json['ticket_type_id'] as String?,
+      stackable: json['stackable'] as bool? ?? false,
+      batchId: json['batch_id'] as String?,
       isActive: json['is_active'] as bool? ?? true,
       createdAt: DateTime.parse(json['created_at'] as String),
     );
   }
 
-  /// Formatted discount display (e.g., "20% off" or "$5.00 off").
+  /// Whether the code applies to every occurrence of a series.
+  bool get isSeriesWide => seriesId != null;
+
+  /// Copy with a different active state.
+  PromoCode withActive(bool active) {
+    return PromoCode(
+      id: id,
+      eventId: eventId,
+      seriesId: seriesId,
+      code: code,
+      discountType: discountType,
+      discountValue: discountValue,
+      buyQuantity: buyQuantity,
+      getQuantity: getQuantity,
+      maxUses: maxUses,
+      maxUsesPerUser: maxUsesPerUser,
+      minQuantity: minQuantity,
+      minOrderCents: minOrderCents,
+      currentUses: currentUses,
+      validFrom: validFrom,
+      validUntil: validUntil,
+      ticketTypeId: ticketTypeId,
+      stackable: stackable,
+      batchId: batchId,
+      isActive: active,
+      createdAt: createdAt,
+    );
+  }
+
+  /// Formatted discount display (e.g., "20% off", "$5.00 off" or
+  /// "Buy 2 get 1 free").
   String get formattedDiscount {
-    if (discountType == PromoDiscountType.percentage) {
-      return '$discountValue% off';
+    switch (discountType) {
+      case PromoDiscountType.percentage:
+        return '$discountValue% off';
+      case PromoDiscountType.fixed:
+        return '\$${(discountValue / 100).toStringAsFixed(2)} off';
+      case PromoDiscountType.buyXGetY:
+        final reward = discountValue >= 100 ? 'free' : '$discountValue% off';
+        return 'Buy $buyQuantity get $getQuantity $reward';
     }
-    return '\$${(discountValue / 100).toStringAsFixed(2)} off';
   }
 
   /// Usage display (e.g., "12/50 used" or "12 used").
@@ -96,6 +167,9 @@ class PromoValidationResult {
   final int? discountCents;
   final int? discountedPriceCents;
 
+  /// Every applied code with its share of the discount.
+  final List<AppliedPromoCode> codes;
+
   const PromoValidationResult({
     required this.valid,
     this.error,
@@ -104,6 +178,7 @@ class PromoValidationResult {
     this.discountValue,
     this.discountCents,
     this.discountedPriceCents,
+    this.codes = const [],
   });
 
   factory PromoValidationResult.fromJson(Map<String, dynamic> json) {
@@ -115,6 +190,94 @@ class PromoValidationResult {
       discountValue: json['discount_value'] as int?,
       discountCents: json['discount_cents'] as int?,
       discountedPriceCents: json['discounted_price_cents'] as int?,
+      codes: (json['codes'] as List<dynamic>? ?? [])
+          .map((c) => AppliedPromoCode.fromJson(c as Map<String, dynamic>))
+          .toList(),
+    );
+  }
+}
+
+/// One code applied to an order.
+class AppliedPromoCode {
+  final String promoCodeId;
+  final String code;
+  final PromoDiscountType discountType;
+  final int discountCents;
+
+  const AppliedPromoCode({
+    required this.promoCodeId,
+    required this.code,
+    required this.discountType,
+    required this.discountCents,
+  });
+
+  factory AppliedPromoCode.fromJson(Map<String, dynamic> json) {
+    return AppliedPromoCode(
+      promoCodeId: json['promo_code_id'] as String,
+      code: json['code'] as String,
+      discountType: PromoDiscountType.fromString(json['discount_type'] as String),
+      discountCents: json['discount_cents'] as int? ?? 0,
+    );
+  }
+}
+
+/// Redemptions of one code for an event.
+class PromoCodeReport {
+  final String promoCodeId;
+  final String code;
+  final bool seriesWide;
+  final String? batchName;
+  final int redemptions;
+  final int buyers;
+  final int tickets;
+  final int discountCents;
+  final int netOrderCents;
+  final int refunded;
+  final int pending;
+
+  const PromoCodeReport({
+    required this.promoCodeId,
+    required this.code,
+    this.seriesWide = false,
+    this.batchName,
+    this.redemptions = 0,
+    this.buyers = 0,
+    this.tickets = 0,
+    this.discountCents = 0,
+    this.netOrderCents = 0,
+    this.refunded = 0,
+    this.pending = 0,
+  });
+
+  factory PromoCodeReport.fromJson(Map<String, dynamic> json) {
+    int count(String key) => (json[key] as num?)?.toInt() ?? 0;
+    return PromoCodeReport(
+      promoCodeId: json['promo_code_id'] as String,
+      code: json['code'] as String,
+      seriesWide: json['series_wide'] as bool? ?? false,
+      batchName: json['batch_name'] as String?,
+      redemptions: count('redemptions'),
+      buyers: count('buyers'),
+      tickets: count('tickets'),
+      discountCents: count('discount_cents'),
+      netOrderCents: count('net_order_cents'),
+      refunded: count('refunded'),
+      pending: count('pending'),
     );
   }
 }
+
+/// Bulk-generated codes, with the CSV to hand to the partner.
+class PromoCodeBatch {
+  final String id;
+  final String name;
+  final int quantity;
+  final String csv;
+
+  const PromoCodeBatch({
+    required this.id,
+    required this.name,
+    required this.quantity,
+    required this.csv,
+  });
+}
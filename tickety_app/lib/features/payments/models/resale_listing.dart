@@ -32,6 +32,12 @@ class ResaleListing {
   final DateTime createdAt;
   final DateTime updatedAt;
 
+  /// Waitlist entrant this listing is held for during their claim window.
+  final String? reservedFor;
+
+  /// When the waitlist hold lapses.
+  final DateTime? reservedUntil;
+
   /// The ticket being sold (joined data).
   final Ticket? ticket;
 
@@ -47,6 +53,8 @@ class ResaleListing {
     required this.status,
     required this.createdAt,
     required this.updatedAt,
+    this.reservedFor,
+    this.reservedUntil,
     this.ticket,
     this.sellerProfile,
   });
@@ -67,6 +75,10 @@ class ResaleListing {
       status: ResaleListingStatus.fromString(json['status'] as String? ?? 'active'),
       createdAt: DateTime.parse(json['created_at'] as String),
       updatedAt: DateTime.parse(json['updated_at'] as String),
+      reservedFor: json['reserved_for'] as String?,
+      reservedUntil: json['reserved_until'] != null
+          ? DateTime.parse(json['reserved_until'] as String)
+          : null,
       ticket: ticket,
       sellerProfile: json['profiles'] as Map<String, dynamic>?,
     );
@@ -94,6 +106,8 @@ class ResaleListing {
     ResaleListingStatus? status,
     DateTime? createdAt,
     DateTime? updatedAt,
+    String? reservedFor,
+    DateTime? reservedUntil,
     Ticket? ticket,
     Map<String, dynamic>? sellerProfile,
   }) {
@@ -106,11 +120,24 @@ class ResaleListing {
       status: status ?? this.status,
       createdAt: createdAt ?? this.createdAt,
       updatedAt: updatedAt ?? this.updatedAt,
+      reservedFor: reservedFor ?? this.reservedFor,
+      reservedUntil: reservedUntil ?? this.reservedUntil,
       ticket: ticket ?? this.ticket,
       sellerProfile: sellerProfile ?? this.sellerProfile,
     );
   }
 
+  /// Whether the listing is held for a waitlist entrant's claim window.
+  bool isHeld({DateTime? now}) =>
+      reservedFor != null &&
+      reservedUntil != null &&
+      reservedUntil!.isAfter(now ?? DateTime.now());
+
+  /// Whether the listing is held for someone other than [userId], who can't
+  /// buy it until the hold lapses.
+  bool isHeldForOther(String? userId, {DateTime? now}) =>
+      isHeld(now: now) && reservedFor != userId;
+
   /// Formatted listing price (e.g., "$49.99").
   String get formattedPrice {
     final dollars = priceCents / 100;
@@ -1,3 +1,5 @@
+import '../../../core/utils/currency_formatter.dart';
+
 /// Model representing a seller's balance from their Stripe Connect account.
 ///
 /// Funds are held by Stripe (a licensed money transmitter), not by Tickety.
@@ -24,6 +26,10 @@ class SellerBalance {
   /// Currency code (e.g., 'usd').
   final String currency;
 
+  /// Balance in every currency the seller has been paid in, USD first.
+  /// The top-level amounts are the USD entry.
+  final List<CurrencyBalance> balances;
+
   const SellerBalance({
     required this.hasAccount,
     required this.availableBalanceCents,
@@ -32,6 +38,7 @@ class SellerBalance {
     required this.detailsSubmitted,
     required this.needsOnboarding,
     this.currency = 'usd',
+    this.balances = const [],
   });
 
   /// Creates an empty balance for users without a seller account.
@@ -42,7 +49,8 @@ class SellerBalance {
         payoutsEnabled = false,
         detailsSubmitted = false,
         needsOnboarding = true,
-        currency = 'usd';
+        currency = 'usd',
+        balances = const [];
 
   factory SellerBalance.fromJson(Map<String, dynamic> json) {
     return SellerBalance(
@@ -53,9 +61,18 @@ class SellerBalance {
       detailsSubmitted: json['details_submitted'] as bool? ?? false,
       needsOnboarding: json['needs_onboarding'] as bool? ?? true,
       currency: json['currency'] as String? ?? 'usd',
+      balances: (json['balances'] as List<dynamic>?)
+              ?.map((b) => CurrencyBalance.fromJson(b as Map<String, dynamic>))
+              .toList() ??
+          const [],
     );
   }
 
+  /// Non-USD balances that hold funds, withdrawn separately.
+  List<CurrencyBalance> get otherCurrencyBalances => balances
+      .where((b) => b.currency != currency && b.totalCents > 0)
+      .toList();
+
   /// Total balance (available + pending) in cents.
   int get totalBalanceCents => availableBalanceCents + pendingBalanceCents;
 
@@ -93,6 +110,33 @@ class SellerBalance {
   }
 }
 
+/// A seller's Stripe balance in one currency, in its minor units.
+class CurrencyBalance {
+  final String currency;
+  final int availableCents;
+  final int pendingCents;
+
+  const CurrencyBalance({
+    required this.currency,
+    required this.availableCents,
+    required this.pendingCents,
+  });
+
+  factory CurrencyBalance.fromJson(Map<String, dynamic> json) {
+    return CurrencyBalance(
+      currency: (json['currency'] as String? ?? 'usd').toLowerCase(),
+      availableCents: json['available_cents'] as int? ?? 0,
+      pendingCents: json['pending_cents'] as int? ?? 0,
+    );
+  }
+
+  int get totalCents => availableCents + pendingCents;
+
+  /// Formatted available amount (e.g., "€12.34").
+  String get formattedAvailable =>
+      CurrencyFormatter.format(availableCents, currencyCode: currency);
+}
+
 /// Result of a withdrawal attempt.
 class WithdrawalResult {
   /// Whether the withdrawal was successful.
@@ -116,6 +160,9 @@ class WithdrawalResult {
   /// Remaining balance after withdrawal (if successful).
   final int? remainingBalanceCents;
 
+  /// Currency of [amountCents] and [remainingBalanceCents].
+  final String currency;
+
   /// Error message (if failed).
   final String? errorMessage;
 
@@ -127,6 +174,7 @@ class WithdrawalResult {
     this.amountCents,
     this.estimatedArrival,
     this.remainingBalanceCents,
+    this.currency = 'usd',
     this.errorMessage,
   });
 
@@ -141,6 +189,7 @@ class WithdrawalResult {
           ? DateTime.parse(json['estimated_arrival'] as String)
           : null,
       remainingBalanceCents: json['remaining_balance_cents'] as int?,
+      currency: json['currency'] as String? ?? 'usd',
       errorMessage: json['error'] as String? ?? json['message'] as String?,
     );
   }
@@ -148,8 +197,7 @@ class WithdrawalResult {
   /// Formatted withdrawal amount (e.g., "$12.34").
   String? get formattedAmount {
     if (amountCents == null) return null;
-    final dollars = amountCents! / 100;
-    return '\$${dollars.toStringAsFixed(2)}';
+    return CurrencyFormatter.format(amountCents!, currencyCode: currency);
   }
 
   @override
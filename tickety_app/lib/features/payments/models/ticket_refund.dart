@@ -0,0 +1,119 @@
+import '../../../core/utils/currency_formatter.dart';
+
+/// Status of a ticket refund.
+enum TicketRefundStatus {
+  /// Waiting for the organizer (outside the event's refund policy).
+  requested('requested'),
+  refunded('refunded'),
+  declined('declined'),
+
+  /// Stripe rejected the refund; the buyer can ask again.
+  failed('failed');
+
+  final String value;
+  const TicketRefundStatus(this.value);
+
+  static TicketRefundStatus fromString(String? value) {
+    return TicketRefundStatus.values.firstWhere(
+      (s) => s.value == value,
+      orElse: () => TicketRefundStatus.requested,
+    );
+  }
+
+  bool get isOpen => this == requested;
+}
+
+/// A refund of one ticket, or a buyer's request for one.
+class TicketRefund {
+  final String id;
+  final String ticketId;
+  final String? paymentId;
+  final String eventId;
+  final String? requestedBy;
+  final TicketRefundStatus status;
+
+  /// Share of the ticket price refunded (null while requested).
+  final int? refundPercent;
+
+  /// Total returned to the buyer, including [feeCents].
+  final int amountCents;
+
+  /// The ticket's share of the service fee included in [amountCents].
+  final int feeCents;
+
+  /// Tax included in [amountCents].
+  final int taxCents;
+
+  final String currency;
+
+  /// The buyer's reason for asking.
+  final String? reason;
+
+  /// 'policy' when approved automatically, else the deciding user's id.
+  final String? decidedBy;
+
+  final DateTime? decidedAt;
+
+  /// The organizer's note when declining.
+  final String? decisionNote;
+
+  final DateTime createdAt;
+
+  /// Ticket number (joined data).
+  final String? ticketNumber;
+
+  /// Ticket holder's name (joined data).
+  final String? ownerName;
+
+  const TicketRefund({
+    required this.id,
+    required this.ticketId,
+    this.paymentId,
+    required this.eventId,
+    this.requestedBy,
+    required this.status,
+    this.refundPercent,
+    this.amountCents = 0,
+    this.feeCents = 0,
+    this.taxCents = 0,
+    this.currency = 'usd',
+    this.reason,
+    this.decidedBy,
+    this.decidedAt,
+    this.decisionNote,
+    required this.createdAt,
+    this.ticketNumber,
+    this.ownerName,
+  });
+
+  /// Approved automatically under the event's refund policy.
+  bool get isAutomatic => decidedBy == 'policy';
+
+  String get formattedAmount => CurrencyFormatter.format(amountCents, currencyCode: currency);
+
+  factory TicketRefund.fromJson(Map<String, dynamic> json) {
+    final ticket = json['tickets'] as Map<String, dynamic>?;
+    return TicketRefund(
+      id: json['id'] as String,
+      ticketId: json['ticket_id'] as String,
+      paymentId: json['payment_id'] as String?,
+      eventId: json['event_id'] as String,
+      requestedBy: json['requested_by'] as String?,
+      status: TicketRefundStatus.fromString(json['status'] as String?),
+      refundPercent: json['refund_percent'] as int?,
+      amountCents: json['amount_cents'] as int? ?? 0,
+      feeCents: json['fee_cents'] as int? ?? 0,
+      taxCents: json['tax_cents'] as int? ?? 0,
+      currency: json['currency'] as String? ?? 'usd',
+      reason: json['reason'] as String?,
+      decidedBy: json['decided_by'] as String?,
+      decidedAt: json['decided_at'] != null
+          ? DateTime.parse(json['decided_at'] as String)
+          : null,
+      decisionNote: json['decision_note'] as String?,
+      createdAt: DateTime.parse(json['created_at'] as String),
+      ticketNumber: ticket?['ticket_number'] as String?,
+      ownerName: ticket?['owner_name'] as String?,
+    );
+  }
+}
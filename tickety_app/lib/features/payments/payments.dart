@@ -8,6 +8,7 @@ export 'data/resale_repository.dart';
 export 'models/payment.dart';
 export 'models/payment_method.dart';
 export 'models/resale_listing.dart';
+export 'models/ticket_refund.dart';
 export 'presentation/checkout_screen.dart';
 export 'presentation/payment_success_screen.dart';
 export 'presentation/payment_test_screen.dart';
@@ -7,7 +7,9 @@ import 'package:flutter_stripe/flutter_stripe.dart';
 
 import '../../../core/localization/localization.dart';
 import '../../../core/providers/providers.dart';
+import '../../../core/utils/currency_formatter.dart';
 import '../../events/models/event_model.dart';
+import '../../events/models/event_tax.dart';
 import '../models/payment_method.dart';
 import '../../wallet/data/wallet_repository.dart';
 import '../../wallet/models/linked_bank_account.dart';
@@ -101,9 +103,14 @@ class _CheckoutScreenState extends ConsumerState<CheckoutScreen> {
     }
   }
 
+  /// Currency the event is priced in; every amount on this screen is in it.
+  String get _currency => widget.event.currency.toLowerCase();
+
   /// Whether bank payment is available for this purchase type.
+  /// Bank (ACH) transfers settle in USD only.
   bool get _canUseBank =>
       widget.paymentType == PaymentType.primaryPurchase &&
+      _currency == 'usd' &&
       widget.event.priceInCents != null &&
       widget.event.priceInCents! > 0;
 
@@ -119,7 +126,12 @@ class _CheckoutScreenState extends ConsumerState<CheckoutScreen> {
       (widget.baseUnitPriceCents ?? widget.event.priceInCents ?? 0) *
       widget.quantity;
 
-  /// Discount cents from promo code.
+  /// Ticket types and quantities for server-side promo pricing.
+  List<Map<String, dynamic>>? get _ticketItems =>
+      (widget.metadata?['ticket_items'] as List?)
+          ?.cast<Map<String, dynamic>>();
+
+  /// Discount cents from promo codes.
   int get _promoDiscountCents {
     final promoState = ref.read(promoValidationProvider);
     return promoState.discountCents;
@@ -129,14 +141,24 @@ class _CheckoutScreenState extends ConsumerState<CheckoutScreen> {
   int get _discountedBaseCents =>
       (_rawBaseCents - _promoDiscountCents).clamp(0, _rawBaseCents);
 
+  /// Sales tax / VAT applies to tickets sold by the organizer, not resales.
+  EventTax get _tax => widget.paymentType == PaymentType.primaryPurchase ||
+          widget.paymentType == PaymentType.favorTicketPurchase
+      ? widget.event.tax
+      : EventTax.none;
+
   /// The total for a bank (ACH) purchase.
   ACHPurchaseFeeBreakdown get _bankFees {
-    return ACHPurchaseFeeCalculator.calculate(_discountedBaseCents);
+    return ACHPurchaseFeeCalculator.calculate(_discountedBaseCents, tax: _tax);
   }
 
   /// The total for a card purchase (existing fee structure).
   FeeBreakdown get _cardFees {
-    return ServiceFeeCalculator.calculate(_discountedBaseCents);
+    return ServiceFeeCalculator.calculate(
+      _discountedBaseCents,
+      currency: _currency,
+      tax: _tax,
+    );
   }
 
   /// The savings when using bank vs card.
@@ -161,10 +183,10 @@ class _CheckoutScreenState extends ConsumerState<CheckoutScreen> {
         success = await notifier.initializePrimaryPurchase(
           eventId: widget.event.id,
           amountCents: effectiveAmount,
-          currency: ref.read(currencyCodeProvider),
+          currency: _currency,
           quantity: widget.quantity,
           metadata: widget.metadata,
-          promoCodeId: promoState.promoCodeId,
+          promoCodes: promoState.appliedCodes,
           seatSelections: seatSelections?.cast<Map<String, dynamic>>(),
         );
       case PaymentType.resalePurchase:
@@ -175,7 +197,7 @@ class _CheckoutScreenState extends ConsumerState<CheckoutScreen> {
         success = await notifier.initializeResalePurchase(
           resaleListingId: widget.resaleListingId!,
           amountCents: widget.amountCents,
-          currency: ref.read(currencyCodeProvider),
+          currency: _currency,
         );
       case PaymentType.vendorPos:
         success = await notifier.initializeVendorPOS(
@@ -215,16 +237,22 @@ class _CheckoutScreenState extends ConsumerState<CheckoutScreen> {
     final code = _promoController.text.trim();
     if (code.isEmpty) return;
 
+    // Card payment is re-initialized by the listener in build()
     ref.read(promoValidationProvider.notifier).validateCode(
       eventId: widget.event.id,
       code: code,
-      basePriceCents: _rawBaseCents,
+      quantity: widget.quantity,
+      ticketItems: _ticketItems,
     );
+  }
 
-    // Re-initialize card payment after validation completes
-    Future.delayed(const Duration(milliseconds: 100), () {
-      // Watch for state changes via listener below
-    });
+  void _removePromoCode(String code) {
+    ref.read(promoValidationProvider.notifier).removeCode(
+      eventId: widget.event.id,
+      code: code,
+      quantity: widget.quantity,
+      ticketItems: _ticketItems,
+    );
   }
 
   Future<void> _handlePay() async {
@@ -317,7 +345,7 @@ class _CheckoutScreenState extends ConsumerState<CheckoutScreen> {
         quantity: widget.quantity,
         paymentMethodId: bank.stripePaymentMethodId,
         amountCents: _bankFees.totalCents,
-        promoCodeId: promoState.promoCodeId,
+        promoCodes: promoState.appliedCodes,
         seatSelections: seatSelections?.cast<Map<String, dynamic>>(),
       );
 
@@ -355,13 +383,17 @@ class _CheckoutScreenState extends ConsumerState<CheckoutScreen> {
 
     final promoState = ref.watch(promoValidationProvider);
 
-    // Re-initialize card payment when promo code is applied/removed
+    // Re-initialize card payment when the promo discount changes
     ref.listen<PromoValidationState>(promoValidationProvider, (prev, next) {
-      final hadDiscount = prev?.hasDiscount ?? false;
-      final hasDiscount = next.hasDiscount;
-      if (hadDiscount != hasDiscount && !next.isValidating) {
+      if (next.isValidating) return;
+      if ((prev?.hasDiscount ?? false) != next.hasDiscount ||
+          (prev?.discountCents ?? 0) != next.discountCents) {
         _initializePayment();
       }
+      if (next.appliedCodes.length > (prev?.appliedCodes.length ?? 0)) {
+        _promoController.clear();
+        setState(() => _promoExpanded = false);
+      }
     });
 
     final bankAvailable = _canUseBank && _hasLinkedBank && !_isBankLoading;
@@ -401,54 +433,55 @@ class _CheckoutScreenState extends ConsumerState<CheckoutScreen> {
                     // Promo code section (primary purchases only)
                     if (widget.paymentType == PaymentType.primaryPurchase) ...[
                       if (promoState.hasDiscount) ...[
-                        // Applied state: green chip
-                        Container(
-                          padding: const EdgeInsets.symmetric(
-                            horizontal: 16,
-                            vertical: 12,
-                          ),
-                          decoration: BoxDecoration(
-                            color: Colors.green.withValues(alpha: 0.1),
-                            borderRadius: BorderRadius.circular(12),
-                            border: Border.all(
-                              color: Colors.green.withValues(alpha: 0.3),
-                            ),
-                          ),
-                          child: Row(
-                            children: [
-                              Icon(
-                                Icons.check_circle,
-                                color: Colors.green.shade700,
-                                size: 20,
+                        // Applied state: one green chip per code
+                        for (final applied in promoState.result!.codes)
+                          Padding(
+                            padding: const EdgeInsets.only(bottom: 8),
+                            child: Container(
+                              padding: const EdgeInsets.symmetric(
+                                horizontal: 16,
+                                vertical: 12,
                               ),
-                              const SizedBox(width: 10),
-                              Expanded(
-                                child: Text(
-                                  '${promoState.appliedCode}: -${_formatAmount(promoState.discountCents)}',
-                                  style: theme.textTheme.bodyMedium?.copyWith(
-                                    color: Colors.green.shade700,
-                                    fontWeight: FontWeight.w600,
-                                  ),
+                              decoration: BoxDecoration(
+                                color: Colors.green.withValues(alpha: 0.1),
+                                borderRadius: BorderRadius.circular(12),
+                                border: Border.all(
+                                  color: Colors.green.withValues(alpha: 0.3),
                                 ),
                               ),
-                              IconButton(
-                                icon: const Icon(Icons.close, size: 18),
-                                color: Colors.green.shade700,
-                                padding: EdgeInsets.zero,
-                                constraints: const BoxConstraints(),
-                                onPressed: () {
-                                  ref
-                                      .read(promoValidationProvider.notifier)
-                                      .clearCode();
-                                  _promoController.clear();
-                                  // Re-initialize payment with original amount
-                                  _initializePayment();
-                                },
+                              child: Row(
+                                children: [
+                                  Icon(
+                                    Icons.check_circle,
+                                    color: Colors.green.shade700,
+                                    size: 20,
+                                  ),
+                                  const SizedBox(width: 10),
+                                  Expanded(
+                                    child: Text(
+                                      '${applied.code}: -${_formatAmount(applied.discountCents)}',
+                                      style:
+                                          theme.textTheme.bodyMedium?.copyWith(
+                                        color: Colors.green.shade700,
+                                        fontWeight: FontWeight.w600,
+                                      ),
+                                    ),
+                                  ),
+                                  IconButton(
+                                    icon: const Icon(Icons.close, size: 18),
+                                    color: Colors.green.shade700,
+                                    padding: EdgeInsets.zero,
+                                    constraints: const BoxConstraints(),
+                                    onPressed: promoState.isValidating
+                                        ? null
+                                        : () => _removePromoCode(applied.code),
+                                  ),
+                                ],
                               ),
-                            ],
+                            ),
                           ),
-                        ),
-                      ] else if (_promoExpanded) ...[
+                      ],
+                      if (_promoExpanded) ...[
                         // Expanded: input field + apply button
                         Row(
                           children: [
@@ -509,7 +542,9 @@ class _CheckoutScreenState extends ConsumerState<CheckoutScreen> {
                               Icons.discount_outlined,
                               size: 18,
                             ),
-                            label: Text(L.tr('payments_have_promo_code')),
+                            label: Text(L.tr(promoState.hasDiscount
+                                ? 'payments_add_promo_code'
+                                : 'payments_have_promo_code')),
                             style: TextButton.styleFrom(
                               padding: EdgeInsets.zero,
                             ),
@@ -568,6 +603,8 @@ class _CheckoutScreenState extends ConsumerState<CheckoutScreen> {
                             ? _cardFees.totalCents
                             : widget.amountCents,
                         paymentType: widget.paymentType,
+                        currency: _currency,
+                        tax: _tax,
                         discountCents: _promoDiscountCents,
                         promoCode: promoState.appliedCode,
                       ),
@@ -797,10 +834,8 @@ class _CheckoutScreenState extends ConsumerState<CheckoutScreen> {
         : _handlePay;
   }
 
-  String _formatAmount(int cents) {
-    final dollars = cents / 100;
-    return '\$${dollars.toStringAsFixed(2)}';
-  }
+  String _formatAmount(int cents) =>
+      CurrencyFormatter.format(cents, currencyCode: _currency);
 }
 
 // ============================================================
@@ -1024,6 +1059,8 @@ class _BankOrderSummaryCard extends StatelessWidget {
             amount: _formatAmount(bankFees.achFeeCents),
             isSubtle: true,
           ),
+          if (bankFees.tax != null && !bankFees.tax!.inclusive)
+            _TaxRows(tax: bankFees.tax!, formatAmount: _formatAmount),
           const SizedBox(height: 12),
           Divider(color: colorScheme.outline.withValues(alpha: 0.2)),
           const SizedBox(height: 12),
@@ -1032,6 +1069,8 @@ class _BankOrderSummaryCard extends StatelessWidget {
             amount: _formatAmount(bankFees.totalCents),
             isBold: true,
           ),
+          if (bankFees.tax != null && bankFees.tax!.inclusive)
+            _TaxRows(tax: bankFees.tax!, formatAmount: _formatAmount),
           if (savings > 0) ...[
             const SizedBox(height: 12),
             Container(
@@ -1266,6 +1305,8 @@ class _OrderSummaryCard extends StatelessWidget {
     required this.unitPriceCents,
     required this.totalCents,
     required this.paymentType,
+    required this.currency,
+    this.tax = EventTax.none,
     this.discountCents = 0,
     this.promoCode,
   });
@@ -1274,6 +1315,8 @@ class _OrderSummaryCard extends StatelessWidget {
   final int unitPriceCents;
   final int totalCents;
   final PaymentType paymentType;
+  final String currency;
+  final EventTax tax;
   final int discountCents;
   final String? promoCode;
 
@@ -1292,8 +1335,13 @@ class _OrderSummaryCard extends StatelessWidget {
 
     final baseCents = isPrimaryOrFavor ? unitPriceCents * quantity : 0;
     final fees = isPrimaryOrFavor && baseCents > 0
-        ? ServiceFeeCalculator.calculate(baseCents)
+        ? ServiceFeeCalculator.calculate(
+            (baseCents - discountCents).clamp(0, baseCents),
+            currency: currency,
+            tax: tax,
+          )
         : null;
+    final taxBreakdown = fees?.tax;
 
     return Container(
       padding: const EdgeInsets.all(16),
@@ -1362,6 +1410,8 @@ class _OrderSummaryCard extends StatelessWidget {
               ],
             ),
           ],
+          if (taxBreakdown != null && !taxBreakdown.inclusive)
+            _TaxRows(tax: taxBreakdown, formatAmount: _formatAmount),
           if (isResale) ...[
             const SizedBox(height: 8),
             Row(
@@ -1416,14 +1466,41 @@ class _OrderSummaryCard extends StatelessWidget {
               ),
             ],
           ),
+          if (taxBreakdown != null && taxBreakdown.inclusive)
+            _TaxRows(tax: taxBreakdown, formatAmount: _formatAmount),
         ],
       ),
     );
   }
 
-  String _formatAmount(int cents) {
-    final dollars = cents / 100;
-    return '\$${dollars.toStringAsFixed(2)}';
+  String _formatAmount(int cents) =>
+      CurrencyFormatter.format(cents, currencyCode: currency);
+}
+
+/// One row per tax rate: added above the total, or noted under it as
+/// "Includes ..." when the ticket price already contains the tax.
+class _TaxRows extends StatelessWidget {
+  const _TaxRows({required this.tax, required this.formatAmount});
+
+  final TaxBreakdown tax;
+  final String Function(int cents) formatAmount;
+
+  @override
+  Widget build(BuildContext context) {
+    return Column(
+      children: [
+        for (final line in tax.lines) ...[
+          const SizedBox(height: 4),
+          _SummaryRow(
+            label: tax.inclusive
+                ? 'Includes ${line.name} (${formatTaxRate(line.rateBps)})'
+                : '${line.name} (${formatTaxRate(line.rateBps)})',
+            amount: formatAmount(line.taxCents),
+            isSubtle: true,
+          ),
+        ],
+      ],
+    );
   }
 }
 
@@ -2,6 +2,7 @@ import 'dart:math';
 
 import 'package:flutter/material.dart';
 import 'package:flutter_riverpod/flutter_riverpod.dart';
+import 'package:share_plus/share_plus.dart';
 
 import '../../../core/localization/localization.dart';
 import '../../../core/providers/providers.dart';
@@ -25,7 +26,7 @@ class _PromoCodesScreenState extends ConsumerState<PromoCodesScreen> {
     Future.microtask(() {
       ref
           .read(promoCodeManagementProvider(widget.event.id).notifier)
-          .loadCodes(widget.event.id);
+          .loadCodes(widget.event.id, seriesId: widget.event.seriesId);
     });
   }
 
@@ -36,7 +37,21 @@ class _PromoCodesScreenState extends ConsumerState<PromoCodesScreen> {
     final state = ref.watch(promoCodeManagementProvider(widget.event.id));
 
     return Scaffold(
-      appBar: AppBar(title: Text(L.tr('promo_codes_title'))),
+      appBar: AppBar(
+        title: Text(L.tr('promo_codes_title')),
+        actions: [
+          IconButton(
+            icon: const Icon(Icons.bar_chart),
+            tooltip: L.tr('promo_report_title'),
+            onPressed: () => _showReportSheet(context),
+          ),
+          IconButton(
+            icon: const Icon(Icons.library_add_outlined),
+            tooltip: L.tr('promo_bulk_title'),
+            onPressed: () => _showBulkSheet(context),
+          ),
+        ],
+      ),
       floatingActionButton: FloatingActionButton.extended(
         onPressed: () => _showCreateSheet(context),
         icon: const Icon(Icons.add),
@@ -110,6 +125,7 @@ class _PromoCodesScreenState extends ConsumerState<PromoCodesScreen> {
       backgroundColor: Colors.transparent,
       builder: (context) => _CreatePromoCodeSheet(
         eventId: widget.event.id,
+        seriesId: widget.event.seriesId,
         ticketPriceCents: widget.event.priceInCents ?? 0,
         onCreated: () {
           // State already updated by notifier
@@ -117,6 +133,27 @@ class _PromoCodesScreenState extends ConsumerState<PromoCodesScreen> {
       ),
     );
   }
+
+  void _showBulkSheet(BuildContext context) {
+    showModalBottomSheet(
+      context: context,
+      isScrollControlled: true,
+      backgroundColor: Colors.transparent,
+      builder: (context) => _BulkPromoCodesSheet(
+        eventId: widget.event.id,
+        seriesId: widget.event.seriesId,
+      ),
+    );
+  }
+
+  void _showReportSheet(BuildContext context) {
+    showModalBottomSheet(
+      context: context,
+      isScrollControlled: true,
+      backgroundColor: Colors.transparent,
+      builder: (context) => _PromoReportSheet(eventId: widget.event.id),
+    );
+  }
 }
 
 // ============================================================
@@ -196,21 +233,21 @@ class _PromoCodeCard extends StatelessWidget {
           // Details row
           Padding(
             padding: const EdgeInsets.symmetric(horizontal: 20),
-            child: Row(
+            child: Wrap(
+              spacing: 12,
+              runSpacing: 6,
               children: [
                 _DetailChip(
                   icon: Icons.percent,
                   label: code.formattedDiscount,
                   color: colorScheme.secondary,
                 ),
-                const SizedBox(width: 12),
                 _DetailChip(
                   icon: Icons.people_outline,
                   label: code.formattedUsage,
                   color: colorScheme.tertiary,
                 ),
-                if (code.validUntil != null) ...[
-                  const SizedBox(width: 12),
+                if (code.validUntil != null)
                   _DetailChip(
                     icon: Icons.schedule,
                     label: _formatDate(code.validUntil!),
@@ -218,7 +255,30 @@ class _PromoCodeCard extends StatelessWidget {
                         ? Colors.red
                         : colorScheme.onSurfaceVariant,
                   ),
-                ],
+                if (code.isSeriesWide)
+                  _DetailChip(
+                    icon: Icons.repeat,
+                    label: L.tr('promo_series_wide'),
+                    color: colorScheme.primary,
+                  ),
+                if (code.stackable)
+                  _DetailChip(
+                    icon: Icons.layers_outlined,
+                    label: L.tr('promo_stackable'),
+                    color: colorScheme.primary,
+                  ),
+                if (code.minQuantity != null)
+                  _DetailChip(
+                    icon: Icons.confirmation_number_outlined,
+                    label: L.tr('promo_min_tickets_chip', [code.minQuantity]),
+                    color: colorScheme.onSurfaceVariant,
+                  ),
+                if (code.batchId != null)
+                  _DetailChip(
+                    icon: Icons.inventory_2_outlined,
+                    label: L.tr('promo_bulk_code'),
+                    color: colorScheme.onSurfaceVariant,
+                  ),
               ],
             ),
           ),
@@ -289,11 +349,15 @@ class _DetailChip extends StatelessWidget {
 
 class _CreatePromoCodeSheet extends ConsumerStatefulWidget {
   final String eventId;
+
+  /// Set when the event is part of a series, which allows series-wide codes.
+  final String? seriesId;
   final int ticketPriceCents;
   final VoidCallback onCreated;
 
   const _CreatePromoCodeSheet({
     required this.eventId,
+    this.seriesId,
     required this.ticketPriceCents,
     required this.onCreated,
   });
@@ -306,10 +370,17 @@ class _CreatePromoCodeSheet extends ConsumerStatefulWidget {
 class _CreatePromoCodeSheetState
     extends ConsumerState<_CreatePromoCodeSheet> {
   final _codeController = TextEditingController();
-  bool _isPercentage = true;
+  PromoDiscountType _type = PromoDiscountType.percentage;
   int _percentValue = 20;
   int _fixedValueCents = 500;
+  int _buyQuantity = 2;
+  int _getQuantity = 1;
   int? _maxUses;
+  int? _maxUsesPerUser = 1;
+  int? _minQuantity;
+  int? _minOrderCents;
+  bool _stackable = false;
+  bool _seriesWide = false;
   bool _isCreating = false;
   String? _error;
 
@@ -336,9 +407,18 @@ class _CreatePromoCodeSheetState
     );
   }
 
+  bool get _isPercentage => _type == PromoDiscountType.percentage;
+
   String get _discountPreview {
     if (widget.ticketPriceCents == 0) return 'Free event';
     final price = widget.ticketPriceCents;
+    if (_type == PromoDiscountType.buyXGetY) {
+      // Price per ticket when buying one full group
+      final group = _buyQuantity + _getQuantity;
+      final total = price * group -
+          (price * _getQuantity * _percentValue / 100).round();
+      return '${group}x \$${(price / 100).toStringAsFixed(2)} -> \$${(total / 100).toStringAsFixed(2)}';
+    }
     int discounted;
     if (_isPercentage) {
       discounted = (price * (1 - _percentValue / 100)).round();
@@ -362,14 +442,22 @@ class _CreatePromoCodeSheetState
 
     final notifier =
         ref.read(promoCodeManagementProvider(widget.eventId).notifier);
+    final isBuyXGetY = _type == PromoDiscountType.buyXGetY;
     final success = await notifier.createCode(
       eventId: widget.eventId,
+      seriesId: _seriesWide ? widget.seriesId : null,
       code: code,
-      discountType: _isPercentage
-          ? PromoDiscountType.percentage
-          : PromoDiscountType.fixed,
-      discountValue: _isPercentage ? _percentValue : _fixedValueCents,
+      discountType: _type,
+      discountValue: _type == PromoDiscountType.fixed
+          ? _fixedValueCents
+          : _percentValue,
+      buyQuantity: isBuyXGetY ? _buyQuantity : null,
+      getQuantity: isBuyXGetY ? _getQuantity : null,
       maxUses: _maxUses,
+      maxUsesPerUser: _maxUsesPerUser,
+      minQuantity: _minQuantity,
+      minOrderCents: _minOrderCents,
+      stackable: _stackable,
     );
 
     if (mounted) {
@@ -394,6 +482,24 @@ class _CreatePromoCodeSheetState
     }
   }
 
+  InputDecoration _fieldDecoration(
+    ColorScheme colorScheme, {
+    required String label,
+    String? hint,
+    required IconData icon,
+  }) {
+    return InputDecoration(
+      labelText: label,
+      hintText: hint,
+      prefixIcon: Icon(icon, size: 20),
+      border: OutlineInputBorder(
+        borderRadius: BorderRadius.circular(12),
+      ),
+      filled: true,
+      fillColor: colorScheme.surfaceContainerHighest.withValues(alpha: 0.5),
+    );
+  }
+
   @override
   Widget build(BuildContext context) {
     final theme = Theme.of(context);
@@ -473,15 +579,27 @@ class _CreatePromoCodeSheetState
                   Expanded(
                     child: _ToggleButton(
                       label: L.tr('promo_percentage'),
-                      isSelected: _isPercentage,
-                      onTap: () => setState(() => _isPercentage = true),
+                      isSelected: _type == PromoDiscountType.percentage,
+                      onTap: () => setState(
+                          () => _type = PromoDiscountType.percentage),
                     ),
                   ),
                   Expanded(
                     child: _ToggleButton(
                       label: L.tr('promo_fixed_amount'),
-                      isSelected: !_isPercentage,
-                      onTap: () => setState(() => _isPercentage = false),
+                      isSelected: _type == PromoDiscountType.fixed,
+                      onTap: () =>
+                          setState(() => _type = PromoDiscountType.fixed),
+                    ),
+                  ),
+                  Expanded(
+                    child: _ToggleButton(
+                      label: L.tr('promo_buy_x_get_y'),
+                      isSelected: _type == PromoDiscountType.buyXGetY,
+                      onTap: () => setState(() {
+                        _type = PromoDiscountType.buyXGetY;
+                        _percentValue = 100;
+                      }),
                     ),
                   ),
                 ],
@@ -489,7 +607,46 @@ class _CreatePromoCodeSheetState
             ),
             const SizedBox(height: 20),
             // Value input
-            if (_isPercentage) ...[
+            if (_type == PromoDiscountType.buyXGetY) ...[
+              Row(
+                children: [
+                  Expanded(
+                    child: _QuantityStepper(
+                      label: L.tr('promo_buy_quantity'),
+                      value: _buyQuantity,
+                      onChanged: (v) => setState(() => _buyQuantity = v),
+                    ),
+                  ),
+                  const SizedBox(width: 12),
+                  Expanded(
+                    child: _QuantityStepper(
+                      label: L.tr('promo_get_quantity'),
+                      value: _getQuantity,
+                      onChanged: (v) => setState(() => _getQuantity = v),
+                    ),
+                  ),
+                ],
+              ),
+              const SizedBox(height: 12),
+              Text(
+                _percentValue == 100
+                    ? L.tr('promo_get_free')
+                    : '$_percentValue% off',
+                style: theme.textTheme.titleLarge?.copyWith(
+                  fontWeight: FontWeight.bold,
+                  color: colorScheme.primary,
+                ),
+              ),
+              Slider(
+                value: _percentValue.toDouble(),
+                min: 10,
+                max: 100,
+                divisions: 18,
+                label: '$_percentValue%',
+                onChanged: (v) =>
+                    setState(() => _percentValue = v.round()),
+              ),
+            ] else if (_isPercentage) ...[
               Text(
                 '$_percentValue% off',
                 style: theme.textTheme.headlineMedium?.copyWith(
@@ -585,6 +742,69 @@ class _CreatePromoCodeSheetState
                 setState(() => _maxUses = parsed);
               },
             ),
+            const SizedBox(height: 12),
+            // Per-buyer limit (blank = unlimited)
+            TextFormField(
+              initialValue: '1',
+              keyboardType: TextInputType.number,
+              decoration: _fieldDecoration(
+                colorScheme,
+                label: L.tr('promo_max_uses_per_user'),
+                hint: L.tr('promo_max_uses_hint'),
+                icon: Icons.person_outline,
+              ),
+              onChanged: (v) => setState(() => _maxUsesPerUser = int.tryParse(v)),
+            ),
+            const SizedBox(height: 12),
+            Row(
+              children: [
+                Expanded(
+                  child: TextField(
+                    keyboardType: TextInputType.number,
+                    decoration: _fieldDecoration(
+                      colorScheme,
+                      label: L.tr('promo_min_tickets'),
+                      icon: Icons.confirmation_number_outlined,
+                    ),
+                    onChanged: (v) =>
+                        setState(() => _minQuantity = int.tryParse(v)),
+                  ),
+                ),
+                const SizedBox(width: 12),
+                Expanded(
+                  child: TextField(
+                    keyboardType:
+                        const TextInputType.numberWithOptions(decimal: true),
+                    decoration: _fieldDecoration(
+                      colorScheme,
+                      label: L.tr('promo_min_order'),
+                      icon: Icons.attach_money,
+                    ),
+                    onChanged: (v) {
+                      final dollars = double.tryParse(v);
+                      setState(() => _minOrderCents =
+                          dollars == null ? null : (dollars * 100).round());
+                    },
+                  ),
+                ),
+              ],
+            ),
+            const SizedBox(height: 8),
+            SwitchListTile(
+              contentPadding: EdgeInsets.zero,
+              title: Text(L.tr('promo_stackable')),
+              subtitle: Text(L.tr('promo_stackable_hint')),
+              value: _stackable,
+              onChanged: (v) => setState(() => _stackable = v),
+            ),
+            if (widget.seriesId != null)
+              SwitchListTile(
+                contentPadding: EdgeInsets.zero,
+                title: Text(L.tr('promo_series_wide')),
+                subtitle: Text(L.tr('promo_series_wide_hint')),
+                value: _seriesWide,
+                onChanged: (v) => setState(() => _seriesWide = v),
+              ),
             if (_error != null) ...[
               const SizedBox(height: 16),
               Container(
@@ -690,3 +910,485 @@ class _ToggleButton extends StatelessWidget {
     );
   }
 }
+
+class _QuantityStepper extends StatelessWidget {
+  final String label;
+  final int value;
+  final ValueChanged<int> onChanged;
+
+  const _QuantityStepper({
+    required this.label,
+    required this.value,
+    required this.onChanged,
+  });
+
+  @override
+  Widget build(BuildContext context) {
+    final theme = Theme.of(context);
+    final colorScheme = theme.colorScheme;
+
+    return Container(
+      padding: const EdgeInsets.symmetric(horizontal: 8, vertical: 4),
+      decoration: BoxDecoration(
+        color: colorScheme.surfaceContainerHighest.withValues(alpha: 0.5),
+        borderRadius: BorderRadius.circular(12),
+      ),
+      child: Row(
+        children: [
+          Expanded(
+            child: Text(
+              label,
+              style: theme.textTheme.labelLarge,
+            ),
+          ),
+          IconButton(
+            icon: const Icon(Icons.remove, size: 18),
+            onPressed: value > 1 ? () => onChanged(value - 1) : null,
+          ),
+          Text(
+            '$value',
+            style: theme.textTheme.titleMedium?.copyWith(
+              fontWeight: FontWeight.bold,
+            ),
+          ),
+          IconButton(
+            icon: const Icon(Icons.add, size: 18),
+            onPressed: value < 10 ? () => onChanged(value + 1) : null,
+          ),
+        ],
+      ),
+    );
+  }
+}
+
+// ============================================================
+// Bulk Codes Bottom Sheet
+// ============================================================
+
+/// Generates a batch of single-use codes for a partner and shares them as
+/// CSV.
+class _BulkPromoCodesSheet extends ConsumerStatefulWidget {
+  final String eventId;
+  final String? seriesId;
+
+  const _BulkPromoCodesSheet({required this.eventId, this.seriesId});
+
+  @override
+  ConsumerState<_BulkPromoCodesSheet> createState() =>
+      _BulkPromoCodesSheetState();
+}
+
+class _BulkPromoCodesSheetState extends ConsumerState<_BulkPromoCodesSheet> {
+  static const _maxCount = 1000;
+
+  final _nameController = TextEditingController();
+  final _prefixController = TextEditingController();
+  int _count = 100;
+  bool _isPercentage = true;
+  int _percentValue = 20;
+  int _fixedValueCents = 500;
+  bool _seriesWide = false;
+  bool _isCreating = false;
+  String? _error;
+
+  @override
+  void dispose() {
+    _nameController.dispose();
+    _prefixController.dispose();
+    super.dispose();
+  }
+
+  Future<void> _create() async {
+    final name = _nameController.text.trim();
+    if (name.isEmpty) {
+      setState(() => _error = L.tr('promo_bulk_enter_name'));
+      return;
+    }
+    if (_count < 1 || _count > _maxCount) {
+      setState(() => _error = L.tr('promo_bulk_count_range', [_maxCount]));
+      return;
+    }
+
+    setState(() {
+      _isCreating = true;
+      _error = null;
+    });
+
+    final notifier =
+        ref.read(promoCodeManagementProvider(widget.eventId).notifier);
+    final batch = await notifier.bulkCreate(
+      eventId: widget.eventId,
+      seriesId: _seriesWide ? widget.seriesId : null,
+      name: name,
+      count: _count,
+      prefix: _prefixController.text.trim().toUpperCase(),
+      discountType:
+          _isPercentage ? PromoDiscountType.percentage : PromoDiscountType.fixed,
+      discountValue: _isPercentage ? _percentValue : _fixedValueCents,
+    );
+
+    if (!mounted) return;
+    if (batch == null) {
+      setState(() {
+        _isCreating = false;
+        _error = ref.read(promoCodeManagementProvider(widget.eventId)).error ??
+            L.tr('promo_create_failed');
+      });
+      return;
+    }
+
+    Navigator.pop(context);
+    ScaffoldMessenger.of(context).showSnackBar(
+      SnackBar(
+        content: Text(L.tr('promo_bulk_created', [batch.quantity])),
+        behavior: SnackBarBehavior.floating,
+      ),
+    );
+    Share.share(batch.csv, subject: batch.name);
+  }
+
+  @override
+  Widget build(BuildContext context) {
+    final theme = Theme.of(context);
+    final colorScheme = theme.colorScheme;
+
+    InputDecoration decoration(String label, IconData icon, {String? hint}) {
+      return InputDecoration(
+        labelText: label,
+        hintText: hint,
+        prefixIcon: Icon(icon, size: 20),
+        border: OutlineInputBorder(
+          borderRadius: BorderRadius.circular(12),
+        ),
+        filled: true,
+        fillColor: colorScheme.surfaceContainerHighest.withValues(alpha: 0.5),
+      );
+    }
+
+    return Container(
+      decoration: BoxDecoration(
+        color: colorScheme.surface,
+        borderRadius: const BorderRadius.vertical(top: Radius.circular(24)),
+      ),
+      padding: EdgeInsets.only(
+        left: 24,
+        right: 24,
+        top: 16,
+        bottom: MediaQuery.of(context).viewInsets.bottom +
+            MediaQuery.of(context).padding.bottom +
+            24,
+      ),
+      child: SingleChildScrollView(
+        child: Column(
+          mainAxisSize: MainAxisSize.min,
+          children: [
+            Container(
+              width: 40,
+              height: 4,
+              decoration: BoxDecoration(
+                color: colorScheme.onSurfaceVariant.withValues(alpha: 0.3),
+                borderRadius: BorderRadius.circular(2),
+              ),
+            ),
+            const SizedBox(height: 24),
+            Icon(
+              Icons.library_add_outlined,
+              size: 44,
+              color: colorScheme.primary,
+            ),
+            const SizedBox(height: 16),
+            Text(
+              L.tr('promo_bulk_title'),
+              style: theme.textTheme.titleLarge?.copyWith(
+                fontWeight: FontWeight.bold,
+              ),
+            ),
+            const SizedBox(height: 8),
+            Text(
+              L.tr('promo_bulk_description'),
+              textAlign: TextAlign.center,
+              style: theme.textTheme.bodyMedium?.copyWith(
+                color: colorScheme.onSurfaceVariant,
+              ),
+            ),
+            const SizedBox(height: 24),
+            TextField(
+              controller: _nameController,
+              decoration: decoration(
+                L.tr('promo_bulk_name'),
+                Icons.handshake_outlined,
+                hint: L.tr('promo_bulk_name_hint'),
+              ),
+            ),
+            const SizedBox(height: 12),
+            Row(
+              children: [
+                Expanded(
+                  child: TextFormField(
+                    initialValue: '$_count',
+                    keyboardType: TextInputType.number,
+                    decoration: decoration(
+                      L.tr('promo_bulk_count'),
+                      Icons.numbers,
+                    ),
+                    onChanged: (v) =>
+                        setState(() => _count = int.tryParse(v) ?? 0),
+                  ),
+                ),
+                const SizedBox(width: 12),
+                Expanded(
+                  child: TextField(
+                    controller: _prefixController,
+                    maxLength: 12,
+                    textCapitalization: TextCapitalization.characters,
+                    decoration: decoration(
+                      L.tr('promo_bulk_prefix'),
+                      Icons.short_text,
+                      hint: 'ACME',
+                    ).copyWith(counterText: ''),
+                  ),
+                ),
+              ],
+            ),
+            const SizedBox(height: 20),
+            Container(
+              decoration: BoxDecoration(
+                color: colorScheme.surfaceContainerHighest,
+                borderRadius: BorderRadius.circular(12),
+              ),
+              child: Row(
+                children: [
+                  Expanded(
+                    child: _ToggleButton(
+                      label: L.tr('promo_percentage'),
+                      isSelected: _isPercentage,
+                      onTap: () => setState(() => _isPercentage = true),
+                    ),
+                  ),
+                  Expanded(
+                    child: _ToggleButton(
+                      label: L.tr('promo_fixed_amount'),
+                      isSelected: !_isPercentage,
+                      onTap: () => setState(() => _isPercentage = false),
+                    ),
+                  ),
+                ],
+              ),
+            ),
+            const SizedBox(height: 12),
+            TextFormField(
+              key: ValueKey(_isPercentage),
+              initialValue: _isPercentage
+                  ? '$_percentValue'
+                  : (_fixedValueCents / 100).toStringAsFixed(2),
+              keyboardType:
+                  const TextInputType.numberWithOptions(decimal: true),
+              decoration: decoration(
+                _isPercentage
+                    ? L.tr('promo_percentage')
+                    : L.tr('promo_fixed_amount'),
+                _isPercentage ? Icons.percent : Icons.attach_money,
+              ),
+              onChanged: (v) {
+                final parsed = double.tryParse(v) ?? 0;
+                setState(() {
+                  if (_isPercentage) {
+                    _percentValue = parsed.round().clamp(1, 100);
+                  } else {
+                    _fixedValueCents = (parsed * 100).round();
+                  }
+                });
+              },
+            ),
+            if (widget.seriesId != null)
+              SwitchListTile(
+                contentPadding: EdgeInsets.zero,
+                title: Text(L.tr('promo_series_wide')),
+                subtitle: Text(L.tr('promo_series_wide_hint')),
+                value: _seriesWide,
+                onChanged: (v) => setState(() => _seriesWide = v),
+              ),
+            if (_error != null) ...[
+              const SizedBox(height: 16),
+              Text(
+                _error!,
+                style: theme.textTheme.bodySmall?.copyWith(
+                  color: colorScheme.error,
+                ),
+              ),
+            ],
+            const SizedBox(height: 24),
+            FilledButton.icon(
+              onPressed: _isCreating ? null : _create,
+              style: FilledButton.styleFrom(
+                minimumSize: const Size.fromHeight(56),
+                shape: RoundedRectangleBorder(
+                  borderRadius: BorderRadius.circular(12),
+                ),
+              ),
+              icon: _isCreating
+                  ? const SizedBox(
+                      width: 20,
+                      height: 20,
+                      child: CircularProgressIndicator(
+                        strokeWidth: 2,
+                        color: Colors.white,
+                      ),
+                    )
+                  : const Icon(Icons.ios_share),
+              label: Text(L.tr('promo_bulk_generate')),
+            ),
+            const SizedBox(height: 12),
+            TextButton(
+              onPressed: _isCreating ? null : () => Navigator.pop(context),
+              child: Text(L.tr('common_cancel')),
+            ),
+          ],
+        ),
+      ),
+    );
+  }
+}
+
+// ============================================================
+// Redemption Report Bottom Sheet
+// ============================================================
+
+class _PromoReportSheet extends ConsumerStatefulWidget {
+  final String eventId;
+
+  const _PromoReportSheet({required this.eventId});
+
+  @override
+  ConsumerState<_PromoReportSheet> createState() => _PromoReportSheetState();
+}
+
+class _PromoReportSheetState extends ConsumerState<_PromoReportSheet> {
+  late final Future<({List<PromoCodeReport> codes, String csv})> _report =
+      ref.read(promoCodeRepositoryProvider).getRedemptionReport(widget.eventId);
+
+  String _formatCents(int cents) => '\$${(cents / 100).toStringAsFixed(2)}';
+
+  @override
+  Widget build(BuildContext context) {
+    final theme = Theme.of(context);
+    final colorScheme = theme.colorScheme;
+
+    return Container(
+      constraints: BoxConstraints(
+        maxHeight: MediaQuery.of(context).size.height * 0.8,
+      ),
+      decoration: BoxDecoration(
+        color: colorScheme.surface,
+        borderRadius: const BorderRadius.vertical(top: Radius.circular(24)),
+      ),
+      padding: EdgeInsets.only(
+        left: 24,
+        right: 24,
+        top: 16,
+        bottom: MediaQuery.of(context).padding.bottom + 24,
+      ),
+      child: FutureBuilder<({List<PromoCodeReport> codes, String csv})>(
+        future: _report,
+        builder: (context, snapshot) {
+          final report = snapshot.data;
+          return Column(
+            mainAxisSize: MainAxisSize.min,
+            children: [
+              Container(
+                width: 40,
+                height: 4,
+                decoration: BoxDecoration(
+                  color: colorScheme.onSurfaceVariant.withValues(alpha: 0.3),
+                  borderRadius: BorderRadius.circular(2),
+                ),
+              ),
+              const SizedBox(height: 16),
+              Row(
+                children: [
+                  Expanded(
+                    child: Text(
+                      L.tr('promo_report_title'),
+                      style: theme.textTheme.titleLarge?.copyWith(
+                        fontWeight: FontWeight.bold,
+                      ),
+                    ),
+                  ),
+                  IconButton(
+                    icon: const Icon(Icons.ios_share),
+                    tooltip: L.tr('promo_report_export'),
+                    onPressed: report == null || report.codes.isEmpty
+                        ? null
+                        : () => Share.share(report.csv),
+                  ),
+                ],
+              ),
+              const SizedBox(height: 12),
+              if (snapshot.connectionState != ConnectionState.done)
+                const Padding(
+                  padding: EdgeInsets.all(32),
+                  child: CircularProgressIndicator(),
+                )
+              else if (snapshot.hasError)
+                Padding(
+                  padding: const EdgeInsets.all(24),
+                  child: Text(
+                    L.tr('promo_report_failed'),
+                    style: TextStyle(color: colorScheme.error),
+                  ),
+                )
+              else if (report!.codes.isEmpty)
+                Padding(
+                  padding: const EdgeInsets.all(24),
+                  child: Text(L.tr('promo_no_codes')),
+                )
+              else
+                Flexible(
+                  child: ListView.separated(
+                    shrinkWrap: true,
+                    itemCount: report.codes.length,
+                    separatorBuilder: (_, __) => Divider(
+                      height: 1,
+                      color: colorScheme.outlineVariant.withValues(alpha: 0.3),
+                    ),
+                    itemBuilder: (context, index) {
+                      final row = report.codes[index];
+                      return ListTile(
+                        contentPadding: EdgeInsets.zero,
+                        title: Text(
+                          row.code,
+                          style: const TextStyle(
+                            fontFamily: 'monospace',
+                            fontWeight: FontWeight.bold,
+                          ),
+                        ),
+                        subtitle: Text(
+                          [
+                            L.tr('promo_report_row', [
+                              row.redemptions,
+                              row.tickets,
+                              _formatCents(row.discountCents),
+                            ]),
+                            if (row.batchName != null) row.batchName!,
+                            if (row.seriesWide) L.tr('promo_series_wide'),
+                            if (row.pending > 0)
+                              L.tr('promo_report_pending', [row.pending]),
+                          ].join(' · '),
+                        ),
+                        trailing: Text(
+                          _formatCents(row.netOrderCents),
+                          style: theme.textTheme.titleSmall?.copyWith(
+                            fontWeight: FontWeight.w600,
+                          ),
+                        ),
+                      );
+                    },
+                  ),
+                ),
+            ],
+          );
+        },
+      ),
+    );
+  }
+}
@@ -315,6 +315,7 @@ class ResaleBrowseScreen extends ConsumerWidget {
                   listing: listing,
                   event: event,
                   isOwnListing: isOwnListing,
+                  currentUserId: currentUserId,
                 );
               },
             ),
@@ -330,11 +331,13 @@ class _ResaleListingCard extends StatelessWidget {
     required this.listing,
     required this.event,
     this.isOwnListing = false,
+    this.currentUserId,
   });
 
   final ResaleListing listing;
   final EventModel event;
   final bool isOwnListing;
+  final String? currentUserId;
 
   @override
   Widget build(BuildContext context) {
@@ -348,6 +351,11 @@ class _ResaleListingCard extends StatelessWidget {
     final hasPremium =
         originalPrice != null && listing.priceCents > originalPrice;
 
+    // Waitlist claim window: the listing is held for one entrant
+    final isHeld = listing.isHeld();
+    final heldForOther = listing.isHeldForOther(currentUserId);
+    final heldForMe = isHeld && !heldForOther;
+
     return Container(
       padding: const EdgeInsets.all(16),
       decoration: BoxDecoration(
@@ -388,6 +396,34 @@ class _ResaleListingCard extends StatelessWidget {
             const SizedBox(height: 10),
           ],
 
+          // Waitlist hold badge
+          if (isHeld && !isOwnListing) ...[
+            Container(
+              padding: const EdgeInsets.symmetric(horizontal: 8, vertical: 4),
+              decoration: BoxDecoration(
+                color: heldForMe
+                    ? colorScheme.tertiaryContainer
+                    : colorScheme.surfaceContainerHighest,
+                borderRadius: BorderRadius.circular(6),
+              ),
+              child: Text(
+                heldForMe
+                    ? L.tr('resale_held_for_you', [
+                        TimeOfDay.fromDateTime(listing.reservedUntil!.toLocal())
+                            .format(context),
+                      ])
+                    : L.tr('resale_held_for_waitlist'),
+                style: theme.textTheme.labelSmall?.copyWith(
+                  color: heldForMe
+                      ? colorScheme.onTertiaryContainer
+                      : colorScheme.onSurfaceVariant,
+                  fontWeight: FontWeight.w600,
+                ),
+              ),
+            ),
+            const SizedBox(height: 10),
+          ],
+
           // Top row: Ticket info and price
           Row(
             crossAxisAlignment: CrossAxisAlignment.start,
@@ -528,7 +564,7 @@ class _ResaleListingCard extends StatelessWidget {
             SizedBox(
               width: double.infinity,
               child: FilledButton(
-                onPressed: () => _handleBuy(context),
+                onPressed: heldForOther ? null : () => _handleBuy(context),
                 style: FilledButton.styleFrom(
                   padding: const EdgeInsets.symmetric(vertical: 12),
                   shape: RoundedRectangleBorder(
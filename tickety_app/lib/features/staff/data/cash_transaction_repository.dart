@@ -12,6 +12,12 @@ class CashSaleResult {
   final String? ticketNumber;
   final String? cashTransactionId;
   final int? platformFeeCents;
+
+  /// Sales tax / VAT in the sale (0 for untaxed events).
+  final int taxCents;
+
+  /// What the customer pays: the ticket price plus any tax added on top.
+  final int? totalDueCents;
   final bool feeCharged;
   final String? transferToken;
   final DateTime? transferTokenExpiresAt;
@@ -24,6 +30,8 @@ class CashSaleResult {
     this.ticketNumber,
     this.cashTransactionId,
     this.platformFeeCents,
+    this.taxCents = 0,
+    this.totalDueCents,
     this.feeCharged = false,
     this.transferToken,
     this.transferTokenExpiresAt,
@@ -39,6 +47,8 @@ class CashSaleResult {
       ticketNumber: ticket?['ticket_number'] as String?,
       cashTransactionId: json['cash_transaction_id'] as String?,
       platformFeeCents: json['platform_fee_cents'] as int?,
+      taxCents: ticket?['tax_cents'] as int? ?? 0,
+      totalDueCents: ticket?['total_due_cents'] as int?,
       feeCharged: json['fee_charged'] as bool? ?? false,
       transferToken: json['transfer_token'] as String?,
       transferTokenExpiresAt: json['transfer_token_expires_at'] != null
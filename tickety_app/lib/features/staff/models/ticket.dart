@@ -1,5 +1,6 @@
 import 'package:flutter/material.dart';
 
+import '../../events/models/resale_policy.dart';
 import '../../favor_tickets/models/ticket_offer.dart';
 
 /// Core ticket status - mutually exclusive states.
@@ -309,7 +310,14 @@ class Ticket {
   bool get canBeResold =>
       ticketMode.canResale && isValid && !isListedForSale && !isAwaitingMint && !nftBurned &&
       checkedInAt == null &&
-      !(eventData?['virtual_locked'] == true);
+      !(eventData?['virtual_locked'] == true) &&
+      resalePolicy.isOpen(eventDate);
+
+  /// Whether the holder can ask for their money back: a paid, unused
+  /// ticket that isn't up for resale. The event's refund policy decides how
+  /// much, or sends the request to the organizer.
+  bool get canRequestRefund =>
+      isValid && pricePaidCents > 0 && checkedInAt == null && !isListedForSale;
 
   /// Whether ticket is on an NFT-enabled event but hasn't been minted yet.
   /// Only shows "preparing" for tickets less than 24 hours old — older unminted
@@ -361,6 +369,10 @@ class Ticket {
     return DateTime.tryParse(dateStr);
   }
 
+  /// The organizer's resale rules, from joined event data.
+  ResalePolicy get resalePolicy =>
+      eventData != null ? ResalePolicy.fromJson(eventData!) : ResalePolicy.open;
+
   /// Event venue from joined data.
   String? get venue => eventData?['venue'] as String?;
 
@@ -5,7 +5,9 @@ import 'package:flutter/services.dart';
 
 import '../../../core/localization/localization.dart';
 import '../../../core/services/nfc_service.dart';
+import '../../events/data/supabase_event_repository.dart';
 import '../../events/models/event_model.dart';
+import '../../events/models/event_tax.dart';
 import '../../events/models/ticket_type.dart';
 import '../data/cash_transaction_repository.dart';
 import '../models/cash_transaction.dart';
@@ -62,12 +64,16 @@ class _CashSaleScreenState extends State<CashSaleScreen>
   CustomerNfcPayload? _pendingCustomer;
   String? _soldTicketNumber;
 
+  /// Sales tax on the ticket, loaded with the event's tax setup.
+  TaxBreakdown? _tax;
+
   String get _formattedPrice {
     if (widget.ticketType.priceInCents == 0) return 'Free';
-    final dollars = widget.ticketType.priceInCents / 100;
-    return '\$${dollars.toStringAsFixed(2)}';
+    return _formatCents(widget.ticketType.priceInCents);
   }
 
+  String _formatCents(int cents) => '\$${(cents / 100).toStringAsFixed(2)}';
+
   @override
   void initState() {
     super.initState();
@@ -84,6 +90,21 @@ class _CashSaleScreenState extends State<CashSaleScreen>
 
     // Start NFC reading
     _startNfcReading();
+    _loadTax();
+  }
+
+  Future<void> _loadTax() async {
+    if (widget.ticketType.priceInCents <= 0) return;
+    try {
+      final tax = await SupabaseEventRepository().getEventTax(widget.event.id);
+      final breakdown =
+          TaxCalculator.calculate(widget.ticketType.priceInCents, tax);
+      if (mounted && breakdown.taxCents > 0) {
+        setState(() => _tax = breakdown);
+      }
+    } catch (_) {
+      // The server still records the tax; only the hint is missing
+    }
   }
 
   @override
@@ -506,6 +527,33 @@ class _CashSaleScreenState extends State<CashSaleScreen>
                           ),
                         ],
                       ),
+                      if (_tax != null) ...[
+                        const SizedBox(height: 8),
+                        Row(
+                          mainAxisAlignment: MainAxisAlignment.spaceBetween,
+                          children: [
+                            Text(
+                              _tax!.inclusive
+                                  ? L.tr('cash_sale_tax_included')
+                                  : L.tr('cash_sale_collect_with_tax'),
+                              style: theme.textTheme.bodyMedium?.copyWith(
+                                color: colorScheme.onSurfaceVariant,
+                              ),
+                            ),
+                            Text(
+                              _tax!.inclusive
+                                  ? _formatCents(_tax!.taxCents)
+                                  : _formatCents(
+                                      widget.ticketType.priceInCents +
+                                          _tax!.taxCents,
+                                    ),
+                              style: theme.textTheme.bodyMedium?.copyWith(
+                                fontWeight: FontWeight.w600,
+                              ),
+                            ),
+                          ],
+                        ),
+                      ],
                     ],
                   ),
                 ),
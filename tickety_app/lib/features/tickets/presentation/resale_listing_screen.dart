@@ -4,6 +4,7 @@ import 'package:flutter_riverpod/flutter_riverpod.dart';
 import '../../../core/errors/errors.dart';
 import '../../../core/graphics/graphics.dart';
 import '../../../core/localization/localization.dart';
+import '../../events/models/resale_policy.dart';
 import '../../payments/presentation/seller_onboarding_screen.dart';
 import '../../staff/models/ticket.dart';
 
@@ -32,6 +33,15 @@ class _ResaleListingScreenState extends ConsumerState<ResaleListingScreen> {
   /// Whether the ticket is already listed when we opened this screen.
   bool get _isAlreadyListed => widget.ticket.isListedForSale;
 
+  ResalePolicy get _policy => widget.ticket.resalePolicy;
+
+  /// The organizer's price limits for this ticket (also enforced server-side).
+  ResalePriceLimits get _limits =>
+      _policy.limitsFor(widget.ticket.pricePaidCents);
+
+  static String _formatCents(int cents) =>
+      '\$${(cents / 100).toStringAsFixed(2)}';
+
   @override
   void initState() {
     super.initState();
@@ -40,9 +50,13 @@ class _ResaleListingScreenState extends ConsumerState<ResaleListingScreen> {
       _isCheckingOnboarding = false;
       _isSellerOnboarded = true;
     } else {
-      // Pre-fill with original price as suggestion
+      // Pre-fill with original price as suggestion, inside the organizer's limits
       if (widget.ticket.pricePaidCents > 0) {
-        final dollars = widget.ticket.pricePaidCents / 100;
+        var suggested = widget.ticket.pricePaidCents;
+        if (_limits.maxCents != null && suggested > _limits.maxCents!) {
+          suggested = _limits.maxCents!;
+        }
+        final dollars = suggested / 100;
         _priceController.text = dollars.toStringAsFixed(2);
       }
       _checkOnboardingStatus();
@@ -427,6 +441,16 @@ class _ResaleListingScreenState extends ConsumerState<ResaleListingScreen> {
                       const SizedBox(height: 24),
                     ],
 
+                    if (_policy.hasRules) ...[
+                      _ResalePolicyNotice(
+                        policy: _policy,
+                        limits: _limits,
+                        eventDate: widget.ticket.eventDate,
+                        formatCents: _formatCents,
+                      ),
+                      const SizedBox(height: 24),
+                    ],
+
                     // Sale price input
                     Text(
                       L.tr('resale_set_price'),
@@ -464,6 +488,16 @@ class _ResaleListingScreenState extends ConsumerState<ResaleListingScreen> {
                         if (price > 10000) {
                           return L.tr('resale_max_price');
                         }
+                        final cents = (price * 100).round();
+                        final limits = _limits;
+                        if (limits.maxCents != null && cents > limits.maxCents!) {
+                          return _policy.isFaceValueOnly
+                              ? L.tr('resale_face_value_only', [_formatCents(limits.maxCents!)])
+                              : L.tr('resale_price_above_cap', [_formatCents(limits.maxCents!)]);
+                        }
+                        if (limits.minCents != null && cents < limits.minCents!) {
+                          return L.tr('resale_price_below_minimum', [_formatCents(limits.minCents!)]);
+                        }
                         return null;
                       },
                     ),
@@ -627,6 +661,7 @@ class _ResaleListingScreenState extends ConsumerState<ResaleListingScreen> {
                     _FeeBreakdown(
                       priceController: _priceController,
                       platformFeePercent: 5,
+                      policy: _policy,
                     ),
                     const SizedBox(height: 24),
 
@@ -803,10 +838,12 @@ class _FeeBreakdown extends StatefulWidget {
   const _FeeBreakdown({
     required this.priceController,
     required this.platformFeePercent,
+    required this.policy,
   });
 
   final TextEditingController priceController;
   final double platformFeePercent;
+  final ResalePolicy policy;
 
   @override
   State<_FeeBreakdown> createState() => _FeeBreakdownState();
@@ -841,7 +878,8 @@ class _FeeBreakdownState extends State<_FeeBreakdown> {
     final colorScheme = theme.colorScheme;
 
     final fee = _salePrice * (widget.platformFeePercent / 100);
-    final youReceive = _salePrice - fee;
+    final royalty = widget.policy.royaltyCents((_salePrice * 100).round()) / 100;
+    final youReceive = _salePrice - fee - royalty;
 
     return Container(
       padding: const EdgeInsets.all(16),
@@ -861,6 +899,18 @@ class _FeeBreakdownState extends State<_FeeBreakdown> {
             value: '-\$${fee.toStringAsFixed(2)}',
             valueColor: Colors.red.shade400,
           ),
+          if (widget.policy.royaltyBps > 0) ...[
+            const SizedBox(height: 8),
+            _FeeRow(
+              label: L.tr('resale_organizer_royalty', [
+                (widget.policy.royaltyBps / 100)
+                    .toStringAsFixed(2)
+                    .replaceFirst(RegExp(r'\.?0+$'), ''),
+              ]),
+              value: '-\$${royalty.toStringAsFixed(2)}',
+              valueColor: Colors.red.shade400,
+            ),
+          ],
           const Padding(
             padding: EdgeInsets.symmetric(vertical: 12),
             child: Divider(height: 1),
@@ -877,6 +927,83 @@ class _FeeBreakdownState extends State<_FeeBreakdown> {
   }
 }
 
+/// The organizer's resale rules for this ticket: allowed price range,
+/// royalty and when resale closes.
+class _ResalePolicyNotice extends StatelessWidget {
+  const _ResalePolicyNotice({
+    required this.policy,
+    required this.limits,
+    required this.eventDate,
+    required this.formatCents,
+  });
+
+  final ResalePolicy policy;
+  final ResalePriceLimits limits;
+  final DateTime? eventDate;
+  final String Function(int cents) formatCents;
+
+  @override
+  Widget build(BuildContext context) {
+    final theme = Theme.of(context);
+    final colorScheme = theme.colorScheme;
+    final localizations = MaterialLocalizations.of(context);
+    final closesAt = policy.closesAt(eventDate)?.toLocal();
+
+    final lines = [
+      if (policy.isFaceValueOnly && limits.maxCents != null)
+        L.tr('resale_policy_face_value', [formatCents(limits.maxCents!)])
+      else if (limits.maxCents != null)
+        L.tr('resale_policy_max', [formatCents(limits.maxCents!)]),
+      if (limits.minCents != null)
+        L.tr('resale_policy_min', [formatCents(limits.minCents!)]),
+      if (closesAt != null)
+        L.tr('resale_policy_closes', [
+          '${localizations.formatMediumDate(closesAt)} '
+              '${localizations.formatTimeOfDay(TimeOfDay.fromDateTime(closesAt))}',
+        ]),
+    ];
+    if (lines.isEmpty) return const SizedBox.shrink();
+
+    return Container(
+      padding: const EdgeInsets.all(12),
+      decoration: BoxDecoration(
+        color: colorScheme.surfaceContainerLow,
+        borderRadius: BorderRadius.circular(10),
+      ),
+      child: Row(
+        crossAxisAlignment: CrossAxisAlignment.start,
+        children: [
+          Icon(Icons.policy_outlined, size: 20, color: colorScheme.primary),
+          const SizedBox(width: 12),
+          Expanded(
+            child: Column(
+              crossAxisAlignment: CrossAxisAlignment.start,
+              children: [
+                Text(
+                  L.tr('resale_policy_title'),
+                  style: theme.textTheme.bodyMedium?.copyWith(
+                    fontWeight: FontWeight.w600,
+                  ),
+                ),
+                for (final line in lines)
+                  Padding(
+                    padding: const EdgeInsets.only(top: 4),
+                    child: Text(
+                      line,
+                      style: theme.textTheme.bodySmall?.copyWith(
+                        color: colorScheme.onSurfaceVariant,
+                      ),
+                    ),
+                  ),
+              ],
+            ),
+          ),
+        ],
+      ),
+    );
+  }
+}
+
 class _FeeRow extends StatelessWidget {
   const _FeeRow({
     required this.label,
@@ -9,6 +9,7 @@ import 'package:flutter_riverpod/flutter_riverpod.dart';
 import 'package:qr_flutter/qr_flutter.dart';
 import 'package:url_launcher/url_launcher.dart';
 
+import '../../../core/errors/errors.dart';
 import '../../../core/localization/localization.dart';
 import '../../../core/providers/wallet_pass_provider.dart';
 import '../../../core/services/supabase_service.dart';
@@ -16,9 +17,13 @@ import '../../../core/services/supabase_service.dart';
 import '../../../core/graphics/graphics.dart';
 import '../../../core/services/nfc_service.dart';
 import '../../events/data/event_mapper.dart';
+import '../../events/data/supabase_event_repository.dart';
 import '../../events/models/event_model.dart';
+import '../../events/models/refund_policy.dart';
 import '../../events/presentation/event_details_screen.dart';
 import '../../favor_tickets/models/ticket_offer.dart' show TicketMode;
+import '../../payments/data/payment_repository.dart';
+import '../../payments/models/ticket_refund.dart';
 import '../../staff/models/ticket.dart';
 import '../../wallet/models/wallet_pass.dart';
 import 'resale_listing_screen.dart';
@@ -43,6 +48,9 @@ class _TicketScreenState extends State<TicketScreen> {
   Timer? _mintPollTimer;
   int _mintPollCount = 0;
   late Ticket _ticket;
+  final _paymentRepository = PaymentRepository();
+  RefundPolicy _refundPolicy = RefundPolicy.none;
+  TicketRefund? _latestRefund;
 
   // Helper getters to extract event data
   String get _eventTitle =>
@@ -105,6 +113,7 @@ class _TicketScreenState extends State<TicketScreen> {
     _ticket = widget.ticket;
     _checkNfcAvailability();
     _startMintPollingIfNeeded();
+    _loadRefundState();
   }
 
   @override
@@ -134,6 +143,56 @@ class _TicketScreenState extends State<TicketScreen> {
     }
   }
 
+  /// The event's refund policy and this ticket's latest refund request.
+  Future<void> _loadRefundState() async {
+    if (_ticket.pricePaidCents <= 0) return;
+    try {
+      final results = await Future.wait([
+        _paymentRepository.getTicketRefunds(_ticket.id),
+        SupabaseEventRepository().getRefundPolicy(_ticket.eventId),
+      ]);
+      final refunds = results[0] as List<TicketRefund>;
+      if (!mounted) return;
+      setState(() {
+        _latestRefund = refunds.isEmpty ? null : refunds.first;
+        _refundPolicy = results[1] as RefundPolicy;
+      });
+    } catch (_) {
+      // The refund card just stays hidden
+    }
+  }
+
+  Future<void> _requestRefund() async {
+    final reason = await showDialog<String>(
+      context: context,
+      builder: (_) => _RefundRequestDialog(
+        percent: _refundPolicy.percentAt(_eventDate),
+        refundFees: _refundPolicy.refundsFeesAt(),
+      ),
+    );
+    if (reason == null || !mounted) return;
+
+    try {
+      final result = await _paymentRepository.requestTicketRefund(
+        _ticket.id,
+        reason: reason,
+      );
+      if (!mounted) return;
+      final refund = result.refunds.isEmpty ? null : result.refunds.first;
+      setState(() {
+        _latestRefund = refund ?? _latestRefund;
+        if (result.status == TicketRefundStatus.refunded) {
+          _ticket = _ticket.copyWith(status: TicketStatus.refunded);
+        }
+      });
+      _showMessage(result.status == TicketRefundStatus.refunded
+          ? L.tr('ticket_refund_done', [refund?.formattedAmount ?? ''])
+          : L.tr('ticket_refund_requested'));
+    } catch (e, s) {
+      _showMessage(ErrorHandler.normalize(e, s).userMessage);
+    }
+  }
+
   void _startMintPollingIfNeeded() {
     if (!_ticket.isAwaitingMint) return;
     _mintPollCount = 0;
@@ -628,6 +687,27 @@ class _TicketScreenState extends State<TicketScreen> {
                     ),
                   ),
 
+                  // Refund status or request
+                  if (_latestRefund != null ||
+                      (_ticket.canRequestRefund &&
+                          _ticket.soldBy ==
+                              SupabaseService.instance.currentUser?.id)) ...[
+                    const SizedBox(height: 16),
+                    _RefundCard(
+                      refund: _latestRefund,
+                      rescheduleRefundUntil:
+                          _refundPolicy.rescheduleWindowOpen()
+                              ? _refundPolicy.rescheduleRefundUntil
+                              : null,
+                      onRequest: _ticket.canRequestRefund &&
+                              (_latestRefund == null ||
+                                  _latestRefund!.status ==
+                                      TicketRefundStatus.failed)
+                          ? _requestRefund
+                          : null,
+                    ),
+                  ],
+
                   // Check-in info if used
                   if (_ticket.isUsed && _ticket.checkedInAt != null) ...[
                     const SizedBox(height: 16),
@@ -1431,6 +1511,181 @@ class _DetailRow extends StatelessWidget {
   }
 }
 
+/// The ticket's refund status, or a button to ask for one.
+class _RefundCard extends StatelessWidget {
+  const _RefundCard({this.refund, this.rescheduleRefundUntil, this.onRequest});
+
+  final TicketRefund? refund;
+
+  /// End of the full-refund window while the event's reschedule has one
+  /// open.
+  final DateTime? rescheduleRefundUntil;
+
+  final VoidCallback? onRequest;
+
+  @override
+  Widget build(BuildContext context) {
+    final theme = Theme.of(context);
+    final colorScheme = theme.colorScheme;
+
+    final String? status = switch (refund?.status) {
+      TicketRefundStatus.requested => L.tr('ticket_refund_pending'),
+      TicketRefundStatus.declined => L.tr('ticket_refund_declined'),
+      TicketRefundStatus.refunded =>
+        L.tr('ticket_refund_refunded', [refund!.formattedAmount]),
+      TicketRefundStatus.failed => L.tr('ticket_refund_failed'),
+      null => null,
+    };
+
+    return Container(
+      width: double.infinity,
+      padding: const EdgeInsets.all(16),
+      decoration: BoxDecoration(
+        color: colorScheme.surfaceContainerLow,
+        borderRadius: BorderRadius.circular(12),
+      ),
+      child: Column(
+        crossAxisAlignment: CrossAxisAlignment.start,
+        children: [
+          if (status != null)
+            Row(
+              children: [
+                Icon(
+                  Icons.currency_exchange,
+                  size: 20,
+                  color: colorScheme.onSurfaceVariant,
+                ),
+                const SizedBox(width: 12),
+                Expanded(
+                  child: Text(status, style: theme.textTheme.bodyMedium),
+                ),
+              ],
+            ),
+          if (refund?.decisionNote != null) ...[
+            const SizedBox(height: 8),
+            Text(
+              refund!.decisionNote!,
+              style: theme.textTheme.bodySmall?.copyWith(
+                color: colorScheme.onSurfaceVariant,
+              ),
+            ),
+          ],
+          if (onRequest != null && rescheduleRefundUntil != null) ...[
+            if (status != null) const SizedBox(height: 12),
+            Row(
+              children: [
+                Icon(
+                  Icons.event_repeat,
+                  size: 20,
+                  color: colorScheme.primary,
+                ),
+                const SizedBox(width: 12),
+                Expanded(
+                  child: Text(
+                    L.tr('ticket_refund_rescheduled', [
+                      MaterialLocalizations.of(context)
+                          .formatMediumDate(rescheduleRefundUntil!.toLocal()),
+                    ]),
+                    style: theme.textTheme.bodyMedium,
+                  ),
+                ),
+              ],
+            ),
+          ],
+          if (onRequest != null) ...[
+            if (status != null || rescheduleRefundUntil != null)
+              const SizedBox(height: 12),
+            SizedBox(
+              width: double.infinity,
+              child: OutlinedButton.icon(
+                onPressed: onRequest,
+                icon: const Icon(Icons.undo, size: 18),
+                label: Text(L.tr('ticket_refund_request')),
+              ),
+            ),
+          ],
+        ],
+      ),
+    );
+  }
+}
+
+/// Explains what the refund policy gives right now and asks for a reason.
+/// Pops the reason (possibly empty) when the buyer goes ahead.
+class _RefundRequestDialog extends StatefulWidget {
+  const _RefundRequestDialog({required this.percent, required this.refundFees});
+
+  final int percent;
+  final bool refundFees;
+
+  @override
+  State<_RefundRequestDialog> createState() => _RefundRequestDialogState();
+}
+
+class _RefundRequestDialogState extends State<_RefundRequestDialog> {
+  final _reason = TextEditingController();
+
+  @override
+  void dispose() {
+    _reason.dispose();
+    super.dispose();
+  }
+
+  @override
+  Widget build(BuildContext context) {
+    final theme = Theme.of(context);
+
+    return AlertDialog(
+      title: Text(L.tr('ticket_refund_request_title')),
+      content: Column(
+        mainAxisSize: MainAxisSize.min,
+        crossAxisAlignment: CrossAxisAlignment.start,
+        children: [
+          Text(
+            widget.percent > 0
+                ? L.tr('ticket_refund_policy_now', [widget.percent])
+                : L.tr('ticket_refund_outside_policy'),
+          ),
+          if (widget.percent > 0) ...[
+            const SizedBox(height: 4),
+            Text(
+              L.tr(widget.refundFees
+                  ? 'ticket_refund_policy_fees'
+                  : 'ticket_refund_policy_no_fees'),
+              style: theme.textTheme.bodySmall,
+            ),
+          ],
+          const SizedBox(height: 8),
+          Text(
+            L.tr('ticket_refund_void_notice'),
+            style: theme.textTheme.bodySmall,
+          ),
+          const SizedBox(height: 16),
+          TextField(
+            controller: _reason,
+            maxLength: 500,
+            maxLines: 3,
+            decoration: InputDecoration(
+              labelText: L.tr('ticket_refund_reason'),
+              border: const OutlineInputBorder(),
+            ),
+          ),
+        ],
+      ),
+      actions: [
+        TextButton(
+          onPressed: () => Navigator.of(context).pop(),
+          child: Text(L.tr('cancel')),
+        ),
+        FilledButton(
+          onPressed: () => Navigator.of(context).pop(_reason.text),
+          child: Text(L.tr('ticket_refund_submit')),
+        ),
+      ],
+    );
+  }
+}
+
 /// Card showing ticket wallet status and sell option.
 class _WalletStatusCard extends StatelessWidget {
   const _WalletStatusCard({
@@ -1,5 +1,6 @@
 import 'package:supabase_flutter/supabase_flutter.dart';
 
+import '../models/seat_selection.dart';
 import '../models/venue.dart';
 
 /// Repository for venue CRUD operations.
@@ -91,13 +92,16 @@ class VenueRepository {
         .not('seat_id', 'is', null)
         .inFilter('status', ['valid', 'used']);
 
-    // Active holds (not yet expired)
-    final holdsData = await _client
+    // Active holds (not yet expired) by other buyers
+    var holdsQuery = _client
         .from('seat_holds')
         .select('seat_id')
         .eq('event_id', eventId)
         .eq('venue_section_id', sectionId)
         .gt('expires_at', DateTime.now().toUtc().toIso8601String());
+    final userId = _client.auth.currentUser?.id;
+    if (userId != null) holdsQuery = holdsQuery.neq('user_id', userId);
+    final holdsData = await holdsQuery;
 
     final ids = <String>{};
     for (final row in soldData as List) {
@@ -111,37 +115,63 @@ class VenueRepository {
     return ids;
   }
 
-  /// Hold seats for checkout (10-minute TTL). Returns hold IDs.
-  Future<List<String>> holdSeats(
+  /// Hold seats for checkout (10-minute TTL). Returns the hold ID.
+  ///
+  /// All seats are held or none: if another buyer holds or bought any of
+  /// them, the `seat-holds` function refuses with a 409, which surfaces as
+  /// a [FunctionException].
+  Future<String> holdSeats(
     String eventId,
     List<({String sectionId, String seatId})> seats,
   ) async {
-    final userId = _client.auth.currentUser!.id;
-    final expiresAt = DateTime.now().toUtc().add(const Duration(minutes: 10)).toIso8601String();
-
-    final rows = seats.map((s) => {
-      'event_id': eventId,
-      'venue_section_id': s.sectionId,
-      'seat_id': s.seatId,
-      'user_id': userId,
-      'expires_at': expiresAt,
-    }).toList();
-
-    final data = await _client
-        .from('seat_holds')
-        .upsert(rows, onConflict: 'event_id,venue_section_id,seat_id')
-        .select('id');
+    final response = await _client.functions.invoke(
+      'seat-holds',
+      body: {
+        'action': 'hold',
+        'event_id': eventId,
+        'seats': seats
+            .map((s) => {'section_id': s.sectionId, 'seat_id': s.seatId})
+            .toList(),
+      },
+    );
+
+    return (response.data as Map<String, dynamic>)['hold_id'] as String;
+  }
 
-    return (data as List).map((r) => r['id'] as String).toList();
+  /// Hold the best [quantity] seats together in one row of [sectionId],
+  /// nearest the stage. Throws a [FunctionException] when no row has room.
+  Future<({String holdId, List<SeatSelection> seats})> holdBestAvailable(
+    String eventId, {
+    required String sectionId,
+    required int quantity,
+    bool accessible = false,
+  }) async {
+    final response = await _client.functions.invoke(
+      'seat-holds',
+      body: {
+        'action': 'best_available',
+        'event_id': eventId,
+        'section_id': sectionId,
+        'quantity': quantity,
+        if (accessible) 'accessible': true,
+      },
+    );
+
+    final data = response.data as Map<String, dynamic>;
+    return (
+      holdId: data['hold_id'] as String,
+      seats: (data['seats'] as List)
+          .map((s) => SeatSelection.fromJson(s as Map<String, dynamic>))
+          .toList(),
+    );
   }
 
-  /// Release seat holds by ID.
-  Future<void> releaseHolds(List<String> holdIds) async {
-    if (holdIds.isEmpty) return;
-    await _client
-        .from('seat_holds')
-        .delete()
-        .inFilter('id', holdIds);
+  /// Release a seat hold early (e.g. the buyer left checkout).
+  Future<void> releaseHold(String holdId) async {
+    await _client.functions.invoke(
+      'seat-holds',
+      body: {'action': 'release', 'hold_id': holdId},
+    );
   }
 
   /// Duplicate a venue with a new name.
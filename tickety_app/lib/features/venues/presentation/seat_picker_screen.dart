@@ -3,6 +3,7 @@ import 'dart:math' as math;
 import 'package:flutter/material.dart';
 import 'package:flutter_riverpod/flutter_riverpod.dart';
 
+import '../../../core/errors/errors.dart';
 import '../../../core/localization/localization.dart';
 import '../../../core/providers/providers.dart';
 import '../../events/models/ticket_type.dart';
@@ -192,6 +193,39 @@ class _SeatPickerScreenState extends ConsumerState<SeatPickerScreen> {
     });
   }
 
+  /// Let the server pick (and hold) the best seats together in the section.
+  Future<void> _pickBestAvailable() async {
+    final section = _selectedSection;
+    if (section == null) return;
+    final quantity = widget.sectionQuantities[section.id] ?? 0;
+    if (quantity == 0) return;
+
+    setState(() => _loadingSeats = true);
+    try {
+      final result = await ref.read(venueRepositoryProvider).holdBestAvailable(
+            widget.eventId,
+            sectionId: section.id,
+            quantity: quantity,
+          );
+      if (!mounted) return;
+      setState(() {
+        _selectedSeats[section.id] = result.seats.map((s) => s.seatId).toSet();
+        _loadingSeats = false;
+      });
+    } catch (e, s) {
+      final appError = ErrorHandler.normalize(e, s);
+      if (!mounted) return;
+      setState(() => _loadingSeats = false);
+      ScaffoldMessenger.of(context).showSnackBar(
+        SnackBar(
+          content: Text(appError.userMessage),
+          backgroundColor: Colors.red,
+          behavior: SnackBarBehavior.floating,
+        ),
+      );
+    }
+  }
+
   void _confirmSeats() {
     Navigator.of(context).pop(_allSelections);
   }
@@ -295,6 +329,12 @@ class _SeatPickerScreenState extends ConsumerState<SeatPickerScreen> {
                   ),
                 ),
               ),
+              TextButton.icon(
+                onPressed: maxForSection > 0 ? _pickBestAvailable : null,
+                icon: const Icon(Icons.auto_awesome, size: 18),
+                label: Text(L.tr('seat_picker_best_available')),
+              ),
+              const SizedBox(width: 8),
               Container(
                 padding: const EdgeInsets.symmetric(horizontal: 12, vertical: 4),
                 decoration: BoxDecoration(
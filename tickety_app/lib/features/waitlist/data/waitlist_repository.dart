@@ -1,11 +1,12 @@
 import '../../../core/errors/errors.dart';
 import '../../../core/services/services.dart';
 import '../models/waitlist_entry.dart';
+import '../models/waitlist_settings.dart';
 
 class WaitlistRepository {
   final _client = SupabaseService.instance.client;
 
-  /// Get the current user's active waitlist entry for an event (if any).
+  /// Get the current user's waiting or offered entry for an event (if any).
   Future<WaitlistEntry?> getMyEntry(String eventId) async {
     final userId = SupabaseService.instance.currentUser?.id;
     if (userId == null) return null;
@@ -15,7 +16,7 @@ class WaitlistRepository {
         .select()
         .eq('event_id', eventId)
         .eq('user_id', userId)
-        .eq('status', 'active')
+        .inFilter('status', ['active', 'offered'])
         .maybeSingle();
 
     if (response == null) return null;
@@ -87,23 +88,79 @@ class WaitlistRepository {
     return const WaitlistCount();
   }
 
-  /// Get the user's position in the waitlist queue.
+  /// Get the user's position in the waitlist queue: drawn lottery places
+  /// first, then everyone else in the order they joined.
   Future<int?> getPosition(String eventId) async {
     final userId = SupabaseService.instance.currentUser?.id;
     if (userId == null) return null;
 
-    // Count entries created before the user's entry
     final entry = await getMyEntry(eventId);
-    if (entry == null) return null;
+    if (entry == null || !entry.isActive) return null;
+
+    final rank = entry.lotteryRank;
+    if (rank != null) {
+      final ahead = await _client
+          .from('waitlist_entries')
+          .select('id')
+          .eq('event_id', eventId)
+          .eq('status', 'active')
+          .lte('lottery_rank', rank);
+      return (ahead as List).length;
+    }
 
-    final response = await _client
+    // Count ranked entries and unranked entries created before the user's
+    final ranked = await _client
+        .from('waitlist_entries')
+        .select('id')
+        .eq('event_id', eventId)
+        .eq('status', 'active')
+        .not('lottery_rank', 'is', null);
+    final earlier = await _client
         .from('waitlist_entries')
         .select('id')
         .eq('event_id', eventId)
         .eq('status', 'active')
+        .isFilter('lottery_rank', null)
         .lte('created_at', entry.createdAt.toIso8601String());
 
-    return (response as List).length;
+    return (ranked as List).length + (earlier as List).length;
+  }
+
+  /// An event's waitlist settings.
+  Future<WaitlistSettings> getSettings(String eventId) async {
+    final response = await _client
+        .from('events')
+        .select('waitlist_mode, waitlist_claim_minutes, waitlist_lottery_cutoff')
+        .eq('id', eventId)
+        .maybeSingle();
+    return response != null
+        ? WaitlistSettings.fromJson(response)
+        : WaitlistSettings.fifo;
+  }
+
+  /// Set how an event's waitlist is served. Setting a lottery cutoff fixes
+  /// the lottery's seed; the cutoff can't move once the lottery is drawn.
+  Future<WaitlistSettings> saveSettings(
+    String eventId,
+    WaitlistSettings settings,
+  ) async {
+    await _client.from('events').update({
+      ...settings.toJson(),
+      'updated_at': DateTime.now().toUtc().toIso8601String(),
+    }).eq('id', eventId);
+    return getSettings(eventId);
+  }
+
+  /// The public record of an event's waitlist lottery, if it has one.
+  Future<WaitlistLottery?> getLottery(String eventId) async {
+    final response = await _client.rpc(
+      'get_waitlist_lottery',
+      params: {'p_event_id': eventId},
+    );
+    if (response is Map<String, dynamic>) {
+      return WaitlistLottery.fromJson(response);
+    }
+    return null;
   }
 
   /// Fire-and-forget: trigger waitlist processing for an event.
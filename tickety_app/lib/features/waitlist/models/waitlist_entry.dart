@@ -15,11 +15,13 @@ enum WaitlistMode {
 /// Status of a waitlist entry.
 enum WaitlistStatus {
   active('active'),
+  offered('offered'),
   notified('notified'),
   purchased('purchased'),
   cancelled('cancelled'),
   expired('expired'),
-  failed('failed');
+  failed('failed'),
+  missed('missed');
 
   const WaitlistStatus(this.value);
   final String value;
@@ -43,6 +45,16 @@ class WaitlistEntry {
   final WaitlistStatus status;
   final DateTime createdAt;
 
+  /// End of the entry's exclusive claim window while [status] is offered.
+  final DateTime? offerExpiresAt;
+
+  /// Resale listing held for the offer; null when the offer holds no ticket.
+  final String? offerListingId;
+
+  /// Place drawn by the event's waitlist lottery; null before the draw and
+  /// for entries that joined after the cutoff.
+  final int? lotteryRank;
+
   const WaitlistEntry({
     required this.id,
     required this.eventId,
@@ -52,6 +64,9 @@ class WaitlistEntry {
     this.paymentMethodId,
     required this.status,
     required this.createdAt,
+    this.offerExpiresAt,
+    this.offerListingId,
+    this.lotteryRank,
   });
 
   factory WaitlistEntry.fromJson(Map<String, dynamic> json) {
@@ -64,10 +79,24 @@ class WaitlistEntry {
       paymentMethodId: json['payment_method_id'] as String?,
       status: WaitlistStatus.fromString(json['status'] as String?),
       createdAt: DateTime.parse(json['created_at'] as String),
+      offerExpiresAt: json['offer_expires_at'] != null
+          ? DateTime.parse(json['offer_expires_at'] as String)
+          : null,
+      offerListingId: json['offer_listing_id'] as String?,
+      lotteryRank: json['lottery_rank'] as int?,
     );
   }
 
   bool get isActive => status == WaitlistStatus.active;
+
+  /// Still in line: waiting, or holding an offer.
+  bool get isWaiting => isActive || status == WaitlistStatus.offered;
+
+  /// Whether the entry's claim window is open at [now].
+  bool hasOpenOffer({DateTime? now}) =>
+      status == WaitlistStatus.offered &&
+      offerExpiresAt != null &&
+      (now ?? DateTime.now()).isBefore(offerExpiresAt!);
   bool get isAutoBuy => mode == WaitlistMode.autoBuy;
   bool get isNotify => mode == WaitlistMode.notify;
 
@@ -0,0 +1,120 @@
+import 'package:flutter/foundation.dart';
+
+/// How an event's waitlist is served when tickets become available.
+enum WaitlistOrder {
+  /// Everyone is notified at once; the fastest buyer wins.
+  fifo('fifo'),
+
+  /// One entry at a time, in the order they joined, each with an exclusive
+  /// claim window and the ticket held for them.
+  claimWindow('claim_window'),
+
+  /// Claim windows, in a random order drawn at a cutoff.
+  lottery('lottery');
+
+  const WaitlistOrder(this.value);
+  final String value;
+
+  static WaitlistOrder fromString(String? value) {
+    return WaitlistOrder.values.firstWhere(
+      (o) => o.value == value,
+      orElse: () => WaitlistOrder.fifo,
+    );
+  }
+}
+
+/// An organizer's waitlist settings for an event. Must match the server's
+/// `_shared/waitlist.ts`.
+@immutable
+class WaitlistSettings {
+  static const minClaimMinutes = 5;
+  static const maxClaimMinutes = 1440;
+
+  final WaitlistOrder order;
+
+  /// How long one entry's claim window lasts.
+  final int claimMinutes;
+
+  /// Lottery mode: entries registered before this are drawn in random order.
+  final DateTime? lotteryCutoff;
+
+  const WaitlistSettings({
+    this.order = WaitlistOrder.fifo,
+    this.claimMinutes = 15,
+    this.lotteryCutoff,
+  });
+
+  static const fifo = WaitlistSettings();
+
+  bool get servesInTurn => order != WaitlistOrder.fifo;
+
+  factory WaitlistSettings.fromJson(Map<String, dynamic> json) {
+    return WaitlistSettings(
+      order: WaitlistOrder.fromString(json['waitlist_mode'] as String?),
+      claimMinutes: json['waitlist_claim_minutes'] as int? ?? 15,
+      lotteryCutoff: json['waitlist_lottery_cutoff'] != null
+          ? DateTime.parse(json['waitlist_lottery_cutoff'] as String)
+          : null,
+    );
+  }
+
+  Map<String, dynamic> toJson() {
+    return {
+      'waitlist_mode': order.value,
+      'waitlist_claim_minutes': claimMinutes,
+      'waitlist_lottery_cutoff': order == WaitlistOrder.lottery
+          ? lotteryCutoff?.toUtc().toIso8601String()
+          : null,
+    };
+  }
+}
+
+/// The public record of an event's waitlist lottery. The seed's SHA-256
+/// ([seedCommitment]) is published when the cutoff is set; the seed itself
+/// and the drawn order are revealed at the draw, so anyone can check that
+/// each place is the rank of `sha256(seed:entryId)`.
+@immutable
+class WaitlistLottery {
+  final String eventId;
+  final String seedCommitment;
+  final DateTime cutoffAt;
+  final DateTime? drawnAt;
+
+  /// Revealed at the draw.
+  final String? seed;
+
+  /// Entries registered before the cutoff, in drawn order.
+  final List<String> rankedEntryIds;
+
+  const WaitlistLottery({
+    required this.eventId,
+    required this.seedCommitment,
+    required this.cutoffAt,
+    this.drawnAt,
+    this.seed,
+    this.rankedEntryIds = const [],
+  });
+
+  bool get isDrawn => drawnAt != null;
+
+  /// Place drawn for [entryId], counting from 1, or null if it wasn't in
+  /// the draw.
+  int? placeOf(String entryId) {
+    final index = rankedEntryIds.indexOf(entryId);
+    return index < 0 ? null : index + 1;
+  }
+
+  factory WaitlistLottery.fromJson(Map<String, dynamic> json) {
+    return WaitlistLottery(
+      eventId: json['event_id'] as String,
+      seedCommitment: json['seed_commitment'] as String,
+      cutoffAt: DateTime.parse(json['cutoff_at'] as String),
+      drawnAt: json['drawn_at'] != null
+          ? DateTime.parse(json['drawn_at'] as String)
+          : null,
+      seed: json['seed'] as String?,
+      rankedEntryIds: (json['ranked_entry_ids'] as List<dynamic>? ?? const [])
+          .cast<String>(),
+    );
+  }
+}
@@ -0,0 +1,277 @@
+import 'package:flutter/material.dart';
+import 'package:flutter_riverpod/flutter_riverpod.dart';
+
+import '../../../core/errors/errors.dart';
+import '../../../core/localization/localization.dart';
+import '../../../core/providers/providers.dart';
+import '../../events/models/event_model.dart';
+import '../models/waitlist_settings.dart';
+
+/// Organizer screen for how an event's waitlist is served: everyone at once,
+/// one exclusive claim window at a time, or claim windows in an order drawn
+/// by lottery.
+class WaitlistSettingsScreen extends ConsumerStatefulWidget {
+  final EventModel event;
+
+  const WaitlistSettingsScreen({super.key, required this.event});
+
+  @override
+  ConsumerState<WaitlistSettingsScreen> createState() =>
+      _WaitlistSettingsScreenState();
+}
+
+class _WaitlistSettingsScreenState
+    extends ConsumerState<WaitlistSettingsScreen> {
+  /// Claim window choices in minutes.
+  final List<int> _claimOptions = [5, 10, 15, 30, 60, 120, 1440];
+
+  WaitlistOrder _order = WaitlistOrder.fifo;
+  int _claimMinutes = 15;
+  DateTime? _lotteryCutoff;
+  WaitlistLottery? _lottery;
+  bool _isLoading = true;
+  bool _isSaving = false;
+  String? _error;
+
+  @override
+  void initState() {
+    super.initState();
+    _load();
+  }
+
+  Future<void> _load() async {
+    final repository = ref.read(waitlistRepositoryProvider);
+    try {
+      final results = await Future.wait([
+        repository.getSettings(widget.event.id),
+        repository.getLottery(widget.event.id),
+      ]);
+      final settings = results[0] as WaitlistSettings;
+      if (!mounted) return;
+      setState(() {
+        _order = settings.order;
+        _claimMinutes = settings.claimMinutes;
+        if (!_claimOptions.contains(_claimMinutes)) {
+          _claimOptions
+            ..add(_claimMinutes)
+            ..sort();
+        }
+        _lotteryCutoff = settings.lotteryCutoff?.toLocal();
+        _lottery = results[1] as WaitlistLottery?;
+        _isLoading = false;
+      });
+    } catch (e, s) {
+      if (mounted) {
+        setState(() {
+          _isLoading = false;
+          _error = ErrorHandler.normalize(e, s).userMessage;
+        });
+      }
+    }
+  }
+
+  bool get _isDrawn => _lottery?.isDrawn ?? false;
+
+  Future<void> _pickCutoff() async {
+    final now = DateTime.now();
+    final eventDate = widget.event.date;
+    final initial = _lotteryCutoff ?? now.add(const Duration(days: 1));
+    final date = await showDatePicker(
+      context: context,
+      initialDate: initial.isAfter(eventDate) ? now : initial,
+      firstDate: now,
+      lastDate: eventDate.isAfter(now) ? eventDate : now,
+    );
+    if (date == null || !mounted) return;
+    final time = await showTimePicker(
+      context: context,
+      initialTime: TimeOfDay.fromDateTime(initial),
+    );
+    if (time == null) return;
+    setState(() {
+      _lotteryCutoff =
+          DateTime(date.year, date.month, date.day, time.hour, time.minute);
+      _error = null;
+    });
+  }
+
+  Future<void> _save() async {
+    final cutoff = _lotteryCutoff;
+    if (_order == WaitlistOrder.lottery && !_isDrawn) {
+      if (cutoff == null) {
+        setState(() => _error = L.tr('waitlist_settings_pick_cutoff'));
+        return;
+      }
+      if (!cutoff.isAfter(DateTime.now()) ||
+          !cutoff.isBefore(widget.event.date)) {
+        setState(() => _error = L.tr('waitlist_settings_invalid_cutoff'));
+        return;
+      }
+    }
+
+    setState(() {
+      _isSaving = true;
+      _error = null;
+    });
+    final repository = ref.read(waitlistRepositoryProvider);
+    try {
+      final saved = await repository.saveSettings(
+        widget.event.id,
+        WaitlistSettings(
+          order: _order,
+          claimMinutes: _claimMinutes,
+          lotteryCutoff: cutoff,
+        ),
+      );
+      // Setting a cutoff publishes the lottery's commitment
+      final lottery = await repository.getLottery(widget.event.id);
+      if (!mounted) return;
+      setState(() {
+        _isSaving = false;
+        _lotteryCutoff = saved.lotteryCutoff?.toLocal();
+        _lottery = lottery;
+      });
+      ScaffoldMessenger.of(context).showSnackBar(
+        SnackBar(content: Text(L.tr('waitlist_settings_saved'))),
+      );
+    } catch (e, s) {
+      if (!mounted) return;
+      setState(() {
+        _isSaving = false;
+        _error = ErrorHandler.normalize(e, s).userMessage;
+      });
+    }
+  }
+
+  String _formatDateTime(DateTime date) {
+    final localizations = MaterialLocalizations.of(context);
+    final local = date.toLocal();
+    return '${localizations.formatMediumDate(local)} '
+        '${localizations.formatTimeOfDay(TimeOfDay.fromDateTime(local))}';
+  }
+
+  String _claimLabel(int minutes) => minutes % 60 == 0
+      ? L.tr('waitlist_settings_claim_hours', [minutes ~/ 60])
+      : L.tr('waitlist_settings_claim_minutes_option', [minutes]);
+
+  String _orderTitle(WaitlistOrder order) => switch (order) {
+        WaitlistOrder.fifo => L.tr('waitlist_settings_fifo'),
+        WaitlistOrder.claimWindow => L.tr('waitlist_settings_claim_window'),
+        WaitlistOrder.lottery => L.tr('waitlist_settings_lottery'),
+      };
+
+  String _orderDescription(WaitlistOrder order) => switch (order) {
+        WaitlistOrder.fifo => L.tr('waitlist_settings_fifo_hint'),
+        WaitlistOrder.claimWindow => L.tr('waitlist_settings_claim_window_hint'),
+        WaitlistOrder.lottery => L.tr('waitlist_settings_lottery_hint'),
+      };
+
+  @override
+  Widget build(BuildContext context) {
+    final theme = Theme.of(context);
+    final colorScheme = theme.colorScheme;
+    final lottery = _lottery;
+
+    return Scaffold(
+      appBar: AppBar(title: Text(L.tr('waitlist_settings_title'))),
+      body: _isLoading
+          ? const Center(child: CircularProgressIndicator())
+          : ListView(
+              padding: const EdgeInsets.all(20),
+              children: [
+                Text(widget.event.title, style: theme.textTheme.titleLarge),
+                const SizedBox(height: 16),
+                for (final order in WaitlistOrder.values)
+                  RadioListTile<WaitlistOrder>(
+                    contentPadding: EdgeInsets.zero,
+                    value: order,
+                    groupValue: _order,
+                    title: Text(_orderTitle(order)),
+                    subtitle: Text(_orderDescription(order)),
+                    onChanged: _isSaving
+                        ? null
+                        : (v) => setState(() {
+                              _order = v ?? WaitlistOrder.fifo;
+                              _error = null;
+                            }),
+                  ),
+                if (_order != WaitlistOrder.fifo) ...[
+                  const SizedBox(height: 16),
+                  DropdownButtonFormField<int>(
+                    value: _claimMinutes,
+                    decoration: InputDecoration(
+                      labelText: L.tr('waitlist_settings_claim_minutes'),
+                      helperText: L.tr('waitlist_settings_claim_minutes_hint'),
+                      helperMaxLines: 2,
+                      border: const OutlineInputBorder(),
+                    ),
+                    items: [
+                      for (final minutes in _claimOptions)
+                        DropdownMenuItem(
+                          value: minutes,
+                          child: Text(_claimLabel(minutes)),
+                        ),
+                    ],
+                    onChanged: (v) => setState(() => _claimMinutes = v ?? 15),
+                  ),
+                ],
+                if (_order == WaitlistOrder.lottery) ...[
+                  const SizedBox(height: 8),
+                  ListTile(
+                    contentPadding: EdgeInsets.zero,
+                    title: Text(L.tr('waitlist_settings_cutoff')),
+                    subtitle: Text(
+                      _lotteryCutoff == null
+                          ? L.tr('waitlist_settings_pick_cutoff')
+                          : _formatDateTime(_lotteryCutoff!),
+                    ),
+                    trailing: const Icon(Icons.event),
+                    onTap: _isSaving || _isDrawn ? null : _pickCutoff,
+                  ),
+                ],
+                if (lottery != null) ...[
+                  const SizedBox(height: 8),
+                  Text(
+                    lottery.isDrawn
+                        ? L.tr('waitlist_settings_drawn', [
+                            _formatDateTime(lottery.drawnAt!),
+                            lottery.rankedEntryIds.length,
+                          ])
+                        : L.tr('waitlist_settings_commitment_hint'),
+                    style: theme.textTheme.bodySmall?.copyWith(
+                      color: colorScheme.onSurfaceVariant,
+                    ),
+                  ),
+                  const SizedBox(height: 4),
+                  SelectableText(
+                    L.tr('waitlist_lottery_commitment', [
+                      lottery.seedCommitment,
+                    ]),
+                    style: theme.textTheme.labelSmall,
+                  ),
+                  if (lottery.seed != null)
+                    SelectableText(
+                      L.tr('waitlist_lottery_seed', [lottery.seed]),
+                      style: theme.textTheme.labelSmall,
+                    ),
+                ],
+                if (_error != null) ...[
+                  const SizedBox(height: 16),
+                  Text(_error!, style: TextStyle(color: colorScheme.error)),
+                ],
+                const SizedBox(height: 24),
+                FilledButton(
+                  onPressed: _isSaving ? null : _save,
+                  child: _isSaving
+                      ? const SizedBox(
+                          width: 20,
+                          height: 20,
+                          child: CircularProgressIndicator(strokeWidth: 2),
+                        )
+                      : Text(L.tr('waitlist_settings_save')),
+                ),
+              ],
+            ),
+    );
+  }
+}
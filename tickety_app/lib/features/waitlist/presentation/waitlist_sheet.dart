@@ -5,6 +5,7 @@ import 'package:flutter_riverpod/flutter_riverpod.dart';
 import '../../../core/localization/localization.dart';
 import '../../../core/providers/providers.dart';
 import '../../../core/services/services.dart';
+import '../models/waitlist_settings.dart';
 
 /// Bottom sheet for joining the waitlist.
 class WaitlistSheet extends ConsumerStatefulWidget {
@@ -107,12 +108,20 @@ class _WaitlistSheetState extends ConsumerState<WaitlistSheet> {
             _ActiveWaitlistCard(
               entry: waitlistState.entry!,
               position: waitlistState.position,
+              lottery: waitlistState.lottery,
+              awaitsDraw: waitlistState.awaitsLotteryDraw,
               isLoading: waitlistState.isLoading,
               onLeave: () {
                 ref.read(waitlistProvider(widget.eventId).notifier).leave();
               },
             ),
           ] else ...[
+            // Lottery still open for entries
+            if (waitlistState.awaitsLotteryDraw) ...[
+              _LotteryNotice(lottery: waitlistState.lottery!),
+              const SizedBox(height: 16),
+            ],
+
             // Mode selector
             _ModeSelector(
               isAutoBuy: _isAutoBuy,
@@ -480,12 +489,16 @@ class _ModeOption extends StatelessWidget {
 class _ActiveWaitlistCard extends StatelessWidget {
   final dynamic entry;
   final int? position;
+  final WaitlistLottery? lottery;
+  final bool awaitsDraw;
   final bool isLoading;
   final VoidCallback onLeave;
 
   const _ActiveWaitlistCard({
     required this.entry,
     required this.position,
+    this.lottery,
+    this.awaitsDraw = false,
     required this.isLoading,
     required this.onLeave,
   });
@@ -494,6 +507,11 @@ class _ActiveWaitlistCard extends StatelessWidget {
   Widget build(BuildContext context) {
     final theme = Theme.of(context);
     final colorScheme = theme.colorScheme;
+    final hasOffer = entry.hasOpenOffer() as bool;
+    final lottery = this.lottery;
+    final drawnPlace = lottery != null && lottery.isDrawn
+        ? lottery.placeOf(entry.id as String)
+        : null;
 
     return Container(
       padding: const EdgeInsets.all(20),
@@ -507,39 +525,67 @@ class _ActiveWaitlistCard extends StatelessWidget {
       child: Column(
         children: [
           Icon(
-            entry.isAutoBuy
-                ? Icons.flash_on_rounded
-                : Icons.notifications_active_rounded,
+            hasOffer
+                ? Icons.timer_outlined
+                : entry.isAutoBuy
+                    ? Icons.flash_on_rounded
+                    : Icons.notifications_active_rounded,
             size: 40,
             color: colorScheme.primary,
           ),
           const SizedBox(height: 12),
           Text(
-            L.tr('waitlist_on_waitlist'),
+            hasOffer ? L.tr('waitlist_offer_title') : L.tr('waitlist_on_waitlist'),
             style: theme.textTheme.titleMedium?.copyWith(
               fontWeight: FontWeight.bold,
             ),
           ),
           const SizedBox(height: 4),
           Text(
-            entry.isAutoBuy
-                ? 'Auto-buy enabled up to ${entry.formattedMaxPrice}'
-                : "We'll notify you when tickets are available",
+            hasOffer
+                ? L.tr(
+                    entry.offerListingId != null
+                        ? 'waitlist_offer_held_until'
+                        : 'waitlist_offer_until',
+                    [_formatTime(context, entry.offerExpiresAt as DateTime)],
+                  )
+                : entry.isAutoBuy
+                    ? 'Auto-buy enabled up to ${entry.formattedMaxPrice}'
+                    : "We'll notify you when tickets are available",
             style: theme.textTheme.bodyMedium?.copyWith(
               color: colorScheme.onSurfaceVariant,
             ),
             textAlign: TextAlign.center,
           ),
-          if (position != null) ...[
+          if (!hasOffer && awaitsDraw) ...[
             const SizedBox(height: 8),
             Text(
-              'Position #$position in queue',
+              L.tr('waitlist_lottery_awaiting_draw', [
+                _formatTime(context, lottery!.cutoffAt),
+              ]),
               style: theme.textTheme.bodySmall?.copyWith(
                 color: colorScheme.primary,
                 fontWeight: FontWeight.w600,
               ),
+              textAlign: TextAlign.center,
+            ),
+          ] else if (!hasOffer && position != null) ...[
+            const SizedBox(height: 8),
+            Text(
+              drawnPlace != null
+                  ? L.tr('waitlist_lottery_position', [position, drawnPlace])
+                  : 'Position #$position in queue',
+              style: theme.textTheme.bodySmall?.copyWith(
+                color: colorScheme.primary,
+                fontWeight: FontWeight.w600,
+              ),
+              textAlign: TextAlign.center,
             ),
           ],
+          if (lottery != null) ...[
+            const SizedBox(height: 12),
+            _LotteryProof(lottery: lottery),
+          ],
           const SizedBox(height: 16),
           OutlinedButton(
             onPressed: isLoading ? null : onLeave,
@@ -557,10 +603,86 @@ class _ActiveWaitlistCard extends StatelessWidget {
                     height: 20,
                     child: CircularProgressIndicator(strokeWidth: 2),
                   )
-                : Text(L.tr('waitlist_leave')),
+                : Text(hasOffer
+                    ? L.tr('waitlist_offer_decline')
+                    : L.tr('waitlist_leave')),
+          ),
+        ],
+      ),
+    );
+  }
+}
+
+String _formatTime(BuildContext context, DateTime date) {
+  final localizations = MaterialLocalizations.of(context);
+  final local = date.toLocal();
+  return '${localizations.formatMediumDate(local)} '
+      '${localizations.formatTimeOfDay(TimeOfDay.fromDateTime(local))}';
+}
+
+/// Tells someone joining that the waitlist is ordered by a lottery.
+class _LotteryNotice extends StatelessWidget {
+  final WaitlistLottery lottery;
+
+  const _LotteryNotice({required this.lottery});
+
+  @override
+  Widget build(BuildContext context) {
+    final theme = Theme.of(context);
+    final colorScheme = theme.colorScheme;
+
+    return Container(
+      padding: const EdgeInsets.all(12),
+      decoration: BoxDecoration(
+        color: colorScheme.secondaryContainer.withValues(alpha: 0.5),
+        borderRadius: BorderRadius.circular(12),
+      ),
+      child: Row(
+        children: [
+          Icon(Icons.casino_outlined, size: 20, color: colorScheme.secondary),
+          const SizedBox(width: 12),
+          Expanded(
+            child: Text(
+              L.tr('waitlist_lottery_join_hint', [
+                _formatTime(context, lottery.cutoffAt),
+              ]),
+              style: theme.textTheme.bodySmall,
+            ),
           ),
         ],
       ),
     );
   }
 }
+
+/// The lottery's published commitment, and its seed once drawn, so
+/// entrants can check the order.
+class _LotteryProof extends StatelessWidget {
+  final WaitlistLottery lottery;
+
+  const _LotteryProof({required this.lottery});
+
+  @override
+  Widget build(BuildContext context) {
+    final theme = Theme.of(context);
+    final style = theme.textTheme.labelSmall?.copyWith(
+      color: theme.colorScheme.onSurfaceVariant,
+    );
+
+    return Column(
+      children: [
+        SelectableText(
+          L.tr('waitlist_lottery_commitment', [lottery.seedCommitment]),
+          style: style,
+          textAlign: TextAlign.center,
+        ),
+        if (lottery.seed != null)
+          SelectableText(
+            L.tr('waitlist_lottery_seed', [lottery.seed]),
+            style: style,
+            textAlign: TextAlign.center,
+          ),
+      ],
+    );
+  }
+}
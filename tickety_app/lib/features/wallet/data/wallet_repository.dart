@@ -174,15 +174,23 @@ class WalletRepository {
   // ============================================================
 
   /// Purchase tickets from wallet balance (no Stripe involved).
+  ///
+  /// [ticketItems] (`ticket_type_id`, `quantity`) is required for events with
+  /// ticket types; [accessCodes] unlock hidden ones.
   Future<Map<String, dynamic>> purchaseFromWallet({
     required String eventId,
     required int quantity,
+    List<Map<String, dynamic>>? ticketItems,
+    List<String>? accessCodes,
   }) async {
     final response = await _client.functions.invoke(
       'purchase-from-wallet',
       body: {
         'event_id': eventId,
         'quantity': quantity,
+        if (ticketItems != null) 'ticket_items': ticketItems,
+        if (accessCodes != null && accessCodes.isNotEmpty)
+          'access_codes': accessCodes,
       },
     );
 
@@ -207,7 +215,7 @@ class WalletRepository {
     required int quantity,
     required String paymentMethodId,
     required int amountCents,
-    String? promoCodeId,
+    List<String>? promoCodes,
     List<Map<String, dynamic>>? seatSelections,
   }) async {
     final response = await _client.functions.invoke(
@@ -217,7 +225,7 @@ class WalletRepository {
         'quantity': quantity,
         'payment_method_id': paymentMethodId,
         'amount_cents': amountCents,
-        if (promoCodeId != null) 'promo_code_id': promoCodeId,
+        if (promoCodes != null && promoCodes.isNotEmpty) 'promo_codes': promoCodes,
         if (seatSelections != null) 'seat_selections': seatSelections,
       },
     );
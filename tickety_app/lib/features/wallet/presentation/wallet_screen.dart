@@ -85,9 +85,9 @@ class _WalletScreenState extends ConsumerState<WalletScreen> {
     }
   }
 
-  Future<void> _handleWithdraw() async {
+  Future<void> _handleWithdraw([String currency = 'usd']) async {
     final notifier = ref.read(sellerBalanceProvider.notifier);
-    final result = await notifier.initiateWithdrawal();
+    final result = await notifier.initiateWithdrawal(currency: currency);
 
     if (result == null) return;
     if (!mounted) return;
@@ -219,6 +219,7 @@ class _WalletScreenState extends ConsumerState<WalletScreen> {
                   isLoading: sellerState.isWithdrawing,
                   onAddBank: _handleAddBank,
                   onWithdraw: _handleWithdraw,
+                  onWithdrawCurrency: _handleWithdraw,
                 ),
 
               // Error messages
@@ -910,11 +911,15 @@ class _WalletActions extends ConsumerWidget {
   final VoidCallback onAddBank;
   final VoidCallback onWithdraw;
 
+  /// Withdraws the balance held in another currency (e.g. 'eur').
+  final ValueChanged<String> onWithdrawCurrency;
+
   const _WalletActions({
     required this.balance,
     required this.isLoading,
     required this.onAddBank,
     required this.onWithdraw,
+    required this.onWithdrawCurrency,
   });
 
   @override
@@ -950,6 +955,20 @@ class _WalletActions extends ConsumerWidget {
             isPrimary: canWithdraw,
             onTap: canWithdraw ? onWithdraw : null,
           ),
+        // Balances from events priced in other currencies pay out on their own
+        if (!needsBankSetup)
+          for (final other in balance.otherCurrencyBalances)
+            if (other.availableCents > 0) ...[
+              const SizedBox(height: 12),
+              _ActionButton(
+                icon: Icons.arrow_downward,
+                label: 'Withdraw ${other.formattedAvailable}',
+                sublabel: L.tr('wallet_transfer_to_bank'),
+                isLoading: false,
+                isPrimary: false,
+                onTap: () => onWithdrawCurrency(other.currency),
+              ),
+            ],
       ],
     );
   }
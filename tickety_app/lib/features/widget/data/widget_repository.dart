@@ -1,17 +1,17 @@
-import 'dart:convert';
-import 'dart:math';
-
-import 'package:crypto/crypto.dart';
-
 import '../../../core/services/services.dart';
 import '../models/widget_api_key.dart';
+import '../models/widget_checkout_stats.dart';
 import '../models/widget_config.dart';
 
 class WidgetRepository {
   final _client = SupabaseService.instance.client;
 
   // ── API Keys ──────────────────────────────────────────
+  //
+  // Keys are minted, rotated and revoked by the `widget-api-keys` function;
+  // the plaintext only ever appears in its create/rotate responses.
 
+  /// The organizer's keys, newest first. Revoked keys are left out.
   Future<List<WidgetApiKey>> getApiKeys() async {
     final userId = SupabaseService.instance.currentUser?.id;
     if (userId == null) return [];
@@ -20,6 +20,7 @@ class WidgetRepository {
         .from('widget_api_keys')
         .select()
         .eq('organizer_id', userId)
+        .isFilter('revoked_at', null)
         .order('created_at', ascending: false);
 
     return (response as List)
@@ -27,49 +28,45 @@ class WidgetRepository {
         .toList();
   }
 
-  /// Creates a new API key. Returns the key with [rawKey] populated (only time it's available).
+  /// Creates a new API key. Returns the key with [WidgetApiKey.rawKey]
+  /// populated (only time it's available). [test] keys take payments in
+  /// Stripe test mode.
   Future<WidgetApiKey> createApiKey({
     String? label,
     List<String>? allowedEventIds,
     List<String>? allowedOrigins,
+    bool test = false,
   }) async {
-    final userId = SupabaseService.instance.currentUser?.id;
-    if (userId == null) throw Exception('Not authenticated');
-
-    // Generate a secure random key
-    final random = Random.secure();
-    final bytes = List<int>.generate(24, (_) => random.nextInt(256));
-    final rawKey = 'twk_live_${base64Url.encode(bytes).replaceAll('=', '')}';
+    final response = await _client.functions.invoke(
+      'widget-api-keys',
+      body: {
+        'action': 'create',
+        'mode': test ? 'test' : 'live',
+        'label': label,
+        'allowed_event_ids': allowedEventIds,
+        'allowed_origins': allowedOrigins,
+      },
+    );
 
-    // Hash for storage
-    final keyHash = sha256.convert(utf8.encode(rawKey)).toString();
+    final data = response.data as Map<String, dynamic>;
+    return WidgetApiKey.fromJson(
+      data['key'] as Map<String, dynamic>,
+      rawKey: data['secret'] as String,
+    );
+  }
 
-    final response = await _client
-        .from('widget_api_keys')
-        .insert({
-          'organizer_id': userId,
-          'key_prefix': 'twk_live_',
-          'key_hash': keyHash,
-          'label': label,
-          'allowed_event_ids': allowedEventIds,
-          'allowed_origins': allowedOrigins,
-        })
-        .select()
-        .single();
+  /// Replaces [keyId] with a new key of the same mode and scopes. The old
+  /// key keeps working for [overlapHours] so embeds can be updated.
+  Future<WidgetApiKey> rotateApiKey(String keyId, {int overlapHours = 24}) async {
+    final response = await _client.functions.invoke(
+      'widget-api-keys',
+      body: {'action': 'rotate', 'key_id': keyId, 'overlap_hours': overlapHours},
+    );
 
-    final key = WidgetApiKey.fromJson(response);
-    return WidgetApiKey(
-      id: key.id,
-      organizerId: key.organizerId,
-      keyPrefix: key.keyPrefix,
-      label: key.label,
-      allowedEventIds: key.allowedEventIds,
-      allowedOrigins: key.allowedOrigins,
-      isActive: key.isActive,
-      rateLimitPerMinute: key.rateLimitPerMinute,
-      createdAt: key.createdAt,
-      lastUsedAt: key.lastUsedAt,
-      rawKey: rawKey,
+    final data = response.data as Map<String, dynamic>;
+    return WidgetApiKey.fromJson(
+      data['key'] as Map<String, dynamic>,
+      rawKey: data['secret'] as String,
     );
   }
 
@@ -86,11 +83,34 @@ class WidgetRepository {
 
     if (updates.isEmpty) return;
 
-    await _client.from('widget_api_keys').update(updates).eq('id', keyId);
+    await _client.functions.invoke(
+      'widget-api-keys',
+      body: {'action': 'update', 'key_id': keyId, ...updates},
+    );
   }
 
-  Future<void> deleteApiKey(String keyId) async {
-    await _client.from('widget_api_keys').delete().eq('id', keyId);
+  /// Revokes a key for good. Embeds using it stop working immediately.
+  Future<void> revokeApiKey(String keyId) async {
+    await _client.functions.invoke(
+      'widget-api-keys',
+      body: {'action': 'revoke', 'key_id': keyId},
+    );
+  }
+
+  /// Request counts per key id over the last [days] days.
+  Future<Map<String, WidgetKeyUsage>> getKeyUsage({int days = 7}) async {
+    final response = await _client.functions.invoke(
+      'widget-api-keys',
+      body: {'action': 'usage', 'days': days},
+    );
+
+    final usage = <String, WidgetKeyUsage>{};
+    for (final row in (response.data as Map<String, dynamic>)['usage'] as List) {
+      final json = row as Map<String, dynamic>;
+      final keyId = json['key_id'] as String;
+      usage[keyId] = (usage[keyId] ?? const WidgetKeyUsage()) + WidgetKeyUsage.fromJson(json);
+    }
+    return usage;
   }
 
   // ── Widget Config ─────────────────────────────────────
@@ -118,4 +138,14 @@ class WidgetRepository {
 
     return WidgetConfig.fromJson(response);
   }
+
+  // ── Checkout Activity ─────────────────────────────────
+
+  Future<WidgetCheckoutStats> getCheckoutStats({int days = 30}) async {
+    final response = await _client.rpc(
+      'get_widget_checkout_stats',
+      params: {'p_days': days},
+    );
+    return WidgetCheckoutStats.fromJson(response as Map<String, dynamic>);
+  }
 }
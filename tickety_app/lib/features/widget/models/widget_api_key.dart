@@ -2,6 +2,12 @@ class WidgetApiKey {
   final String id;
   final String organizerId;
   final String keyPrefix;
+
+  /// 'live' takes real payments; 'test' uses Stripe test mode.
+  final String mode;
+
+  /// Last four characters of the key.
+  final String? keyHint;
   final String? label;
   final List<String>? allowedEventIds;
   final List<String>? allowedOrigins;
@@ -10,6 +16,10 @@ class WidgetApiKey {
   final DateTime createdAt;
   final DateTime? lastUsedAt;
 
+  /// Set when the key was rotated; it stops working after this.
+  final DateTime? expiresAt;
+  final DateTime? revokedAt;
+
   /// Only available when the key is first created (not stored in DB).
   final String? rawKey;
 
@@ -17,6 +27,8 @@ class WidgetApiKey {
     required this.id,
     required this.organizerId,
     this.keyPrefix = 'twk_live_',
+    this.mode = 'live',
+    this.keyHint,
     this.label,
     this.allowedEventIds,
     this.allowedOrigins,
@@ -24,14 +36,31 @@ class WidgetApiKey {
     this.rateLimitPerMinute = 100,
     required this.createdAt,
     this.lastUsedAt,
+    this.expiresAt,
+    this.revokedAt,
     this.rawKey,
   });
 
-  factory WidgetApiKey.fromJson(Map<String, dynamic> json) {
+  bool get isTest => mode == 'test';
+
+  /// Rotated, but still inside its overlap window.
+  bool get isExpiring => expiresAt != null && expiresAt!.isAfter(DateTime.now());
+
+  bool get isExpired => expiresAt != null && !isExpiring;
+
+  /// Whether the key currently authenticates widget requests.
+  bool get isUsable => isActive && revokedAt == null && !isExpired;
+
+  /// `twk_live_…abcd`, or just the prefix for keys minted before hints.
+  String get maskedKey => keyHint != null ? '$keyPrefix…$keyHint' : '$keyPrefix••••••';
+
+  factory WidgetApiKey.fromJson(Map<String, dynamic> json, {String? rawKey}) {
     return WidgetApiKey(
       id: json['id'] as String,
       organizerId: json['organizer_id'] as String,
       keyPrefix: json['key_prefix'] as String? ?? 'twk_live_',
+      mode: json['mode'] as String? ?? 'live',
+      keyHint: json['key_hint'] as String?,
       label: json['label'] as String?,
       allowedEventIds: (json['allowed_event_ids'] as List?)?.cast<String>(),
       allowedOrigins: (json['allowed_origins'] as List?)?.cast<String>(),
@@ -41,6 +70,46 @@ class WidgetApiKey {
       lastUsedAt: json['last_used_at'] != null
           ? DateTime.parse(json['last_used_at'] as String)
           : null,
+      expiresAt: json['expires_at'] != null
+          ? DateTime.parse(json['expires_at'] as String)
+          : null,
+      revokedAt: json['revoked_at'] != null
+          ? DateTime.parse(json['revoked_at'] as String)
+          : null,
+      rawKey: rawKey,
+    );
+  }
+}
+
+/// Request counts for one key over the usage window.
+class WidgetKeyUsage {
+  final int requests;
+  final int checkouts;
+  final int originRejections;
+  final int rateLimited;
+
+  const WidgetKeyUsage({
+    this.requests = 0,
+    this.checkouts = 0,
+    this.originRejections = 0,
+    this.rateLimited = 0,
+  });
+
+  int get blocked => originRejections + rateLimited;
+
+  WidgetKeyUsage operator +(WidgetKeyUsage other) => WidgetKeyUsage(
+        requests: requests + other.requests,
+        checkouts: checkouts + other.checkouts,
+        originRejections: originRejections + other.originRejections,
+        rateLimited: rateLimited + other.rateLimited,
+      );
+
+  factory WidgetKeyUsage.fromJson(Map<String, dynamic> json) {
+    return WidgetKeyUsage(
+      requests: json['requests'] as int? ?? 0,
+      checkouts: json['checkouts'] as int? ?? 0,
+      originRejections: json['origin_rejections'] as int? ?? 0,
+      rateLimited: json['rate_limited'] as int? ?? 0,
     );
   }
 }
@@ -0,0 +1,40 @@
+/// Widget checkout outcomes for the organizer's keys over a recent window.
+class WidgetCheckoutStats {
+  final int started;
+  final int paid;
+  final int abandoned;
+  final int expired;
+  final int failed;
+  final int recoveryEmailsSent;
+
+  /// Paid checkouts resumed from a recovery email.
+  final int recovered;
+  final int abandonedCents;
+  final int recoveredCents;
+
+  const WidgetCheckoutStats({
+    this.started = 0,
+    this.paid = 0,
+    this.abandoned = 0,
+    this.expired = 0,
+    this.failed = 0,
+    this.recoveryEmailsSent = 0,
+    this.recovered = 0,
+    this.abandonedCents = 0,
+    this.recoveredCents = 0,
+  });
+
+  factory WidgetCheckoutStats.fromJson(Map<String, dynamic> json) {
+    return WidgetCheckoutStats(
+      started: json['started'] as int? ?? 0,
+      paid: json['paid'] as int? ?? 0,
+      abandoned: json['abandoned'] as int? ?? 0,
+      expired: json['expired'] as int? ?? 0,
+      failed: json['failed'] as int? ?? 0,
+      recoveryEmailsSent: json['recovery_emails_sent'] as int? ?? 0,
+      recovered: json['recovered'] as int? ?? 0,
+      abandonedCents: json['abandoned_cents'] as int? ?? 0,
+      recoveredCents: json['recovered_cents'] as int? ?? 0,
+    );
+  }
+}
@@ -9,6 +9,9 @@ class WidgetConfig {
   final bool showPoweredBy;
   final String? customCss;
 
+  /// Email buyers who abandon checkout a link that restores their order.
+  final bool abandonmentEmails;
+
   const WidgetConfig({
     required this.id,
     required this.organizerId,
@@ -19,6 +22,7 @@ class WidgetConfig {
     this.buttonStyle = 'rounded',
     this.showPoweredBy = true,
     this.customCss,
+    this.abandonmentEmails = false,
   });
 
   factory WidgetConfig.fromJson(Map<String, dynamic> json) {
@@ -32,6 +36,7 @@ class WidgetConfig {
       buttonStyle: json['button_style'] as String? ?? 'rounded',
       showPoweredBy: json['show_powered_by'] as bool? ?? true,
       customCss: json['custom_css'] as String?,
+      abandonmentEmails: json['abandonment_emails'] as bool? ?? false,
     );
   }
 
@@ -44,6 +49,7 @@ class WidgetConfig {
         'button_style': buttonStyle,
         'show_powered_by': showPoweredBy,
         'custom_css': customCss,
+        'abandonment_emails': abandonmentEmails,
       };
 
   WidgetConfig copyWith({
@@ -54,6 +60,7 @@ class WidgetConfig {
     String? buttonStyle,
     bool? showPoweredBy,
     String? customCss,
+    bool? abandonmentEmails,
   }) {
     return WidgetConfig(
       id: id,
@@ -65,6 +72,7 @@ class WidgetConfig {
       buttonStyle: buttonStyle ?? this.buttonStyle,
       showPoweredBy: showPoweredBy ?? this.showPoweredBy,
       customCss: customCss ?? this.customCss,
+      abandonmentEmails: abandonmentEmails ?? this.abandonmentEmails,
     );
   }
 }
@@ -2,10 +2,14 @@ import 'package:flutter/material.dart';
 import 'package:flutter/services.dart';
 import 'package:flutter_riverpod/flutter_riverpod.dart';
 
+import '../../../core/errors/errors.dart';
 import '../../../core/localization/localization.dart';
 import '../../../core/services/services.dart';
+import '../../../core/state/state.dart';
+import '../../../core/utils/utils.dart';
 import '../data/widget_repository.dart';
 import '../models/widget_api_key.dart';
+import '../models/widget_checkout_stats.dart';
 import '../models/widget_config.dart';
 
 final _widgetRepoProvider = Provider((ref) => WidgetRepository());
@@ -18,6 +22,14 @@ final _widgetConfigProvider = FutureProvider.autoDispose<WidgetConfig?>((ref) as
   return ref.read(_widgetRepoProvider).getConfig();
 });
 
+final _keyUsageProvider = FutureProvider.autoDispose<Map<String, WidgetKeyUsage>>((ref) async {
+  return ref.read(_widgetRepoProvider).getKeyUsage();
+});
+
+final _checkoutStatsProvider = FutureProvider.autoDispose<WidgetCheckoutStats>((ref) async {
+  return ref.read(_widgetRepoProvider).getCheckoutStats();
+});
+
 class WidgetSettingsScreen extends ConsumerStatefulWidget {
   final String? eventId;
   final String? eventTitle;
@@ -37,7 +49,9 @@ class _WidgetSettingsScreenState extends ConsumerState<WidgetSettingsScreen> {
     final theme = Theme.of(context);
     final colorScheme = theme.colorScheme;
     final keysAsync = ref.watch(_apiKeysProvider);
+    final usage = ref.watch(_keyUsageProvider).valueOrNull ?? const {};
     final configAsync = ref.watch(_widgetConfigProvider);
+    final statsAsync = ref.watch(_checkoutStatsProvider);
 
     return Scaffold(
       appBar: AppBar(
@@ -84,8 +98,10 @@ class _WidgetSettingsScreenState extends ConsumerState<WidgetSettingsScreen> {
               children: [
                 ...keys.map((key) => _ApiKeyCard(
                   apiKey: key,
+                  usage: usage[key.id],
                   onToggle: () => _toggleKey(key),
-                  onDelete: () => _deleteKey(key),
+                  onRotate: () => _rotateKey(key),
+                  onRevoke: () => _revokeKey(key),
                 )),
                 if (keys.isEmpty)
                   Padding(
@@ -165,12 +181,23 @@ class _WidgetSettingsScreenState extends ConsumerState<WidgetSettingsScreen> {
           ],
 
           const SizedBox(height: 12),
-          FilledButton.icon(
-            onPressed: _creatingKey ? null : _createKey,
-            icon: _creatingKey
-                ? const SizedBox(width: 16, height: 16, child: CircularProgressIndicator(strokeWidth: 2))
-                : const Icon(Icons.add),
-            label: Text(_creatingKey ? L.tr('creating') : L.tr('create_api_key')),
+          Wrap(
+            spacing: 8,
+            runSpacing: 8,
+            children: [
+              FilledButton.icon(
+                onPressed: _creatingKey ? null : () => _createKey(),
+                icon: _creatingKey
+                    ? const SizedBox(width: 16, height: 16, child: CircularProgressIndicator(strokeWidth: 2))
+                    : const Icon(Icons.add),
+                label: Text(_creatingKey ? L.tr('creating') : L.tr('create_api_key')),
+              ),
+              OutlinedButton.icon(
+                onPressed: _creatingKey ? null : () => _createKey(test: true),
+                icon: const Icon(Icons.science_outlined),
+                label: Text(L.tr('widget_create_test_key')),
+              ),
+            ],
           ),
 
           const SizedBox(height: 32),
@@ -188,7 +215,7 @@ class _WidgetSettingsScreenState extends ConsumerState<WidgetSettingsScreen> {
             loading: () => const SizedBox.shrink(),
             error: (_, __) => const SizedBox.shrink(),
             data: (keys) {
-              final activeKey = keys.where((k) => k.isActive).firstOrNull;
+              final activeKey = keys.where((k) => k.isUsable).firstOrNull;
               if (activeKey == null) {
                 return Container(
                   padding: const EdgeInsets.all(16),
@@ -204,7 +231,7 @@ class _WidgetSettingsScreenState extends ConsumerState<WidgetSettingsScreen> {
                 );
               }
 
-              final keyDisplay = _newKeyRaw ?? '${activeKey.keyPrefix}••••••••••••';
+              final keyDisplay = _newKeyRaw ?? activeKey.maskedKey;
               final eventIdStr = widget.eventId ?? 'YOUR_EVENT_ID';
               final snippet = '''<div id="tickety-checkout"></div>
 <script src="https://hnouslchigcmbiovdbfz.supabase.co/storage/v1/object/public/widget/v1/tickety-widget.js"></script>
@@ -255,6 +282,21 @@ class _WidgetSettingsScreenState extends ConsumerState<WidgetSettingsScreen> {
 
           const SizedBox(height: 32),
 
+          // Checkout activity section
+          Text(
+            L.tr('widget_checkout_activity'),
+            style: theme.textTheme.titleMedium?.copyWith(fontWeight: FontWeight.bold),
+          ),
+          const SizedBox(height: 12),
+
+          statsAsync.when(
+            loading: () => const Center(child: CircularProgressIndicator()),
+            error: (e, _) => Text('Error: $e'),
+            data: (stats) => _CheckoutActivityCard(stats: stats),
+          ),
+
+          const SizedBox(height: 32),
+
           // Widget Appearance section
           Text(L.tr('appearance'), style: theme.textTheme.titleMedium?.copyWith(fontWeight: FontWeight.bold)),
           const SizedBox(height: 8),
@@ -281,13 +323,14 @@ class _WidgetSettingsScreenState extends ConsumerState<WidgetSettingsScreen> {
     );
   }
 
-  Future<void> _createKey() async {
+  Future<void> _createKey({bool test = false}) async {
     setState(() => _creatingKey = true);
     try {
       final repo = ref.read(_widgetRepoProvider);
       final key = await repo.createApiKey(
         label: widget.eventTitle != null ? 'Key for ${widget.eventTitle}' : null,
         allowedEventIds: widget.eventId != null ? [widget.eventId!] : null,
+        test: test,
       );
       setState(() {
         _newKeyRaw = key.rawKey;
@@ -310,18 +353,53 @@ class _WidgetSettingsScreenState extends ConsumerState<WidgetSettingsScreen> {
     ref.invalidate(_apiKeysProvider);
   }
 
-  Future<void> _deleteKey(WidgetApiKey key) async {
+  Future<void> _rotateKey(WidgetApiKey key) async {
+    final confirmed = await showDialog<bool>(
+      context: context,
+      builder: (ctx) => AlertDialog(
+        title: Text(L.tr('widget_key_rotate')),
+        content: Text(L.tr('widget_key_rotate_warning')),
+        actions: [
+          TextButton(onPressed: () => Navigator.pop(ctx, false), child: Text(L.tr('cancel'))),
+          FilledButton(
+            onPressed: () => Navigator.pop(ctx, true),
+            child: Text(L.tr('widget_key_rotate')),
+          ),
+        ],
+      ),
+    );
+
+    if (confirmed != true) return;
+
+    try {
+      final rotated = await ref.read(_widgetRepoProvider).rotateApiKey(key.id);
+      setState(() => _newKeyRaw = rotated.rawKey);
+      ref.invalidate(_apiKeysProvider);
+    } catch (e, s) {
+      if (mounted) {
+        ScaffoldMessenger.of(context).showSnackBar(
+          SnackBar(
+            content: Text(ErrorHandler.normalize(e, s).userMessage),
+            backgroundColor: Colors.red,
+            behavior: SnackBarBehavior.floating,
+          ),
+        );
+      }
+    }
+  }
+
+  Future<void> _revokeKey(WidgetApiKey key) async {
     final confirmed = await showDialog<bool>(
       context: context,
       builder: (ctx) => AlertDialog(
-        title: Text(L.tr('delete_api_key')),
-        content: Text(L.tr('delete_api_key_warning')),
+        title: Text(L.tr('widget_key_revoke')),
+        content: Text(L.tr('widget_key_revoke_warning')),
         actions: [
           TextButton(onPressed: () => Navigator.pop(ctx, false), child: Text(L.tr('cancel'))),
           FilledButton(
             onPressed: () => Navigator.pop(ctx, true),
             style: FilledButton.styleFrom(backgroundColor: Colors.red),
-            child: Text(L.tr('delete')),
+            child: Text(L.tr('widget_key_revoke')),
           ),
         ],
       ),
@@ -330,20 +408,24 @@ class _WidgetSettingsScreenState extends ConsumerState<WidgetSettingsScreen> {
     if (confirmed != true) return;
 
     final repo = ref.read(_widgetRepoProvider);
-    await repo.deleteApiKey(key.id);
+    await repo.revokeApiKey(key.id);
     ref.invalidate(_apiKeysProvider);
   }
 }
 
 class _ApiKeyCard extends StatelessWidget {
   final WidgetApiKey apiKey;
+  final WidgetKeyUsage? usage;
   final VoidCallback onToggle;
-  final VoidCallback onDelete;
+  final VoidCallback onRotate;
+  final VoidCallback onRevoke;
 
   const _ApiKeyCard({
     required this.apiKey,
+    this.usage,
     required this.onToggle,
-    required this.onDelete,
+    required this.onRotate,
+    required this.onRevoke,
   });
 
   @override
@@ -358,9 +440,9 @@ class _ApiKeyCard extends StatelessWidget {
         child: Row(
           children: [
             Icon(
-              Icons.vpn_key,
+              apiKey.isTest ? Icons.science_outlined : Icons.vpn_key,
               size: 20,
-              color: apiKey.isActive ? colorScheme.primary : colorScheme.onSurfaceVariant,
+              color: apiKey.isUsable ? colorScheme.primary : colorScheme.onSurfaceVariant,
             ),
             const SizedBox(width: 12),
             Expanded(
@@ -368,27 +450,63 @@ class _ApiKeyCard extends StatelessWidget {
                 crossAxisAlignment: CrossAxisAlignment.start,
                 children: [
                   Text(
-                    apiKey.label ?? '${apiKey.keyPrefix}••••••',
+                    apiKey.label ?? apiKey.maskedKey,
                     style: theme.textTheme.bodyMedium?.copyWith(fontWeight: FontWeight.w600),
                   ),
-                  Text(
-                    apiKey.isActive ? 'Active' : 'Disabled',
-                    style: theme.textTheme.bodySmall?.copyWith(
-                      color: apiKey.isActive ? Colors.green : colorScheme.onSurfaceVariant,
+                  if (apiKey.label != null)
+                    Text(
+                      apiKey.maskedKey,
+                      style: theme.textTheme.bodySmall?.copyWith(
+                        fontFamily: 'monospace',
+                        color: colorScheme.onSurfaceVariant,
+                      ),
+                    ),
+                  if (apiKey.isTest)
+                    Text(
+                      L.tr('widget_key_test'),
+                      style: theme.textTheme.bodySmall?.copyWith(color: Colors.orange.shade700),
+                    ),
+                  if (apiKey.isExpiring)
+                    Text(
+                      L.tr('widget_key_expires_hours', [
+                        apiKey.expiresAt!.difference(DateTime.now()).inHours.clamp(1, 168).toString(),
+                      ]),
+                      style: theme.textTheme.bodySmall?.copyWith(color: Colors.orange.shade700),
+                    )
+                  else
+                    Text(
+                      apiKey.isUsable ? 'Active' : 'Disabled',
+                      style: theme.textTheme.bodySmall?.copyWith(
+                        color: apiKey.isUsable ? Colors.green : colorScheme.onSurfaceVariant,
+                      ),
                     ),
-                  ),
                   if (apiKey.lastUsedAt != null)
                     Text(
                       'Last used ${_timeAgo(apiKey.lastUsedAt!)}',
                       style: theme.textTheme.bodySmall?.copyWith(color: colorScheme.onSurfaceVariant),
                     ),
+                  if (usage != null)
+                    Text(
+                      L.tr('widget_key_usage', [usage!.requests.toString(), usage!.blocked.toString()]),
+                      style: theme.textTheme.bodySmall?.copyWith(color: colorScheme.onSurfaceVariant),
+                    ),
                 ],
               ),
             ),
-            Switch(value: apiKey.isActive, onChanged: (_) => onToggle()),
-            IconButton(
-              icon: Icon(Icons.delete_outline, size: 20, color: colorScheme.error),
-              onPressed: onDelete,
+            Switch(
+              value: apiKey.isActive,
+              onChanged: apiKey.isExpired ? null : (_) => onToggle(),
+            ),
+            PopupMenuButton<String>(
+              onSelected: (action) => action == 'rotate' ? onRotate() : onRevoke(),
+              itemBuilder: (_) => [
+                if (apiKey.expiresAt == null)
+                  PopupMenuItem(value: 'rotate', child: Text(L.tr('widget_key_rotate'))),
+                PopupMenuItem(
+                  value: 'revoke',
+                  child: Text(L.tr('widget_key_revoke'), style: TextStyle(color: colorScheme.error)),
+                ),
+              ],
             ),
           ],
         ),
@@ -417,21 +535,26 @@ class _AppearanceSection extends StatefulWidget {
 
 class _AppearanceSectionState extends State<_AppearanceSection> {
   late TextEditingController _colorController;
+  late TextEditingController _cssController;
   late String _buttonStyle;
   late bool _showPoweredBy;
+  late bool _abandonmentEmails;
   bool _saving = false;
 
   @override
   void initState() {
     super.initState();
     _colorController = TextEditingController(text: widget.config?.primaryColor ?? '#6366F1');
+    _cssController = TextEditingController(text: widget.config?.customCss ?? '');
     _buttonStyle = widget.config?.buttonStyle ?? 'rounded';
     _showPoweredBy = widget.config?.showPoweredBy ?? true;
+    _abandonmentEmails = widget.config?.abandonmentEmails ?? false;
   }
 
   @override
   void dispose() {
     _colorController.dispose();
+    _cssController.dispose();
     super.dispose();
   }
 
@@ -489,12 +612,41 @@ class _AppearanceSectionState extends State<_AppearanceSection> {
         ),
         const SizedBox(height: 16),
 
-        // Powered by toggle
+        // Custom CSS, scoped to the checkout when served
+        _buildField(
+          label: L.tr('widget_custom_css'),
+          child: TextField(
+            controller: _cssController,
+            minLines: 3,
+            maxLines: 8,
+            maxLength: 10000,
+            style: theme.textTheme.bodySmall?.copyWith(fontFamily: 'monospace'),
+            decoration: InputDecoration(
+              hintText: '.primary-btn { text-transform: uppercase; }',
+              helperText: L.tr('widget_custom_css_hint'),
+              helperMaxLines: 2,
+              isDense: true,
+              border: const OutlineInputBorder(),
+            ),
+          ),
+        ),
+        const SizedBox(height: 8),
+
+        // Powered by toggle; the checkout ignores it on the Base tier
         SwitchListTile(
           title: Text(L.tr('show_powered_by_tickety')),
-          subtitle: Text(L.tr('required_on_base_tier')),
-          value: _showPoweredBy,
-          onChanged: (val) => setState(() => _showPoweredBy = val),
+          subtitle: Text(L.tr(_canHidePoweredBy ? 'required_on_base_tier' : 'widget_powered_by_paid')),
+          value: _showPoweredBy || !_canHidePoweredBy,
+          onChanged: _canHidePoweredBy ? (val) => setState(() => _showPoweredBy = val) : null,
+          contentPadding: EdgeInsets.zero,
+        ),
+
+        // Abandoned checkout recovery
+        SwitchListTile(
+          title: Text(L.tr('widget_abandonment_emails')),
+          subtitle: Text(L.tr('widget_abandonment_emails_desc')),
+          value: _abandonmentEmails,
+          onChanged: (val) => setState(() => _abandonmentEmails = val),
           contentPadding: EdgeInsets.zero,
         ),
         const SizedBox(height: 16),
@@ -507,6 +659,8 @@ class _AppearanceSectionState extends State<_AppearanceSection> {
     );
   }
 
+  bool get _canHidePoweredBy => AppState().tier != AccountTier.base;
+
   Widget _buildField({required String label, required Widget child}) {
     return Column(
       crossAxisAlignment: CrossAxisAlignment.start,
@@ -532,15 +686,79 @@ class _AppearanceSectionState extends State<_AppearanceSection> {
     final userId = SupabaseService.instance.currentUser?.id;
     if (userId == null) return;
 
+    final css = _cssController.text.trim();
     final config = WidgetConfig(
       id: widget.config?.id ?? '',
       organizerId: userId,
-      primaryColor: _colorController.text,
+      primaryColor: _colorController.text.trim(),
+      accentColor: widget.config?.accentColor,
+      fontFamily: widget.config?.fontFamily ?? 'Inter',
+      logoUrl: widget.config?.logoUrl,
       buttonStyle: _buttonStyle,
-      showPoweredBy: _showPoweredBy,
+      showPoweredBy: _showPoweredBy || !_canHidePoweredBy,
+      customCss: css.isEmpty ? null : css,
+      abandonmentEmails: _abandonmentEmails,
     );
 
     await widget.onSave(config);
     if (mounted) setState(() => _saving = false);
   }
 }
+
+class _CheckoutActivityCard extends StatelessWidget {
+  final WidgetCheckoutStats stats;
+
+  const _CheckoutActivityCard({required this.stats});
+
+  @override
+  Widget build(BuildContext context) {
+    final theme = Theme.of(context);
+    final colorScheme = theme.colorScheme;
+
+    return Container(
+      padding: const EdgeInsets.all(16),
+      decoration: BoxDecoration(
+        color: colorScheme.surfaceContainerHighest.withValues(alpha: 0.5),
+        borderRadius: BorderRadius.circular(12),
+      ),
+      child: Column(
+        crossAxisAlignment: CrossAxisAlignment.start,
+        children: [
+          Row(
+            children: [
+              _stat(context, L.tr('widget_checkout_started'), stats.started),
+              _stat(context, L.tr('widget_checkout_paid'), stats.paid),
+              _stat(context, L.tr('widget_checkout_abandoned'), stats.abandoned),
+              _stat(context, L.tr('widget_checkout_recovered'), stats.recovered),
+            ],
+          ),
+          if (stats.abandonedCents > 0) ...[
+            const SizedBox(height: 12),
+            Text(
+              L.tr('widget_checkout_abandoned_value', [CurrencyFormatter.format(stats.abandonedCents)]),
+              style: theme.textTheme.bodySmall?.copyWith(color: colorScheme.onSurfaceVariant),
+            ),
+          ],
+        ],
+      ),
+    );
+  }
+
+  Widget _stat(BuildContext context, String label, int value) {
+    final theme = Theme.of(context);
+    return Expanded(
+      child: Column(
+        children: [
+          Text(
+            '$value',
+            style: theme.textTheme.titleLarge?.copyWith(fontWeight: FontWeight.bold),
+          ),
+          Text(
+            label,
+            style: theme.textTheme.labelSmall?.copyWith(color: theme.colorScheme.onSurfaceVariant),
+          ),
+        ],
+      ),
+    );
+  }
+}
@@ -1,5 +1,8 @@
 import 'package:flutter_test/flutter_test.dart';
+import 'package:tickety/features/events/models/event_cancellation.dart';
 import 'package:tickety/features/events/models/event_model.dart';
+import 'package:tickety/features/events/models/event_reschedule.dart';
+import 'package:tickety/features/events/models/refund_policy.dart';
 
 void main() {
   group('EventModel', () {
@@ -142,4 +145,115 @@ void main() {
       }
     });
   });
+
+  group('EventCancellation', () {
+    final json = {
+      'id': 'job_001',
+      'event_id': 'evt_001',
+      'reason': 'Venue flooded',
+      'status': 'running',
+      'total_payments': 40,
+      'refunded_count': 25,
+      'skipped_count': 3,
+      'failed_count': 2,
+      'refunded_cents': 125000,
+      'created_at': '2026-05-01T10:00:00Z',
+      'events': {'title': 'Summer Music Festival', 'currency': 'eur'},
+    };
+
+    test('parses progress and the joined event', () {
+      final cancellation = EventCancellation.fromJson(json);
+
+      expect(cancellation.status, EventCancellationStatus.running);
+      expect(cancellation.processedCount, 30);
+      expect(cancellation.progress, 0.75);
+      expect(cancellation.eventTitle, 'Summer Music Festival');
+      expect(cancellation.currency, 'eur');
+      expect(cancellation.finishedAt, isNull);
+    });
+
+    test('failed refunds can be retried once the job finishes', () {
+      final running = EventCancellation.fromJson(json);
+      final finished = EventCancellation.fromJson({
+        ...json,
+        'status': 'completed_with_errors',
+        'finished_at': '2026-05-01T10:05:00Z',
+      });
+
+      expect(running.canRetry, isFalse);
+      expect(finished.status, EventCancellationStatus.completedWithErrors);
+      expect(finished.canRetry, isTrue);
+    });
+
+    test('a cancellation without payments is complete', () {
+      final cancellation = EventCancellation.fromJson({
+        ...json,
+        'status': 'completed',
+        'total_payments': 0,
+        'refunded_count': 0,
+        'skipped_count': 0,
+        'failed_count': 0,
+        'events': null,
+      });
+
+      expect(cancellation.progress, 1);
+      expect(cancellation.canRetry, isFalse);
+      expect(cancellation.currency, 'usd');
+    });
+  });
+
+  group('EventReschedule', () {
+    final json = {
+      'id': 'res_001',
+      'event_id': 'evt_001',
+      'previous_date': '2026-06-01T19:00:00Z',
+      'new_date': '2026-07-01T19:00:00Z',
+      'reason': 'Headliner is ill',
+      'refund_until': '2026-05-20T00:00:00Z',
+      'notified_holders': 120,
+      'nft_refreshes': 30,
+      'wallet_passes_updated': 45,
+      'created_at': '2026-05-06T10:00:00Z',
+    };
+
+    test('parses the move and what it reached', () {
+      final reschedule = EventReschedule.fromJson(json);
+
+      expect(reschedule.previousDate, DateTime.utc(2026, 6, 1, 19));
+      expect(reschedule.newDate, DateTime.utc(2026, 7, 1, 19));
+      expect(reschedule.notifiedHolders, 120);
+      expect(reschedule.nftRefreshes, 30);
+      expect(reschedule.walletPassesUpdated, 45);
+      expect(reschedule.refundWindowOpen(now: DateTime.utc(2026, 5, 10)), isTrue);
+      expect(reschedule.refundWindowOpen(now: DateTime.utc(2026, 5, 21)), isFalse);
+    });
+
+    test('a reschedule without a refund window never opens one', () {
+      final reschedule = EventReschedule.fromJson({
+        ...json,
+        'refund_until': null,
+        'wallet_passes_updated': null,
+      });
+
+      expect(reschedule.refundUntil, isNull);
+      expect(reschedule.walletPassesUpdated, 0);
+      expect(reschedule.refundWindowOpen(now: DateTime.utc(2026, 5, 10)), isFalse);
+    });
+
+    test('the refund window overrides the policy, fees included', () {
+      final eventDate = DateTime.utc(2026, 7, 1, 19);
+      final policy = RefundPolicy(
+        tiers: const [RefundTier(daysBefore: 30, refundPercent: 50)],
+        rescheduleRefundUntil: DateTime.utc(2026, 6, 15),
+      );
+
+      final inWindow = DateTime.utc(2026, 6, 10);
+      expect(policy.percentAt(eventDate, now: inWindow), 100);
+      expect(policy.refundsFeesAt(now: inWindow), isTrue);
+
+      final afterWindow = DateTime.utc(2026, 6, 20);
+      expect(policy.percentAt(eventDate, now: afterWindow), 0);
+      expect(policy.refundsFeesAt(now: afterWindow), isFalse);
+    });
+  });
 }
@@ -1,5 +1,8 @@
 import 'package:flutter_test/flutter_test.dart';
+import 'package:tickety/features/events/models/event_tax.dart';
+import 'package:tickety/features/events/models/refund_policy.dart';
 import 'package:tickety/features/payments/models/payment.dart';
+import 'package:tickety/features/payments/models/ticket_refund.dart';
 
 void main() {
   group('PaymentStatus', () {
@@ -280,4 +283,172 @@ void main() {
       expect(response.paymentId, isNull);
     });
   });
+
+  group('ServiceFeeCalculator', () {
+    // Must match supabase/functions/_shared/fees.test.ts
+    test('matches the server for USD', () {
+      final fees = ServiceFeeCalculator.calculate(1000);
+
+      expect(fees.platformFeeCents, 50);
+      expect(fees.mintFeeCents, 25);
+      expect(fees.stripeFeeCents, 64);
+      expect(fees.totalCents, 1139);
+    });
+
+    test('uses the fixed fees of the event currency', () {
+      expect(ServiceFeeCalculator.calculate(1000, currency: 'EUR').totalCents,
+          1133);
+      expect(ServiceFeeCalculator.calculate(1000, currency: 'gbp').totalCents,
+          1123);
+      expect(ServiceFeeCalculator.calculate(1000, currency: 'cad').totalCents,
+          1144);
+    });
+
+    test('handles zero-decimal currencies', () {
+      final fees = ServiceFeeCalculator.calculate(1500, currency: 'jpy');
+
+      expect(fees.mintFeeCents, 40);
+      expect(fees.totalCents, 1705);
+    });
+  });
+
+  group('TaxCalculator', () {
+    // Must match supabase/functions/_shared/tax.test.ts
+    test('rounds each added rate half up', () {
+      final tax = TaxCalculator.calculate(
+        1000,
+        const EventTax(rates: [
+          EventTaxRate(name: 'State sales tax', rateBps: 625),
+          EventTaxRate(name: 'City admission tax', rateBps: 200),
+        ]),
+      );
+
+      expect(tax.lines.map((l) => l.taxCents), [63, 20]);
+      expect(tax.taxCents, 83);
+      expect(TaxCalculator.addedCents(tax), 83);
+    });
+
+    test('splits included tax across the rates', () {
+      final tax = TaxCalculator.calculate(
+        1000,
+        const EventTax(inclusive: true, rates: [
+          EventTaxRate(name: 'GST', rateBps: 500),
+          EventTaxRate(name: 'QST', rateBps: 997),
+        ]),
+      );
+
+      expect(tax.netCents, 870);
+      expect(tax.lines.map((l) => l.taxCents), [43, 87]);
+      expect(TaxCalculator.addedCents(tax), 0);
+    });
+
+    test('formats rates', () {
+      expect(formatTaxRate(2000), '20%');
+      expect(formatTaxRate(825), '8.25%');
+      expect(formatTaxRate(997), '9.97%');
+    });
+  });
+
+  group('Fees with tax', () {
+    // Must match supabase/functions/_shared/fees.test.ts
+    const salesTax = EventTax(rates: [
+      EventTaxRate(name: 'Sales tax', rateBps: 825),
+    ]);
+
+    test('adds tax before the card gross-up', () {
+      final fees = ServiceFeeCalculator.calculate(1000, tax: salesTax);
+
+      expect(fees.taxCents, 83);
+      expect(fees.platformFeeCents, 50);
+      expect(fees.totalCents, 1224);
+      expect(fees.serviceFeeCents, 1224 - 1000 - 83);
+    });
+
+    test('charges the platform fee on the price without included tax', () {
+      final fees = ServiceFeeCalculator.calculate(
+        1200,
+        currency: 'eur',
+        tax: const EventTax(inclusive: true, rates: [
+          EventTaxRate(name: 'VAT', rateBps: 2000),
+        ]),
+      );
+
+      expect(fees.taxCents, 200);
+      expect(fees.platformFeeCents, 50);
+      expect(fees.totalCents - fees.serviceFeeCents, 1200);
+    });
+
+    test('adds tax to ACH purchases', () {
+      final fees = ACHPurchaseFeeCalculator.calculate(
+        1000,
+        tax: const EventTax(rates: [EventTaxRate(name: 'Sales tax', rateBps: 500)]),
+      );
+
+      expect(fees.taxCents, 50);
+      expect(fees.totalCents, 1109);
+    });
+  });
+
+  group('Refunds', () {
+    final eventDate = DateTime.utc(2026, 6, 1, 20);
+    DateTime daysOut(double days) => eventDate.subtract(
+          Duration(minutes: (days * Duration.minutesPerDay).round()),
+        );
+
+    test('refund policy picks the furthest out tier reached', () {
+      final policy = RefundPolicy(tiers: const [
+        RefundTier(daysBefore: 7, refundPercent: 50),
+        RefundTier(daysBefore: 30, refundPercent: 100),
+      ]);
+
+      expect(policy.tiers.first.daysBefore, 30);
+      expect(policy.percentAt(eventDate, now: daysOut(45)), 100);
+      expect(policy.percentAt(eventDate, now: daysOut(30)), 100);
+      expect(policy.percentAt(eventDate, now: daysOut(29.5)), 50);
+      expect(policy.percentAt(eventDate, now: daysOut(6)), 0);
+      expect(policy.percentAt(eventDate, now: daysOut(-1)), 0);
+      expect(RefundPolicy.none.percentAt(eventDate, now: daysOut(90)), 0);
+    });
+
+    test('partially refunded payments stay completed', () {
+      final payment = Payment.fromJson({
+        'id': 'pay_001',
+        'user_id': 'user_001',
+        'amount_cents': 12044,
+        'refunded_cents': 3011,
+        'status': 'completed',
+        'created_at': '2026-05-01T10:00:00Z',
+        'updated_at': '2026-05-02T10:00:00Z',
+      });
+
+      expect(payment.refundedCents, 3011);
+      expect(payment.isPartiallyRefunded, isTrue);
+      expect(
+        payment.copyWith(status: PaymentStatus.refunded).isPartiallyRefunded,
+        isFalse,
+      );
+    });
+
+    test('ticket refund parses amounts and the joined ticket', () {
+      final refund = TicketRefund.fromJson({
+        'id': 'ref_001',
+        'ticket_id': 'tkt_001',
+        'payment_id': 'pay_001',
+        'event_id': 'evt_001',
+        'status': 'refunded',
+        'refund_percent': 50,
+        'amount_cents': 1375,
+        'currency': 'usd',
+        'decided_by': 'policy',
+        'created_at': '2026-05-02T10:00:00Z',
+        'tickets': {'ticket_number': 'TKT-0001', 'owner_name': 'Sam'},
+      });
+
+      expect(refund.status, TicketRefundStatus.refunded);
+      expect(refund.isAutomatic, isTrue);
+      expect(refund.formattedAmount, '\$13.75');
+      expect(refund.ticketNumber, 'TKT-0001');
+      expect(TicketRefundStatus.fromString('requested').isOpen, isTrue);
+    });
+  });
 }
@@ -108,6 +108,49 @@ void main() {
       expect(minimalTicket.soldBy, isNull);
       expect(minimalTicket.checkedInAt, isNull);
     });
+
+    group('resale policy', () {
+      Ticket withEvent(Map<String, dynamic> event) => Ticket.fromJson({
+            ...validJson,
+            'events': {'id': 'evt_001', 'title': 'Test Event', ...event},
+          });
+
+      test('limits mirror the server rounding', () {
+        final policyTicket = withEvent({
+          'resale_max_price_percent': 120,
+          'resale_min_price_percent': 50,
+          'resale_royalty_bps': 750,
+        });
+        final policy = policyTicket.resalePolicy;
+        final limits = policy.limitsFor(1999);
+        expect(limits.maxCents, 2398);
+        expect(limits.minCents, 1000);
+        expect(policy.royaltyCents(2500), 188);
+        expect(policy.limitsFor(policyTicket.pricePaidCents).maxCents, 6000);
+      });
+
+      test('tickets without event data have no limits', () {
+        expect(ticket.resalePolicy.hasRules, isFalse);
+        expect(ticket.resalePolicy.limitsFor(5000).maxCents, isNull);
+      });
+
+      test('cannot be resold once the resale window closes', () {
+        final soon = DateTime.now().add(const Duration(hours: 1));
+        final open = withEvent({'date': soon.toUtc().toIso8601String()});
+        final closed = withEvent({
+          'date': soon.toUtc().toIso8601String(),
+          'resale_closes_minutes_before': 120,
+        });
+        expect(open.canBeResold, isTrue);
+        expect(closed.canBeResold, isFalse);
+      });
+
+      test('cannot be resold before the resale window opens', () {
+        final later = DateTime.now().add(const Duration(days: 1));
+        final notYet = withEvent({'resale_opens_at': later.toUtc().toIso8601String()});
+        expect(notYet.canBeResold, isFalse);
+      });
+    });
   });
 
   group('TicketStatus', () {
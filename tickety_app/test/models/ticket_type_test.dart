@@ -0,0 +1,84 @@
+import 'package:flutter_test/flutter_test.dart';
+import 'package:tickety/features/events/models/ticket_type.dart';
+
+void main() {
+  group('TicketType', () {
+    late Map<String, dynamic> validJson;
+
+    setUp(() {
+      validJson = {
+        'id': 'tt_001',
+        'event_id': 'evt_001',
+        'name': 'General Admission',
+        'price_cents': 5000,
+        'max_quantity': 500,
+        'sold_count': 97,
+        'is_active': true,
+        'min_per_order': 2,
+        'max_per_order': 6,
+        'created_at': '2025-01-15T10:00:00Z',
+        'price_tiers': [
+          {
+            'id': 'tier_2',
+            'name': 'Regular',
+            'price_cents': 4000,
+            'sort_order': 2,
+            'ends_after_sold': 300,
+          },
+          {
+            'id': 'tier_1',
+            'name': 'Early bird',
+            'price_cents': 3000,
+            'sort_order': 1,
+            'ends_after_sold': 100,
+          },
+        ],
+      };
+    });
+
+    test('fromJson reads sales rules and tiers', () {
+      final type = TicketType.fromJson(validJson);
+
+      expect(type.minPerOrder, 2);
+      expect(type.maxPerOrder, 6);
+      expect(type.isHidden, false);
+      expect(type.priceTiers.length, 2);
+      expect(type.salesStatus, TicketSalesStatus.onSale);
+    });
+
+    test('current price follows the tier and splits at its boundary', () {
+      final type = TicketType.fromJson(validJson);
+
+      expect(type.currentTier?.name, 'Early bird');
+      expect(type.currentPriceInCents, 3000);
+      expect(type.currentTierRemaining, 3);
+      // 3 left at $30, then 2 at $40
+      expect(type.priceForQuantity(5), 3 * 3000 + 2 * 4000);
+      expect(type.copyWith(soldCount: 300).currentPriceInCents, 5000);
+    });
+
+    test('a code makes the type hidden and the window sets the status', () {
+      final hidden = TicketType.fromJson({...validJson, 'access_password': 'VIP'});
+      expect(hidden.isHidden, true);
+
+      final scheduled = TicketType.fromJson({
+        ...validJson,
+        'sales_start_at': DateTime.now().add(const Duration(days: 1)).toIso8601String(),
+      });
+      expect(scheduled.salesStatus, TicketSalesStatus.scheduled);
+      expect(scheduled.isOnSale, false);
+
+      final ended = TicketType.fromJson({
+        ...validJson,
+        'sales_end_at': DateTime.now().subtract(const Duration(hours: 1)).toIso8601String(),
+      });
+      expect(ended.salesStatus, TicketSalesStatus.ended);
+    });
+
+    test('order limit is the smaller of max per order and what is left', () {
+      final type = TicketType.fromJson({...validJson, 'sold_count': 497});
+      expect(type.orderLimit, 3);
+      expect(TicketType.fromJson(validJson).orderLimit, 6);
+    });
+  });
+}
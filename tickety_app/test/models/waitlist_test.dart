@@ -0,0 +1,139 @@
+import 'package:flutter_test/flutter_test.dart';
+import 'package:tickety/features/payments/models/resale_listing.dart';
+import 'package:tickety/features/waitlist/models/waitlist_entry.dart';
+import 'package:tickety/features/waitlist/models/waitlist_settings.dart';
+
+void main() {
+  group('WaitlistEntry', () {
+    final offeredJson = {
+      'id': 'wl_001',
+      'event_id': 'evt_001',
+      'user_id': 'user_001',
+      'mode': 'notify',
+      'status': 'offered',
+      'created_at': '2026-05-01T10:00:00Z',
+      'offer_expires_at': '2026-05-01T12:15:00Z',
+      'offer_listing_id': 'listing_001',
+      'lottery_rank': 3,
+    };
+
+    test('fromJson reads an open offer and lottery rank', () {
+      final entry = WaitlistEntry.fromJson(offeredJson);
+
+      expect(entry.status, WaitlistStatus.offered);
+      expect(entry.offerExpiresAt, DateTime.utc(2026, 5, 1, 12, 15));
+      expect(entry.offerListingId, 'listing_001');
+      expect(entry.lotteryRank, 3);
+      expect(entry.isActive, isFalse);
+      expect(entry.isWaiting, isTrue);
+    });
+
+    test('an offer is open until it expires', () {
+      final entry = WaitlistEntry.fromJson(offeredJson);
+
+      expect(entry.hasOpenOffer(now: DateTime.utc(2026, 5, 1, 12, 10)), isTrue);
+      expect(entry.hasOpenOffer(now: DateTime.utc(2026, 5, 1, 12, 15)), isFalse);
+    });
+
+    test('a missed entry is no longer waiting', () {
+      final entry = WaitlistEntry.fromJson({...offeredJson, 'status': 'missed'});
+
+      expect(entry.status, WaitlistStatus.missed);
+      expect(entry.isWaiting, isFalse);
+      expect(entry.hasOpenOffer(now: DateTime.utc(2026, 5, 1, 12, 10)), isFalse);
+    });
+  });
+
+  group('WaitlistSettings', () {
+    test('defaults to FIFO for events without settings', () {
+      final settings = WaitlistSettings.fromJson({});
+
+      expect(settings.order, WaitlistOrder.fifo);
+      expect(settings.claimMinutes, 15);
+      expect(settings.servesInTurn, isFalse);
+    });
+
+    test('round-trips a lottery with its cutoff', () {
+      final settings = WaitlistSettings.fromJson({
+        'waitlist_mode': 'lottery',
+        'waitlist_claim_minutes': 30,
+        'waitlist_lottery_cutoff': '2026-05-01T12:00:00Z',
+      });
+
+      expect(settings.order, WaitlistOrder.lottery);
+      expect(settings.servesInTurn, isTrue);
+      expect(settings.toJson(), {
+        'waitlist_mode': 'lottery',
+        'waitlist_claim_minutes': 30,
+        'waitlist_lottery_cutoff': '2026-05-01T12:00:00.000Z',
+      });
+    });
+
+    test('clears the cutoff outside lottery mode', () {
+      final settings = WaitlistSettings(
+        order: WaitlistOrder.claimWindow,
+        lotteryCutoff: DateTime.utc(2026, 5, 1, 12),
+      );
+
+      expect(settings.toJson()['waitlist_mode'], 'claim_window');
+      expect(settings.toJson()['waitlist_lottery_cutoff'], isNull);
+    });
+  });
+
+  group('WaitlistLottery', () {
+    test('keeps the seed hidden until the draw', () {
+      final lottery = WaitlistLottery.fromJson({
+        'event_id': 'evt_001',
+        'seed_commitment': 'ba7816bf',
+        'cutoff_at': '2026-05-01T12:00:00Z',
+        'drawn_at': null,
+      });
+
+      expect(lottery.isDrawn, isFalse);
+      expect(lottery.seed, isNull);
+      expect(lottery.placeOf('wl_001'), isNull);
+    });
+
+    test('places entries in drawn order', () {
+      final lottery = WaitlistLottery.fromJson({
+        'event_id': 'evt_001',
+        'seed_commitment': 'ba7816bf',
+        'cutoff_at': '2026-05-01T12:00:00Z',
+        'drawn_at': '2026-05-01T12:01:00Z',
+        'seed': 'abc',
+        'ranked_entry_ids': ['wl_003', 'wl_001', 'wl_002'],
+      });
+
+      expect(lottery.isDrawn, isTrue);
+      expect(lottery.seed, 'abc');
+      expect(lottery.placeOf('wl_001'), 2);
+      expect(lottery.placeOf('wl_009'), isNull);
+    });
+  });
+
+  group('ResaleListing waitlist hold', () {
+    final listing = ResaleListing.fromJson({
+      'id': 'listing_001',
+      'ticket_id': 'ticket_001',
+      'seller_id': 'seller_001',
+      'price_cents': 5000,
+      'status': 'active',
+      'created_at': '2026-05-01T10:00:00Z',
+      'updated_at': '2026-05-01T12:00:00Z',
+      'reserved_for': 'user_001',
+      'reserved_until': '2026-05-01T12:15:00Z',
+    });
+
+    test('only the holder can buy until the hold lapses', () {
+      final during = DateTime.utc(2026, 5, 1, 12, 10);
+
+      expect(listing.isHeld(now: during), isTrue);
+      expect(listing.isHeldForOther('user_001', now: during), isFalse);
+      expect(listing.isHeldForOther('user_002', now: during), isTrue);
+      expect(
+        listing.isHeldForOther('user_002', now: DateTime.utc(2026, 5, 1, 12, 15)),
+        isFalse,
+      );
+    });
+  });
+}
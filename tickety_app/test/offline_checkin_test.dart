@@ -59,11 +59,11 @@ void main() {
 
   setUp(() async {
     // Create in-memory database for each test
-    // Schema matches OfflineCheckInService version 5
+    // Schema matches OfflineCheckInService version 6
     db = await databaseFactoryFfi.openDatabase(
       inMemoryDatabasePath,
       options: OpenDatabaseOptions(
-        version: 5,
+        version: 6,
         onCreate: (db, version) async {
           await db.execute('''
             CREATE TABLE IF NOT EXISTS door_list (
@@ -76,6 +76,7 @@ void main() {
               nft_asset_id TEXT,
               nft_policy_id TEXT,
               nft_tx_hash TEXT,
+              nft_chain_status TEXT,
               seat_label TEXT,
               category TEXT DEFAULT 'entry',
               item_icon TEXT,
@@ -566,6 +567,27 @@ void main() {
       );
       expect(entry.hasNft, false);
     });
+
+    test('isNftUnconfirmed until the NFT tx is confirmed', () {
+      final submitted = DoorListEntry(
+        ticketId: 'test-id',
+        ticketNumber: 'TKT-123',
+        eventId: 'event-001',
+        status: 'valid',
+        nftAssetId: 'asset-001',
+        nftChainStatus: 'submitted',
+        updatedAt: '2026-03-10T00:00:00Z',
+      );
+      final restored = DoorListEntry.fromMap(submitted.toMap());
+      expect(restored.nftChainStatus, 'submitted');
+      expect(restored.isNftUnconfirmed, true);
+
+      final confirmed = DoorListEntry.fromMap({
+        ...submitted.toMap(),
+        'nft_chain_status': 'confirmed',
+      });
+      expect(confirmed.isNftUnconfirmed, false);
+    });
   });
 
   group('SyncQueueEntry model', () {
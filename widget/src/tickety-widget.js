@@ -1,5 +1,5 @@
 /**
- * Tickety Embeddable Checkout Widget v1.0.0
+ * Tickety Embeddable Checkout Widget v1.5.0
  *
  * Usage:
  *   <script src="https://hnouslchigcmbiovdbfz.supabase.co/storage/v1/object/public/widget/v1/tickety-widget.js"></script>
@@ -12,157 +12,554 @@
  *       onClose: () => console.log('Closed'),
  *     });
  *   </script>
+ *
+ * Every init() call creates its own instance with its own callbacks, so a
+ * page can embed several events. Keep the returned instance to drive it:
+ *
+ *   var friday = Tickety.init({ key: '…', eventId: 'uuid-1', container: '#fri' });
+ *   var saturday = Tickety.init({ key: '…', eventId: 'uuid-2', container: '#sat' });
+ *   saturday.checkout();
+ *
+ * Event list mode renders the organizer's upcoming events, each with its
+ * own button; seriesId narrows it to one series:
+ *
+ *   Tickety.init({ key: '…', mode: 'list', seriesId: 'uuid', container: '#season' });
+ *
+ * Inline display renders checkout inside the container instead of a modal
+ * overlay; the frame grows and shrinks with its content:
+ *
+ *   Tickety.init({ key: '…', eventId: 'uuid', container: '#tickets', display: 'inline' });
+ *
+ * accessCode shows ticket types the organizer has hidden, e.g. on a members'
+ * page; it is the type's access code or a promo code limited to the type:
+ *
+ *   Tickety.init({ key: '…', eventId: 'uuid', container: '#crew', accessCode: 'BACKSTAGE' });
+ *
+ * Tickety.checkout(), close() and destroy() still work and act on the most
+ * recently created instance.
+ *
+ * Events (protocol v1)
+ * --------------------
+ * The checkout frame reports progress with postMessage, always addressed to
+ * the host page's origin; the widget only accepts messages from its own
+ * frames on that origin. Subscribe per instance with on() or the onEvent
+ * option, which receives every event:
+ *
+ *   instance.on('ticket_selected', function(p) { … });
+ *   Tickety.init({ …, onEvent: function(type, payload) { … } });
+ *
+ *   ready            { event_id }
+ *   ticket_selected  { event_id, ticket_type_id, quantity, total_quantity, subtotal_cents }
+ *   promo_applied    { event_id, code, discount_cents }
+ *   payment_started  { event_id, session_id, amount_cents }
+ *   completed        { event_id, session_id, email }
+ *   error            { event_id, stage: 'load'|'checkout'|'payment', message }
+ *   close            { event_id }
+ *   resize           { height }   (inline only)
+ *
+ * Raw messages look like { source: 'tickety', version: 1, instance, type,
+ * payload }. New fields may be added to payloads within a version; anything
+ * incompatible bumps the version.
  */
 (function() {
   'use strict';
 
-  var VERSION = '1.0.0';
+  var VERSION = '1.5.0';
+  var PROTOCOL_VERSION = 1;
   var API_BASE = 'https://hnouslchigcmbiovdbfz.supabase.co/functions/v1';
   var CHECKOUT_FN = API_BASE + '/widget-checkout-page';
+  var LIST_FN = API_BASE + '/widget-list-events';
+  var FONT = 'Inter,-apple-system,BlinkMacSystemFont,sans-serif';
+  var TICKET_ICON = '<svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" style="vertical-align:middle;margin-right:6px"><path d="M2 9a3 3 0 0 1 0 6v2a2 2 0 0 0 2 2h16a2 2 0 0 0 2-2v-2a3 3 0 0 1 0-6V7a2 2 0 0 0-2-2H4a2 2 0 0 0-2 2Z"/><path d="M13 5v2"/><path d="M13 17v2"/><path d="M13 11v2"/></svg>';
+
+  // Recovery emails link back to the host page with these parameters
+  var RESUME_PARAM = 'tickety_resume';
+  var RESUME_EVENT_PARAM = 'tickety_event';
 
-  var _config = null;
-  var _overlay = null;
-  var _iframe = null;
+  var _instances = [];
+  var _openInstance = null; // One checkout overlay at a time per page
   var _messageHandler = null;
+  var _nextId = 0;
+
+  // ── Instances ───────────────────────────────────────────
+
+  function TicketyInstance(config) {
+    this.id = 'tickety-' + (++_nextId);
+    this._config = config;
+    this._listeners = {};
+    this._overlay = null;
+    this._iframe = null;
+    this._container = null;
+    this._events = null;
+    this._destroyed = false;
+    var self = this;
+    this._handleEscape = function(e) {
+      if (e.key === 'Escape') self.close();
+    };
+  }
+
+  /** Subscribe to a checkout event (see Events above). */
+  TicketyInstance.prototype.on = function(type, handler) {
+    (this._listeners[type] = this._listeners[type] || []).push(handler);
+    return this;
+  };
+
+  TicketyInstance.prototype.off = function(type, handler) {
+    var list = this._listeners[type];
+    if (list) this._listeners[type] = list.filter(function(h) { return h !== handler; });
+    return this;
+  };
+
+  /** Ask an inline frame to report its height again, e.g. after the container was shown. */
+  TicketyInstance.prototype.resize = function() {
+    _postToFrame(this, 'measure');
+    return this;
+  };
+
+  /** Open checkout; list instances take the event to open. */
+  TicketyInstance.prototype.checkout = function(eventId) {
+    if (this._destroyed) throw new Error('Tickety: instance was destroyed');
+    var id = eventId || this._config.eventId;
+    if (!id) throw new Error('Tickety: eventId required');
+    if (this._config.display === 'inline') {
+      if (this._container) _mountInline(this);
+    } else {
+      _openCheckout(this, id);
+    }
+    return this;
+  };
+
+  TicketyInstance.prototype.close = function() {
+    _closeCheckout(this);
+    return this;
+  };
+
+  /** Reload the event list (list mode). */
+  TicketyInstance.prototype.refresh = function() {
+    if (this._config.mode === 'list' && this._container) _loadEventList(this);
+    return this;
+  };
+
+  TicketyInstance.prototype.destroy = function() {
+    _closeCheckout(this);
+    this._iframe = null;
+    if (this._container) this._container.innerHTML = '';
+    this._destroyed = true;
+    var i = _instances.indexOf(this);
+    if (i !== -1) _instances.splice(i, 1);
+    if (_instances.length === 0 && _messageHandler) {
+      window.removeEventListener('message', _messageHandler);
+      _messageHandler = null;
+    }
+  };
+
+  function _latest() {
+    return _instances.length ? _instances[_instances.length - 1] : null;
+  }
 
   var Tickety = {
     version: VERSION,
 
     init: function(config) {
       if (!config.key) throw new Error('Tickety: key required');
-      if (!config.eventId) throw new Error('Tickety: eventId required');
+      var mode = config.mode === 'list' ? 'list' : 'event';
+      if (mode === 'event' && !config.eventId) throw new Error('Tickety: eventId required');
+      if (mode === 'list' && !config.container) throw new Error('Tickety: container required in list mode');
+      var display = config.display === 'inline' ? 'inline' : 'modal';
+      if (display === 'inline' && (mode !== 'event' || !config.container)) {
+        throw new Error('Tickety: inline display needs an eventId and a container');
+      }
 
-      _config = {
+      var resume = _takeResumeToken(mode === 'event' ? config.eventId : null);
+      var instance = new TicketyInstance({
         key: config.key,
-        eventId: config.eventId,
+        mode: mode,
+        display: display,
+        eventId: mode === 'event' ? config.eventId : null,
+        seriesId: config.seriesId || null,
         container: config.container || null,
         theme: config.theme || {},
         onComplete: config.onComplete || null,
         onClose: config.onClose || null,
         onError: config.onError || null,
+        onLoad: config.onLoad || null,
+        onEvent: config.onEvent || null,
         buttonText: config.buttonText || 'Get Tickets',
-      };
+        emptyText: config.emptyText || 'No upcoming events',
+        accessCode: config.accessCode || null,
+        resumeToken: resume ? resume.token : null,
+        resumeEventId: resume ? resume.eventId : null,
+      });
+      _instances.push(instance);
+      _setupMessageListener();
 
-      if (_config.container) {
-        var el = typeof _config.container === 'string'
-          ? document.querySelector(_config.container) : _config.container;
-        if (el) _renderButton(el);
+      if (instance._config.container) {
+        var el = typeof instance._config.container === 'string'
+          ? document.querySelector(instance._config.container) : instance._config.container;
+        if (el) {
+          instance._container = el;
+          if (mode === 'list') _loadEventList(instance);
+          else if (display === 'inline') _mountInline(instance);
+          else _renderButton(instance, el, instance._config.eventId);
+        }
       }
 
-      _setupMessageListener();
-      return Tickety;
+      // List instances open the resumed event once the list has loaded
+      if (mode === 'event' && display === 'modal' && instance._config.resumeToken) {
+        _openCheckout(instance, instance._config.eventId);
+      }
+      return instance;
     },
 
-    checkout: function() {
-      if (!_config) throw new Error('Tickety: call init() first');
-      _openCheckout();
+    checkout: function(eventId) {
+      var instance = _latest();
+      if (!instance) throw new Error('Tickety: call init() first');
+      instance.checkout(eventId);
     },
 
-    close: function() { _closeCheckout(); },
+    close: function() {
+      if (_openInstance) _openInstance.close();
+    },
 
     destroy: function() {
-      _closeCheckout();
-      if (_messageHandler) {
-        window.removeEventListener('message', _messageHandler);
-        _messageHandler = null;
-      }
-      _config = null;
+      var instance = _latest();
+      if (instance) instance.destroy();
     },
   };
 
-  function _renderButton(container) {
-    var primary = _config.theme.primaryColor || '#6366F1';
+  // ── Rendering ───────────────────────────────────────────
+
+  function _button(instance, eventId, text) {
+    var primary = instance._config.theme.primaryColor || '#6366F1';
     var btn = document.createElement('button');
     btn.className = 'tickety-btn';
-    btn.innerHTML = '<svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" style="vertical-align:middle;margin-right:6px"><path d="M2 9a3 3 0 0 1 0 6v2a2 2 0 0 0 2 2h16a2 2 0 0 0 2-2v-2a3 3 0 0 1 0-6V7a2 2 0 0 0-2-2H4a2 2 0 0 0-2 2Z"/><path d="M13 5v2"/><path d="M13 17v2"/><path d="M13 11v2"/></svg>' + _config.buttonText;
-    btn.style.cssText = 'display:inline-flex;align-items:center;justify-content:center;padding:12px 24px;background:' + primary + ';color:#fff;border:none;border-radius:8px;font-family:Inter,-apple-system,BlinkMacSystemFont,sans-serif;font-size:16px;font-weight:600;cursor:pointer;transition:opacity 0.2s;';
+    btn.innerHTML = TICKET_ICON;
+    btn.appendChild(document.createTextNode(text));
+    btn.style.cssText = 'display:inline-flex;align-items:center;justify-content:center;padding:12px 24px;background:' + primary + ';color:#fff;border:none;border-radius:8px;font-family:' + FONT + ';font-size:16px;font-weight:600;cursor:pointer;transition:opacity 0.2s;';
     btn.onmouseenter = function() { btn.style.opacity = '0.9'; };
     btn.onmouseleave = function() { btn.style.opacity = '1'; };
-    btn.onclick = function() { Tickety.checkout(); };
+    btn.onclick = function() { instance.checkout(eventId); };
+    return btn;
+  }
+
+  function _renderButton(instance, container, eventId) {
+    container.innerHTML = '';
+    container.appendChild(_button(instance, eventId, instance._config.buttonText));
+  }
+
+  function _loadEventList(instance) {
+    var config = instance._config;
+    fetch(LIST_FN, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ widget_key: config.key, series_id: config.seriesId }),
+    })
+      .then(function(res) {
+        return res.json().then(function(data) {
+          if (!res.ok) throw new Error(data.error || 'Failed to load events');
+          return data;
+        });
+      })
+      .then(function(data) {
+        if (instance._destroyed) return;
+        instance._events = data.events || [];
+        _renderEventList(instance, instance._container, instance._events);
+        if (config.onLoad) config.onLoad({ events: instance._events });
+
+        var resumeEventId = config.resumeEventId;
+        config.resumeEventId = null;
+        if (resumeEventId && instance._events.some(function(e) { return e.id === resumeEventId; })) {
+          _openCheckout(instance, resumeEventId);
+        }
+      })
+      .catch(function(err) {
+        if (config.onError) config.onError({ message: err.message });
+      });
+  }
+
+  function _renderEventList(instance, container, events) {
     container.innerHTML = '';
-    container.appendChild(btn);
+    var list = document.createElement('div');
+    list.className = 'tickety-event-list';
+    list.style.cssText = 'display:flex;flex-direction:column;gap:12px;font-family:' + FONT + ';';
+
+    if (events.length === 0) {
+      var empty = document.createElement('p');
+      empty.className = 'tickety-event-empty';
+      empty.style.cssText = 'margin:0;color:#6b7280;font-size:15px;';
+      empty.textContent = instance._config.emptyText;
+      list.appendChild(empty);
+    }
+
+    events.forEach(function(event) {
+      var row = document.createElement('div');
+      row.className = 'tickety-event';
+      row.style.cssText = 'display:flex;align-items:center;gap:16px;padding:16px;border:1px solid #e5e7eb;border-radius:12px;background:#fff;';
+
+      if (event.image_url) {
+        var img = document.createElement('img');
+        img.src = event.image_url;
+        img.alt = '';
+        img.style.cssText = 'width:64px;height:64px;border-radius:8px;object-fit:cover;flex-shrink:0;';
+        row.appendChild(img);
+      }
+
+      var info = document.createElement('div');
+      info.style.cssText = 'flex:1;min-width:0;';
+      var title = document.createElement('div');
+      title.className = 'tickety-event-title';
+      title.style.cssText = 'font-size:16px;font-weight:600;color:#111827;';
+      title.textContent = event.title;
+      var meta = document.createElement('div');
+      meta.className = 'tickety-event-meta';
+      meta.style.cssText = 'font-size:14px;color:#6b7280;margin-top:2px;';
+      meta.textContent = [_formatDate(event.date), event.venue || event.city, _formatPrice(event)]
+        .filter(Boolean).join(' · ');
+      info.appendChild(title);
+      info.appendChild(meta);
+      row.appendChild(info);
+
+      if (event.sold_out) {
+        var soldOut = document.createElement('span');
+        soldOut.style.cssText = 'font-size:14px;font-weight:600;color:#9ca3af;white-space:nowrap;';
+        soldOut.textContent = 'Sold Out';
+        row.appendChild(soldOut);
+      } else {
+        row.appendChild(_button(instance, event.id, instance._config.buttonText));
+      }
+
+      list.appendChild(row);
+    });
+
+    container.appendChild(list);
   }
 
-  function _openCheckout() {
-    if (_overlay) return;
+  function _formatDate(iso) {
+    var date = new Date(iso);
+    if (isNaN(date.getTime())) return '';
+    try {
+      return date.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+    } catch (e) {
+      return date.toDateString();
+    }
+  }
 
-    // Fetch checkout HTML from edge function, inject via srcdoc
-    var params = '?key=' + encodeURIComponent(_config.key)
-      + '&event=' + encodeURIComponent(_config.eventId);
-    if (_config.theme.primaryColor) {
-      params += '&color=' + encodeURIComponent(_config.theme.primaryColor.replace('#', ''));
+  function _formatPrice(event) {
+    if (event.price_from_cents == null) return '';
+    if (event.price_from_cents === 0) return 'Free';
+    var text;
+    try {
+      // Prices are in the currency's minor unit; JPY has none
+      var format = new Intl.NumberFormat(undefined, { style: 'currency', currency: (event.currency || 'usd').toUpperCase() });
+      text = format.format(event.price_from_cents / Math.pow(10, format.resolvedOptions().maximumFractionDigits));
+    } catch (e) {
+      text = '$' + (event.price_from_cents / 100).toFixed(2);
     }
+    return 'From ' + text;
+  }
+
+  // ── Checkout overlay ────────────────────────────────────
+
+  function _openCheckout(instance, eventId) {
+    if (instance._overlay) return;
+    if (_openInstance && _openInstance !== instance) _closeCheckout(_openInstance);
+    _openInstance = instance;
+    var config = instance._config;
 
-    fetch(CHECKOUT_FN + params)
-      .then(function(res) { return res.text(); })
+    // Placeholder so a second click while loading does nothing
+    instance._overlay = document.createElement('div');
+
+    _fetchCheckout(instance, eventId)
       .then(function(html) {
-        _overlay = document.createElement('div');
-        _overlay.id = 'tickety-overlay';
-        _overlay.style.cssText = 'position:fixed;inset:0;z-index:2147483647;background:rgba(0,0,0,0.6);backdrop-filter:blur(4px);display:flex;align-items:center;justify-content:center;opacity:0;transition:opacity 0.25s ease;';
-        _overlay.addEventListener('click', function(e) {
-          if (e.target === _overlay) _closeCheckout();
+        if (_openInstance !== instance || instance._destroyed) return;
+
+        var overlay = document.createElement('div');
+        overlay.className = 'tickety-overlay';
+        overlay.style.cssText = 'position:fixed;inset:0;z-index:2147483647;background:rgba(0,0,0,0.6);backdrop-filter:blur(4px);display:flex;align-items:center;justify-content:center;opacity:0;transition:opacity 0.25s ease;';
+        overlay.addEventListener('click', function(e) {
+          if (e.target === overlay) instance.close();
         });
 
         var box = document.createElement('div');
         box.style.cssText = 'width:100%;max-width:480px;height:90vh;max-height:700px;border-radius:16px;overflow:hidden;box-shadow:0 25px 50px -12px rgba(0,0,0,0.4);transform:translateY(20px);transition:transform 0.3s ease;background:#fff;';
 
-        _iframe = document.createElement('iframe');
-        _iframe.style.cssText = 'width:100%;height:100%;border:none;background:#fff;';
-        _iframe.srcdoc = html;
-        _iframe.setAttribute('sandbox', 'allow-scripts allow-forms allow-same-origin allow-popups allow-popups-to-escape-sandbox');
-        _iframe.setAttribute('allow', 'payment');
+        var iframe = _createFrame(html);
+        iframe.style.cssText = 'width:100%;height:100%;border:none;background:#fff;';
 
-        box.appendChild(_iframe);
-        _overlay.appendChild(box);
-        document.body.appendChild(_overlay);
+        box.appendChild(iframe);
+        overlay.appendChild(box);
+        document.body.appendChild(overlay);
         document.body.style.overflow = 'hidden';
+        instance._overlay = overlay;
+        instance._iframe = iframe;
 
         requestAnimationFrame(function() {
-          _overlay.style.opacity = '1';
+          overlay.style.opacity = '1';
           box.style.transform = 'translateY(0)';
         });
 
-        document.addEventListener('keydown', _handleEscape);
+        document.addEventListener('keydown', instance._handleEscape);
+      })
+      .catch(function(err) {
+        if (_openInstance === instance) _openInstance = null;
+        instance._overlay = null;
+        if (config.onError) config.onError({ message: err.message });
+      });
+  }
+
+  // ── Checkout frame ──────────────────────────────────────
+
+  // Fetch checkout HTML from the edge function; it is injected via srcdoc, so
+  // the frame shares the host page's origin
+  function _fetchCheckout(instance, eventId) {
+    var config = instance._config;
+    var params = '?key=' + encodeURIComponent(config.key)
+      + '&event=' + encodeURIComponent(eventId)
+      + '&v=' + encodeURIComponent(VERSION)
+      + '&display=' + config.display
+      + '&instance=' + encodeURIComponent(instance.id);
+    if (config.theme.primaryColor) {
+      params += '&color=' + encodeURIComponent(config.theme.primaryColor.replace('#', ''));
+    }
+    params += '&page=' + encodeURIComponent(window.location.href);
+    if (config.accessCode) {
+      params += '&access=' + encodeURIComponent(config.accessCode);
+    }
+    if (config.resumeToken && (!config.resumeEventId || config.resumeEventId === eventId)) {
+      params += '&resume=' + encodeURIComponent(config.resumeToken);
+      config.resumeToken = null; // Restores once; reopening starts fresh
+    }
+    return fetch(CHECKOUT_FN + params).then(function(res) { return res.text(); });
+  }
+
+  function _createFrame(html) {
+    var iframe = document.createElement('iframe');
+    iframe.title = 'Tickety checkout';
+    iframe.srcdoc = html;
+    iframe.setAttribute('sandbox', 'allow-scripts allow-forms allow-same-origin allow-popups allow-popups-to-escape-sandbox');
+    iframe.setAttribute('allow', 'payment');
+    return iframe;
+  }
+
+  // Inline checkout replaces the container's contents; the frame reports its
+  // height through 'resize' events
+  function _mountInline(instance) {
+    var container = instance._container;
+    var config = instance._config;
+    container.innerHTML = '';
+    instance._iframe = null;
+
+    _fetchCheckout(instance, config.eventId)
+      .then(function(html) {
+        if (instance._destroyed) return;
+        var iframe = _createFrame(html);
+        iframe.setAttribute('scrolling', 'no');
+        iframe.style.cssText = 'display:block;width:100%;height:480px;border:none;background:transparent;overflow:hidden;transition:height 0.15s ease;';
+        container.innerHTML = '';
+        container.appendChild(iframe);
+        instance._iframe = iframe;
       })
       .catch(function(err) {
-        if (_config.onError) _config.onError({ message: err.message });
+        if (config.onError) config.onError({ message: err.message });
       });
   }
 
-  function _closeCheckout() {
-    if (!_overlay) return;
-    _overlay.style.opacity = '0';
-    setTimeout(function() {
-      if (_overlay && _overlay.parentNode) _overlay.parentNode.removeChild(_overlay);
-      _overlay = null;
-      _iframe = null;
-      document.body.style.overflow = '';
-    }, 250);
-    document.removeEventListener('keydown', _handleEscape);
-    if (_config && _config.onClose) _config.onClose();
+  function _closeCheckout(instance) {
+    var overlay = instance._overlay;
+    if (!overlay) return;
+    instance._overlay = null;
+    instance._iframe = null;
+    if (_openInstance === instance) _openInstance = null;
+    document.removeEventListener('keydown', instance._handleEscape);
+
+    if (overlay.parentNode) {
+      overlay.style.opacity = '0';
+      setTimeout(function() {
+        if (overlay.parentNode) overlay.parentNode.removeChild(overlay);
+        if (!_openInstance) document.body.style.overflow = '';
+      }, 250);
+    }
+    if (instance._config.onClose) instance._config.onClose();
   }
 
-  function _handleEscape(e) {
-    if (e.key === 'Escape') _closeCheckout();
+  // Resume token from a recovery email link, removed from the address bar so
+  // a reload or shared link doesn't restore the order again. Event instances
+  // only take a token for their own event; list instances take any and open
+  // the event if it is in the list.
+  function _takeResumeToken(eventId) {
+    if (typeof URLSearchParams === 'undefined' || !window.history || !window.history.replaceState) return null;
+    var url = new URL(window.location.href);
+    var token = url.searchParams.get(RESUME_PARAM);
+    var tokenEventId = url.searchParams.get(RESUME_EVENT_PARAM);
+    if (!token || !tokenEventId || (eventId && tokenEventId !== eventId)) return null;
+
+    url.searchParams.delete(RESUME_PARAM);
+    url.searchParams.delete(RESUME_EVENT_PARAM);
+    window.history.replaceState(window.history.state, '', url.toString());
+    return { token: token, eventId: tokenEventId };
   }
 
+  // ── Messages from the checkout frame ────────────────────
+
+  function _instanceForSource(source) {
+    for (var i = 0; i < _instances.length; i++) {
+      var iframe = _instances[i]._iframe;
+      if (iframe && iframe.contentWindow === source) return _instances[i];
+    }
+    return null;
+  }
+
+  // Checkout frames are srcdoc documents, so they post from our own origin
   function _setupMessageListener() {
-    if (_messageHandler) window.removeEventListener('message', _messageHandler);
+    if (_messageHandler) return;
     _messageHandler = function(event) {
-      if (!event.data || typeof event.data !== 'object') return;
-      if (!event.data.type || event.data.type.indexOf('tickety:') !== 0) return;
-      switch (event.data.type) {
-        case 'tickety:checkout_complete':
-          if (_config && _config.onComplete) _config.onComplete(event.data.payload);
-          _closeCheckout();
-          break;
-        case 'tickety:close':
-          _closeCheckout();
-          break;
-      }
+      if (event.origin !== window.location.origin) return;
+      var msg = event.data;
+      if (!msg || typeof msg !== 'object' || msg.source !== 'tickety' || msg.version !== PROTOCOL_VERSION) return;
+      var instance = _instanceForSource(event.source);
+      if (!instance || (msg.instance && msg.instance !== instance.id)) return;
+      _handleFrameEvent(instance, msg.type, msg.payload || {});
     };
     window.addEventListener('message', _messageHandler);
   }
 
+  function _handleFrameEvent(instance, type, payload) {
+    var config = instance._config;
+    var inline = config.display === 'inline';
+
+    if (type === 'resize') {
+      if (inline && instance._iframe && payload.height > 0) instance._iframe.style.height = payload.height + 'px';
+    } else if (type === 'completed') {
+      if (config.onComplete) config.onComplete(payload);
+    } else if (type === 'error') {
+      if (config.onError) config.onError(payload);
+    }
+
+    if (config.onEvent) config.onEvent(type, payload);
+    var listeners = (instance._listeners[type] || []).slice();
+    for (var i = 0; i < listeners.length; i++) listeners[i](payload);
+
+    if (type === 'close') {
+      // 'Done' on an inline checkout starts a fresh order in place
+      if (inline) {
+        _mountInline(instance);
+        if (config.onClose) config.onClose();
+      } else {
+        instance.close();
+      }
+    } else if (type === 'completed' && !inline) {
+      instance.close();
+    }
+  }
+
+  function _postToFrame(instance, type, payload) {
+    var iframe = instance._iframe;
+    if (!iframe || !iframe.contentWindow || window.location.origin === 'null') return;
+    iframe.contentWindow.postMessage(
+      { source: 'tickety', version: PROTOCOL_VERSION, type: type, payload: payload || {} },
+      window.location.origin
+    );
+  }
+
   if (typeof window !== 'undefined') window.Tickety = Tickety;
 })();